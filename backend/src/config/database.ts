@@ -2,6 +2,8 @@ import mongoose from 'mongoose';
 import { config } from './env.config';
 import logger from '../utils/logger';
 import { SubscriptionPlanIndexMigration } from '../utils/migrations/subscription-plan-index-migration';
+import { TenantPlanMigration } from '../utils/migrations/tenant-plan-migration';
+import { RetiredPermissionMigration } from '../utils/migrations/retired-permission-migration';
 
 /**
  * Connect to MongoDB
@@ -93,6 +95,12 @@ const runMigrations = async (): Promise<void> => {
     
     // Run subscription plan index migration
     await SubscriptionPlanIndexMigration.run();
+
+    // Link tenants from the plan enum era to subscription plans
+    await TenantPlanMigration.run();
+
+    // Drop permission keys no route checks from team members and roles
+    await RetiredPermissionMigration.run();
     
     logger.info('Database migrations completed successfully');
   } catch (error) {
@@ -30,12 +30,42 @@ interface EnvConfig {
   BCRYPT_SALT_ROUNDS: number;
   MFA_ISSUER: string;
   MFA_WINDOW: number;
+  MFA_ENCRYPTION_KEY: string;
   SENTRY_DSN?: string;
   SENTRY_ENVIRONMENT: string;
   LOG_LEVEL: string;
   LOG_MAX_SIZE: string;
   LOG_MAX_FILES: number;
   REQUIRE_AUDIT_QUEUE: string;
+
+  // Document Storage
+  STORAGE_DRIVER: string;
+  STORAGE_LOCAL_PATH: string;
+  STORAGE_URL_SECRET: string;
+  STORAGE_URL_TTL: number;
+  MAX_UPLOAD_SIZE_MB: number;
+
+  // Mail
+  APP_URL: string;
+  MAIL_DRIVER: string;
+  MAIL_FROM: string;
+  MAIL_FILE_PATH: string;
+  SMTP_HOST: string;
+  SMTP_PORT: number;
+  SMTP_SECURE: boolean;
+  SMTP_USER?: string;
+  SMTP_PASSWORD?: string;
+  EMAIL_VERIFICATION_TTL_HOURS: number;
+  PASSWORD_RESET_TTL_MINUTES: number;
+
+  // Password Screening
+  BREACHED_PASSWORDS_FILE?: string;
+
+  // Impersonation
+  IMPERSONATION_MAX_MINUTES: number;
+
+  // Usage Metering
+  USAGE_FLUSH_INTERVAL_MINUTES: number;
   
   // Login Attempt Limits
   SUPER_ADMIN_MAX_LOGIN_ATTEMPTS: number;
@@ -122,6 +152,8 @@ export const config: EnvConfig = {
   // MFA
   MFA_ISSUER: getEnvVar('MFA_ISSUER', 'Canadian Immigration Portal'),
   MFA_WINDOW: getEnvNumber('MFA_WINDOW', 2),
+  // Key material for encrypting TOTP secrets at rest
+  MFA_ENCRYPTION_KEY: getEnvVar('MFA_ENCRYPTION_KEY', process.env.JWT_SECRET),
   
   // Monitoring
   SENTRY_DSN: process.env.SENTRY_DSN,
@@ -136,6 +168,44 @@ export const config: EnvConfig = {
   // Set to 'true' in production to enforce Redis-backed audit queue
   // Set to 'false' in development to allow in-memory fallback
   REQUIRE_AUDIT_QUEUE: getEnvVar('REQUIRE_AUDIT_QUEUE', 'false'),
+
+  // Document Storage
+  // STORAGE_DRIVER selects the storage backend ('local' for now)
+  // Signed download URLs are valid for STORAGE_URL_TTL seconds
+  STORAGE_DRIVER: getEnvVar('STORAGE_DRIVER', 'local'),
+  STORAGE_LOCAL_PATH: getEnvVar('STORAGE_LOCAL_PATH', path.resolve(__dirname, '../../storage')),
+  STORAGE_URL_SECRET: getEnvVar('STORAGE_URL_SECRET', process.env.JWT_SECRET),
+  STORAGE_URL_TTL: getEnvNumber('STORAGE_URL_TTL', 900),
+  MAX_UPLOAD_SIZE_MB: getEnvNumber('MAX_UPLOAD_SIZE_MB', 25),
+
+  // Mail
+  // MAIL_DRIVER selects the transport: 'smtp', 'file' (writes .eml files to
+  // MAIL_FILE_PATH) or 'console' (logs messages, for local development and tests)
+  // APP_URL is the frontend origin used to build links in emails
+  APP_URL: getEnvVar('APP_URL', (process.env.CORS_ORIGIN || 'http://localhost:5173').split(',')[0].trim()),
+  MAIL_DRIVER: getEnvVar('MAIL_DRIVER', 'console'),
+  MAIL_FROM: getEnvVar('MAIL_FROM', 'Canadian Immigration Portal <no-reply@localhost>'),
+  MAIL_FILE_PATH: getEnvVar('MAIL_FILE_PATH', path.resolve(__dirname, '../../mail')),
+  SMTP_HOST: getEnvVar('SMTP_HOST', 'localhost'),
+  SMTP_PORT: getEnvNumber('SMTP_PORT', 587),
+  SMTP_SECURE: getEnvVar('SMTP_SECURE', 'false') === 'true',
+  SMTP_USER: process.env.SMTP_USER,
+  SMTP_PASSWORD: process.env.SMTP_PASSWORD,
+  EMAIL_VERIFICATION_TTL_HOURS: getEnvNumber('EMAIL_VERIFICATION_TTL_HOURS', 48),
+  PASSWORD_RESET_TTL_MINUTES: getEnvNumber('PASSWORD_RESET_TTL_MINUTES', 60),
+
+  // Password Screening
+  // Optional file of SHA-1 password hashes ("HASH" or "HASH:COUNT" per line)
+  // screened in addition to the bundled list of common passwords
+  BREACHED_PASSWORDS_FILE: process.env.BREACHED_PASSWORDS_FILE,
+
+  // Impersonation
+  // Longest support session a super admin or tenant admin may start as another user
+  IMPERSONATION_MAX_MINUTES: getEnvNumber('IMPERSONATION_MAX_MINUTES', 60),
+
+  // Usage Metering
+  // How often per-tenant usage counters are copied from Redis to MongoDB
+  USAGE_FLUSH_INTERVAL_MINUTES: getEnvNumber('USAGE_FLUSH_INTERVAL_MINUTES', 5),
   
   // Login Attempt Limits
   // Development: 30 attempts in 1 minute
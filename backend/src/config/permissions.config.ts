@@ -0,0 +1,55 @@
+/**
+ * Permission Catalog
+ * Every permission key requirePermission checks, with the labels shown in the
+ * role editor. Custom roles may only grant staff permissions.
+ *
+ * Only add a key together with the route that checks it; a key nothing checks
+ * would show in the role editor without changing what anyone can do.
+ */
+
+/**
+ * Permissions that can be granted to team members (directly or through a role)
+ */
+export const STAFF_PERMISSION_KEYS = [
+  'create_clients',
+  'edit_clients',
+  'create_applications',
+  'edit_applications',
+  'upload_documents'
+] as const;
+
+/**
+ * Fixed permissions of every client account
+ */
+export const CLIENT_PERMISSION_KEYS = [
+  'view_own_profile',
+  'edit_own_profile',
+  'view_own_applications',
+  'upload_documents'
+] as const;
+
+/**
+ * Fixed permissions of the tenant admin
+ */
+export const TENANT_ADMIN_PERMISSION_KEYS = ['manage_team', 'view_clients', 'manage_settings'] as const;
+
+export type StaffPermission = typeof STAFF_PERMISSION_KEYS[number];
+export type ClientPermission = typeof CLIENT_PERMISSION_KEYS[number];
+export type PermissionKey = StaffPermission | ClientPermission;
+
+export interface PermissionDefinition {
+  key: PermissionKey;
+  label: string;
+  description: string;
+  group: 'clients' | 'applications' | 'documents' | 'self_service';
+  grantableToStaff: boolean;
+}
+
+export const PERMISSION_CATALOG: PermissionDefinition[] = [
+  { key: 'create_clients', label: 'Create clients', description: 'Add new client accounts', group: 'clients', grantableToStaff: true },
+  { key: 'edit_clients', label: 'Edit clients', description: 'Change client details and status', group: 'clients', grantableToStaff: true },
+  { key: 'create_applications', label: 'Create applications', description: 'Open new applications for clients', group: 'applications', grantableToStaff: true },
+  { key: 'edit_applications', label: 'Edit applications', description: 'Update applications and move them through their workflow', group: 'applications', grantableToStaff: true },
+  { key: 'upload_documents', label: 'Upload documents', description: 'Attach documents to applications', group: 'documents', grantableToStaff: true },
+  { key: 'edit_own_profile', label: 'Edit own profile', description: 'Clients update their own profile', group: 'self_service', grantableToStaff: false }
+];
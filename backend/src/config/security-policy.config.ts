@@ -0,0 +1,60 @@
+/**
+ * Tenant Security Policy
+ * Password, lockout and session rules a tenant admin can tighten or relax for
+ * every account of the tenant. Super admins and tenants that never changed
+ * their policy get the defaults below.
+ */
+
+/**
+ * Security policy stored on Tenant.settings.securityPolicy
+ */
+export interface SecurityPolicy {
+  passwordMinLength: number;
+  passwordRequireUppercase: boolean;
+  passwordRequireLowercase: boolean;
+  passwordRequireNumber: boolean;
+  passwordRequireSymbol: boolean;
+  passwordBlockBreached: boolean; // reject passwords found in the breached password corpus
+  passwordMaxAgeDays: number; // 0 = passwords never expire
+  passwordHistoryCount: number; // previous passwords that cannot be reused
+  maxLoginAttempts: number; // 0 = platform default of the account type
+  lockoutDurationMinutes: number; // 0 = platform default of the account type
+  idleSessionTimeoutMinutes: number; // 0 = sessions only end when their tokens expire
+  allowedIpRanges: string[]; // CIDR ranges staff may sign in from; empty = anywhere
+}
+
+/**
+ * Bounds enforced by the settings form and the Tenant schema
+ */
+export const SECURITY_POLICY_LIMITS = {
+  passwordMinLength: { min: 8, max: 128 },
+  passwordMaxAgeDays: { min: 0, max: 365 },
+  passwordHistoryCount: { min: 0, max: 24 },
+  maxLoginAttempts: { min: 0, max: 100 },
+  lockoutDurationMinutes: { min: 0, max: 24 * 60 },
+  idleSessionTimeoutMinutes: { min: 0, max: 24 * 60 },
+  allowedIpRanges: { max: 50 }
+} as const;
+
+/**
+ * The rules that applied before tenants could configure them
+ */
+export const DEFAULT_SECURITY_POLICY: SecurityPolicy = {
+  passwordMinLength: 8,
+  passwordRequireUppercase: true,
+  passwordRequireLowercase: true,
+  passwordRequireNumber: true,
+  passwordRequireSymbol: true,
+  passwordBlockBreached: true,
+  passwordMaxAgeDays: 0,
+  passwordHistoryCount: 0,
+  maxLoginAttempts: 0,
+  lockoutDurationMinutes: 0,
+  idleSessionTimeoutMinutes: 0,
+  allowedIpRanges: []
+};
+
+/**
+ * Account types held to allowedIpRanges; clients sign in from anywhere
+ */
+export const IP_RESTRICTED_USER_TYPES: readonly string[] = ['tenant_admin', 'team_member'];
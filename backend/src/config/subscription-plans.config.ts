@@ -0,0 +1,147 @@
+/**
+ * Default Subscription Plans
+ * The plans tenants were on before plans became documents. They are seeded
+ * by the tenant plan migration and the demo data script, and can then be
+ * edited by super admins like any other plan.
+ */
+
+import { ISubscriptionPlan } from '../models/subscription-plan.model';
+
+/**
+ * Fields of a seeded plan
+ */
+export type SubscriptionPlanSeed = Pick<
+  ISubscriptionPlan,
+  'name' | 'slug' | 'description' | 'pricing' | 'limits' | 'features' | 'isPopular' | 'sortOrder' | 'trialDays'
+>;
+
+/**
+ * Plan given to new tenants when the super admin does not pick one
+ */
+export const DEFAULT_PLAN_SLUG = 'basic';
+
+/**
+ * One seed per value of the former Tenant.plan enum
+ */
+export const DEFAULT_SUBSCRIPTION_PLANS: SubscriptionPlanSeed[] = [
+  {
+    name: 'Free',
+    slug: 'free',
+    description: 'For independent consultants getting started with the portal',
+    pricing: { monthly: 0, yearly: 0, currency: 'CAD' },
+    limits: {
+      maxTeamMembers: 2,
+      maxClients: 50,
+      maxStorage: 500,
+      apiCallsPerMonth: 2000,
+      documentUploadsPerMonth: 200
+    },
+    features: {
+      visitorVisa: true,
+      studyVisa: true,
+      workPermit: true,
+      permanentResidence: false,
+      familySponsorship: false,
+      businessImmigration: false,
+      customBranding: false,
+      whiteLabel: false,
+      prioritySupport: false,
+      apiAccess: false,
+      advancedAnalytics: false,
+      customIntegrations: false
+    },
+    isPopular: false,
+    sortOrder: 0,
+    trialDays: 0
+  },
+  {
+    name: 'Basic',
+    slug: 'basic',
+    description: 'For small practices handling the most common application types',
+    pricing: { monthly: 49, yearly: 490, currency: 'CAD' },
+    limits: {
+      maxTeamMembers: 5,
+      maxClients: 100,
+      maxStorage: 1024,
+      apiCallsPerMonth: 10000,
+      documentUploadsPerMonth: 1000
+    },
+    features: {
+      visitorVisa: true,
+      studyVisa: true,
+      workPermit: true,
+      permanentResidence: true,
+      familySponsorship: true,
+      businessImmigration: false,
+      customBranding: false,
+      whiteLabel: false,
+      prioritySupport: false,
+      apiAccess: false,
+      advancedAnalytics: false,
+      customIntegrations: false
+    },
+    isPopular: false,
+    sortOrder: 1,
+    trialDays: 14
+  },
+  {
+    name: 'Premium',
+    slug: 'premium',
+    description: 'For growing firms that want their own branding and deeper reporting',
+    pricing: { monthly: 149, yearly: 1490, currency: 'CAD' },
+    limits: {
+      maxTeamMembers: 20,
+      maxClients: 1000,
+      maxStorage: 10240,
+      apiCallsPerMonth: 100000,
+      documentUploadsPerMonth: 10000
+    },
+    features: {
+      visitorVisa: true,
+      studyVisa: true,
+      workPermit: true,
+      permanentResidence: true,
+      familySponsorship: true,
+      businessImmigration: true,
+      customBranding: true,
+      whiteLabel: false,
+      prioritySupport: true,
+      apiAccess: false,
+      advancedAnalytics: true,
+      customIntegrations: false
+    },
+    isPopular: true,
+    sortOrder: 2,
+    trialDays: 14
+  },
+  {
+    name: 'Enterprise',
+    slug: 'enterprise',
+    description: 'For large firms that need white labelling, integrations and API access',
+    pricing: { monthly: 499, yearly: 4990, currency: 'CAD' },
+    limits: {
+      maxTeamMembers: 100,
+      maxClients: 10000,
+      maxStorage: 102400,
+      apiCallsPerMonth: 1000000,
+      documentUploadsPerMonth: 100000
+    },
+    features: {
+      visitorVisa: true,
+      studyVisa: true,
+      workPermit: true,
+      permanentResidence: true,
+      familySponsorship: true,
+      businessImmigration: true,
+      customBranding: true,
+      whiteLabel: true,
+      prioritySupport: true,
+      apiAccess: true,
+      advancedAnalytics: true,
+      customIntegrations: true
+    },
+    isPopular: false,
+    sortOrder: 3,
+    trialDays: 30
+  }
+];
@@ -0,0 +1,342 @@
+/**
+ * Common Password Hashes
+ * SHA-1 hashes (uppercase hex) of passwords that appear at the top of public
+ * breach corpora, plus the usual variations that satisfy complexity rules
+ * ("Password1!", "Summer2024!", "Welcome123!"). Only hashes are bundled;
+ * BreachedPasswordService indexes them by 5-character prefix.
+ *
+ * A larger corpus in the Pwned Passwords download format can be added with
+ * BREACHED_PASSWORDS_FILE.
+ */
+export const COMMON_PASSWORD_HASHES: readonly string[] = [
+  '011C945F30CE2CBAFC452F39840F025693339C42',
+  '019DB0BFD5F85951CB46E4452E9642858C004155',
+  '01B307ACBA4F54F55AAFC33BB06BBBF6CA803E9A',
+  '02726D40F378E716981C4321D60BA3A325ED6A4C',
+  '02E0A999C50B1F88DF7A8F5A04E1B76B35EA6A88',
+  '0340DE383CFC8769C0E60D579E8FE0A93300694A',
+  '03896534C389418A4353EF18F9D0D7F20ACC937C',
+  '03FDF1323C8D4770C90576CE2A1860D476DED8AB',
+  '042A71C86D3FD50A71A0ECD68BDEEA9642DA5522',
+  '043A558250409758B64F73D07D7F06B3DF654BC0',
+  '044973F664367E41D082942BAFEA7C346B770196',
+  '059A69F5CCC9681F43D9899FC6A9FA053D041301',
+  '05B530AD0FB56286FE051D5F8BE5B8453F1CD93F',
+  '05CC52D1635CF1FAD3561B9F8AA1CFDE65755CF2',
+  '05FE7461C607C33229772D402505601016A7D0EA',
+  '069F628C6633CBA70427D594FC7A784D38F50518',
+  '076D3E6C4B9F654B5B220B9045B7458AB6B4CBC6',
+  '08B314F0E1E2C41EC92C3735910658E5A82C6BA7',
+  '0926C950FE247C3B465EB13E258EE468D239A065',
+  '0B2FF7669F8405F568445B5DF749F340A82784FE',
+  '0C6D47A02431F6D346DC9CBCE7219174CF1A47D8',
+  '0E5A7332E335746EA2A096159D4BD158B6F09CB0',
+  '0E6234D13E44C976018C2A551ACB752F32AB7A66',
+  '0F12541AFCCE175FB34BB05A79C95B76E765488B',
+  '10C28F9CF0668595D45C1090A7B4A2AE98EDFA58',
+  '1103B11F29B7C4522DE0A8FCD0C5938349209C0F',
+  '119E9F64E12B97293A8334CCD162C1245786336D',
+  '12E9293EC6B30C7FA8A0926AF42807E929C1684F',
+  '1411678A0B9E25EE2F7C8B2F7AC92B6A74B3F9C5',
+  '1561482C1292222496D39BB43EB61619184A51C9',
+  '17B9E1C64588C7FA6419B4D29DC1F4426279BA01',
+  '18A13A41C99BA0208631F548DC7D190E5D691704',
+  '18C28604DD31094A8D69DAE60F1BCD347F1AFC5A',
+  '19485E369C691FA8ECE1FABC8A6CEABFB5666B79',
+  '1999E4893F732BA38B948DBE8D34ED48CD54F058',
+  '1BFE76A453E484DE74A2CD5FC44BBB10B55B2F92',
+  '1CB5BD5A9E45420321F44C72DA5D90D7F0432FFB',
+  '1CDF5D93825316BA28A6F9C2A20D9AA117CBD1A4',
+  '1ECD76C2B070DDC45F569486B0CBAC836AC5A78B',
+  '1F3C53AE14626035383B39C207564D32D083E8FD',
+  '1FADFB22B9FE1CECF3169407284621A623681ADF',
+  '20257AB9F1A51B874AF29BE08FF16FA03BEF607F',
+  '20EABE5D64B0E216796E834F52D61FD0B70332FC',
+  '21BD12DC183F740EE76F27B78EB39C8AD972A757',
+  '224DFA13795234063140F1C8ADBC6CD332A1E852',
+  '22EBBDEF9118D3BD43BF5D678D3B2E027338D711',
+  '2394EEAC9FC3DB56189A894E221220B6089E78D3',
+  '23F2916E01209D6282F226BE9677AFFAEC44A8D6',
+  '257696C131BE052B14D47A8C5442E0FB6324AFC1',
+  '25821409CA02C93B79222114DB29BA3362B44FFB',
+  '2583FB4A7FF77DAA2AE761CC2E4D5CF7C3616CD3',
+  '258465759831222D475216E3266E71E3567310DD',
+  '25C2C9AFDD83B8D34234AA2881CC341C09689AAA',
+  '28F7FDE4C0AE8BADC391B5C71819FF59F8444724',
+  '2B5BF08902A9979F63AC333C4A658F8D66391EFA',
+  '2C490B8E68B92E79CE344C25F3D87FC297D12346',
+  '2C4C3891E2AC6958E9810A1E49C6705784FBFA1A',
+  '2D27B62C597EC858F6E7B54E7E58525E6A95E6D8',
+  '327156AB287C6AA52C8670E13163FC1BF660ADD4',
+  '32CA9FC1A0F5B6330E3F4C8C1BBECDE9BEDB9573',
+  '36E618512A68721F032470BB0891ADEF3362CFA9',
+  '389DB5AA47221E72B8A38CD16866A59536217C81',
+  '38E921AE852BFA8BA95DB68B013B22C0E13FAC1C',
+  '3933E2A9826474A6CE063AAD3AFF3662C5AFF2B0',
+  '3A960464D36C1B8BAD183ED57EE79C0E39953CCE',
+  '3ACD0BE86DE7DCCCDBF91B20F94A68CEA535922D',
+  '3B0E25126E7EFABA142EFD14D111D58E29507BCB',
+  '3D0F3B9DDCACEC30C4008C5E030E6C13A478CB4F',
+  '3D4F2BF07DC1BE38B20CD6E46949A1071F9D0E3D',
+  '3FB372A9023613ACE074B4E66ECC4360A00F03B4',
+  '3FCFC1F7F34E78A937E81171BA51DC39538DB993',
+  '40123E9C6273385EA69892C48C80AA6CB25B9113',
+  '42319EC57F31FA01E533D7E07817E24ED8AC54DF',
+  '468EE5CBD54E42B8AEAAD13C130F780F0D091173',
+  '46C6551C7C2DD74129961BE80650103C2BABC605',
+  '48058E0C99BF7D689CE71C360699A14CE2F99774',
+  '48EFC4851E15940AF5D477D3C0CE99211A70A3BE',
+  '49EFEF5F70D47ADC2DB2EB397FBEF5F7BC560E29',
+  '4A2A0182D2384F5A781FF3DA4FD6167C832ECB91',
+  '4ACEBEF29D98E2B58085D7481C92130B33D5DF6B',
+  '4BD074CF429AB454CD7BEE74BE51083A93CD8AA9',
+  '4BE04E36BD7FFFD21F4C29B531B34D8C4D5599C0',
+  '4CD3677E5F005658864DE9F78234E8EB31B1013B',
+  '4D9012B4A77A9524D675DAD27C3276AB5705E5E8',
+  '4E17A448E043206801B95DE317E07C839770C8B8',
+  '4E91B7DF56510347F798787F51B6AFB36D1DC534',
+  '4F26AEAFDB2367620A393C973EDDBE8F8B846EBD',
+  '4FD1F362E4E06AF4731E1E393F773F689F8A6C03',
+  '51EC0714B63DB58C77111F4BED49D803D57DAD3C',
+  '52AB64D3046E9CF66B7DED2B2B8FB123F70B8F2F',
+  '52AD1A725942BBE66C8BA561B470AB85B841E964',
+  '54577DB29EFF8092D8F0240CD9EA718E1B776E1C',
+  '56259DD1C4EA0117CD601FFF7AEFA0E8892A3B25',
+  '57B2AD99044D337197C0C39FD3823568FF81E48A',
+  '5818FB2B37CF0C92289D1C5D8F5B96117E8274F5',
+  '59033478180D07080D5E4F3BAA0099996C364162',
+  '5B31D97FEAF83E82CE94DFA9D8CD55797EA116E6',
+  '5BAA61E4C9B93F3F0682250B6CF8331B7EE68FD8',
+  '5C17FA03E6D5FC247565E1CD8FFA70E1BFE5B8D9',
+  '5C6ACA6504E010FC38BDBF9B940CAA1D463407CF',
+  '5C6D9EDC3A951CDA763F650235CFC41A3FC23FE8',
+  '5C7A5D92C10067EBC5F0D002EDE83F3559C6ADF8',
+  '5C7CFB349CCC87675BA54B7EF7573BBBBCE839AA',
+  '5CEC175B165E3D5E62C9E13CE848EF6FEAC81BFF',
+  '5D74AE093A16A00E5AF127763F2DC7E13988F162',
+  '5F50A84C1FA3BCFF146405017F36AEC1A10A9E38',
+  '5F80211CCB43CD491C4E2FFBBDA4C7F6BA0FF604',
+  '5FA339BBBB1EEACED3B52E54F44576AAF0D77D96',
+  '5FEE00239940F883D4C2854E41C7F989E75278A3',
+  '601F1889667EFAEBB33B8C12572835DA3F027F78',
+  '6157A04ED2C5842835DB1E0D4CFD6F83147170EA',
+  '624C22A8C8F8C93F18FE5ECD4713100C8D754507',
+  '634BAA4C38E57956A6E027E790E943E3B059D79C',
+  '6367C48DD193D56EA7B0BAAD25B19455E529F5EE',
+  '63C1BDC371ABF1793BC02A5F97798EAFC2826EBE',
+  '63D0B29482ACE44D05CEF9B17D913D092ED8022A',
+  '641111978A46E7424A74C6A8B23F4B145A0E9440',
+  '6420ED4D831B436D1E92D25605D18297296374E3',
+  '64356BCFAE350C970263C1CE575185B289F7B836',
+  '64438EE426438161DA88554B3E2DE796B0CA265E',
+  '64C1A55C1AF56BC31D1E1480390737678577EF10',
+  '664819D8C5343676C9225B5ED00A5CDC6F3A1FF3',
+  '67A258218F68F6B5F7142593CF4B1F7D87622DD8',
+  '691AB698A43FD6443F845CCD2B7F8F1607A14AEE',
+  '6AEAB6E5D37CC0937ACEC6D223A1DE24FE6469AA',
+  '6AF2BB477DBF550D2B729D25C5E664DF709CC6E9',
+  '6B055C266F275E64A4688D2B4E09F4996434EA76',
+  '6B427A147DE563E9A6CA19676FBF190ACB5DF019',
+  '6BB53C5AA217B37A18FCB1E262069A6AF9F46063',
+  '6C616F7C2D2FDE9018A09F06EAEFCFC7582BC7BA',
+  '6E039C90EE25D8C0AB16461542068250CA45617D',
+  '6E1126F61663FAB8BC4BF7C73BF53613143E802F',
+  '6E2F9E6111E77EDD0C446EA7A84E25323D137A61',
+  '701B389B848A2B1CFAB867093101D8D5AC56ADDD',
+  '70352F41061EDA4FF3C322094AF068BA70C3B38B',
+  '70CCD9007338D6D81DD3B6271621B9CF9A97EA00',
+  '7110EDA4D09E062AA5E4A390B0A572AC0D2C0220',
+  '718AA9C126A9B8FF916D265F76A43193202D1ED2',
+  '719855E8F4EBD94341277B0B0D50B75C5187133F',
+  '7212A9E01329EA93A57F574BD9BF77695D5FDCA4',
+  '721D65122734734800A1EDD6E68C03210E7B2ACA',
+  '72655306BB703517B77A9FD41A1C7D0186FE2F6A',
+  '72D948B845714CE91D664A8DFA74F4B892C34187',
+  '74A871ACBF060DDA5FC7260D05A5924A34E4C0E7',
+  '7505D64A54E061B7ACD54CCD58B49DC43500B635',
+  '750A5974A42D787EA737308EDA09EF53AFC19BB5',
+  '7646CF5D418416EAFA8B95B9CF855384868FA7C9',
+  '7744CC2C7533B130ABAFB41FDBCC5A7DC3F27B1A',
+  '775BB961B81DA1CA49217A48E533C832C337154A',
+  '782F9B10621E362D5BD0DEF3A279B5E0908C9EBB',
+  '7A2715047EAD6A82DF8F71A32D2C810DE5BD5654',
+  '7AB515D12BD2CF431745511AC4EE13FED15AB578',
+  '7AF2D10B73AB7CD8F603937F7697CB5FE432C7FF',
+  '7B109FF7ECC7E5499440AC1CDDE7AF48AAA99B1F',
+  '7C222FB2927D828AF22F592134E8932480637C0D',
+  '7C4A8D09CA3762AF61E59520943DC26494F8941B',
+  '7C6A61C68EF8B9B6B061B28C348BC1ED7921CB53',
+  '7CE0359F12857F2A90C7DE465F40A95F01CB5DA9',
+  '7CF7EDDB174125539DD241CD745391694250E526',
+  '7E8B0A3433F1210A9699D85420E363A1B162ECAC',
+  '7EA35D812706D9213868749011AF1ED4FA2F6AA0',
+  '7ECFD8F97B4729C6FF0799B0B4D40F870083B461',
+  '85435454ABDC6ED91D70C06F8DDF8F5FD4CFF610',
+  '87987A9F8D2B66364F449C812CD272796DF31988',
+  '88EA39439E74FA27C09A4FC0BC8EBE6D00978392',
+  '8A5C1DA8F7FB3D1EC1266DB175AFE2B8F6BC745C',
+  '8BE3C943B1609FFFBFC51AAD666D0A04ADF83C9D',
+  '8C16F71669B51628630F3EE0D57CC3922F1F1398',
+  '8C258085654083B891CB5125CB6DCB740C8A73F8',
+  '8CB2237D0679CA88DB6464EAC60DA96345513964',
+  '8CEAC321491CB78D25E920D5DA2F9CDE7771C171',
+  '8D6E34F987851AA599257D3831A1AF040886842F',
+  '8EDE2197DB64F12BD193DBF6B0B692BC40324C45',
+  '8F48B8A37D8A616532DA324CE09655483F2B0C97',
+  '92119E2C63E9366ACFEFE818B50537A85577E2DB',
+  '929D3BA22D02B494DD0971784A3700C3DBF1D89F',
+  '9361EF40BC6DFE3EE584A99DA464433891608280',
+  '93EC71B22793A81569C94CA17E4D9C293D8E201F',
+  '9752FB540F7084FF266A7A6439FE883C380CF49F',
+  '97BFB233FA3323235F23EF736074205DB33FF4F9',
+  '98B3BC1244C4138D4D12DFD0C8AF12AC4CB49EA5',
+  '98FC5DB8F2C0A6DE55CDF4979C036F79E0809B5B',
+  '99996B911567C83CCE17CDF194F314975C57DDF1',
+  '9A94C57E6509FB0127440A0E3D93DE7B17870560',
+  '9BC34549D565D9505B287DE0CD20AC77BE1D3F2C',
+  '9C01A257262779E8CC575BF5E4A8E5386CC69FBA',
+  '9D4E1E23BD5B727046A9E3B4B7DB57BD8D6EE684',
+  '9E5A10892E1C259B9C5CDCBAC1592C7028F9E21B',
+  '9F2FEB0F1EF425B292F2F94BC8482494DF430413',
+  '9F39191BF3DF50D8116AEF315B1AEFD0C866334D',
+  '9F82A9E8C93E69A1A6276A738D0B30626A7CA38E',
+  '9FA5F77B7092889C24406B76DDF57DC73441A4B1',
+  '9FD8DE5FC2A7C2C0D469B2FFF1AFDE4E5DEF37BA',
+  'A1F7384D8A5C0D74E31B506BA1913CB30549E615',
+  'A29C57C6894DEE6E8251510D58C07078EE3F49BF',
+  'A2C901C8C6DEA98958C219F6F2D038C44DC5D362',
+  'A3784E7DA31836B8977BC962AE675672D01D2B47',
+  'A40A760C29C67CCF2F273524AE3BF5FB81BB67BD',
+  'A4AC914C09D7C097FE1F4F96B897E625B6922069',
+  'A642A77ABD7D4F51BF9226CEAF891FCBB5B299B8',
+  'A6F375A196CD4C89C41DBB4500553EBF3BAB0A41',
+  'A7B2E510D1699FCB1EC71B429D30C11B925F7F7F',
+  'A7D579BA76398070EAE654C30FF153A4C273272A',
+  'A9DD38BDE0AE0B3DEEFCC6FD40E38A9CA1864A97',
+  'AB87D24BDC7452E55738DEB5F868E1F16DEA5ACE',
+  'AC137C6AE0947718332991E7CB2F50EB20B62AAA',
+  'AD43C949240DB69BCF08FFAD52F7E8CF8D49B642',
+  'AD70AB97AE1376E656002641CFB067C9C94906A2',
+  'AF6DAF5F1A60C91F73361DD476C97E496BEDA065',
+  'AF8978B1797B72ACFFF9595A5A2A373EC3D9106D',
+  'AFBA137331D0450D9FB52DF738268407E0A594A4',
+  'AFF2D470558A941C5151DD7215FA117997A2459F',
+  'B01AFC2B077956ACC69F99E0B7DF1CB70CB01331',
+  'B0399D2029F64D445BD131FFAA399A42D2F8E7DC',
+  'B09833CEC69EFF1BB667940A45E311262E85A422',
+  'B1A82B073923065A2E946F662B485850FAB5F702',
+  'B1B3773A05C0ED0176787A4F1574FF0075F7521E',
+  'B1D1B6F79FDB2F60C475C65B7D4ABE9F8689D498',
+  'B2E98AD6F6EB8508DD6A14CFA704BAD7F05F6FB1',
+  'B2FD7B5C7B7A67E409EDA911C0D3DB0119FD7449',
+  'B357A5DE121B582FD1798C4C0217832D6C99B6B9',
+  'B3ACA92C793EE0E9B1A9B0A5F5FC044E05140DF3',
+  'B44DDA1DADD351948FCACE1856ED97366E679239',
+  'B66525C5409AA374E64653793BFA643780560C65',
+  'B6B0D683FB5D633281499F18F7B89872F250D312',
+  'B75C9C3D904A16107B9C620CC8E6AF24C7F171CC',
+  'B7A875FC1EA228B9061041B7CEC4BD3C52AB3CE3',
+  'B7C40B9C66BC88D38A59E554C639D743E77F1B65',
+  'B80A9AED8AF17118E51D4D0C2D7872AE26E2109E',
+  'B84689B769AB3D929F7CC14EE35E77C4AE6427C8',
+  'B881647320948A60240C9CFAE7ED671FEC7472B5',
+  'B902A60A6ED6D802742199E5691D0CAF93F1E388',
+  'B9EC4161952648B791D0FED3926B0205A261057A',
+  'BAB2039A84DBDE1E4A77EF90E78B7A2992D8FAA8',
+  'BADCFA3C62742B3BCC1DCD893E78713BD36AA430',
+  'BCD17489072F2AE6A70FBA6C970AF08E9F7E7606',
+  'BCEF7A046258082993759BADE995B3AE8BEE26C7',
+  'BF2F749E80C970F50552E9D5F3E8434E78B88D35',
+  'BF744BC4C40CC35D471094F18F57DE0E9E8169A0',
+  'BFE54CAA6D483CC3887DCE9D1B8EB91408F1EA7A',
+  'C0A7959C34C26BEA8F03BD02A579485E5BE597BB',
+  'C0B137FE2D792459F26FF763CCE44574A5B5AB03',
+  'C129B324AEE662B04ECCF68BABBA85851346DFF9',
+  'C12C5BC8FD50B3D4AB5AB92B605D09DCA9DB8F1E',
+  'C23CA618D465AF5C1A4509A85671BFECDC8D5F75',
+  'C4D33C8C4CDCFB223029C5F850B39215A127EBFA',
+  'C60266A8ADAD2F8EE67D793B4FD3FD0FFD73CC61',
+  'C62E583F78A4EDE9DABCDDCF0F855CAED4E8E26B',
+  'C6922B6BA9E0939583F973BC1682493351AD4FE8',
+  'C86A5AD801E928C85582934FD789E80D035FA027',
+  'C984AED014AEC7623A54F0591DA07A85FD4B762D',
+  'CB45C671CBC500627EA424EEA5F91996221B5935',
+  'CBF2510A5F9F7EECE23428DA7125C06115839E2B',
+  'CBFDAC6008F9CAB4083784CBD1874F76618D2A97',
+  'CC9F816A42431CF852CDC7A3FAD42A6F65FFCE24',
+  'CDF547ED4C64E6994AF35CFCD69C4204C9227A97',
+  'CEDF41FCCB586DC39E1CE34BB482F0AFE557B49F',
+  'CF2E875D70C402E4AAF32CEB64B1FA6F7396AF59',
+  'D033E22AE348AEB5660FC2140AEC35850C4DA997',
+  'D04C1675B232C6ECE69ED95E189E95D589F217B0',
+  'D0C26693944067FDB65435D60DD64B809B49EE99',
+  'D0D29DBCB4E330C1255F400391C8D4A9EE7D42C8',
+  'D1AA4DF922CE43EFA526D61435DD3FE0640E43B2',
+  'D318F44739DCED66793B1A603028133A76AE680E',
+  'D4A0009C9DCE1071032B0292CC75A8530458C426',
+  'D4BAFB9BD40B8C760CAF31C0255A16CA2ACDC782',
+  'D4F55DEC8C7BC9675182779E564FAE1327D30F9B',
+  'D528FCA3B163C05703E88B5285440BEC28ECF185',
+  'D5AD4C78031096D2F3029736E848B206F1A4AE18',
+  'D6955D9721560531274CB8F50FF595A9BD39D66F',
+  'D6CFC61C43B384DA5BFC0042FB7C6FF87A273658',
+  'D6CFE5E76C8347BC803168FE861F69FCC69CC79C',
+  'D812B03A7F4B03215457DDDECC7F95AA83D5793E',
+  'D8CD10B920DCBDB5163CA0185E402357BC27C265',
+  'DC796FFDB94337B1B76087DED630ADA2E7A02ACD',
+  'DCA0A5AFD0B457EE36F8862369C7FDA58C162B25',
+  'DD08B58E1D30DAD48D37A35A8760CFFE8D756CFA',
+  'DD5FEF9C1C1DA1394D6D34B248C51BE2AD740840',
+  'DDDD5D7B474D2C78EBBB833789C4BFD721EDF4BF',
+  'DF1E9A98B8022278F1A6B7F5F058E2B35696C680',
+  'E0C95748A455C27A80FD289269120D4944D1F318',
+  'E1553510FED1991704D85BA82CC2750DE6978109',
+  'E286977B13F1A89E20D0459207545D15FE1EBA08',
+  'E35BECE6C5E6E0E86CA51D0440E92282A9D6AC8A',
+  'E38AD214943DAAD1D64C102FAEC29DE4AFE9DA3D',
+  'E3CD9F6469FC3E1ACFB9F2BDBFC5A3D2BBB8E2AD',
+  'E40079376685EB1FE1FE5A15E62D0763C3949E9B',
+  'E5A0AF1773F05A4DF991573A065F34BA3F6A876E',
+  'E643E81D2800486AB1928E09016F949B1892CD27',
+  'E6852777C0260493DE41FB43918AB07BBB3A659C',
+  'E68E11BE8B70E435C65AEF8BA9798FF7775C361E',
+  'E6B6AFBD6D76BB5D2041542D7D2E3FAC5BB05593',
+  'E7D537E128158790157EA057BB883E0292A84930',
+  'E8126C64C3486E84081FFFAD6A0AB22D4267BB41',
+  'E8C95637C938A1742944CAF1F9E73DEF5E8A81A1',
+  'E9AF588C391D883301918A06D0C99F2BAB3E8089',
+  'EABA2101A3D27285348428A18F37AB7C01718F20',
+  'EBFC7910077770C8340F63CD2DCA2AC1F120444F',
+  'EC4083CA341DA86269204F1FDEBBA909F0F5699E',
+  'EC6EC9BEE724C1C93B29E340C2BD68FA2785E8A0',
+  'ED1B1BB9F421F924E86607A9ECAF35DF4CD9C63F',
+  'ED9D3D832AF899035363A69FD53CD3BE8F71501C',
+  'EDF48CC382D9AE6D48F6A936A426E23B26F77575',
+  'EE8D8728F435FD550F83852AABAB5234CE1DA528',
+  'EF170267A075E94CB86DE95BD84D0172801D7241',
+  'F1DF71A9D60CD46A2E09691E504C4E09A4DA9A7A',
+  'F2439E4EA89A947308076ED64BCB5EDD10BA4892',
+  'F2847B1BD9624F927E979C1846D9FE17DD65F518',
+  'F2A12F187EBB7080BD75AAC9160214E6B1E49F7D',
+  'F32157A45887E4FE5ADC0B5198F7EC4920A526D7',
+  'F48DA0ECF74636BAE18AD810F233E7AC427E82D2',
+  'F4A69973E7B0BF9D160F9F60E3C3ACD2494BEB0D',
+  'F4EE7415066B23ED0C5555E3A10AA76726A995D7',
+  'F5074EC003C1FC5B5DBE2A5C36E8B902047CF0F1',
+  'F58CF5E7E10F195E21B553096D092C763ED18B0E',
+  'F638E2789006DA9BB337FD5689E37A265A70F359',
+  'F7A9E24777EC23212C54D7A350BC5BEA5477FDBB',
+  'F7C3BC1D808E04732ADF679965CCC34CA7AE3441',
+  'F80D0CA101E967B50B730DDF8E8ACA0DE85E8DF6',
+  'F865B53623B121FD34EE5426C792E5C33AF8C227',
+  'F9E6D0785C5A5016BFA187C8F525633FF7511E21',
+  'FA8ED9594223987C8C506A1232EF4AF7788DC831',
+  'FA9BEB99E4029AD5A6615399E7BBAE21356086B3',
+  'FAC673092FBDCAB2CD92EFC19675F2750ED97CA1',
+  'FBA9F1C9AE2A8AFE7815C9CDD492512622A66302',
+  'FC84AAA687374AED41957693F32664E5F4981862',
+  'FCB8F40140297C7D1E3464C53E1F9A8BC4DDBEDF',
+  'FCDF256371719D1C93F2D900CAA6599F7A6D7CDE',
+  'FD68D303E5C01C188D5518526CEE844721646A36',
+  'FE0D6523ECCB365C4740635E1712B8A73C54FD2D'
+];
@@ -0,0 +1,250 @@
+/**
+ * Admin Team Controller
+ * Handles the admins of a tenant for tenant admins
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 1: No console.log (using logger)
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ */
+
+import { Request, Response } from 'express';
+import { AdminTeamService } from './admin-team.service';
+import { AdminTeamError } from './errors/admin-team.errors';
+import { InviteAdminInput } from './admin-team.schemas';
+import logger from '../../utils/logger';
+
+/**
+ * Admin Team Controller
+ */
+export class AdminTeamController {
+  /**
+   * List admins
+   * GET /api/v1/tenant-admin/admins
+   */
+  static async listAdmins(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const admins = await AdminTeamService.listAdmins(tenantId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          admins
+        }
+      });
+    } catch (error) {
+      logger.error('List tenant admins failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId: req.user?.tenantId
+      });
+
+      if (error instanceof AdminTeamError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'TENANT_ADMINS_FETCH_FAILED',
+          message: 'Failed to fetch admins'
+        }
+      });
+    }
+  }
+
+  /**
+   * Invite admin
+   * POST /api/v1/tenant-admin/admins
+   */
+  static async inviteAdmin(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+      const adminId = req.user?.userId;
+
+      if (!tenantId || !adminId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const input = req.body as InviteAdminInput;
+      const admin = await AdminTeamService.inviteAdmin(tenantId, adminId, input);
+
+      logger.info('Tenant admin invited', {
+        tenantAdminId: admin.id,
+        tenantId,
+        invitedBy: adminId
+      });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          admin,
+          message: 'Invitation sent successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Invite tenant admin failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId: req.user?.tenantId
+      });
+
+      if (error instanceof AdminTeamError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'TENANT_ADMIN_INVITE_FAILED',
+          message: 'Failed to invite admin'
+        }
+      });
+    }
+  }
+
+  /**
+   * Remove admin
+   * DELETE /api/v1/tenant-admin/admins/:adminId
+   */
+  static async removeAdmin(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+      const adminId = req.user?.userId;
+
+      if (!tenantId || !adminId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      await AdminTeamService.removeAdmin(tenantId, adminId, req.params.adminId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'Admin removed successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Remove tenant admin failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantAdminId: req.params.adminId,
+        tenantId: req.user?.tenantId
+      });
+
+      if (error instanceof AdminTeamError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'TENANT_ADMIN_REMOVE_FAILED',
+          message: 'Failed to remove admin'
+        }
+      });
+    }
+  }
+
+  /**
+   * Transfer ownership
+   * POST /api/v1/tenant-admin/admins/:adminId/transfer-ownership
+   */
+  static async transferOwnership(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+      const adminId = req.user?.userId;
+
+      if (!tenantId || !adminId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const admins = await AdminTeamService.transferOwnership(tenantId, adminId, req.params.adminId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          admins,
+          message: 'Ownership transferred successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Transfer tenant ownership failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantAdminId: req.params.adminId,
+        tenantId: req.user?.tenantId
+      });
+
+      if (error instanceof AdminTeamError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'TENANT_OWNERSHIP_TRANSFER_FAILED',
+          message: 'Failed to transfer ownership'
+        }
+      });
+    }
+  }
+}
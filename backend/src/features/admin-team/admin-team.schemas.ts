@@ -0,0 +1,38 @@
+/**
+ * Admin Team Zod Validation Schemas
+ * Input validation for managing the admins of a tenant
+ *
+ * Following CORE-CRITICAL Rule 12: Validate ALL external data
+ */
+
+import { z } from 'zod';
+import { schemas } from '../../utils/zod.schemas';
+
+/**
+ * Admin ID Params Schema
+ */
+export const adminIdSchema = z.object({
+  params: z.object({
+    adminId: schemas.objectId
+  })
+});
+
+/**
+ * Invite Admin Schema
+ */
+export const inviteAdminSchema = z.object({
+  body: z.object({
+    email: schemas.secureEmail,
+    firstName: z.string()
+      .min(1, 'First name is required')
+      .max(50, 'First name must not exceed 50 characters')
+      .trim(),
+    lastName: z.string()
+      .min(1, 'Last name is required')
+      .max(50, 'Last name must not exceed 50 characters')
+      .trim()
+  })
+});
+
+// Type exports
+export type InviteAdminInput = z.infer<typeof inviteAdminSchema>['body'];
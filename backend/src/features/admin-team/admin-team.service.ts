@@ -0,0 +1,229 @@
+/**
+ * Admin Team Service
+ * The admins of a tenant: invite, remove and transfer ownership
+ *
+ * Every admin is their own account, so sessions, MFA and the audit trail
+ * are per person. The owner manages the other admins; any admin may leave
+ * except the owner, who has to hand ownership over first.
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ * - Rule 12: Validate ALL external data
+ */
+
+import { HydratedDocument } from 'mongoose';
+import { TenantAdmin, ITenantAdmin } from '../../models/tenant-admin.model';
+import { SecurityUtils, TokenUtils } from '../../utils/auth.utils';
+import { ValidationUtils } from '../../utils/validation.utils';
+import PermissionVersionService from '../../services/permission-version.service';
+import logger from '../../utils/logger';
+import { AccountTokenService } from '../auth/account-token.service';
+import { IdentityService } from '../auth/identity.service';
+import {
+  OwnerRemovalError,
+  OwnerRequiredError,
+  TenantAdminExistsError,
+  TenantAdminNotFoundError
+} from './errors/admin-team.errors';
+import { InviteAdminInput } from './admin-team.schemas';
+
+type TenantAdminDocument = HydratedDocument<ITenantAdmin>;
+
+/**
+ * Tenant Admin Response Interface
+ */
+export interface TenantAdminResponse {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  isOwner: boolean;
+  emailVerified: boolean;
+  invitedBy?: string;
+  lastLogin?: Date;
+  createdAt: Date;
+}
+
+/**
+ * Admin Team Service
+ */
+export class AdminTeamService {
+  /**
+   * List the admins of a tenant, owner first
+   */
+  static async listAdmins(tenantId: string): Promise<TenantAdminResponse[]> {
+    const validatedTenantId = ValidationUtils.validateObjectId(tenantId, 'Tenant ID');
+
+    const admins = await TenantAdmin.find({ tenantId: validatedTenantId, deletedAt: null })
+      .sort({ isOwner: -1, createdAt: 1 });
+
+    return admins.map(admin => this.toResponse(admin));
+  }
+
+  /**
+   * Invite an admin
+   * An email new to the platform receives a link to choose a password;
+   * an email that already signs in elsewhere keeps its password
+   *
+   * @throws OwnerRequiredError - Acting admin is not the owner
+   * @throws TenantAdminExistsError - Email is already an admin of the tenant
+   */
+  static async inviteAdmin(tenantId: string, actingAdminId: string, input: InviteAdminInput): Promise<TenantAdminResponse> {
+    const owner = await this.findOwner(tenantId, actingAdminId, 'invite admins');
+    const email = input.email.toLowerCase();
+
+    if (await TenantAdmin.exists({ tenantId: owner.tenantId, email, deletedAt: null })) {
+      throw new TenantAdminExistsError(email);
+    }
+
+    const profile = {
+      firstName: SecurityUtils.sanitizeInput(input.firstName),
+      lastName: SecurityUtils.sanitizeInput(input.lastName),
+      isOwner: false,
+      invitedBy: owner._id,
+      emailVerified: false
+    };
+
+    // An admin removed earlier keeps their document (and audit history) and is restored
+    const removed = await TenantAdmin.findOne({ tenantId: owner.tenantId, email, deletedAt: { $ne: null } });
+    let admin: TenantAdminDocument;
+    if (removed) {
+      removed.set({ ...profile, deletedAt: undefined });
+      admin = await removed.save();
+    } else {
+      admin = await TenantAdmin.create({ tenantId: owner.tenantId, email, ...profile });
+    }
+
+    // Nobody knows the placeholder password; the invitation link replaces it
+    const linkResult = await IdentityService.linkPrincipal(email, TokenUtils.generateRandomToken(), {
+      principalType: 'tenant_admin',
+      principalId: admin._id.toString(),
+      tenantId: owner.tenantId.toString()
+    });
+    const needsPassword = linkResult === 'created';
+
+    // Delivery failures are logged; the invitee can use forgot password instead
+    AccountTokenService.sendAdminInvitation(admin._id.toString(), `${owner.firstName} ${owner.lastName}`, needsPassword)
+      .catch(error => {
+        logger.error('Tenant admin invitation email failed', {
+          tenantAdminId: admin._id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+
+    return this.toResponse(admin);
+  }
+
+  /**
+   * Remove an admin
+   * The owner may remove any other admin; other admins may only remove themselves
+   *
+   * @throws TenantAdminNotFoundError - Admin does not exist in this tenant
+   * @throws OwnerRemovalError - Admin is the owner
+   * @throws OwnerRequiredError - Acting admin removes someone else without being the owner
+   */
+  static async removeAdmin(tenantId: string, actingAdminId: string, adminId: string): Promise<void> {
+    const admin = await this.findAdmin(tenantId, adminId);
+
+    if (admin.isOwner) {
+      throw new OwnerRemovalError();
+    }
+    if (admin._id.toString() !== actingAdminId) {
+      await this.findOwner(tenantId, actingAdminId, 'remove other admins');
+    }
+
+    // Bump first: removed admins are no longer found by model queries
+    await PermissionVersionService.getInstance().bumpAccount('tenant_admin', admin._id.toString());
+
+    admin.deletedAt = new Date();
+    await admin.save();
+    await IdentityService.unlinkPrincipal('tenant_admin', admin._id.toString());
+
+    logger.info('Tenant admin removed', {
+      tenantAdminId: admin._id,
+      tenantId: admin.tenantId,
+      removedBy: actingAdminId
+    });
+  }
+
+  /**
+   * Make another admin the owner
+   * The previous owner stays an admin
+   *
+   * @throws OwnerRequiredError - Acting admin is not the owner
+   * @throws TenantAdminNotFoundError - Admin does not exist in this tenant
+   */
+  static async transferOwnership(tenantId: string, actingAdminId: string, adminId: string): Promise<TenantAdminResponse[]> {
+    const owner = await this.findOwner(tenantId, actingAdminId, 'transfer ownership');
+    const admin = await this.findAdmin(tenantId, adminId);
+
+    if (!admin._id.equals(owner._id)) {
+      // Clear the old owner first; the tenant allows a single owner
+      await TenantAdmin.updateOne({ _id: owner._id }, { $set: { isOwner: false } });
+      await TenantAdmin.updateOne({ _id: admin._id }, { $set: { isOwner: true } });
+
+      logger.info('Tenant ownership transferred', {
+        tenantId: owner.tenantId,
+        fromAdminId: owner._id,
+        toAdminId: admin._id
+      });
+    }
+
+    return this.listAdmins(tenantId);
+  }
+
+  /**
+   * Load an admin of the tenant
+   *
+   * @throws TenantAdminNotFoundError - Admin does not exist in this tenant
+   */
+  static async findAdmin(tenantId: string, adminId: string): Promise<TenantAdminDocument> {
+    const admin = await TenantAdmin.findOne({
+      _id: ValidationUtils.validateObjectId(adminId, 'Admin ID'),
+      tenantId: ValidationUtils.validateObjectId(tenantId, 'Tenant ID'),
+      deletedAt: null
+    });
+
+    if (!admin) {
+      throw new TenantAdminNotFoundError(adminId);
+    }
+
+    return admin;
+  }
+
+  /**
+   * Helper: Load the acting admin, who must be the owner
+   */
+  private static async findOwner(tenantId: string, actingAdminId: string, action: string): Promise<TenantAdminDocument> {
+    const owner = await TenantAdmin.findOne({
+      _id: ValidationUtils.validateObjectId(actingAdminId, 'Admin ID'),
+      tenantId: ValidationUtils.validateObjectId(tenantId, 'Tenant ID'),
+      isOwner: true,
+      deletedAt: null
+    });
+
+    if (!owner) {
+      throw new OwnerRequiredError(action);
+    }
+
+    return owner;
+  }
+
+  /**
+   * Helper: Map an admin to its API response
+   */
+  private static toResponse(admin: TenantAdminDocument): TenantAdminResponse {
+    return {
+      id: admin._id.toString(),
+      email: admin.email,
+      firstName: admin.firstName,
+      lastName: admin.lastName,
+      isOwner: admin.isOwner,
+      emailVerified: admin.emailVerified,
+      invitedBy: admin.invitedBy?.toString(),
+      lastLogin: admin.lastLogin,
+      createdAt: admin.createdAt
+    };
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Admin Team Custom Error Classes
+ * Provides type-safe error handling with proper HTTP status codes
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Better error handling with custom error types
+ */
+
+/**
+ * Base Admin Team Error
+ */
+export class AdminTeamError extends Error {
+  public readonly statusCode: number;
+  public readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Tenant Admin Not Found Error (404 Not Found)
+ */
+export class TenantAdminNotFoundError extends AdminTeamError {
+  constructor(adminId: string) {
+    super(
+      `Tenant admin with ID '${adminId}' not found`,
+      404,
+      'TENANT_ADMIN_NOT_FOUND'
+    );
+  }
+}
+
+/**
+ * Tenant Admin Exists Error (409 Conflict)
+ */
+export class TenantAdminExistsError extends AdminTeamError {
+  constructor(email: string) {
+    super(
+      `${email} is already an admin of this organization`,
+      409,
+      'TENANT_ADMIN_EXISTS'
+    );
+  }
+}
+
+/**
+ * Owner Required Error (403 Forbidden)
+ * Raised when an admin who is not the owner manages other admins
+ */
+export class OwnerRequiredError extends AdminTeamError {
+  constructor(action: string) {
+    super(
+      `Only the owner of the organization can ${action}`,
+      403,
+      'OWNER_REQUIRED'
+    );
+  }
+}
+
+/**
+ * Owner Removal Error (409 Conflict)
+ */
+export class OwnerRemovalError extends AdminTeamError {
+  constructor() {
+    super(
+      'The owner cannot be removed. Please transfer ownership to another admin first.',
+      409,
+      'OWNER_CANNOT_BE_REMOVED'
+    );
+  }
+}
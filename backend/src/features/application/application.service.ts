@@ -0,0 +1,400 @@
+/**
+ * Application Service
+ * Business logic for immigration applications (case files)
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ * - Rule 12: Validate ALL external data
+ */
+
+import mongoose, { HydratedDocument } from 'mongoose';
+import {
+  Application,
+  IApplication,
+  ApplicationType,
+  ApplicationStatus,
+  ApplicationPriority,
+  ApplicationActorType
+} from '../../models/application.model';
+import { User } from '../../models/user.model';
+import { SecurityUtils } from '../../utils/auth.utils';
+import { ValidationUtils } from '../../utils/validation.utils';
+import {
+  ApplicationNotFoundError,
+  ApplicationClientNotFoundError,
+  ApplicationLockedError,
+  InvalidStatusTransitionError
+} from './errors/application.errors';
+import { canTransition, canCreateWithStatus, getAllowedTransitions } from './application.transitions';
+import { TaskService } from '../task/task.service';
+
+/**
+ * Application Actor Interface
+ * The authenticated principal performing an application operation
+ */
+export interface ApplicationActor {
+  id: string;
+  type: ApplicationActorType;
+}
+
+/**
+ * Create Application Input Interface
+ */
+export interface CreateApplicationInput {
+  type: ApplicationType;
+  status?: ApplicationStatus;
+  priority?: ApplicationPriority;
+  notes?: string;
+  documents?: string[];
+}
+
+/**
+ * Update Application Input Interface
+ */
+export interface UpdateApplicationInput {
+  status?: ApplicationStatus;
+  reason?: string;
+  priority?: ApplicationPriority;
+  notes?: string;
+  documents?: string[];
+}
+
+/**
+ * Application Response Interface
+ */
+export interface ApplicationResponse {
+  id: string;
+  tenantId: string;
+  clientId: string;
+  assignedTo?: string;
+  type: ApplicationType;
+  status: ApplicationStatus;
+  priority: ApplicationPriority;
+  notes?: string;
+  documents: string[];
+  submittedAt?: Date;
+  decidedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Application Status History Entry Response Interface
+ */
+export interface ApplicationStatusHistoryResponse {
+  from: ApplicationStatus | null;
+  to: ApplicationStatus;
+  actorId: string;
+  actorType: ApplicationActorType;
+  reason?: string;
+  changedAt: Date;
+}
+
+/**
+ * Application Status Response Interface
+ */
+export interface ApplicationStatusResponse {
+  id: string;
+  type: ApplicationType;
+  status: ApplicationStatus;
+  priority: ApplicationPriority;
+  isOpen: boolean;
+  allowedTransitions: ApplicationStatus[];
+  history: ApplicationStatusHistoryResponse[];
+  submittedAt?: Date;
+  decidedAt?: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Application Service
+ */
+export class ApplicationService {
+  /**
+   * Get all applications of a client
+   */
+  static async getClientApplications(tenantId: string, clientId: string): Promise<ApplicationResponse[]> {
+    const applications = await Application.find({
+      tenantId,
+      clientId,
+      deletedAt: null
+    })
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return applications.map(application => this.toResponse(application));
+  }
+
+  /**
+   * Get the applications of several clients
+   * Used for team members, who see the applications of their assigned clients
+   */
+  static async getApplicationsForClients(
+    tenantId: string,
+    clientIds: string[],
+    filters: { status?: ApplicationStatus; type?: ApplicationType } = {}
+  ): Promise<ApplicationResponse[]> {
+    if (clientIds.length === 0) {
+      return [];
+    }
+
+    const applications = await Application.find({
+      tenantId,
+      clientId: { $in: clientIds },
+      ...(filters.status && { status: filters.status }),
+      ...(filters.type && { type: filters.type }),
+      deletedAt: null
+    })
+      .sort({ updatedAt: -1 })
+      .lean();
+
+    return applications.map(application => this.toResponse(application));
+  }
+
+  /**
+   * Create an application for a client
+   * The application inherits the client's assigned team member
+   */
+  static async createClientApplication(
+    tenantId: string,
+    clientId: string,
+    input: CreateApplicationInput,
+    actor: ApplicationActor
+  ): Promise<ApplicationResponse> {
+    const initialStatus = input.status || 'draft';
+
+    if (!canCreateWithStatus(actor.type, initialStatus)) {
+      throw new InvalidStatusTransitionError(null, initialStatus, actor.type);
+    }
+
+    const validatedTenantId = ValidationUtils.validateObjectId(tenantId, 'Tenant ID');
+    const validatedClientId = ValidationUtils.validateObjectId(clientId, 'Client ID');
+
+    const client = await User.findOne({
+      _id: validatedClientId,
+      tenantId: validatedTenantId,
+      deletedAt: null
+    }).select('assignedTo');
+
+    if (!client) {
+      throw new ApplicationClientNotFoundError(validatedClientId);
+    }
+
+    const application: HydratedDocument<IApplication> = await Application.create({
+      tenantId: validatedTenantId,
+      clientId: validatedClientId,
+      assignedTo: client.assignedTo,
+      type: input.type,
+      status: initialStatus,
+      priority: input.priority || 'medium',
+      notes: input.notes ? SecurityUtils.sanitizeInput(input.notes) : undefined,
+      documents: input.documents || [],
+      statusHistory: [{
+        from: null,
+        to: initialStatus,
+        actorId: new mongoose.Types.ObjectId(actor.id),
+        actorType: actor.type,
+        changedAt: new Date()
+      }]
+    });
+
+    await TaskService.createStatusChangeTask(application, null);
+
+    return this.toResponse(application);
+  }
+
+  /**
+   * Update an application owned by a client
+   */
+  static async updateClientApplication(
+    tenantId: string,
+    clientId: string,
+    applicationId: string,
+    input: UpdateApplicationInput,
+    actor: ApplicationActor
+  ): Promise<ApplicationResponse> {
+    const application = await this.findApplication(tenantId, applicationId, clientId);
+
+    if (!application.isOpen()) {
+      throw new ApplicationLockedError(application.status);
+    }
+
+    const previousStatus = application.status;
+
+    if (input.status && input.status !== application.status) {
+      this.applyStatusTransition(application, input.status, actor, input.reason);
+    }
+
+    // Notes are free text shown to staff; strip markup before storing
+    if (input.notes !== undefined) application.notes = SecurityUtils.sanitizeInput(input.notes);
+    if (input.documents) application.documents = input.documents;
+    if (input.priority) application.priority = input.priority;
+
+    await application.save();
+
+    if (application.status !== previousStatus) {
+      await TaskService.createStatusChangeTask(application, previousStatus);
+    }
+
+    return this.toResponse(application);
+  }
+
+  /**
+   * Get the status summary of an application owned by a client
+   */
+  static async getClientApplicationStatus(
+    tenantId: string,
+    clientId: string,
+    applicationId: string,
+    actor: ApplicationActor
+  ): Promise<ApplicationStatusResponse> {
+    const application = await this.findApplication(tenantId, applicationId, clientId);
+
+    return this.toStatusResponse(application, actor);
+  }
+
+  /**
+   * Get the status summary of any application of the tenant (admins)
+   */
+  static async getTenantApplicationStatus(
+    tenantId: string,
+    applicationId: string,
+    actor: ApplicationActor
+  ): Promise<ApplicationStatusResponse> {
+    const application = await this.findApplication(tenantId, applicationId);
+
+    return this.toStatusResponse(application, actor);
+  }
+
+  /**
+   * Change the status of any application of the tenant (admins)
+   * The only path to approved and rejected
+   */
+  static async updateTenantApplicationStatus(
+    tenantId: string,
+    applicationId: string,
+    status: ApplicationStatus,
+    reason: string | undefined,
+    actor: ApplicationActor
+  ): Promise<ApplicationStatusResponse> {
+    const application = await this.findApplication(tenantId, applicationId);
+
+    if (!application.isOpen()) {
+      throw new ApplicationLockedError(application.status);
+    }
+
+    const previousStatus = application.status;
+    this.applyStatusTransition(application, status, actor, reason);
+
+    await application.save();
+    await TaskService.createStatusChangeTask(application, previousStatus);
+
+    return this.toStatusResponse(application, actor);
+  }
+
+  /**
+   * Apply a status transition to a loaded application
+   * Validates against the actor's transition graph and appends a history entry.
+   * The caller is responsible for saving the document.
+   */
+  static applyStatusTransition(
+    application: HydratedDocument<IApplication>,
+    to: ApplicationStatus,
+    actor: ApplicationActor,
+    reason?: string
+  ): void {
+    const from = application.status;
+
+    if (!canTransition(actor.type, from, to)) {
+      throw new InvalidStatusTransitionError(from, to, actor.type);
+    }
+
+    application.status = to;
+    application.statusHistory.push({
+      from,
+      to,
+      actorId: new mongoose.Types.ObjectId(actor.id),
+      actorType: actor.type,
+      reason: reason ? SecurityUtils.sanitizeInput(reason) : undefined,
+      changedAt: new Date()
+    });
+  }
+
+  /**
+   * Helper: Map application document to status response
+   */
+  private static toStatusResponse(
+    application: HydratedDocument<IApplication>,
+    actor: ApplicationActor
+  ): ApplicationStatusResponse {
+    return {
+      id: application._id.toString(),
+      type: application.type,
+      status: application.status,
+      priority: application.priority,
+      isOpen: application.isOpen(),
+      allowedTransitions: [...getAllowedTransitions(actor.type, application.status)],
+      history: (application.statusHistory || []).map(entry => ({
+        from: entry.from,
+        to: entry.to,
+        actorId: entry.actorId.toString(),
+        actorType: entry.actorType,
+        reason: entry.reason,
+        changedAt: entry.changedAt
+      })),
+      submittedAt: application.submittedAt,
+      decidedAt: application.decidedAt,
+      updatedAt: application.updatedAt
+    };
+  }
+
+  /**
+   * Helper: Load an application scoped to the tenant and, when given, the client
+   * Foreign applications are reported as not found
+   */
+  private static async findApplication(
+    tenantId: string,
+    applicationId: string,
+    clientId?: string
+  ): Promise<HydratedDocument<IApplication>> {
+    const validatedApplicationId = ValidationUtils.validateObjectId(applicationId, 'Application ID');
+
+    const application = await Application.findOne({
+      _id: validatedApplicationId,
+      tenantId,
+      ...(clientId ? { clientId } : {}),
+      deletedAt: null
+    });
+
+    if (!application) {
+      throw new ApplicationNotFoundError(validatedApplicationId);
+    }
+
+    return application;
+  }
+
+  /**
+   * Helper: Map application document to API response
+   */
+  private static toResponse(application: Pick<IApplication,
+    '_id' | 'tenantId' | 'clientId' | 'assignedTo' | 'type' | 'status' | 'priority' |
+    'notes' | 'documents' | 'submittedAt' | 'decidedAt' | 'createdAt' | 'updatedAt'
+  >): ApplicationResponse {
+    return {
+      id: application._id.toString(),
+      tenantId: application.tenantId.toString(),
+      clientId: application.clientId.toString(),
+      assignedTo: application.assignedTo?.toString(),
+      type: application.type,
+      status: application.status,
+      priority: application.priority,
+      notes: application.notes,
+      documents: application.documents || [],
+      submittedAt: application.submittedAt,
+      decidedAt: application.decidedAt,
+      createdAt: application.createdAt,
+      updatedAt: application.updatedAt
+    };
+  }
+}
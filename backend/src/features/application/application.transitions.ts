@@ -0,0 +1,76 @@
+/**
+ * Application Status Transitions
+ * Server-side state machine for application status changes
+ *
+ * Each actor type gets its own transition graph. A transition not listed
+ * for the actor is refused, regardless of what the request schema allows.
+ */
+
+import { ApplicationStatus, ApplicationActorType } from '../../models/application.model';
+
+type TransitionGraph = Partial<Record<ApplicationStatus, readonly ApplicationStatus[]>>;
+
+/**
+ * Client: may only submit their own draft
+ */
+const CLIENT_TRANSITIONS: TransitionGraph = {
+  draft: ['submitted']
+};
+
+/**
+ * Team member: moves files through review and processing, never decides them
+ */
+const TEAM_MEMBER_TRANSITIONS: TransitionGraph = {
+  submitted: ['in_review'],
+  in_review: ['in_progress', 'draft'],
+  in_progress: ['in_review']
+};
+
+/**
+ * Admins: everything a team member can do, plus the final decision
+ */
+const ADMIN_TRANSITIONS: TransitionGraph = {
+  draft: ['submitted'],
+  submitted: ['in_review'],
+  in_review: ['in_progress', 'draft', 'approved', 'rejected'],
+  in_progress: ['in_review', 'approved', 'rejected']
+};
+
+export const APPLICATION_TRANSITIONS: Record<ApplicationActorType, TransitionGraph> = {
+  client: CLIENT_TRANSITIONS,
+  team_member: TEAM_MEMBER_TRANSITIONS,
+  tenant_admin: ADMIN_TRANSITIONS,
+  super_admin: ADMIN_TRANSITIONS
+};
+
+/**
+ * Get the statuses an actor may move an application to from its current status
+ */
+export const getAllowedTransitions = (
+  actorType: ApplicationActorType,
+  from: ApplicationStatus
+): readonly ApplicationStatus[] => {
+  return APPLICATION_TRANSITIONS[actorType][from] || [];
+};
+
+/**
+ * Check whether an actor may move an application from one status to another
+ */
+export const canTransition = (
+  actorType: ApplicationActorType,
+  from: ApplicationStatus,
+  to: ApplicationStatus
+): boolean => {
+  return getAllowedTransitions(actorType, from).includes(to);
+};
+
+/**
+ * Check whether an actor may create an application in the given status
+ * New applications start as drafts; anything else must be reachable from draft
+ */
+export const canCreateWithStatus = (
+  actorType: ApplicationActorType,
+  status: ApplicationStatus
+): boolean => {
+  return status === 'draft' || canTransition(actorType, 'draft', status);
+};
@@ -0,0 +1,82 @@
+/**
+ * Application Custom Error Classes
+ * Provides type-safe error handling with proper HTTP status codes
+ * 
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Better error handling with custom error types
+ */
+
+/**
+ * Base Application Error
+ */
+export class ApplicationError extends Error {
+  public readonly statusCode: number;
+  public readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Application Not Found Error (404 Not Found)
+ * Also used when the application exists but belongs to another client or tenant,
+ * so callers cannot probe for foreign IDs
+ */
+export class ApplicationNotFoundError extends ApplicationError {
+  constructor(applicationId: string) {
+    super(
+      `Application with ID '${applicationId}' not found`,
+      404,
+      'APPLICATION_NOT_FOUND'
+    );
+  }
+}
+
+/**
+ * Application Client Not Found Error (404 Not Found)
+ */
+export class ApplicationClientNotFoundError extends ApplicationError {
+  constructor(clientId: string) {
+    super(
+      `Client with ID '${clientId}' not found`,
+      404,
+      'CLIENT_NOT_FOUND'
+    );
+  }
+}
+
+/**
+ * Application Locked Error (409 Conflict)
+ * Raised when modifying an application that already has a final decision
+ */
+export class ApplicationLockedError extends ApplicationError {
+  constructor(status: string) {
+    super(
+      `Application is ${status} and can no longer be modified`,
+      409,
+      'APPLICATION_LOCKED'
+    );
+  }
+}
+
+/**
+ * Invalid Status Transition Error (409 Conflict)
+ * Raised when the actor's transition graph does not allow the requested move
+ */
+export class InvalidStatusTransitionError extends ApplicationError {
+  constructor(from: string | null, to: string, actorType: string) {
+    super(
+      from
+        ? `Cannot change application status from '${from}' to '${to}' as ${actorType}`
+        : `Cannot create application with status '${to}' as ${actorType}`,
+      409,
+      'INVALID_STATUS_TRANSITION'
+    );
+  }
+}
@@ -0,0 +1,537 @@
+/**
+ * Account Token Service
+ * Email verification, admin invitations and password reset for tenant admins,
+ * team members and clients
+ *
+ * Tokens are random, single-use and time-limited. Only their SHA-256 hash is
+ * stored, so a database leak does not expose usable links.
+ *
+ * @module account-token.service
+ */
+
+import { Tenant } from '../../models/tenant.model';
+import { TenantAdmin } from '../../models/tenant-admin.model';
+import { TenantTeamMember } from '../../models/tenant-team-member.model';
+import { User } from '../../models/user.model';
+import { Identity } from '../../models/identity.model';
+import { AuditLog } from '../../models/audit-log.model';
+import { TokenUtils } from '../../utils/auth.utils';
+import { ValidationUtils } from '../../utils/validation.utils';
+import { config } from '../../config/env.config';
+import MailService from '../../services/mail/mail.service';
+import { RefreshTokenService } from './refresh-token.service';
+import { IdentityService } from './identity.service';
+import logger from '../../utils/logger';
+import { InvalidTokenError, NotFoundError } from './types/errors.types';
+
+export type TokenAccountType = 'tenant_admin' | 'team_member' | 'client';
+
+type RequestContext = { ipAddress?: string; userAgent?: string };
+
+// Model backing each account type, as recorded in the audit trail
+const AUDIT_RESOURCES: Record<TokenAccountType, string> = {
+  tenant_admin: 'TenantAdmin',
+  team_member: 'TenantTeamMember',
+  client: 'User'
+};
+
+/**
+ * Account a token was issued to
+ */
+interface TokenRecipient {
+  accountType: TokenAccountType;
+  accountId: string;
+  tenantId: string;
+  email: string;
+  firstName: string;
+  organizationName: string;
+}
+
+/**
+ * Account Token Service
+ */
+export class AccountTokenService {
+  /**
+   * Send an email verification link
+   * Does nothing when the account is already verified, unless the link also
+   * confirms an account created for an email that already has an identity
+   *
+   * @param confirmsLink - Account waits to be linked to the email's identity
+   * @throws NotFoundError - Account does not exist
+   */
+  static async sendEmailVerification(accountType: TokenAccountType, accountId: string, confirmsLink = false): Promise<void> {
+    const id = ValidationUtils.validateObjectId(accountId, 'Account ID');
+    const token = TokenUtils.generateEmailVerificationToken();
+    const update = {
+      hash: TokenUtils.hashToken(token),
+      expires: new Date(Date.now() + config.EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000)
+    };
+
+    let recipient: TokenRecipient;
+
+    switch (accountType) {
+      case 'tenant_admin': {
+        const admin = await TenantAdmin.findOne({ _id: id, deletedAt: null });
+        if (!admin) throw new NotFoundError('Account not found');
+        if (admin.emailVerified && !confirmsLink) return;
+
+        admin.emailVerificationToken = update.hash;
+        admin.emailVerificationExpires = update.expires;
+        await admin.save();
+
+        recipient = await this.toRecipient(accountType, admin);
+        break;
+      }
+
+      case 'team_member': {
+        const member = await TenantTeamMember.findOne({ _id: id, deletedAt: null });
+        if (!member) throw new NotFoundError('Account not found');
+        if (member.emailVerified && !confirmsLink) return;
+
+        member.emailVerificationToken = update.hash;
+        member.emailVerificationExpires = update.expires;
+        await member.save();
+
+        recipient = await this.toRecipient(accountType, member);
+        break;
+      }
+
+      case 'client': {
+        const client = await User.findOne({ _id: id, deletedAt: null });
+        if (!client) throw new NotFoundError('Account not found');
+        if (client.emailVerified && !confirmsLink) return;
+
+        client.emailVerificationToken = update.hash;
+        client.emailVerificationExpires = update.expires;
+        await client.save();
+
+        recipient = await this.toRecipient(accountType, client);
+        break;
+      }
+    }
+
+    const link = `${config.APP_URL}/verify-email?token=${token}`;
+
+    await MailService.getInstance().send({
+      to: recipient.email,
+      subject: confirmsLink
+        ? `Confirm your new account with ${recipient.organizationName}`
+        : `Verify your email for ${recipient.organizationName}`,
+      text: [
+        `Hi ${recipient.firstName},`,
+        '',
+        ...(confirmsLink
+          ? [
+            `${recipient.organizationName} created an account for this email address.`,
+            'Open the link below to confirm it, then sign in with the password you already use on the portal:'
+          ]
+          : ['Please confirm your email address by opening the link below:']),
+        link,
+        '',
+        `The link expires in ${config.EMAIL_VERIFICATION_TTL_HOURS} hours.`,
+        confirmsLink
+          ? 'If you do not know this organization, ignore this email; the account stays disconnected from your sign-in.'
+          : 'If you did not create this account, you can ignore this email.'
+      ].join('\n')
+    });
+
+    logger.info('Email verification sent', {
+      accountType,
+      accountId: recipient.accountId,
+      tenantId: recipient.tenantId
+    });
+  }
+
+  /**
+   * Invite a tenant admin
+   * An email new to the platform gets a link to choose a password; an email
+   * that already has one gets a link confirming the account, which links it
+   * to that identity and its existing password. Either link verifies the email.
+   *
+   * @throws NotFoundError - Admin does not exist
+   */
+  static async sendAdminInvitation(adminId: string, invitedByName: string, needsPassword: boolean): Promise<void> {
+    const id = ValidationUtils.validateObjectId(adminId, 'Account ID');
+    const admin = await TenantAdmin.findOne({ _id: id, deletedAt: null });
+    if (!admin) throw new NotFoundError('Account not found');
+
+    const recipient = await this.toRecipient('tenant_admin', admin);
+    const token = needsPassword ? TokenUtils.generatePasswordResetToken() : TokenUtils.generateEmailVerificationToken();
+    const expires = new Date(Date.now() + config.EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000);
+
+    if (needsPassword) {
+      admin.passwordResetToken = TokenUtils.hashToken(token);
+      admin.passwordResetExpires = expires;
+    } else {
+      admin.emailVerificationToken = TokenUtils.hashToken(token);
+      admin.emailVerificationExpires = expires;
+    }
+    await admin.save();
+
+    const link = needsPassword
+      ? `${config.APP_URL}/reset-password?token=${token}`
+      : `${config.APP_URL}/verify-email?token=${token}`;
+
+    await MailService.getInstance().send({
+      to: recipient.email,
+      subject: `You have been invited to administer ${recipient.organizationName}`,
+      text: [
+        `Hi ${recipient.firstName},`,
+        '',
+        `${invitedByName} added you as an administrator of ${recipient.organizationName}.`,
+        needsPassword
+          ? 'Open the link below to choose your password:'
+          : 'Open the link below to confirm, then sign in as a tenant admin with the password you already use on the portal:',
+        link,
+        '',
+        `The link expires in ${config.EMAIL_VERIFICATION_TTL_HOURS} hours.`,
+        'If you did not expect this invitation, you can ignore this email.'
+      ].join('\n')
+    });
+
+    logger.info('Tenant admin invitation sent', {
+      accountId: recipient.accountId,
+      tenantId: recipient.tenantId
+    });
+  }
+
+  /**
+   * Consume an email verification token
+   * A pending client becomes active once their email is verified, and an
+   * account waiting for the email's identity is linked to it
+   *
+   * @throws InvalidTokenError - Token unknown, used or expired
+   */
+  static async verifyEmail(token: string, context: RequestContext = {}): Promise<TokenAccountType> {
+    const hash = TokenUtils.hashToken(token);
+    const now = new Date();
+
+    const client = await User.findOne({
+      emailVerificationToken: hash,
+      emailVerificationExpires: { $gt: now },
+      deletedAt: null
+    });
+    if (client) {
+      client.emailVerified = true;
+      client.emailVerificationToken = undefined;
+      client.emailVerificationExpires = undefined;
+      if (client.status === 'pending') {
+        client.status = 'active';
+      }
+      await client.save();
+      await IdentityService.confirmPendingMembership('client', client._id.toString());
+
+      await this.audit(
+        'user.email_verified',
+        '/api/v1/auth/verify-email',
+        'client',
+        client._id.toString(),
+        client.tenantId.toString(),
+        context
+      );
+      return 'client';
+    }
+
+    const member = await TenantTeamMember.findOne({
+      emailVerificationToken: hash,
+      emailVerificationExpires: { $gt: now },
+      deletedAt: null
+    });
+    if (member) {
+      member.emailVerified = true;
+      member.emailVerificationToken = undefined;
+      member.emailVerificationExpires = undefined;
+      await member.save();
+      await IdentityService.confirmPendingMembership('team_member', member._id.toString());
+
+      await this.audit(
+        'user.email_verified',
+        '/api/v1/auth/verify-email',
+        'team_member',
+        member._id.toString(),
+        member.tenantId.toString(),
+        context
+      );
+      return 'team_member';
+    }
+
+    const admin = await TenantAdmin.findOne({
+      emailVerificationToken: hash,
+      emailVerificationExpires: { $gt: now },
+      deletedAt: null
+    });
+    if (admin) {
+      admin.emailVerified = true;
+      admin.emailVerificationToken = undefined;
+      admin.emailVerificationExpires = undefined;
+      await admin.save();
+      await IdentityService.confirmPendingMembership('tenant_admin', admin._id.toString());
+
+      await this.audit(
+        'user.email_verified',
+        '/api/v1/auth/verify-email',
+        'tenant_admin',
+        admin._id.toString(),
+        admin.tenantId.toString(),
+        context
+      );
+      return 'tenant_admin';
+    }
+
+    throw new InvalidTokenError('Invalid or expired verification link');
+  }
+
+  /**
+   * Send password reset links to every account registered with an email
+   * Silently does nothing for unknown emails to avoid account enumeration.
+   * Accounts still waiting for the holder's confirmation have no credentials
+   * yet and get no link.
+   */
+  static async requestPasswordReset(email: string, context: RequestContext = {}): Promise<void> {
+    const normalizedEmail = email.toLowerCase();
+    const expires = new Date(Date.now() + config.PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+
+    const identity = await Identity.findOne({ email: normalizedEmail }).select('pendingMemberships');
+    const pendingIds = (identity?.pendingMemberships ?? []).map(membership => membership.principalId);
+
+    const [admins, members, clients] = await Promise.all([
+      TenantAdmin.find({ email: normalizedEmail, _id: { $nin: pendingIds }, deletedAt: null }),
+      TenantTeamMember.find({ email: normalizedEmail, _id: { $nin: pendingIds }, isActive: true, deletedAt: null }),
+      User.find({ email: normalizedEmail, _id: { $nin: pendingIds }, status: { $ne: 'suspended' }, deletedAt: null })
+    ]);
+
+    const recipients: { recipient: TokenRecipient; token: string }[] = [];
+
+    // Admins of suspended tenants cannot sign in, so they get no link
+    const activeTenants = await Tenant.find({
+      _id: { $in: admins.map(admin => admin.tenantId) },
+      status: 'active',
+      deletedAt: null
+    }).select('_id');
+    const activeTenantIds = new Set(activeTenants.map(tenant => tenant._id.toString()));
+
+    for (const admin of admins.filter(admin => activeTenantIds.has(admin.tenantId.toString()))) {
+      const token = TokenUtils.generatePasswordResetToken();
+      admin.passwordResetToken = TokenUtils.hashToken(token);
+      admin.passwordResetExpires = expires;
+      await admin.save();
+
+      recipients.push({ token, recipient: await this.toRecipient('tenant_admin', admin) });
+    }
+
+    for (const member of members) {
+      const token = TokenUtils.generatePasswordResetToken();
+      member.passwordResetToken = TokenUtils.hashToken(token);
+      member.passwordResetExpires = expires;
+      await member.save();
+
+      recipients.push({ token, recipient: await this.toRecipient('team_member', member) });
+    }
+
+    for (const client of clients) {
+      const token = TokenUtils.generatePasswordResetToken();
+      client.passwordResetToken = TokenUtils.hashToken(token);
+      client.passwordResetExpires = expires;
+      await client.save();
+
+      recipients.push({ token, recipient: await this.toRecipient('client', client) });
+    }
+
+    for (const { recipient, token } of recipients) {
+      const link = `${config.APP_URL}/reset-password?token=${token}`;
+
+      await MailService.getInstance().send({
+        to: recipient.email,
+        subject: `Reset your ${recipient.organizationName} password`,
+        text: [
+          `Hi ${recipient.firstName},`,
+          '',
+          `We received a request to reset your ${recipient.organizationName} password.`,
+          'Open the link below to choose a new one:',
+          link,
+          '',
+          `The link expires in ${config.PASSWORD_RESET_TTL_MINUTES} minutes and can be used once.`,
+          'If you did not request a reset, you can ignore this email.'
+        ].join('\n')
+      });
+
+      await this.audit(
+        'user.password_reset_requested',
+        '/api/v1/auth/forgot-password',
+        recipient.accountType,
+        recipient.accountId,
+        recipient.tenantId,
+        context
+      );
+    }
+
+    logger.info('Password reset requested', { accounts: recipients.length });
+  }
+
+  /**
+   * Consume a password reset token and set the new password
+   * The password belongs to the account's identity, so every account sharing
+   * the email gets it; lockout is cleared and all of them are signed out.
+   * The token stays usable when the password is rejected by the security policy
+   *
+   * @throws InvalidTokenError - Token unknown, used or expired
+   * @throws PasswordPolicyError - Password does not meet the security policy
+   */
+  static async resetPassword(
+    token: string,
+    newPassword: string,
+    context: RequestContext = {}
+  ): Promise<TokenAccountType> {
+    const hash = TokenUtils.hashToken(token);
+    const filter = { passwordResetToken: hash, passwordResetExpires: { $gt: new Date() }, deletedAt: null };
+    // Consumed before the password is set, so concurrent requests cannot both use it
+    const consume = { $unset: { passwordResetToken: 1, passwordResetExpires: 1 } };
+
+    const client = await User.findOneAndUpdate(filter, consume).select('+passwordResetExpires');
+    if (client) {
+      await this.applyResetPassword('client', client._id.toString(), newPassword, () =>
+        User.updateOne(
+          { _id: client._id },
+          { $set: { passwordResetToken: hash, passwordResetExpires: client.passwordResetExpires } }
+        )
+      );
+
+      await this.audit(
+        'user.password_reset',
+        '/api/v1/auth/reset-password',
+        'client',
+        client._id.toString(),
+        client.tenantId.toString(),
+        context
+      );
+      return 'client';
+    }
+
+    const member = await TenantTeamMember.findOneAndUpdate(filter, consume).select('+passwordResetExpires');
+    if (member) {
+      await this.applyResetPassword('team_member', member._id.toString(), newPassword, () =>
+        TenantTeamMember.updateOne(
+          { _id: member._id },
+          { $set: { passwordResetToken: hash, passwordResetExpires: member.passwordResetExpires } }
+        )
+      );
+
+      await this.audit(
+        'user.password_reset',
+        '/api/v1/auth/reset-password',
+        'team_member',
+        member._id.toString(),
+        member.tenantId.toString(),
+        context
+      );
+      return 'team_member';
+    }
+
+    const admin = await TenantAdmin.findOneAndUpdate(filter, consume).select('+passwordResetExpires');
+    if (admin) {
+      await this.applyResetPassword('tenant_admin', admin._id.toString(), newPassword, () =>
+        TenantAdmin.updateOne(
+          { _id: admin._id },
+          { $set: { passwordResetToken: hash, passwordResetExpires: admin.passwordResetExpires } }
+        )
+      );
+
+      // Invitation links are reset links sent to the address, so using one verifies it
+      await TenantAdmin.updateOne(
+        { _id: admin._id },
+        { $set: { emailVerified: true }, $unset: { emailVerificationToken: 1, emailVerificationExpires: 1 } }
+      );
+
+      await this.audit(
+        'user.password_reset',
+        '/api/v1/auth/reset-password',
+        'tenant_admin',
+        admin._id.toString(),
+        admin.tenantId.toString(),
+        context
+      );
+      return 'tenant_admin';
+    }
+
+    throw new InvalidTokenError('Invalid or expired reset link');
+  }
+
+  /**
+   * Helper: Set the password of a consumed reset token
+   * Puts the token back when the password is rejected, so the link can be retried
+   */
+  private static async applyResetPassword(
+    accountType: TokenAccountType,
+    accountId: string,
+    newPassword: string,
+    restoreToken: () => Promise<unknown>
+  ): Promise<void> {
+    try {
+      await this.applyNewPassword(accountType, accountId, newPassword);
+    } catch (error) {
+      await restoreToken();
+      throw error;
+    }
+  }
+
+  /**
+   * Helper: Store the new password and sign out every account of the identity
+   */
+  private static async applyNewPassword(accountType: TokenAccountType, accountId: string, newPassword: string): Promise<void> {
+    const memberships = await IdentityService.setPassword(accountType, accountId, newPassword);
+
+    for (const membership of memberships) {
+      await RefreshTokenService.revokeAllForAccount(
+        membership.principalType,
+        membership.principalId.toString(),
+        'password_reset'
+      );
+    }
+  }
+
+  /**
+   * Helper: Build the mail recipient for a tenant-scoped account
+   */
+  private static async toRecipient(
+    accountType: TokenAccountType,
+    account: { _id: { toString(): string }; tenantId: { toString(): string }; email: string; firstName: string }
+  ): Promise<TokenRecipient> {
+    const tenant = await Tenant.findById(account.tenantId).select('name');
+
+    return {
+      accountType,
+      accountId: account._id.toString(),
+      tenantId: account.tenantId.toString(),
+      email: account.email,
+      firstName: account.firstName,
+      organizationName: tenant?.name || 'Canadian Immigration Portal'
+    };
+  }
+
+  /**
+   * Helper: Record a token event in the audit trail
+   */
+  private static async audit(
+    action: string,
+    endpoint: string,
+    accountType: TokenAccountType,
+    accountId: string,
+    tenantId: string,
+    context: RequestContext
+  ): Promise<void> {
+    await AuditLog.create({
+      tenantId,
+      userId: accountId,
+      action,
+      resource: AUDIT_RESOURCES[accountType],
+      resourceId: accountId,
+      category: 'auth',
+      method: 'POST',
+      endpoint,
+      ipAddress: context.ipAddress || 'unknown',
+      userAgent: context.userAgent || 'unknown',
+      statusCode: 200,
+      details: { accountType }
+    });
+  }
+}
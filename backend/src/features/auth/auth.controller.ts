@@ -1,5 +1,15 @@
 import { Request, Response } from 'express';
 import { AuthService } from './auth.service';
+import { AccountTokenService, TokenAccountType } from './account-token.service';
+import TenantResolutionService, { TenantInfo } from '../../services/tenant-resolution.service';
+import {
+  isAppError,
+  IpNotAllowedError,
+  PasswordExpiredError,
+  TenantSelectionRequiredError
+} from './types/errors.types';
+import { MfaError } from '../mfa/errors/mfa.errors';
+import { ChangePasswordInput, LogoutInput } from './auth.schemas';
 import logger from '../../utils/logger';
 
 /**
@@ -13,13 +23,14 @@ export class AuthController {
    */
   static async loginSuperAdmin(req: Request, res: Response): Promise<void> {
     try {
-      const { email, password } = req.body;
+      const { email, password, mfaCode } = req.body;
       const ipAddress = req.ip || req.connection.remoteAddress;
       const userAgent = req.get('User-Agent');
 
       const result = await AuthService.loginSuperAdmin({
         email,
         password,
+        mfaCode,
         ipAddress,
         userAgent
       });
@@ -33,6 +44,15 @@ export class AuthController {
         }
       });
     } catch (error) {
+      // Password accepted; the client must continue with a second factor
+      if (error instanceof MfaError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: { code: error.code, message: error.message, details: error.details }
+        });
+        return;
+      }
+
       logger.error('Super admin login controller error:', error);
       
       res.status(401).json({
@@ -51,13 +71,15 @@ export class AuthController {
    */
   static async loginTenantAdmin(req: Request, res: Response): Promise<void> {
     try {
-      const { email, password } = req.body;
+      const { email, password, mfaCode, tenantId } = req.body;
       const ipAddress = req.ip || req.connection.remoteAddress;
       const userAgent = req.get('User-Agent');
 
       const result = await AuthService.loginTenantAdmin({
         email,
         password,
+        mfaCode,
+        tenantId,
         ipAddress,
         userAgent
       });
@@ -71,6 +93,25 @@ export class AuthController {
         }
       });
     } catch (error) {
+      // Password accepted; the client must continue with a second factor or
+      // choose which organization to sign in to
+      if (error instanceof MfaError || error instanceof TenantSelectionRequiredError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: { code: error.code, message: error.message, details: error.details }
+        });
+        return;
+      }
+
+      // Password accepted but refused by the tenant's security policy
+      if (error instanceof PasswordExpiredError || error instanceof IpNotAllowedError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: { code: error.code, message: error.message }
+        });
+        return;
+      }
+
       logger.error('Tenant admin login controller error:', error);
       
       res.status(401).json({
@@ -89,13 +130,15 @@ export class AuthController {
    */
   static async loginTeamMember(req: Request, res: Response): Promise<void> {
     try {
-      const { email, password } = req.body;
+      const { email, password, mfaCode, tenantId } = req.body;
       const ipAddress = req.ip || req.connection.remoteAddress;
       const userAgent = req.get('User-Agent');
 
       const result = await AuthService.loginTeamMember({
         email,
         password,
+        mfaCode,
+        tenantId,
         ipAddress,
         userAgent
       });
@@ -109,6 +152,25 @@ export class AuthController {
         }
       });
     } catch (error) {
+      // Password accepted; the client must continue with a second factor or
+      // choose which organization to sign in to
+      if (error instanceof MfaError || error instanceof TenantSelectionRequiredError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: { code: error.code, message: error.message, details: error.details }
+        });
+        return;
+      }
+
+      // Password accepted but refused by the tenant's security policy
+      if (error instanceof PasswordExpiredError || error instanceof IpNotAllowedError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: { code: error.code, message: error.message }
+        });
+        return;
+      }
+
       logger.error('Team member login controller error:', error);
       
       res.status(401).json({
@@ -127,13 +189,15 @@ export class AuthController {
    */
   static async loginClient(req: Request, res: Response): Promise<void> {
     try {
-      const { email, password } = req.body;
+      const { email, password, mfaCode, tenantId } = req.body;
       const ipAddress = req.ip || req.connection.remoteAddress;
       const userAgent = req.get('User-Agent');
 
       const result = await AuthService.loginClient({
         email,
         password,
+        mfaCode,
+        tenantId,
         ipAddress,
         userAgent
       });
@@ -147,6 +211,25 @@ export class AuthController {
         }
       });
     } catch (error) {
+      // Password accepted; the client must continue with a second factor or
+      // choose which organization to sign in to
+      if (error instanceof MfaError || error instanceof TenantSelectionRequiredError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: { code: error.code, message: error.message, details: error.details }
+        });
+        return;
+      }
+
+      // Password accepted but refused by the tenant's security policy
+      if (error instanceof PasswordExpiredError || error instanceof IpNotAllowedError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: { code: error.code, message: error.message }
+        });
+        return;
+      }
+
       logger.error('Client login controller error:', error);
       
       res.status(401).json({
@@ -160,7 +243,236 @@ export class AuthController {
   }
 
   /**
-   * Refresh Access Token
+   * Client Self-Registration
+   * POST /api/v1/auth/register
+   */
+  static async register(req: Request, res: Response): Promise<void> {
+    try {
+      const { tenantId, tenantDomain } = req.body;
+      const tenantService = TenantResolutionService.getInstance();
+
+      // Explicit tenant from the form wins over header/host resolution
+      let tenant: TenantInfo | null;
+      if (tenantId) {
+        tenant = await tenantService.getTenantById(tenantId);
+      } else if (tenantDomain) {
+        tenant = await tenantService.resolveTenantFromDomain(tenantDomain);
+      } else {
+        tenant = await tenantService.resolveTenantFromRequest(req);
+      }
+
+      if (!tenant) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_NOT_FOUND',
+            message: 'Unable to determine the organization to register with'
+          }
+        });
+        return;
+      }
+
+      const client = await AuthService.registerClient(req.body, tenant.id, {
+        ipAddress: req.ip || req.connection.remoteAddress,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          user: client,
+          message: client.awaitingConfirmation
+            ? 'Registration successful. Please confirm the account from the email we sent, then sign in with the password you already use on the portal.'
+            : client.requiresEmailVerification
+              ? 'Registration successful. Please check your email to verify your account.'
+              : 'Registration successful. Your account is pending approval.'
+        }
+      });
+    } catch (error) {
+      logger.error('Register controller error:', error);
+
+      if (isAppError(error)) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'REGISTRATION_FAILED',
+          message: 'Registration failed'
+        }
+      });
+    }
+  }
+
+  /**
+   * Verify Email
+   * POST /api/v1/auth/verify-email
+   */
+  static async verifyEmail(req: Request, res: Response): Promise<void> {
+    try {
+      await AccountTokenService.verifyEmail(req.body.token, {
+        ipAddress: req.ip || req.connection.remoteAddress,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'Email verified successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Verify email controller error:', error);
+
+      if (isAppError(error)) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'EMAIL_VERIFICATION_FAILED',
+          message: 'Email verification failed'
+        }
+      });
+    }
+  }
+
+  /**
+   * Resend Email Verification
+   * POST /api/v1/auth/resend-verification
+   */
+  static async resendVerification(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, userType } = req.user || {};
+
+      if (!userId || !userType || userType === 'super_admin') {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VERIFICATION_NOT_AVAILABLE',
+            message: 'Email verification is not available for this account'
+          }
+        });
+        return;
+      }
+
+      // Tenant admin tokens carry the tenant id as the user id
+      await AccountTokenService.sendEmailVerification(userType as TokenAccountType, userId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'If your email is not yet verified, a new verification link has been sent'
+        }
+      });
+    } catch (error) {
+      logger.error('Resend verification controller error:', error);
+
+      if (isAppError(error)) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'VERIFICATION_RESEND_FAILED',
+          message: 'Failed to send verification email'
+        }
+      });
+    }
+  }
+
+  /**
+   * Forgot Password
+   * POST /api/v1/auth/forgot-password
+   */
+  static async forgotPassword(req: Request, res: Response): Promise<void> {
+    try {
+      await AccountTokenService.requestPasswordReset(req.body.email, {
+        ipAddress: req.ip || req.connection.remoteAddress,
+        userAgent: req.get('User-Agent')
+      });
+    } catch (error) {
+      // Swallowed so the response never reveals whether the email exists
+      logger.error('Forgot password controller error:', error);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        message: 'If an account exists for this email, a password reset link has been sent'
+      }
+    });
+  }
+
+  /**
+   * Reset Password
+   * POST /api/v1/auth/reset-password
+   */
+  static async resetPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const { token, newPassword } = req.body;
+
+      await AccountTokenService.resetPassword(token, newPassword, {
+        ipAddress: req.ip || req.connection.remoteAddress,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'Password reset successfully. You can now sign in with your new password.'
+        }
+      });
+    } catch (error) {
+      logger.error('Reset password controller error:', error);
+
+      if (isAppError(error)) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'PASSWORD_RESET_FAILED',
+          message: 'Password reset failed'
+        }
+      });
+    }
+  }
+
+  /**
+   * Refresh Tokens
    * POST /api/v1/auth/refresh
    */
   static async refreshToken(req: Request, res: Response): Promise<void> {
@@ -178,12 +490,16 @@ export class AuthController {
         return;
       }
 
-      const result = await AuthService.refreshToken(refreshToken);
+      const result = await AuthService.refreshToken(refreshToken, {
+        ipAddress: req.ip || req.connection.remoteAddress,
+        userAgent: req.get('User-Agent')
+      });
 
       res.status(200).json({
         success: true,
         data: {
           accessToken: result.accessToken,
+          refreshToken: result.refreshToken,
           message: 'Token refreshed successfully'
         }
       });
@@ -219,7 +535,13 @@ export class AuthController {
         return;
       }
 
-      await AuthService.logout(userId, userType, tenantId);
+      const { refreshToken } = req.body as LogoutInput;
+
+      await AuthService.logout(userId, userType, tenantId, {
+        tokenId: req.user?.tokenId,
+        tokenExpiresAt: req.user?.tokenExpiresAt,
+        refreshToken
+      });
 
       res.status(200).json({
         success: true,
@@ -240,6 +562,105 @@ export class AuthController {
     }
   }
 
+  /**
+   * Logout All Devices
+   * POST /api/v1/auth/logout-all
+   */
+  static async logoutAll(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, userType, tenantId } = req.user || {};
+
+      if (!userId || !userType) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User not authenticated'
+          }
+        });
+        return;
+      }
+
+      const revokedSessions = await AuthService.logoutAll(userId, userType, tenantId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          revokedSessions,
+          message: 'Logged out of all devices'
+        }
+      });
+    } catch (error) {
+      logger.error('Logout all controller error:', error);
+      
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'LOGOUT_ALL_FAILED',
+          message: 'Failed to log out of all devices'
+        }
+      });
+    }
+  }
+
+  /**
+   * Change Password
+   * PUT /api/v1/auth/change-password
+   */
+  static async changePassword(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, userType } = req.user || {};
+
+      if (!userId || !userType) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User not authenticated'
+          }
+        });
+        return;
+      }
+
+      const { currentPassword, newPassword } = req.body as ChangePasswordInput;
+      const tokens = await AuthService.changePassword(userId, userType, { currentPassword, newPassword }, {
+        ipAddress: req.ip || req.connection.remoteAddress,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          accessToken: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
+          message: 'Password changed successfully. Other devices have been signed out.'
+        }
+      });
+    } catch (error) {
+      logger.error('Change password controller error:', error);
+
+      if (isAppError(error)) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'PASSWORD_CHANGE_FAILED',
+          message: 'Failed to change password'
+        }
+      });
+    }
+  }
+
   /**
    * Get User Profile
    * GET /api/v1/auth/profile
@@ -295,4 +716,4 @@ export class AuthController {
       }
     });
   }
-}
\ No newline at end of file
+}
\ No newline at end of file
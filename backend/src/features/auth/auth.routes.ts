@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { AuthController } from './auth.controller';
-import { authenticateToken, optionalAuth, authRateLimit } from '../../middleware/auth.middleware';
+import { MfaController } from '../mfa/mfa.controller';
+import { ImpersonationController } from '../impersonation/impersonation.controller';
+import { authenticateToken, optionalAuth, forbidImpersonation, authRateLimit, passwordResetRateLimit } from '../../middleware/auth.middleware';
 import { validate } from '../../middleware/zod.middleware';
 import { cacheConfigs } from '../../middleware/cache.middleware';
 import {
@@ -8,8 +10,15 @@ import {
   tenantAdminLoginSchema,
   teamMemberLoginSchema,
   clientLoginSchema,
-  refreshTokenSchema
+  registerSchema,
+  verifyEmailSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  refreshTokenSchema,
+  logoutSchema,
+  changePasswordSchema
 } from './auth.schemas';
+import { mfaSetupSchema, mfaEnableSchema, mfaCodeSchema } from '../mfa/mfa.schemas';
 
 const router = Router();
 
@@ -65,9 +74,126 @@ router.post('/login/client',
   AuthController.loginClient
 );
 
+/**
+ * @route   POST /api/v1/auth/register
+ * @desc    Client self-registration (tenant resolved from body, header or host)
+ * @access  Public
+ */
+router.post('/register', 
+  authLimiter,
+  validate(registerSchema),
+  AuthController.register
+);
+
+/**
+ * @route   POST /api/v1/auth/verify-email
+ * @desc    Verify email address with a single-use token
+ * @access  Public
+ */
+router.post('/verify-email', 
+  authLimiter,
+  validate(verifyEmailSchema),
+  AuthController.verifyEmail
+);
+
+/**
+ * @route   POST /api/v1/auth/resend-verification
+ * @desc    Send a new email verification link to the signed-in user
+ * @access  Private
+ */
+router.post('/resend-verification', 
+  passwordResetRateLimit,
+  authenticateToken,
+  AuthController.resendVerification
+);
+
+/**
+ * @route   POST /api/v1/auth/forgot-password
+ * @desc    Request password reset links for an email
+ * @access  Public
+ */
+router.post('/forgot-password', 
+  passwordResetRateLimit,
+  validate(forgotPasswordSchema),
+  AuthController.forgotPassword
+);
+
+/**
+ * @route   POST /api/v1/auth/reset-password
+ * @desc    Reset password with a single-use token
+ * @access  Public
+ */
+router.post('/reset-password', 
+  passwordResetRateLimit,
+  validate(resetPasswordSchema),
+  AuthController.resetPassword
+);
+
+/**
+ * @route   GET /api/v1/auth/mfa/status
+ * @desc    Get two-factor authentication status
+ * @access  Private
+ */
+router.get('/mfa/status', 
+  authenticateToken,
+  MfaController.getStatus
+);
+
+/**
+ * @route   POST /api/v1/auth/mfa/setup
+ * @desc    Start two-factor setup (signed in, or with a login enrollment token)
+ * @access  Private
+ */
+router.post('/mfa/setup', 
+  authLimiter,
+  optionalAuth,
+  forbidImpersonation,
+  validate(mfaSetupSchema),
+  MfaController.startSetup
+);
+
+/**
+ * @route   POST /api/v1/auth/mfa/enable
+ * @desc    Confirm two-factor setup and receive backup codes
+ * @access  Private
+ */
+router.post('/mfa/enable', 
+  authLimiter,
+  optionalAuth,
+  forbidImpersonation,
+  validate(mfaEnableSchema),
+  MfaController.enable
+);
+
+/**
+ * @route   POST /api/v1/auth/mfa/disable
+ * @desc    Turn off two-factor authentication
+ * @access  Private
+ */
+router.post('/mfa/disable', 
+  authLimiter,
+  authenticateToken,
+  forbidImpersonation,
+  validate(mfaCodeSchema),
+  MfaController.disable
+);
+
+/**
+ * @route   POST /api/v1/auth/mfa/backup-codes
+ * @desc    Replace backup codes
+ * @access  Private
+ */
+router.post('/mfa/backup-codes', 
+  authLimiter,
+  authenticateToken,
+  forbidImpersonation,
+  validate(mfaCodeSchema),
+  MfaController.regenerateBackupCodes
+);
+
 /**
  * @route   POST /api/v1/auth/refresh
- * @desc    Refresh access token
+ * @desc    Rotate refresh token and issue a new token pair
  * @access  Public
  */
 router.post('/refresh', 
@@ -93,9 +219,44 @@ router.get('/profile',
  */
 router.post('/logout', 
   optionalAuth, // Optional auth for graceful logout
+  validate(logoutSchema),
   AuthController.logout
 );
 
+/**
+ * @route   POST /api/v1/auth/logout-all
+ * @desc    Revoke all sessions of the user on every device
+ * @access  Private
+ */
+router.post('/logout-all', 
+  authenticateToken,
+  forbidImpersonation,
+  AuthController.logoutAll
+);
+
+/**
+ * @route   POST /api/v1/auth/impersonation/end
+ * @desc    End the current impersonation session
+ * @access  Private (impersonation sessions)
+ */
+router.post('/impersonation/end',
+  authenticateToken,
+  ImpersonationController.end
+);
+
+/**
+ * @route   PUT /api/v1/auth/change-password
+ * @desc    Change own password and sign out other devices
+ * @access  Private
+ */
+router.put('/change-password',
+  authLimiter,
+  authenticateToken,
+  forbidImpersonation,
+  validate(changePasswordSchema),
+  AuthController.changePassword
+);
+
 /**
  * @route   GET /api/v1/auth/health
  * @desc    Authentication service health check
@@ -106,4 +267,4 @@ router.get('/health',
   AuthController.healthCheck
 );
 
-export default router;
\ No newline at end of file
+export default router;
\ No newline at end of file
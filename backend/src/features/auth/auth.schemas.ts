@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { schemas } from '../../utils/zod.schemas';
+import { mfaCodeField } from '../mfa/mfa.schemas';
 
 /**
  * Super Admin Login validation schema
@@ -8,36 +9,46 @@ export const superAdminLoginSchema = z.object({
   body: z.object({
     email: schemas.secureEmail,
     password: z.string().min(1, 'Password is required'),
+    mfaCode: mfaCodeField.optional(),
   }),
 });
 
 /**
  * Tenant Admin Login validation schema
+ * tenantId picks the organization when the email belongs to several
  */
 export const tenantAdminLoginSchema = z.object({
   body: z.object({
     email: schemas.secureEmail,
     password: z.string().min(1, 'Password is required'),
+    mfaCode: mfaCodeField.optional(),
+    tenantId: schemas.objectId.optional(),
   }),
 });
 
 /**
  * Team Member Login validation schema
+ * tenantId picks the organization when the email belongs to several
  */
 export const teamMemberLoginSchema = z.object({
   body: z.object({
     email: schemas.secureEmail,
     password: z.string().min(1, 'Password is required'),
+    mfaCode: mfaCodeField.optional(),
+    tenantId: schemas.objectId.optional(),
   }),
 });
 
 /**
  * Client Login validation schema
+ * tenantId picks the organization when the email belongs to several
  */
 export const clientLoginSchema = z.object({
   body: z.object({
     email: schemas.secureEmail,
     password: z.string().min(1, 'Password is required'),
+    mfaCode: mfaCodeField.optional(),
+    tenantId: schemas.objectId.optional(),
   }),
 });
 
@@ -47,8 +58,8 @@ export const clientLoginSchema = z.object({
 export const registerSchema = z.object({
   body: z.object({
     email: schemas.secureEmail,
-    password: schemas.strongPassword,
-    confirmPassword: z.string(),
+    password: schemas.strongPassword.optional(), // omitted for an email that already has a password on the portal
+    confirmPassword: z.string().optional(),
     firstName: z.string()
       .min(1, 'First name is required')
       .max(50, 'First name too long')
@@ -58,14 +69,15 @@ export const registerSchema = z.object({
       .max(50, 'Last name too long')
       .regex(/^[a-zA-Z\s'-]+$/, 'Invalid characters in last name'),
     tenantId: z.string().optional(),
-  }),
-}).refine(
-  (data) => data.body.password === data.body.confirmPassword,
-  {
-    message: "Passwords don't match",
-    path: ['body', 'confirmPassword'],
-  }
-);
+    tenantDomain: z.string().max(253, 'Tenant domain too long').optional(),
+  }).refine(
+    (data) => data.password === data.confirmPassword,
+    {
+      message: "Passwords don't match",
+      path: ['confirmPassword'],
+    }
+  ),
+});
 
 /**
  * Forgot password schema
@@ -81,17 +93,17 @@ export const forgotPasswordSchema = z.object({
  */
 export const resetPasswordSchema = z.object({
   body: z.object({
-    token: z.string().min(1, 'Reset token is required'),
-    password: schemas.strongPassword,
+    token: z.string().min(1, 'Reset token is required').max(128, 'Invalid reset token'),
+    newPassword: schemas.strongPassword,
     confirmPassword: z.string(),
-  }),
-}).refine(
-  (data) => data.body.password === data.body.confirmPassword,
-  {
-    message: "Passwords don't match",
-    path: ['body', 'confirmPassword'],
-  }
-);
+  }).refine(
+    (data) => data.newPassword === data.confirmPassword,
+    {
+      message: "Passwords don't match",
+      path: ['confirmPassword'],
+    }
+  ),
+});
 
 /**
  * Change password schema
@@ -101,59 +113,46 @@ export const changePasswordSchema = z.object({
     currentPassword: z.string().min(1, 'Current password is required'),
     newPassword: schemas.strongPassword,
     confirmPassword: z.string(),
-  }),
-}).refine(
-  (data) => data.body.newPassword === data.body.confirmPassword,
-  {
-    message: "Passwords don't match",
-    path: ['body', 'confirmPassword'],
-  }
-).refine(
-  (data) => data.body.currentPassword !== data.body.newPassword,
-  {
-    message: 'New password must be different from current password',
-    path: ['body', 'newPassword'],
-  }
-);
-
-/**
- * MFA setup schema
- */
-export const mfaSetupSchema = z.object({
-  body: z.object({
-    code: z.string()
-      .length(6, 'MFA code must be 6 digits')
-      .regex(/^\d{6}$/, 'MFA code must contain only digits'),
-  }),
+  }).refine(
+    (data) => data.newPassword === data.confirmPassword,
+    {
+      message: "Passwords don't match",
+      path: ['confirmPassword'],
+    }
+  ).refine(
+    (data) => data.currentPassword !== data.newPassword,
+    {
+      message: 'New password must be different from current password',
+      path: ['newPassword'],
+    }
+  ),
 });
 
 /**
- * MFA verify schema
+ * Verify email schema
  */
-export const mfaVerifySchema = z.object({
+export const verifyEmailSchema = z.object({
   body: z.object({
-    code: z.string()
-      .length(6, 'MFA code must be 6 digits')
-      .regex(/^\d{6}$/, 'MFA code must contain only digits'),
-    token: z.string().min(1, 'Authentication token is required'),
+    token: z.string().min(1, 'Verification token is required').max(128, 'Invalid verification token'),
   }),
 });
 
 /**
- * Verify email schema
+ * Refresh token schema
  */
-export const verifyEmailSchema = z.object({
+export const refreshTokenSchema = z.object({
   body: z.object({
-    token: z.string().min(1, 'Verification token is required'),
+    refreshToken: z.string().min(1, 'Refresh token is required'),
   }),
 });
 
 /**
- * Refresh token schema
+ * Logout schema
+ * The refresh token of this device is revoked when supplied
  */
-export const refreshTokenSchema = z.object({
+export const logoutSchema = z.object({
   body: z.object({
-    refreshToken: z.string().min(1, 'Refresh token is required'),
+    refreshToken: z.string().min(1).max(2048).optional(),
   }),
 });
 
@@ -195,9 +194,8 @@ export type RegisterInput = z.infer<typeof registerSchema>['body'];
 export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>['body'];
 export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>['body'];
 export type ChangePasswordInput = z.infer<typeof changePasswordSchema>['body'];
-export type MFASetupInput = z.infer<typeof mfaSetupSchema>['body'];
-export type MFAVerifyInput = z.infer<typeof mfaVerifySchema>['body'];
 export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>['body'];
 export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>['body'];
+export type LogoutInput = z.infer<typeof logoutSchema>['body'];
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>['body'];
 
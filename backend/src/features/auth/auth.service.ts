@@ -1,29 +1,65 @@
 /**
  * RCIC Authentication Service
  * Handles authentication for 4 user types: super_admin, tenant_admin, team_member, client
+ * Credentials live in the shared identity store (see identity.service); the
+ * four logins differ only in the account type they sign in as
  * 
  * @module auth.service
  */
 
 import { SuperAdmin } from '../../models/superadmin.model';
 import { Tenant } from '../../models/tenant.model';
+import { TenantAdmin } from '../../models/tenant-admin.model';
 import { TenantTeamMember } from '../../models/tenant-team-member.model';
 import { User } from '../../models/user.model';
 import { AuditLog } from '../../models/audit-log.model';
-import {
-  PasswordUtils,
-  JWTUtils
-} from '../../utils/auth.utils';
+import { IIdentityMembership } from '../../models/identity.model';
+import { PasswordUtils, SecurityUtils } from '../../utils/auth.utils';
 import { ValidationUtils } from '../../utils/validation.utils';
 import logger from '../../utils/logger';
+import MailService from '../../services/mail/mail.service';
+import TokenDenylistService from '../../services/token-denylist.service';
+import PermissionVersionService from '../../services/permission-version.service';
+import SecurityPolicyService from '../../services/security-policy.service';
+import SessionActivityService from '../../services/session-activity.service';
+import { IP_RESTRICTED_USER_TYPES, SecurityPolicy } from '../../config/security-policy.config';
+import { ClientAssignmentService } from '../client-assignment/client-assignment.service';
+import { AccountTokenService } from './account-token.service';
+import { IdentityService, IdentityDocument } from './identity.service';
+import { RefreshTokenService, TokenSubject } from './refresh-token.service';
+import { MfaService } from '../mfa/mfa.service';
 import {
   AuthTokens,
   UserProfile,
-  LoginCredentials
+  LoginCredentials,
+  RegisteredClient,
+  UserType
 } from './types/auth.types';
 import {
-  AuthenticationError
+  AuthenticationError,
+  ClientLimitReachedError,
+  ConflictError,
+  InvalidCurrentPasswordError,
+  IpNotAllowedError,
+  PasswordExpiredError,
+  SelfRegistrationDisabledError,
+  TenantError,
+  TenantSelectionRequiredError
 } from './types/errors.types';
+import { ChangePasswordInput, RegisterInput } from './auth.schemas';
+import { CLIENT_PERMISSION_KEYS, TENANT_ADMIN_PERMISSION_KEYS } from '../../config/permissions.config';
+
+// Fixed permission sets; tenant admins and clients have no per-account permissions
+const TENANT_ADMIN_PERMISSIONS: string[] = [...TENANT_ADMIN_PERMISSION_KEYS];
+const CLIENT_PERMISSIONS: string[] = [...CLIENT_PERMISSION_KEYS];
+
+// Login endpoint of each user type, as recorded in logs and the audit trail
+const LOGIN_ENDPOINTS: Record<UserType, { label: string; resource: string; path: string }> = {
+  super_admin: { label: 'Super admin', resource: 'SuperAdmin', path: '/api/v1/auth/login/super-admin' },
+  tenant_admin: { label: 'Tenant admin', resource: 'TenantAdmin', path: '/api/v1/auth/login/tenant-admin' },
+  team_member: { label: 'Team member', resource: 'TenantTeamMember', path: '/api/v1/auth/login/team-member' },
+  client: { label: 'Client', resource: 'User', path: '/api/v1/auth/login/client' }
+};
 
 /**
  * RCIC Authentication Service
@@ -41,89 +77,7 @@ export class AuthService {
     tokens: AuthTokens;
     user: UserProfile;
   }> {
-    try {
-      const { email, password } = credentials;
-
-      // Find super admin by email (with password field)
-      const superAdmin = await SuperAdmin.findOne({ email: email.toLowerCase(), deletedAt: null }).select('+password +lockUntil');
-      if (!superAdmin) {
-        throw new AuthenticationError('Invalid credentials');
-      }
-
-      // Verify password
-      const isPasswordValid = await PasswordUtils.comparePassword(password, superAdmin.password);
-      if (!isPasswordValid) {
-        await superAdmin.incrementLoginAttempts();
-        throw new AuthenticationError('Invalid credentials');
-      }
-
-      // Check if account is active
-      if (!superAdmin.isActiveAccount()) {
-        throw new AuthenticationError('Account is inactive');
-      }
-
-      // Reset login attempts on successful login
-      await superAdmin.resetLoginAttempts();
-
-      // Update last login
-      superAdmin.lastLogin = new Date();
-      await superAdmin.save();
-
-      // Generate tokens
-      const tokens = await JWTUtils.generateTokens({
-        userId: superAdmin._id.toString(),
-        userType: 'super_admin',
-        email: superAdmin.email,
-        permissions: superAdmin.permissions
-      });
-
-      // Create user profile
-      const userProfile: UserProfile = {
-        id: superAdmin._id.toString(),
-        email: superAdmin.email,
-        firstName: superAdmin.firstName,
-        lastName: superAdmin.lastName,
-        userType: 'super_admin',
-        role: 'super_admin',
-        permissions: superAdmin.permissions,
-        isActive: superAdmin.isActive,
-        lastLogin: superAdmin.lastLogin,
-        profile: superAdmin.profile,
-        preferences: superAdmin.preferences
-      };
-
-      // Log successful login
-      await AuditLog.create({
-        userId: superAdmin._id,
-        userType: 'super_admin',
-        action: 'user.login',
-        resource: 'SuperAdmin',
-        resourceId: superAdmin._id,
-        category: 'auth',
-        method: 'POST',
-        endpoint: '/api/v1/auth/login/super-admin',
-        ipAddress: credentials.ipAddress || 'unknown',
-        userAgent: credentials.userAgent || 'unknown',
-        statusCode: 200,
-        details: {
-          email: superAdmin.email
-        }
-      });
-
-      logger.info('Super admin login successful', { 
-        userId: superAdmin._id, 
-        email: superAdmin.email 
-      });
-
-      return { tokens, user: userProfile };
-
-    } catch (error) {
-      logger.error('Super admin login failed', { 
-        email: credentials.email, 
-        error: error instanceof Error ? error.message : 'Unknown error' 
-      });
-      throw error;
-    }
+    return this.login('super_admin', credentials);
   }
 
   /**
@@ -137,104 +91,7 @@ export class AuthService {
     tokens: AuthTokens;
     user: UserProfile;
   }> {
-    try {
-      const { email, password } = credentials;
-
-      // Find tenant by admin email (with password field)
-      const tenant = await Tenant.findOne({ adminEmail: email.toLowerCase(), deletedAt: null }).select('+adminPassword +adminLockUntil');
-      if (!tenant) {
-        throw new AuthenticationError('Invalid credentials');
-      }
-
-      // Verify password
-      const isPasswordValid = await PasswordUtils.comparePassword(password, tenant.adminPassword);
-      if (!isPasswordValid) {
-        await tenant.incrementAdminLoginAttempts();
-        throw new AuthenticationError('Invalid credentials');
-      }
-
-      // Check if tenant is active
-      if (!tenant.isActive()) {
-        throw new AuthenticationError('Tenant account is inactive');
-      }
-
-      // Reset login attempts on successful login
-      await tenant.resetAdminLoginAttempts();
-
-      // Update last login
-      tenant.adminLastLogin = new Date();
-      await tenant.save();
-
-      // Generate tokens
-      const tokens = await JWTUtils.generateTokens({
-        userId: tenant._id.toString(),
-        userType: 'tenant_admin',
-        tenantId: tenant._id.toString(),
-        email: tenant.adminEmail,
-        permissions: ['manage_team', 'view_clients', 'manage_settings']
-      });
-
-      // Create user profile
-      const userProfile: UserProfile = {
-        id: tenant._id.toString(),
-        email: tenant.adminEmail,
-        firstName: tenant.adminFirstName,
-        lastName: tenant.adminLastName,
-        userType: 'tenant_admin',
-        role: 'admin',
-        tenantId: tenant._id.toString(),
-        tenantName: tenant.name,
-        tenantDomain: tenant.domain,
-        permissions: ['manage_team', 'view_clients', 'manage_settings'],
-        isActive: tenant.isActive(),
-        lastLogin: tenant.adminLastLogin,
-        profile: {
-          phone: tenant.metadata.phone,
-          timezone: 'UTC'
-        },
-        preferences: {
-          theme: 'system',
-          notifications: {
-            email: true,
-            push: true,
-            sms: false
-          }
-        }
-      };
-
-      // Log successful login
-      await AuditLog.create({
-        tenantId: tenant._id,
-        userId: tenant._id,
-        userType: 'tenant_admin',
-        action: 'user.login',
-        resource: 'Tenant',
-        resourceId: tenant._id,
-        category: 'auth',
-        method: 'POST',
-        endpoint: '/api/v1/auth/login/tenant-admin',
-        ipAddress: credentials.ipAddress || 'unknown',
-        userAgent: credentials.userAgent || 'unknown',
-        statusCode: 200,
-        details: {
-          email: tenant.adminEmail
-        }
-      });
-
-      logger.info('Tenant admin login successful', { 
-        tenantId: tenant._id, 
-        email: tenant.adminEmail 
-      });
-
-      return { tokens, user: userProfile };
-
-    } catch (error) {
-      logger.error('Tenant admin login failed', { 
-        email: credentials.email, 
-        error: error instanceof Error ? error.message : 'Unknown error' 
-      });
-      throw error;
-    }
+    return this.login('tenant_admin', credentials);
   }
 
   /**
@@ -243,108 +100,13 @@ export class AuthService {
    * @param credentials - Team member login credentials
    * @returns Authentication tokens and user profile
    * @throws AuthenticationError - Invalid credentials
+   * @throws TenantSelectionRequiredError - Email belongs to team members of several tenants
    */
   static async loginTeamMember(credentials: LoginCredentials): Promise<{
     tokens: AuthTokens;
     user: UserProfile;
   }> {
-    try {
-      const { email, password } = credentials;
-
-      // Find team member by email (with password field)
-      const teamMember = await TenantTeamMember.findOne({ email: email.toLowerCase(), deletedAt: null }).select('+password +lockUntil');
-      if (!teamMember) {
-        throw new AuthenticationError('Invalid credentials');
-      }
-
-      // Verify password
-      const isPasswordValid = await PasswordUtils.comparePassword(password, teamMember.password);
-      if (!isPasswordValid) {
-        await teamMember.incrementLoginAttempts();
-        throw new AuthenticationError('Invalid credentials');
-      }
-
-      // Check if account is active
-      if (!teamMember.isActiveAccount()) {
-        throw new AuthenticationError('Account is inactive');
-      }
-
-      // Reset login attempts on successful login
-      await teamMember.resetLoginAttempts();
-
-      // Update last login
-      teamMember.lastLogin = new Date();
-      await teamMember.save();
-
-      // Get tenant information
-      const teamMemberTenantId = ValidationUtils.validateObjectId(teamMember.tenantId.toString(), 'Tenant ID');
-      const tenant = await Tenant.findById(teamMemberTenantId);
-      if (!tenant) {
-        throw new AuthenticationError('Tenant not found');
-      }
-
-      // Generate tokens
-      const tokens = await JWTUtils.generateTokens({
-        userId: teamMember._id.toString(),
-        userType: 'team_member',
-        tenantId: teamMember.tenantId.toString(),
-        email: teamMember.email,
-        permissions: teamMember.permissions
-      });
-
-      // Create user profile
-      const userProfile: UserProfile = {
-        id: teamMember._id.toString(),
-        email: teamMember.email,
-        firstName: teamMember.firstName,
-        lastName: teamMember.lastName,
-        userType: 'team_member',
-        role: teamMember.role,
-        tenantId: teamMember.tenantId.toString(),
-        tenantName: tenant.name,
-        tenantDomain: tenant.domain,
-        permissions: teamMember.permissions,
-        specializations: teamMember.specializations,
-        isActive: teamMember.isActive,
-        lastLogin: teamMember.lastLogin,
-        profile: teamMember.profile,
-        preferences: teamMember.preferences
-      };
-
-      // Log successful login
-      await AuditLog.create({
-        tenantId: teamMember.tenantId,
-        userId: teamMember._id,
-        userType: 'team_member',
-        action: 'user.login',
-        resource: 'TenantTeamMember',
-        resourceId: teamMember._id,
-        category: 'auth',
-        method: 'POST',
-        endpoint: '/api/v1/auth/login/team-member',
-        ipAddress: credentials.ipAddress || 'unknown',
-        userAgent: credentials.userAgent || 'unknown',
-        statusCode: 200,
-        details: {
-          email: teamMember.email
-        }
-      });
-
-      logger.info('Team member login successful', { 
-        teamMemberId: teamMember._id, 
-        tenantId: teamMember.tenantId,
-        email: teamMember.email 
-      });
-
-      return { tokens, user: userProfile };
-
-    } catch (error) {
-      logger.error('Team member login failed', { 
-        email: credentials.email, 
-        error: error instanceof Error ? error.message : 'Unknown error' 
-      });
-      throw error;
-    }
+    return this.login('team_member', credentials);
   }
 
   /**
@@ -353,135 +115,176 @@ export class AuthService {
    * @param credentials - Client login credentials
    * @returns Authentication tokens and user profile
    * @throws AuthenticationError - Invalid credentials
+   * @throws TenantSelectionRequiredError - Email belongs to clients of several tenants
    */
   static async loginClient(credentials: LoginCredentials): Promise<{
     tokens: AuthTokens;
     user: UserProfile;
   }> {
+    return this.login('client', credentials);
+  }
+
+  /**
+   * Client Self-Registration
+   * Creates a pending client in the resolved tenant when the tenant allows it
+   * 
+   * @param input - Registration details
+   * @param tenantId - Tenant resolved from the request
+   * @param context - Request metadata for the audit trail
+   * @returns The registered client
+   * @throws TenantError - Tenant missing or inactive
+   * @throws SelfRegistrationDisabledError - Tenant does not accept self-registration
+   * @throws ClientLimitReachedError - Tenant plan has no room for another client
+   * @throws ConflictError - Email already registered with the tenant
+   * @throws ExistingCredentialsError - Password given for an email that already has one
+   */
+  static async registerClient(
+    input: RegisterInput,
+    tenantId: string,
+    context: { ipAddress?: string; userAgent?: string } = {}
+  ): Promise<RegisteredClient> {
     try {
-      const { email, password } = credentials;
+      const validatedTenantId = ValidationUtils.validateObjectId(tenantId, 'Tenant ID');
+      const tenant = await Tenant.findOne({ _id: validatedTenantId, deletedAt: null });
+      if (!tenant || tenant.status !== 'active') {
+        throw new TenantError('Registration is not available for this organization');
+      }
 
-      // Find client by email (with password field)
-      const client = await User.findOne({ email: email.toLowerCase(), deletedAt: null }).select('+password +lockUntil');
-      if (!client) {
-        throw new AuthenticationError('Invalid credentials');
+      if (!tenant.settings.allowSelfRegistration) {
+        throw new SelfRegistrationDisabledError('This organization does not accept self-registration');
       }
 
-      // Verify password
-      const isPasswordValid = await PasswordUtils.comparePassword(password, client.password);
-      if (!isPasswordValid) {
-        await client.incrementLoginAttempts();
-        throw new AuthenticationError('Invalid credentials');
+      const currentCount = await User.countDocuments({ tenantId: validatedTenantId, deletedAt: null });
+      if (!(await tenant.canAddClient(currentCount))) {
+        throw new ClientLimitReachedError('This organization cannot accept new clients at the moment');
       }
 
-      // Check if account is active
-      if (!client.isActive()) {
-        throw new AuthenticationError('Account is inactive');
+      const email = input.email.toLowerCase();
+      const existingClient = await User.findOne({ tenantId: validatedTenantId, email, deletedAt: null });
+      if (existingClient) {
+        throw new ConflictError('An account with this email already exists');
       }
 
-      // Reset login attempts on successful login
-      await client.resetLoginAttempts();
+      await IdentityService.validateNewCredentials(email, input.password, tenantId);
 
-      // Update last login
-      client.lastLogin = new Date();
-      await client.save();
+      const requiresEmailVerification = tenant.settings.requireEmailVerification;
 
-      // Get tenant information
-      const clientTenantId = ValidationUtils.validateObjectId(client.tenantId.toString(), 'Tenant ID');
-      const tenant = await Tenant.findById(clientTenantId);
-      if (!tenant) {
-        throw new AuthenticationError('Tenant not found');
-      }
+      const assignedTo = await ClientAssignmentService.selectTeamMember(tenantId) ?? undefined;
 
-      // Generate tokens
-      const tokens = await JWTUtils.generateTokens({
-        userId: client._id.toString(),
-        userType: 'client',
-        tenantId: client.tenantId.toString(),
-        email: client.email,
-        permissions: ['view_own_profile', 'edit_own_profile', 'view_own_applications', 'upload_documents']
+      // Self-registered clients stay pending until verified or approved by the tenant
+      const client = await User.create({
+        tenantId: validatedTenantId,
+        assignedTo,
+        email,
+        firstName: SecurityUtils.sanitizeInput(input.firstName),
+        lastName: SecurityUtils.sanitizeInput(input.lastName),
+        status: 'pending',
+        emailVerified: false
       });
 
-      // Create user profile
-      const userProfile: UserProfile = {
-        id: client._id.toString(),
-        email: client.email,
-        firstName: client.firstName,
-        lastName: client.lastName,
-        userType: 'client',
-        role: 'client',
-        tenantId: client.tenantId.toString(),
-        tenantName: tenant.name,
-        tenantDomain: tenant.domain,
-        permissions: ['view_own_profile', 'edit_own_profile', 'view_own_applications', 'upload_documents'],
-        isActive: client.isActive(),
-        lastLogin: client.lastLogin,
-        profile: client.profile,
-        preferences: client.preferences
-      };
+      // An email already known to the platform keeps its existing password once its holder confirms
+      const linkResult = await IdentityService.linkPrincipal(email, input.password, {
+        principalType: 'client',
+        principalId: client._id.toString(),
+        tenantId: client.tenantId.toString()
+      });
+      const awaitingConfirmation = linkResult === 'pending_confirmation';
+
+      // A failed send must not undo the registration; the client can request a new link
+      if (requiresEmailVerification || awaitingConfirmation) {
+        await AccountTokenService.sendEmailVerification('client', client._id.toString(), awaitingConfirmation).catch(mailError => {
+          logger.error('Verification email failed', {
+            clientId: client._id,
+            error: mailError instanceof Error ? mailError.message : 'Unknown error'
+          });
+        });
+      }
 
-      // Log successful login
       await AuditLog.create({
         tenantId: client.tenantId,
         userId: client._id,
         userType: 'client',
-        action: 'user.login',
+        action: 'user.register',
         resource: 'User',
         resourceId: client._id,
         category: 'auth',
         method: 'POST',
-        endpoint: '/api/v1/auth/login/client',
-        ipAddress: credentials.ipAddress || 'unknown',
-        userAgent: credentials.userAgent || 'unknown',
-        statusCode: 200,
+        endpoint: '/api/v1/auth/register',
+        ipAddress: context.ipAddress || 'unknown',
+        userAgent: context.userAgent || 'unknown',
+        statusCode: 201,
         details: {
-          email: client.email
+          email: client.email,
+          requiresEmailVerification,
+          awaitingConfirmation
         }
       });
 
-      logger.info('Client login successful', { 
-        clientId: client._id, 
+      logger.info('Client self-registration successful', {
+        clientId: client._id,
         tenantId: client.tenantId,
-        email: client.email 
+        email: client.email
       });
 
-      return { tokens, user: userProfile };
+      return {
+        id: client._id.toString(),
+        email: client.email,
+        firstName: client.firstName,
+        lastName: client.lastName,
+        tenantId: client.tenantId.toString(),
+        tenantName: tenant.name,
+        status: client.status,
+        emailVerified: client.emailVerified,
+        requiresEmailVerification,
+        awaitingConfirmation
+      };
 
     } catch (error) {
-      logger.error('Client login failed', { 
-        email: credentials.email, 
-        error: error instanceof Error ? error.message : 'Unknown error' 
+      logger.error('Client self-registration failed', {
+        email: input.email,
+        tenantId,
+        error: error instanceof Error ? error.message : 'Unknown error'
       });
       throw error;
     }
   }
 
   /**
-   * Refresh Access Token
+   * Refresh Tokens
+   * Rotates the refresh token; the presented token cannot be used again.
+   * The new access token reflects the account's current permissions, and the
+   * tenant's IP ranges and idle timeout are checked as on every request
    * 
    * @param refreshToken - Refresh token
-   * @returns New access token
-   * @throws AuthenticationError - Invalid refresh token
+   * @param context - Request metadata recorded with the new token
+   * @returns New access and refresh tokens
+   * @throws AuthenticationError - Invalid, revoked or replayed refresh token
    */
-  static async refreshToken(refreshToken: string): Promise<{ accessToken: string }> {
+  static async refreshToken(
+    refreshToken: string,
+    context: { ipAddress?: string; userAgent?: string } = {}
+  ): Promise<AuthTokens> {
     try {
-      const decoded = JWTUtils.verifyRefreshToken(refreshToken);
-      
-      // Generate new access token
-      const accessToken = await JWTUtils.generateAccessToken({
-        userId: decoded.userId,
-        userType: decoded.userType,
-        tenantId: decoded.tenantId,
-        email: decoded.email,
-        permissions: decoded.permissions
-      });
+      const stored = await RefreshTokenService.consume(refreshToken, context);
+      const subject = await this.loadTokenSubject(stored.userType, stored.userId.toString());
+
+      const policy = await SecurityPolicyService.getInstance().getPolicy(subject.tenantId);
+      this.assertIpAllowed(subject.userType, policy, context.ipAddress);
+      if (policy.idleSessionTimeoutMinutes > 0 && await SessionActivityService.getInstance().isIdle(
+        stored.family,
+        Math.floor(stored.createdAt.getTime() / 1000),
+        policy.idleSessionTimeoutMinutes
+      )) {
+        throw new AuthenticationError('Session ended after inactivity');
+      }
+
+      const tokens = await RefreshTokenService.issueSuccessor(stored, subject, context);
 
       logger.info('Token refreshed successfully', { 
-        userId: decoded.userId, 
-        userType: decoded.userType 
+        ipAddress: context.ipAddress
       });
 
-      return { accessToken };
+      return tokens;
 
     } catch (error) {
       logger.error('Token refresh failed', { 
@@ -493,13 +296,29 @@ export class AuthService {
 
   /**
    * Logout User
+   * Denylists the current access token and revokes the refresh token family
+   * of this device
    * 
    * @param userId - User ID
    * @param userType - User type
    * @param tenantId - Tenant ID (if applicable)
+   * @param session - Access token id/expiry and the device's refresh token
    */
-  static async logout(userId: string, userType: string, tenantId?: string): Promise<void> {
+  static async logout(
+    userId: string,
+    userType: UserType,
+    tenantId?: string,
+    session: { tokenId?: string; tokenExpiresAt?: number; refreshToken?: string } = {}
+  ): Promise<void> {
     try {
+      if (session.tokenId) {
+        await TokenDenylistService.getInstance().revokeToken(session.tokenId, session.tokenExpiresAt);
+      }
+
+      if (session.refreshToken) {
+        await RefreshTokenService.revokeFamilyOf(session.refreshToken, { userId, userType });
+      }
+
       // Log logout action
       await AuditLog.create({
         tenantId: tenantId ? tenantId : undefined,
@@ -529,6 +348,127 @@ export class AuthService {
     }
   }
 
+  /**
+   * Logout All Devices
+   * Revokes every refresh token and every access token issued so far
+   * 
+   * @param userId - User ID
+   * @param userType - User type
+   * @param tenantId - Tenant ID (if applicable)
+   * @returns Number of refresh tokens revoked
+   */
+  static async logoutAll(userId: string, userType: UserType, tenantId?: string): Promise<number> {
+    const revoked = await RefreshTokenService.revokeAllForAccount(userType, userId, 'logout_all');
+
+    await AuditLog.create({
+      tenantId: tenantId ? tenantId : undefined,
+      userId: userId,
+      userType: userType,
+      action: 'user.logout_all',
+      resource: 'User',
+      resourceId: userId,
+      category: 'auth',
+      details: {
+        revokedRefreshTokens: revoked
+      }
+    });
+
+    logger.info('User logged out of all devices', { 
+      userId, 
+      userType, 
+      tenantId,
+      revokedRefreshTokens: revoked
+    });
+
+    return revoked;
+  }
+
+  /**
+   * Change Password
+   * Verifies the current password, then sets the new one under the strictest
+   * policy of the identity's tenants. Every session of every account sharing
+   * the identity is ended; this device gets a fresh token pair.
+   *
+   * @param userId - User ID
+   * @param userType - User type
+   * @param input - Current and new password
+   * @param context - Request metadata recorded with the new token
+   * @returns New access and refresh tokens for this device
+   * @throws InvalidCurrentPasswordError - Current password is wrong
+   * @throws AuthenticationError - Account inactive or identity locked
+   * @throws PasswordPolicyError - New password does not meet the policy
+   */
+  static async changePassword(
+    userId: string,
+    userType: UserType,
+    input: Pick<ChangePasswordInput, 'currentPassword' | 'newPassword'>,
+    context: { ipAddress?: string; userAgent?: string } = {}
+  ): Promise<AuthTokens> {
+    const subject = await this.loadTokenSubject(userType, userId);
+    const identity = await IdentityService.findByPrincipal(userType, userId, '+password');
+
+    if (identity.isLocked) {
+      throw new AuthenticationError('Account is temporarily locked. Please try again later');
+    }
+
+    // Wrong guesses count towards the lockout, as they do at sign-in
+    if (!await PasswordUtils.comparePassword(input.currentPassword, identity.password)) {
+      await IdentityService.recordFailedAttempt(identity);
+      throw new InvalidCurrentPasswordError('Current password is incorrect');
+    }
+
+    const memberships = await IdentityService.setPassword(userType, userId, input.newPassword);
+
+    let revoked = 0;
+    for (const membership of memberships) {
+      revoked += await RefreshTokenService.revokeAllForAccount(
+        membership.principalType,
+        membership.principalId.toString(),
+        'password_change'
+      );
+    }
+
+    // Issued after the revocation cutoff, so this device stays signed in
+    const tokens = await RefreshTokenService.issueTokens(subject, context);
+
+    await AuditLog.create({
+      tenantId: subject.tenantId,
+      userId,
+      userType,
+      action: 'user.password_changed',
+      resource: LOGIN_ENDPOINTS[userType].resource,
+      resourceId: userId,
+      category: 'security',
+      method: 'PUT',
+      endpoint: '/api/v1/auth/change-password',
+      ipAddress: context.ipAddress || 'unknown',
+      userAgent: context.userAgent || 'unknown',
+      statusCode: 200,
+      details: {
+        revokedRefreshTokens: revoked,
+        accounts: memberships.length
+      }
+    });
+
+    // Delivery failures are logged; the change itself has succeeded
+    this.sendPasswordChangedNotice(userId, userType, context).catch(error => {
+      logger.error('Password change notice failed', {
+        userId,
+        userType,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+
+    logger.info('User changed password', {
+      userId,
+      userType,
+      tenantId: subject.tenantId,
+      revokedRefreshTokens: revoked
+    });
+
+    return tokens;
+  }
+
   /**
    * Get User Profile
    * 
@@ -566,38 +506,44 @@ export class AuthService {
           };
           break;
 
-        case 'tenant_admin':
-          const tenant = await Tenant.findById(validatedUserId);
-          if (!tenant) {
-            throw new AuthenticationError('Tenant not found');
-          }
-          userProfile = {
-            id: tenant._id.toString(),
-            email: tenant.adminEmail,
-            firstName: tenant.adminFirstName,
-            lastName: tenant.adminLastName,
-            userType: 'tenant_admin',
-            role: 'admin',
-            tenantId: tenant._id.toString(),
-            tenantName: tenant.name,
-            tenantDomain: tenant.domain,
-            permissions: ['manage_team', 'view_clients', 'manage_settings'],
-            isActive: tenant.isActive(),
-            lastLogin: tenant.adminLastLogin,
-            profile: {
-              phone: tenant.metadata.phone,
-              timezone: 'UTC'
-            },
-            preferences: {
-              theme: 'system',
-              notifications: {
-                email: true,
-                push: true,
-                sms: false
-              }
+        case 'tenant_admin': {
+            const tenantAdmin = await TenantAdmin.findById(validatedUserId);
+            if (!tenantAdmin) {
+              throw new AuthenticationError('Tenant admin not found');
             }
-          };
-          break;
+            const tenant = await Tenant.findById(tenantAdmin.tenantId);
+            if (!tenant) {
+              throw new AuthenticationError('Tenant not found');
+            }
+            userProfile = {
+              id: tenantAdmin._id.toString(),
+              email: tenantAdmin.email,
+              firstName: tenantAdmin.firstName,
+              lastName: tenantAdmin.lastName,
+              userType: 'tenant_admin',
+              role: 'admin',
+              tenantId: tenant._id.toString(),
+              tenantName: tenant.name,
+              tenantDomain: tenant.domain,
+              isOwner: tenantAdmin.isOwner,
+              permissions: TENANT_ADMIN_PERMISSIONS,
+              isActive: tenant.isActive(),
+              lastLogin: tenantAdmin.lastLogin,
+              profile: {
+                phone: tenant.metadata.phone,
+                timezone: 'UTC'
+              },
+              preferences: {
+                theme: 'system',
+                notifications: {
+                  email: true,
+                  push: true,
+                  sms: false
+                }
+              }
+            };
+            break;
+        }
 
         case 'team_member':
           const teamMember = await TenantTeamMember.findById(validatedUserId);
@@ -642,7 +588,7 @@ export class AuthService {
             tenantId: client.tenantId.toString(),
             tenantName: clientTenant?.name || 'Unknown',
             tenantDomain: clientTenant?.domain || 'Unknown',
-            permissions: ['view_own_profile', 'edit_own_profile', 'view_own_applications', 'upload_documents'],
+            permissions: CLIENT_PERMISSIONS,
             isActive: client.isActive(),
             lastLogin: client.lastLogin,
             profile: client.profile,
@@ -665,4 +611,285 @@ export class AuthService {
       throw error;
     }
   }
+
+  /**
+   * Load the current token claims of an account
+   * Mirrors the login checks so refreshing (or impersonating) cannot outlive
+   * a deactivation
+   *
+   * @throws AuthenticationError - Account missing or no longer allowed to sign in
+   */
+  static async loadTokenSubject(userType: UserType, userId: string): Promise<TokenSubject> {
+    switch (userType) {
+      case 'super_admin': {
+        const superAdmin = await SuperAdmin.findById(userId);
+        if (!superAdmin || !superAdmin.isActiveAccount()) {
+          throw new AuthenticationError('Account is inactive');
+        }
+        return {
+          userId,
+          userType,
+          email: superAdmin.email,
+          permissions: superAdmin.permissions,
+          permissionVersion: PermissionVersionService.combine(superAdmin)
+        };
+      }
+
+      case 'tenant_admin': {
+        const tenantAdmin = await TenantAdmin.findOne({ _id: userId, deletedAt: null });
+        if (!tenantAdmin) {
+          throw new AuthenticationError('Account is inactive');
+        }
+        const tenant = await Tenant.findOne({ _id: tenantAdmin.tenantId, deletedAt: null });
+        if (!tenant || !tenant.isActive()) {
+          throw new AuthenticationError('Tenant account is inactive');
+        }
+        return {
+          userId,
+          userType,
+          tenantId: tenant._id.toString(),
+          email: tenantAdmin.email,
+          permissions: TENANT_ADMIN_PERMISSIONS,
+          permissionVersion: PermissionVersionService.combine(tenantAdmin, tenant)
+        };
+      }
+
+      case 'team_member': {
+        const teamMember = await TenantTeamMember.findById(userId);
+        if (!teamMember || !teamMember.isActiveAccount()) {
+          throw new AuthenticationError('Account is inactive');
+        }
+        const tenant = await this.findActiveTenant(teamMember.tenantId.toString());
+        return {
+          userId,
+          userType,
+          tenantId: teamMember.tenantId.toString(),
+          email: teamMember.email,
+          permissions: teamMember.permissions,
+          permissionVersion: PermissionVersionService.combine(teamMember, tenant)
+        };
+      }
+
+      case 'client': {
+        const client = await User.findOne({ _id: userId, deletedAt: null });
+        if (!client || !client.isActive()) {
+          throw new AuthenticationError('Account is inactive');
+        }
+        const tenant = await this.findActiveTenant(client.tenantId.toString());
+        return {
+          userId,
+          userType,
+          tenantId: client.tenantId.toString(),
+          email: client.email,
+          permissions: CLIENT_PERMISSIONS,
+          permissionVersion: PermissionVersionService.combine(client, tenant)
+        };
+      }
+
+      default:
+        throw new AuthenticationError('Invalid user type');
+    }
+  }
+
+  /**
+   * Helper: Sign in as one principal type
+   * Password and lockout are checked on the identity; the account itself is
+   * held to the same checks as a token refresh, then to the security policy
+   * of its tenant (IP ranges, password age)
+   */
+  private static async login(userType: UserType, credentials: LoginCredentials): Promise<{
+    tokens: AuthTokens;
+    user: UserProfile;
+  }> {
+    const endpoint = LOGIN_ENDPOINTS[userType];
+
+    try {
+      const identity = await IdentityService.authenticate(credentials.email, credentials.password, userType);
+      const membership = await this.selectMembership(identity, userType, credentials.tenantId);
+      const principalId = membership.principalId.toString();
+
+      // Check if account (and its tenant) is active
+      const subject = await this.loadTokenSubject(userType, principalId);
+
+      const policy = await SecurityPolicyService.getInstance().getPolicy(subject.tenantId);
+      this.assertIpAllowed(userType, policy, credentials.ipAddress);
+      if (IdentityService.isPasswordExpired(identity, policy)) {
+        throw new PasswordExpiredError('Your password has expired. Use "Forgot password" to choose a new one');
+      }
+
+      // Second factor (throws when a code or enrollment is needed)
+      const isSecondFactorValid = await MfaService.verifyLoginFactor({
+        accountType: userType,
+        accountId: principalId,
+        tenantId: subject.tenantId,
+        email: subject.email
+      }, credentials.mfaCode);
+      if (!isSecondFactorValid) {
+        await IdentityService.recordFailedAttempt(identity);
+        throw new AuthenticationError('Invalid verification code');
+      }
+
+      // Reset login attempts and update last login
+      await IdentityService.recordSuccessfulLogin(identity);
+      await this.recordLastLogin(userType, principalId);
+
+      // Generate tokens (starts a new refresh token family)
+      const tokens = await RefreshTokenService.issueTokens(subject, {
+        ipAddress: credentials.ipAddress,
+        userAgent: credentials.userAgent
+      });
+
+      const userProfile = await this.getProfile(principalId, userType);
+
+      // Log successful login
+      await AuditLog.create({
+        tenantId: subject.tenantId,
+        userId: principalId,
+        userType,
+        action: 'user.login',
+        resource: endpoint.resource,
+        resourceId: principalId,
+        category: 'auth',
+        method: 'POST',
+        endpoint: endpoint.path,
+        ipAddress: credentials.ipAddress || 'unknown',
+        userAgent: credentials.userAgent || 'unknown',
+        statusCode: 200,
+        details: {
+          email: subject.email
+        }
+      });
+
+      logger.info(`${endpoint.label} login successful`, {
+        userId: principalId,
+        tenantId: subject.tenantId,
+        email: subject.email
+      });
+
+      return { tokens, user: userProfile };
+
+    } catch (error) {
+      logger.error(`${endpoint.label} login failed`, {
+        email: credentials.email,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Helper: Pick the account to sign in as
+   * An email may hold accounts of the same type in several tenants; the
+   * caller then has to name the tenant
+   *
+   * @throws AuthenticationError - Named tenant has no such account
+   * @throws TenantSelectionRequiredError - Several accounts and no tenant named
+   */
+  private static async selectMembership(
+    identity: IdentityDocument,
+    userType: UserType,
+    tenantId?: string
+  ): Promise<IIdentityMembership> {
+    const memberships = IdentityService.getMemberships(identity, userType);
+
+    if (tenantId) {
+      const selected = memberships.find(membership => membership.tenantId?.toString() === tenantId);
+      if (!selected) {
+        throw new AuthenticationError('Invalid credentials');
+      }
+      return selected;
+    }
+
+    if (memberships.length === 1) {
+      return memberships[0];
+    }
+
+    const tenants = await Tenant.find({
+      _id: { $in: memberships.map(membership => membership.tenantId) },
+      deletedAt: null
+    }).select('name domain');
+
+    throw new TenantSelectionRequiredError('Choose the organization to sign in to', {
+      tenants: tenants.map(tenant => ({
+        id: tenant._id.toString(),
+        name: tenant.name,
+        domain: tenant.domain
+      }))
+    });
+  }
+
+  /**
+   * Helper: Reject staff signing in from outside the tenant's allowed IP ranges
+   *
+   * @throws IpNotAllowedError - Address outside every allowed range
+   */
+  private static assertIpAllowed(userType: UserType, policy: SecurityPolicy, ipAddress?: string): void {
+    if (!IP_RESTRICTED_USER_TYPES.includes(userType) || policy.allowedIpRanges.length === 0) {
+      return;
+    }
+
+    if (!ipAddress || !SecurityUtils.isIpInRanges(ipAddress, policy.allowedIpRanges)) {
+      throw new IpNotAllowedError('Sign-in is not allowed from this network');
+    }
+  }
+
+  /**
+   * Helper: Tell the account holder their password was changed, so an
+   * unexpected change can be reported
+   */
+  private static async sendPasswordChangedNotice(
+    userId: string,
+    userType: UserType,
+    context: { ipAddress?: string; userAgent?: string }
+  ): Promise<void> {
+    const profile = await this.getProfile(userId, userType);
+    const organizationName = profile.tenantName || 'Canadian Immigration Portal';
+
+    await MailService.getInstance().send({
+      to: profile.email,
+      subject: `Your ${organizationName} password was changed`,
+      text: [
+        `Hi ${profile.firstName},`,
+        '',
+        `The password of your ${organizationName} account was changed on ${new Date().toUTCString()}` +
+          (context.ipAddress ? ` from ${context.ipAddress}.` : '.'),
+        'All other devices have been signed out.',
+        '',
+        'If you did not make this change, reset your password with "Forgot password" right away and contact your administrator.'
+      ].join('\n')
+    });
+  }
+
+  /**
+   * Helper: Stamp the last login on the account's own record
+   */
+  private static async recordLastLogin(userType: UserType, principalId: string): Promise<void> {
+    const now = new Date();
+
+    switch (userType) {
+      case 'super_admin':
+        await SuperAdmin.updateOne({ _id: principalId }, { $set: { lastLogin: now } });
+        break;
+      case 'tenant_admin':
+        await TenantAdmin.updateOne({ _id: principalId }, { $set: { lastLogin: now } });
+        break;
+      case 'team_member':
+        await TenantTeamMember.updateOne({ _id: principalId }, { $set: { lastLogin: now } });
+        break;
+      case 'client':
+        await User.updateOne({ _id: principalId }, { $set: { lastLogin: now } });
+        break;
+    }
+  }
+
+  /**
+   * Helper: Load the tenant of a team member or client; it must not be suspended
+   */
+  private static async findActiveTenant(tenantId: string) {
+    const tenant = await Tenant.findOne({ _id: tenantId, deletedAt: null });
+    if (!tenant || tenant.status !== 'active') {
+      throw new AuthenticationError('Tenant account is inactive');
+    }
+    return tenant;
+  }
 }
@@ -0,0 +1,402 @@
+/**
+ * Identity Service
+ * The single credential store behind all four login endpoints
+ *
+ * An identity is one email with one password. Each account the email may
+ * sign in as (super admin, tenant admin, team member or client of a tenant)
+ * is a membership, so the same person can be a team member in two tenants
+ * without holding two passwords. Lockout is tracked per identity.
+ *
+ * An account created for an email that already has an identity waits as a
+ * pending membership until the holder confirms it through the link emailed
+ * to them, so nobody can attach accounts (and their tenants' policies) to
+ * someone else's credentials.
+ *
+ * Password rules and lockout thresholds come from the security policies of
+ * the identity's tenants; when they differ, the strictest applies. New
+ * passwords are also screened against known breached passwords unless every
+ * tenant turned that off.
+ *
+ * @module identity.service
+ */
+
+import mongoose, { HydratedDocument, UpdateQuery } from 'mongoose';
+import { Identity, IIdentity, IIdentityMembership, PrincipalType } from '../../models/identity.model';
+import { PasswordUtils } from '../../utils/auth.utils';
+import { ValidationUtils } from '../../utils/validation.utils';
+import { config } from '../../config/env.config';
+import { SECURITY_POLICY_LIMITS, SecurityPolicy } from '../../config/security-policy.config';
+import SecurityPolicyService from '../../services/security-policy.service';
+import BreachedPasswordService from '../../services/breached-password.service';
+import logger from '../../utils/logger';
+import {
+  AuthenticationError,
+  BreachedPasswordError,
+  ExistingCredentialsError,
+  NotFoundError,
+  PasswordPolicyError
+} from './types/errors.types';
+
+export type IdentityDocument = HydratedDocument<IIdentity>;
+
+/**
+ * Outcome of linking an account: a new identity with the given password, or
+ * a membership of an existing identity that its holder must confirm
+ */
+export type LinkResult = 'created' | 'pending_confirmation';
+
+/**
+ * Membership to link to an identity
+ */
+export interface PrincipalLink {
+  principalType: PrincipalType;
+  principalId: string;
+  tenantId?: string;
+}
+
+interface LockoutPolicy {
+  maxAttempts: number;
+  lockoutMs: number;
+}
+
+// Configured lockout per principal type, unless the tenant's policy sets its own;
+// an identity gets the strictest of its memberships
+const LOCKOUT_POLICIES: Record<PrincipalType, LockoutPolicy> = {
+  super_admin: { maxAttempts: config.SUPER_ADMIN_MAX_LOGIN_ATTEMPTS, lockoutMs: config.SUPER_ADMIN_LOCKOUT_DURATION_MS },
+  tenant_admin: { maxAttempts: config.TENANT_ADMIN_MAX_LOGIN_ATTEMPTS, lockoutMs: config.TENANT_ADMIN_LOCKOUT_DURATION_MS },
+  team_member: { maxAttempts: config.TEAM_MEMBER_MAX_LOGIN_ATTEMPTS, lockoutMs: config.TEAM_MEMBER_LOCKOUT_DURATION_MS },
+  client: { maxAttempts: config.CLIENT_MAX_LOGIN_ATTEMPTS, lockoutMs: config.CLIENT_LOCKOUT_DURATION_MS }
+};
+
+/**
+ * Identity Service
+ */
+export class IdentityService {
+  /**
+   * Verify an email and password for a principal type
+   * Failed attempts count towards the identity's lockout
+   *
+   * @returns The identity, holding at least one membership of the type
+   * @throws AuthenticationError - Unknown email, wrong password, locked, or no such membership
+   */
+  static async authenticate(email: string, password: string, principalType: PrincipalType): Promise<IdentityDocument> {
+    const identity = await Identity.findOne({ email: email.toLowerCase() }).select('+password');
+    if (!identity) {
+      throw new AuthenticationError('Invalid credentials');
+    }
+
+    // Checked before the password, so a locked identity answers the same whether or not it matches
+    if (identity.isLocked) {
+      throw new AuthenticationError('Account is temporarily locked. Please try again later');
+    }
+
+    const isPasswordValid = await PasswordUtils.comparePassword(password, identity.password);
+    if (!isPasswordValid) {
+      await this.recordFailedAttempt(identity);
+      throw new AuthenticationError('Invalid credentials');
+    }
+
+    if (!identity.memberships.some(membership => membership.principalType === principalType)) {
+      throw new AuthenticationError('Invalid credentials');
+    }
+
+    return identity;
+  }
+
+  /**
+   * Count a failed sign-in (wrong password or second factor)
+   * Locks the identity once the strictest policy of its memberships is reached
+   */
+  static async recordFailedAttempt(identity: IdentityDocument): Promise<void> {
+    // A lock that has expired starts a new count
+    if (identity.lockUntil && identity.lockUntil < new Date()) {
+      await identity.updateOne({ $set: { loginAttempts: 1 }, $unset: { lockUntil: 1 } });
+      return;
+    }
+
+    const policy = await this.getLockoutPolicy(identity);
+    const updates: UpdateQuery<IIdentity> = { $inc: { loginAttempts: 1 } };
+
+    if (identity.loginAttempts + 1 >= policy.maxAttempts && !identity.isLocked) {
+      updates.$set = { lockUntil: new Date(Date.now() + policy.lockoutMs) };
+      logger.warn('Identity locked after failed sign-ins', { identityId: identity._id });
+    }
+
+    await identity.updateOne(updates);
+  }
+
+  /**
+   * Clear failed attempts after a completed sign-in
+   */
+  static async recordSuccessfulLogin(identity: IdentityDocument): Promise<void> {
+    await identity.updateOne({
+      $set: { loginAttempts: 0, lastLogin: new Date() },
+      $unset: { lockUntil: 1 }
+    });
+  }
+
+  /**
+   * Memberships of a principal type, in the order they were linked
+   */
+  static getMemberships(identity: IdentityDocument, principalType: PrincipalType): IIdentityMembership[] {
+    return identity.memberships.filter(membership => membership.principalType === principalType);
+  }
+
+  /**
+   * Check a password chosen for a new account against the tenant's policy
+   * Call before creating the account, so a rejected password leaves nothing behind
+   *
+   * @throws PasswordPolicyError - Password does not meet the policy
+   * @throws BreachedPasswordError - Password is a known breached password
+   */
+  static async validateNewPassword(password: string, tenantId?: string): Promise<void> {
+    const policy = await SecurityPolicyService.getInstance().getPolicy(tenantId);
+    await this.assertPasswordStrength(password, policy);
+  }
+
+  /**
+   * Check the credentials given for a new account, before creating it
+   * An email that already has an identity keeps its password once the holder
+   * confirms the account, so no password may be given for it; an email new to
+   * the portal needs one that meets the tenant's policy.
+   *
+   * @throws ExistingCredentialsError - Password given for an email that has an identity
+   * @throws PasswordPolicyError - Password missing or does not meet the policy
+   * @throws BreachedPasswordError - Password is a known breached password
+   */
+  static async validateNewCredentials(email: string, password: string | undefined, tenantId?: string): Promise<void> {
+    const existing = await Identity.exists({ email: email.toLowerCase().trim() });
+    if (existing) {
+      if (password !== undefined) {
+        throw new ExistingCredentialsError(
+          'This email already has a password on the portal. Leave the password empty; the account holder will be asked to confirm the new account'
+        );
+      }
+      return;
+    }
+
+    if (password === undefined) {
+      throw new PasswordPolicyError('A password is required for an email that is new to the portal');
+    }
+    await this.validateNewPassword(password, tenantId);
+  }
+
+  /**
+   * Check whether the identity's password is older than a policy allows
+   */
+  static isPasswordExpired(identity: IdentityDocument, policy: SecurityPolicy): boolean {
+    if (policy.passwordMaxAgeDays === 0) {
+      return false;
+    }
+
+    // Identities migrated without a change date count from their creation
+    const changedAt = identity.passwordChangedAt ?? identity.createdAt;
+    const maxAgeMs = policy.passwordMaxAgeDays * 24 * 60 * 60 * 1000;
+    return changedAt.getTime() + maxAgeMs < Date.now();
+  }
+
+  /**
+   * Give a new account sign-in credentials
+   * An email that already has an identity keeps its password and the account
+   * waits as a pending membership until the holder confirms it (see
+   * confirmPendingMembership); the caller sends the confirmation link.
+   *
+   * @param password - Password of a new identity; unused when the email has one
+   * @throws PasswordPolicyError - No password for an email new to the portal
+   */
+  static async linkPrincipal(email: string, password: string | undefined, link: PrincipalLink): Promise<LinkResult> {
+    const membership = this.toMembership(link);
+    const normalizedEmail = email.toLowerCase().trim();
+
+    const existing = await Identity.findOneAndUpdate(
+      { email: normalizedEmail },
+      { $addToSet: { pendingMemberships: membership } },
+      { new: true }
+    );
+    if (existing) {
+      logger.info('Account awaiting confirmation by existing identity', {
+        identityId: existing._id,
+        principalType: link.principalType,
+        principalId: link.principalId
+      });
+      return 'pending_confirmation';
+    }
+
+    if (password === undefined) {
+      throw new PasswordPolicyError('A password is required for an email that is new to the portal');
+    }
+
+    await Identity.create({
+      email: normalizedEmail,
+      password: await PasswordUtils.hashPassword(password),
+      passwordChangedAt: new Date(),
+      loginAttempts: 0,
+      memberships: [membership]
+    });
+    return 'created';
+  }
+
+  /**
+   * Attach a pending account to its identity
+   * Called once the holder of the email opened the account's confirmation link
+   *
+   * @returns False when the account was not waiting for confirmation
+   */
+  static async confirmPendingMembership(principalType: PrincipalType, principalId: string): Promise<boolean> {
+    const id = new mongoose.Types.ObjectId(ValidationUtils.validateObjectId(principalId, 'Account ID'));
+
+    const identity = await Identity.findOne({ pendingMemberships: { $elemMatch: { principalType, principalId: id } } });
+    const membership = identity?.pendingMemberships.find(pending =>
+      pending.principalType === principalType && pending.principalId.equals(id)
+    );
+    if (!identity || !membership) {
+      return false;
+    }
+
+    await identity.updateOne({
+      $pull: { pendingMemberships: { principalType, principalId: id } },
+      $addToSet: { memberships: membership }
+    });
+
+    logger.info('Account linked to existing identity', { identityId: identity._id, principalType, principalId });
+    return true;
+  }
+
+  /**
+   * Remove an account from its identity
+   * The identity is deleted with its last membership, unless accounts are
+   * still waiting for its holder to confirm them
+   */
+  static async unlinkPrincipal(principalType: PrincipalType, principalId: string): Promise<void> {
+    const id = new mongoose.Types.ObjectId(ValidationUtils.validateObjectId(principalId, 'Account ID'));
+
+    // An account removed before its holder confirmed it was never a membership
+    await Identity.updateOne(
+      { pendingMemberships: { $elemMatch: { principalType, principalId: id } } },
+      { $pull: { pendingMemberships: { principalType, principalId: id } } }
+    );
+
+    const identity = await Identity.findOneAndUpdate(
+      { memberships: { $elemMatch: { principalType, principalId: id } } },
+      { $pull: { memberships: { principalType, principalId: id } } },
+      { new: true }
+    );
+
+    if (identity && identity.memberships.length === 0 && identity.pendingMemberships.length === 0) {
+      await Identity.deleteOne({ _id: identity._id });
+    }
+  }
+
+  /**
+   * Set a new password for the identity of an account
+   * Applies to every membership of the identity and clears any lockout.
+   * Must satisfy the strictest policy of the identity's tenants, including
+   * not reusing recent passwords.
+   *
+   * @returns Memberships whose sessions the caller may need to revoke
+   * @throws NotFoundError - Account has no identity
+   * @throws PasswordPolicyError - Password does not meet the policy
+   * @throws BreachedPasswordError - Password is a known breached password
+   */
+  static async setPassword(principalType: PrincipalType, principalId: string, newPassword: string): Promise<IIdentityMembership[]> {
+    const identity = await this.findByPrincipal(principalType, principalId, '+password +passwordHistory');
+
+    const policy = await SecurityPolicyService.getInstance().getStrictestPolicy(
+      identity.memberships.map(membership => membership.tenantId?.toString())
+    );
+    await this.assertPasswordStrength(newPassword, policy);
+
+    // The current password counts as the most recent one
+    const previousHashes = [identity.password, ...(identity.passwordHistory ?? [])];
+    for (const hash of previousHashes.slice(0, policy.passwordHistoryCount)) {
+      if (await PasswordUtils.comparePassword(newPassword, hash)) {
+        throw new PasswordPolicyError(
+          `Password must differ from your last ${policy.passwordHistoryCount} password${policy.passwordHistoryCount === 1 ? '' : 's'}`
+        );
+      }
+    }
+
+    // Keep the longest history any policy may ask for, so raising the count takes effect at once
+    identity.passwordHistory = previousHashes.slice(0, SECURITY_POLICY_LIMITS.passwordHistoryCount.max);
+    identity.password = await PasswordUtils.hashPassword(newPassword);
+    identity.passwordChangedAt = new Date();
+    identity.loginAttempts = 0;
+    identity.lockUntil = undefined;
+    await identity.save();
+
+    logger.info('Identity password changed', { identityId: identity._id, principalType, principalId });
+
+    return identity.memberships;
+  }
+
+  /**
+   * Load the identity holding an account
+   *
+   * @param select - Extra fields to load, e.g. '+password'
+   * @throws NotFoundError - Account has no identity
+   */
+  static async findByPrincipal(principalType: PrincipalType, principalId: string, select?: string): Promise<IdentityDocument> {
+    const id = new mongoose.Types.ObjectId(ValidationUtils.validateObjectId(principalId, 'Account ID'));
+
+    const query = Identity.findOne({ memberships: { $elemMatch: { principalType, principalId: id } } });
+    const identity = select ? await query.select(select) : await query;
+    if (!identity) {
+      throw new NotFoundError('Account credentials not found');
+    }
+
+    return identity;
+  }
+
+  /**
+   * Helper: Reject a password that breaks a policy's length or complexity
+   * rules, or that is known from breaches when the policy screens for them
+   */
+  private static async assertPasswordStrength(password: string, policy: SecurityPolicy): Promise<void> {
+    const { isValid, errors } = PasswordUtils.validatePasswordStrength(password, policy);
+    if (!isValid) {
+      throw new PasswordPolicyError(errors.join('. '), { violations: errors });
+    }
+
+    if (policy.passwordBlockBreached && await BreachedPasswordService.getInstance().isBreached(password)) {
+      throw new BreachedPasswordError(
+        'This password has appeared in a data breach or is too common. Please choose a different password'
+      );
+    }
+  }
+
+  /**
+   * Helper: Strictest lockout policy among the identity's memberships
+   */
+  private static async getLockoutPolicy(identity: IdentityDocument): Promise<LockoutPolicy> {
+    const policies = await Promise.all(identity.memberships.map(async membership => {
+      const platform = LOCKOUT_POLICIES[membership.principalType];
+      const tenantPolicy = await SecurityPolicyService.getInstance().getPolicy(membership.tenantId?.toString());
+
+      return {
+        maxAttempts: tenantPolicy.maxLoginAttempts || platform.maxAttempts,
+        lockoutMs: tenantPolicy.lockoutDurationMinutes ? tenantPolicy.lockoutDurationMinutes * 60 * 1000 : platform.lockoutMs
+      };
+    }));
+    if (policies.length === 0) {
+      return LOCKOUT_POLICIES.client;
+    }
+
+    return {
+      maxAttempts: Math.min(...policies.map(policy => policy.maxAttempts)),
+      lockoutMs: Math.max(...policies.map(policy => policy.lockoutMs))
+    };
+  }
+
+  /**
+   * Helper: Convert a link to the stored membership
+   */
+  private static toMembership(link: PrincipalLink): IIdentityMembership {
+    return {
+      principalType: link.principalType,
+      principalId: new mongoose.Types.ObjectId(ValidationUtils.validateObjectId(link.principalId, 'Account ID')),
+      ...(link.tenantId && {
+        tenantId: new mongoose.Types.ObjectId(ValidationUtils.validateObjectId(link.tenantId, 'Tenant ID'))
+      })
+    };
+  }
+}
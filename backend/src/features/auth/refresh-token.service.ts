@@ -0,0 +1,206 @@
+/**
+ * Refresh Token Service
+ * Issues, rotates and revokes refresh tokens
+ *
+ * Every login starts a token family. Each refresh consumes the presented token
+ * and issues its successor in the same family. Presenting a consumed token
+ * again means it was copied, so the whole family is revoked.
+ *
+ * Rotation reloads the account instead of copying the old claims, so a
+ * refreshed access token always carries current permissions.
+ *
+ * @module refresh-token.service
+ */
+
+import crypto from 'crypto';
+import { RefreshToken, IRefreshToken } from '../../models/refresh-token.model';
+import { AuditLog } from '../../models/audit-log.model';
+import { JWTUtils } from '../../utils/auth.utils';
+import TokenDenylistService from '../../services/token-denylist.service';
+import logger from '../../utils/logger';
+import { AuthTokens, UserType } from './types/auth.types';
+import { AuthenticationError } from './types/errors.types';
+
+type RequestContext = { ipAddress?: string; userAgent?: string };
+
+/**
+ * Claims carried by access and refresh tokens
+ */
+export interface TokenSubject {
+  userId: string;
+  userType: UserType;
+  tenantId?: string;
+  email: string;
+  permissions: string[];
+  permissionVersion: number;
+}
+
+/**
+ * Refresh Token Service
+ */
+export class RefreshTokenService {
+  /**
+   * Issue an access/refresh token pair
+   * Starts a new family unless one is given (rotation)
+   */
+  static async issueTokens(
+    subject: TokenSubject,
+    context: RequestContext,
+    family: string = crypto.randomUUID()
+  ): Promise<AuthTokens> {
+    const jti = crypto.randomUUID();
+    const accessToken = JWTUtils.generateAccessToken(subject, family);
+    const refreshToken = JWTUtils.generateRefreshToken(subject, { jti, family });
+
+    const decoded = JWTUtils.decodeToken(refreshToken);
+
+    await RefreshToken.create({
+      jti,
+      family,
+      userId: subject.userId,
+      userType: subject.userType,
+      tenantId: subject.tenantId,
+      expiresAt: new Date((decoded?.exp ?? 0) * 1000),
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent?.slice(0, 500)
+    });
+
+    return { accessToken, refreshToken };
+  }
+
+  /**
+   * Consume a refresh token; its successor is issued with issueSuccessor
+   * once the caller has reloaded the account
+   *
+   * @returns The consumed token record
+   * @throws AuthenticationError - Token invalid, revoked or replayed
+   */
+  static async consume(refreshToken: string, context: RequestContext): Promise<IRefreshToken> {
+    let decoded;
+    try {
+      decoded = JWTUtils.verifyRefreshToken(refreshToken);
+    } catch {
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    if (decoded.type !== 'refresh' || typeof decoded.jti !== 'string') {
+      // Issued before rotation was introduced
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    // Consume atomically so two concurrent refreshes cannot both succeed
+    const now = new Date();
+    const stored = await RefreshToken.findOneAndUpdate(
+      { jti: decoded.jti, usedAt: null, revokedAt: null },
+      { $set: { usedAt: now } },
+      { new: true }
+    );
+
+    if (!stored) {
+      await this.handleUnusableToken(decoded.jti, context);
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    return stored;
+  }
+
+  /**
+   * Issue the successor of a consumed token in the same family
+   */
+  static async issueSuccessor(
+    stored: IRefreshToken,
+    subject: TokenSubject,
+    context: RequestContext
+  ): Promise<AuthTokens> {
+    const tokens = await this.issueTokens(subject, context, stored.family);
+
+    const successor = JWTUtils.decodeToken(tokens.refreshToken);
+    await RefreshToken.updateOne({ _id: stored._id }, { $set: { replacedBy: successor?.jti } });
+
+    return tokens;
+  }
+
+  /**
+   * Revoke the family of a refresh token
+   * Ignored when the token is invalid or belongs to another account
+   */
+  static async revokeFamilyOf(refreshToken: string, owner: { userId: string; userType: string }): Promise<void> {
+    let decoded;
+    try {
+      decoded = JWTUtils.verifyRefreshToken(refreshToken);
+    } catch {
+      return;
+    }
+
+    if (decoded.userId !== owner.userId || decoded.userType !== owner.userType || typeof decoded.family !== 'string') {
+      return;
+    }
+
+    await this.revokeFamily(decoded.family, 'logout');
+  }
+
+  /**
+   * Revoke every refresh and access token of an account
+   */
+  static async revokeAllForAccount(
+    userType: UserType,
+    userId: string,
+    reason: 'logout_all' | 'password_reset' | 'password_change'
+  ): Promise<number> {
+    const result = await RefreshToken.updateMany(
+      { userType, userId, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+
+    await TokenDenylistService.getInstance().revokeAllForAccount(userType, userId);
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Helper: Revoke all tokens of a family
+   */
+  private static async revokeFamily(family: string, reason: NonNullable<IRefreshToken['revokedReason']>): Promise<void> {
+    await RefreshToken.updateMany(
+      { family, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+  }
+
+  /**
+   * Helper: A token that was already rotated is being replayed; revoke its family
+   */
+  private static async handleUnusableToken(jti: string, context: RequestContext): Promise<void> {
+    const stored = await RefreshToken.findOne({ jti });
+
+    if (!stored?.usedAt || stored.revokedAt) {
+      return; // unknown, expired or already revoked
+    }
+
+    await this.revokeFamily(stored.family, 'reuse_detected');
+
+    logger.warn('Refresh token reuse detected, token family revoked', {
+      userId: stored.userId,
+      userType: stored.userType,
+      family: stored.family,
+      ipAddress: context.ipAddress
+    });
+
+    await AuditLog.create({
+      tenantId: stored.tenantId,
+      userId: stored.userId,
+      userType: stored.userType,
+      action: 'auth.refresh_token_reuse',
+      resource: 'RefreshToken',
+      resourceId: stored.family,
+      category: 'security',
+      severity: 'high',
+      method: 'POST',
+      endpoint: '/api/v1/auth/refresh',
+      ipAddress: context.ipAddress || 'unknown',
+      userAgent: context.userAgent || 'unknown',
+      statusCode: 401,
+      details: { family: stored.family }
+    });
+  }
+}
@@ -18,6 +18,7 @@ export interface UserProfile {
   tenantId?: string;
   tenantName?: string;
   tenantDomain?: string;
+  isOwner?: boolean; // tenant admins only
   applicationType?: ApplicationType;
   applicationStatus?: ApplicationStatus;
   permissions: string[];
@@ -28,6 +29,19 @@ export interface UserProfile {
   preferences?: UserPreferences;
 }
 
+export interface RegisteredClient {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  tenantId: string;
+  tenantName: string;
+  status: UserStatus;
+  emailVerified: boolean;
+  requiresEmailVerification: boolean;
+  awaitingConfirmation: boolean; // email already had an identity; the account signs in once its holder confirms
+}
+
 export interface UserProfileData {
   avatar?: string;
   phone?: string;
@@ -82,6 +96,8 @@ export interface ErrorResponse {
 export interface LoginCredentials {
   email: string;
   password: string;
+  mfaCode?: string;
+  tenantId?: string;
   tenantDomain?: string;
   rememberMe?: boolean;
   ipAddress?: string;
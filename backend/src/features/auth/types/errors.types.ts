@@ -69,6 +69,62 @@ export class TenantError extends AppError {
   readonly isOperational = true;
 }
 
+export class SelfRegistrationDisabledError extends AppError {
+  readonly code = 'SELF_REGISTRATION_DISABLED';
+  readonly statusCode = 403;
+  readonly isOperational = true;
+}
+
+export class ClientLimitReachedError extends AppError {
+  readonly code = 'CLIENT_LIMIT_REACHED';
+  readonly statusCode = 403;
+  readonly isOperational = true;
+}
+
+export class TenantSelectionRequiredError extends AppError {
+  readonly code = 'TENANT_SELECTION_REQUIRED';
+  readonly statusCode = 409;
+  readonly isOperational = true;
+}
+
+export class InvalidTokenError extends AppError {
+  readonly code = 'INVALID_TOKEN';
+  readonly statusCode = 400;
+  readonly isOperational = true;
+}
+
+export class PasswordPolicyError extends AppError {
+  readonly code: string = 'PASSWORD_POLICY_VIOLATION';
+  readonly statusCode = 400;
+  readonly isOperational = true;
+}
+
+export class BreachedPasswordError extends PasswordPolicyError {
+  readonly code = 'PASSWORD_BREACHED';
+}
+
+export class ExistingCredentialsError extends PasswordPolicyError {
+  readonly code = 'EXISTING_CREDENTIALS';
+}
+
+export class InvalidCurrentPasswordError extends AppError {
+  readonly code = 'INVALID_CURRENT_PASSWORD';
+  readonly statusCode = 400;
+  readonly isOperational = true;
+}
+
+export class PasswordExpiredError extends AppError {
+  readonly code = 'PASSWORD_EXPIRED';
+  readonly statusCode = 403;
+  readonly isOperational = true;
+}
+
+export class IpNotAllowedError extends AppError {
+  readonly code = 'IP_NOT_ALLOWED';
+  readonly statusCode = 403;
+  readonly isOperational = true;
+}
+
 // Type guard functions
 export const isAppError = (error: unknown): error is AppError => {
   return error instanceof AppError;
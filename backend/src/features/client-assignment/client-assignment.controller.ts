@@ -0,0 +1,186 @@
+/**
+ * Client Assignment Controller
+ * Handles assignment strategy settings and bulk auto-assignment for tenant admins
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 1: No console.log (using logger)
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ */
+
+import { Request, Response } from 'express';
+import { ClientAssignmentService } from './client-assignment.service';
+import { ClientAssignmentError } from './errors/client-assignment.errors';
+import { UpdateAssignmentSettingsInput, AutoAssignClientsInput } from './client-assignment.schemas';
+import logger from '../../utils/logger';
+
+/**
+ * Client Assignment Controller
+ */
+export class ClientAssignmentController {
+  /**
+   * Get assignment settings
+   * GET /api/v1/tenant-admin/settings/client-assignment
+   */
+  static async getSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const settings = await ClientAssignmentService.getSettings(tenantId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          settings
+        }
+      });
+    } catch (error) {
+      logger.error('Get client assignment settings failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId: req.user?.tenantId
+      });
+
+      if (error instanceof ClientAssignmentError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'ASSIGNMENT_SETTINGS_FETCH_FAILED',
+          message: 'Failed to fetch client assignment settings'
+        }
+      });
+    }
+  }
+
+  /**
+   * Update assignment settings
+   * PUT /api/v1/tenant-admin/settings/client-assignment
+   */
+  static async updateSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const { strategy } = req.body as UpdateAssignmentSettingsInput;
+      const settings = await ClientAssignmentService.updateSettings(tenantId, strategy);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          settings,
+          message: 'Client assignment settings updated successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Update client assignment settings failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId: req.user?.tenantId
+      });
+
+      if (error instanceof ClientAssignmentError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'ASSIGNMENT_SETTINGS_UPDATE_FAILED',
+          message: 'Failed to update client assignment settings'
+        }
+      });
+    }
+  }
+
+  /**
+   * Assign all unassigned clients
+   * POST /api/v1/tenant-admin/clients/auto-assign
+   */
+  static async autoAssignClients(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const { strategy } = req.body as AutoAssignClientsInput;
+      const result = await ClientAssignmentService.assignUnassignedClients(tenantId, strategy);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...result,
+          message: `${result.assigned} client(s) assigned successfully`
+        }
+      });
+    } catch (error) {
+      logger.error('Auto-assign clients failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId: req.user?.tenantId
+      });
+
+      if (error instanceof ClientAssignmentError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'AUTO_ASSIGN_FAILED',
+          message: 'Failed to assign clients'
+        }
+      });
+    }
+  }
+}
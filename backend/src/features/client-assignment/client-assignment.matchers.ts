@@ -0,0 +1,39 @@
+/**
+ * Client Assignment Matchers
+ * Which team member roles handle which application types when nobody
+ * lists the application type among their specializations
+ */
+
+import { ApplicationType } from '../../models/application.model';
+import { ITenantTeamMember } from '../../models/tenant-team-member.model';
+
+type TeamMemberRole = ITenantTeamMember['role'];
+
+export const APPLICATION_TYPE_ROLES: Record<ApplicationType, TeamMemberRole[]> = {
+  visitor_visa: ['visa_specialist'],
+  study_visa: ['visa_specialist'],
+  work_permit: ['work_permit_specialist'],
+  permanent_residence: ['case_manager'],
+  family_sponsorship: ['case_manager'],
+  business_immigration: ['case_manager']
+};
+
+/**
+ * Whether a team member lists the application type among their specializations
+ */
+export function matchesSpecialization(
+  member: Pick<ITenantTeamMember, 'specializations'>,
+  applicationType: ApplicationType
+): boolean {
+  return member.specializations.includes(applicationType);
+}
+
+/**
+ * Whether a team member's role usually handles the application type
+ */
+export function matchesRole(
+  member: Pick<ITenantTeamMember, 'role'>,
+  applicationType: ApplicationType
+): boolean {
+  return APPLICATION_TYPE_ROLES[applicationType].includes(member.role);
+}
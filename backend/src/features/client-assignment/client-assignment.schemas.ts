@@ -0,0 +1,32 @@
+/**
+ * Client Assignment Zod Validation Schemas
+ * Input validation for assignment settings and bulk auto-assignment
+ *
+ * Following CORE-CRITICAL Rule 12: Validate ALL external data
+ */
+
+import { z } from 'zod';
+import { CLIENT_ASSIGNMENT_STRATEGIES } from '../../models/tenant.model';
+
+/**
+ * Update Assignment Settings Schema
+ */
+export const updateAssignmentSettingsSchema = z.object({
+  body: z.object({
+    strategy: z.enum(CLIENT_ASSIGNMENT_STRATEGIES)
+  })
+});
+
+/**
+ * Auto-Assign Clients Schema
+ * strategy overrides the tenant setting for this run only
+ */
+export const autoAssignClientsSchema = z.object({
+  body: z.object({
+    strategy: z.enum(CLIENT_ASSIGNMENT_STRATEGIES).optional()
+  })
+});
+
+// Type exports
+export type UpdateAssignmentSettingsInput = z.infer<typeof updateAssignmentSettingsSchema>['body'];
+export type AutoAssignClientsInput = z.infer<typeof autoAssignClientsSchema>['body'];
@@ -0,0 +1,331 @@
+/**
+ * Client Assignment Service
+ * Picks the team member for new or unassigned clients using the tenant's
+ * assignment strategy (round-robin, least-loaded or specialization match)
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ * - Rule 12: Validate ALL external data
+ */
+
+import mongoose from 'mongoose';
+import { Tenant, ClientAssignmentStrategy } from '../../models/tenant.model';
+import { TenantTeamMember, ITenantTeamMember } from '../../models/tenant-team-member.model';
+import { User } from '../../models/user.model';
+import { Application, ApplicationType } from '../../models/application.model';
+import { ValidationUtils } from '../../utils/validation.utils';
+import { matchesSpecialization, matchesRole } from './client-assignment.matchers';
+import {
+  AssignmentTenantNotFoundError,
+  ManualAssignmentStrategyError
+} from './errors/client-assignment.errors';
+
+/**
+ * Assignment Settings Interface
+ */
+export interface AssignmentSettings {
+  strategy: ClientAssignmentStrategy;
+}
+
+/**
+ * Client Assignment Interface
+ */
+export interface ClientAssignment {
+  clientId: string;
+  teamMemberId: string;
+  teamMemberName: string;
+}
+
+/**
+ * Auto-Assign Result Interface
+ */
+export interface AutoAssignResult {
+  strategy: ClientAssignmentStrategy;
+  assigned: number;
+  skipped: number; // unassigned clients left as they were (no eligible team member)
+  assignments: ClientAssignment[];
+}
+
+/**
+ * Assignment Candidate
+ * An active team member with their current workload
+ */
+interface AssignmentCandidate {
+  id: string;
+  name: string;
+  role: ITenantTeamMember['role'];
+  specializations: string[];
+  openApplications: number;
+  clients: number;
+}
+
+// Upper bound for one bulk auto-assignment run
+const MAX_AUTO_ASSIGN_BATCH = 500;
+
+const OPEN_APPLICATION_FILTER = { status: { $nin: ['approved', 'rejected'] }, deletedAt: null };
+
+/**
+ * Client Assignment Service
+ */
+export class ClientAssignmentService {
+  /**
+   * Get the tenant's assignment settings
+   */
+  static async getSettings(tenantId: string): Promise<AssignmentSettings> {
+    const tenant = await this.loadTenant(tenantId);
+
+    return { strategy: tenant.settings.clientAssignment?.strategy ?? 'manual' };
+  }
+
+  /**
+   * Change the tenant's assignment strategy
+   * The round-robin cursor is kept so switching back continues where it left off
+   */
+  static async updateSettings(
+    tenantId: string,
+    strategy: ClientAssignmentStrategy
+  ): Promise<AssignmentSettings> {
+    const tenant = await this.loadTenant(tenantId);
+
+    await Tenant.updateOne(
+      { _id: tenant._id },
+      { $set: { 'settings.clientAssignment.strategy': strategy } }
+    );
+
+    return { strategy };
+  }
+
+  /**
+   * Pick the team member for a new client
+   * Returns null when the tenant assigns manually or has no active team member
+   */
+  static async selectTeamMember(
+    tenantId: string,
+    applicationType?: ApplicationType
+  ): Promise<string | null> {
+    const tenant = await this.loadTenant(tenantId);
+    const strategy = tenant.settings.clientAssignment?.strategy ?? 'manual';
+
+    if (strategy === 'manual') {
+      return null;
+    }
+
+    const candidates = await this.loadCandidates(tenantId);
+    const lastAssignedTo = tenant.settings.clientAssignment?.lastAssignedTo?.toString();
+    const selected = this.pickCandidate(strategy, candidates, applicationType, lastAssignedTo);
+
+    if (!selected) {
+      return null;
+    }
+
+    if (strategy === 'round_robin') {
+      await this.saveRoundRobinCursor(tenantId, selected.id);
+    }
+
+    return selected.id;
+  }
+
+  /**
+   * Assign every unassigned client of the tenant
+   * Open applications follow their client; workload is updated as the batch proceeds
+   */
+  static async assignUnassignedClients(
+    tenantId: string,
+    strategyOverride?: ClientAssignmentStrategy
+  ): Promise<AutoAssignResult> {
+    const tenant = await this.loadTenant(tenantId);
+    const strategy = strategyOverride ?? tenant.settings.clientAssignment?.strategy ?? 'manual';
+
+    if (strategy === 'manual') {
+      throw new ManualAssignmentStrategyError();
+    }
+
+    const clients = await User.find({
+      tenantId,
+      assignedTo: null,
+      status: { $in: ['active', 'pending'] },
+      deletedAt: null
+    })
+      .select('_id')
+      .sort({ createdAt: 1 })
+      .limit(MAX_AUTO_ASSIGN_BATCH)
+      .lean();
+
+    const clientIds = clients.map(client => client._id);
+    const applicationTypes = await this.loadLatestApplicationTypes(tenantId, clientIds);
+    const candidates = await this.loadCandidates(tenantId);
+
+    let lastAssignedTo = tenant.settings.clientAssignment?.lastAssignedTo?.toString();
+    const assignments: ClientAssignment[] = [];
+
+    for (const clientId of clientIds) {
+      const selected = this.pickCandidate(strategy, candidates, applicationTypes.get(clientId.toString()), lastAssignedTo);
+
+      if (!selected) {
+        continue;
+      }
+
+      // Skip clients that were assigned by someone else since the batch was loaded
+      const result = await User.updateOne(
+        { _id: clientId, tenantId, assignedTo: null, deletedAt: null },
+        { $set: { assignedTo: selected.id } }
+      );
+
+      if (result.modifiedCount === 0) {
+        continue;
+      }
+
+      const applications = await Application.updateMany(
+        { tenantId, clientId, ...OPEN_APPLICATION_FILTER },
+        { $set: { assignedTo: selected.id } }
+      );
+
+      selected.clients += 1;
+      selected.openApplications += applications.modifiedCount;
+      lastAssignedTo = selected.id;
+
+      assignments.push({
+        clientId: clientId.toString(),
+        teamMemberId: selected.id,
+        teamMemberName: selected.name
+      });
+    }
+
+    if (strategy === 'round_robin' && lastAssignedTo) {
+      await this.saveRoundRobinCursor(tenantId, lastAssignedTo);
+    }
+
+    return {
+      strategy,
+      assigned: assignments.length,
+      skipped: clientIds.length - assignments.length,
+      assignments
+    };
+  }
+
+  /**
+   * Helper: Choose a candidate for one client
+   */
+  private static pickCandidate(
+    strategy: Exclude<ClientAssignmentStrategy, 'manual'>,
+    candidates: AssignmentCandidate[],
+    applicationType: ApplicationType | undefined,
+    lastAssignedTo: string | undefined
+  ): AssignmentCandidate | null {
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    if (strategy === 'round_robin') {
+      // Candidates are sorted by id, so the rotation order is stable between calls
+      const lastIndex = candidates.findIndex(candidate => candidate.id === lastAssignedTo);
+      return candidates[(lastIndex + 1) % candidates.length];
+    }
+
+    let pool = candidates;
+
+    // Specializations win; the role mapping is used when no specialization matches
+    if (strategy === 'specialization' && applicationType) {
+      const specialists = candidates.filter(candidate => matchesSpecialization(candidate, applicationType));
+      const roleMatches = candidates.filter(candidate => matchesRole(candidate, applicationType));
+
+      if (specialists.length > 0) {
+        pool = specialists;
+      } else if (roleMatches.length > 0) {
+        pool = roleMatches;
+      }
+    }
+
+    return pool.reduce((best, candidate) => (
+      this.compareLoad(candidate, best) < 0 ? candidate : best
+    ));
+  }
+
+  /**
+   * Helper: Order by open applications, then by number of clients
+   */
+  private static compareLoad(a: AssignmentCandidate, b: AssignmentCandidate): number {
+    return (a.openApplications - b.openApplications) || (a.clients - b.clients);
+  }
+
+  /**
+   * Helper: Active team members with their open application and client counts
+   */
+  private static async loadCandidates(tenantId: string): Promise<AssignmentCandidate[]> {
+    const tenantObjectId = new mongoose.Types.ObjectId(tenantId);
+
+    const [teamMembers, applicationCounts, clientCounts] = await Promise.all([
+      TenantTeamMember.find({ tenantId, isActive: true, deletedAt: null })
+        .select('firstName lastName role specializations')
+        .sort({ _id: 1 })
+        .lean(),
+      Application.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+        { $match: { tenantId: tenantObjectId, assignedTo: { $ne: null }, ...OPEN_APPLICATION_FILTER } },
+        { $group: { _id: '$assignedTo', count: { $sum: 1 } } }
+      ]),
+      User.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+        { $match: { tenantId: tenantObjectId, assignedTo: { $ne: null }, deletedAt: null } },
+        { $group: { _id: '$assignedTo', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    const openApplications = new Map(applicationCounts.map(entry => [entry._id.toString(), entry.count]));
+    const clients = new Map(clientCounts.map(entry => [entry._id.toString(), entry.count]));
+
+    return teamMembers.map(member => ({
+      id: member._id.toString(),
+      name: `${member.firstName} ${member.lastName}`,
+      role: member.role,
+      specializations: member.specializations ?? [],
+      openApplications: openApplications.get(member._id.toString()) ?? 0,
+      clients: clients.get(member._id.toString()) ?? 0
+    }));
+  }
+
+  /**
+   * Helper: Application type of each client's most recent application
+   */
+  private static async loadLatestApplicationTypes(
+    tenantId: string,
+    clientIds: mongoose.Types.ObjectId[]
+  ): Promise<Map<string, ApplicationType>> {
+    if (clientIds.length === 0) {
+      return new Map();
+    }
+
+    const latest = await Application.aggregate<{ _id: mongoose.Types.ObjectId; type: ApplicationType }>([
+      { $match: { tenantId: new mongoose.Types.ObjectId(tenantId), clientId: { $in: clientIds }, deletedAt: null } },
+      { $sort: { createdAt: -1 } },
+      { $group: { _id: '$clientId', type: { $first: '$type' } } }
+    ]);
+
+    return new Map(latest.map(entry => [entry._id.toString(), entry.type]));
+  }
+
+  /**
+   * Helper: Remember the last team member picked by round-robin
+   */
+  private static async saveRoundRobinCursor(tenantId: string, teamMemberId: string): Promise<void> {
+    await Tenant.updateOne(
+      { _id: tenantId },
+      { $set: { 'settings.clientAssignment.lastAssignedTo': teamMemberId } }
+    );
+  }
+
+  /**
+   * Helper: Load the tenant
+   */
+  private static async loadTenant(tenantId: string) {
+    const tenant = await Tenant.findOne({
+      _id: ValidationUtils.validateObjectId(tenantId, 'Tenant ID'),
+      deletedAt: null
+    }).select('settings.clientAssignment');
+
+    if (!tenant) {
+      throw new AssignmentTenantNotFoundError();
+    }
+
+    return tenant;
+  }
+}
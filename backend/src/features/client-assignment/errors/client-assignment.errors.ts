@@ -0,0 +1,51 @@
+/**
+ * Client Assignment Custom Error Classes
+ * Provides type-safe error handling with proper HTTP status codes
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Better error handling with custom error types
+ */
+
+/**
+ * Base Client Assignment Error
+ */
+export class ClientAssignmentError extends Error {
+  public readonly statusCode: number;
+  public readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Assignment Tenant Not Found Error (404 Not Found)
+ */
+export class AssignmentTenantNotFoundError extends ClientAssignmentError {
+  constructor() {
+    super(
+      'Tenant not found',
+      404,
+      'TENANT_NOT_FOUND'
+    );
+  }
+}
+
+/**
+ * Manual Assignment Strategy Error (400 Bad Request)
+ * Raised when automatic assignment is requested while the tenant assigns clients manually
+ */
+export class ManualAssignmentStrategyError extends ClientAssignmentError {
+  constructor() {
+    super(
+      'Automatic assignment is disabled; choose an assignment strategy first',
+      400,
+      'ASSIGNMENT_STRATEGY_MANUAL'
+    );
+  }
+}
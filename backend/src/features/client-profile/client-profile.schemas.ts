@@ -0,0 +1,47 @@
+/**
+ * Client Profile Zod Validation Schemas
+ * Input validation for client self-service profile updates
+ *
+ * Following CORE-CRITICAL Rule 12: Validate ALL external data
+ */
+
+import { z } from 'zod';
+
+const phoneSchema = z.string()
+  .regex(/^\+?[\d\s\-()]+$/, 'Invalid phone format')
+  .max(20, 'Phone number too long');
+
+/**
+ * Update Profile Schema
+ * Only the fields listed here can be changed by the client; unknown keys are stripped
+ */
+export const updateProfileSchema = z.object({
+  body: z.object({
+    firstName: z.string().min(1).max(50).trim().optional(),
+    lastName: z.string().min(1).max(50).trim().optional(),
+    profile: z.object({
+      phone: phoneSchema.or(z.literal('')).optional(),
+      dateOfBirth: z.string()
+        .refine(value => value === '' || !Number.isNaN(Date.parse(value)), 'Invalid date of birth')
+        .optional(),
+      nationality: z.string().max(50).trim().optional(),
+      address: z.string().max(200).trim().optional(),
+      emergencyContact: z.object({
+        name: z.string().min(1).max(100).trim(),
+        phone: phoneSchema,
+        relationship: z.string().min(1).max(50).trim()
+      }).nullable().optional()
+    }).optional(),
+    preferences: z.object({
+      theme: z.enum(['light', 'dark', 'system']).optional(),
+      notifications: z.object({
+        email: z.boolean().optional(),
+        push: z.boolean().optional(),
+        sms: z.boolean().optional()
+      }).optional()
+    }).optional()
+  })
+});
+
+// Type exports
+export type UpdateProfileInput = z.infer<typeof updateProfileSchema>['body'];
@@ -0,0 +1,183 @@
+/**
+ * Client Profile Service
+ * Self-service profile and preferences for the authenticated client
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ * - Rule 12: Validate ALL external data
+ */
+
+import { HydratedDocument } from 'mongoose';
+import { User, IUser } from '../../models/user.model';
+import { SecurityUtils } from '../../utils/auth.utils';
+import { ValidationUtils } from '../../utils/validation.utils';
+import { ClientProfileNotFoundError } from './errors/client-profile.errors';
+import { UpdateProfileInput } from './client-profile.schemas';
+
+/**
+ * Client Profile Response Interface
+ */
+export interface ClientProfileResponse {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  status: IUser['status'];
+  emailVerified: boolean;
+  assignedToName?: string;
+  profile: {
+    phone?: string;
+    dateOfBirth?: Date;
+    nationality?: string;
+    address?: string;
+    emergencyContact?: {
+      name: string;
+      phone: string;
+      relationship: string;
+    };
+  };
+  preferences: IUser['preferences'];
+  lastLogin?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Free-text profile fields; an empty string clears the field
+const TEXT_PROFILE_FIELDS = ['phone', 'nationality', 'address'] as const;
+
+/**
+ * Client Profile Service
+ */
+export class ClientProfileService {
+  /**
+   * Get the client's own profile
+   */
+  static async getProfile(tenantId: string, clientId: string): Promise<ClientProfileResponse> {
+    const client = await this.findClient(tenantId, clientId);
+    await client.populate('assignedTo', 'firstName lastName');
+
+    return this.toResponse(client);
+  }
+
+  /**
+   * Update the client's own profile
+   * Only name, contact details and preferences are writable; email, status and
+   * assignment stay with the tenant
+   */
+  static async updateProfile(
+    tenantId: string,
+    clientId: string,
+    input: UpdateProfileInput
+  ): Promise<ClientProfileResponse> {
+    const client = await this.findClient(tenantId, clientId);
+
+    // Sanitize string inputs before update
+    if (input.firstName) client.firstName = SecurityUtils.sanitizeInput(input.firstName);
+    if (input.lastName) client.lastName = SecurityUtils.sanitizeInput(input.lastName);
+
+    if (input.profile) {
+      const { profile } = input;
+
+      TEXT_PROFILE_FIELDS.forEach(field => {
+        const value = profile[field];
+        if (value !== undefined) {
+          client.set(`profile.${field}`, value ? SecurityUtils.sanitizeInput(value) : undefined);
+        }
+      });
+
+      if (profile.dateOfBirth !== undefined) {
+        client.set('profile.dateOfBirth', profile.dateOfBirth ? new Date(profile.dateOfBirth) : undefined);
+      }
+
+      if (profile.emergencyContact !== undefined) {
+        client.set('profile.emergencyContact', profile.emergencyContact
+          ? {
+            name: SecurityUtils.sanitizeInput(profile.emergencyContact.name),
+            phone: SecurityUtils.sanitizeInput(profile.emergencyContact.phone),
+            relationship: SecurityUtils.sanitizeInput(profile.emergencyContact.relationship)
+          }
+          : undefined);
+      }
+    }
+
+    if (input.preferences) {
+      const { theme, notifications } = input.preferences;
+
+      if (theme) client.set('preferences.theme', theme);
+
+      if (notifications) {
+        (['email', 'push', 'sms'] as const).forEach(channel => {
+          if (notifications[channel] !== undefined) {
+            client.set(`preferences.notifications.${channel}`, notifications[channel]);
+          }
+        });
+      }
+    }
+
+    await client.save();
+
+    return this.getProfile(tenantId, clientId);
+  }
+
+  /**
+   * Helper: Load the authenticated client
+   */
+  private static async findClient(
+    tenantId: string,
+    clientId: string
+  ): Promise<HydratedDocument<IUser>> {
+    const client = await User.findOne({
+      _id: ValidationUtils.validateObjectId(clientId, 'Client ID'),
+      tenantId,
+      deletedAt: null
+    });
+
+    if (!client) {
+      throw new ClientProfileNotFoundError();
+    }
+
+    return client;
+  }
+
+  /**
+   * Helper: Map client document to API response
+   */
+  private static toResponse(client: HydratedDocument<IUser>): ClientProfileResponse {
+    const assignedTo = client.assignedTo as unknown as { firstName?: string; lastName?: string } | undefined;
+
+    return {
+      id: client._id.toString(),
+      email: client.email,
+      firstName: client.firstName,
+      lastName: client.lastName,
+      status: client.status,
+      emailVerified: client.emailVerified,
+      assignedToName: assignedTo?.firstName ? `${assignedTo.firstName} ${assignedTo.lastName}` : undefined,
+      profile: {
+        phone: client.profile?.phone,
+        dateOfBirth: client.profile?.dateOfBirth,
+        nationality: client.profile?.nationality,
+        address: client.profile?.address,
+        emergencyContact: client.profile?.emergencyContact?.name
+          ? {
+            name: client.profile.emergencyContact.name,
+            phone: client.profile.emergencyContact.phone,
+            relationship: client.profile.emergencyContact.relationship
+          }
+          : undefined
+      },
+      preferences: {
+        theme: client.preferences?.theme ?? 'system',
+        notifications: {
+          email: client.preferences?.notifications?.email ?? true,
+          push: client.preferences?.notifications?.push ?? true,
+          sms: client.preferences?.notifications?.sms ?? false
+        }
+      },
+      lastLogin: client.lastLogin,
+      createdAt: client.createdAt,
+      updatedAt: client.updatedAt
+    };
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Client Profile Custom Error Classes
+ * Provides type-safe error handling with proper HTTP status codes
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Better error handling with custom error types
+ */
+
+/**
+ * Base Client Profile Error
+ */
+export class ClientProfileError extends Error {
+  public readonly statusCode: number;
+  public readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Client Profile Not Found Error (404 Not Found)
+ * Raised when the authenticated client no longer exists in the tenant
+ */
+export class ClientProfileNotFoundError extends ClientProfileError {
+  constructor() {
+    super(
+      'Client profile not found',
+      404,
+      'PROFILE_NOT_FOUND'
+    );
+  }
+}
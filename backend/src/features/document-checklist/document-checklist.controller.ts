@@ -0,0 +1,298 @@
+/**
+ * Document Checklist Controller
+ * Handles checklist management and completeness reporting for tenant admins
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 1: No console.log (using logger)
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ */
+
+import { Request, Response } from 'express';
+import { DocumentChecklistService } from './document-checklist.service';
+import { DocumentChecklistError } from './errors/document-checklist.errors';
+import { ApplicationType } from '../../models/application.model';
+import logger from '../../utils/logger';
+
+/**
+ * Document Checklist Controller
+ */
+export class DocumentChecklistController {
+  /**
+   * Get all checklists
+   * GET /api/v1/tenant-admin/document-checklists
+   */
+  static async getChecklists(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const checklists = await DocumentChecklistService.getChecklists(tenantId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          checklists,
+          count: checklists.length
+        }
+      });
+    } catch (error) {
+      logger.error('Get document checklists failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId: req.user?.tenantId
+      });
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'CHECKLISTS_FETCH_FAILED',
+          message: 'Failed to fetch document checklists'
+        }
+      });
+    }
+  }
+
+  /**
+   * Get the checklist of one application type
+   * GET /api/v1/tenant-admin/document-checklists/:applicationType
+   */
+  static async getChecklist(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const checklist = await DocumentChecklistService.getChecklist(
+        tenantId,
+        req.params.applicationType as ApplicationType
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { checklist }
+      });
+    } catch (error) {
+      logger.error('Get document checklist failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId: req.user?.tenantId,
+        applicationType: req.params.applicationType
+      });
+
+      if (error instanceof DocumentChecklistError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'CHECKLIST_FETCH_FAILED',
+          message: 'Failed to fetch document checklist'
+        }
+      });
+    }
+  }
+
+  /**
+   * Replace the checklist of one application type
+   * PUT /api/v1/tenant-admin/document-checklists/:applicationType
+   */
+  static async updateChecklist(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const checklist = await DocumentChecklistService.updateChecklist(
+        tenantId,
+        req.params.applicationType as ApplicationType,
+        req.body.items,
+        req.user?.userId || tenantId
+      );
+
+      logger.info('Document checklist updated successfully', {
+        tenantId,
+        applicationType: checklist.applicationType,
+        itemCount: checklist.items.length,
+        updatedBy: req.user?.userId
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          checklist,
+          message: 'Document checklist updated successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Update document checklist failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId: req.user?.tenantId,
+        applicationType: req.params.applicationType
+      });
+
+      if (error instanceof DocumentChecklistError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'CHECKLIST_UPDATE_FAILED',
+          message: 'Failed to update document checklist'
+        }
+      });
+    }
+  }
+
+  /**
+   * Restore the default checklist of one application type
+   * POST /api/v1/tenant-admin/document-checklists/:applicationType/reset
+   */
+  static async resetChecklist(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const checklist = await DocumentChecklistService.resetChecklist(
+        tenantId,
+        req.params.applicationType as ApplicationType,
+        req.user?.userId || tenantId
+      );
+
+      logger.info('Document checklist reset to defaults', {
+        tenantId,
+        applicationType: checklist.applicationType,
+        updatedBy: req.user?.userId
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          checklist,
+          message: 'Document checklist reset to defaults'
+        }
+      });
+    } catch (error) {
+      logger.error('Reset document checklist failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId: req.user?.tenantId,
+        applicationType: req.params.applicationType
+      });
+
+      if (error instanceof DocumentChecklistError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'CHECKLIST_RESET_FAILED',
+          message: 'Failed to reset document checklist'
+        }
+      });
+    }
+  }
+
+  /**
+   * Get document completeness of all open applications
+   * GET /api/v1/tenant-admin/applications/completeness
+   */
+  static async getApplicationsCompleteness(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const applications = await DocumentChecklistService.getTenantCompleteness(tenantId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          applications,
+          count: applications.length
+        }
+      });
+    } catch (error) {
+      logger.error('Get applications completeness failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId: req.user?.tenantId
+      });
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'COMPLETENESS_FETCH_FAILED',
+          message: 'Failed to fetch application completeness'
+        }
+      });
+    }
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Default Document Checklists
+ * Seeded per tenant for every application type enabled by the tenant's plan
+ *
+ * Tenant admins can edit or reset these; the defaults are only a starting point
+ * based on the common IRCC document requirements for each stream.
+ */
+
+import { ApplicationType } from '../../models/application.model';
+import { IDocumentChecklistItem } from '../../models/document-checklist.model';
+
+/**
+ * Maps subscription plan feature flags to application types
+ */
+export const FEATURE_APPLICATION_TYPES: Record<string, ApplicationType> = {
+  visitorVisa: 'visitor_visa',
+  studyVisa: 'study_visa',
+  workPermit: 'work_permit',
+  permanentResidence: 'permanent_residence',
+  familySponsorship: 'family_sponsorship',
+  businessImmigration: 'business_immigration'
+};
+
+const IDENTITY_ITEMS: IDocumentChecklistItem[] = [
+  { documentType: 'passport', label: 'Valid passport (all pages with stamps)', required: true },
+  { documentType: 'photo', label: 'Passport-style photographs', required: true }
+];
+
+export const DEFAULT_DOCUMENT_CHECKLISTS: Record<ApplicationType, IDocumentChecklistItem[]> = {
+  visitor_visa: [
+    ...IDENTITY_ITEMS,
+    { documentType: 'proof_of_funds', label: 'Proof of financial support', required: true },
+    { documentType: 'travel_itinerary', label: 'Travel itinerary', required: false },
+    { documentType: 'invitation_letter', label: 'Letter of invitation', required: false },
+    { documentType: 'home_ties', label: 'Proof of ties to home country', required: false }
+  ],
+  study_visa: [
+    ...IDENTITY_ITEMS,
+    { documentType: 'letter_of_acceptance', label: 'Letter of acceptance from a DLI', required: true },
+    { documentType: 'proof_of_funds', label: 'Proof of financial support', required: true },
+    { documentType: 'provincial_attestation_letter', label: 'Provincial attestation letter', required: true },
+    { documentType: 'study_plan', label: 'Statement of purpose / study plan', required: false },
+    { documentType: 'language_test', label: 'Language test results', required: false }
+  ],
+  work_permit: [
+    ...IDENTITY_ITEMS,
+    { documentType: 'job_offer', label: 'Job offer letter', required: true },
+    { documentType: 'lmia', label: 'LMIA or employer compliance number', required: true },
+    { documentType: 'resume', label: 'Resume / CV', required: true },
+    { documentType: 'educational_credentials', label: 'Educational credentials', required: false },
+    { documentType: 'police_certificate', label: 'Police certificate', required: false }
+  ],
+  permanent_residence: [
+    ...IDENTITY_ITEMS,
+    { documentType: 'language_test', label: 'Language test results', required: true },
+    { documentType: 'eca', label: 'Educational credential assessment (ECA)', required: true },
+    { documentType: 'employment_reference', label: 'Employment reference letters', required: true },
+    { documentType: 'proof_of_funds', label: 'Proof of settlement funds', required: true },
+    { documentType: 'police_certificate', label: 'Police certificates', required: true },
+    { documentType: 'medical_exam', label: 'Medical exam confirmation', required: true },
+    { documentType: 'birth_certificate', label: 'Birth certificate', required: false }
+  ],
+  family_sponsorship: [
+    ...IDENTITY_ITEMS,
+    { documentType: 'relationship_proof', label: 'Proof of relationship', required: true },
+    { documentType: 'sponsor_status', label: "Sponsor's proof of status in Canada", required: true },
+    { documentType: 'sponsor_income', label: "Sponsor's proof of income", required: true },
+    { documentType: 'marriage_certificate', label: 'Marriage certificate', required: false },
+    { documentType: 'police_certificate', label: 'Police certificates', required: true }
+  ],
+  business_immigration: [
+    ...IDENTITY_ITEMS,
+    { documentType: 'business_plan', label: 'Business plan', required: true },
+    { documentType: 'net_worth', label: 'Proof of personal net worth', required: true },
+    { documentType: 'business_ownership', label: 'Proof of business ownership', required: true },
+    { documentType: 'financial_statements', label: 'Business financial statements', required: true },
+    { documentType: 'letter_of_support', label: 'Letter of support / commitment certificate', required: false }
+  ]
+};
@@ -0,0 +1,54 @@
+/**
+ * Document Checklist Zod Validation Schemas
+ * Input validation for checklist management
+ *
+ * Following CORE-CRITICAL Rule 12: Validate ALL external data
+ */
+
+import { z } from 'zod';
+import { APPLICATION_TYPES } from '../../models/application.model';
+
+/**
+ * Checklist Item Schema
+ */
+const checklistItemSchema = z.object({
+  documentType: z.string()
+    .min(1, 'Document type is required')
+    .max(100, 'Document type must not exceed 100 characters')
+    .regex(/^[a-z0-9_]+$/i, 'Document type may only contain letters, numbers and underscores'),
+  label: z.string()
+    .min(1, 'Label is required')
+    .max(200, 'Label must not exceed 200 characters')
+    .trim(),
+  description: z.string()
+    .max(500, 'Description must not exceed 500 characters')
+    .trim()
+    .optional(),
+  required: z.boolean().default(true)
+});
+
+/**
+ * Application Type Params Schema
+ */
+export const checklistTypeSchema = z.object({
+  params: z.object({
+    applicationType: z.enum(APPLICATION_TYPES)
+  })
+});
+
+/**
+ * Update Checklist Schema
+ */
+export const updateChecklistSchema = z.object({
+  params: z.object({
+    applicationType: z.enum(APPLICATION_TYPES)
+  }),
+  body: z.object({
+    items: z.array(checklistItemSchema)
+      .max(50, 'Cannot have more than 50 checklist items')
+  })
+});
+
+// Type exports
+export type ChecklistTypeParams = z.infer<typeof checklistTypeSchema>['params'];
+export type UpdateChecklistInput = z.infer<typeof updateChecklistSchema>['body'];
@@ -0,0 +1,377 @@
+/**
+ * Document Checklist Service
+ * Per-tenant required/optional documents per application type, and
+ * application completeness computed from uploaded documents
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ * - Rule 12: Validate ALL external data
+ */
+
+import mongoose from 'mongoose';
+import { DocumentChecklist, IDocumentChecklistItem } from '../../models/document-checklist.model';
+import { Application, IApplication, ApplicationType, ApplicationStatus } from '../../models/application.model';
+import { Document } from '../../models/document.model';
+import { Tenant } from '../../models/tenant.model';
+import { SecurityUtils } from '../../utils/auth.utils';
+import { ValidationUtils } from '../../utils/validation.utils';
+import { DEFAULT_DOCUMENT_CHECKLISTS, FEATURE_APPLICATION_TYPES } from './document-checklist.defaults';
+import {
+  ApplicationTypeNotEnabledError,
+  DuplicateChecklistItemError,
+  ChecklistApplicationNotFoundError
+} from './errors/document-checklist.errors';
+
+/**
+ * Checklist Response Interface
+ */
+export interface ChecklistResponse {
+  applicationType: ApplicationType;
+  items: IDocumentChecklistItem[];
+  updatedAt?: Date;
+}
+
+/**
+ * Checklist Item Status Interface
+ */
+export interface ChecklistItemStatus extends IDocumentChecklistItem {
+  provided: boolean;
+}
+
+/**
+ * Application Completeness Interface
+ */
+export interface ApplicationCompleteness {
+  applicationId: string;
+  clientId: string;
+  applicationType: ApplicationType;
+  status: ApplicationStatus;
+  percentage: number; // share of required items provided, 0-100
+  requiredCount: number;
+  providedCount: number;
+  missing: IDocumentChecklistItem[]; // required items not yet provided
+  items: ChecklistItemStatus[];
+}
+
+type CompletenessApplication = Pick<IApplication, '_id' | 'clientId' | 'type' | 'status'>;
+
+/**
+ * Document Checklist Service
+ */
+export class DocumentChecklistService {
+  /**
+   * Get the checklists of all application types enabled for the tenant
+   * Missing checklists are seeded from the defaults on first access
+   */
+  static async getChecklists(tenantId: string): Promise<ChecklistResponse[]> {
+    const validatedTenantId = ValidationUtils.validateObjectId(tenantId, 'Tenant ID');
+    const enabledTypes = await this.getEnabledApplicationTypes(validatedTenantId);
+
+    await this.seedDefaults(validatedTenantId, enabledTypes);
+
+    const checklists = await DocumentChecklist.find({
+      tenantId: validatedTenantId,
+      applicationType: { $in: enabledTypes },
+      deletedAt: null
+    }).lean();
+
+    return enabledTypes
+      .map(type => checklists.find(checklist => checklist.applicationType === type))
+      .filter((checklist): checklist is NonNullable<typeof checklist> => Boolean(checklist))
+      .map(checklist => ({
+        applicationType: checklist.applicationType,
+        items: checklist.items,
+        updatedAt: checklist.updatedAt
+      }));
+  }
+
+  /**
+   * Get the checklist of one application type
+   */
+  static async getChecklist(tenantId: string, applicationType: ApplicationType): Promise<ChecklistResponse> {
+    const checklists = await this.getChecklists(tenantId);
+    const checklist = checklists.find(entry => entry.applicationType === applicationType);
+
+    if (!checklist) {
+      throw new ApplicationTypeNotEnabledError(applicationType);
+    }
+
+    return checklist;
+  }
+
+  /**
+   * Replace the items of an application type's checklist
+   */
+  static async updateChecklist(
+    tenantId: string,
+    applicationType: ApplicationType,
+    items: IDocumentChecklistItem[],
+    updatedBy: string
+  ): Promise<ChecklistResponse> {
+    const validatedTenantId = ValidationUtils.validateObjectId(tenantId, 'Tenant ID');
+    await this.assertApplicationTypeEnabled(validatedTenantId, applicationType);
+
+    // Labels are shown to clients; document type keys are compared lowercase
+    const sanitizedItems = items.map(item => ({
+      documentType: SecurityUtils.sanitizeInput(item.documentType).toLowerCase(),
+      label: SecurityUtils.sanitizeInput(item.label),
+      description: item.description ? SecurityUtils.sanitizeInput(item.description) : undefined,
+      required: item.required
+    }));
+
+    const seen = new Set<string>();
+    for (const item of sanitizedItems) {
+      if (seen.has(item.documentType)) {
+        throw new DuplicateChecklistItemError(item.documentType);
+      }
+      seen.add(item.documentType);
+    }
+
+    return this.saveChecklist(validatedTenantId, applicationType, sanitizedItems, updatedBy);
+  }
+
+  /**
+   * Restore the default checklist of an application type
+   */
+  static async resetChecklist(
+    tenantId: string,
+    applicationType: ApplicationType,
+    updatedBy: string
+  ): Promise<ChecklistResponse> {
+    const validatedTenantId = ValidationUtils.validateObjectId(tenantId, 'Tenant ID');
+    await this.assertApplicationTypeEnabled(validatedTenantId, applicationType);
+
+    return this.saveChecklist(validatedTenantId, applicationType, DEFAULT_DOCUMENT_CHECKLISTS[applicationType], updatedBy);
+  }
+
+  /**
+   * Completeness of every application of a client
+   */
+  static async getClientCompleteness(tenantId: string, clientId: string): Promise<ApplicationCompleteness[]> {
+    const applications = await Application.find({
+      tenantId,
+      clientId,
+      deletedAt: null
+    })
+      .select('clientId type status')
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return this.computeCompleteness(tenantId, applications);
+  }
+
+  /**
+   * Completeness of a single application owned by a client
+   */
+  static async getClientApplicationCompleteness(
+    tenantId: string,
+    clientId: string,
+    applicationId: string
+  ): Promise<ApplicationCompleteness> {
+    const validatedApplicationId = ValidationUtils.validateObjectId(applicationId, 'Application ID');
+
+    const application = await Application.findOne({
+      _id: validatedApplicationId,
+      tenantId,
+      clientId,
+      deletedAt: null
+    })
+      .select('clientId type status')
+      .lean();
+
+    if (!application) {
+      throw new ChecklistApplicationNotFoundError(validatedApplicationId);
+    }
+
+    const [completeness] = await this.computeCompleteness(tenantId, [application]);
+    return completeness;
+  }
+
+  /**
+   * Completeness of the open applications assigned to a team member
+   */
+  static async getAssignedCompleteness(tenantId: string, teamMemberId: string): Promise<ApplicationCompleteness[]> {
+    const applications = await Application.find({
+      tenantId,
+      assignedTo: teamMemberId,
+      status: { $nin: ['approved', 'rejected'] },
+      deletedAt: null
+    })
+      .select('clientId type status')
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return this.computeCompleteness(tenantId, applications);
+  }
+
+  /**
+   * Completeness of every open application in the tenant, least complete first
+   */
+  static async getTenantCompleteness(tenantId: string): Promise<ApplicationCompleteness[]> {
+    const applications = await Application.find({
+      tenantId,
+      status: { $nin: ['approved', 'rejected'] },
+      deletedAt: null
+    })
+      .select('clientId type status')
+      .lean();
+
+    const completeness = await this.computeCompleteness(tenantId, applications);
+    return completeness.sort((a, b) => a.percentage - b.percentage);
+  }
+
+  /**
+   * Helper: Match applications against their checklists and the client's documents
+   * A document counts for an application when it is attached to it, or attached to
+   * no application at all (e.g. a passport shared by every file of the client).
+   */
+  private static async computeCompleteness(
+    tenantId: string,
+    applications: CompletenessApplication[]
+  ): Promise<ApplicationCompleteness[]> {
+    if (applications.length === 0) {
+      return [];
+    }
+
+    // One query for checklists and one for documents, not one per application
+    const applicationTypes = [...new Set(applications.map(application => application.type))];
+    const clientIds = [...new Set(applications.map(application => application.clientId.toString()))];
+
+    const [checklists, documents] = await Promise.all([
+      DocumentChecklist.find({
+        tenantId,
+        applicationType: { $in: applicationTypes },
+        deletedAt: null
+      }).lean(),
+      Document.find({
+        tenantId,
+        clientId: { $in: clientIds },
+        deletedAt: null
+      })
+        .select('clientId applicationId documentType')
+        .lean()
+    ]);
+
+    return applications.map(application => {
+      const applicationId = application._id.toString();
+      const clientId = application.clientId.toString();
+      const checklistItems = checklists.find(checklist => checklist.applicationType === application.type)?.items
+        || DEFAULT_DOCUMENT_CHECKLISTS[application.type];
+
+      const providedTypes = new Set(
+        documents
+          .filter(document =>
+            document.clientId.toString() === clientId &&
+            (!document.applicationId || document.applicationId.toString() === applicationId)
+          )
+          .map(document => document.documentType.toLowerCase())
+      );
+
+      const items: ChecklistItemStatus[] = checklistItems.map(item => ({
+        documentType: item.documentType,
+        label: item.label,
+        description: item.description,
+        required: item.required,
+        provided: providedTypes.has(item.documentType.toLowerCase())
+      }));
+
+      const requiredItems = items.filter(item => item.required);
+      const providedCount = requiredItems.filter(item => item.provided).length;
+
+      return {
+        applicationId,
+        clientId,
+        applicationType: application.type,
+        status: application.status,
+        percentage: requiredItems.length === 0 ? 100 : Math.round((providedCount / requiredItems.length) * 100),
+        requiredCount: requiredItems.length,
+        providedCount,
+        missing: requiredItems
+          .filter(item => !item.provided)
+          .map(item => ({
+            documentType: item.documentType,
+            label: item.label,
+            description: item.description,
+            required: item.required
+          })),
+        items
+      };
+    });
+  }
+
+  /**
+   * Helper: Application types enabled by the features of the tenant's plan
+   */
+  private static async getEnabledApplicationTypes(tenantId: string): Promise<ApplicationType[]> {
+    const tenant = await Tenant.findById(tenantId).select('planId');
+    const features = (tenant ? (await tenant.getPlan()).toObject().features : {}) as Record<string, boolean>;
+
+    return Object.entries(FEATURE_APPLICATION_TYPES)
+      .filter(([feature]) => features[feature])
+      .map(([, applicationType]) => applicationType);
+  }
+
+  /**
+   * Helper: Reject application types outside the tenant's subscription
+   */
+  private static async assertApplicationTypeEnabled(tenantId: string, applicationType: ApplicationType): Promise<void> {
+    const enabledTypes = await this.getEnabledApplicationTypes(tenantId);
+    if (!enabledTypes.includes(applicationType)) {
+      throw new ApplicationTypeNotEnabledError(applicationType);
+    }
+  }
+
+  /**
+   * Helper: Insert default checklists that do not exist yet
+   * Upserts with $setOnInsert so tenant edits are never overwritten
+   */
+  private static async seedDefaults(tenantId: string, applicationTypes: ApplicationType[]): Promise<void> {
+    if (applicationTypes.length === 0) {
+      return;
+    }
+
+    await DocumentChecklist.bulkWrite(applicationTypes.map(applicationType => ({
+      updateOne: {
+        filter: { tenantId: new mongoose.Types.ObjectId(tenantId), applicationType },
+        update: {
+          $setOnInsert: {
+            tenantId: new mongoose.Types.ObjectId(tenantId),
+            applicationType,
+            items: DEFAULT_DOCUMENT_CHECKLISTS[applicationType],
+            deletedAt: null
+          }
+        },
+        upsert: true
+      }
+    })));
+  }
+
+  /**
+   * Helper: Upsert a checklist
+   */
+  private static async saveChecklist(
+    tenantId: string,
+    applicationType: ApplicationType,
+    items: IDocumentChecklistItem[],
+    updatedBy: string
+  ): Promise<ChecklistResponse> {
+    const checklist = await DocumentChecklist.findOneAndUpdate(
+      { tenantId, applicationType },
+      {
+        $set: {
+          items,
+          updatedBy: new mongoose.Types.ObjectId(updatedBy),
+          deletedAt: null
+        }
+      },
+      { new: true, upsert: true, runValidators: true }
+    ).lean();
+
+    return {
+      applicationType: checklist.applicationType,
+      items: checklist.items,
+      updatedAt: checklist.updatedAt
+    };
+  }
+}
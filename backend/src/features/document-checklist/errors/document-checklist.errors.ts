@@ -0,0 +1,64 @@
+/**
+ * Document Checklist Custom Error Classes
+ * Provides type-safe error handling with proper HTTP status codes
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Better error handling with custom error types
+ */
+
+/**
+ * Base Document Checklist Error
+ */
+export class DocumentChecklistError extends Error {
+  public readonly statusCode: number;
+  public readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Application Type Not Enabled Error (404 Not Found)
+ * Raised when the tenant's subscription does not include the application type
+ */
+export class ApplicationTypeNotEnabledError extends DocumentChecklistError {
+  constructor(applicationType: string) {
+    super(
+      `Application type '${applicationType}' is not enabled for this tenant`,
+      404,
+      'APPLICATION_TYPE_NOT_ENABLED'
+    );
+  }
+}
+
+/**
+ * Duplicate Checklist Item Error (400 Bad Request)
+ */
+export class DuplicateChecklistItemError extends DocumentChecklistError {
+  constructor(documentType: string) {
+    super(
+      `Document type '${documentType}' appears more than once in the checklist`,
+      400,
+      'DUPLICATE_CHECKLIST_ITEM'
+    );
+  }
+}
+
+/**
+ * Checklist Application Not Found Error (404 Not Found)
+ */
+export class ChecklistApplicationNotFoundError extends DocumentChecklistError {
+  constructor(applicationId: string) {
+    super(
+      `Application with ID '${applicationId}' not found`,
+      404,
+      'APPLICATION_NOT_FOUND'
+    );
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Document Controller
+ * Handles signed download URLs shared by all tenant principals
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 1: No console.log (using logger)
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ */
+
+import { Request, Response } from 'express';
+import { DocumentService, DocumentActor } from './document.service';
+import { DocumentError } from './errors/document.errors';
+import logger from '../../utils/logger';
+
+/**
+ * Document Controller
+ */
+export class DocumentController {
+  /**
+   * Issue a signed download URL
+   * GET /api/v1/documents/:id/url
+   */
+  static async getDownloadUrl(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+      const userType = req.user?.userType;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const actor: DocumentActor = {
+        id: userId,
+        type: userType as DocumentActor['type']
+      };
+
+      const signedUrl = await DocumentService.createDownloadUrl(tenantId, req.params.id, actor);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...signedUrl,
+          message: 'Download URL created successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Create document download URL failed', {
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        documentId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      if (error instanceof DocumentError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'DOWNLOAD_URL_FAILED',
+          message: 'Failed to create download URL'
+        }
+      });
+    }
+  }
+
+  /**
+   * Stream a document through a signed URL
+   * GET /api/v1/documents/:id/download?expires=...&signature=...
+   */
+  static async downloadDocument(req: Request, res: Response): Promise<void> {
+    try {
+      const download = await DocumentService.openSignedDownload(
+        req.params.id,
+        Number(req.query.expires),
+        String(req.query.signature || '')
+      );
+
+      res.setHeader('Content-Type', download.mimeType);
+      res.setHeader('Content-Length', download.size.toString());
+      res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(download.fileName)}`);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.setHeader('Digest', `sha-256=${Buffer.from(download.checksum, 'hex').toString('base64')}`);
+
+      download.stream.on('error', (streamError: Error) => {
+        logger.error('Document stream failed', {
+          documentId: req.params.id,
+          error: streamError.message
+        });
+        res.destroy(streamError);
+      });
+      download.stream.pipe(res);
+    } catch (error) {
+      logger.error('Document download failed', {
+        documentId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      if (error instanceof DocumentError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'DOCUMENT_DOWNLOAD_FAILED',
+          message: 'Failed to download document'
+        }
+      });
+    }
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Document MIME Sniffing
+ * Detects the real content type from magic bytes and checks it against the allow-list
+ *
+ * The client-declared Content-Type is never trusted; a file is accepted only
+ * when its leading bytes match one of the signatures below.
+ */
+
+export const ALLOWED_DOCUMENT_MIME_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+] as const;
+
+export type AllowedDocumentMimeType = typeof ALLOWED_DOCUMENT_MIME_TYPES[number];
+
+const DOCX_MIME_TYPE: AllowedDocumentMimeType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const startsWith = (buffer: Buffer, signature: number[], offset = 0): boolean => {
+  if (buffer.length < offset + signature.length) {
+    return false;
+  }
+  return signature.every((byte, index) => buffer[offset + index] === byte);
+};
+
+/**
+ * Sniff the MIME type of a file from its content
+ * Returns null when the content matches no allowed signature
+ */
+export const sniffMimeType = (buffer: Buffer): AllowedDocumentMimeType | null => {
+  // %PDF-
+  if (startsWith(buffer, [0x25, 0x50, 0x44, 0x46, 0x2d])) {
+    return 'application/pdf';
+  }
+
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) {
+    return 'image/jpeg';
+  }
+
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png';
+  }
+
+  // RIFF....WEBP
+  if (startsWith(buffer, [0x52, 0x49, 0x46, 0x46]) && startsWith(buffer, [0x57, 0x45, 0x42, 0x50], 8)) {
+    return 'image/webp';
+  }
+
+  // DOCX is a ZIP container whose entries include "word/"
+  if (startsWith(buffer, [0x50, 0x4b, 0x03, 0x04]) && buffer.includes('word/')) {
+    return DOCX_MIME_TYPE;
+  }
+
+  return null;
+};
@@ -0,0 +1,35 @@
+/**
+ * Document Zod Validation Schemas
+ * Input validation for document downloads
+ *
+ * Following CORE-CRITICAL Rule 12: Validate ALL external data
+ */
+
+import { z } from 'zod';
+import { schemas } from '../../utils/zod.schemas';
+
+/**
+ * Get Document Download URL Schema
+ */
+export const getDownloadUrlSchema = z.object({
+  params: z.object({
+    id: schemas.objectId
+  })
+});
+
+/**
+ * Signed Download Schema
+ */
+export const downloadDocumentSchema = z.object({
+  params: z.object({
+    id: schemas.objectId
+  }),
+  query: z.object({
+    expires: z.string().regex(/^\d+$/, 'Invalid expiry'),
+    signature: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid signature')
+  })
+});
+
+// Type exports
+export type GetDownloadUrlParams = z.infer<typeof getDownloadUrlSchema>['params'];
+export type DownloadDocumentQuery = z.infer<typeof downloadDocumentSchema>['query'];
@@ -0,0 +1,352 @@
+/**
+ * Document Service
+ * Business logic for client documents: upload, quota, signed downloads
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ * - Rule 12: Validate ALL external data
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import mongoose from 'mongoose';
+import { Readable } from 'stream';
+import { Document, IDocument, DocumentUploaderType } from '../../models/document.model';
+import { Application } from '../../models/application.model';
+import { Tenant } from '../../models/tenant.model';
+import { User } from '../../models/user.model';
+import { config } from '../../config/env.config';
+import StorageService from '../../services/storage/storage.service';
+import UsageMeteringService from '../../services/usage-metering.service';
+import { SecurityUtils } from '../../utils/auth.utils';
+import { ValidationUtils } from '../../utils/validation.utils';
+import logger from '../../utils/logger';
+import { sniffMimeType } from './document.mime';
+import {
+  DocumentNotFoundError,
+  DocumentFileMissingError,
+  UnsupportedDocumentTypeError,
+  StorageQuotaExceededError,
+  DocumentOwnerNotFoundError,
+  InvalidDownloadLinkError
+} from './errors/document.errors';
+
+/**
+ * Document Actor Interface
+ * The authenticated tenant principal performing a document operation
+ */
+export interface DocumentActor {
+  id: string;
+  type: DocumentUploaderType;
+}
+
+/**
+ * Uploaded File Interface
+ * Subset of the multer file object the service depends on
+ */
+export interface UploadedFile {
+  buffer: Buffer;
+  originalname: string;
+  size: number;
+}
+
+/**
+ * Upload Document Input Interface
+ */
+export interface UploadDocumentInput {
+  clientId: string;
+  applicationId?: string;
+  documentType: string;
+  file?: UploadedFile;
+}
+
+/**
+ * Document Response Interface
+ */
+export interface DocumentResponse {
+  id: string;
+  clientId: string;
+  applicationId?: string;
+  documentType: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  checksum: string;
+  uploadedByType: DocumentUploaderType;
+  createdAt: Date;
+}
+
+/**
+ * Signed URL Response Interface
+ */
+export interface SignedUrlResponse {
+  url: string;
+  expiresAt: Date;
+}
+
+/**
+ * Document Download Interface
+ */
+export interface DocumentDownload {
+  stream: Readable;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  checksum: string;
+}
+
+/**
+ * Document Service
+ */
+export class DocumentService {
+  /**
+   * Store an uploaded file for a client
+   * The content type is sniffed, the checksum computed and the tenant quota enforced
+   * before anything is written to storage.
+   */
+  static async uploadDocument(
+    tenantId: string,
+    input: UploadDocumentInput,
+    actor: DocumentActor
+  ): Promise<DocumentResponse> {
+    if (!input.file || input.file.size === 0) {
+      throw new DocumentFileMissingError();
+    }
+
+    const validatedTenantId = ValidationUtils.validateObjectId(tenantId, 'Tenant ID');
+    const validatedClientId = ValidationUtils.validateObjectId(input.clientId, 'Client ID');
+    const file = input.file;
+
+    await this.assertClientInScope(validatedTenantId, validatedClientId, actor);
+
+    let validatedApplicationId: string | undefined;
+    if (input.applicationId) {
+      validatedApplicationId = ValidationUtils.validateObjectId(input.applicationId, 'Application ID');
+      const application = await Application.exists({
+        _id: validatedApplicationId,
+        tenantId: validatedTenantId,
+        clientId: validatedClientId,
+        deletedAt: null
+      });
+      if (!application) {
+        throw new DocumentOwnerNotFoundError('Application', validatedApplicationId);
+      }
+    }
+
+    // The declared Content-Type comes from the client; the type is taken from the file content
+    const originalName = SecurityUtils.sanitizeInput(path.basename(file.originalname)).slice(0, 255) || 'document';
+    const mimeType = sniffMimeType(file.buffer);
+    if (!mimeType) {
+      throw new UnsupportedDocumentTypeError(originalName);
+    }
+
+    await this.assertQuotaAvailable(validatedTenantId, file.buffer.length);
+
+    const checksum = crypto.createHash('sha256').update(file.buffer).digest('hex');
+    const driver = StorageService.getInstance().getDefaultDriver();
+    const now = new Date();
+    const storageKey = [
+      validatedTenantId,
+      now.getUTCFullYear().toString(),
+      String(now.getUTCMonth() + 1).padStart(2, '0'),
+      crypto.randomUUID()
+    ].join('/');
+
+    await driver.putObject(storageKey, file.buffer, { contentType: mimeType, checksum });
+
+    try {
+      const document = await Document.create({
+        tenantId: validatedTenantId,
+        clientId: validatedClientId,
+        applicationId: validatedApplicationId,
+        uploadedBy: new mongoose.Types.ObjectId(actor.id),
+        uploadedByType: actor.type,
+        documentType: SecurityUtils.sanitizeInput(input.documentType),
+        originalName,
+        mimeType,
+        size: file.buffer.length,
+        checksum,
+        storageDriver: driver.name,
+        storageKey
+      });
+
+      await UsageMeteringService.getInstance().record(validatedTenantId, 'documentUploads');
+
+      return this.toResponse(document);
+    } catch (error) {
+      // The object was written before the insert; remove it so it is not orphaned
+      await driver.deleteObject(storageKey).catch((cleanupError: Error) => {
+        logger.error('Orphaned document object cleanup failed', {
+          storageKey,
+          error: cleanupError.message
+        });
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get all documents of a client
+   */
+  static async getClientDocuments(tenantId: string, clientId: string): Promise<DocumentResponse[]> {
+    const documents = await Document.find({
+      tenantId,
+      clientId,
+      deletedAt: null
+    })
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return documents.map(document => this.toResponse(document));
+  }
+
+  /**
+   * Issue a signed, expiring download URL for a document the actor may access
+   */
+  static async createDownloadUrl(
+    tenantId: string,
+    documentId: string,
+    actor: DocumentActor
+  ): Promise<SignedUrlResponse> {
+    const validatedTenantId = ValidationUtils.validateObjectId(tenantId, 'Tenant ID');
+    const validatedDocumentId = ValidationUtils.validateObjectId(documentId, 'Document ID');
+
+    const document = await Document.findOne({
+      _id: validatedDocumentId,
+      tenantId: validatedTenantId,
+      deletedAt: null
+    }).select('clientId');
+
+    if (!document) {
+      throw new DocumentNotFoundError(validatedDocumentId);
+    }
+
+    try {
+      await this.assertClientInScope(validatedTenantId, document.clientId.toString(), actor);
+    } catch {
+      // Do not reveal documents outside the actor's scope
+      throw new DocumentNotFoundError(validatedDocumentId);
+    }
+
+    const expires = Math.floor(Date.now() / 1000) + config.STORAGE_URL_TTL;
+    const signature = this.sign(validatedTenantId, validatedDocumentId, expires);
+
+    return {
+      url: `/api/${config.API_VERSION}/documents/${validatedDocumentId}/download?expires=${expires}&signature=${signature}`,
+      expiresAt: new Date(expires * 1000)
+    };
+  }
+
+  /**
+   * Resolve a signed download URL to a readable stream
+   * The signature binds the document to its tenant, so a URL cannot be replayed
+   * against another tenant's document.
+   */
+  static async openSignedDownload(
+    documentId: string,
+    expires: number,
+    signature: string
+  ): Promise<DocumentDownload> {
+    if (!mongoose.Types.ObjectId.isValid(documentId) || !Number.isInteger(expires) || expires * 1000 < Date.now()) {
+      throw new InvalidDownloadLinkError();
+    }
+
+    const document = await Document.findOne({
+      _id: documentId,
+      deletedAt: null
+    }).select('+storageKey');
+
+    if (!document) {
+      throw new InvalidDownloadLinkError();
+    }
+
+    const expected = Buffer.from(this.sign(document.tenantId.toString(), documentId, expires), 'hex');
+    const provided = Buffer.from(signature, 'hex');
+    if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+      throw new InvalidDownloadLinkError();
+    }
+
+    const driver = StorageService.getInstance().getDriver(document.storageDriver);
+
+    return {
+      stream: await driver.getObjectStream(document.storageKey),
+      fileName: document.originalName,
+      mimeType: document.mimeType,
+      size: document.size,
+      checksum: document.checksum
+    };
+  }
+
+  /**
+   * Helper: Ensure the client belongs to the tenant and is visible to the actor
+   * Clients only reach their own documents; team members only their assigned clients
+   */
+  private static async assertClientInScope(
+    tenantId: string,
+    clientId: string,
+    actor: DocumentActor
+  ): Promise<void> {
+    if (actor.type === 'client' && actor.id !== clientId) {
+      throw new DocumentOwnerNotFoundError('Client', clientId);
+    }
+
+    const client = await User.findOne({
+      _id: clientId,
+      tenantId,
+      deletedAt: null
+    }).select('assignedTo');
+
+    if (!client) {
+      throw new DocumentOwnerNotFoundError('Client', clientId);
+    }
+
+    if (actor.type === 'team_member' && client.assignedTo?.toString() !== actor.id) {
+      throw new DocumentOwnerNotFoundError('Client', clientId);
+    }
+  }
+
+  /**
+   * Helper: Enforce the maxStorage limit (MB) of the tenant's plan before writing
+   */
+  private static async assertQuotaAvailable(tenantId: string, incomingBytes: number): Promise<void> {
+    const tenant = await Tenant.findById(tenantId).select('planId');
+    const maxStorageMb = tenant ? (await tenant.getPlan()).limits.maxStorage : 0;
+    const usedBytes = await Document.getTenantStorageUsage(tenantId);
+
+    if (usedBytes + incomingBytes > maxStorageMb * 1024 * 1024) {
+      throw new StorageQuotaExceededError(maxStorageMb);
+    }
+  }
+
+  /**
+   * Helper: HMAC signature for a download URL
+   */
+  private static sign(tenantId: string, documentId: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', config.STORAGE_URL_SECRET)
+      .update(`${tenantId}:${documentId}:${expires}`)
+      .digest('hex');
+  }
+
+  /**
+   * Helper: Map document to API response
+   */
+  private static toResponse(document: Pick<IDocument,
+    '_id' | 'clientId' | 'applicationId' | 'documentType' | 'originalName' | 'mimeType' |
+    'size' | 'checksum' | 'uploadedByType' | 'createdAt'
+  >): DocumentResponse {
+    return {
+      id: document._id.toString(),
+      clientId: document.clientId.toString(),
+      applicationId: document.applicationId?.toString(),
+      documentType: document.documentType,
+      originalName: document.originalName,
+      mimeType: document.mimeType,
+      size: document.size,
+      checksum: document.checksum,
+      uploadedByType: document.uploadedByType,
+      createdAt: document.createdAt
+    };
+  }
+}
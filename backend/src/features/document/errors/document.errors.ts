@@ -0,0 +1,106 @@
+/**
+ * Document Custom Error Classes
+ * Provides type-safe error handling with proper HTTP status codes
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Better error handling with custom error types
+ */
+
+/**
+ * Base Document Error
+ */
+export class DocumentError extends Error {
+  public readonly statusCode: number;
+  public readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Document Not Found Error (404 Not Found)
+ * Also used when the document exists but the caller may not access it
+ */
+export class DocumentNotFoundError extends DocumentError {
+  constructor(documentId: string) {
+    super(
+      `Document with ID '${documentId}' not found`,
+      404,
+      'DOCUMENT_NOT_FOUND'
+    );
+  }
+}
+
+/**
+ * Document File Missing Error (400 Bad Request)
+ */
+export class DocumentFileMissingError extends DocumentError {
+  constructor() {
+    super(
+      'A file must be uploaded in the "file" field',
+      400,
+      'DOCUMENT_FILE_MISSING'
+    );
+  }
+}
+
+/**
+ * Unsupported Document Type Error (415 Unsupported Media Type)
+ * Raised when the sniffed content type is not on the allow-list
+ */
+export class UnsupportedDocumentTypeError extends DocumentError {
+  constructor(fileName: string) {
+    super(
+      `File '${fileName}' is not an allowed document type (PDF, JPEG, PNG, WEBP or DOCX)`,
+      415,
+      'UNSUPPORTED_DOCUMENT_TYPE'
+    );
+  }
+}
+
+/**
+ * Storage Quota Exceeded Error (413 Payload Too Large)
+ */
+export class StorageQuotaExceededError extends DocumentError {
+  constructor(maxStorageMb: number) {
+    super(
+      `Tenant storage quota of ${maxStorageMb} MB would be exceeded`,
+      413,
+      'STORAGE_QUOTA_EXCEEDED'
+    );
+  }
+}
+
+/**
+ * Document Owner Not Found Error (404 Not Found)
+ * Raised when the target client or application is not in the caller's scope
+ */
+export class DocumentOwnerNotFoundError extends DocumentError {
+  constructor(resource: 'Client' | 'Application', id: string) {
+    super(
+      `${resource} with ID '${id}' not found`,
+      404,
+      resource === 'Client' ? 'CLIENT_NOT_FOUND' : 'APPLICATION_NOT_FOUND'
+    );
+  }
+}
+
+/**
+ * Invalid Download Link Error (403 Forbidden)
+ * Raised for expired or tampered signed URLs
+ */
+export class InvalidDownloadLinkError extends DocumentError {
+  constructor() {
+    super(
+      'Download link is invalid or has expired',
+      403,
+      'INVALID_DOWNLOAD_LINK'
+    );
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Impersonation Custom Error Classes
+ * Provides type-safe error handling with proper HTTP status codes
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Better error handling with custom error types
+ */
+
+/**
+ * Base Impersonation Error
+ */
+export class ImpersonationError extends Error {
+  public readonly statusCode: number;
+  public readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Impersonation Not Allowed Error (403 Forbidden)
+ * Raised for super admin targets, self-impersonation and accounts outside
+ * the impersonator's reach
+ */
+export class ImpersonationNotAllowedError extends ImpersonationError {
+  constructor(message: string) {
+    super(message, 403, 'IMPERSONATION_NOT_ALLOWED');
+  }
+}
+
+/**
+ * Impersonation Target Not Found Error (404 Not Found)
+ * The account does not exist, is inactive, or belongs to another tenant
+ */
+export class ImpersonationTargetNotFoundError extends ImpersonationError {
+  constructor(userId: string) {
+    super(
+      `No active account with ID '${userId}' can be impersonated`,
+      404,
+      'IMPERSONATION_TARGET_NOT_FOUND'
+    );
+  }
+}
+
+/**
+ * Not Impersonating Error (400 Bad Request)
+ */
+export class NotImpersonatingError extends ImpersonationError {
+  constructor() {
+    super('This session is not an impersonation session', 400, 'NOT_IMPERSONATING');
+  }
+}
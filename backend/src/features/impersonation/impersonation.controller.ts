@@ -0,0 +1,141 @@
+/**
+ * Impersonation Controller
+ * Handles support sessions as another user for super admins and tenant admins
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 1: No console.log (using logger)
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ */
+
+import { Request, Response } from 'express';
+import { ImpersonationService } from './impersonation.service';
+import { ImpersonationError } from './errors/impersonation.errors';
+import { StartImpersonationInput } from './impersonation.schemas';
+import logger from '../../utils/logger';
+
+/**
+ * Impersonation Controller
+ */
+export class ImpersonationController {
+  /**
+   * Start impersonation
+   * POST /api/v1/super-admin/impersonation
+   * POST /api/v1/tenant-admin/impersonation
+   */
+  static async start(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user;
+
+      if (!user || (user.userType !== 'super_admin' && user.userType !== 'tenant_admin')) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'IMPERSONATION_NOT_ALLOWED',
+            message: 'Only super admins and tenant admins can impersonate users'
+          }
+        });
+        return;
+      }
+
+      const input = req.body as StartImpersonationInput;
+      const session = await ImpersonationService.start(
+        { userId: user.userId, userType: user.userType, email: user.email, tenantId: user.tenantId },
+        input,
+        {
+          ipAddress: req.ip || req.connection.remoteAddress,
+          userAgent: req.get('User-Agent'),
+          endpoint: req.originalUrl.split('?')[0]
+        }
+      );
+
+      res.status(201).json({
+        success: true,
+        data: {
+          ...session,
+          message: `You are now viewing the portal as ${session.user.email}`
+        }
+      });
+    } catch (error) {
+      logger.error('Start impersonation failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.userId
+      });
+
+      if (error instanceof ImpersonationError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'IMPERSONATION_START_FAILED',
+          message: 'Failed to start impersonation'
+        }
+      });
+    }
+  }
+
+  /**
+   * End impersonation
+   * POST /api/v1/auth/impersonation/end
+   */
+  static async end(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User not authenticated'
+          }
+        });
+        return;
+      }
+
+      await ImpersonationService.end(req.user, {
+        ipAddress: req.ip || req.connection.remoteAddress,
+        userAgent: req.get('User-Agent'),
+        endpoint: req.originalUrl.split('?')[0]
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'Impersonation ended'
+        }
+      });
+    } catch (error) {
+      logger.error('End impersonation failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.userId
+      });
+
+      if (error instanceof ImpersonationError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'IMPERSONATION_END_FAILED',
+          message: 'Failed to end impersonation'
+        }
+      });
+    }
+  }
+}
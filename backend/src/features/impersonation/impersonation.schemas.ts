@@ -0,0 +1,34 @@
+/**
+ * Impersonation Zod Validation Schemas
+ * Input validation for starting a support session as another user
+ *
+ * Following CORE-CRITICAL Rule 12: Validate ALL external data
+ */
+
+import { z } from 'zod';
+import { schemas } from '../../utils/zod.schemas';
+
+/**
+ * Start Impersonation Schema
+ * Super admins are accepted here and refused by the service, so the
+ * attempt is logged with a clear reason
+ */
+export const startImpersonationSchema = z.object({
+  body: z.object({
+    userType: z.enum(['super_admin', 'tenant_admin', 'team_member', 'client']),
+    userId: schemas.objectId,
+    reason: z.string()
+      .trim()
+      .min(10, 'Please describe why you need to impersonate this user')
+      .max(500, 'Reason must not exceed 500 characters'),
+    readOnly: z.boolean().default(true),
+    durationMinutes: z.number()
+      .int()
+      .min(5, 'Duration must be at least 5 minutes')
+      .max(240, 'Duration must not exceed 240 minutes')
+      .default(30)
+  })
+});
+
+// Type exports
+export type StartImpersonationInput = z.infer<typeof startImpersonationSchema>['body'];
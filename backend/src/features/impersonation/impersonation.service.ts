@@ -0,0 +1,205 @@
+/**
+ * Impersonation Service
+ * Time-boxed support sessions in which a super admin, or a tenant admin for
+ * their own team members and clients, sees the portal as another user
+ *
+ * The session is a single access token carrying the real user in its
+ * impersonatedBy claim; it is read-only unless asked otherwise and cannot be
+ * refreshed. Super admins are never impersonated. Start and end are audited
+ * with both identities, and the audit middleware records the impersonator on
+ * every request made in between.
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ * - Rule 12: Validate ALL external data
+ */
+
+import { AuditLog } from '../../models/audit-log.model';
+import { JWTUtils } from '../../utils/auth.utils';
+import { config } from '../../config/env.config';
+import TokenDenylistService from '../../services/token-denylist.service';
+import logger from '../../utils/logger';
+import { Impersonator } from '../../middleware/auth.middleware';
+import { AuthService } from '../auth/auth.service';
+import { AuthenticationError } from '../auth/types/errors.types';
+import { TokenSubject } from '../auth/refresh-token.service';
+import { UserProfile, UserType } from '../auth/types/auth.types';
+import {
+  ImpersonationNotAllowedError,
+  ImpersonationTargetNotFoundError,
+  NotImpersonatingError
+} from './errors/impersonation.errors';
+import { StartImpersonationInput } from './impersonation.schemas';
+
+type RequestContext = { ipAddress?: string; userAgent?: string; endpoint: string };
+
+// Account types a tenant admin may impersonate, within their own tenant
+const TENANT_ADMIN_TARGETS: UserType[] = ['team_member', 'client'];
+
+// Model backing each account type, as recorded in the audit trail
+const AUDIT_RESOURCES: Record<UserType, string> = {
+  super_admin: 'SuperAdmin',
+  tenant_admin: 'TenantAdmin',
+  team_member: 'TenantTeamMember',
+  client: 'User'
+};
+
+/**
+ * Impersonation Session Response Interface
+ */
+export interface ImpersonationSession {
+  accessToken: string;
+  expiresAt: Date;
+  readOnly: boolean;
+  user: UserProfile;
+  impersonatedBy: Impersonator;
+}
+
+/**
+ * Impersonation Service
+ */
+export class ImpersonationService {
+  /**
+   * Start impersonating an account
+   *
+   * @param impersonator - Signed-in super admin or tenant admin
+   * @throws ImpersonationNotAllowedError - Super admin target, self, or type out of reach
+   * @throws ImpersonationTargetNotFoundError - Account missing, inactive or in another tenant
+   */
+  static async start(
+    impersonator: Impersonator & { tenantId?: string },
+    input: StartImpersonationInput,
+    context: RequestContext
+  ): Promise<ImpersonationSession> {
+    if (input.userType === 'super_admin') {
+      await this.audit('impersonation.refused', 403, input, impersonator, context, { reason: input.reason });
+      throw new ImpersonationNotAllowedError('Super admins cannot be impersonated');
+    }
+    if (input.userId === impersonator.userId) {
+      throw new ImpersonationNotAllowedError('You cannot impersonate yourself');
+    }
+    if (impersonator.userType === 'tenant_admin' && !TENANT_ADMIN_TARGETS.includes(input.userType)) {
+      throw new ImpersonationNotAllowedError('Tenant admins can only impersonate team members and clients of their organization');
+    }
+
+    const subject = await this.loadTarget(input.userType, input.userId);
+    if (impersonator.userType === 'tenant_admin' && subject.tenantId !== impersonator.tenantId) {
+      throw new ImpersonationTargetNotFoundError(input.userId);
+    }
+
+    const durationMinutes = Math.min(input.durationMinutes, config.IMPERSONATION_MAX_MINUTES);
+    const impersonatedBy: Impersonator = {
+      userId: impersonator.userId,
+      userType: impersonator.userType,
+      email: impersonator.email
+    };
+
+    const accessToken = JWTUtils.generateImpersonationToken(subject, {
+      impersonatedBy,
+      readOnly: input.readOnly,
+      expiresInSeconds: durationMinutes * 60
+    });
+    const expiresAt = new Date(Date.now() + durationMinutes * 60 * 1000);
+
+    await this.audit('impersonation.started', 201, { ...input, tenantId: subject.tenantId }, impersonatedBy, context, {
+      reason: input.reason,
+      readOnly: input.readOnly,
+      durationMinutes,
+      expiresAt
+    });
+
+    logger.warn('Impersonation started', {
+      impersonatorId: impersonator.userId,
+      impersonatorType: impersonator.userType,
+      targetId: input.userId,
+      targetType: input.userType,
+      tenantId: subject.tenantId,
+      readOnly: input.readOnly,
+      durationMinutes
+    });
+
+    const user = await AuthService.getProfile(input.userId, input.userType);
+
+    return { accessToken, expiresAt, readOnly: input.readOnly, user, impersonatedBy };
+  }
+
+  /**
+   * End the impersonation session of the current token
+   *
+   * @throws NotImpersonatingError - Token is not an impersonation token
+   */
+  static async end(
+    session: {
+      userId: string;
+      userType: UserType;
+      tenantId?: string;
+      tokenId?: string;
+      tokenExpiresAt?: number;
+      impersonatedBy?: Impersonator;
+    },
+    context: RequestContext
+  ): Promise<void> {
+    if (!session.impersonatedBy) {
+      throw new NotImpersonatingError();
+    }
+
+    if (session.tokenId) {
+      await TokenDenylistService.getInstance().revokeToken(session.tokenId, session.tokenExpiresAt);
+    }
+
+    await this.audit('impersonation.ended', 200, session, session.impersonatedBy, context);
+
+    logger.info('Impersonation ended', {
+      impersonatorId: session.impersonatedBy.userId,
+      targetId: session.userId,
+      targetType: session.userType
+    });
+  }
+
+  /**
+   * Helper: Load the token claims of the target; inactive accounts cannot be impersonated
+   */
+  private static async loadTarget(userType: UserType, userId: string): Promise<TokenSubject> {
+    try {
+      return await AuthService.loadTokenSubject(userType, userId);
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        throw new ImpersonationTargetNotFoundError(userId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Helper: Record an impersonation event under the target, with the real user in metadata
+   */
+  private static async audit(
+    action: string,
+    statusCode: number,
+    target: { userType: UserType; userId: string; tenantId?: string },
+    impersonator: Impersonator,
+    context: RequestContext,
+    details?: Record<string, unknown>
+  ): Promise<void> {
+    await AuditLog.create({
+      tenantId: target.tenantId,
+      userId: target.userId,
+      action,
+      resource: AUDIT_RESOURCES[target.userType],
+      resourceId: target.userId,
+      category: 'security',
+      severity: 'high',
+      method: 'POST',
+      endpoint: context.endpoint,
+      ipAddress: context.ipAddress || 'unknown',
+      userAgent: context.userAgent || 'unknown',
+      statusCode,
+      requestBody: details,
+      metadata: {
+        userRole: target.userType,
+        impersonatedBy: impersonator
+      }
+    });
+  }
+}
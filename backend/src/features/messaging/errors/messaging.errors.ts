@@ -0,0 +1,79 @@
+/**
+ * Messaging Custom Error Classes
+ * Provides type-safe error handling with proper HTTP status codes
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Better error handling with custom error types
+ */
+
+/**
+ * Base Messaging Error
+ */
+export class MessagingError extends Error {
+  public readonly statusCode: number;
+  public readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Thread Not Found Error (404 Not Found)
+ * Also used when the thread exists but the caller is not a participant
+ */
+export class ThreadNotFoundError extends MessagingError {
+  constructor(threadId: string) {
+    super(
+      `Message thread with ID '${threadId}' not found`,
+      404,
+      'THREAD_NOT_FOUND'
+    );
+  }
+}
+
+/**
+ * Messaging Client Not Found Error (404 Not Found)
+ * Raised when a team member targets a client that is not assigned to them
+ */
+export class MessagingClientNotFoundError extends MessagingError {
+  constructor(clientId: string) {
+    super(
+      `Client with ID '${clientId}' not found`,
+      404,
+      'CLIENT_NOT_FOUND'
+    );
+  }
+}
+
+/**
+ * Messaging Application Not Found Error (404 Not Found)
+ */
+export class MessagingApplicationNotFoundError extends MessagingError {
+  constructor(applicationId: string) {
+    super(
+      `Application with ID '${applicationId}' not found`,
+      404,
+      'APPLICATION_NOT_FOUND'
+    );
+  }
+}
+
+/**
+ * Invalid Attachment Error (400 Bad Request)
+ * Raised when an attachment is not a document of the thread's client
+ */
+export class InvalidAttachmentError extends MessagingError {
+  constructor(documentIds: string[]) {
+    super(
+      `Attachments not found for this client: ${documentIds.join(', ')}`,
+      400,
+      'INVALID_ATTACHMENT'
+    );
+  }
+}
@@ -0,0 +1,329 @@
+/**
+ * Messaging Controller
+ * Handles message threads for clients and team members
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 1: No console.log (using logger)
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ */
+
+import { Request, Response } from 'express';
+import { MessagingService, MessagingParticipant } from './messaging.service';
+import { MessagingError } from './errors/messaging.errors';
+import { CreateThreadBody, PostMessageBody } from './messaging.schemas';
+import logger from '../../utils/logger';
+
+/**
+ * Resolve the messaging participant from the authenticated user
+ * Only clients and team members take part in threads
+ */
+function getParticipant(req: Request): MessagingParticipant | null {
+  const userId = req.user?.userId;
+  const userType = req.user?.userType;
+
+  if (!userId || (userType !== 'client' && userType !== 'team_member')) {
+    return null;
+  }
+
+  return { id: userId, type: userType };
+}
+
+/**
+ * Messaging Controller
+ */
+export class MessagingController {
+  /**
+   * List message threads
+   * GET /api/v1/{client|team-member}/messages/threads
+   */
+  static async getThreads(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const participant = getParticipant(req);
+
+      if (!tenantId || !participant) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const threads = await MessagingService.getThreads(tenantId, participant);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          threads,
+          message: 'Message threads retrieved successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Get message threads failed', {
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      if (error instanceof MessagingError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'THREADS_FETCH_FAILED',
+          message: 'Failed to retrieve message threads'
+        }
+      });
+    }
+  }
+
+  /**
+   * Start a message thread
+   * POST /api/v1/{client|team-member}/messages/threads
+   */
+  static async createThread(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const participant = getParticipant(req);
+
+      if (!tenantId || !participant) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const input = req.body as CreateThreadBody;
+
+      if (participant.type === 'team_member' && !input.clientId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'CLIENT_ID_REQUIRED',
+            message: 'Client ID is required'
+          }
+        });
+        return;
+      }
+
+      const result = await MessagingService.createThread(tenantId, participant, input);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          ...result,
+          message: 'Message thread created successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Create message thread failed', {
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      if (error instanceof MessagingError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'THREAD_CREATE_FAILED',
+          message: 'Failed to create message thread'
+        }
+      });
+    }
+  }
+
+  /**
+   * Get a thread with its messages and mark it read
+   * GET /api/v1/{client|team-member}/messages/threads/:id
+   */
+  static async getThread(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const participant = getParticipant(req);
+
+      if (!tenantId || !participant) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const result = await MessagingService.getThreadMessages(tenantId, participant, req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...result,
+          message: 'Message thread retrieved successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Get message thread failed', {
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        threadId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      if (error instanceof MessagingError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'THREAD_FETCH_FAILED',
+          message: 'Failed to retrieve message thread'
+        }
+      });
+    }
+  }
+
+  /**
+   * Reply to a thread
+   * POST /api/v1/{client|team-member}/messages/threads/:id/messages
+   */
+  static async postMessage(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const participant = getParticipant(req);
+
+      if (!tenantId || !participant) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const sentMessage = await MessagingService.postMessage(
+        tenantId,
+        participant,
+        req.params.id,
+        req.body as PostMessageBody
+      );
+
+      res.status(201).json({
+        success: true,
+        data: {
+          sentMessage,
+          message: 'Message sent successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Post message failed', {
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        threadId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      if (error instanceof MessagingError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'MESSAGE_SEND_FAILED',
+          message: 'Failed to send message'
+        }
+      });
+    }
+  }
+
+  /**
+   * Total unread messages
+   * GET /api/v1/{client|team-member}/messages/unread-count
+   */
+  static async getUnreadCount(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const participant = getParticipant(req);
+
+      if (!tenantId || !participant) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const unreadCount = await MessagingService.getUnreadCount(tenantId, participant);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          unreadCount,
+          message: 'Unread count retrieved successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Get unread message count failed', {
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'UNREAD_COUNT_FAILED',
+          message: 'Failed to retrieve unread count'
+        }
+      });
+    }
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Messaging Zod Validation Schemas
+ * Input validation for message threads
+ *
+ * Following CORE-CRITICAL Rule 12: Validate ALL external data
+ */
+
+import { z } from 'zod';
+import { schemas } from '../../utils/zod.schemas';
+
+const messageBodySchema = z.string().trim().min(1, 'Message cannot be empty').max(5000, 'Message too long');
+const attachmentsSchema = z.array(schemas.objectId).max(10, 'Too many attachments').optional();
+
+/**
+ * Create Thread Schema
+ * clientId is required when a team member starts the thread
+ */
+export const createThreadSchema = z.object({
+  body: z.object({
+    clientId: schemas.objectId.optional(),
+    applicationId: schemas.objectId.optional(),
+    subject: z.string().trim().min(1, 'Subject is required').max(200, 'Subject too long'),
+    body: messageBodySchema,
+    attachments: attachmentsSchema
+  })
+});
+
+/**
+ * Thread ID Params Schema
+ */
+export const threadIdSchema = z.object({
+  params: z.object({
+    id: schemas.objectId
+  })
+});
+
+/**
+ * Post Message Schema
+ */
+export const postMessageSchema = z.object({
+  params: z.object({
+    id: schemas.objectId
+  }),
+  body: z.object({
+    body: messageBodySchema,
+    attachments: attachmentsSchema
+  })
+});
+
+// Type exports
+export type CreateThreadBody = z.infer<typeof createThreadSchema>['body'];
+export type PostMessageBody = z.infer<typeof postMessageSchema>['body'];
@@ -0,0 +1,467 @@
+/**
+ * Messaging Service
+ * Secure message threads between a client and their assigned team member
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ * - Rule 12: Validate ALL external data
+ */
+
+import mongoose from 'mongoose';
+import { MessageThread, IMessageThread, MessageParticipantType } from '../../models/message-thread.model';
+import { Message, IMessage } from '../../models/message.model';
+import { Application } from '../../models/application.model';
+import { Document } from '../../models/document.model';
+import { User } from '../../models/user.model';
+import { SecurityUtils } from '../../utils/auth.utils';
+import { ValidationUtils } from '../../utils/validation.utils';
+import {
+  ThreadNotFoundError,
+  MessagingClientNotFoundError,
+  MessagingApplicationNotFoundError,
+  InvalidAttachmentError
+} from './errors/messaging.errors';
+
+/**
+ * Messaging Participant Interface
+ * The authenticated client or team member using the messaging API
+ */
+export interface MessagingParticipant {
+  id: string;
+  type: MessageParticipantType;
+}
+
+/**
+ * Create Thread Input Interface
+ */
+export interface CreateThreadInput {
+  clientId?: string; // required for team members, implied for clients
+  applicationId?: string;
+  subject: string;
+  body: string;
+  attachments?: string[];
+}
+
+/**
+ * Post Message Input Interface
+ */
+export interface PostMessageInput {
+  body: string;
+  attachments?: string[];
+}
+
+/**
+ * Thread Response Interface
+ */
+export interface ThreadResponse {
+  id: string;
+  clientId: string;
+  applicationId?: string;
+  subject: string;
+  lastMessageAt: Date;
+  lastMessagePreview?: string;
+  unreadCount: number; // for the requesting participant
+  createdAt: Date;
+}
+
+/**
+ * Attachment Response Interface
+ */
+export interface AttachmentResponse {
+  id: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Message Response Interface
+ */
+export interface MessageResponse {
+  id: string;
+  threadId: string;
+  senderId: string;
+  senderType: MessageParticipantType;
+  body: string;
+  attachments: AttachmentResponse[];
+  readAt?: Date;
+  createdAt: Date;
+}
+
+const PREVIEW_LENGTH = 120;
+
+/**
+ * Messaging Service
+ */
+export class MessagingService {
+  /**
+   * List the participant's threads, most recent activity first
+   */
+  static async getThreads(tenantId: string, participant: MessagingParticipant): Promise<ThreadResponse[]> {
+    const clientIds = await this.getVisibleClientIds(tenantId, participant);
+
+    const threads = await MessageThread.find({
+      tenantId,
+      clientId: { $in: clientIds },
+      deletedAt: null
+    })
+      .sort({ lastMessageAt: -1 })
+      .lean();
+
+    return threads.map(thread => this.toThreadResponse(thread, participant));
+  }
+
+  /**
+   * Start a thread with a first message
+   */
+  static async createThread(
+    tenantId: string,
+    participant: MessagingParticipant,
+    input: CreateThreadInput
+  ): Promise<{ thread: ThreadResponse; firstMessage: MessageResponse }> {
+    const validatedTenantId = ValidationUtils.validateObjectId(tenantId, 'Tenant ID');
+    const clientId = participant.type === 'client'
+      ? participant.id
+      : ValidationUtils.validateObjectId(input.clientId || '', 'Client ID');
+
+    await this.assertClientVisible(validatedTenantId, clientId, participant);
+
+    let applicationId: string | undefined;
+    if (input.applicationId) {
+      applicationId = ValidationUtils.validateObjectId(input.applicationId, 'Application ID');
+      const application = await Application.exists({
+        _id: applicationId,
+        tenantId: validatedTenantId,
+        clientId,
+        deletedAt: null
+      });
+      if (!application) {
+        throw new MessagingApplicationNotFoundError(applicationId);
+      }
+    }
+
+    const attachments = await this.resolveAttachments(validatedTenantId, clientId, input.attachments);
+    const body = SecurityUtils.sanitizeInput(input.body);
+
+    const thread = await MessageThread.create({
+      tenantId: validatedTenantId,
+      clientId,
+      applicationId,
+      subject: SecurityUtils.sanitizeInput(input.subject),
+      createdBy: participant.id,
+      createdByType: participant.type,
+      lastMessageAt: new Date(),
+      lastMessagePreview: body.slice(0, PREVIEW_LENGTH),
+      clientUnreadCount: participant.type === 'client' ? 0 : 1,
+      teamMemberUnreadCount: participant.type === 'client' ? 1 : 0
+    });
+
+    const message = await Message.create({
+      tenantId: validatedTenantId,
+      threadId: thread._id,
+      senderId: participant.id,
+      senderType: participant.type,
+      body,
+      attachments: attachments.map(attachment => attachment.id)
+    });
+
+    return {
+      thread: this.toThreadResponse(thread, participant),
+      firstMessage: this.toMessageResponse(message, attachments)
+    };
+  }
+
+  /**
+   * Get the messages of a thread and mark them read for the participant
+   */
+  static async getThreadMessages(
+    tenantId: string,
+    participant: MessagingParticipant,
+    threadId: string
+  ): Promise<{ thread: ThreadResponse; messages: MessageResponse[] }> {
+    const thread = await this.findVisibleThread(tenantId, participant, threadId);
+
+    const messages = await Message.find({
+      tenantId,
+      threadId: thread._id,
+      deletedAt: null
+    })
+      .sort({ createdAt: 1 })
+      .lean();
+
+    const attachmentIds = messages.flatMap(message => message.attachments.map(id => id.toString()));
+    const attachments = await this.loadAttachments(tenantId, attachmentIds);
+
+    await this.markThreadRead(thread, participant);
+
+    return {
+      thread: this.toThreadResponse(thread, participant),
+      messages: messages.map(message => this.toMessageResponse(
+        message,
+        attachments.filter(attachment => message.attachments.some(id => id.toString() === attachment.id))
+      ))
+    };
+  }
+
+  /**
+   * Post a reply to a thread
+   */
+  static async postMessage(
+    tenantId: string,
+    participant: MessagingParticipant,
+    threadId: string,
+    input: PostMessageInput
+  ): Promise<MessageResponse> {
+    const thread = await this.findVisibleThread(tenantId, participant, threadId);
+    const attachments = await this.resolveAttachments(tenantId, thread.clientId.toString(), input.attachments);
+    const body = SecurityUtils.sanitizeInput(input.body);
+
+    const message = await Message.create({
+      tenantId,
+      threadId: thread._id,
+      senderId: participant.id,
+      senderType: participant.type,
+      body,
+      attachments: attachments.map(attachment => attachment.id)
+    });
+
+    // Atomic counter update so concurrent replies are not lost
+    await MessageThread.updateOne(
+      { _id: thread._id, tenantId },
+      {
+        $set: {
+          lastMessageAt: message.createdAt,
+          lastMessagePreview: body.slice(0, PREVIEW_LENGTH)
+        },
+        $inc: participant.type === 'client'
+          ? { teamMemberUnreadCount: 1 }
+          : { clientUnreadCount: 1 }
+      }
+    );
+
+    return this.toMessageResponse(message, attachments);
+  }
+
+  /**
+   * Total unread messages for the participant across all their threads
+   */
+  static async getUnreadCount(tenantId: string, participant: MessagingParticipant): Promise<number> {
+    const clientIds = await this.getVisibleClientIds(tenantId, participant);
+    const counterField = participant.type === 'client' ? '$clientUnreadCount' : '$teamMemberUnreadCount';
+
+    const [result] = await MessageThread.aggregate([
+      {
+        $match: {
+          tenantId: new mongoose.Types.ObjectId(tenantId),
+          clientId: { $in: clientIds.map(id => new mongoose.Types.ObjectId(id)) },
+          deletedAt: null
+        }
+      },
+      { $group: { _id: null, unread: { $sum: counterField } } }
+    ]);
+
+    return result?.unread || 0;
+  }
+
+  /**
+   * Helper: Clients whose threads the participant may see
+   * A team member sees the threads of the clients currently assigned to them,
+   * so reassigning a client hands the conversation history to the new consultant.
+   */
+  private static async getVisibleClientIds(tenantId: string, participant: MessagingParticipant): Promise<string[]> {
+    if (participant.type === 'client') {
+      return [participant.id];
+    }
+
+    const clients = await User.find({
+      tenantId,
+      assignedTo: participant.id,
+      deletedAt: null
+    })
+      .select('_id')
+      .lean();
+
+    return clients.map(client => client._id.toString());
+  }
+
+  /**
+   * Helper: Ensure the client exists in the tenant and is visible to the participant
+   */
+  private static async assertClientVisible(
+    tenantId: string,
+    clientId: string,
+    participant: MessagingParticipant
+  ): Promise<void> {
+    const client = await User.findOne({
+      _id: clientId,
+      tenantId,
+      deletedAt: null
+    }).select('assignedTo');
+
+    if (!client) {
+      throw new MessagingClientNotFoundError(clientId);
+    }
+
+    if (participant.type === 'team_member' && client.assignedTo?.toString() !== participant.id) {
+      throw new MessagingClientNotFoundError(clientId);
+    }
+  }
+
+  /**
+   * Helper: Load a thread the participant takes part in
+   * Foreign threads are reported as not found
+   */
+  private static async findVisibleThread(
+    tenantId: string,
+    participant: MessagingParticipant,
+    threadId: string
+  ): Promise<IMessageThread> {
+    const validatedThreadId = ValidationUtils.validateObjectId(threadId, 'Thread ID');
+
+    const thread = await MessageThread.findOne({
+      _id: validatedThreadId,
+      tenantId,
+      deletedAt: null
+    });
+
+    if (!thread) {
+      throw new ThreadNotFoundError(validatedThreadId);
+    }
+
+    try {
+      await this.assertClientVisible(tenantId, thread.clientId.toString(), participant);
+    } catch {
+      throw new ThreadNotFoundError(validatedThreadId);
+    }
+
+    return thread;
+  }
+
+  /**
+   * Helper: Reset the participant's unread counter and stamp the other side's messages
+   */
+  private static async markThreadRead(thread: IMessageThread, participant: MessagingParticipant): Promise<void> {
+    const otherSide: MessageParticipantType = participant.type === 'client' ? 'team_member' : 'client';
+    const now = new Date();
+
+    await Promise.all([
+      Message.updateMany(
+        { threadId: thread._id, senderType: otherSide, readAt: null },
+        { $set: { readAt: now } }
+      ),
+      MessageThread.updateOne(
+        { _id: thread._id },
+        { $set: participant.type === 'client' ? { clientUnreadCount: 0 } : { teamMemberUnreadCount: 0 } }
+      )
+    ]);
+
+    if (participant.type === 'client') {
+      thread.clientUnreadCount = 0;
+    } else {
+      thread.teamMemberUnreadCount = 0;
+    }
+  }
+
+  /**
+   * Helper: Validate attachment IDs against the thread client's documents
+   */
+  private static async resolveAttachments(
+    tenantId: string,
+    clientId: string,
+    attachmentIds?: string[]
+  ): Promise<AttachmentResponse[]> {
+    if (!attachmentIds || attachmentIds.length === 0) {
+      return [];
+    }
+
+    const uniqueIds = [...new Set(attachmentIds.map(id => ValidationUtils.validateObjectId(id, 'Attachment ID')))];
+
+    const documents = await Document.find({
+      _id: { $in: uniqueIds },
+      tenantId,
+      clientId,
+      deletedAt: null
+    })
+      .select('originalName mimeType size')
+      .lean();
+
+    if (documents.length !== uniqueIds.length) {
+      const found = new Set(documents.map(document => document._id.toString()));
+      throw new InvalidAttachmentError(uniqueIds.filter(id => !found.has(id)));
+    }
+
+    return documents.map(document => ({
+      id: document._id.toString(),
+      originalName: document.originalName,
+      mimeType: document.mimeType,
+      size: document.size
+    }));
+  }
+
+  /**
+   * Helper: Load attachment metadata for display
+   * Deleted documents simply drop out of the message
+   */
+  private static async loadAttachments(tenantId: string, attachmentIds: string[]): Promise<AttachmentResponse[]> {
+    if (attachmentIds.length === 0) {
+      return [];
+    }
+
+    const documents = await Document.find({
+      _id: { $in: [...new Set(attachmentIds)] },
+      tenantId,
+      deletedAt: null
+    })
+      .select('originalName mimeType size')
+      .lean();
+
+    return documents.map(document => ({
+      id: document._id.toString(),
+      originalName: document.originalName,
+      mimeType: document.mimeType,
+      size: document.size
+    }));
+  }
+
+  /**
+   * Helper: Map thread to API response
+   */
+  private static toThreadResponse(
+    thread: Pick<IMessageThread,
+      '_id' | 'clientId' | 'applicationId' | 'subject' | 'lastMessageAt' | 'lastMessagePreview' |
+      'clientUnreadCount' | 'teamMemberUnreadCount' | 'createdAt'
+    >,
+    participant: MessagingParticipant
+  ): ThreadResponse {
+    return {
+      id: thread._id.toString(),
+      clientId: thread.clientId.toString(),
+      applicationId: thread.applicationId?.toString(),
+      subject: thread.subject,
+      lastMessageAt: thread.lastMessageAt,
+      lastMessagePreview: thread.lastMessagePreview,
+      unreadCount: participant.type === 'client' ? thread.clientUnreadCount : thread.teamMemberUnreadCount,
+      createdAt: thread.createdAt
+    };
+  }
+
+  /**
+   * Helper: Map message to API response
+   */
+  private static toMessageResponse(
+    message: Pick<IMessage, '_id' | 'threadId' | 'senderId' | 'senderType' | 'body' | 'readAt' | 'createdAt'>,
+    attachments: AttachmentResponse[]
+  ): MessageResponse {
+    return {
+      id: message._id.toString(),
+      threadId: message.threadId.toString(),
+      senderId: message.senderId.toString(),
+      senderType: message.senderType,
+      body: message.body,
+      attachments,
+      readAt: message.readAt,
+      createdAt: message.createdAt
+    };
+  }
+}
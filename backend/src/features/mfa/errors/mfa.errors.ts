@@ -0,0 +1,135 @@
+/**
+ * MFA Custom Error Classes
+ * Provides type-safe error handling with proper HTTP status codes
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Better error handling with custom error types
+ */
+
+/**
+ * Base MFA Error
+ * details carries data the client needs to continue (e.g. an enrollment token)
+ */
+export class MfaError extends Error {
+  public readonly statusCode: number;
+  public readonly code: string;
+  public readonly details?: Record<string, unknown>;
+
+  constructor(message: string, statusCode: number, code: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = this.constructor.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    this.details = details;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * MFA Required Error (401 Unauthorized)
+ * Password was correct; the login must be repeated with a second factor
+ */
+export class MfaRequiredError extends MfaError {
+  constructor() {
+    super(
+      'Enter the code from your authenticator app',
+      401,
+      'MFA_REQUIRED'
+    );
+  }
+}
+
+/**
+ * MFA Enrollment Required Error (403 Forbidden)
+ * The account must enroll before it can sign in
+ */
+export class MfaEnrollmentRequiredError extends MfaError {
+  constructor(enrollmentToken: string) {
+    super(
+      'Two-factor authentication must be set up before you can sign in',
+      403,
+      'MFA_ENROLLMENT_REQUIRED',
+      { enrollmentToken }
+    );
+  }
+}
+
+/**
+ * Invalid MFA Code Error (400 Bad Request)
+ */
+export class InvalidMfaCodeError extends MfaError {
+  constructor() {
+    super(
+      'Invalid or expired verification code',
+      400,
+      'INVALID_MFA_CODE'
+    );
+  }
+}
+
+/**
+ * MFA Not Enrolled Error (400 Bad Request)
+ */
+export class MfaNotEnrolledError extends MfaError {
+  constructor() {
+    super(
+      'Two-factor authentication is not set up for this account',
+      400,
+      'MFA_NOT_ENROLLED'
+    );
+  }
+}
+
+/**
+ * MFA Setup Not Started Error (400 Bad Request)
+ */
+export class MfaSetupNotStartedError extends MfaError {
+  constructor() {
+    super(
+      'Start two-factor setup before confirming a code',
+      400,
+      'MFA_SETUP_NOT_STARTED'
+    );
+  }
+}
+
+/**
+ * MFA Already Enabled Error (409 Conflict)
+ */
+export class MfaAlreadyEnabledError extends MfaError {
+  constructor() {
+    super(
+      'Two-factor authentication is already enabled',
+      409,
+      'MFA_ALREADY_ENABLED'
+    );
+  }
+}
+
+/**
+ * MFA Disable Forbidden Error (403 Forbidden)
+ * Raised when policy requires the account to keep MFA
+ */
+export class MfaDisableForbiddenError extends MfaError {
+  constructor() {
+    super(
+      'Two-factor authentication is required for this account and cannot be turned off',
+      403,
+      'MFA_REQUIRED_BY_POLICY'
+    );
+  }
+}
+
+/**
+ * Invalid Enrollment Token Error (401 Unauthorized)
+ */
+export class InvalidEnrollmentTokenError extends MfaError {
+  constructor() {
+    super(
+      'Enrollment session expired, please sign in again',
+      401,
+      'INVALID_ENROLLMENT_TOKEN'
+    );
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * MFA Controller
+ * Handles enrollment and management of the second factor for all user types
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 1: No console.log (using logger)
+ * - Rule 9: TypeScript strict (no 'any')
+ */
+
+import { Request, Response } from 'express';
+import { MfaService, MfaAccount } from './mfa.service';
+import { MfaError, InvalidEnrollmentTokenError } from './errors/mfa.errors';
+import { MFA_ACCOUNT_TYPES, MfaAccountType } from '../../models/mfa-credential.model';
+import { MfaSetupInput, MfaEnableInput, MfaCodeInput } from './mfa.schemas';
+import { JWTUtils } from '../../utils/auth.utils';
+import logger from '../../utils/logger';
+
+/**
+ * Resolve the account from the access token or, during a forced
+ * enrollment at login, from the enrollment token
+ */
+const resolveAccount = (req: Request, enrollmentToken?: string): MfaAccount | null => {
+  if (enrollmentToken) {
+    let decoded;
+    try {
+      decoded = JWTUtils.verifyMfaEnrollmentToken(enrollmentToken);
+    } catch {
+      throw new InvalidEnrollmentTokenError();
+    }
+
+    if (!MFA_ACCOUNT_TYPES.includes(decoded.accountType) || typeof decoded.accountId !== 'string') {
+      throw new InvalidEnrollmentTokenError();
+    }
+
+    return {
+      accountType: decoded.accountType as MfaAccountType,
+      accountId: decoded.accountId,
+      tenantId: decoded.tenantId,
+      email: decoded.email
+    };
+  }
+
+  if (!req.user) {
+    return null;
+  }
+
+  return {
+    accountType: req.user.userType,
+    accountId: req.user.userId,
+    tenantId: req.user.tenantId,
+    email: req.user.email
+  };
+};
+
+/**
+ * MFA Controller
+ */
+export class MfaController {
+  /**
+   * Get MFA status
+   * GET /api/v1/auth/mfa/status
+   */
+  static async getStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const account = resolveAccount(req);
+
+      if (!account) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Authentication required'
+          }
+        });
+        return;
+      }
+
+      const status = await MfaService.getStatus(account);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          mfa: status
+        }
+      });
+    } catch (error) {
+      logger.error('Get MFA status failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.userId
+      });
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'MFA_STATUS_FETCH_FAILED',
+          message: 'Failed to fetch two-factor authentication status'
+        }
+      });
+    }
+  }
+
+  /**
+   * Start MFA setup
+   * POST /api/v1/auth/mfa/setup
+   */
+  static async startSetup(req: Request, res: Response): Promise<void> {
+    try {
+      const { enrollmentToken } = req.body as MfaSetupInput;
+      const account = resolveAccount(req, enrollmentToken);
+
+      if (!account) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Authentication required'
+          }
+        });
+        return;
+      }
+
+      const setup = await MfaService.startSetup(account);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          setup
+        }
+      });
+    } catch (error) {
+      logger.error('Start MFA setup failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.userId
+      });
+
+      if (error instanceof MfaError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'MFA_SETUP_FAILED',
+          message: 'Failed to start two-factor authentication setup'
+        }
+      });
+    }
+  }
+
+  /**
+   * Confirm MFA setup
+   * POST /api/v1/auth/mfa/enable
+   */
+  static async enable(req: Request, res: Response): Promise<void> {
+    try {
+      const { code, enrollmentToken } = req.body as MfaEnableInput;
+      const account = resolveAccount(req, enrollmentToken);
+
+      if (!account) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Authentication required'
+          }
+        });
+        return;
+      }
+
+      const backupCodes = await MfaService.enable(account, code);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          backupCodes,
+          message: 'Two-factor authentication enabled'
+        }
+      });
+    } catch (error) {
+      logger.error('Enable MFA failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.userId
+      });
+
+      if (error instanceof MfaError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'MFA_ENABLE_FAILED',
+          message: 'Failed to enable two-factor authentication'
+        }
+      });
+    }
+  }
+
+  /**
+   * Disable MFA
+   * POST /api/v1/auth/mfa/disable
+   */
+  static async disable(req: Request, res: Response): Promise<void> {
+    try {
+      const account = resolveAccount(req);
+
+      if (!account) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Authentication required'
+          }
+        });
+        return;
+      }
+
+      const { code } = req.body as MfaCodeInput;
+      await MfaService.disable(account, code);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'Two-factor authentication disabled'
+        }
+      });
+    } catch (error) {
+      logger.error('Disable MFA failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.userId
+      });
+
+      if (error instanceof MfaError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'MFA_DISABLE_FAILED',
+          message: 'Failed to disable two-factor authentication'
+        }
+      });
+    }
+  }
+
+  /**
+   * Regenerate backup codes
+   * POST /api/v1/auth/mfa/backup-codes
+   */
+  static async regenerateBackupCodes(req: Request, res: Response): Promise<void> {
+    try {
+      const account = resolveAccount(req);
+
+      if (!account) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'AUTHENTICATION_REQUIRED',
+            message: 'Authentication required'
+          }
+        });
+        return;
+      }
+
+      const { code } = req.body as MfaCodeInput;
+      const backupCodes = await MfaService.regenerateBackupCodes(account, code);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          backupCodes,
+          message: 'New backup codes generated'
+        }
+      });
+    } catch (error) {
+      logger.error('Regenerate MFA backup codes failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.userId
+      });
+
+      if (error instanceof MfaError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'MFA_BACKUP_CODES_FAILED',
+          message: 'Failed to generate backup codes'
+        }
+      });
+    }
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * MFA Zod Validation Schemas
+ * Input validation for enrollment and management of the second factor
+ *
+ * Following CORE-CRITICAL Rule 12: Validate ALL external data
+ */
+
+import { z } from 'zod';
+
+/**
+ * Second-factor code: 6-digit TOTP or 8-character backup code
+ */
+export const mfaCodeField = z.string()
+  .trim()
+  .regex(/^(\d{6}|[A-Fa-f0-9]{8})$/, 'Enter a 6-digit code or an 8-character backup code');
+
+/**
+ * Enrollment token issued by the login endpoints when enrollment is mandatory
+ * Omitted when the user is already signed in
+ */
+const enrollmentTokenField = z.string().min(1).max(2048).optional();
+
+/**
+ * Start MFA Setup Schema
+ */
+export const mfaSetupSchema = z.object({
+  body: z.object({
+    enrollmentToken: enrollmentTokenField
+  })
+});
+
+/**
+ * Confirm MFA Setup Schema
+ * Enrollment is confirmed with a TOTP code only
+ */
+export const mfaEnableSchema = z.object({
+  body: z.object({
+    code: z.string().regex(/^\d{6}$/, 'MFA code must be 6 digits'),
+    enrollmentToken: enrollmentTokenField
+  })
+});
+
+/**
+ * MFA Code Schema
+ * Used to disable MFA or regenerate backup codes
+ */
+export const mfaCodeSchema = z.object({
+  body: z.object({
+    code: mfaCodeField
+  })
+});
+
+// Type exports
+export type MfaSetupInput = z.infer<typeof mfaSetupSchema>['body'];
+export type MfaEnableInput = z.infer<typeof mfaEnableSchema>['body'];
+export type MfaCodeInput = z.infer<typeof mfaCodeSchema>['body'];
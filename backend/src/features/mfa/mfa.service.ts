@@ -0,0 +1,369 @@
+/**
+ * MFA Service
+ * TOTP enrollment, verification and backup codes for every account type
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ * - Rule 12: Validate ALL external data
+ */
+
+import crypto from 'crypto';
+import speakeasy from 'speakeasy';
+import QRCode from 'qrcode';
+import { HydratedDocument } from 'mongoose';
+import { MfaCredential, IMfaCredential, MfaAccountType } from '../../models/mfa-credential.model';
+import { Tenant } from '../../models/tenant.model';
+import { JWTUtils, TokenUtils } from '../../utils/auth.utils';
+import { ValidationUtils } from '../../utils/validation.utils';
+import { config } from '../../config/env.config';
+import logger from '../../utils/logger';
+import {
+  InvalidMfaCodeError,
+  MfaAlreadyEnabledError,
+  MfaDisableForbiddenError,
+  MfaEnrollmentRequiredError,
+  MfaNotEnrolledError,
+  MfaRequiredError,
+  MfaSetupNotStartedError
+} from './errors/mfa.errors';
+
+/**
+ * Account the second factor belongs to
+ */
+export interface MfaAccount {
+  accountType: MfaAccountType;
+  accountId: string;
+  tenantId?: string;
+  email: string;
+}
+
+/**
+ * MFA Status Response Interface
+ */
+export interface MfaStatusResponse {
+  enabled: boolean;
+  required: boolean;
+  backupCodesRemaining: number;
+  enabledAt?: Date;
+}
+
+/**
+ * MFA Setup Response Interface
+ * secret is shown for manual entry when the QR code cannot be scanned
+ */
+export interface MfaSetupResponse {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // data: URL of a PNG image
+}
+
+const TOTP_STEP_SECONDS = 30;
+const BACKUP_CODE_COUNT = 10;
+
+/**
+ * MFA Service
+ */
+export class MfaService {
+  /**
+   * Whether policy forces the account to use a second factor
+   * Super admins always; tenant staff when their tenant requires it
+   */
+  static async isRequired(account: MfaAccount): Promise<boolean> {
+    switch (account.accountType) {
+      case 'super_admin':
+        return true;
+      case 'tenant_admin':
+      case 'team_member': {
+        if (!account.tenantId) return false;
+        const tenant = await Tenant.findById(account.tenantId).select('settings.requireStaffMfa');
+        return tenant?.settings?.requireStaffMfa === true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Check the second factor during login
+   * Returns false for a wrong code so the caller can count it as a failed attempt
+   *
+   * @throws MfaEnrollmentRequiredError - Policy requires MFA but the account has not enrolled
+   * @throws MfaRequiredError - The account uses MFA and no code was supplied
+   */
+  static async verifyLoginFactor(account: MfaAccount, code?: string): Promise<boolean> {
+    const credential = await this.findCredential(account, '+secret +backupCodes');
+
+    if (!credential?.enabled) {
+      if (await this.isRequired(account)) {
+        throw new MfaEnrollmentRequiredError(JWTUtils.generateMfaEnrollmentToken(account));
+      }
+      return true;
+    }
+
+    if (!code) {
+      throw new MfaRequiredError();
+    }
+
+    return this.verifyCode(credential, code);
+  }
+
+  /**
+   * Get MFA status of an account
+   */
+  static async getStatus(account: MfaAccount): Promise<MfaStatusResponse> {
+    const credential = await this.findCredential(account, '+backupCodes');
+
+    return {
+      enabled: credential?.enabled === true,
+      required: await this.isRequired(account),
+      backupCodesRemaining: credential?.enabled ? credential.backupCodes.length : 0,
+      enabledAt: credential?.enabledAt
+    };
+  }
+
+  /**
+   * Start enrollment: generate a secret and its QR code
+   * The secret stays pending until confirmed with a valid code
+   *
+   * @throws MfaAlreadyEnabledError - Account already enrolled
+   */
+  static async startSetup(account: MfaAccount): Promise<MfaSetupResponse> {
+    const existing = await this.findCredential(account);
+    if (existing?.enabled) {
+      throw new MfaAlreadyEnabledError();
+    }
+
+    const generated = speakeasy.generateSecret({
+      length: 20,
+      name: `${config.MFA_ISSUER} (${account.email})`,
+      issuer: config.MFA_ISSUER
+    });
+
+    const credential = existing ?? new MfaCredential({
+      accountType: account.accountType,
+      accountId: ValidationUtils.validateObjectId(account.accountId, 'Account ID'),
+      tenantId: account.tenantId
+    });
+    credential.pendingSecret = this.encryptSecret(generated.base32);
+    await credential.save();
+
+    const otpauthUrl = generated.otpauth_url ?? speakeasy.otpauthURL({
+      secret: generated.base32,
+      encoding: 'base32',
+      label: account.email,
+      issuer: config.MFA_ISSUER
+    });
+
+    return {
+      secret: generated.base32,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl)
+    };
+  }
+
+  /**
+   * Confirm enrollment with the first code from the authenticator app
+   *
+   * @returns Backup codes, shown to the user once
+   * @throws MfaSetupNotStartedError - No pending secret
+   * @throws InvalidMfaCodeError - Code does not match the pending secret
+   */
+  static async enable(account: MfaAccount, code: string): Promise<string[]> {
+    const credential = await this.findCredential(account, '+pendingSecret');
+    if (credential?.enabled) {
+      throw new MfaAlreadyEnabledError();
+    }
+    if (!credential?.pendingSecret) {
+      throw new MfaSetupNotStartedError();
+    }
+
+    const secret = this.decryptSecret(credential.pendingSecret);
+    const step = this.matchTotpStep(secret, code);
+    if (step === null) {
+      throw new InvalidMfaCodeError();
+    }
+
+    const backupCodes = TokenUtils.generateMfaBackupCodes(BACKUP_CODE_COUNT);
+
+    credential.secret = credential.pendingSecret;
+    credential.pendingSecret = undefined;
+    credential.enabled = true;
+    credential.enabledAt = new Date();
+    credential.lastUsedStep = step;
+    credential.backupCodes = backupCodes.map(backupCode => TokenUtils.hashToken(backupCode));
+    await credential.save();
+
+    logger.info('MFA enabled', { accountType: account.accountType, accountId: account.accountId });
+
+    return backupCodes;
+  }
+
+  /**
+   * Turn MFA off after confirming a current code
+   *
+   * @throws MfaDisableForbiddenError - Policy requires MFA for the account
+   */
+  static async disable(account: MfaAccount, code: string): Promise<void> {
+    if (await this.isRequired(account)) {
+      throw new MfaDisableForbiddenError();
+    }
+
+    const credential = await this.requireEnabledCredential(account);
+    if (!(await this.verifyCode(credential, code))) {
+      throw new InvalidMfaCodeError();
+    }
+
+    await MfaCredential.deleteOne({ _id: credential._id });
+
+    logger.info('MFA disabled', { accountType: account.accountType, accountId: account.accountId });
+  }
+
+  /**
+   * Replace all backup codes after confirming a current code
+   *
+   * @returns New backup codes, shown to the user once
+   */
+  static async regenerateBackupCodes(account: MfaAccount, code: string): Promise<string[]> {
+    const credential = await this.requireEnabledCredential(account);
+    if (!(await this.verifyCode(credential, code))) {
+      throw new InvalidMfaCodeError();
+    }
+
+    const backupCodes = TokenUtils.generateMfaBackupCodes(BACKUP_CODE_COUNT);
+    await MfaCredential.updateOne(
+      { _id: credential._id },
+      { $set: { backupCodes: backupCodes.map(backupCode => TokenUtils.hashToken(backupCode)) } }
+    );
+
+    return backupCodes;
+  }
+
+  /**
+   * Helper: Load the credential of an account
+   */
+  private static async findCredential(
+    account: MfaAccount,
+    select?: string
+  ): Promise<HydratedDocument<IMfaCredential> | null> {
+    const query = MfaCredential.findOne({
+      accountType: account.accountType,
+      accountId: ValidationUtils.validateObjectId(account.accountId, 'Account ID')
+    });
+
+    if (select) {
+      query.select(select);
+    }
+
+    return query;
+  }
+
+  /**
+   * Helper: Load an enabled credential with its secrets
+   */
+  private static async requireEnabledCredential(account: MfaAccount): Promise<HydratedDocument<IMfaCredential>> {
+    const credential = await this.findCredential(account, '+secret +backupCodes');
+    if (!credential?.enabled || !credential.secret) {
+      throw new MfaNotEnrolledError();
+    }
+    return credential;
+  }
+
+  /**
+   * Helper: Accept a TOTP code or consume a backup code
+   * Both updates are conditional so a code cannot be used twice concurrently
+   */
+  private static async verifyCode(credential: HydratedDocument<IMfaCredential>, code: string): Promise<boolean> {
+    const normalized = code.trim();
+
+    // Backup codes are 8 hex characters, TOTP codes 6 digits
+    if (/^[A-Fa-f0-9]{8}$/.test(normalized)) {
+      const result = await MfaCredential.updateOne(
+        { _id: credential._id, backupCodes: TokenUtils.hashToken(normalized.toUpperCase()) },
+        {
+          $pull: { backupCodes: TokenUtils.hashToken(normalized.toUpperCase()) },
+          $set: { lastUsedAt: new Date() }
+        }
+      );
+
+      if (result.modifiedCount === 1) {
+        logger.info('MFA backup code used', {
+          accountType: credential.accountType,
+          accountId: credential.accountId,
+          remaining: credential.backupCodes.length - 1
+        });
+        return true;
+      }
+      return false;
+    }
+
+    if (!credential.secret) {
+      return false;
+    }
+
+    const step = this.matchTotpStep(this.decryptSecret(credential.secret), normalized);
+    if (step === null) {
+      return false;
+    }
+
+    // Replay protection: each time step is accepted once
+    const result = await MfaCredential.updateOne(
+      {
+        _id: credential._id,
+        $or: [{ lastUsedStep: { $exists: false } }, { lastUsedStep: { $lt: step } }]
+      },
+      { $set: { lastUsedStep: step, lastUsedAt: new Date() } }
+    );
+
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Helper: Time step matched by a TOTP code, or null
+   */
+  private static matchTotpStep(secret: string, code: string): number | null {
+    if (!/^\d{6}$/.test(code)) {
+      return null;
+    }
+
+    const match = speakeasy.totp.verifyDelta({
+      secret,
+      encoding: 'base32',
+      token: code,
+      step: TOTP_STEP_SECONDS,
+      window: config.MFA_WINDOW
+    });
+
+    if (!match) {
+      return null;
+    }
+
+    return Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS) + match.delta;
+  }
+
+  /**
+   * Helper: Encrypt a TOTP secret (AES-256-GCM)
+   */
+  private static encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+  }
+
+  /**
+   * Helper: Decrypt a TOTP secret
+   */
+  private static decryptSecret(payload: string): string {
+    const [iv, authTag, encrypted] = payload.split('.').map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+
+  private static encryptionKey(): Buffer {
+    return crypto.createHash('sha256').update(config.MFA_ENCRYPTION_KEY).digest();
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Role Custom Error Classes
+ * Provides type-safe error handling with proper HTTP status codes
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Better error handling with custom error types
+ */
+
+/**
+ * Base Role Error
+ */
+export class RoleError extends Error {
+  public readonly statusCode: number;
+  public readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Role Not Found Error (404 Not Found)
+ */
+export class RoleNotFoundError extends RoleError {
+  constructor(roleId: string) {
+    super(
+      `Role with ID '${roleId}' not found`,
+      404,
+      'ROLE_NOT_FOUND'
+    );
+  }
+}
+
+/**
+ * Role Name Taken Error (409 Conflict)
+ */
+export class RoleNameTakenError extends RoleError {
+  constructor(name: string) {
+    super(
+      `A role named '${name}' already exists`,
+      409,
+      'ROLE_NAME_TAKEN'
+    );
+  }
+}
+
+/**
+ * Role In Use Error (409 Conflict)
+ * Raised when deleting a role that team members still hold
+ */
+export class RoleInUseError extends RoleError {
+  constructor(memberCount: number) {
+    super(
+      `Cannot delete a role assigned to ${memberCount} team member${memberCount > 1 ? 's' : ''}. Please assign them another role first.`,
+      409,
+      'ROLE_IN_USE'
+    );
+  }
+}
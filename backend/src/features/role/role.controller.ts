@@ -0,0 +1,290 @@
+/**
+ * Role Controller
+ * Handles tenant-defined roles for tenant admins
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 1: No console.log (using logger)
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ */
+
+import { Request, Response } from 'express';
+import { RoleService } from './role.service';
+import { RoleError } from './errors/role.errors';
+import { CreateRoleInput, UpdateRoleInput } from './role.schemas';
+import logger from '../../utils/logger';
+
+/**
+ * Role Controller
+ */
+export class RoleController {
+  /**
+   * Get the permission catalog
+   * GET /api/v1/tenant-admin/roles/permissions
+   */
+  static async getPermissionCatalog(req: Request, res: Response): Promise<void> {
+    try {
+      const permissions = RoleService.getPermissionCatalog();
+
+      res.status(200).json({
+        success: true,
+        data: {
+          permissions
+        }
+      });
+    } catch (error) {
+      logger.error('Get permission catalog failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId: req.user?.tenantId
+      });
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'PERMISSION_CATALOG_FETCH_FAILED',
+          message: 'Failed to fetch permission catalog'
+        }
+      });
+    }
+  }
+
+  /**
+   * List roles
+   * GET /api/v1/tenant-admin/roles
+   */
+  static async listRoles(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const roles = await RoleService.listRoles(tenantId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          roles
+        }
+      });
+    } catch (error) {
+      logger.error('List roles failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId: req.user?.tenantId
+      });
+
+      if (error instanceof RoleError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'ROLES_FETCH_FAILED',
+          message: 'Failed to fetch roles'
+        }
+      });
+    }
+  }
+
+  /**
+   * Create role
+   * POST /api/v1/tenant-admin/roles
+   */
+  static async createRole(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const input = req.body as CreateRoleInput;
+      const role = await RoleService.createRole(tenantId, input);
+
+      logger.info('Role created', {
+        roleId: role.id,
+        tenantId,
+        createdBy: req.user?.userId
+      });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          role,
+          message: 'Role created successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Create role failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId: req.user?.tenantId
+      });
+
+      if (error instanceof RoleError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'ROLE_CREATE_FAILED',
+          message: 'Failed to create role'
+        }
+      });
+    }
+  }
+
+  /**
+   * Update role
+   * PUT /api/v1/tenant-admin/roles/:roleId
+   */
+  static async updateRole(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const input = req.body as UpdateRoleInput;
+      const role = await RoleService.updateRole(tenantId, req.params.roleId, input);
+
+      logger.info('Role updated', {
+        roleId: role.id,
+        tenantId,
+        updatedBy: req.user?.userId
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          role,
+          message: 'Role updated successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Update role failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        roleId: req.params.roleId,
+        tenantId: req.user?.tenantId
+      });
+
+      if (error instanceof RoleError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'ROLE_UPDATE_FAILED',
+          message: 'Failed to update role'
+        }
+      });
+    }
+  }
+
+  /**
+   * Delete role
+   * DELETE /api/v1/tenant-admin/roles/:roleId
+   */
+  static async deleteRole(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      await RoleService.deleteRole(tenantId, req.params.roleId);
+
+      logger.info('Role deleted', {
+        roleId: req.params.roleId,
+        tenantId,
+        deletedBy: req.user?.userId
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'Role deleted successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Delete role failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        roleId: req.params.roleId,
+        tenantId: req.user?.tenantId
+      });
+
+      if (error instanceof RoleError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'ROLE_DELETE_FAILED',
+          message: 'Failed to delete role'
+        }
+      });
+    }
+  }
+}
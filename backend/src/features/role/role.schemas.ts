@@ -0,0 +1,60 @@
+/**
+ * Role Zod Validation Schemas
+ * Input validation for tenant-defined roles
+ *
+ * Following CORE-CRITICAL Rule 12: Validate ALL external data
+ */
+
+import { z } from 'zod';
+import { schemas } from '../../utils/zod.schemas';
+import { STAFF_PERMISSION_KEYS } from '../../config/permissions.config';
+
+const roleNameSchema = z.string()
+  .min(1, 'Role name is required')
+  .max(50, 'Role name must not exceed 50 characters')
+  .trim();
+
+const roleDescriptionSchema = z.string()
+  .max(200, 'Description must not exceed 200 characters')
+  .trim();
+
+const rolePermissionsSchema = z.array(z.enum(STAFF_PERMISSION_KEYS))
+  .max(STAFF_PERMISSION_KEYS.length, 'Too many permissions');
+
+/**
+ * Role ID Params Schema
+ */
+export const roleIdSchema = z.object({
+  params: z.object({
+    roleId: schemas.objectId
+  })
+});
+
+/**
+ * Create Role Schema
+ */
+export const createRoleSchema = z.object({
+  body: z.object({
+    name: roleNameSchema,
+    description: roleDescriptionSchema.optional(),
+    permissions: rolePermissionsSchema
+  })
+});
+
+/**
+ * Update Role Schema
+ */
+export const updateRoleSchema = z.object({
+  params: z.object({
+    roleId: schemas.objectId
+  }),
+  body: z.object({
+    name: roleNameSchema.optional(),
+    description: roleDescriptionSchema.optional(),
+    permissions: rolePermissionsSchema.optional()
+  })
+});
+
+// Type exports
+export type CreateRoleInput = z.infer<typeof createRoleSchema>['body'];
+export type UpdateRoleInput = z.infer<typeof updateRoleSchema>['body'];
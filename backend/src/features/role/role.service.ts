@@ -0,0 +1,218 @@
+/**
+ * Role Service
+ * Tenant-defined roles: named sets of staff permissions
+ *
+ * Team members assigned a role carry a copy of its permissions, so
+ * requirePermission and access tokens work the same for roles and
+ * individually granted permissions. Editing a role rewrites the copies and
+ * invalidates the members' current tokens.
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ * - Rule 12: Validate ALL external data
+ */
+
+import mongoose, { HydratedDocument } from 'mongoose';
+import { Role, IRole } from '../../models/role.model';
+import { TenantTeamMember } from '../../models/tenant-team-member.model';
+import { PERMISSION_CATALOG, PermissionDefinition, StaffPermission } from '../../config/permissions.config';
+import { SecurityUtils } from '../../utils/auth.utils';
+import { ValidationUtils } from '../../utils/validation.utils';
+import PermissionVersionService from '../../services/permission-version.service';
+import logger from '../../utils/logger';
+import { RoleInUseError, RoleNameTakenError, RoleNotFoundError } from './errors/role.errors';
+import { CreateRoleInput, UpdateRoleInput } from './role.schemas';
+
+type RoleDocument = HydratedDocument<IRole>;
+
+const NAME_COLLATION = { locale: 'en', strength: 2 };
+
+/**
+ * Role Response Interface
+ */
+export interface RoleResponse {
+  id: string;
+  name: string;
+  description?: string;
+  permissions: StaffPermission[];
+  memberCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Role Service
+ */
+export class RoleService {
+  /**
+   * Known permission keys with labels for the role editor
+   */
+  static getPermissionCatalog(): PermissionDefinition[] {
+    return PERMISSION_CATALOG;
+  }
+
+  /**
+   * List the tenant's roles with the number of team members holding each
+   */
+  static async listRoles(tenantId: string): Promise<RoleResponse[]> {
+    const validatedTenantId = ValidationUtils.validateObjectId(tenantId, 'Tenant ID');
+
+    const roles = await Role.find({ tenantId: validatedTenantId })
+      .collation(NAME_COLLATION)
+      .sort({ name: 1 });
+
+    const counts = await TenantTeamMember.aggregate<{ _id: IRole['_id']; count: number }>([
+      { $match: { tenantId: new mongoose.Types.ObjectId(validatedTenantId), roleId: { $in: roles.map(role => role._id) }, deletedAt: null } },
+      { $group: { _id: '$roleId', count: { $sum: 1 } } }
+    ]);
+    const countByRole = new Map(counts.map(entry => [entry._id.toString(), entry.count]));
+
+    return roles.map(role => this.toResponse(role, countByRole.get(role._id.toString()) ?? 0));
+  }
+
+  /**
+   * Create a role
+   *
+   * @throws RoleNameTakenError - Another role has the same name
+   */
+  static async createRole(tenantId: string, input: CreateRoleInput): Promise<RoleResponse> {
+    const validatedTenantId = ValidationUtils.validateObjectId(tenantId, 'Tenant ID');
+    const name = SecurityUtils.sanitizeInput(input.name);
+
+    await this.assertNameAvailable(validatedTenantId, name);
+
+    const role = await Role.create({
+      tenantId: validatedTenantId,
+      name,
+      description: input.description ? SecurityUtils.sanitizeInput(input.description) : undefined,
+      permissions: [...new Set(input.permissions)]
+    });
+
+    return this.toResponse(role, 0);
+  }
+
+  /**
+   * Update a role
+   * Permission changes are copied to every team member holding the role
+   *
+   * @throws RoleNotFoundError - Role does not exist in this tenant
+   * @throws RoleNameTakenError - Another role has the new name
+   */
+  static async updateRole(tenantId: string, roleId: string, input: UpdateRoleInput): Promise<RoleResponse> {
+    const role = await this.findRole(tenantId, roleId);
+
+    if (input.name !== undefined) {
+      const name = SecurityUtils.sanitizeInput(input.name);
+      if (name.toLowerCase() !== role.name.toLowerCase()) {
+        await this.assertNameAvailable(role.tenantId.toString(), name);
+      }
+      role.name = name;
+    }
+    if (input.description !== undefined) {
+      role.description = input.description ? SecurityUtils.sanitizeInput(input.description) : undefined;
+    }
+    if (input.permissions) {
+      role.permissions = [...new Set(input.permissions)];
+    }
+
+    const permissionsChanged = role.isModified('permissions');
+    await role.save();
+
+    if (permissionsChanged) {
+      await this.syncMemberPermissions(role);
+    }
+
+    const memberCount = await TenantTeamMember.countDocuments({ tenantId: role.tenantId, roleId: role._id, deletedAt: null });
+
+    return this.toResponse(role, memberCount);
+  }
+
+  /**
+   * Delete a role
+   *
+   * @throws RoleNotFoundError - Role does not exist in this tenant
+   * @throws RoleInUseError - Team members still hold the role
+   */
+  static async deleteRole(tenantId: string, roleId: string): Promise<void> {
+    const role = await this.findRole(tenantId, roleId);
+
+    const memberCount = await TenantTeamMember.countDocuments({ tenantId: role.tenantId, roleId: role._id, deletedAt: null });
+    if (memberCount > 0) {
+      throw new RoleInUseError(memberCount);
+    }
+
+    await Role.deleteOne({ _id: role._id });
+  }
+
+  /**
+   * Load a role of the tenant
+   *
+   * @throws RoleNotFoundError - Role does not exist in this tenant
+   */
+  static async findRole(tenantId: string, roleId: string): Promise<RoleDocument> {
+    const role = await Role.findOne({
+      _id: ValidationUtils.validateObjectId(roleId, 'Role ID'),
+      tenantId: ValidationUtils.validateObjectId(tenantId, 'Tenant ID')
+    });
+
+    if (!role) {
+      throw new RoleNotFoundError(roleId);
+    }
+
+    return role;
+  }
+
+  /**
+   * Helper: Reject a name another role of the tenant already uses
+   */
+  private static async assertNameAvailable(tenantId: string, name: string): Promise<void> {
+    const existing = await Role.findOne({ tenantId, name }).collation(NAME_COLLATION);
+    if (existing) {
+      throw new RoleNameTakenError(name);
+    }
+  }
+
+  /**
+   * Helper: Copy the role's permissions to its members and invalidate their tokens
+   */
+  private static async syncMemberPermissions(role: RoleDocument): Promise<void> {
+    const members = await TenantTeamMember.find({ tenantId: role.tenantId, roleId: role._id, deletedAt: null })
+      .select('_id');
+
+    if (members.length === 0) {
+      return;
+    }
+
+    await TenantTeamMember.updateMany(
+      { _id: { $in: members.map(member => member._id) } },
+      { $set: { permissions: role.permissions } }
+    );
+
+    const versions = PermissionVersionService.getInstance();
+    for (const member of members) {
+      await versions.bumpAccount('team_member', member._id.toString());
+    }
+
+    logger.info('Role permissions applied to team members', {
+      roleId: role._id,
+      tenantId: role.tenantId,
+      memberCount: members.length
+    });
+  }
+
+  /**
+   * Helper: Map a role to its API response
+   */
+  private static toResponse(role: RoleDocument, memberCount: number): RoleResponse {
+    return {
+      id: role._id.toString(),
+      name: role.name,
+      description: role.description,
+      permissions: role.permissions,
+      memberCount,
+      createdAt: role.createdAt,
+      updatedAt: role.updatedAt
+    };
+  }
+}
@@ -9,16 +9,19 @@
 
 /**
  * Base Subscription Plan Error
+ * details carries what the client needs to explain an upgrade (plan, feature, limit)
  */
 export class SubscriptionPlanError extends Error {
   public readonly statusCode: number;
   public readonly code: string;
+  public readonly details?: Record<string, unknown>;
 
-  constructor(message: string, statusCode: number, code: string) {
+  constructor(message: string, statusCode: number, code: string, details?: Record<string, unknown>) {
     super(message);
     this.name = this.constructor.name;
     this.statusCode = statusCode;
     this.code = code;
+    this.details = details;
     Error.captureStackTrace(this, this.constructor);
   }
 }
@@ -49,6 +52,51 @@ export class PlanNotFoundError extends SubscriptionPlanError {
   }
 }
 
+/**
+ * Plan Not Assignable Error (400 Bad Request)
+ * Tenants already on an inactive or archived plan keep it, but no tenant can
+ * be moved onto one
+ */
+export class PlanNotAssignableError extends SubscriptionPlanError {
+  constructor(slug: string, status: string) {
+    super(
+      `Subscription plan '${slug}' is ${status} and cannot be assigned to tenants`,
+      400,
+      'PLAN_NOT_ASSIGNABLE'
+    );
+  }
+}
+
+/**
+ * Feature Not In Plan Error (403 Forbidden)
+ * The tenant's plan does not include the requested feature
+ */
+export class FeatureNotInPlanError extends SubscriptionPlanError {
+  constructor(feature: string, label: string, planSlug: string, planName: string) {
+    super(
+      `${label} is not included in the ${planName} plan`,
+      403,
+      'FEATURE_NOT_IN_PLAN',
+      { feature, plan: planSlug }
+    );
+  }
+}
+
+/**
+ * Plan Limit Exceeded Error (403 Forbidden)
+ * The tenant has used up a limit of its plan
+ */
+export class PlanLimitExceededError extends SubscriptionPlanError {
+  constructor(limit: string, label: string, max: number, planSlug: string, planName: string) {
+    super(
+      `The ${planName} plan allows ${max} ${label}`,
+      403,
+      'PLAN_LIMIT_EXCEEDED',
+      { limit, max, plan: planSlug }
+    );
+  }
+}
+
 /**
  * Plan In Use Error (400 Bad Request)
  */
@@ -13,9 +13,12 @@ import { Tenant } from '../../models/tenant.model';
 import { SecurityUtils } from '../../utils/auth.utils';
 import { ValidationUtils } from '../../utils/validation.utils';
 import { HydratedDocument } from 'mongoose';
+import { DEFAULT_PLAN_SLUG, DEFAULT_SUBSCRIPTION_PLANS } from '../../config/subscription-plans.config';
 import {
   PlanAlreadyExistsError,
   PlanInUseError,
+  PlanNotAssignableError,
+  PlanNotFoundError,
   UnauthorizedPlanOperationError
 } from './errors/subscription-plan.errors';
 
@@ -196,13 +199,13 @@ export class SubscriptionPlanService {
     // Get tenant counts for each plan
     const tenantCounts = await Tenant.aggregate([
       { $match: { deletedAt: null } },
-      { $group: { _id: '$plan', count: { $sum: 1 } } }
+      { $group: { _id: '$planId', count: { $sum: 1 } } }
     ]);
 
     // Create lookup map for O(1) access
     const tenantCountMap = new Map(
-      tenantCounts.map((item: { _id: string; count: number }) => [
-        item._id,
+      tenantCounts.map((item: { _id: unknown; count: number }) => [
+        String(item._id),
         item.count
       ])
     );
@@ -219,7 +222,7 @@ export class SubscriptionPlanService {
       isPopular: plan.isPopular,
       sortOrder: plan.sortOrder,
       trialDays: plan.trialDays,
-      tenantsUsingPlan: tenantCountMap.get(plan.slug) || 0,
+      tenantsUsingPlan: tenantCountMap.get(plan._id.toString()) || 0,
       monthlyPriceFormatted: this.formatPrice(plan.pricing.monthly, plan.pricing.currency),
       yearlyPriceFormatted: this.formatPrice(plan.pricing.yearly, plan.pricing.currency),
       createdAt: plan.createdAt,
@@ -267,12 +270,12 @@ export class SubscriptionPlanService {
 
     const tenantCounts = await Tenant.aggregate([
       { $match: { deletedAt: null } },
-      { $group: { _id: '$plan', count: { $sum: 1 } } }
+      { $group: { _id: '$planId', count: { $sum: 1 } } }
     ]);
 
     const tenantCountMap = new Map(
-      tenantCounts.map((item: { _id: string; count: number }) => [
-        item._id,
+      tenantCounts.map((item: { _id: unknown; count: number }) => [
+        String(item._id),
         item.count
       ])
     );
@@ -289,7 +292,7 @@ export class SubscriptionPlanService {
       isPopular: plan.isPopular,
       sortOrder: plan.sortOrder,
       trialDays: plan.trialDays,
-      tenantsUsingPlan: tenantCountMap.get(plan.slug) || 0,
+      tenantsUsingPlan: tenantCountMap.get(plan._id.toString()) || 0,
       monthlyPriceFormatted: this.formatPrice(plan.pricing.monthly, plan.pricing.currency),
       yearlyPriceFormatted: this.formatPrice(plan.pricing.yearly, plan.pricing.currency),
       createdAt: plan.createdAt,
@@ -323,7 +326,7 @@ export class SubscriptionPlanService {
     }
 
     const tenantCount = await Tenant.countDocuments({
-      plan: plan.slug,
+      planId: plan._id,
       deletedAt: null
     });
 
@@ -358,7 +361,7 @@ export class SubscriptionPlanService {
     }
 
     const tenantCount = await Tenant.countDocuments({
-      plan: plan.slug,
+      planId: plan._id,
       deletedAt: null
     });
 
@@ -558,7 +561,7 @@ export class SubscriptionPlanService {
     await plan.save();
 
     const tenantCount = await Tenant.countDocuments({
-      plan: plan.slug,
+      planId: plan._id,
       deletedAt: null
     });
 
@@ -636,7 +639,7 @@ export class SubscriptionPlanService {
 
       // Check tenant count within transaction
       const tenantCount = await Tenant.countDocuments(
-        { plan: plan.slug, deletedAt: null },
+        { planId: plan._id, deletedAt: null },
         { session }
       );
 
@@ -709,7 +712,7 @@ export class SubscriptionPlanService {
     await plan.save();
 
     const tenantCount = await Tenant.countDocuments({
-      plan: plan.slug,
+      planId: plan._id,
       deletedAt: null
     });
 
@@ -770,6 +773,46 @@ export class SubscriptionPlanService {
     return true;
   }
 
+  /**
+   * Get the plan a tenant can be put on
+   * Without a plan ID the default plan is used
+   *
+   * @throws PlanNotFoundError - Plan missing or deleted
+   * @throws PlanNotAssignableError - Plan inactive or archived
+   */
+  static async getAssignablePlan(planId?: string): Promise<HydratedDocument<ISubscriptionPlan>> {
+    const plan = planId
+      ? await SubscriptionPlan.findOne({ _id: ValidationUtils.validateObjectId(planId, 'Plan ID'), deletedAt: null })
+      : await SubscriptionPlan.findBySlug(DEFAULT_PLAN_SLUG);
+
+    if (!plan) {
+      throw new PlanNotFoundError(planId ?? DEFAULT_PLAN_SLUG);
+    }
+    if (plan.status !== 'active') {
+      throw new PlanNotAssignableError(plan.slug, plan.status);
+    }
+
+    return plan as HydratedDocument<ISubscriptionPlan>;
+  }
+
+  /**
+   * Create the default plans that do not exist yet
+   * Existing plans with the same slug are left as the super admin configured them
+   *
+   * @returns Default plans keyed by slug
+   */
+  static async seedDefaultPlans(): Promise<Map<string, HydratedDocument<ISubscriptionPlan>>> {
+    const plans = new Map<string, HydratedDocument<ISubscriptionPlan>>();
+
+    for (const seed of DEFAULT_SUBSCRIPTION_PLANS) {
+      const existing = await SubscriptionPlan.findBySlug(seed.slug);
+      const plan = existing ?? await SubscriptionPlan.create({ ...seed, status: 'active' });
+      plans.set(seed.slug, plan as HydratedDocument<ISubscriptionPlan>);
+    }
+
+    return plans;
+  }
+
   /**
    * Helper: Format price
    */
@@ -10,6 +10,8 @@
 
 import { Request, Response } from 'express';
 import { SuperAdminService } from './super-admin.service';
+import { PasswordPolicyError } from '../auth/types/errors.types';
+import { SubscriptionPlanError } from '../subscription-plan/errors/subscription-plan.errors';
 import { ValidationUtils } from '../../utils/validation.utils';
 import logger from '../../utils/logger';
 
@@ -66,7 +68,9 @@ export class SuperAdminController {
         success: true,
         data: {
           tenant,
-          message: 'Tenant created successfully'
+          message: tenant.adminAwaitingConfirmation
+            ? 'Tenant created. The admin email already has a password on the portal; the admin can sign in once they confirm from the email we sent'
+            : 'Tenant created successfully'
         }
       });
     } catch (error) {
@@ -76,6 +80,29 @@ export class SuperAdminController {
         tenantData: req.body.name
       });
 
+      if (error instanceof PasswordPolicyError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
+      if (error instanceof SubscriptionPlanError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
       const statusCode = error instanceof Error && error.message.includes('exists') ? 409 : 500;
 
       res.status(statusCode).json({
@@ -168,6 +195,17 @@ export class SuperAdminController {
         userId: req.user?.userId
       });
 
+      if (error instanceof SubscriptionPlanError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         error: {
@@ -24,7 +24,7 @@ export const createTenantSchema = z.object({
       .regex(/^[a-z0-9-]+$/, 'Subdomain must contain only lowercase letters, numbers, and hyphens')
       .optional(),
     adminEmail: schemas.secureEmail,
-    adminPassword: schemas.strongPassword,
+    adminPassword: schemas.strongPassword.optional(), // omitted for an email that already has a password on the portal
     adminFirstName: z.string()
       .min(1, 'First name is required')
       .max(50, 'First name must not exceed 50 characters')
@@ -33,25 +33,7 @@ export const createTenantSchema = z.object({
       .min(1, 'Last name is required')
       .max(50, 'Last name must not exceed 50 characters')
       .trim(),
-    plan: z.enum(['free', 'basic', 'premium', 'enterprise']).default('basic'),
-    maxTeamMembers: z.number()
-      .int('Must be an integer')
-      .min(1, 'Must allow at least 1 team member')
-      .max(100, 'Cannot exceed 100 team members')
-      .default(5),
-    maxClients: z.number()
-      .int('Must be an integer')
-      .min(1, 'Must allow at least 1 client')
-      .max(10000, 'Cannot exceed 10,000 clients')
-      .default(100),
-    features: z.object({
-      visitorVisa: z.boolean().default(true),
-      studyVisa: z.boolean().default(true),
-      workPermit: z.boolean().default(true),
-      permanentResidence: z.boolean().default(true),
-      familySponsorship: z.boolean().default(true),
-      businessImmigration: z.boolean().default(false)
-    }).optional(),
+    planId: schemas.objectId.optional(), // default plan when omitted
     metadata: z.object({
       rcicNumber: z.string().max(50).optional(),
       businessAddress: z.string().max(200).optional(),
@@ -82,7 +64,7 @@ export const updateTenantSchema = z.object({
       .regex(/^[a-z0-9-]+$/, 'Subdomain must contain only lowercase letters, numbers, and hyphens')
       .optional(),
     status: z.enum(['active', 'inactive', 'suspended']).optional(),
-    plan: z.enum(['free', 'basic', 'premium', 'enterprise']).optional(),
+    planId: schemas.objectId.optional(),
     adminFirstName: z.string()
       .min(1, 'First name is required')
       .max(50, 'First name must not exceed 50 characters')
@@ -93,24 +75,6 @@ export const updateTenantSchema = z.object({
       .max(50, 'Last name must not exceed 50 characters')
       .trim()
       .optional(),
-    maxTeamMembers: z.number()
-      .int('Must be an integer')
-      .min(1, 'Must allow at least 1 team member')
-      .max(100, 'Cannot exceed 100 team members')
-      .optional(),
-    maxClients: z.number()
-      .int('Must be an integer')
-      .min(1, 'Must allow at least 1 client')
-      .max(10000, 'Cannot exceed 10,000 clients')
-      .optional(),
-    features: z.object({
-      visitorVisa: z.boolean().optional(),
-      studyVisa: z.boolean().optional(),
-      workPermit: z.boolean().optional(),
-      permanentResidence: z.boolean().optional(),
-      familySponsorship: z.boolean().optional(),
-      businessImmigration: z.boolean().optional()
-    }).optional(),
     metadata: z.object({
       rcicNumber: z.string().max(50).optional(),
       businessAddress: z.string().max(200).optional(),
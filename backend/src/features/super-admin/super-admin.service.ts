@@ -8,14 +8,19 @@
  * - Rule 12: Validate ALL external data
  */
 
-import bcrypt from 'bcryptjs';
 import { Tenant, ITenant } from '../../models/tenant.model';
+import { TenantAdmin, ITenantAdmin } from '../../models/tenant-admin.model';
 import { TenantTeamMember } from '../../models/tenant-team-member.model';
 import { User } from '../../models/user.model';
-import { config } from '../../config/env.config';
+import { SubscriptionPlan, ISubscriptionPlan } from '../../models/subscription-plan.model';
 import { HydratedDocument } from 'mongoose';
 import { SecurityUtils } from '../../utils/auth.utils';
 import { ValidationUtils } from '../../utils/validation.utils';
+import logger from '../../utils/logger';
+import PermissionVersionService from '../../services/permission-version.service';
+import { AccountTokenService } from '../auth/account-token.service';
+import { IdentityService } from '../auth/identity.service';
+import { SubscriptionPlanService } from '../subscription-plan/subscription-plan.service';
 
 /**
  * Create Tenant Input Interface
@@ -25,20 +30,10 @@ export interface CreateTenantInput {
   domain: string;
   subdomain?: string;
   adminEmail: string;
-  adminPassword: string;
+  adminPassword?: string;
   adminFirstName: string;
   adminLastName: string;
-  plan?: 'free' | 'basic' | 'premium' | 'enterprise';
-  maxTeamMembers?: number;
-  maxClients?: number;
-  features?: {
-    visitorVisa?: boolean;
-    studyVisa?: boolean;
-    workPermit?: boolean;
-    permanentResidence?: boolean;
-    familySponsorship?: boolean;
-    businessImmigration?: boolean;
-  };
+  planId?: string; // default plan when omitted
   metadata?: {
     rcicNumber?: string;
     businessAddress?: string;
@@ -54,19 +49,9 @@ export interface UpdateTenantInput {
   domain?: string;
   subdomain?: string;
   status?: 'active' | 'inactive' | 'suspended';
-  plan?: 'free' | 'basic' | 'premium' | 'enterprise';
+  planId?: string;
   adminFirstName?: string;
   adminLastName?: string;
-  maxTeamMembers?: number;
-  maxClients?: number;
-  features?: {
-    visitorVisa?: boolean;
-    studyVisa?: boolean;
-    workPermit?: boolean;
-    permanentResidence?: boolean;
-    familySponsorship?: boolean;
-    businessImmigration?: boolean;
-  };
   metadata?: {
     rcicNumber?: string;
     businessAddress?: string;
@@ -76,6 +61,8 @@ export interface UpdateTenantInput {
 
 /**
  * Tenant Response Interface
+ * The admin fields describe the tenant's owner; limits and features come
+ * from the tenant's subscription plan
  */
 export interface TenantResponse {
   id: string;
@@ -83,23 +70,21 @@ export interface TenantResponse {
   domain: string;
   subdomain?: string;
   status: string;
-  plan: string;
+  planId?: string;
+  plan: string; // plan slug
+  planName: string;
+  adminId?: string;
   adminEmail: string;
   adminFirstName: string;
   adminLastName: string;
   adminLastLogin?: Date;
+  adminAwaitingConfirmation?: boolean; // returned on creation for an email that already has an identity
   maxTeamMembers: number;
   maxClients: number;
+  maxStorage: number; // in MB
   currentTeamMembers: number;
   currentClients: number;
-  features: {
-    visitorVisa: boolean;
-    studyVisa: boolean;
-    workPermit: boolean;
-    permanentResidence: boolean;
-    familySponsorship: boolean;
-    businessImmigration: boolean;
-  };
+  features: Partial<ISubscriptionPlan['features']>;
   metadata?: {
     rcicNumber?: string;
     businessAddress?: string;
@@ -150,6 +135,11 @@ export class SuperAdminService {
       ])
     );
 
+    const [owners, plans] = await Promise.all([
+      this.findOwners(tenants.map(tenant => tenant._id)),
+      this.findPlans(tenants.map(tenant => tenant.planId))
+    ]);
+
     // Map results with counts from lookup maps
     return tenants.map(tenant => ({
       id: tenant._id.toString(),
@@ -157,16 +147,10 @@ export class SuperAdminService {
       domain: tenant.domain,
       subdomain: tenant.subdomain,
       status: tenant.status,
-      plan: tenant.plan,
-      adminEmail: tenant.adminEmail,
-      adminFirstName: tenant.adminFirstName,
-      adminLastName: tenant.adminLastName,
-      adminLastLogin: tenant.adminLastLogin,
-      maxTeamMembers: tenant.settings.maxTeamMembers,
-      maxClients: tenant.settings.maxClients,
+      ...this.toPlanFields(plans.get(String(tenant.planId))),
+      ...this.toOwnerFields(owners.get(tenant._id.toString())),
       currentTeamMembers: teamCountMap.get(tenant._id.toString()) || 0,
       currentClients: clientCountMap.get(tenant._id.toString()) || 0,
-      features: tenant.subscription.features,
       metadata: tenant.metadata,
       createdAt: tenant.createdAt,
       updatedAt: tenant.updatedAt
@@ -186,7 +170,7 @@ export class SuperAdminService {
     }
 
     // PERFORMANCE FIX: Execute count queries in parallel
-    const [teamMemberCount, clientCount] = await Promise.all([
+    const [teamMemberCount, clientCount, owners, plans] = await Promise.all([
       TenantTeamMember.countDocuments({
         tenantId: tenant._id,
         deletedAt: null
@@ -194,7 +178,9 @@ export class SuperAdminService {
       User.countDocuments({
         tenantId: tenant._id,
         deletedAt: null
-      })
+      }),
+      this.findOwners([tenant._id]),
+      this.findPlans([tenant.planId])
     ]);
 
     return {
@@ -203,16 +189,10 @@ export class SuperAdminService {
       domain: tenant.domain,
       subdomain: tenant.subdomain,
       status: tenant.status,
-      plan: tenant.plan,
-      adminEmail: tenant.adminEmail,
-      adminFirstName: tenant.adminFirstName,
-      adminLastName: tenant.adminLastName,
-      adminLastLogin: tenant.adminLastLogin,
-      maxTeamMembers: tenant.settings.maxTeamMembers,
-      maxClients: tenant.settings.maxClients,
+      ...this.toPlanFields(plans.get(String(tenant.planId))),
+      ...this.toOwnerFields(owners.get(tenant._id.toString())),
       currentTeamMembers: teamMemberCount,
       currentClients: clientCount,
-      features: tenant.subscription.features,
       metadata: tenant.metadata,
       createdAt: tenant.createdAt,
       updatedAt: tenant.updatedAt
@@ -223,22 +203,14 @@ export class SuperAdminService {
    * Create new tenant
    */
   static async createTenant(input: CreateTenantInput): Promise<TenantResponse> {
-    // Check if tenant with domain already exists
+    // Check if tenant with domain already exists; one person may administer several tenants
     const existingTenant = await Tenant.findOne({
-      $or: [
-        { domain: input.domain },
-        { adminEmail: input.adminEmail.toLowerCase() }
-      ],
+      domain: input.domain,
       deletedAt: null
     });
 
     if (existingTenant) {
-      if (existingTenant.domain === input.domain) {
-        throw new Error('Tenant with this domain already exists');
-      }
-      if (existingTenant.adminEmail === input.adminEmail.toLowerCase()) {
-        throw new Error('Tenant with this admin email already exists');
-      }
+      throw new Error('Tenant with this domain already exists');
     }
 
     // SECURITY FIX: Sanitize all string inputs
@@ -248,8 +220,10 @@ export class SuperAdminService {
     const sanitizedAdminFirstName = SecurityUtils.sanitizeInput(input.adminFirstName);
     const sanitizedAdminLastName = SecurityUtils.sanitizeInput(input.adminLastName);
 
-    // Hash admin password
-    const hashedPassword = await bcrypt.hash(input.adminPassword, config.BCRYPT_SALT_ROUNDS);
+    // A new tenant starts with the default security policy
+    await IdentityService.validateNewCredentials(input.adminEmail, input.adminPassword);
+
+    const plan = await SubscriptionPlanService.getAssignablePlan(input.planId);
 
     // Create tenant
     const tenant: HydratedDocument<ITenant> = await Tenant.create({
@@ -257,51 +231,51 @@ export class SuperAdminService {
       domain: sanitizedDomain,
       subdomain: sanitizedSubdomain,
       status: 'active',
-      plan: input.plan || 'basic',
-      adminEmail: input.adminEmail.toLowerCase(),
-      adminPassword: hashedPassword,
-      adminFirstName: sanitizedAdminFirstName,
-      adminLastName: sanitizedAdminLastName,
+      planId: plan._id,
       settings: {
-        maxTeamMembers: input.maxTeamMembers || 5,
-        maxClients: input.maxClients || 100,
-        maxStorage: 1024, // 1GB default
-        features: [],
         allowSelfRegistration: false,
         requireEmailVerification: true,
         branding: {}
       },
-      subscription: {
-        plan: input.plan || 'basic',
-        maxTeamMembers: input.maxTeamMembers || 5,
-        maxClients: input.maxClients || 100,
-        features: {
-          visitorVisa: input.features?.visitorVisa ?? true,
-          studyVisa: input.features?.studyVisa ?? true,
-          workPermit: input.features?.workPermit ?? true,
-          permanentResidence: input.features?.permanentResidence ?? true,
-          familySponsorship: input.features?.familySponsorship ?? true,
-          businessImmigration: input.features?.businessImmigration ?? false
-        }
-      },
       metadata: input.metadata || {}
     });
 
+    // The first admin owns the tenant and can invite others
+    const owner = await TenantAdmin.create({
+      tenantId: tenant._id,
+      email: input.adminEmail.toLowerCase(),
+      firstName: sanitizedAdminFirstName,
+      lastName: sanitizedAdminLastName,
+      isOwner: true
+    });
+
+    // An email already known to the platform keeps its existing password once its holder confirms
+    const linkResult = await IdentityService.linkPrincipal(owner.email, input.adminPassword, {
+      principalType: 'tenant_admin',
+      principalId: owner._id.toString(),
+      tenantId: tenant._id.toString()
+    });
+    const adminAwaitingConfirmation = linkResult === 'pending_confirmation';
+
+    // Delivery failures are logged; the admin can request a new link after signing in
+    AccountTokenService.sendEmailVerification('tenant_admin', owner._id.toString(), adminAwaitingConfirmation).catch(error => {
+      logger.error('Tenant admin verification email failed', {
+        tenantId: tenant._id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+
     return {
       id: tenant._id.toString(),
       name: tenant.name,
       domain: tenant.domain,
       subdomain: tenant.subdomain,
       status: tenant.status,
-      plan: tenant.plan,
-      adminEmail: tenant.adminEmail,
-      adminFirstName: tenant.adminFirstName,
-      adminLastName: tenant.adminLastName,
-      maxTeamMembers: tenant.settings.maxTeamMembers,
-      maxClients: tenant.settings.maxClients,
+      ...this.toPlanFields(plan),
+      ...this.toOwnerFields(owner),
+      adminAwaitingConfirmation,
       currentTeamMembers: 0,
       currentClients: 0,
-      features: tenant.subscription.features,
       metadata: tenant.metadata,
       createdAt: tenant.createdAt,
       updatedAt: tenant.updatedAt
@@ -329,29 +303,11 @@ export class SuperAdminService {
       tenant.subdomain = input.subdomain ? SecurityUtils.sanitizeInput(input.subdomain.toLowerCase()) : undefined;
     }
     if (input.status) tenant.status = input.status;
-    if (input.plan) {
-      tenant.plan = input.plan;
-      tenant.subscription.plan = input.plan;
-    }
-    if (input.adminFirstName) tenant.adminFirstName = SecurityUtils.sanitizeInput(input.adminFirstName);
-    if (input.adminLastName) tenant.adminLastName = SecurityUtils.sanitizeInput(input.adminLastName);
-
-    // Update settings
-    if (input.maxTeamMembers !== undefined) {
-      tenant.settings.maxTeamMembers = input.maxTeamMembers;
-      tenant.subscription.maxTeamMembers = input.maxTeamMembers;
-    }
-    if (input.maxClients !== undefined) {
-      tenant.settings.maxClients = input.maxClients;
-      tenant.subscription.maxClients = input.maxClients;
-    }
 
-    // Update features
-    if (input.features) {
-      tenant.subscription.features = {
-        ...tenant.subscription.features,
-        ...input.features
-      };
+    // Moving to another plan changes the tenant's limits and features at once
+    if (input.planId && input.planId !== tenant.planId?.toString()) {
+      const plan = await SubscriptionPlanService.getAssignablePlan(input.planId);
+      tenant.planId = plan._id;
     }
 
     // Update metadata
@@ -362,8 +318,22 @@ export class SuperAdminService {
       };
     }
 
+    const statusChanged = tenant.isModified('status');
     await tenant.save();
 
+    const owners = await this.findOwners([tenant._id]);
+    const owner = owners.get(tenant._id.toString());
+    if (owner && (input.adminFirstName || input.adminLastName)) {
+      if (input.adminFirstName) owner.firstName = SecurityUtils.sanitizeInput(input.adminFirstName);
+      if (input.adminLastName) owner.lastName = SecurityUtils.sanitizeInput(input.adminLastName);
+      await owner.save();
+    }
+
+    // Sessions of everyone in the tenant must pick up the new status
+    if (statusChanged) {
+      await PermissionVersionService.getInstance().bumpTenant(tenant._id.toString());
+    }
+
     const teamMemberCount = await TenantTeamMember.countDocuments({
       tenantId: tenant._id,
       deletedAt: null
@@ -374,22 +344,18 @@ export class SuperAdminService {
       deletedAt: null
     });
 
+    const plans = await this.findPlans([tenant.planId]);
+
     return {
       id: tenant._id.toString(),
       name: tenant.name,
       domain: tenant.domain,
       subdomain: tenant.subdomain,
       status: tenant.status,
-      plan: tenant.plan,
-      adminEmail: tenant.adminEmail,
-      adminFirstName: tenant.adminFirstName,
-      adminLastName: tenant.adminLastName,
-      adminLastLogin: tenant.adminLastLogin,
-      maxTeamMembers: tenant.settings.maxTeamMembers,
-      maxClients: tenant.settings.maxClients,
+      ...this.toPlanFields(plans.get(String(tenant.planId))),
+      ...this.toOwnerFields(owner),
       currentTeamMembers: teamMemberCount,
       currentClients: clientCount,
-      features: tenant.subscription.features,
       metadata: tenant.metadata,
       createdAt: tenant.createdAt,
       updatedAt: tenant.updatedAt
@@ -425,9 +391,16 @@ export class SuperAdminService {
       );
     }
 
-    // Soft delete the tenant
+    // Soft delete the tenant and its admins
     tenant.deletedAt = new Date();
     await tenant.save();
+    await PermissionVersionService.getInstance().bumpTenant(tenant._id.toString());
+
+    const admins = await TenantAdmin.find({ tenantId: tenant._id, deletedAt: null }).select('_id');
+    await TenantAdmin.updateMany({ tenantId: tenant._id, deletedAt: null }, { $set: { deletedAt: tenant.deletedAt } });
+    for (const admin of admins) {
+      await IdentityService.unlinkPrincipal('tenant_admin', admin._id.toString());
+    }
 
     return true;
   }
@@ -449,12 +422,15 @@ export class SuperAdminService {
 
     const tenantsByPlan = await Tenant.aggregate([
       { $match: { deletedAt: null } },
-      { $group: { _id: '$plan', count: { $sum: 1 } } }
+      { $group: { _id: '$planId', count: { $sum: 1 } } }
     ]);
 
+    // Counts are reported by plan slug
+    const plans = await this.findPlans(tenantsByPlan.map((item: { _id: unknown }) => item._id));
     const planCounts: Record<string, number> = {};
-    tenantsByPlan.forEach((item: { _id: string; count: number }) => {
-      planCounts[item._id] = item.count;
+    tenantsByPlan.forEach((item: { _id: unknown; count: number }) => {
+      const slug = plans.get(String(item._id))?.slug ?? 'unassigned';
+      planCounts[slug] = (planCounts[slug] || 0) + item.count;
     });
 
     return {
@@ -488,4 +464,50 @@ export class SuperAdminService {
       uptime: process.uptime()
     };
   }
+
+  /**
+   * Helper: Owners of the given tenants, keyed by tenant ID
+   */
+  private static async findOwners(tenantIds: unknown[]): Promise<Map<string, HydratedDocument<ITenantAdmin>>> {
+    const owners = await TenantAdmin.find({ tenantId: { $in: tenantIds }, isOwner: true, deletedAt: null });
+    return new Map(owners.map(owner => [owner.tenantId.toString(), owner]));
+  }
+
+  /**
+   * Helper: Subscription plans of the given tenants, keyed by plan ID
+   */
+  private static async findPlans(planIds: unknown[]): Promise<Map<string, HydratedDocument<ISubscriptionPlan>>> {
+    const plans = await SubscriptionPlan.find({ _id: { $in: planIds.filter(Boolean) } });
+    return new Map(plans.map(plan => [plan._id.toString(), plan]));
+  }
+
+  /**
+   * Helper: Plan, limit and feature fields of a tenant response
+   * Empty for tenants not yet migrated to plan documents
+   */
+  private static toPlanFields(plan?: HydratedDocument<ISubscriptionPlan>): Pick<TenantResponse, 'planId' | 'plan' | 'planName' | 'maxTeamMembers' | 'maxClients' | 'maxStorage' | 'features'> {
+    return {
+      planId: plan?._id.toString(),
+      plan: plan?.slug ?? '',
+      planName: plan?.name ?? '',
+      maxTeamMembers: plan?.limits.maxTeamMembers ?? 0,
+      maxClients: plan?.limits.maxClients ?? 0,
+      maxStorage: plan?.limits.maxStorage ?? 0,
+      features: plan?.features ?? {}
+    };
+  }
+
+  /**
+   * Helper: Owner contact fields of a tenant response
+   * Empty for tenants whose admin has not been migrated yet
+   */
+  private static toOwnerFields(owner?: HydratedDocument<ITenantAdmin>): Pick<TenantResponse, 'adminId' | 'adminEmail' | 'adminFirstName' | 'adminLastName' | 'adminLastLogin'> {
+    return {
+      adminId: owner?._id.toString(),
+      adminEmail: owner?.email ?? '',
+      adminFirstName: owner?.firstName ?? '',
+      adminLastName: owner?.lastName ?? '',
+      adminLastLogin: owner?.lastLogin
+    };
+  }
 }
@@ -0,0 +1,79 @@
+/**
+ * Task Custom Error Classes
+ * Provides type-safe error handling with proper HTTP status codes
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Better error handling with custom error types
+ */
+
+/**
+ * Base Task Error
+ */
+export class TaskError extends Error {
+  public readonly statusCode: number;
+  public readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Task Not Found Error (404 Not Found)
+ * Also used when the task is neither assigned to nor created by the caller
+ */
+export class TaskNotFoundError extends TaskError {
+  constructor(taskId: string) {
+    super(
+      `Task with ID '${taskId}' not found`,
+      404,
+      'TASK_NOT_FOUND'
+    );
+  }
+}
+
+/**
+ * Task Assignee Not Found Error (400 Bad Request)
+ * Raised when the assignee is not an active team member of the tenant
+ */
+export class TaskAssigneeNotFoundError extends TaskError {
+  constructor(teamMemberId: string) {
+    super(
+      `Team member with ID '${teamMemberId}' not found`,
+      400,
+      'TASK_ASSIGNEE_NOT_FOUND'
+    );
+  }
+}
+
+/**
+ * Task Client Not Found Error (400 Bad Request)
+ */
+export class TaskClientNotFoundError extends TaskError {
+  constructor(clientId: string) {
+    super(
+      `Client with ID '${clientId}' not found`,
+      400,
+      'TASK_CLIENT_NOT_FOUND'
+    );
+  }
+}
+
+/**
+ * Task Application Not Found Error (400 Bad Request)
+ * Raised when the application does not exist or belongs to another client
+ */
+export class TaskApplicationNotFoundError extends TaskError {
+  constructor(applicationId: string) {
+    super(
+      `Application with ID '${applicationId}' not found`,
+      400,
+      'TASK_APPLICATION_NOT_FOUND'
+    );
+  }
+}
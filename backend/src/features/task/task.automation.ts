@@ -0,0 +1,65 @@
+/**
+ * Task Automation Rules
+ * Follow-up tasks created when an application enters a status
+ *
+ * Each rule produces one task for the team member assigned to the
+ * application. Statuses without a rule create no task.
+ */
+
+import { ApplicationStatus, ApplicationPriority } from '../../models/application.model';
+
+/**
+ * Status Task Rule Interface
+ */
+export interface StatusTaskRule {
+  title: string; // '{type}' is replaced with the readable application type
+  description: string;
+  dueInDays: number;
+  priority?: ApplicationPriority; // defaults to the application's priority
+}
+
+export const STATUS_TASK_RULES: Partial<Record<ApplicationStatus, StatusTaskRule>> = {
+  submitted: {
+    title: 'Review submitted {type} application',
+    description: 'The client submitted the application. Check the documents and start the review.',
+    dueInDays: 2
+  },
+  in_review: {
+    title: 'Complete review of {type} application',
+    description: 'Finish the review and move the application to processing or back to the client.',
+    dueInDays: 5
+  },
+  in_progress: {
+    title: 'Prepare {type} application for filing',
+    description: 'Assemble the final package and file the application.',
+    dueInDays: 7
+  },
+  draft: {
+    title: 'Follow up on returned {type} application',
+    description: 'The application was returned to the client for changes. Confirm what is missing.',
+    dueInDays: 3
+  },
+  approved: {
+    title: 'Notify client of approved {type} application',
+    description: 'Share the decision and next steps with the client.',
+    dueInDays: 1,
+    priority: 'high'
+  },
+  rejected: {
+    title: 'Discuss refused {type} application with client',
+    description: 'Explain the refusal and review options such as reconsideration or a new application.',
+    dueInDays: 2,
+    priority: 'high'
+  }
+};
+
+/**
+ * Get the task rule for a status the application just entered
+ * A newly created draft is the client's own work and needs no follow-up
+ */
+export function getStatusTaskRule(from: ApplicationStatus | null, to: ApplicationStatus): StatusTaskRule | undefined {
+  if (from === null && to === 'draft') {
+    return undefined;
+  }
+  return STATUS_TASK_RULES[to];
+}
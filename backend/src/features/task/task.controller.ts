@@ -0,0 +1,354 @@
+/**
+ * Task Controller
+ * Handles team member task management
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 1: No console.log (using logger)
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ */
+
+import { Request, Response } from 'express';
+import { TaskService } from './task.service';
+import { TaskError } from './errors/task.errors';
+import { GetTasksQuery, CreateTaskBody, UpdateTaskBody } from './task.schemas';
+import logger from '../../utils/logger';
+
+/**
+ * Task Controller
+ */
+export class TaskController {
+  /**
+   * List my tasks
+   * GET /api/v1/team-member/tasks
+   */
+  static async getTasks(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const result = await TaskService.getTasks(tenantId, userId, req.query as unknown as GetTasksQuery);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...result,
+          message: 'Tasks retrieved successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Get tasks failed', {
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      if (error instanceof TaskError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'TASKS_RETRIEVAL_FAILED',
+          message: 'Failed to retrieve tasks'
+        }
+      });
+    }
+  }
+
+  /**
+   * List my overdue tasks
+   * GET /api/v1/team-member/tasks/overdue
+   */
+  static async getOverdueTasks(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const tasks = await TaskService.getOverdueTasks(tenantId, userId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          tasks,
+          count: tasks.length,
+          message: 'Overdue tasks retrieved successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Get overdue tasks failed', {
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'TASKS_RETRIEVAL_FAILED',
+          message: 'Failed to retrieve overdue tasks'
+        }
+      });
+    }
+  }
+
+  /**
+   * Get a task
+   * GET /api/v1/team-member/tasks/:id
+   */
+  static async getTask(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const task = await TaskService.getTask(tenantId, userId, req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          task,
+          message: 'Task retrieved successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Get task failed', {
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        taskId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      if (error instanceof TaskError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'TASK_RETRIEVAL_FAILED',
+          message: 'Failed to retrieve task'
+        }
+      });
+    }
+  }
+
+  /**
+   * Create a task
+   * POST /api/v1/team-member/tasks
+   */
+  static async createTask(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const task = await TaskService.createTask(tenantId, userId, req.body as CreateTaskBody);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          task,
+          message: 'Task created successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Create task failed', {
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      if (error instanceof TaskError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'TASK_CREATION_FAILED',
+          message: 'Failed to create task'
+        }
+      });
+    }
+  }
+
+  /**
+   * Update a task
+   * PUT /api/v1/team-member/tasks/:id
+   */
+  static async updateTask(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const task = await TaskService.updateTask(tenantId, userId, req.params.id, req.body as UpdateTaskBody);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          task,
+          message: 'Task updated successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Update task failed', {
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        taskId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      if (error instanceof TaskError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'TASK_UPDATE_FAILED',
+          message: 'Failed to update task'
+        }
+      });
+    }
+  }
+
+  /**
+   * Delete a task
+   * DELETE /api/v1/team-member/tasks/:id
+   */
+  static async deleteTask(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      await TaskService.deleteTask(tenantId, userId, req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'Task deleted successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Delete task failed', {
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        taskId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      if (error instanceof TaskError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'TASK_DELETION_FAILED',
+          message: 'Failed to delete task'
+        }
+      });
+    }
+  }
+}
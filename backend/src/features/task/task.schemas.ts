@@ -0,0 +1,76 @@
+/**
+ * Task Zod Validation Schemas
+ * Input validation for team member tasks
+ *
+ * Following CORE-CRITICAL Rule 12: Validate ALL external data
+ */
+
+import { z } from 'zod';
+import { schemas, commonSchemas } from '../../utils/zod.schemas';
+import { APPLICATION_PRIORITIES } from '../../models/application.model';
+import { TASK_STATUSES } from '../../models/task.model';
+
+/**
+ * Get Tasks Schema (with pagination and filters)
+ */
+export const getTasksSchema = z.object({
+  query: z.object({
+    scope: z.enum(['assigned', 'created', 'all']).default('assigned'),
+    status: z.enum(TASK_STATUSES).optional(),
+    priority: z.enum(APPLICATION_PRIORITIES).optional(),
+    clientId: schemas.objectId.optional(),
+    applicationId: schemas.objectId.optional(),
+    overdue: commonSchemas.booleanString.optional(),
+    page: commonSchemas.page,
+    limit: z.coerce.number().int().positive().max(100).default(20)
+  })
+});
+
+/**
+ * Task ID Params Schema
+ */
+export const taskIdSchema = z.object({
+  params: z.object({
+    id: schemas.objectId
+  })
+});
+
+/**
+ * Create Task Schema
+ */
+export const createTaskSchema = z.object({
+  body: z.object({
+    title: z.string().trim().min(1, 'Title is required').max(200, 'Title too long'),
+    description: z.string().trim().max(2000, 'Description too long').optional(),
+    dueDate: z.coerce.date().optional(),
+    priority: z.enum(APPLICATION_PRIORITIES).default('medium'),
+    assignedTo: schemas.objectId.optional(), // defaults to the creator
+    clientId: schemas.objectId.optional(),
+    applicationId: schemas.objectId.optional()
+  })
+});
+
+/**
+ * Update Task Schema
+ * null clears an optional field
+ */
+export const updateTaskSchema = z.object({
+  params: z.object({
+    id: schemas.objectId
+  }),
+  body: z.object({
+    title: z.string().trim().min(1, 'Title is required').max(200, 'Title too long').optional(),
+    description: z.string().trim().max(2000, 'Description too long').nullable().optional(),
+    dueDate: z.coerce.date().nullable().optional(),
+    priority: z.enum(APPLICATION_PRIORITIES).optional(),
+    status: z.enum(TASK_STATUSES).optional(),
+    assignedTo: schemas.objectId.optional(),
+    clientId: schemas.objectId.nullable().optional(),
+    applicationId: schemas.objectId.nullable().optional()
+  })
+});
+
+// Type exports
+export type GetTasksQuery = z.infer<typeof getTasksSchema>['query'];
+export type CreateTaskBody = z.infer<typeof createTaskSchema>['body'];
+export type UpdateTaskBody = z.infer<typeof updateTaskSchema>['body'];
@@ -0,0 +1,417 @@
+/**
+ * Task Service
+ * Business logic for team member tasks
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ * - Rule 12: Validate ALL external data
+ */
+
+import mongoose, { FilterQuery, HydratedDocument } from 'mongoose';
+import { Task, ITask, TaskStatus, TaskSource } from '../../models/task.model';
+import { Application, IApplication, ApplicationPriority, ApplicationStatus } from '../../models/application.model';
+import { TenantTeamMember } from '../../models/tenant-team-member.model';
+import { User } from '../../models/user.model';
+import { SecurityUtils } from '../../utils/auth.utils';
+import { ValidationUtils } from '../../utils/validation.utils';
+import logger from '../../utils/logger';
+import {
+  TaskNotFoundError,
+  TaskAssigneeNotFoundError,
+  TaskClientNotFoundError,
+  TaskApplicationNotFoundError
+} from './errors/task.errors';
+import { getStatusTaskRule } from './task.automation';
+
+const OPEN_TASK_STATUSES: TaskStatus[] = ['open', 'in_progress'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Task Scope
+ * assigned: tasks assigned to me, created: tasks I created for anyone, all: both
+ */
+export type TaskScope = 'assigned' | 'created' | 'all';
+
+/**
+ * Task Filters Interface
+ */
+export interface TaskFilters {
+  scope?: TaskScope;
+  status?: TaskStatus;
+  priority?: ApplicationPriority;
+  clientId?: string;
+  applicationId?: string;
+  overdue?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Create Task Input Interface
+ */
+export interface CreateTaskInput {
+  title: string;
+  description?: string;
+  dueDate?: Date;
+  priority?: ApplicationPriority;
+  assignedTo?: string; // defaults to the creator
+  clientId?: string;
+  applicationId?: string;
+}
+
+/**
+ * Update Task Input Interface
+ * null clears an optional field
+ */
+export interface UpdateTaskInput {
+  title?: string;
+  description?: string | null;
+  dueDate?: Date | null;
+  priority?: ApplicationPriority;
+  status?: TaskStatus;
+  assignedTo?: string;
+  clientId?: string | null;
+  applicationId?: string | null;
+}
+
+/**
+ * Task Response Interface
+ */
+export interface TaskResponse {
+  id: string;
+  title: string;
+  description?: string;
+  dueDate?: Date;
+  priority: ApplicationPriority;
+  status: TaskStatus;
+  assignedTo: string;
+  createdBy?: string;
+  clientId?: string;
+  applicationId?: string;
+  source: TaskSource;
+  triggerStatus?: ApplicationStatus;
+  isOverdue: boolean;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Paginated Task List Interface
+ */
+export interface TaskListResponse {
+  tasks: TaskResponse[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+/**
+ * Task Service
+ */
+export class TaskService {
+  /**
+   * List tasks visible to a team member
+   */
+  static async getTasks(tenantId: string, teamMemberId: string, filters: TaskFilters = {}): Promise<TaskListResponse> {
+    const safePage = Math.max(1, filters.page || 1);
+    const safeLimit = Math.min(Math.max(1, filters.limit || 20), 100); // Cap at 100 items per page
+
+    const query: FilterQuery<ITask> = {
+      ...this.scopeQuery(tenantId, teamMemberId, filters.scope || 'assigned'),
+      deletedAt: null
+    };
+
+    if (filters.status) query.status = filters.status;
+    if (filters.priority) query.priority = filters.priority;
+    if (filters.clientId) query.clientId = ValidationUtils.validateObjectId(filters.clientId, 'Client ID');
+    if (filters.applicationId) query.applicationId = ValidationUtils.validateObjectId(filters.applicationId, 'Application ID');
+    if (filters.overdue) {
+      query.status = filters.status && OPEN_TASK_STATUSES.includes(filters.status)
+        ? filters.status
+        : { $in: OPEN_TASK_STATUSES };
+      query.dueDate = { $lt: new Date() };
+    }
+
+    const [tasks, total] = await Promise.all([
+      Task.find(query)
+        .sort({ dueDate: 1, createdAt: -1 })
+        .skip((safePage - 1) * safeLimit)
+        .limit(safeLimit),
+      Task.countDocuments(query)
+    ]);
+
+    const totalPages = Math.ceil(total / safeLimit);
+
+    return {
+      tasks: tasks.map(task => this.toResponse(task)),
+      pagination: {
+        page: safePage,
+        limit: safeLimit,
+        total,
+        totalPages,
+        hasNext: safePage < totalPages,
+        hasPrev: safePage > 1
+      }
+    };
+  }
+
+  /**
+   * Open tasks assigned to a team member that are past their due date
+   */
+  static async getOverdueTasks(tenantId: string, teamMemberId: string): Promise<TaskResponse[]> {
+    const tasks = await Task.find({
+      tenantId,
+      assignedTo: teamMemberId,
+      status: { $in: OPEN_TASK_STATUSES },
+      dueDate: { $lt: new Date() },
+      deletedAt: null
+    }).sort({ dueDate: 1 });
+
+    return tasks.map(task => this.toResponse(task));
+  }
+
+  /**
+   * Get a single task
+   */
+  static async getTask(tenantId: string, teamMemberId: string, taskId: string): Promise<TaskResponse> {
+    const task = await this.findVisibleTask(tenantId, teamMemberId, taskId);
+    return this.toResponse(task);
+  }
+
+  /**
+   * Create a task
+   */
+  static async createTask(tenantId: string, teamMemberId: string, input: CreateTaskInput): Promise<TaskResponse> {
+    const validatedTenantId = ValidationUtils.validateObjectId(tenantId, 'Tenant ID');
+    const assignedTo = await this.resolveAssignee(validatedTenantId, input.assignedTo || teamMemberId);
+    const links = await this.resolveLinks(validatedTenantId, input.clientId, input.applicationId);
+
+    const task = await Task.create({
+      tenantId: validatedTenantId,
+      title: SecurityUtils.sanitizeInput(input.title),
+      description: input.description ? SecurityUtils.sanitizeInput(input.description) : undefined,
+      dueDate: input.dueDate,
+      priority: input.priority || 'medium',
+      assignedTo,
+      createdBy: teamMemberId,
+      clientId: links.clientId,
+      applicationId: links.applicationId,
+      source: 'manual'
+    });
+
+    return this.toResponse(task);
+  }
+
+  /**
+   * Update a task
+   */
+  static async updateTask(
+    tenantId: string,
+    teamMemberId: string,
+    taskId: string,
+    input: UpdateTaskInput
+  ): Promise<TaskResponse> {
+    const task = await this.findVisibleTask(tenantId, teamMemberId, taskId);
+
+    // Sanitize string inputs before update
+    if (input.title !== undefined) task.title = SecurityUtils.sanitizeInput(input.title);
+    if (input.description !== undefined) {
+      task.description = input.description ? SecurityUtils.sanitizeInput(input.description) : undefined;
+    }
+    if (input.dueDate !== undefined) task.dueDate = input.dueDate || undefined;
+    if (input.priority) task.priority = input.priority;
+    if (input.status) task.status = input.status;
+    if (input.assignedTo) {
+      task.assignedTo = new mongoose.Types.ObjectId(await this.resolveAssignee(tenantId, input.assignedTo));
+    }
+
+    if (input.clientId !== undefined || input.applicationId !== undefined) {
+      const links = await this.resolveLinks(
+        tenantId,
+        input.clientId === undefined ? task.clientId?.toString() : input.clientId || undefined,
+        input.applicationId === undefined ? task.applicationId?.toString() : input.applicationId || undefined
+      );
+      task.clientId = links.clientId ? new mongoose.Types.ObjectId(links.clientId) : undefined;
+      task.applicationId = links.applicationId ? new mongoose.Types.ObjectId(links.applicationId) : undefined;
+    }
+
+    await task.save();
+
+    return this.toResponse(task);
+  }
+
+  /**
+   * Soft delete a task
+   */
+  static async deleteTask(tenantId: string, teamMemberId: string, taskId: string): Promise<void> {
+    const task = await this.findVisibleTask(tenantId, teamMemberId, taskId);
+    task.deletedAt = new Date();
+    await task.save();
+  }
+
+  /**
+   * Create the follow-up task for an application that entered a new status
+   * Never throws: a failed follow-up must not undo the status change
+   */
+  static async createStatusChangeTask(
+    application: HydratedDocument<IApplication>,
+    from: ApplicationStatus | null
+  ): Promise<void> {
+    const rule = getStatusTaskRule(from, application.status);
+
+    if (!rule || !application.assignedTo) {
+      return;
+    }
+
+    try {
+      await Task.create({
+        tenantId: application.tenantId,
+        title: rule.title.replace('{type}', application.type.replace(/_/g, ' ')),
+        description: rule.description,
+        dueDate: new Date(Date.now() + rule.dueInDays * DAY_MS),
+        priority: rule.priority || application.priority,
+        assignedTo: application.assignedTo,
+        clientId: application.clientId,
+        applicationId: application._id,
+        source: 'status_change',
+        triggerStatus: application.status
+      });
+    } catch (error) {
+      logger.error('Status change task creation failed', {
+        tenantId: application.tenantId.toString(),
+        applicationId: application._id.toString(),
+        status: application.status,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Helper: Base query for a list scope
+   */
+  private static scopeQuery(tenantId: string, teamMemberId: string, scope: TaskScope): FilterQuery<ITask> {
+    if (scope === 'created') {
+      return { tenantId, createdBy: teamMemberId };
+    }
+    if (scope === 'all') {
+      return { tenantId, $or: [{ assignedTo: teamMemberId }, { createdBy: teamMemberId }] };
+    }
+    return { tenantId, assignedTo: teamMemberId };
+  }
+
+  /**
+   * Helper: Load a task assigned to or created by the team member
+   * Foreign tasks are reported as not found
+   */
+  private static async findVisibleTask(
+    tenantId: string,
+    teamMemberId: string,
+    taskId: string
+  ): Promise<HydratedDocument<ITask>> {
+    const validatedTaskId = ValidationUtils.validateObjectId(taskId, 'Task ID');
+
+    const task = await Task.findOne({
+      _id: validatedTaskId,
+      ...this.scopeQuery(tenantId, teamMemberId, 'all'),
+      deletedAt: null
+    });
+
+    if (!task) {
+      throw new TaskNotFoundError(validatedTaskId);
+    }
+
+    return task;
+  }
+
+  /**
+   * Helper: Ensure the assignee is an active team member of the tenant
+   */
+  private static async resolveAssignee(tenantId: string, teamMemberId: string): Promise<string> {
+    const validatedId = ValidationUtils.validateObjectId(teamMemberId, 'Assignee ID');
+
+    const teamMember = await TenantTeamMember.exists({
+      _id: validatedId,
+      tenantId,
+      isActive: true,
+      deletedAt: null
+    });
+
+    if (!teamMember) {
+      throw new TaskAssigneeNotFoundError(validatedId);
+    }
+
+    return validatedId;
+  }
+
+  /**
+   * Helper: Validate client and application links
+   * An application alone implies its client; both must belong together
+   */
+  private static async resolveLinks(
+    tenantId: string,
+    clientId?: string,
+    applicationId?: string
+  ): Promise<{ clientId?: string; applicationId?: string }> {
+    let resolvedClientId = clientId ? ValidationUtils.validateObjectId(clientId, 'Client ID') : undefined;
+    let resolvedApplicationId: string | undefined;
+
+    if (applicationId) {
+      resolvedApplicationId = ValidationUtils.validateObjectId(applicationId, 'Application ID');
+
+      const application = await Application.findOne({
+        _id: resolvedApplicationId,
+        tenantId,
+        deletedAt: null
+      }).select('clientId');
+
+      if (!application || (resolvedClientId && application.clientId.toString() !== resolvedClientId)) {
+        throw new TaskApplicationNotFoundError(resolvedApplicationId);
+      }
+
+      resolvedClientId = application.clientId.toString();
+    } else if (resolvedClientId) {
+      const client = await User.exists({
+        _id: resolvedClientId,
+        tenantId,
+        deletedAt: null
+      });
+
+      if (!client) {
+        throw new TaskClientNotFoundError(resolvedClientId);
+      }
+    }
+
+    return { clientId: resolvedClientId, applicationId: resolvedApplicationId };
+  }
+
+  /**
+   * Helper: Map task document to API response
+   */
+  private static toResponse(task: HydratedDocument<ITask>): TaskResponse {
+    return {
+      id: task._id.toString(),
+      title: task.title,
+      description: task.description,
+      dueDate: task.dueDate,
+      priority: task.priority,
+      status: task.status,
+      assignedTo: task.assignedTo.toString(),
+      createdBy: task.createdBy?.toString(),
+      clientId: task.clientId?.toString(),
+      applicationId: task.applicationId?.toString(),
+      source: task.source,
+      triggerStatus: task.triggerStatus,
+      isOverdue: task.isOverdue(),
+      completedAt: task.completedAt,
+      createdAt: task.createdAt,
+      updatedAt: task.updatedAt
+    };
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Team Member Custom Error Classes
+ * Provides type-safe error handling with proper HTTP status codes
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Better error handling with custom error types
+ */
+
+/**
+ * Base Team Member Error
+ */
+export class TeamMemberError extends Error {
+  public readonly statusCode: number;
+  public readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Assigned Client Not Found Error (404 Not Found)
+ * Also used when the client exists but is assigned to another team member
+ */
+export class AssignedClientNotFoundError extends TeamMemberError {
+  constructor(clientId: string) {
+    super(
+      `Client with ID '${clientId}' not found`,
+      404,
+      'CLIENT_NOT_FOUND'
+    );
+  }
+}
+
+/**
+ * Client Email Exists Error (409 Conflict)
+ */
+export class ClientEmailExistsError extends TeamMemberError {
+  constructor() {
+    super(
+      'Client with this email already exists in your organization',
+      409,
+      'CLIENT_EMAIL_EXISTS'
+    );
+  }
+}
+
+/**
+ * Client Limit Reached Error (403 Forbidden)
+ */
+export class ClientLimitReachedError extends TeamMemberError {
+  constructor() {
+    super(
+      'Client limit reached for this tenant',
+      403,
+      'CLIENT_LIMIT_REACHED'
+    );
+  }
+}
+
+/**
+ * Tenant Inactive Error (403 Forbidden)
+ */
+export class TenantInactiveError extends TeamMemberError {
+  constructor() {
+    super(
+      'Tenant account is not active. Please contact support.',
+      403,
+      'TENANT_INACTIVE'
+    );
+  }
+}
@@ -0,0 +1,517 @@
+/**
+ * Team Member Controller
+ * Handles a team member's assigned clients, their applications and documents
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 1: No console.log (using logger)
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ */
+
+import { Request, Response } from 'express';
+import { TeamMemberService } from './team-member.service';
+import { TeamMemberError } from './errors/team-member.errors';
+import { PasswordPolicyError } from '../auth/types/errors.types';
+import {
+  CreateClientBody,
+  UpdateClientBody,
+  GetApplicationsQuery,
+  CreateApplicationBody,
+  UpdateApplicationBody
+} from './team-member.schemas';
+import { ApplicationError } from '../application/errors/application.errors';
+import { DocumentService } from '../document/document.service';
+import { DocumentError } from '../document/errors/document.errors';
+import { DocumentChecklistService } from '../document-checklist/document-checklist.service';
+import logger from '../../utils/logger';
+
+/**
+ * Team Member Controller
+ */
+export class TeamMemberController {
+  /**
+   * Get assigned clients
+   * GET /api/v1/team-member/my-clients
+   */
+  static async getMyClients(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const clients = await TeamMemberService.getMyClients(tenantId, userId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          clients,
+          count: clients.length,
+          message: 'Assigned clients retrieved successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Get assigned clients failed', {
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'CLIENTS_RETRIEVAL_FAILED',
+          message: 'Failed to retrieve assigned clients'
+        }
+      });
+    }
+  }
+
+  /**
+   * Create client
+   * POST /api/v1/team-member/clients
+   */
+  static async createClient(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const client = await TeamMemberService.createClient(tenantId, userId, req.body as CreateClientBody);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          client,
+          message: client.awaitingConfirmation
+            ? 'Client created. The email already has a password on the portal; the account can sign in once its holder confirms it from the email we sent'
+            : 'Client created successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Create client failed', {
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      if (error instanceof TeamMemberError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      if (error instanceof PasswordPolicyError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'CLIENT_CREATION_FAILED',
+          message: 'Failed to create client'
+        }
+      });
+    }
+  }
+
+  /**
+   * Update assigned client
+   * PUT /api/v1/team-member/clients/:id
+   */
+  static async updateClient(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const client = await TeamMemberService.updateClient(tenantId, userId, req.params.id, req.body as UpdateClientBody);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          client,
+          message: 'Client updated successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Update client failed', {
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        clientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      if (error instanceof TeamMemberError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'CLIENT_UPDATE_FAILED',
+          message: 'Failed to update client'
+        }
+      });
+    }
+  }
+
+  /**
+   * Get applications of assigned clients
+   * GET /api/v1/team-member/applications
+   */
+  static async getApplications(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const applications = await TeamMemberService.getApplications(tenantId, userId, req.query as GetApplicationsQuery);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          applications,
+          count: applications.length,
+          message: 'Applications retrieved successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Get applications failed', {
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      if (error instanceof TeamMemberError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'APPLICATIONS_RETRIEVAL_FAILED',
+          message: 'Failed to retrieve applications'
+        }
+      });
+    }
+  }
+
+  /**
+   * Create application for an assigned client
+   * POST /api/v1/team-member/applications
+   */
+  static async createApplication(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const application = await TeamMemberService.createApplication(tenantId, userId, req.body as CreateApplicationBody);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          application,
+          message: 'Application created successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Create application failed', {
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      if (error instanceof TeamMemberError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      if (error instanceof ApplicationError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'APPLICATION_CREATION_FAILED',
+          message: 'Failed to create application'
+        }
+      });
+    }
+  }
+
+  /**
+   * Update application of an assigned client
+   * PUT /api/v1/team-member/applications/:id
+   */
+  static async updateApplication(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const application = await TeamMemberService.updateApplication(
+        tenantId,
+        userId,
+        req.params.id,
+        req.body as UpdateApplicationBody
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          application,
+          message: 'Application updated successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Update application failed', {
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        applicationId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      if (error instanceof ApplicationError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'APPLICATION_UPDATE_FAILED',
+          message: 'Failed to update application'
+        }
+      });
+    }
+  }
+
+  /**
+   * Get document completeness of assigned applications
+   * GET /api/v1/team-member/applications/completeness
+   */
+  static async getApplicationsCompleteness(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const applications = await DocumentChecklistService.getAssignedCompleteness(tenantId, userId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          applications,
+          count: applications.length,
+          message: 'Application completeness retrieved successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Get assigned applications completeness failed', { 
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'COMPLETENESS_RETRIEVAL_FAILED',
+          message: 'Failed to retrieve application completeness'
+        }
+      });
+    }
+  }
+
+  /**
+   * Upload document for an assigned client
+   * POST /api/v1/team-member/documents (multipart/form-data, file field "file")
+   */
+  static async uploadDocument(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const document = await DocumentService.uploadDocument(tenantId, {
+        clientId: req.body.clientId,
+        applicationId: req.body.applicationId,
+        documentType: req.body.documentType,
+        file: req.file
+      }, {
+        id: userId,
+        type: 'team_member'
+      });
+
+      logger.info('Document uploaded successfully', {
+        documentId: document.id,
+        clientId: document.clientId,
+        tenantId,
+        userId,
+        size: document.size
+      });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          document,
+          message: 'Document uploaded successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Upload document failed', { 
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+
+      if (error instanceof DocumentError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+      
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'DOCUMENT_UPLOAD_FAILED',
+          message: 'Failed to upload document'
+        }
+      });
+    }
+  }
+}
+
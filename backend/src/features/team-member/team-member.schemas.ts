@@ -0,0 +1,117 @@
+/**
+ * Team Member Zod Validation Schemas
+ * Input validation for assigned client, application and document operations
+ *
+ * Following CORE-CRITICAL Rule 12: Validate ALL external data
+ */
+
+import { z } from 'zod';
+import { schemas } from '../../utils/zod.schemas';
+import { APPLICATION_TYPES, APPLICATION_STATUSES, APPLICATION_PRIORITIES } from '../../models/application.model';
+
+/**
+ * Client Profile Schema
+ */
+const clientProfileSchema = z.object({
+  phone: z.string()
+    .regex(/^\+?[\d\s\-()]+$/, 'Invalid phone format')
+    .max(20, 'Phone number too long')
+    .optional(),
+  dateOfBirth: z.string().optional(),
+  nationality: z.string().max(50).optional(),
+  address: z.string().max(200).optional(),
+  emergencyContact: z.object({
+    name: z.string().min(1).max(100),
+    phone: z.string()
+      .regex(/^\+?[\d\s\-()]+$/, 'Invalid phone format')
+      .max(20, 'Phone number too long'),
+    relationship: z.string().min(1).max(50)
+  }).optional()
+});
+
+/**
+ * Create Client Schema
+ */
+export const createClientSchema = z.object({
+  body: z.object({
+    email: schemas.secureEmail,
+    password: schemas.strongPassword.optional(), // omitted for an email that already has a password on the portal
+    firstName: z.string().min(1, 'First name is required').max(50),
+    lastName: z.string().min(1, 'Last name is required').max(50),
+    applicationType: z.enum(APPLICATION_TYPES),
+    profile: clientProfileSchema.optional()
+  })
+});
+
+/**
+ * Update Client Schema
+ * Applications are managed through the application endpoints
+ */
+export const updateClientSchema = z.object({
+  params: z.object({
+    id: schemas.objectId
+  }),
+  body: z.object({
+    firstName: z.string().min(1).max(50).optional(),
+    lastName: z.string().min(1).max(50).optional(),
+    status: z.enum(['active', 'inactive', 'pending', 'suspended']).optional(),
+    profile: clientProfileSchema.optional()
+  })
+});
+
+/**
+ * Get Applications Schema
+ */
+export const getApplicationsSchema = z.object({
+  query: z.object({
+    clientId: schemas.objectId.optional(),
+    status: z.enum(APPLICATION_STATUSES).optional(),
+    type: z.enum(APPLICATION_TYPES).optional()
+  })
+});
+
+/**
+ * Create Application Schema
+ */
+export const createApplicationSchema = z.object({
+  body: z.object({
+    clientId: schemas.objectId,
+    type: z.enum(APPLICATION_TYPES),
+    status: z.enum(APPLICATION_STATUSES).default('draft'), // Transition graph is enforced by ApplicationService
+    priority: z.enum(APPLICATION_PRIORITIES).default('medium'),
+    notes: z.string().max(5000).optional(),
+    documents: z.array(z.string()).default([])
+  })
+});
+
+/**
+ * Update Application Schema
+ */
+export const updateApplicationSchema = z.object({
+  params: z.object({
+    id: schemas.objectId
+  }),
+  body: z.object({
+    status: z.enum(APPLICATION_STATUSES).optional(), // Transition graph is enforced by ApplicationService
+    reason: z.string().max(500).optional(),
+    priority: z.enum(APPLICATION_PRIORITIES).optional(),
+    notes: z.string().max(5000).optional(),
+    documents: z.array(z.string()).optional()
+  })
+});
+
+// File name, size and MIME type come from the multipart file itself
+export const uploadDocumentSchema = z.object({
+  body: z.object({
+    clientId: schemas.objectId,
+    applicationId: schemas.objectId.optional(),
+    documentType: z.string().min(1, 'Document type is required').max(100)
+  })
+});
+
+// Type exports
+export type CreateClientBody = z.infer<typeof createClientSchema>['body'];
+export type UpdateClientBody = z.infer<typeof updateClientSchema>['body'];
+export type GetApplicationsQuery = z.infer<typeof getApplicationsSchema>['query'];
+export type CreateApplicationBody = z.infer<typeof createApplicationSchema>['body'];
+export type UpdateApplicationBody = z.infer<typeof updateApplicationSchema>['body'];
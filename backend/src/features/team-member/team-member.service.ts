@@ -0,0 +1,378 @@
+/**
+ * Team Member Service
+ * Business logic for a team member's assigned clients and their applications
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ * - Rule 12: Validate ALL external data
+ */
+
+import mongoose, { HydratedDocument } from 'mongoose';
+import { User, IUser } from '../../models/user.model';
+import { Tenant } from '../../models/tenant.model';
+import { Application } from '../../models/application.model';
+import { SecurityUtils } from '../../utils/auth.utils';
+import { ValidationUtils } from '../../utils/validation.utils';
+import PermissionVersionService from '../../services/permission-version.service';
+import { ClientResponse } from '../tenant-admin/tenant-admin.service';
+import { ClientAssignmentService } from '../client-assignment/client-assignment.service';
+import { IdentityService } from '../auth/identity.service';
+import { AccountTokenService } from '../auth/account-token.service';
+import { ApplicationService, ApplicationActor, ApplicationResponse } from '../application/application.service';
+import { ApplicationNotFoundError } from '../application/errors/application.errors';
+import logger from '../../utils/logger';
+import {
+  AssignedClientNotFoundError,
+  ClientEmailExistsError,
+  ClientLimitReachedError,
+  TenantInactiveError
+} from './errors/team-member.errors';
+import {
+  CreateClientBody,
+  UpdateClientBody,
+  GetApplicationsQuery,
+  CreateApplicationBody,
+  UpdateApplicationBody
+} from './team-member.schemas';
+
+/**
+ * Assigned Client Response Interface
+ */
+export interface AssignedClientResponse extends ClientResponse {
+  address?: string;
+  emergencyContact?: {
+    name: string;
+    phone: string;
+    relationship: string;
+  };
+  lastLogin?: Date;
+  openApplications: number;
+}
+
+type ClientProfileInput = NonNullable<CreateClientBody['profile']>;
+
+/**
+ * Team Member Service
+ */
+export class TeamMemberService {
+  /**
+   * Get the clients assigned to a team member
+   */
+  static async getMyClients(tenantId: string, teamMemberId: string): Promise<AssignedClientResponse[]> {
+    const clients = await User.findByAssignedTo(teamMemberId, tenantId);
+    const openApplications = await this.countOpenApplications(
+      tenantId,
+      clients.map(client => client._id.toString())
+    );
+
+    return clients.map(client => this.toClientResponse(
+      client,
+      tenantId,
+      openApplications.get(client._id.toString()) ?? 0
+    ));
+  }
+
+  /**
+   * Create a client
+   * The tenant's assignment strategy picks the team member; with manual
+   * assignment the client is assigned to its creator
+   */
+  static async createClient(
+    tenantId: string,
+    teamMemberId: string,
+    input: CreateClientBody
+  ): Promise<AssignedClientResponse> {
+    const tenant = await Tenant.findOne({
+      _id: ValidationUtils.validateObjectId(tenantId, 'Tenant ID'),
+      deletedAt: null
+    });
+
+    if (!tenant || tenant.status !== 'active') {
+      throw new TenantInactiveError();
+    }
+
+    const currentCount = await User.countDocuments({ tenantId, deletedAt: null });
+
+    if (!(await tenant.canAddClient(currentCount))) {
+      throw new ClientLimitReachedError();
+    }
+
+    const existingClient = await User.findOne({
+      tenantId,
+      email: input.email.toLowerCase(),
+      deletedAt: null
+    });
+
+    if (existingClient) {
+      throw new ClientEmailExistsError();
+    }
+
+    const assignedTo = await ClientAssignmentService.selectTeamMember(tenantId, input.applicationType)
+      ?? teamMemberId;
+
+    await IdentityService.validateNewCredentials(input.email, input.password, tenantId);
+
+    // Sanitize string inputs
+    const client: HydratedDocument<IUser> = await User.create({
+      tenantId,
+      assignedTo,
+      email: input.email.toLowerCase(),
+      firstName: SecurityUtils.sanitizeInput(input.firstName),
+      lastName: SecurityUtils.sanitizeInput(input.lastName),
+      status: 'pending',
+      emailVerified: false,
+      profile: input.profile ? this.sanitizeProfile(input.profile) : {}
+    });
+
+    // An email already known to the platform keeps its existing password once its holder confirms
+    const linkResult = await IdentityService.linkPrincipal(client.email, input.password, {
+      principalType: 'client',
+      principalId: client._id.toString(),
+      tenantId
+    });
+    const awaitingConfirmation = linkResult === 'pending_confirmation';
+
+    // Delivery failures are logged; the account can be removed and created again to resend it
+    if (awaitingConfirmation) {
+      AccountTokenService.sendEmailVerification('client', client._id.toString(), true).catch(error => {
+        logger.error('Client confirmation email failed', {
+          clientId: client._id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }
+
+    return { ...this.toClientResponse(client, tenantId, 0), awaitingConfirmation };
+  }
+
+  /**
+   * Update an assigned client's name, status or profile
+   */
+  static async updateClient(
+    tenantId: string,
+    teamMemberId: string,
+    clientId: string,
+    input: UpdateClientBody
+  ): Promise<AssignedClientResponse> {
+    const client = await this.findAssignedClient(tenantId, teamMemberId, clientId);
+
+    // Sanitize string inputs before update
+    if (input.firstName) client.firstName = SecurityUtils.sanitizeInput(input.firstName);
+    if (input.lastName) client.lastName = SecurityUtils.sanitizeInput(input.lastName);
+    if (input.status) client.status = input.status;
+
+    if (input.profile) {
+      const profile = this.sanitizeProfile(input.profile);
+      (Object.keys(profile) as (keyof typeof profile)[]).forEach(key => {
+        if (profile[key] !== undefined) {
+          client.set(`profile.${key}`, profile[key]);
+        }
+      });
+    }
+
+    const statusChanged = client.isModified('status');
+    await client.save();
+
+    if (statusChanged) {
+      await PermissionVersionService.getInstance().bumpAccount('client', client._id.toString());
+    }
+
+    const openApplications = await this.countOpenApplications(tenantId, [client._id.toString()]);
+
+    return this.toClientResponse(client, tenantId, openApplications.get(client._id.toString()) ?? 0);
+  }
+
+  /**
+   * Get the applications of assigned clients
+   */
+  static async getApplications(
+    tenantId: string,
+    teamMemberId: string,
+    query: GetApplicationsQuery
+  ): Promise<ApplicationResponse[]> {
+    let clientIds: string[];
+
+    if (query.clientId) {
+      const client = await this.findAssignedClient(tenantId, teamMemberId, query.clientId);
+      clientIds = [client._id.toString()];
+    } else {
+      const clients = await User.find({ tenantId, assignedTo: teamMemberId, deletedAt: null }).select('_id').lean();
+      clientIds = clients.map(client => client._id.toString());
+    }
+
+    return ApplicationService.getApplicationsForClients(tenantId, clientIds, {
+      status: query.status,
+      type: query.type
+    });
+  }
+
+  /**
+   * Create an application for an assigned client
+   */
+  static async createApplication(
+    tenantId: string,
+    teamMemberId: string,
+    input: CreateApplicationBody
+  ): Promise<ApplicationResponse> {
+    const client = await this.findAssignedClient(tenantId, teamMemberId, input.clientId);
+
+    return ApplicationService.createClientApplication(
+      tenantId,
+      client._id.toString(),
+      {
+        type: input.type,
+        status: input.status,
+        priority: input.priority,
+        notes: input.notes,
+        documents: input.documents
+      },
+      this.toActor(teamMemberId)
+    );
+  }
+
+  /**
+   * Update an application of an assigned client
+   * Applications of other team members' clients are reported as not found
+   */
+  static async updateApplication(
+    tenantId: string,
+    teamMemberId: string,
+    applicationId: string,
+    input: UpdateApplicationBody
+  ): Promise<ApplicationResponse> {
+    const validatedApplicationId = ValidationUtils.validateObjectId(applicationId, 'Application ID');
+
+    const application = await Application.findOne({
+      _id: validatedApplicationId,
+      tenantId,
+      deletedAt: null
+    }).select('clientId');
+
+    if (!application) {
+      throw new ApplicationNotFoundError(validatedApplicationId);
+    }
+
+    const isAssigned = await User.exists({
+      _id: application.clientId,
+      tenantId,
+      assignedTo: teamMemberId,
+      deletedAt: null
+    });
+
+    if (!isAssigned) {
+      throw new ApplicationNotFoundError(validatedApplicationId);
+    }
+
+    return ApplicationService.updateClientApplication(
+      tenantId,
+      application.clientId.toString(),
+      validatedApplicationId,
+      input,
+      this.toActor(teamMemberId)
+    );
+  }
+
+  /**
+   * Helper: Load a client assigned to the team member
+   */
+  private static async findAssignedClient(
+    tenantId: string,
+    teamMemberId: string,
+    clientId: string
+  ): Promise<HydratedDocument<IUser>> {
+    const validatedClientId = ValidationUtils.validateObjectId(clientId, 'Client ID');
+
+    const client = await User.findOne({
+      _id: validatedClientId,
+      tenantId,
+      assignedTo: teamMemberId,
+      deletedAt: null
+    });
+
+    if (!client) {
+      throw new AssignedClientNotFoundError(validatedClientId);
+    }
+
+    return client;
+  }
+
+  /**
+   * Helper: Open application count per client
+   */
+  private static async countOpenApplications(tenantId: string, clientIds: string[]): Promise<Map<string, number>> {
+    if (clientIds.length === 0) {
+      return new Map();
+    }
+
+    const counts = await Application.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+      {
+        $match: {
+          tenantId: new mongoose.Types.ObjectId(tenantId),
+          clientId: { $in: clientIds.map(id => new mongoose.Types.ObjectId(id)) },
+          status: { $nin: ['approved', 'rejected'] },
+          deletedAt: null
+        }
+      },
+      { $group: { _id: '$clientId', count: { $sum: 1 } } }
+    ]);
+
+    return new Map(counts.map(entry => [entry._id.toString(), entry.count]));
+  }
+
+  /**
+   * Helper: Sanitize client profile fields
+   */
+  private static sanitizeProfile(profile: ClientProfileInput): Partial<IUser['profile']> {
+    return {
+      phone: profile.phone ? SecurityUtils.sanitizeInput(profile.phone) : undefined,
+      dateOfBirth: profile.dateOfBirth ? new Date(profile.dateOfBirth) : undefined,
+      nationality: profile.nationality ? SecurityUtils.sanitizeInput(profile.nationality) : undefined,
+      address: profile.address ? SecurityUtils.sanitizeInput(profile.address) : undefined,
+      emergencyContact: profile.emergencyContact
+        ? {
+          name: SecurityUtils.sanitizeInput(profile.emergencyContact.name),
+          phone: SecurityUtils.sanitizeInput(profile.emergencyContact.phone),
+          relationship: SecurityUtils.sanitizeInput(profile.emergencyContact.relationship)
+        }
+        : undefined
+    };
+  }
+
+  /**
+   * Helper: Team member as application actor
+   */
+  private static toActor(teamMemberId: string): ApplicationActor {
+    return { id: teamMemberId, type: 'team_member' };
+  }
+
+  /**
+   * Helper: Map client document to API response
+   */
+  private static toClientResponse(
+    client: Pick<IUser, '_id' | 'assignedTo' | 'email' | 'firstName' | 'lastName' | 'status' |
+      'emailVerified' | 'lastLogin' | 'profile' | 'createdAt' | 'updatedAt'>,
+    tenantId: string,
+    openApplications: number
+  ): AssignedClientResponse {
+    return {
+      id: client._id.toString(),
+      tenantId,
+      assignedTo: client.assignedTo?.toString(),
+      email: client.email,
+      firstName: client.firstName,
+      lastName: client.lastName,
+      phone: client.profile?.phone,
+      dateOfBirth: client.profile?.dateOfBirth ? String(client.profile.dateOfBirth) : undefined,
+      nationality: client.profile?.nationality,
+      address: client.profile?.address,
+      emergencyContact: client.profile?.emergencyContact,
+      status: client.status,
+      emailVerified: client.emailVerified,
+      lastLogin: client.lastLogin,
+      openApplications,
+      createdAt: client.createdAt,
+      updatedAt: client.updatedAt
+    };
+  }
+}
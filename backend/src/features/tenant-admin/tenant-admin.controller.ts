@@ -10,6 +10,11 @@
 
 import { Request, Response } from 'express';
 import { TenantAdminService } from './tenant-admin.service';
+import { ApplicationService } from '../application/application.service';
+import { ApplicationError } from '../application/errors/application.errors';
+import { UpdateApplicationStatusInput } from './tenant-admin.schemas';
+import { RoleError } from '../role/errors/role.errors';
+import { PasswordPolicyError } from '../auth/types/errors.types';
 import { ValidationUtils } from '../../utils/validation.utils';
 import logger from '../../utils/logger';
 
@@ -92,7 +97,9 @@ export class TenantAdminController {
         success: true,
         data: {
           teamMember,
-          message: 'Team member created successfully'
+          message: teamMember.awaitingConfirmation
+            ? 'Team member created. The email already has a password on the portal; the account can sign in once its holder confirms it from the email we sent'
+            : 'Team member created successfully'
         }
       });
     } catch (error) {
@@ -101,6 +108,29 @@ export class TenantAdminController {
         tenantId: req.user?.tenantId
       });
 
+      if (error instanceof RoleError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      if (error instanceof PasswordPolicyError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
       const statusCode = error instanceof Error && error.message.includes('exists') ? 409 : 500;
 
       res.status(statusCode).json({
@@ -166,6 +196,17 @@ export class TenantAdminController {
         tenantId: req.user?.tenantId
       });
 
+      if (error instanceof RoleError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         error: {
@@ -313,7 +354,9 @@ export class TenantAdminController {
         success: true,
         data: {
           client,
-          message: 'Client created successfully'
+          message: client.awaitingConfirmation
+            ? 'Client created. The email already has a password on the portal; the account can sign in once its holder confirms it from the email we sent'
+            : 'Client created successfully'
         }
       });
     } catch (error) {
@@ -322,6 +365,18 @@ export class TenantAdminController {
         tenantId: req.user?.tenantId
       });
 
+      if (error instanceof PasswordPolicyError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details
+          }
+        });
+        return;
+      }
+
       const statusCode = error instanceof Error && error.message.includes('exists') ? 409 : 500;
 
       res.status(statusCode).json({
@@ -334,6 +389,368 @@ export class TenantAdminController {
     }
   }
 
+  /**
+   * Get client
+   * GET /api/v1/tenant-admin/clients/:id
+   */
+  static async getClient(req: Request, res: Response): Promise<void> {
+    try {
+      const id = ValidationUtils.validateObjectId(req.params.id, 'Client ID');
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const client = await TenantAdminService.getClient(tenantId, id);
+
+      if (!client) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'CLIENT_NOT_FOUND',
+            message: 'Client not found'
+          }
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          client
+        }
+      });
+    } catch (error) {
+      logger.error('Get client failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        clientId: req.params.id,
+        tenantId: req.user?.tenantId
+      });
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'CLIENT_FETCH_FAILED',
+          message: 'Failed to fetch client'
+        }
+      });
+    }
+  }
+
+  /**
+   * Update client (details, status, assignment)
+   * PUT /api/v1/tenant-admin/clients/:id
+   */
+  static async updateClient(req: Request, res: Response): Promise<void> {
+    try {
+      const id = ValidationUtils.validateObjectId(req.params.id, 'Client ID');
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const client = await TenantAdminService.updateClient(tenantId, id, req.body);
+
+      if (!client) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'CLIENT_NOT_FOUND',
+            message: 'Client not found'
+          }
+        });
+        return;
+      }
+
+      logger.info('Client updated successfully', {
+        clientId: id,
+        tenantId,
+        updatedBy: req.user?.userId
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          client,
+          message: 'Client updated successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Update client failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        clientId: req.params.id,
+        tenantId: req.user?.tenantId
+      });
+
+      const statusCode = error instanceof Error && error.message.includes('team member') ? 400 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: statusCode === 400 ? 'INVALID_ASSIGNMENT' : 'CLIENT_UPDATE_FAILED',
+          message: statusCode === 400 && error instanceof Error ? error.message : 'Failed to update client'
+        }
+      });
+    }
+  }
+
+  /**
+   * Delete client (soft delete)
+   * DELETE /api/v1/tenant-admin/clients/:id
+   */
+  static async deleteClient(req: Request, res: Response): Promise<void> {
+    try {
+      const id = ValidationUtils.validateObjectId(req.params.id, 'Client ID');
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const result = await TenantAdminService.deleteClient(tenantId, id);
+
+      if (!result) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'CLIENT_NOT_FOUND',
+            message: 'Client not found'
+          }
+        });
+        return;
+      }
+
+      logger.info('Client deleted successfully', {
+        clientId: id,
+        tenantId,
+        deletedBy: req.user?.userId
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'Client deleted successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Delete client failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        clientId: req.params.id,
+        tenantId: req.user?.tenantId
+      });
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'CLIENT_DELETION_FAILED',
+          message: 'Failed to delete client'
+        }
+      });
+    }
+  }
+
+  /**
+   * Reassign clients to another team member
+   * POST /api/v1/tenant-admin/clients/reassign
+   */
+  static async reassignClients(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const result = await TenantAdminService.reassignClients(tenantId, req.body.clientIds, req.body.teamMemberId);
+
+      logger.info('Clients reassigned successfully', {
+        tenantId,
+        clientCount: req.body.clientIds.length,
+        assignedTo: result.assignedTo,
+        reassignedBy: req.user?.userId
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...result,
+          message: 'Clients reassigned successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Reassign clients failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId: req.user?.tenantId
+      });
+
+      const statusCode = error instanceof Error &&
+        (error.message.includes('team member') || error.message.includes('not found')) ? 400 : 500;
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          code: statusCode === 400 ? 'INVALID_REASSIGNMENT' : 'CLIENT_REASSIGN_FAILED',
+          message: statusCode === 400 && error instanceof Error ? error.message : 'Failed to reassign clients'
+        }
+      });
+    }
+  }
+
+  /**
+   * Get application status and history
+   * GET /api/v1/tenant-admin/applications/:id/status
+   */
+  static async getApplicationStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const status = await ApplicationService.getTenantApplicationStatus(tenantId, req.params.id, {
+        id: userId,
+        type: 'tenant_admin'
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { status }
+      });
+    } catch (error) {
+      logger.error('Get application status failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId: req.user?.tenantId,
+        applicationId: req.params.id
+      });
+
+      if (error instanceof ApplicationError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'APPLICATION_STATUS_FETCH_FAILED',
+          message: 'Failed to fetch application status'
+        }
+      });
+    }
+  }
+
+  /**
+   * Change application status (including approve and reject)
+   * PUT /api/v1/tenant-admin/applications/:id/status
+   */
+  static async updateApplicationStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const { status: nextStatus, reason } = req.body as UpdateApplicationStatusInput;
+      const status = await ApplicationService.updateTenantApplicationStatus(tenantId, req.params.id, nextStatus, reason, {
+        id: userId,
+        type: 'tenant_admin'
+      });
+
+      logger.info('Application status changed', {
+        tenantId,
+        applicationId: status.id,
+        status: status.status,
+        changedBy: userId
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          status,
+          message: 'Application status updated successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Update application status failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId: req.user?.tenantId,
+        applicationId: req.params.id
+      });
+
+      if (error instanceof ApplicationError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'APPLICATION_STATUS_UPDATE_FAILED',
+          message: 'Failed to update application status'
+        }
+      });
+    }
+  }
+
   /**
    * Get tenant analytics
    * GET /api/v1/tenant-admin/analytics
@@ -7,6 +7,8 @@
 
 import { z } from 'zod';
 import { schemas } from '../../utils/zod.schemas';
+import { APPLICATION_STATUSES } from '../../models/application.model';
+import { STAFF_PERMISSION_KEYS } from '../../config/permissions.config';
 
 /**
  * Create Team Member Schema
@@ -14,7 +16,7 @@ import { schemas } from '../../utils/zod.schemas';
 export const createTeamMemberSchema = z.object({
   body: z.object({
     email: schemas.secureEmail,
-    password: schemas.strongPassword,
+    password: schemas.strongPassword.optional(), // omitted for an email that already has a password on the portal
     firstName: z.string()
       .min(1, 'First name is required')
       .max(50, 'First name must not exceed 50 characters')
@@ -28,7 +30,8 @@ export const createTeamMemberSchema = z.object({
     specializations: z.array(z.string().max(100))
       .max(10, 'Cannot have more than 10 specializations')
       .optional(),
-    permissions: z.array(z.string().max(50))
+    roleId: schemas.objectId.optional(),
+    permissions: z.array(z.enum(STAFF_PERMISSION_KEYS))
       .max(50, 'Cannot have more than 50 permissions')
       .optional()
   })
@@ -57,7 +60,8 @@ export const updateTeamMemberSchema = z.object({
     specializations: z.array(z.string().max(100))
       .max(10, 'Cannot have more than 10 specializations')
       .optional(),
-    permissions: z.array(z.string().max(50))
+    roleId: schemas.objectId.nullable().optional(),
+    permissions: z.array(z.enum(STAFF_PERMISSION_KEYS))
       .max(50, 'Cannot have more than 50 permissions')
       .optional(),
     isActive: z.boolean().optional()
@@ -71,7 +75,7 @@ export const updateTeamMemberSchema = z.object({
 export const createClientSchema = z.object({
   body: z.object({
     email: schemas.secureEmail,
-    password: schemas.strongPassword,
+    password: schemas.strongPassword.optional(), // omitted for an email that already has a password on the portal
     firstName: z.string()
       .min(1, 'First name is required')
       .max(50, 'First name must not exceed 50 characters')
@@ -109,6 +113,63 @@ export const createClientSchema = z.object({
   })
 });
 
+/**
+ * Update Client Schema
+ * assignedTo: null removes the assignment
+ */
+export const updateClientSchema = z.object({
+  params: z.object({
+    id: schemas.objectId
+  }),
+  body: z.object({
+    firstName: z.string()
+      .min(1, 'First name is required')
+      .max(50, 'First name must not exceed 50 characters')
+      .trim()
+      .optional(),
+    lastName: z.string()
+      .min(1, 'Last name is required')
+      .max(50, 'Last name must not exceed 50 characters')
+      .trim()
+      .optional(),
+    phone: z.string()
+      .regex(/^\+?[\d\s\-()]+$/, 'Invalid phone format')
+      .max(20, 'Phone number too long')
+      .optional(),
+    dateOfBirth: z.string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+      .optional(),
+    nationality: z.string()
+      .min(2, 'Nationality must be at least 2 characters')
+      .max(50, 'Nationality must not exceed 50 characters')
+      .optional(),
+    status: z.enum(['active', 'inactive', 'pending', 'suspended']).optional(),
+    assignedTo: schemas.objectId.nullable().optional()
+  })
+});
+
+/**
+ * Client ID Schema
+ */
+export const clientIdSchema = z.object({
+  params: z.object({
+    id: schemas.objectId
+  })
+});
+
+/**
+ * Reassign Clients Schema
+ * teamMemberId: null unassigns the clients
+ */
+export const reassignClientsSchema = z.object({
+  body: z.object({
+    clientIds: z.array(schemas.objectId)
+      .min(1, 'At least one client is required')
+      .max(100, 'Cannot reassign more than 100 clients at once'),
+    teamMemberId: schemas.objectId.nullable()
+  })
+});
+
 /**
  * Team Member ID Schema
  */
@@ -118,6 +179,29 @@ export const teamMemberIdSchema = z.object({
   })
 });
 
+/**
+ * Application ID Schema
+ */
+export const applicationIdSchema = z.object({
+  params: z.object({
+    id: schemas.objectId
+  })
+});
+
+/**
+ * Update Application Status Schema
+ * Allowed transitions are enforced by ApplicationService
+ */
+export const updateApplicationStatusSchema = z.object({
+  params: z.object({
+    id: schemas.objectId
+  }),
+  body: z.object({
+    status: z.enum(APPLICATION_STATUSES),
+    reason: z.string().max(500).optional()
+  })
+});
+
 /**
  * Type exports
  */
@@ -125,3 +209,7 @@ export type CreateTeamMemberInput = z.infer<typeof createTeamMemberSchema>['body
 export type UpdateTeamMemberInput = z.infer<typeof updateTeamMemberSchema>['body'];
 export type CreateClientInput = z.infer<typeof createClientSchema>['body'];
 export type TeamMemberIdParams = z.infer<typeof teamMemberIdSchema>['params'];
+export type UpdateClientInput = z.infer<typeof updateClientSchema>['body'];
+export type ReassignClientsInput = z.infer<typeof reassignClientsSchema>['body'];
+export type ClientIdParams = z.infer<typeof clientIdSchema>['params'];
+export type UpdateApplicationStatusInput = z.infer<typeof updateApplicationStatusSchema>['body'];
@@ -8,36 +8,44 @@
  * - Rule 12: Validate ALL external data
  */
 
-import bcrypt from 'bcryptjs';
 import { TenantTeamMember, ITenantTeamMember } from '../../models/tenant-team-member.model';
 import { User, IUser } from '../../models/user.model';
 import { Tenant } from '../../models/tenant.model';
-import { config } from '../../config/env.config';
+import { Application } from '../../models/application.model';
 import { HydratedDocument } from 'mongoose';
 import { SecurityUtils } from '../../utils/auth.utils';
 import { ValidationUtils } from '../../utils/validation.utils';
+import PermissionVersionService from '../../services/permission-version.service';
+import { ClientAssignmentService } from '../client-assignment/client-assignment.service';
+import { RoleService } from '../role/role.service';
+import { AccountTokenService } from '../auth/account-token.service';
+import { IdentityService } from '../auth/identity.service';
+import logger from '../../utils/logger';
 
 /**
  * Create Team Member Input Interface
  */
 export interface CreateTeamMemberInput {
   email: string;
-  password: string;
+  password?: string;
   firstName: string;
   lastName: string;
   role?: 'admin' | 'visa_specialist' | 'work_permit_specialist' | 'case_manager';
   specializations?: string[];
+  roleId?: string; // custom role; overrides permissions
   permissions?: string[];
 }
 
 /**
  * Update Team Member Input Interface
+ * roleId: null removes the custom role; permissions only apply without a role
  */
 export interface UpdateTeamMemberInput {
   firstName?: string;
   lastName?: string;
   role?: 'admin' | 'visa_specialist' | 'work_permit_specialist' | 'case_manager';
   specializations?: string[];
+  roleId?: string | null;
   permissions?: string[];
   isActive?: boolean;
 }
@@ -53,9 +61,11 @@ export interface TeamMemberResponse {
   lastName: string;
   role: string;
   specializations: string[];
+  roleId?: string;
   permissions: string[];
   isActive: boolean;
   lastLogin?: Date;
+  awaitingConfirmation?: boolean; // returned on creation for an email that already has an identity
   createdAt: Date;
   updatedAt: Date;
 }
@@ -65,7 +75,7 @@ export interface TeamMemberResponse {
  */
 export interface CreateClientInput {
   email: string;
-  password: string;
+  password?: string;
   firstName: string;
   lastName: string;
   phone?: string;
@@ -75,6 +85,29 @@ export interface CreateClientInput {
   assignedTo?: string; // Team member ID
 }
 
+/**
+ * Update Client Input Interface
+ * assignedTo: null removes the assignment
+ */
+export interface UpdateClientInput {
+  firstName?: string;
+  lastName?: string;
+  phone?: string;
+  dateOfBirth?: string;
+  nationality?: string;
+  status?: 'active' | 'inactive' | 'pending' | 'suspended';
+  assignedTo?: string | null;
+}
+
+/**
+ * Reassign Clients Result Interface
+ */
+export interface ReassignClientsResult {
+  reassigned: number;
+  assignedTo: string | null;
+  assignedToName?: string;
+}
+
 /**
  * Client Response Interface
  */
@@ -91,6 +124,7 @@ export interface ClientResponse {
   nationality?: string;
   status: string;
   emailVerified: boolean;
+  awaitingConfirmation?: boolean; // returned on creation for an email that already has an identity
   createdAt: Date;
   updatedAt: Date;
 }
@@ -118,6 +152,7 @@ export class TenantAdminService {
       lastName: member.lastName,
       role: member.role,
       specializations: member.specializations,
+      roleId: member.roleId?.toString(),
       permissions: member.permissions,
       isActive: member.isActive,
       lastLogin: member.lastLogin,
@@ -151,7 +186,7 @@ export class TenantAdminService {
       deletedAt: null 
     });
 
-    if (!tenant.canAddTeamMember(currentCount)) {
+    if (!(await tenant.canAddTeamMember(currentCount))) {
       throw new Error('Team member limit reached for this tenant');
     }
 
@@ -170,22 +205,40 @@ export class TenantAdminService {
     const sanitizedFirstName = SecurityUtils.sanitizeInput(input.firstName);
     const sanitizedLastName = SecurityUtils.sanitizeInput(input.lastName);
 
-    // Hash password
-    const hashedPassword = await bcrypt.hash(input.password, config.BCRYPT_SALT_ROUNDS);
+    // A custom role supplies the permissions
+    const customRole = input.roleId ? await RoleService.findRole(tenantId, input.roleId) : null;
+
+    await IdentityService.validateNewCredentials(input.email, input.password, tenantId);
 
     // Create team member
     const teamMember: HydratedDocument<ITenantTeamMember> = await TenantTeamMember.create({
       tenantId,
       email: input.email.toLowerCase(),
-      password: hashedPassword,
       firstName: sanitizedFirstName,
       lastName: sanitizedLastName,
       role: input.role || 'case_manager',
       specializations: input.specializations || [],
-      permissions: input.permissions || [],
+      roleId: customRole?._id,
+      permissions: customRole ? customRole.permissions : input.permissions || [],
       isActive: true
     });
 
+    // An email already known to the platform keeps its existing password once its holder confirms
+    const linkResult = await IdentityService.linkPrincipal(teamMember.email, input.password, {
+      principalType: 'team_member',
+      principalId: teamMember._id.toString(),
+      tenantId
+    });
+    const awaitingConfirmation = linkResult === 'pending_confirmation';
+
+    // Delivery failures are logged; the member can request a new link after signing in
+    AccountTokenService.sendEmailVerification('team_member', teamMember._id.toString(), awaitingConfirmation).catch(error => {
+      logger.error('Team member verification email failed', {
+        teamMemberId: teamMember._id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+
     return {
       id: teamMember._id.toString(),
       tenantId: teamMember.tenantId.toString(),
@@ -194,8 +247,10 @@ export class TenantAdminService {
       lastName: teamMember.lastName,
       role: teamMember.role,
       specializations: teamMember.specializations,
+      roleId: teamMember.roleId?.toString(),
       permissions: teamMember.permissions,
       isActive: teamMember.isActive,
+      awaitingConfirmation,
       createdAt: teamMember.createdAt,
       updatedAt: teamMember.updatedAt
     };
@@ -224,11 +279,23 @@ export class TenantAdminService {
     if (input.lastName) teamMember.lastName = SecurityUtils.sanitizeInput(input.lastName);
     if (input.role) teamMember.role = input.role;
     if (input.specializations) teamMember.specializations = input.specializations;
-    if (input.permissions) teamMember.permissions = input.permissions;
+    if (input.roleId !== undefined) {
+      const customRole = input.roleId ? await RoleService.findRole(tenantId, input.roleId) : null;
+      teamMember.roleId = customRole?._id;
+      if (customRole) teamMember.permissions = customRole.permissions;
+    }
+    // Members with a custom role get their permissions from it
+    if (input.permissions && !teamMember.roleId) teamMember.permissions = input.permissions;
     if (input.isActive !== undefined) teamMember.isActive = input.isActive;
 
+    // Existing sessions must not keep the old rights until their tokens expire
+    const accessChanged = teamMember.isModified(['role', 'permissions', 'isActive']);
     await teamMember.save();
 
+    if (accessChanged) {
+      await PermissionVersionService.getInstance().bumpAccount('team_member', teamMember._id.toString());
+    }
+
     return {
       id: teamMember._id.toString(),
       tenantId: teamMember.tenantId.toString(),
@@ -237,6 +304,7 @@ export class TenantAdminService {
       lastName: teamMember.lastName,
       role: teamMember.role,
       specializations: teamMember.specializations,
+      roleId: teamMember.roleId?.toString(),
       permissions: teamMember.permissions,
       isActive: teamMember.isActive,
       lastLogin: teamMember.lastLogin,
@@ -276,6 +344,8 @@ export class TenantAdminService {
     // Soft delete
     teamMember.deletedAt = new Date();
     await teamMember.save();
+    await PermissionVersionService.getInstance().bumpAccount('team_member', teamMember._id.toString());
+    await IdentityService.unlinkPrincipal('team_member', teamMember._id.toString());
 
     return true;
   }
@@ -337,7 +407,7 @@ export class TenantAdminService {
       deletedAt: null 
     });
 
-    if (!tenant.canAddClient(currentCount)) {
+    if (!(await tenant.canAddClient(currentCount))) {
       throw new Error('Client limit reached for this tenant');
     }
 
@@ -352,6 +422,11 @@ export class TenantAdminService {
       throw new Error('Client with this email already exists in your organization');
     }
 
+    // Without an explicit team member, the tenant's assignment strategy picks one
+    const assignedTo = input.assignedTo
+      ?? await ClientAssignmentService.selectTeamMember(tenantId, input.applicationType)
+      ?? undefined;
+
     // If assignedTo is provided, verify the team member exists and is active
     if (input.assignedTo) {
       const teamMember = await TenantTeamMember.findOne({
@@ -376,21 +451,18 @@ export class TenantAdminService {
     const sanitizedPhone = input.phone ? SecurityUtils.sanitizeInput(input.phone) : undefined;
     const sanitizedNationality = input.nationality ? SecurityUtils.sanitizeInput(input.nationality) : undefined;
 
-    // Hash password
-    const hashedPassword = await bcrypt.hash(input.password, config.BCRYPT_SALT_ROUNDS);
+    await IdentityService.validateNewCredentials(input.email, input.password, tenantId);
 
     // Create client
     const client: HydratedDocument<IUser> = await User.create({
       tenantId,
-      assignedTo: input.assignedTo,
+      assignedTo,
       email: input.email.toLowerCase(),
-      password: hashedPassword,
       firstName: sanitizedFirstName,
       lastName: sanitizedLastName,
       applicationType: input.applicationType,
       status: 'pending',
       emailVerified: false,
-      loginAttempts: 0,
       profile: {
         phone: sanitizedPhone,
         dateOfBirth: input.dateOfBirth,
@@ -412,6 +484,24 @@ export class TenantAdminService {
       }
     });
 
+    // An email already known to the platform keeps its existing password once its holder confirms
+    const linkResult = await IdentityService.linkPrincipal(client.email, input.password, {
+      principalType: 'client',
+      principalId: client._id.toString(),
+      tenantId
+    });
+    const awaitingConfirmation = linkResult === 'pending_confirmation';
+
+    // Delivery failures are logged; the account can be removed and created again to resend it
+    if (awaitingConfirmation) {
+      AccountTokenService.sendEmailVerification('client', client._id.toString(), true).catch(error => {
+        logger.error('Client confirmation email failed', {
+          clientId: client._id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }
+
     return {
       id: client._id.toString(),
       tenantId: client.tenantId.toString(),
@@ -424,11 +514,207 @@ export class TenantAdminService {
       nationality: client.profile?.nationality,
       status: client.status,
       emailVerified: client.emailVerified,
+      awaitingConfirmation,
       createdAt: client.createdAt,
       updatedAt: client.updatedAt
     };
   }
 
+  /**
+   * Get a single client
+   */
+  static async getClient(tenantId: string, clientId: string): Promise<ClientResponse | null> {
+    const client = await User.findOne({
+      _id: clientId,
+      tenantId,
+      deletedAt: null
+    })
+      .populate<{ assignedTo: { _id: unknown; firstName: string; lastName: string } | null }>('assignedTo', 'firstName lastName')
+      .lean();
+
+    if (!client) {
+      return null;
+    }
+
+    return {
+      id: client._id.toString(),
+      tenantId: client.tenantId.toString(),
+      assignedTo: client.assignedTo ? String(client.assignedTo._id) : undefined,
+      assignedToName: client.assignedTo
+        ? `${client.assignedTo.firstName} ${client.assignedTo.lastName}`
+        : undefined,
+      email: client.email,
+      firstName: client.firstName,
+      lastName: client.lastName,
+      phone: client.profile?.phone,
+      dateOfBirth: client.profile?.dateOfBirth ? String(client.profile.dateOfBirth) : undefined,
+      nationality: client.profile?.nationality,
+      status: client.status,
+      emailVerified: client.emailVerified,
+      createdAt: client.createdAt,
+      updatedAt: client.updatedAt
+    };
+  }
+
+  /**
+   * Update client details, status and assignment
+   */
+  static async updateClient(
+    tenantId: string,
+    clientId: string,
+    input: UpdateClientInput
+  ): Promise<ClientResponse | null> {
+    const client = await User.findOne({
+      _id: clientId,
+      tenantId,
+      deletedAt: null
+    });
+
+    if (!client) {
+      return null;
+    }
+
+    // Sanitize string inputs before update
+    if (input.firstName) client.firstName = SecurityUtils.sanitizeInput(input.firstName);
+    if (input.lastName) client.lastName = SecurityUtils.sanitizeInput(input.lastName);
+    if (input.phone !== undefined) client.profile.phone = SecurityUtils.sanitizeInput(input.phone);
+    if (input.dateOfBirth !== undefined) client.profile.dateOfBirth = new Date(input.dateOfBirth);
+    if (input.nationality !== undefined) client.profile.nationality = SecurityUtils.sanitizeInput(input.nationality);
+    if (input.status) client.status = input.status;
+
+    const assignmentChanged = input.assignedTo !== undefined &&
+      (input.assignedTo || undefined) !== client.assignedTo?.toString();
+
+    if (assignmentChanged) {
+      if (input.assignedTo) {
+        const teamMember = await this.findAssignableTeamMember(tenantId, input.assignedTo);
+        client.assignedTo = teamMember._id;
+      } else {
+        client.assignedTo = undefined;
+      }
+    }
+
+    const statusChanged = client.isModified('status');
+    await client.save();
+
+    if (statusChanged) {
+      await PermissionVersionService.getInstance().bumpAccount('client', client._id.toString());
+    }
+
+    if (assignmentChanged) {
+      await this.syncApplicationAssignments(tenantId, [client._id.toString()], input.assignedTo || null);
+    }
+
+    return this.getClient(tenantId, client._id.toString());
+  }
+
+  /**
+   * Delete client (soft delete)
+   */
+  static async deleteClient(tenantId: string, clientId: string): Promise<boolean> {
+    const client = await User.findOne({
+      _id: clientId,
+      tenantId,
+      deletedAt: null
+    });
+
+    if (!client) {
+      return false;
+    }
+
+    // Soft delete
+    client.status = 'inactive';
+    client.deletedAt = new Date();
+    await client.save();
+    await PermissionVersionService.getInstance().bumpAccount('client', client._id.toString());
+    await IdentityService.unlinkPrincipal('client', client._id.toString());
+
+    return true;
+  }
+
+  /**
+   * Move clients to another team member, or unassign them
+   * All clients must belong to the tenant; the target must be an active team member of the same tenant
+   */
+  static async reassignClients(
+    tenantId: string,
+    clientIds: string[],
+    teamMemberId: string | null
+  ): Promise<ReassignClientsResult> {
+    const uniqueClientIds = [...new Set(clientIds.map(id => ValidationUtils.validateObjectId(id, 'Client ID')))];
+
+    const teamMember = teamMemberId
+      ? await this.findAssignableTeamMember(tenantId, teamMemberId)
+      : null;
+
+    const clientCount = await User.countDocuments({
+      _id: { $in: uniqueClientIds },
+      tenantId,
+      deletedAt: null
+    });
+
+    if (clientCount !== uniqueClientIds.length) {
+      throw new Error('One or more clients not found');
+    }
+
+    const result = await User.updateMany(
+      { _id: { $in: uniqueClientIds }, tenantId, deletedAt: null },
+      teamMember ? { $set: { assignedTo: teamMember._id } } : { $unset: { assignedTo: 1 } }
+    );
+
+    await this.syncApplicationAssignments(tenantId, uniqueClientIds, teamMember ? teamMember._id.toString() : null);
+
+    return {
+      reassigned: result.modifiedCount,
+      assignedTo: teamMember ? teamMember._id.toString() : null,
+      assignedToName: teamMember ? `${teamMember.firstName} ${teamMember.lastName}` : undefined
+    };
+  }
+
+  /**
+   * Helper: Load a team member that clients may be assigned to
+   */
+  private static async findAssignableTeamMember(
+    tenantId: string,
+    teamMemberId: string
+  ): Promise<HydratedDocument<ITenantTeamMember>> {
+    const teamMember = await TenantTeamMember.findOne({
+      _id: ValidationUtils.validateObjectId(teamMemberId, 'Team Member ID'),
+      tenantId,
+      deletedAt: null
+    });
+
+    if (!teamMember) {
+      throw new Error('Assigned team member not found');
+    }
+
+    // Clients are only assigned to active team members
+    if (!teamMember.isActive) {
+      throw new Error('Cannot assign client to inactive team member');
+    }
+
+    return teamMember;
+  }
+
+  /**
+   * Helper: Open applications follow their client's team member
+   */
+  private static async syncApplicationAssignments(
+    tenantId: string,
+    clientIds: string[],
+    teamMemberId: string | null
+  ): Promise<void> {
+    await Application.updateMany(
+      {
+        tenantId,
+        clientId: { $in: clientIds },
+        status: { $nin: ['approved', 'rejected'] },
+        deletedAt: null
+      },
+      teamMemberId ? { $set: { assignedTo: teamMemberId } } : { $unset: { assignedTo: 1 } }
+    );
+  }
+
   /**
    * Get tenant analytics
    * PERFORMANCE FIX: Optimize queries with Promise.all
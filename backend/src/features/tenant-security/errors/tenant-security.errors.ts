@@ -0,0 +1,51 @@
+/**
+ * Tenant Security Custom Error Classes
+ * Provides type-safe error handling with proper HTTP status codes
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Better error handling with custom error types
+ */
+
+/**
+ * Base Tenant Security Error
+ */
+export class TenantSecurityError extends Error {
+  public readonly statusCode: number;
+  public readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Security Tenant Not Found Error (404 Not Found)
+ */
+export class SecurityTenantNotFoundError extends TenantSecurityError {
+  constructor() {
+    super(
+      'Tenant not found',
+      404,
+      'TENANT_NOT_FOUND'
+    );
+  }
+}
+
+/**
+ * Own IP Not Allowed Error (400 Bad Request)
+ * Saving the ranges would lock out the admin making the change
+ */
+export class OwnIpNotAllowedError extends TenantSecurityError {
+  constructor() {
+    super(
+      'Your current IP address is outside the allowed ranges; saving would sign you out',
+      400,
+      'OWN_IP_NOT_ALLOWED'
+    );
+  }
+}
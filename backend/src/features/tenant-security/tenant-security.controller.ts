@@ -0,0 +1,130 @@
+/**
+ * Tenant Security Controller
+ * Handles tenant-wide security settings for tenant admins
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 1: No console.log (using logger)
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ */
+
+import { Request, Response } from 'express';
+import { TenantSecurityService } from './tenant-security.service';
+import { TenantSecurityError } from './errors/tenant-security.errors';
+import { UpdateSecuritySettingsInput } from './tenant-security.schemas';
+import logger from '../../utils/logger';
+
+/**
+ * Tenant Security Controller
+ */
+export class TenantSecurityController {
+  /**
+   * Get security settings
+   * GET /api/v1/tenant-admin/settings/security
+   */
+  static async getSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const settings = await TenantSecurityService.getSettings(tenantId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          settings
+        }
+      });
+    } catch (error) {
+      logger.error('Get security settings failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId: req.user?.tenantId
+      });
+
+      if (error instanceof TenantSecurityError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SECURITY_SETTINGS_FETCH_FAILED',
+          message: 'Failed to fetch security settings'
+        }
+      });
+    }
+  }
+
+  /**
+   * Update security settings
+   * PUT /api/v1/tenant-admin/settings/security
+   */
+  static async updateSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const input = req.body as UpdateSecuritySettingsInput;
+      const settings = await TenantSecurityService.updateSettings(tenantId, input, req.ip);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          settings,
+          message: 'Security settings updated successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Update security settings failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tenantId: req.user?.tenantId
+      });
+
+      if (error instanceof TenantSecurityError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SECURITY_SETTINGS_UPDATE_FAILED',
+          message: 'Failed to update security settings'
+        }
+      });
+    }
+  }
+}
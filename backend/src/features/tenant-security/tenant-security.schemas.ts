@@ -0,0 +1,52 @@
+/**
+ * Tenant Security Zod Validation Schemas
+ * Input validation for tenant-wide security settings
+ *
+ * Following CORE-CRITICAL Rule 12: Validate ALL external data
+ */
+
+import { z } from 'zod';
+import { SECURITY_POLICY_LIMITS } from '../../config/security-policy.config';
+import { SecurityUtils } from '../../utils/auth.utils';
+
+const limits = SECURITY_POLICY_LIMITS;
+
+/**
+ * Security Policy Schema
+ */
+const securityPolicySchema = z.object({
+  passwordMinLength: z.number().int()
+    .min(limits.passwordMinLength.min, `Minimum length cannot be below ${limits.passwordMinLength.min}`)
+    .max(limits.passwordMinLength.max),
+  passwordRequireUppercase: z.boolean(),
+  passwordRequireLowercase: z.boolean(),
+  passwordRequireNumber: z.boolean(),
+  passwordRequireSymbol: z.boolean(),
+  passwordBlockBreached: z.boolean(),
+  passwordMaxAgeDays: z.number().int().min(limits.passwordMaxAgeDays.min).max(limits.passwordMaxAgeDays.max),
+  passwordHistoryCount: z.number().int().min(limits.passwordHistoryCount.min).max(limits.passwordHistoryCount.max),
+  maxLoginAttempts: z.number().int().min(limits.maxLoginAttempts.min).max(limits.maxLoginAttempts.max),
+  lockoutDurationMinutes: z.number().int().min(limits.lockoutDurationMinutes.min).max(limits.lockoutDurationMinutes.max),
+  idleSessionTimeoutMinutes: z.number().int()
+    .min(limits.idleSessionTimeoutMinutes.min)
+    .max(limits.idleSessionTimeoutMinutes.max),
+  allowedIpRanges: z.array(
+    z.string().trim().refine(range => SecurityUtils.isValidCidr(range), {
+      message: 'Invalid IP range (use CIDR notation, e.g. 203.0.113.0/24)'
+    })
+  ).max(limits.allowedIpRanges.max, `At most ${limits.allowedIpRanges.max} IP ranges`)
+});
+
+/**
+ * Update Security Settings Schema
+ * The policy is optional so the MFA switch can be saved on its own
+ */
+export const updateSecuritySettingsSchema = z.object({
+  body: z.object({
+    requireStaffMfa: z.boolean(),
+    securityPolicy: securityPolicySchema.optional()
+  })
+});
+
+// Type exports
+export type UpdateSecuritySettingsInput = z.infer<typeof updateSecuritySettingsSchema>['body'];
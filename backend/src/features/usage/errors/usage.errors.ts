@@ -0,0 +1,50 @@
+/**
+ * Usage Custom Error Classes
+ * Provides type-safe error handling with proper HTTP status codes
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Better error handling with custom error types
+ */
+
+/**
+ * Base Usage Error
+ */
+export class UsageError extends Error {
+  public readonly statusCode: number;
+  public readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Usage Tenant Not Found Error (404 Not Found)
+ */
+export class UsageTenantNotFoundError extends UsageError {
+  constructor(tenantId: string) {
+    super(
+      `Tenant with ID '${tenantId}' not found`,
+      404,
+      'TENANT_NOT_FOUND'
+    );
+  }
+}
+
+/**
+ * Future Usage Period Error (400 Bad Request)
+ */
+export class FutureUsagePeriodError extends UsageError {
+  constructor(period: string) {
+    super(
+      `Usage for ${period} is not available yet`,
+      400,
+      'INVALID_USAGE_PERIOD'
+    );
+  }
+}
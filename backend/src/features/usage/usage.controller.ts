@@ -0,0 +1,124 @@
+/**
+ * Usage Controller
+ * Handles usage reports for tenant admins and super admins
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 1: No console.log (using logger)
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ */
+
+import { Request, Response } from 'express';
+import { UsageService } from './usage.service';
+import { UsageError } from './errors/usage.errors';
+import { GetUsageQuery } from './usage.schemas';
+import logger from '../../utils/logger';
+
+/**
+ * Usage Controller
+ */
+export class UsageController {
+  /**
+   * Get usage of the signed-in tenant admin's tenant
+   * GET /api/v1/tenant-admin/usage
+   */
+  static async getMyUsage(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const { period } = req.query as GetUsageQuery;
+      const usage = await UsageService.getTenantUsage(tenantId, period);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          usage
+        }
+      });
+    } catch (error) {
+      UsageController.handleError(req, res, error, 'Get tenant usage failed');
+    }
+  }
+
+  /**
+   * Get usage of all tenants
+   * GET /api/v1/super-admin/usage
+   */
+  static async getAllUsage(req: Request, res: Response): Promise<void> {
+    try {
+      const { period } = req.query as GetUsageQuery;
+      const usage = await UsageService.getAllTenantsUsage(period);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          usage,
+          count: usage.length
+        }
+      });
+    } catch (error) {
+      UsageController.handleError(req, res, error, 'Get all tenants usage failed');
+    }
+  }
+
+  /**
+   * Get usage of one tenant
+   * GET /api/v1/super-admin/tenants/:id/usage
+   */
+  static async getTenantUsage(req: Request, res: Response): Promise<void> {
+    try {
+      const { period } = req.query as GetUsageQuery;
+      const usage = await UsageService.getTenantUsage(req.params.id, period);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          usage
+        }
+      });
+    } catch (error) {
+      UsageController.handleError(req, res, error, 'Get tenant usage failed');
+    }
+  }
+
+  /**
+   * Helper: Send usage errors in the API error shape
+   */
+  private static handleError(req: Request, res: Response, error: unknown, logMessage: string): void {
+    logger.error(logMessage, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      userId: req.user?.userId,
+      tenantId: req.params.id ?? req.user?.tenantId
+    });
+
+    if (error instanceof UsageError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'USAGE_FETCH_FAILED',
+        message: 'Failed to fetch usage'
+      }
+    });
+  }
+}
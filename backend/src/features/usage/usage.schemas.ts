@@ -0,0 +1,40 @@
+/**
+ * Usage Zod Validation Schemas
+ * Input validation for usage metering endpoints
+ *
+ * Following CORE-CRITICAL Rule 12: Validate ALL external data
+ */
+
+import { z } from 'zod';
+import { schemas } from '../../utils/zod.schemas';
+
+/**
+ * Billing period (YYYY-MM), defaults to the current month
+ */
+const periodSchema = z.string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Period must be in YYYY-MM format')
+  .optional();
+
+/**
+ * Get Usage Schema
+ */
+export const getUsageSchema = z.object({
+  query: z.object({
+    period: periodSchema
+  })
+});
+
+/**
+ * Get Tenant Usage Schema
+ */
+export const getTenantUsageSchema = z.object({
+  params: z.object({
+    id: schemas.objectId
+  }),
+  query: z.object({
+    period: periodSchema
+  })
+});
+
+// Export types
+export type GetUsageQuery = z.infer<typeof getUsageSchema>['query'];
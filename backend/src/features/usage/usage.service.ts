@@ -0,0 +1,193 @@
+/**
+ * Usage Service
+ * Reports metered tenant usage against the limits of the tenant's plan
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ * - Rule 12: Validate ALL external data
+ */
+
+import { Tenant } from '../../models/tenant.model';
+import { SubscriptionPlan, ISubscriptionPlan } from '../../models/subscription-plan.model';
+import { UsageRecord, UsageMetric } from '../../models/usage-record.model';
+import UsageMeteringService from '../../services/usage-metering.service';
+import { ValidationUtils } from '../../utils/validation.utils';
+import { UsageTenantNotFoundError, FutureUsagePeriodError } from './errors/usage.errors';
+
+/**
+ * Tenant Usage Response Interface
+ * Limits are those of the tenant's current plan, also for past periods
+ */
+export interface TenantUsageResponse {
+  tenantId: string;
+  tenantName: string;
+  period: string; // YYYY-MM
+  periodStart: Date;
+  periodEnd: Date; // exclusive
+  plan?: {
+    id: string;
+    slug: string;
+    name: string;
+  };
+  usage: Record<UsageMetric, number>;
+  limits: Record<UsageMetric, number> | null; // null when the plan is missing
+  measuredAt: Date | null; // when storage, clients and seats were measured
+}
+
+const EMPTY_USAGE: Record<UsageMetric, number> = {
+  apiCalls: 0,
+  documentUploads: 0,
+  storageBytes: 0,
+  activeClients: 0,
+  seats: 0
+};
+
+/**
+ * Usage Service
+ */
+export class UsageService {
+  /**
+   * Get the usage of one tenant
+   * The current period is measured live; past periods come from UsageRecord
+   *
+   * @param period - Billing period (YYYY-MM), defaults to the current month
+   */
+  static async getTenantUsage(tenantId: string, period?: string): Promise<TenantUsageResponse> {
+    const validatedTenantId = ValidationUtils.validateObjectId(tenantId, 'Tenant ID');
+    const currentPeriod = UsageMeteringService.getPeriod();
+    const requestedPeriod = this.resolvePeriod(period, currentPeriod);
+
+    const tenant = await Tenant.findById(validatedTenantId).select('name planId');
+    if (!tenant) {
+      throw new UsageTenantNotFoundError(validatedTenantId);
+    }
+
+    const plan = await SubscriptionPlan.findById(tenant.planId);
+
+    if (requestedPeriod === currentPeriod) {
+      const meter = UsageMeteringService.getInstance();
+      const [counters, gauges] = await Promise.all([
+        meter.getCounters(validatedTenantId, requestedPeriod),
+        meter.measureGauges(validatedTenantId)
+      ]);
+
+      return this.toResponse(validatedTenantId, tenant.name, requestedPeriod, plan, { ...counters, ...gauges }, new Date());
+    }
+
+    const record = await UsageRecord.findOne({ tenantId: validatedTenantId, period: requestedPeriod }).lean();
+
+    return this.toResponse(
+      validatedTenantId,
+      tenant.name,
+      requestedPeriod,
+      plan,
+      record ? this.pickUsage(record) : EMPTY_USAGE,
+      record?.flushedAt ?? null
+    );
+  }
+
+  /**
+   * Get the usage of every tenant in a period
+   * Counters of the current period include calls not flushed yet; storage,
+   * clients and seats are as of the last flush
+   *
+   * @param period - Billing period (YYYY-MM), defaults to the current month
+   */
+  static async getAllTenantsUsage(period?: string): Promise<TenantUsageResponse[]> {
+    const currentPeriod = UsageMeteringService.getPeriod();
+    const requestedPeriod = this.resolvePeriod(period, currentPeriod);
+
+    const tenants = await Tenant.find({ deletedAt: null }).select('name planId').sort({ name: 1 }).lean();
+    const [plans, records] = await Promise.all([
+      SubscriptionPlan.find({ _id: { $in: tenants.map(tenant => tenant.planId) } }),
+      UsageRecord.find({ tenantId: { $in: tenants.map(tenant => tenant._id) }, period: requestedPeriod }).lean()
+    ]);
+
+    const plansById = new Map(plans.map(plan => [plan._id.toString(), plan]));
+    const recordsByTenant = new Map(records.map(record => [record.tenantId.toString(), record]));
+    const meter = UsageMeteringService.getInstance();
+
+    return Promise.all(tenants.map(async tenant => {
+      const tenantId = tenant._id.toString();
+      const record = recordsByTenant.get(tenantId);
+      const usage = record ? this.pickUsage(record) : { ...EMPTY_USAGE };
+
+      if (requestedPeriod === currentPeriod) {
+        const live = await meter.getLiveCounters(tenantId, requestedPeriod);
+        usage.apiCalls = Math.max(usage.apiCalls, live.apiCalls);
+        usage.documentUploads = Math.max(usage.documentUploads, live.documentUploads);
+      }
+
+      return this.toResponse(
+        tenantId,
+        tenant.name,
+        requestedPeriod,
+        plansById.get(tenant.planId?.toString()) ?? null,
+        usage,
+        record?.flushedAt ?? null
+      );
+    }));
+  }
+
+  /**
+   * Helper: Default to the current period and reject future ones
+   */
+  private static resolvePeriod(period: string | undefined, currentPeriod: string): string {
+    if (!period) {
+      return currentPeriod;
+    }
+    // YYYY-MM strings sort chronologically
+    if (period > currentPeriod) {
+      throw new FutureUsagePeriodError(period);
+    }
+    return period;
+  }
+
+  /**
+   * Helper: Metrics of a usage record
+   */
+  private static pickUsage(record: Record<UsageMetric, number>): Record<UsageMetric, number> {
+    return {
+      apiCalls: record.apiCalls,
+      documentUploads: record.documentUploads,
+      storageBytes: record.storageBytes,
+      activeClients: record.activeClients,
+      seats: record.seats
+    };
+  }
+
+  /**
+   * Helper: Format usage response
+   */
+  private static toResponse(
+    tenantId: string,
+    tenantName: string,
+    period: string,
+    plan: ISubscriptionPlan | null,
+    usage: Record<UsageMetric, number>,
+    measuredAt: Date | null
+  ): TenantUsageResponse {
+    const { start, end } = UsageMeteringService.getPeriodBounds(period);
+
+    return {
+      tenantId,
+      tenantName,
+      period,
+      periodStart: start,
+      periodEnd: end,
+      plan: plan ? { id: plan._id.toString(), slug: plan.slug, name: plan.name } : undefined,
+      usage,
+      limits: plan
+        ? {
+          apiCalls: plan.limits.apiCallsPerMonth,
+          documentUploads: plan.limits.documentUploadsPerMonth,
+          storageBytes: plan.limits.maxStorage * 1024 * 1024, // maxStorage is in MB
+          activeClients: plan.limits.maxClients,
+          seats: plan.limits.maxTeamMembers
+        }
+        : null,
+      measuredAt
+    };
+  }
+}
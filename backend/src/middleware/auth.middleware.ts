@@ -6,11 +6,32 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { JWTUtils } from '../utils/auth.utils';
+import { JWTUtils, SecurityUtils } from '../utils/auth.utils';
+import TokenDenylistService from '../services/token-denylist.service';
+import PermissionVersionService from '../services/permission-version.service';
+import SecurityPolicyService from '../services/security-policy.service';
+import SessionActivityService from '../services/session-activity.service';
+import { IP_RESTRICTED_USER_TYPES } from '../config/security-policy.config';
+import { PermissionKey } from '../config/permissions.config';
 import logger from '../utils/logger';
 import rateLimit from 'express-rate-limit';
 import { config } from '../config/env.config';
 
+/**
+ * Real user behind an impersonation session (impersonatedBy claim)
+ */
+export interface Impersonator {
+  userId: string;
+  userType: 'super_admin' | 'tenant_admin';
+  email: string;
+}
+
+// Methods a read-only impersonation session may use
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Ending the session is the one write a read-only impersonation may make
+const IMPERSONATION_END_PATH = `/api/${config.API_VERSION}/auth/impersonation/end`;
+
 /**
  * Extend Express Request interface to include user and tenant
  */
@@ -23,6 +44,10 @@ declare global {
         tenantId?: string;
         email: string;
         permissions: string[];
+        tokenId?: string; // access token jti, denylisted on logout
+        tokenExpiresAt?: number; // access token exp (seconds since epoch)
+        impersonatedBy?: Impersonator; // real user behind an impersonation session
+        readOnly?: boolean; // impersonation sessions limited to reads
       };
       tenantId?: string;
       requestId?: string;
@@ -72,8 +97,8 @@ export const authenticateToken = async (
 
     const token = parts[1];
     
-    // Validate token length (JWT is typically 100-500 chars)
-    if (token.length < 20 || token.length > 1000) {
+    // Validate token length (tokens carry permissions and, when impersonating, the impersonator)
+    if (token.length < 20 || token.length > 2048) {
       res.status(401).json({
         success: false,
         error: {
@@ -92,6 +117,84 @@ export const authenticateToken = async (
       throw new Error('Invalid token payload');
     }
 
+    // Reject tokens revoked by logout or "log out all devices"
+    if (await TokenDenylistService.getInstance().isRevoked({
+      jti: decoded.jti,
+      iat: decoded.iat,
+      userType: decoded.userType,
+      userId: decoded.userId
+    })) {
+      throw new Error('Token has been revoked');
+    }
+
+    // An impersonation also ends when the impersonator signs out everywhere
+    const impersonatedBy: Impersonator | undefined = decoded.impersonatedBy;
+    if (impersonatedBy && await TokenDenylistService.getInstance().isRevoked({
+      iat: decoded.iat,
+      userType: impersonatedBy.userType,
+      userId: impersonatedBy.userId
+    })) {
+      throw new Error('Impersonator session has been revoked');
+    }
+
+    // Reject tokens minted before a permission, role or status change;
+    // the client refreshes to pick up the current permissions
+    if (!await PermissionVersionService.getInstance().isCurrent({
+      pv: decoded.pv,
+      userType: decoded.userType,
+      userId: decoded.userId,
+      tenantId: decoded.tenantId
+    })) {
+      logger.info('Access token has outdated permissions', {
+        userId: decoded.userId,
+        userType: decoded.userType
+      });
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'PERMISSIONS_CHANGED',
+          message: 'Your permissions have changed. Please refresh your session.'
+        }
+      });
+      return;
+    }
+
+    // Tenant security policy: staff IP ranges and idle session timeout
+    if (decoded.tenantId) {
+      const policy = await SecurityPolicyService.getInstance().getPolicy(decoded.tenantId);
+
+      // Impersonation is held to the network rules of the real user
+      if (
+        IP_RESTRICTED_USER_TYPES.includes(impersonatedBy?.userType ?? decoded.userType) &&
+        policy.allowedIpRanges.length > 0 &&
+        !SecurityUtils.isIpInRanges(req.ip || '', policy.allowedIpRanges)
+      ) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'IP_NOT_ALLOWED',
+            message: 'Access is not allowed from this network'
+          }
+        });
+        return;
+      }
+
+      if (policy.idleSessionTimeoutMinutes > 0 && decoded.sid) {
+        const activity = SessionActivityService.getInstance();
+        if (await activity.isIdle(decoded.sid, decoded.iat, policy.idleSessionTimeoutMinutes)) {
+          res.status(401).json({
+            success: false,
+            error: {
+              code: 'SESSION_IDLE_TIMEOUT',
+              message: 'Your session ended after a period of inactivity. Please sign in again.'
+            }
+          });
+          return;
+        }
+        await activity.touch(decoded.sid, policy.idleSessionTimeoutMinutes);
+      }
+    }
+
     // Extract user information from token
     const { userId, userType, tenantId, email, permissions } = decoded;
 
@@ -101,7 +204,10 @@ export const authenticateToken = async (
       userType,
       tenantId,
       email,
-      permissions: permissions || []
+      permissions: permissions || [],
+      tokenId: decoded.jti,
+      tokenExpiresAt: decoded.exp,
+      ...(impersonatedBy && { impersonatedBy, readOnly: decoded.readOnly === true })
     };
 
     // Set tenantId for non-super-admin users
@@ -109,6 +215,21 @@ export const authenticateToken = async (
       req.tenantId = tenantId;
     }
 
+    if (
+      req.user.readOnly &&
+      !READ_ONLY_METHODS.includes(req.method) &&
+      req.originalUrl.split('?')[0] !== IMPERSONATION_END_PATH
+    ) {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'IMPERSONATION_READ_ONLY',
+          message: 'This impersonation session is read-only'
+        }
+      });
+      return;
+    }
+
     logger.debug('User authenticated', { 
       userId, 
       userType, 
@@ -157,12 +278,26 @@ export const optionalAuth = async (
         const token = parts[1];
         
         // Validate token length
-        if (token.length >= 20 && token.length <= 1000) {
+        if (token.length >= 20 && token.length <= 2048) {
           // Verify token if present and valid
           const decoded = JWTUtils.verifyAccessToken(token);
           
-          // Validate decoded payload
-          if (decoded.userId && decoded.userType && decoded.email) {
+          // Validate decoded payload; revoked or outdated tokens are treated as absent
+          const isRevoked = decoded.userId && await TokenDenylistService.getInstance().isRevoked({
+            jti: decoded.jti,
+            iat: decoded.iat,
+            userType: decoded.userType,
+            userId: decoded.userId
+          });
+          const isCurrent = decoded.userId && decoded.userType && !isRevoked &&
+            await PermissionVersionService.getInstance().isCurrent({
+              pv: decoded.pv,
+              userType: decoded.userType,
+              userId: decoded.userId,
+              tenantId: decoded.tenantId
+            });
+
+          if (decoded.userId && decoded.userType && decoded.email && isCurrent) {
             // Extract user information from token
             const { userId, userType, tenantId, email, permissions } = decoded;
 
@@ -172,7 +307,13 @@ export const optionalAuth = async (
               userType,
               tenantId,
               email,
-              permissions: permissions || []
+              permissions: permissions || [],
+              tokenId: decoded.jti,
+              tokenExpiresAt: decoded.exp,
+              ...(decoded.impersonatedBy && {
+                impersonatedBy: decoded.impersonatedBy,
+                readOnly: decoded.readOnly === true
+              })
             };
 
             // Set tenantId for non-super-admin users
@@ -346,14 +487,46 @@ export const requireClient = (
   next();
 };
 
+/**
+ * No Impersonation Middleware
+ * Keeps credentials, second factors and further impersonation in the hands
+ * of the account holder, even in sessions that may write
+ * 
+ * @param req - Express request
+ * @param res - Express response
+ * @param next - Next function
+ */
+export const forbidImpersonation = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (req.user?.impersonatedBy) {
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'IMPERSONATION_NOT_ALLOWED',
+        message: 'This action is not available while impersonating another user'
+      }
+    });
+    return;
+  }
+
+  next();
+};
+
 /**
  * Permission-based Authorization Middleware (Enhanced)
  * Checks if user has required permission with validation
+ * Relies on authenticateToken having rejected tokens with an outdated
+ * permission version, so req.user.permissions are current
  * 
- * @param requiredPermissions - Required permissions (supports multiple)
+ * @param permission - Required permission; further ones are alternatives
  * @returns Middleware function
  */
-export const requirePermission = (...requiredPermissions: string[]) => {
+export const requirePermission = (permission: PermissionKey, ...alternatives: PermissionKey[]) => {
+  const requiredPermissions: string[] = [permission, ...alternatives];
+
   return (req: Request, res: Response, next: NextFunction): void => {
     if (!req.user) {
       res.status(401).json({
@@ -513,4 +686,4 @@ export const auditLog = (_action: string, _resource: string) => {
 };
 
 // Export alias for common usage
-export const authMiddleware = authenticateToken;
\ No newline at end of file
+export const authMiddleware = authenticateToken;
\ No newline at end of file
@@ -182,29 +182,32 @@ export const checkResourceOwnership = (resourceType: 'user' | 'tenant' | 'client
           }
           break;
 
-        case 'case':
-          // Similar logic for cases (TODO: implement when Case model exists)
-          if (req.user.userType === 'tenant_admin' && req.user.tenantId) {
-            // TODO: Implement when Case model is created
-            // const Case = (await import('../models/case.model')).Case;
-            // const caseDoc = await Case.findById(resourceId).select('tenantId');
-            // hasAccess = caseDoc?.tenantId?.toString() === req.user.tenantId;
-            hasAccess = true; // Temporary: allow tenant admin
+        case 'case': {
+          // Applications (case files) are always tenant-scoped
+          const { Application } = await import('../models/application.model');
+          const caseDoc = await Application.findById(resourceId).select('tenantId clientId assignedTo');
+
+          if (!caseDoc || caseDoc.tenantId.toString() !== req.user.tenantId) {
+            hasAccess = false;
+            break;
           }
-          
+
+          // Tenant admin can access every case in their tenant
+          if (req.user.userType === 'tenant_admin') {
+            hasAccess = true;
+          }
+
+          // Team member can access cases assigned to them
           if (!hasAccess && req.user.userType === 'team_member') {
-            // TODO: Implement assignment-based case access
-            hasAccess = true; // Temporary: allow team member
+            hasAccess = caseDoc.assignedTo?.toString() === req.user.userId;
           }
-          
+
+          // Client can access their own cases
           if (!hasAccess && req.user.userType === 'client') {
-            // TODO: Implement when Case model is created
-            // const Case = (await import('../models/case.model')).Case;
-            // const caseDoc = await Case.findById(resourceId).select('clientId');
-            // hasAccess = caseDoc?.clientId?.toString() === req.user.userId;
-            hasAccess = true; // Temporary: allow client
+            hasAccess = caseDoc.clientId.toString() === req.user.userId;
           }
           break;
+        }
       }
 
       if (!hasAccess) {
@@ -279,7 +279,7 @@ declare global {
         domain: string;
         name: string;
         status: string;
-        plan: string;
+        planId?: string;
       };
     }
   }
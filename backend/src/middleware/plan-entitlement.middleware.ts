@@ -0,0 +1,182 @@
+/**
+ * Plan Entitlement Middleware
+ * Enforces the features and limits of the tenant's subscription plan
+ *
+ * Both checks resolve the plan of the signed-in user's tenant. Users without a
+ * tenant (super admins) are not restricted. Failures use the same error shape
+ * everywhere so the frontend can offer an upgrade:
+ *   403 FEATURE_NOT_IN_PLAN  { feature, plan }
+ *   403 PLAN_LIMIT_EXCEEDED  { limit, max, plan }
+ *
+ * @module middleware/plan-entitlement
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { Tenant } from '../models/tenant.model';
+import { ISubscriptionPlan } from '../models/subscription-plan.model';
+import { FEATURE_APPLICATION_TYPES } from '../features/document-checklist/document-checklist.defaults';
+import {
+  SubscriptionPlanError,
+  FeatureNotInPlanError,
+  PlanLimitExceededError
+} from '../features/subscription-plan/errors/subscription-plan.errors';
+import UsageMeteringService from '../services/usage-metering.service';
+import logger from '../utils/logger';
+
+export type PlanFeature = keyof ISubscriptionPlan['features'];
+
+/**
+ * Plan limits that are counted per request rather than per resource
+ * (team members, clients and storage are checked by their services)
+ */
+export type PlanQuota = Extract<keyof ISubscriptionPlan['limits'], 'apiCallsPerMonth' | 'documentUploadsPerMonth'>;
+
+const FEATURE_LABELS: Record<PlanFeature, string> = {
+  visitorVisa: 'Visitor visa applications',
+  studyVisa: 'Study visa applications',
+  workPermit: 'Work permit applications',
+  permanentResidence: 'Permanent residence applications',
+  familySponsorship: 'Family sponsorship applications',
+  businessImmigration: 'Business immigration applications',
+  customBranding: 'Custom branding',
+  whiteLabel: 'White labelling',
+  prioritySupport: 'Priority support',
+  apiAccess: 'API access',
+  advancedAnalytics: 'Advanced analytics',
+  customIntegrations: 'Custom integrations'
+};
+
+const QUOTA_LABELS: Record<PlanQuota, string> = {
+  apiCallsPerMonth: 'API calls per month',
+  documentUploadsPerMonth: 'document uploads per month'
+};
+
+/**
+ * Helper: Current usage of a quota, from the tenant's usage meter
+ * Deleting a document does not give an upload back, and rejected API calls
+ * still count towards the month
+ */
+const getQuotaUsage = async (quota: PlanQuota, tenantId: string): Promise<number> => {
+  const counters = await UsageMeteringService.getInstance().getCounters(tenantId, UsageMeteringService.getPeriod());
+
+  switch (quota) {
+    case 'apiCallsPerMonth':
+      return counters.apiCalls;
+    case 'documentUploadsPerMonth':
+      return counters.documentUploads;
+  }
+};
+
+/**
+ * Feature flag that enables an application type
+ */
+export const applicationTypeFeature = (req: Request): PlanFeature | undefined => {
+  const entry = Object.entries(FEATURE_APPLICATION_TYPES)
+    .find(([, applicationType]) => applicationType === req.body?.type);
+  return entry?.[0] as PlanFeature | undefined;
+};
+
+/**
+ * Helper: Plan of the signed-in user's tenant, or null when there is none
+ */
+const getTenantPlan = async (req: Request): Promise<ISubscriptionPlan | null> => {
+  const tenantId = req.user?.tenantId;
+  if (!tenantId || !mongoose.Types.ObjectId.isValid(tenantId)) {
+    return null;
+  }
+
+  const tenant = await Tenant.findById(tenantId).select('planId');
+  return tenant ? tenant.getPlan() : null;
+};
+
+/**
+ * Helper: Send plan errors in the API error shape
+ */
+const handleEntitlementError = (req: Request, res: Response, error: unknown): void => {
+  if (error instanceof SubscriptionPlanError) {
+    logger.warn('Plan entitlement denied', {
+      userId: req.user?.userId,
+      tenantId: req.user?.tenantId,
+      code: error.code,
+      details: error.details,
+      path: req.originalUrl.split('?')[0]
+    });
+
+    res.status(error.statusCode).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        details: error.details
+      }
+    });
+    return;
+  }
+
+  logger.error('Plan entitlement check failed', {
+    userId: req.user?.userId,
+    tenantId: req.user?.tenantId,
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'PLAN_CHECK_FAILED',
+      message: 'Failed to check subscription plan'
+    }
+  });
+};
+
+/**
+ * Require a feature of the tenant's plan
+ *
+ * @param feature - Feature flag, or a resolver for features that depend on the
+ *                  request (e.g. the application type in the body). Requests
+ *                  the resolver returns undefined for are left to validation.
+ */
+export const requireFeature = (feature: PlanFeature | typeof applicationTypeFeature) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const requiredFeature = typeof feature === 'function' ? feature(req) : feature;
+      if (!requiredFeature) {
+        next();
+        return;
+      }
+
+      const plan = await getTenantPlan(req);
+      if (plan && !plan.features[requiredFeature]) {
+        throw new FeatureNotInPlanError(requiredFeature, FEATURE_LABELS[requiredFeature], plan.slug, plan.name);
+      }
+
+      next();
+    } catch (error) {
+      handleEntitlementError(req, res, error);
+    }
+  };
+};
+
+/**
+ * Require room in a quota of the tenant's plan
+ * Runs before the request is processed, so uploads are rejected before the
+ * file is read into memory
+ */
+export const requireQuota = (quota: PlanQuota) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const plan = await getTenantPlan(req);
+      if (plan && req.user?.tenantId) {
+        const max = plan.limits[quota];
+        const used = await getQuotaUsage(quota, req.user.tenantId);
+        if (used >= max) {
+          throw new PlanLimitExceededError(quota, QUOTA_LABELS[quota], max, plan.slug, plan.name);
+        }
+      }
+
+      next();
+    } catch (error) {
+      handleEntitlementError(req, res, error);
+    }
+  };
+};
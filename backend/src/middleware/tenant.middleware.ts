@@ -34,7 +34,7 @@ export interface TenantInfo {
   name: string;
   domain: string;
   status: string;
-  plan: string;
+  planId?: string;
 }
 
 /**
@@ -124,7 +124,7 @@ export const resolveTenant = async (
             name: tenant.name,
             domain: tenant.domain,
             status: tenant.status,
-            plan: tenant.plan
+            planId: tenant.planId?.toString()
           };
           req.tenantId = tenant._id.toString();
           req.tenantSource = tenantSource;
@@ -258,7 +258,7 @@ export const resolveTenant = async (
       name: tenant.name,
       domain: tenant.domain,
       status: tenant.status,
-      plan: tenant.plan
+      planId: tenant.planId?.toString()
     };
     req.tenantId = tenant._id.toString();
     req.tenantSource = tenantSource;
@@ -370,4 +370,4 @@ export const validateTenantAccess = (
   }
 
   next();
-};
\ No newline at end of file
+};
\ No newline at end of file
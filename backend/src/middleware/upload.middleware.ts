@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { config } from '../config/env.config';
+import logger from '../utils/logger';
+
+/**
+ * Upload Middleware
+ * Parses multipart/form-data uploads into memory so the content can be
+ * sniffed and checksummed before it reaches the storage driver
+ */
+const documentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.MAX_UPLOAD_SIZE_MB * 1024 * 1024,
+    files: 1,
+    fields: 10
+  }
+}).single('file');
+
+/**
+ * Accept a single file in the "file" field
+ * Multer errors are mapped to the API error shape
+ */
+export const uploadSingleDocument = () => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    documentUpload(req, res, (error: unknown) => {
+      if (!error) {
+        return next();
+      }
+
+      if (error instanceof multer.MulterError) {
+        const tooLarge = error.code === 'LIMIT_FILE_SIZE';
+        res.status(tooLarge ? 413 : 400).json({
+          success: false,
+          error: {
+            code: tooLarge ? 'FILE_TOO_LARGE' : 'INVALID_UPLOAD',
+            message: tooLarge
+              ? `File exceeds the ${config.MAX_UPLOAD_SIZE_MB} MB upload limit`
+              : error.message
+          }
+        });
+        return;
+      }
+
+      logger.error('Multipart upload parsing failed', {
+        path: req.path,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_UPLOAD',
+          message: 'Malformed multipart upload'
+        }
+      });
+    });
+  };
+};
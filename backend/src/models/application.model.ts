@@ -0,0 +1,220 @@
+import mongoose, { Schema } from 'mongoose';
+import { IBaseModel, baseSchemaOptions, softDeletePlugin } from './base.model';
+
+/**
+ * Application type and status enums
+ * Shared by the model, services and route schemas
+ */
+export const APPLICATION_TYPES = [
+  'visitor_visa',
+  'study_visa',
+  'work_permit',
+  'permanent_residence',
+  'family_sponsorship',
+  'business_immigration'
+] as const;
+
+export const APPLICATION_STATUSES = [
+  'draft',
+  'submitted',
+  'in_review',
+  'approved',
+  'rejected',
+  'in_progress'
+] as const;
+
+export const APPLICATION_PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const;
+
+export const APPLICATION_ACTOR_TYPES = ['super_admin', 'tenant_admin', 'team_member', 'client'] as const;
+
+export type ApplicationType = typeof APPLICATION_TYPES[number];
+export type ApplicationStatus = typeof APPLICATION_STATUSES[number];
+export type ApplicationPriority = typeof APPLICATION_PRIORITIES[number];
+export type ApplicationActorType = typeof APPLICATION_ACTOR_TYPES[number];
+
+/**
+ * Status History Entry
+ * One entry per status transition, including the initial status
+ */
+export interface IApplicationStatusHistoryEntry {
+  from: ApplicationStatus | null;
+  to: ApplicationStatus;
+  actorId: mongoose.Types.ObjectId;
+  actorType: ApplicationActorType;
+  reason?: string;
+  changedAt: Date;
+}
+
+/**
+ * Application Model Interface
+ * Represents an immigration application (case file) for a client
+ */
+export interface IApplication extends IBaseModel {
+  tenantId: mongoose.Types.ObjectId; // REQUIRED - applications belong to one tenant
+  clientId: mongoose.Types.ObjectId; // client (User) the file belongs to
+  assignedTo?: mongoose.Types.ObjectId; // team member handling the file
+  type: ApplicationType;
+  status: ApplicationStatus;
+  priority: ApplicationPriority;
+  notes?: string;
+  documents: string[];
+  statusHistory: IApplicationStatusHistoryEntry[];
+  submittedAt?: Date;
+  decidedAt?: Date;
+
+  // Instance methods
+  isOpen(): boolean;
+}
+
+/**
+ * Application Model Statics
+ */
+export interface IApplicationModel extends mongoose.Model<IApplication> {
+  findByClient(clientId: string, tenantId: string): Promise<(mongoose.Document<unknown, {}, IApplication> & IApplication)[]>;
+  findByTenant(tenantId: string): Promise<(mongoose.Document<unknown, {}, IApplication> & IApplication)[]>;
+  findByAssignedTo(assignedTo: string, tenantId: string): Promise<(mongoose.Document<unknown, {}, IApplication> & IApplication)[]>;
+}
+
+/**
+ * Application Schema
+ */
+const applicationSchema = new Schema<IApplication>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true,
+    index: true
+  },
+  clientId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  assignedTo: {
+    type: Schema.Types.ObjectId,
+    ref: 'TenantTeamMember',
+    index: true
+  },
+  type: {
+    type: String,
+    enum: APPLICATION_TYPES,
+    required: true,
+    index: true
+  },
+  status: {
+    type: String,
+    enum: APPLICATION_STATUSES,
+    default: 'draft',
+    index: true
+  },
+  priority: {
+    type: String,
+    enum: APPLICATION_PRIORITIES,
+    default: 'medium'
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: 5000
+  },
+  documents: [{
+    type: String,
+    maxlength: 200
+  }],
+  statusHistory: [{
+    _id: false,
+    from: {
+      type: String,
+      enum: [...APPLICATION_STATUSES, null],
+      default: null
+    },
+    to: {
+      type: String,
+      enum: APPLICATION_STATUSES,
+      required: true
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+      required: true
+    },
+    actorType: {
+      type: String,
+      enum: APPLICATION_ACTOR_TYPES,
+      required: true
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: 500
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  submittedAt: Date,
+  decidedAt: Date
+}, baseSchemaOptions);
+
+// Apply soft delete plugin
+applicationSchema.plugin(softDeletePlugin);
+
+// Indexes for performance
+applicationSchema.index({ tenantId: 1, clientId: 1, deletedAt: 1 });
+applicationSchema.index({ tenantId: 1, assignedTo: 1, status: 1 });
+applicationSchema.index({ tenantId: 1, status: 1, deletedAt: 1 });
+applicationSchema.index({ tenantId: 1, type: 1 });
+applicationSchema.index({ createdAt: -1 });
+
+// Ensure virtual fields are serialized
+applicationSchema.set('toJSON', {
+  virtuals: true,
+  transform: function(_doc: any, ret: any) {
+    ret.id = ret._id;
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  }
+});
+
+// Pre-save middleware
+applicationSchema.pre('save', function(next) {
+  // Track submission and decision timestamps
+  if (this.isModified('status')) {
+    if (this.status === 'submitted' && !this.submittedAt) {
+      this.submittedAt = new Date();
+    }
+    if (this.status === 'approved' || this.status === 'rejected') {
+      this.decidedAt = new Date();
+    }
+  }
+  next();
+});
+
+// Static methods
+applicationSchema.statics.findByClient = function(clientId: string, tenantId: string) {
+  return this.find({ clientId, tenantId, deletedAt: null })
+    .sort({ createdAt: -1 });
+};
+
+applicationSchema.statics.findByTenant = function(tenantId: string) {
+  return this.find({ tenantId, deletedAt: null })
+    .populate('clientId', 'firstName lastName email')
+    .populate('assignedTo', 'firstName lastName email role')
+    .sort({ createdAt: -1 });
+};
+
+applicationSchema.statics.findByAssignedTo = function(assignedTo: string, tenantId: string) {
+  return this.find({ assignedTo, tenantId, deletedAt: null })
+    .populate('clientId', 'firstName lastName email')
+    .sort({ createdAt: -1 });
+};
+
+// Instance methods
+applicationSchema.methods.isOpen = function() {
+  return this.status !== 'approved' && this.status !== 'rejected';
+};
+
+// Export Application model with methods
+export const Application = mongoose.model<IApplication, IApplicationModel>('Application', applicationSchema);
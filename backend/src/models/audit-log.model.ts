@@ -34,6 +34,11 @@ export interface IAuditLog extends IBaseModel {
     duration?: number;
     userRole?: string;
     tenantDomain?: string;
+    impersonatedBy?: { // real user when acting through an impersonation session
+      userId: string;
+      userType: string;
+      email: string;
+    };
     browserInfo?: {
       name?: string;
       version?: string;
@@ -122,6 +127,11 @@ const auditLogSchema = new Schema<IAuditLog>({
     duration: Number,
     userRole: String,
     tenantDomain: String,
+    impersonatedBy: {
+      userId: String,
+      userType: String,
+      email: String
+    },
     browserInfo: {
       name: String,
       version: String,
@@ -165,6 +175,7 @@ auditLogSchema.index({ category: 1, createdAt: -1 });
 auditLogSchema.index({ statusCode: 1, createdAt: -1 });
 auditLogSchema.index({ ipAddress: 1, createdAt: -1 });
 auditLogSchema.index({ createdAt: -1 }); // For time-based queries
+auditLogSchema.index({ 'metadata.impersonatedBy.userId': 1, createdAt: -1 }, { sparse: true });
 
 // Compliance-appropriate retention (1 year minimum)
 // Configure via environment variable
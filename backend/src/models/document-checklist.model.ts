@@ -0,0 +1,78 @@
+import mongoose, { Schema } from 'mongoose';
+import { IBaseModel, baseSchemaOptions, softDeletePlugin } from './base.model';
+import { APPLICATION_TYPES, ApplicationType } from './application.model';
+
+/**
+ * Checklist Item
+ * documentType is matched against Document.documentType
+ */
+export interface IDocumentChecklistItem {
+  documentType: string;
+  label: string;
+  description?: string;
+  required: boolean;
+}
+
+/**
+ * Document Checklist Model Interface
+ * The documents a tenant expects for one application type
+ */
+export interface IDocumentChecklist extends IBaseModel {
+  tenantId: mongoose.Types.ObjectId; // REQUIRED - checklists belong to one tenant
+  applicationType: ApplicationType;
+  items: IDocumentChecklistItem[];
+  updatedBy?: mongoose.Types.ObjectId;
+}
+
+/**
+ * Document Checklist Schema
+ */
+const documentChecklistSchema = new Schema<IDocumentChecklist>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true,
+    index: true
+  },
+  applicationType: {
+    type: String,
+    enum: APPLICATION_TYPES,
+    required: true
+  },
+  items: [{
+    _id: false,
+    documentType: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100
+    },
+    label: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 200
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 500
+    },
+    required: {
+      type: Boolean,
+      default: true
+    }
+  }],
+  updatedBy: {
+    type: Schema.Types.ObjectId
+  }
+}, baseSchemaOptions);
+
+// Apply soft delete plugin
+documentChecklistSchema.plugin(softDeletePlugin);
+
+// One checklist per application type per tenant
+documentChecklistSchema.index({ tenantId: 1, applicationType: 1 }, { unique: true });
+
+// Export Document Checklist model
+export const DocumentChecklist = mongoose.model<IDocumentChecklist>('DocumentChecklist', documentChecklistSchema);
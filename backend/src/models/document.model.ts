@@ -0,0 +1,132 @@
+import mongoose, { Schema } from 'mongoose';
+import { IBaseModel, baseSchemaOptions, softDeletePlugin } from './base.model';
+
+export const DOCUMENT_UPLOADER_TYPES = ['tenant_admin', 'team_member', 'client'] as const;
+
+export type DocumentUploaderType = typeof DOCUMENT_UPLOADER_TYPES[number];
+
+/**
+ * Document Model Interface
+ * Metadata for a stored file; the bytes live in the storage driver
+ */
+export interface IDocument extends IBaseModel {
+  tenantId: mongoose.Types.ObjectId; // REQUIRED - documents belong to one tenant
+  clientId: mongoose.Types.ObjectId; // client (User) the document belongs to
+  applicationId?: mongoose.Types.ObjectId;
+  uploadedBy: mongoose.Types.ObjectId;
+  uploadedByType: DocumentUploaderType;
+  documentType: string;
+  originalName: string;
+  mimeType: string; // sniffed from content, not the client-declared type
+  size: number; // in bytes
+  checksum: string; // sha256 hex
+  storageDriver: string;
+  storageKey: string;
+}
+
+/**
+ * Document Model Statics
+ */
+export interface IDocumentModel extends mongoose.Model<IDocument> {
+  getTenantStorageUsage(tenantId: string): Promise<number>;
+}
+
+/**
+ * Document Schema
+ */
+const documentSchema = new Schema<IDocument>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true,
+    index: true
+  },
+  clientId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  applicationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Application',
+    index: true
+  },
+  uploadedBy: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  uploadedByType: {
+    type: String,
+    enum: DOCUMENT_UPLOADER_TYPES,
+    required: true
+  },
+  documentType: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  originalName: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 255
+  },
+  mimeType: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  checksum: {
+    type: String,
+    required: true,
+    match: /^[a-f0-9]{64}$/
+  },
+  storageDriver: {
+    type: String,
+    required: true
+  },
+  storageKey: {
+    type: String,
+    required: true,
+    unique: true,
+    select: false // Never expose storage layout to API consumers
+  }
+}, baseSchemaOptions);
+
+// Apply soft delete plugin
+documentSchema.plugin(softDeletePlugin);
+
+// Indexes for performance
+documentSchema.index({ tenantId: 1, clientId: 1, deletedAt: 1 });
+documentSchema.index({ tenantId: 1, applicationId: 1, deletedAt: 1 });
+documentSchema.index({ tenantId: 1, checksum: 1 });
+
+// Ensure virtual fields are serialized
+documentSchema.set('toJSON', {
+  virtuals: true,
+  transform: function(_doc: any, ret: any) {
+    ret.id = ret._id;
+    delete ret._id;
+    delete ret.__v;
+    delete ret.storageKey;
+    return ret;
+  }
+});
+
+// Static methods
+documentSchema.statics.getTenantStorageUsage = async function(tenantId: string): Promise<number> {
+  const [usage] = await this.aggregate([
+    { $match: { tenantId: new mongoose.Types.ObjectId(tenantId), deletedAt: null } },
+    { $group: { _id: null, totalBytes: { $sum: '$size' } } }
+  ]);
+  return usage?.totalBytes || 0;
+};
+
+// Export Document model with methods
+export const Document = mongoose.model<IDocument, IDocumentModel>('Document', documentSchema);
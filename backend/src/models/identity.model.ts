@@ -0,0 +1,117 @@
+import mongoose, { Schema } from 'mongoose';
+import { IBaseModel, baseSchemaOptions } from './base.model';
+
+export type PrincipalType = 'super_admin' | 'tenant_admin' | 'team_member' | 'client';
+
+/**
+ * One account the identity can sign in as
+ */
+export interface IIdentityMembership {
+  principalType: PrincipalType;
+  principalId: mongoose.Types.ObjectId;
+  tenantId?: mongoose.Types.ObjectId;
+}
+
+/**
+ * Identity Model Interface
+ * The credentials of an email address. Super admins, tenant admins, team
+ * members and clients keep their profile data; the password and lockout
+ * state live here, shared by every membership of the email.
+ */
+export interface IIdentity extends IBaseModel {
+  email: string;
+  password: string;
+  passwordChangedAt?: Date;
+  passwordHistory: string[]; // hashes of previous passwords, newest first
+  loginAttempts: number;
+  lockUntil?: Date;
+  lastLogin?: Date;
+  memberships: IIdentityMembership[];
+  pendingMemberships: IIdentityMembership[]; // accounts created for the email, awaiting its holder's confirmation
+
+  // Virtuals
+  isLocked: boolean;
+}
+
+const membershipSchema = new Schema<IIdentityMembership>({
+  principalType: {
+    type: String,
+    enum: ['super_admin', 'tenant_admin', 'team_member', 'client'],
+    required: true
+  },
+  principalId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant'
+  }
+}, { _id: false });
+
+/**
+ * Identity Schema
+ */
+const identitySchema = new Schema<IIdentity>({
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true,
+    match: [/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'Invalid email format']
+  },
+  password: {
+    type: String,
+    required: true,
+    select: false
+  },
+  passwordChangedAt: {
+    type: Date
+  },
+  passwordHistory: {
+    type: [String],
+    default: [],
+    select: false
+  },
+  loginAttempts: {
+    type: Number,
+    default: 0
+  },
+  lockUntil: {
+    type: Date
+  },
+  lastLogin: {
+    type: Date
+  },
+  memberships: {
+    type: [membershipSchema],
+    default: []
+  },
+  pendingMemberships: {
+    type: [membershipSchema],
+    default: []
+  }
+}, baseSchemaOptions);
+
+// Look up the identity of a principal (password changes, account removal)
+identitySchema.index({ 'memberships.principalType': 1, 'memberships.principalId': 1 });
+identitySchema.index({ 'pendingMemberships.principalType': 1, 'pendingMemberships.principalId': 1 });
+
+identitySchema.virtual('isLocked').get(function() {
+  return !!(this.lockUntil && this.lockUntil > new Date());
+});
+
+identitySchema.set('toJSON', {
+  virtuals: true,
+  transform: function(_doc, ret) {
+    ret.id = ret._id;
+    delete ret._id;
+    delete ret.password;
+    delete ret.passwordHistory;
+    return ret;
+  }
+});
+
+// Export Identity model
+export const Identity = mongoose.model<IIdentity>('Identity', identitySchema);
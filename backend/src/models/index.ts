@@ -5,7 +5,19 @@
 
 export { SuperAdmin, ISuperAdmin } from './superadmin.model';
 export { Tenant, ITenant } from './tenant.model';
+export { TenantAdmin, ITenantAdmin } from './tenant-admin.model';
 export { TenantTeamMember, ITenantTeamMember } from './tenant-team-member.model';
 export { User, IUser } from './user.model';
 export { AuditLog, IAuditLog } from './audit-log.model';
+export { Application, IApplication } from './application.model';
+export { Document, IDocument } from './document.model';
+export { DocumentChecklist, IDocumentChecklist } from './document-checklist.model';
+export { MessageThread, IMessageThread } from './message-thread.model';
+export { Message, IMessage } from './message.model';
+export { Task, ITask } from './task.model';
+export { MfaCredential, IMfaCredential } from './mfa-credential.model';
+export { RefreshToken, IRefreshToken } from './refresh-token.model';
+export { Role, IRole } from './role.model';
+export { Identity, IIdentity } from './identity.model';
+export { UsageRecord, IUsageRecord } from './usage-record.model';
 export { IBaseModel, baseSchemaOptions, softDeletePlugin } from './base.model';
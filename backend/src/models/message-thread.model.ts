@@ -0,0 +1,88 @@
+import mongoose, { Schema } from 'mongoose';
+import { IBaseModel, baseSchemaOptions, softDeletePlugin } from './base.model';
+
+export const MESSAGE_PARTICIPANT_TYPES = ['client', 'team_member'] as const;
+
+export type MessageParticipantType = typeof MESSAGE_PARTICIPANT_TYPES[number];
+
+/**
+ * Message Thread Model Interface
+ * A conversation between a client and the consultant assigned to them
+ */
+export interface IMessageThread extends IBaseModel {
+  tenantId: mongoose.Types.ObjectId; // REQUIRED - threads belong to one tenant
+  clientId: mongoose.Types.ObjectId;
+  applicationId?: mongoose.Types.ObjectId;
+  subject: string;
+  createdBy: mongoose.Types.ObjectId;
+  createdByType: MessageParticipantType;
+  lastMessageAt: Date;
+  lastMessagePreview?: string;
+  clientUnreadCount: number; // messages the client has not read yet
+  teamMemberUnreadCount: number; // messages the consultant side has not read yet
+}
+
+/**
+ * Message Thread Schema
+ */
+const messageThreadSchema = new Schema<IMessageThread>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true,
+    index: true
+  },
+  clientId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  applicationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Application'
+  },
+  subject: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  createdByType: {
+    type: String,
+    enum: MESSAGE_PARTICIPANT_TYPES,
+    required: true
+  },
+  lastMessageAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastMessagePreview: {
+    type: String,
+    maxlength: 200
+  },
+  clientUnreadCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  teamMemberUnreadCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  }
+}, baseSchemaOptions);
+
+// Apply soft delete plugin
+messageThreadSchema.plugin(softDeletePlugin);
+
+// Indexes for performance
+messageThreadSchema.index({ tenantId: 1, clientId: 1, lastMessageAt: -1 });
+messageThreadSchema.index({ tenantId: 1, applicationId: 1 });
+
+// Export Message Thread model
+export const MessageThread = mongoose.model<IMessageThread>('MessageThread', messageThreadSchema);
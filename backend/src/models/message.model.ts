@@ -0,0 +1,64 @@
+import mongoose, { Schema } from 'mongoose';
+import { IBaseModel, baseSchemaOptions, softDeletePlugin } from './base.model';
+import { MESSAGE_PARTICIPANT_TYPES, MessageParticipantType } from './message-thread.model';
+
+/**
+ * Message Model Interface
+ * A single message in a thread; attachments reference stored Documents
+ */
+export interface IMessage extends IBaseModel {
+  tenantId: mongoose.Types.ObjectId; // REQUIRED - messages belong to one tenant
+  threadId: mongoose.Types.ObjectId;
+  senderId: mongoose.Types.ObjectId;
+  senderType: MessageParticipantType;
+  body: string;
+  attachments: mongoose.Types.ObjectId[];
+  readAt?: Date; // when the other side read the message
+}
+
+/**
+ * Message Schema
+ */
+const messageSchema = new Schema<IMessage>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true,
+    index: true
+  },
+  threadId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MessageThread',
+    required: true
+  },
+  senderId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  senderType: {
+    type: String,
+    enum: MESSAGE_PARTICIPANT_TYPES,
+    required: true
+  },
+  body: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 5000
+  },
+  attachments: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Document'
+  }],
+  readAt: Date
+}, baseSchemaOptions);
+
+// Apply soft delete plugin
+messageSchema.plugin(softDeletePlugin);
+
+// Indexes for performance
+messageSchema.index({ tenantId: 1, threadId: 1, createdAt: 1 });
+messageSchema.index({ threadId: 1, senderType: 1, readAt: 1 });
+
+// Export Message model
+export const Message = mongoose.model<IMessage>('Message', messageSchema);
@@ -0,0 +1,86 @@
+import mongoose, { Schema } from 'mongoose';
+import { IBaseModel, baseSchemaOptions } from './base.model';
+
+/**
+ * Account types that can enroll a second factor
+ * Tenant admins are keyed by their Tenant id
+ */
+export const MFA_ACCOUNT_TYPES = ['super_admin', 'tenant_admin', 'team_member', 'client'] as const;
+
+export type MfaAccountType = typeof MFA_ACCOUNT_TYPES[number];
+
+/**
+ * MfaCredential Model Interface
+ * TOTP secret and backup codes of one account
+ */
+export interface IMfaCredential extends IBaseModel {
+  accountType: MfaAccountType;
+  accountId: mongoose.Types.ObjectId;
+  tenantId?: mongoose.Types.ObjectId; // unset for super admins
+  enabled: boolean;
+  secret?: string; // encrypted, set once enrollment is confirmed
+  pendingSecret?: string; // encrypted, awaiting the first valid code
+  backupCodes: string[]; // SHA-256 hashes, removed when consumed
+  lastUsedStep?: number; // TOTP time step of the last accepted code (replay protection)
+  enabledAt?: Date;
+  lastUsedAt?: Date;
+}
+
+/**
+ * MfaCredential Schema
+ */
+const mfaCredentialSchema = new Schema<IMfaCredential>({
+  accountType: {
+    type: String,
+    enum: MFA_ACCOUNT_TYPES,
+    required: true
+  },
+  accountId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    index: true
+  },
+  enabled: {
+    type: Boolean,
+    default: false
+  },
+  secret: {
+    type: String,
+    select: false
+  },
+  pendingSecret: {
+    type: String,
+    select: false
+  },
+  backupCodes: {
+    type: [String],
+    default: [],
+    select: false
+  },
+  lastUsedStep: Number,
+  enabledAt: Date,
+  lastUsedAt: Date
+}, baseSchemaOptions);
+
+// One credential per account
+mfaCredentialSchema.index({ accountType: 1, accountId: 1 }, { unique: true });
+
+// Never serialize secrets
+mfaCredentialSchema.set('toJSON', {
+  transform: function(_doc: any, ret: any) {
+    ret.id = ret._id;
+    delete ret._id;
+    delete ret.__v;
+    delete ret.secret;
+    delete ret.pendingSecret;
+    delete ret.backupCodes;
+    return ret;
+  }
+});
+
+// Export MfaCredential model
+export const MfaCredential = mongoose.model<IMfaCredential>('MfaCredential', mfaCredentialSchema);
@@ -0,0 +1,76 @@
+import mongoose, { Schema } from 'mongoose';
+import { IBaseModel, baseSchemaOptions } from './base.model';
+
+/**
+ * RefreshToken Model Interface
+ * One issued refresh token. Tokens issued from the same login share a family;
+ * each refresh consumes the current token and issues its successor.
+ */
+export interface IRefreshToken extends IBaseModel {
+  jti: string;
+  family: string;
+  userId: mongoose.Types.ObjectId; // SuperAdmin, TenantAdmin, TenantTeamMember or User id, per userType
+  userType: 'super_admin' | 'tenant_admin' | 'team_member' | 'client';
+  tenantId?: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  usedAt?: Date; // set when rotated; presenting it again is a replay
+  replacedBy?: string; // jti of the successor
+  revokedAt?: Date;
+  revokedReason?: 'logout' | 'logout_all' | 'reuse_detected' | 'password_reset' | 'password_change';
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * RefreshToken Schema
+ */
+const refreshTokenSchema = new Schema<IRefreshToken>({
+  jti: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  family: {
+    type: String,
+    required: true,
+    index: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  userType: {
+    type: String,
+    enum: ['super_admin', 'tenant_admin', 'team_member', 'client'],
+    required: true
+  },
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant'
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: Date,
+  replacedBy: String,
+  revokedAt: Date,
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'logout_all', 'reuse_detected', 'password_reset', 'password_change']
+  },
+  ipAddress: String,
+  userAgent: {
+    type: String,
+    maxlength: 500
+  }
+}, baseSchemaOptions);
+
+// Revoke-all lookups
+refreshTokenSchema.index({ userType: 1, userId: 1, revokedAt: 1 });
+
+// MongoDB removes tokens once they expire
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Export RefreshToken model
+export const RefreshToken = mongoose.model<IRefreshToken>('RefreshToken', refreshTokenSchema);
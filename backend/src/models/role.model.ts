@@ -0,0 +1,51 @@
+import mongoose, { Schema } from 'mongoose';
+import { IBaseModel, baseSchemaOptions } from './base.model';
+import { STAFF_PERMISSION_KEYS, StaffPermission } from '../config/permissions.config';
+
+/**
+ * Role Model Interface
+ * A tenant-defined set of staff permissions. Team members assigned a role
+ * receive its permissions; editing the role updates all of them.
+ */
+export interface IRole extends IBaseModel {
+  tenantId: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  permissions: StaffPermission[];
+}
+
+/**
+ * Role Schema
+ */
+const roleSchema = new Schema<IRole>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 50
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  permissions: [{
+    type: String,
+    enum: STAFF_PERMISSION_KEYS
+  }]
+}, baseSchemaOptions);
+
+// Role names are unique per tenant, ignoring case
+roleSchema.index(
+  { tenantId: 1, name: 1 },
+  { unique: true, collation: { locale: 'en', strength: 2 } }
+);
+
+// Export Role model
+export const Role = mongoose.model<IRole>('Role', roleSchema);
@@ -285,7 +285,7 @@ subscriptionPlanSchema.pre('save', async function(next) {
   if (this.isModified('deletedAt') && this.deletedAt) {
     const Tenant = mongoose.model('Tenant');
     const tenantCount = await Tenant.countDocuments({
-      plan: this.slug,
+      planId: this._id,
       deletedAt: null
     });
 
@@ -323,10 +323,11 @@ subscriptionPlanSchema.methods.isActive = function() {
 };
 
 subscriptionPlanSchema.methods.canBeDeleted = async function() {
-  // Check if any tenants are using this plan
+  // Check if any tenants are using this plan; tenants reference plans by ID,
+  // so renaming the slug does not hide them
   const Tenant = mongoose.model('Tenant');
   const tenantCount = await Tenant.countDocuments({
-    plan: this.slug,
+    planId: this._id,
     deletedAt: null
   });
   
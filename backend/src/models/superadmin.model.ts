@@ -1,6 +1,5 @@
 import mongoose, { Schema } from 'mongoose';
 import { IBaseModel, baseSchemaOptions, softDeletePlugin } from './base.model';
-import { config } from '../config/env.config';
 
 /**
  * SuperAdmin Model Interface
@@ -8,15 +7,13 @@ import { config } from '../config/env.config';
  */
 export interface ISuperAdmin extends IBaseModel {
   email: string;
-  password: string;
   firstName: string;
   lastName: string;
   role: 'super_admin';
   permissions: string[];
   isActive: boolean;
+  permissionVersion: number; // bumped when permissions or isActive change
   lastLogin?: Date;
-  loginAttempts: number;
-  lockUntil?: Date;
   profile: {
     avatar?: string;
     phone?: string;
@@ -41,8 +38,6 @@ export interface ISuperAdmin extends IBaseModel {
   
   // Instance methods
   isActiveAccount(): boolean;
-  incrementLoginAttempts(): Promise<void>;
-  resetLoginAttempts(): Promise<void>;
   canAccess(requiredPermission: string): boolean;
 }
 
@@ -67,12 +62,6 @@ const superAdminSchema = new Schema<ISuperAdmin>({
     match: [/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'Invalid email format'],
     index: true
   },
-  password: {
-    type: String,
-    required: true,
-    minlength: 8,
-    select: false // Don't include in queries by default
-  },
   firstName: {
     type: String,
     required: true,
@@ -109,17 +98,13 @@ const superAdminSchema = new Schema<ISuperAdmin>({
     default: true,
     index: true
   },
-  lastLogin: {
-    type: Date,
-    index: true
-  },
-  loginAttempts: {
+  permissionVersion: {
     type: Number,
     default: 0
   },
-  lockUntil: {
+  lastLogin: {
     type: Date,
-    select: false
+    index: true
   },
   profile: {
     avatar: String,
@@ -173,11 +158,6 @@ superAdminSchema.virtual('fullName').get(function() {
   return `${this.firstName} ${this.lastName}`;
 });
 
-// Virtual for lock status
-superAdminSchema.virtual('isLocked').get(function() {
-  return !!(this.lockUntil && this.lockUntil > new Date());
-});
-
 // Ensure virtual fields are serialized
 superAdminSchema.set('toJSON', {
   virtuals: true,
@@ -185,8 +165,10 @@ superAdminSchema.set('toJSON', {
     ret.id = ret._id;
     delete ret._id;
     delete ret.__v;
-    // Never return password or sensitive fields
+    // Credentials live in Identity; documents not yet migrated may still carry them
     delete ret.password;
+    delete ret.loginAttempts;
+    delete ret.lockUntil;
     return ret;
   }
 });
@@ -214,29 +196,6 @@ superAdminSchema.methods.isActiveAccount = function() {
   return this.isActive && !this.deletedAt;
 };
 
-superAdminSchema.methods.incrementLoginAttempts = async function() {
-  // If we have a previous lock that has expired, restart at 1
-  if (this.lockUntil && this.lockUntil < new Date()) {
-    return this.updateOne({
-      $unset: { lockUntil: 1 },
-      $set: { loginAttempts: 1 }
-    });
-  }
-  
-  const updates: any = { $inc: { loginAttempts: 1 } };
-  
-  // Lock account after configured failed attempts for configured duration
-  if (this.loginAttempts + 1 >= config.SUPER_ADMIN_MAX_LOGIN_ATTEMPTS && !this.isLocked) {
-    updates.$set = { lockUntil: new Date(Date.now() + config.SUPER_ADMIN_LOCKOUT_DURATION_MS) };
-  }
-  
-  return this.updateOne(updates);
-};
-
-superAdminSchema.methods.resetLoginAttempts = async function() {
-  return this.updateOne({ $set: { loginAttempts: 0, lockUntil: null } });
-};
-
 superAdminSchema.methods.canAccess = function(requiredPermission: string) {
   return this.permissions.includes(requiredPermission);
 };
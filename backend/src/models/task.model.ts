@@ -0,0 +1,123 @@
+import mongoose, { Schema } from 'mongoose';
+import { IBaseModel, baseSchemaOptions, softDeletePlugin } from './base.model';
+import { APPLICATION_PRIORITIES, ApplicationPriority, APPLICATION_STATUSES, ApplicationStatus } from './application.model';
+
+/**
+ * Task status and source enums
+ * Shared by the model, services and route schemas
+ */
+export const TASK_STATUSES = ['open', 'in_progress', 'completed', 'cancelled'] as const;
+
+export const TASK_SOURCES = ['manual', 'status_change'] as const;
+
+export type TaskStatus = typeof TASK_STATUSES[number];
+export type TaskSource = typeof TASK_SOURCES[number];
+
+/**
+ * Task Model Interface
+ * A to-do item for a team member, optionally linked to a client and application
+ */
+export interface ITask extends IBaseModel {
+  tenantId: mongoose.Types.ObjectId; // REQUIRED - tasks belong to one tenant
+  title: string;
+  description?: string;
+  dueDate?: Date;
+  priority: ApplicationPriority;
+  status: TaskStatus;
+  assignedTo: mongoose.Types.ObjectId; // TenantTeamMember responsible for the task
+  createdBy?: mongoose.Types.ObjectId; // unset for automatically created tasks
+  clientId?: mongoose.Types.ObjectId;
+  applicationId?: mongoose.Types.ObjectId;
+  source: TaskSource;
+  triggerStatus?: ApplicationStatus; // application status that created the task
+  completedAt?: Date;
+
+  // Instance methods
+  isOverdue(): boolean;
+}
+
+/**
+ * Task Schema
+ */
+const taskSchema = new Schema<ITask>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true,
+    index: true
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 2000
+  },
+  dueDate: Date,
+  priority: {
+    type: String,
+    enum: APPLICATION_PRIORITIES,
+    default: 'medium'
+  },
+  status: {
+    type: String,
+    enum: TASK_STATUSES,
+    default: 'open'
+  },
+  assignedTo: {
+    type: Schema.Types.ObjectId,
+    ref: 'TenantTeamMember',
+    required: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'TenantTeamMember'
+  },
+  clientId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  applicationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Application'
+  },
+  source: {
+    type: String,
+    enum: TASK_SOURCES,
+    default: 'manual'
+  },
+  triggerStatus: {
+    type: String,
+    enum: APPLICATION_STATUSES
+  },
+  completedAt: Date
+}, baseSchemaOptions);
+
+// Apply soft delete plugin
+taskSchema.plugin(softDeletePlugin);
+
+// Indexes for performance
+taskSchema.index({ tenantId: 1, assignedTo: 1, status: 1, dueDate: 1 });
+taskSchema.index({ tenantId: 1, createdBy: 1 });
+taskSchema.index({ tenantId: 1, applicationId: 1 });
+
+// Stamp completion time when a task is closed
+taskSchema.pre('save', function(next) {
+  if (this.isModified('status')) {
+    this.completedAt = this.status === 'completed' ? new Date() : undefined;
+  }
+  next();
+});
+
+// Instance methods
+taskSchema.methods.isOverdue = function() {
+  const isActive = this.status === 'open' || this.status === 'in_progress';
+  return isActive && this.dueDate !== undefined && this.dueDate !== null && this.dueDate.getTime() < Date.now();
+};
+
+// Export Task model
+export const Task = mongoose.model<ITask>('Task', taskSchema);
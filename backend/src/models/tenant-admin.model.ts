@@ -0,0 +1,124 @@
+import mongoose, { Schema } from 'mongoose';
+import { IBaseModel, baseSchemaOptions, softDeletePlugin } from './base.model';
+
+/**
+ * TenantAdmin Model Interface
+ * An administrator of a tenant (RCIC practice). A tenant can have several;
+ * exactly one of them is the owner, who manages the other admins.
+ */
+export interface ITenantAdmin extends IBaseModel {
+  tenantId: mongoose.Types.ObjectId;
+  email: string;
+  firstName: string;
+  lastName: string;
+  isOwner: boolean;
+  invitedBy?: mongoose.Types.ObjectId;
+  permissionVersion: number; // bumped when the admin is removed
+  emailVerified: boolean;
+  emailVerificationToken?: string;
+  emailVerificationExpires?: Date;
+  passwordResetToken?: string;
+  passwordResetExpires?: Date;
+  lastLogin?: Date;
+
+  // Virtual properties
+  fullName: string;
+}
+
+/**
+ * TenantAdmin Schema
+ */
+const tenantAdminSchema = new Schema<ITenantAdmin>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true,
+    index: true
+  },
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true,
+    match: [/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'Invalid email format'],
+    index: true
+  },
+  firstName: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 50
+  },
+  lastName: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 50
+  },
+  isOwner: {
+    type: Boolean,
+    default: false
+  },
+  invitedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'TenantAdmin'
+  },
+  permissionVersion: {
+    type: Number,
+    default: 0
+  },
+  emailVerified: {
+    type: Boolean,
+    default: false
+  },
+  emailVerificationToken: {
+    type: String,
+    select: false
+  },
+  emailVerificationExpires: {
+    type: Date,
+    select: false
+  },
+  passwordResetToken: {
+    type: String,
+    select: false
+  },
+  passwordResetExpires: {
+    type: Date,
+    select: false
+  },
+  lastLogin: {
+    type: Date
+  }
+}, baseSchemaOptions);
+
+// Apply soft delete plugin
+tenantAdminSchema.plugin(softDeletePlugin);
+
+// One admin account per email and tenant; a removed admin is restored when invited again
+tenantAdminSchema.index({ tenantId: 1, email: 1 }, { unique: true });
+// At most one owner per tenant
+tenantAdminSchema.index({ tenantId: 1 }, { unique: true, partialFilterExpression: { isOwner: true } });
+tenantAdminSchema.index({ emailVerificationToken: 1 }, { sparse: true });
+tenantAdminSchema.index({ passwordResetToken: 1 }, { sparse: true });
+
+// Virtual for full name
+tenantAdminSchema.virtual('fullName').get(function() {
+  return `${this.firstName} ${this.lastName}`;
+});
+
+// Ensure virtual fields are serialized
+tenantAdminSchema.set('toJSON', {
+  virtuals: true,
+  transform: function(_doc: any, ret: any) {
+    ret.id = ret._id;
+    delete ret._id;
+    delete ret.__v;
+    delete ret.emailVerificationToken;
+    delete ret.passwordResetToken;
+    return ret;
+  }
+});
+
+// Export TenantAdmin model
+export const TenantAdmin = mongoose.model<ITenantAdmin>('TenantAdmin', tenantAdminSchema);
@@ -1,6 +1,6 @@
 import mongoose, { Schema } from 'mongoose';
 import { IBaseModel, baseSchemaOptions, softDeletePlugin } from './base.model';
-import { config } from '../config/env.config';
+import { STAFF_PERMISSION_KEYS } from '../config/permissions.config';
 
 /**
  * TenantTeamMember Model Interface
@@ -9,16 +9,20 @@ import { config } from '../config/env.config';
 export interface ITenantTeamMember extends IBaseModel {
   tenantId: mongoose.Types.ObjectId;
   email: string;
-  password: string;
   firstName: string;
   lastName: string;
   role: 'visa_specialist' | 'work_permit_specialist' | 'admin' | 'case_manager';
   specializations: string[];
+  roleId?: mongoose.Types.ObjectId; // custom role; its permissions are copied into permissions
   permissions: string[];
   isActive: boolean;
+  permissionVersion: number; // bumped when role, permissions or isActive change
+  emailVerified: boolean;
+  emailVerificationToken?: string;
+  emailVerificationExpires?: Date;
+  passwordResetToken?: string;
+  passwordResetExpires?: Date;
   lastLogin?: Date;
-  loginAttempts: number;
-  lockUntil?: Date;
   profile: {
     avatar?: string;
     phone?: string;
@@ -43,12 +47,9 @@ export interface ITenantTeamMember extends IBaseModel {
   
   // Virtual properties
   fullName: string;
-  isLocked: boolean;
   
   // Instance methods
   isActiveAccount(): boolean;
-  incrementLoginAttempts(): Promise<void>;
-  resetLoginAttempts(): Promise<void>;
   canAccess(requiredPermission: string): boolean;
   canManageClients(): boolean;
 }
@@ -80,12 +81,6 @@ const tenantTeamMemberSchema = new Schema<ITenantTeamMember>({
     match: [/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'Invalid email format'],
     index: true
   },
-  password: {
-    type: String,
-    required: true,
-    minlength: 8,
-    select: false // Don't include in queries by default
-  },
   firstName: {
     type: String,
     required: true,
@@ -118,41 +113,48 @@ const tenantTeamMemberSchema = new Schema<ITenantTeamMember>({
       'business_immigration'
     ]
   }],
+  roleId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Role',
+    index: true
+  },
   permissions: [{
     type: String,
-    enum: [
-      'view_clients',
-      'edit_clients',
-      'delete_clients',
-      'create_clients',
-      'view_applications',
-      'edit_applications',
-      'delete_applications',
-      'create_applications',
-      'upload_documents',
-      'download_documents',
-      'view_reports',
-      'manage_team',
-      'manage_settings'
-    ]
+    enum: STAFF_PERMISSION_KEYS
   }],
   isActive: {
     type: Boolean,
     default: true,
     index: true
   },
-  lastLogin: {
-    type: Date,
-    index: true
-  },
-  loginAttempts: {
+  permissionVersion: {
     type: Number,
     default: 0
   },
-  lockUntil: {
+  emailVerified: {
+    type: Boolean,
+    default: false
+  },
+  emailVerificationToken: {
+    type: String,
+    select: false
+  },
+  emailVerificationExpires: {
+    type: Date,
+    select: false
+  },
+  passwordResetToken: {
+    type: String,
+    select: false
+  },
+  passwordResetExpires: {
     type: Date,
     select: false
   },
+  lastLogin: {
+    type: Date,
+    index: true
+  },
   profile: {
     avatar: String,
     phone: {
@@ -209,6 +211,8 @@ tenantTeamMemberSchema.index({ tenantId: 1, role: 1 });
 tenantTeamMemberSchema.index({ email: 1 });
 tenantTeamMemberSchema.index({ lastLogin: -1 });
 tenantTeamMemberSchema.index({ createdAt: -1 });
+tenantTeamMemberSchema.index({ emailVerificationToken: 1 }, { sparse: true });
+tenantTeamMemberSchema.index({ passwordResetToken: 1 }, { sparse: true });
 
 // PERFORMANCE FIX: Compound indexes for analytics and common queries
 tenantTeamMemberSchema.index({ tenantId: 1, deletedAt: 1, isActive: 1 });
@@ -219,11 +223,6 @@ tenantTeamMemberSchema.virtual('fullName').get(function() {
   return `${this.firstName} ${this.lastName}`;
 });
 
-// Virtual for lock status
-tenantTeamMemberSchema.virtual('isLocked').get(function() {
-  return !!(this.lockUntil && this.lockUntil > new Date());
-});
-
 // Ensure virtual fields are serialized
 tenantTeamMemberSchema.set('toJSON', {
   virtuals: true,
@@ -231,8 +230,13 @@ tenantTeamMemberSchema.set('toJSON', {
     ret.id = ret._id;
     delete ret._id;
     delete ret.__v;
-    // Never return password or sensitive fields
+    // Never return sensitive fields; credentials live in Identity, but
+    // documents not yet migrated may still carry them
     delete ret.password;
+    delete ret.loginAttempts;
+    delete ret.lockUntil;
+    delete ret.emailVerificationToken;
+    delete ret.passwordResetToken;
     return ret;
   }
 });
@@ -270,31 +274,6 @@ tenantTeamMemberSchema.methods.isActiveAccount = function() {
   return this.isActive && !this.deletedAt;
 };
 
-tenantTeamMemberSchema.methods.incrementLoginAttempts = async function() {
-  // If we have a previous lock that has expired, restart at 1
-  if (this.lockUntil && this.lockUntil < new Date()) {
-    return this.updateOne({
-      $unset: { lockUntil: 1 },
-      $set: { loginAttempts: 1 }
-    });
-  }
-  
-  const updates: any = { $inc: { loginAttempts: 1 } };
-  
-  // Lock account after configured failed attempts for configured duration
-  if (this.loginAttempts + 1 >= config.TEAM_MEMBER_MAX_LOGIN_ATTEMPTS && !this.isLocked) {
-    updates.$set = { lockUntil: new Date(Date.now() + config.TEAM_MEMBER_LOCKOUT_DURATION_MS) };
-  }
-  
-  return this.updateOne(updates);
-};
-
-tenantTeamMemberSchema.methods.resetLoginAttempts = async function() {
-  return this.updateOne({
-    $unset: { loginAttempts: 1, lockUntil: 1 }
-  });
-};
-
 tenantTeamMemberSchema.methods.canAccess = function(requiredPermission: string) {
   return this.permissions.includes(requiredPermission);
 };
@@ -1,6 +1,15 @@
 import mongoose, { Schema } from 'mongoose';
 import { IBaseModel, baseSchemaOptions, softDeletePlugin } from './base.model';
-import { config } from '../config/env.config';
+import { DEFAULT_SECURITY_POLICY, SECURITY_POLICY_LIMITS, SecurityPolicy } from '../config/security-policy.config';
+import { SubscriptionPlan, ISubscriptionPlan } from './subscription-plan.model';
+
+/**
+ * Client assignment strategies
+ * manual leaves assignment to whoever creates the client
+ */
+export const CLIENT_ASSIGNMENT_STRATEGIES = ['manual', 'round_robin', 'least_loaded', 'specialization'] as const;
+
+export type ClientAssignmentStrategy = typeof CLIENT_ASSIGNMENT_STRATEGIES[number];
 
 /**
  * Tenant Model Interface
@@ -11,24 +20,18 @@ export interface ITenant extends IBaseModel {
   domain: string;
   subdomain?: string;
   status: 'active' | 'inactive' | 'suspended';
-  plan: 'free' | 'basic' | 'premium' | 'enterprise';
-  
-  // NEW: Admin credentials for tenant
-  adminEmail: string;
-  adminPassword: string;
-  adminFirstName: string;
-  adminLastName: string;
-  adminLastLogin?: Date;
-  adminLoginAttempts: number;
-  adminLockUntil?: Date;
+  permissionVersion: number; // bumped when status changes; applies to everyone in the tenant
+  planId: mongoose.Types.ObjectId; // limits and features come from the plan
   
   settings: {
-    maxTeamMembers: number;
-    maxClients: number;
-    maxStorage: number; // in MB
-    features: string[];
     allowSelfRegistration: boolean;
     requireEmailVerification: boolean;
+    requireStaffMfa: boolean; // tenant admin and team members must enroll a second factor
+    securityPolicy: SecurityPolicy;
+    clientAssignment: {
+      strategy: ClientAssignmentStrategy;
+      lastAssignedTo?: mongoose.Types.ObjectId; // round-robin cursor
+    };
     branding?: {
       logo?: string;
       theme?: {
@@ -44,18 +47,7 @@ export interface ITenant extends IBaseModel {
     };
   };
   subscription: {
-    plan: 'free' | 'basic' | 'premium' | 'enterprise';
-    maxTeamMembers: number;
-    maxClients: number;
     expiresAt?: Date;
-    features: {
-      visitorVisa: boolean;
-      studyVisa: boolean;
-      workPermit: boolean;
-      permanentResidence: boolean;
-      familySponsorship: boolean;
-      businessImmigration: boolean;
-    };
   };
   billing: {
     customerId?: string; // Stripe customer ID
@@ -74,14 +66,12 @@ export interface ITenant extends IBaseModel {
   
   // Virtual properties
   fullDomain: string;
-  isAdminLocked: boolean;
   
   // Instance methods
   isActive(): boolean;
-  canAddTeamMember(currentCount: number): boolean;
-  canAddClient(currentCount: number): boolean;
-  incrementAdminLoginAttempts(): Promise<void>;
-  resetAdminLoginAttempts(): Promise<void>;
+  getPlan(): Promise<ISubscriptionPlan>;
+  canAddTeamMember(currentCount: number): Promise<boolean>;
+  canAddClient(currentCount: number): Promise<boolean>;
 }
 
 /**
@@ -116,84 +106,18 @@ const tenantSchema = new Schema<ITenant>({
     default: 'active',
     index: true
   },
-  plan: {
-    type: String,
-    enum: ['free', 'basic', 'premium', 'enterprise'],
-    default: 'free',
-    index: true
-  },
-  
-  // NEW: Admin credentials for tenant
-  adminEmail: {
-    type: String,
-    required: true,
-    lowercase: true,
-    trim: true,
-    match: [/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'Invalid email format'],
-    index: true
-  },
-  adminPassword: {
-    type: String,
-    required: true,
-    minlength: 8,
-    select: false // Don't include in queries by default
-  },
-  adminFirstName: {
-    type: String,
-    required: true,
-    trim: true,
-    maxlength: 50
-  },
-  adminLastName: {
-    type: String,
-    required: true,
-    trim: true,
-    maxlength: 50
-  },
-  adminLastLogin: {
-    type: Date,
-    index: true
-  },
-  adminLoginAttempts: {
+  permissionVersion: {
     type: Number,
     default: 0
   },
-  adminLockUntil: {
-    type: Date,
-    select: false
+  planId: {
+    type: Schema.Types.ObjectId,
+    ref: 'SubscriptionPlan',
+    required: true,
+    index: true
   },
   
   settings: {
-    maxTeamMembers: {
-      type: Number,
-      default: 5,
-      min: 1,
-      max: 100
-    },
-    maxClients: {
-      type: Number,
-      default: 1000,
-      min: 10,
-      max: 100000
-    },
-    maxStorage: {
-      type: Number,
-      default: 1000, // 1GB
-      min: 100,
-      max: 1000000 // 1TB
-    },
-    features: [{
-      type: String,
-      enum: [
-        'multi_tenant',
-        'custom_branding',
-        'advanced_analytics',
-        'api_access',
-        'white_label',
-        'priority_support',
-        'custom_integrations'
-      ]
-    }],
     allowSelfRegistration: {
       type: Boolean,
       default: false
@@ -202,6 +126,83 @@ const tenantSchema = new Schema<ITenant>({
       type: Boolean,
       default: true
     },
+    requireStaffMfa: {
+      type: Boolean,
+      default: false
+    },
+    securityPolicy: {
+      passwordMinLength: {
+        type: Number,
+        default: DEFAULT_SECURITY_POLICY.passwordMinLength,
+        min: SECURITY_POLICY_LIMITS.passwordMinLength.min,
+        max: SECURITY_POLICY_LIMITS.passwordMinLength.max
+      },
+      passwordRequireUppercase: {
+        type: Boolean,
+        default: DEFAULT_SECURITY_POLICY.passwordRequireUppercase
+      },
+      passwordRequireLowercase: {
+        type: Boolean,
+        default: DEFAULT_SECURITY_POLICY.passwordRequireLowercase
+      },
+      passwordRequireNumber: {
+        type: Boolean,
+        default: DEFAULT_SECURITY_POLICY.passwordRequireNumber
+      },
+      passwordRequireSymbol: {
+        type: Boolean,
+        default: DEFAULT_SECURITY_POLICY.passwordRequireSymbol
+      },
+      passwordBlockBreached: {
+        type: Boolean,
+        default: DEFAULT_SECURITY_POLICY.passwordBlockBreached
+      },
+      passwordMaxAgeDays: {
+        type: Number,
+        default: DEFAULT_SECURITY_POLICY.passwordMaxAgeDays,
+        min: SECURITY_POLICY_LIMITS.passwordMaxAgeDays.min,
+        max: SECURITY_POLICY_LIMITS.passwordMaxAgeDays.max
+      },
+      passwordHistoryCount: {
+        type: Number,
+        default: DEFAULT_SECURITY_POLICY.passwordHistoryCount,
+        min: SECURITY_POLICY_LIMITS.passwordHistoryCount.min,
+        max: SECURITY_POLICY_LIMITS.passwordHistoryCount.max
+      },
+      maxLoginAttempts: {
+        type: Number,
+        default: DEFAULT_SECURITY_POLICY.maxLoginAttempts,
+        min: SECURITY_POLICY_LIMITS.maxLoginAttempts.min,
+        max: SECURITY_POLICY_LIMITS.maxLoginAttempts.max
+      },
+      lockoutDurationMinutes: {
+        type: Number,
+        default: DEFAULT_SECURITY_POLICY.lockoutDurationMinutes,
+        min: SECURITY_POLICY_LIMITS.lockoutDurationMinutes.min,
+        max: SECURITY_POLICY_LIMITS.lockoutDurationMinutes.max
+      },
+      idleSessionTimeoutMinutes: {
+        type: Number,
+        default: DEFAULT_SECURITY_POLICY.idleSessionTimeoutMinutes,
+        min: SECURITY_POLICY_LIMITS.idleSessionTimeoutMinutes.min,
+        max: SECURITY_POLICY_LIMITS.idleSessionTimeoutMinutes.max
+      },
+      allowedIpRanges: {
+        type: [String],
+        default: []
+      }
+    },
+    clientAssignment: {
+      strategy: {
+        type: String,
+        enum: CLIENT_ASSIGNMENT_STRATEGIES,
+        default: 'manual'
+      },
+      lastAssignedTo: {
+        type: Schema.Types.ObjectId,
+        ref: 'TenantTeamMember'
+      }
+    },
     branding: {
       logo: String,
       theme: {
@@ -241,50 +242,7 @@ const tenantSchema = new Schema<ITenant>({
     }
   },
   subscription: {
-    plan: {
-      type: String,
-      enum: ['free', 'basic', 'premium', 'enterprise'],
-      default: 'free'
-    },
-    maxTeamMembers: {
-      type: Number,
-      default: 5,
-      min: 1,
-      max: 100
-    },
-    maxClients: {
-      type: Number,
-      default: 1000,
-      min: 10,
-      max: 100000
-    },
-    expiresAt: Date,
-    features: {
-      visitorVisa: {
-        type: Boolean,
-        default: true
-      },
-      studyVisa: {
-        type: Boolean,
-        default: true
-      },
-      workPermit: {
-        type: Boolean,
-        default: true
-      },
-      permanentResidence: {
-        type: Boolean,
-        default: false
-      },
-      familySponsorship: {
-        type: Boolean,
-        default: false
-      },
-      businessImmigration: {
-        type: Boolean,
-        default: false
-      }
-    }
+    expiresAt: Date
   },
   billing: {
     customerId: String,
@@ -318,9 +276,8 @@ tenantSchema.plugin(softDeletePlugin);
 // Indexes for performance
 tenantSchema.index({ domain: 1 }, { unique: true });
 tenantSchema.index({ subdomain: 1 }, { sparse: true });
-tenantSchema.index({ status: 1, plan: 1 });
+tenantSchema.index({ status: 1, planId: 1 });
 tenantSchema.index({ 'billing.status': 1 });
-tenantSchema.index({ adminEmail: 1 }, { unique: true });
 tenantSchema.index({ createdAt: -1 });
 
 // Virtual for full domain
@@ -328,11 +285,6 @@ tenantSchema.virtual('fullDomain').get(function() {
   return this.subdomain ? `${this.subdomain}.${this.domain}` : this.domain;
 });
 
-// Virtual for admin lock status
-tenantSchema.virtual('isAdminLocked').get(function() {
-  return !!(this.adminLockUntil && this.adminLockUntil > new Date());
-});
-
 // Ensure virtual fields are serialized
 tenantSchema.set('toJSON', {
   virtuals: true,
@@ -340,6 +292,13 @@ tenantSchema.set('toJSON', {
     ret.id = ret._id;
     delete ret._id;
     delete ret.__v;
+    // Admin accounts live in TenantAdmin and credentials in Identity;
+    // documents not yet migrated may still carry them
+    delete ret.adminPassword;
+    delete ret.adminLoginAttempts;
+    delete ret.adminLockUntil;
+    delete ret.adminEmailVerificationToken;
+    delete ret.adminPasswordResetToken;
     return ret;
   }
 });
@@ -365,53 +324,34 @@ tenantSchema.statics.findBySubdomain = function(subdomain: string) {
   return this.findOne({ subdomain: subdomain.toLowerCase(), deletedAt: null });
 };
 
-tenantSchema.statics.findByAdminEmail = function(adminEmail: string) {
-  return this.findOne({ adminEmail: adminEmail.toLowerCase(), deletedAt: null });
-};
-
 // Instance methods
 tenantSchema.methods.isActive = function() {
   return this.status === 'active' && this.billing.status === 'active';
 };
 
-tenantSchema.methods.canAddTeamMember = function(currentCount: number) {
-  return currentCount < this.settings.maxTeamMembers;
-};
-
-tenantSchema.methods.canAddClient = function(currentCount: number) {
-  return currentCount < this.settings.maxClients;
+tenantSchema.methods.getPlan = async function() {
+  // Plans in use cannot be deleted, so a missing plan means broken data
+  const plan = await SubscriptionPlan.findById(this.planId);
+  if (!plan) {
+    throw new Error(`Subscription plan ${this.planId} of tenant ${this._id} not found`);
+  }
+  return plan;
 };
 
-tenantSchema.methods.incrementAdminLoginAttempts = function() {
-  // If we have a previous lock that has expired, restart at 1
-  if (this.adminLockUntil && this.adminLockUntil < new Date()) {
-    return this.updateOne({
-      $unset: { adminLockUntil: 1 },
-      $set: { adminLoginAttempts: 1 }
-    });
-  }
-  
-  const updates: any = { $inc: { adminLoginAttempts: 1 } };
-  
-  // Lock account after configured failed attempts for configured duration
-  if (this.adminLoginAttempts + 1 >= config.TENANT_ADMIN_MAX_LOGIN_ATTEMPTS && !this.isAdminLocked) {
-    updates.$set = { adminLockUntil: new Date(Date.now() + config.TENANT_ADMIN_LOCKOUT_DURATION_MS) };
-  }
-  
-  return this.updateOne(updates);
+tenantSchema.methods.canAddTeamMember = async function(currentCount: number) {
+  const plan = await this.getPlan();
+  return currentCount < plan.limits.maxTeamMembers;
 };
 
-tenantSchema.methods.resetAdminLoginAttempts = function() {
-  return this.updateOne({
-    $unset: { adminLoginAttempts: 1, adminLockUntil: 1 }
-  });
+tenantSchema.methods.canAddClient = async function(currentCount: number) {
+  const plan = await this.getPlan();
+  return currentCount < plan.limits.maxClients;
 };
 
 // Add static methods to the model
 interface ITenantModel extends mongoose.Model<ITenant> {
   findByDomain(domain: string): Promise<ITenant | null>;
   findBySubdomain(subdomain: string): Promise<ITenant | null>;
-  findByAdminEmail(adminEmail: string): Promise<ITenant | null>;
 }
 
 export const Tenant = mongoose.model<ITenant, ITenantModel>('Tenant', tenantSchema);
@@ -0,0 +1,93 @@
+import mongoose, { Schema } from 'mongoose';
+import { IBaseModel, baseSchemaOptions } from './base.model';
+
+/**
+ * Usage counters incremented as things happen (kept in Redis until flushed)
+ */
+export const USAGE_COUNTERS = ['apiCalls', 'documentUploads'] as const;
+
+/**
+ * Usage gauges measured at flush time
+ */
+export const USAGE_GAUGES = ['storageBytes', 'activeClients', 'seats'] as const;
+
+export type UsageCounter = typeof USAGE_COUNTERS[number];
+export type UsageGauge = typeof USAGE_GAUGES[number];
+export type UsageMetric = UsageCounter | UsageGauge;
+
+/**
+ * UsageRecord Model Interface
+ * Usage of one tenant in one billing period (calendar month, UTC)
+ */
+export interface IUsageRecord extends IBaseModel {
+  tenantId: mongoose.Types.ObjectId;
+  period: string; // YYYY-MM
+  periodStart: Date;
+  periodEnd: Date; // exclusive
+  apiCalls: number;
+  documentUploads: number;
+  storageBytes: number; // at the last flush
+  activeClients: number; // at the last flush
+  seats: number; // team members at the last flush
+  flushedAt: Date;
+}
+
+/**
+ * UsageRecord Schema
+ */
+const usageRecordSchema = new Schema<IUsageRecord>({
+  tenantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Tenant',
+    required: true
+  },
+  period: {
+    type: String,
+    required: true,
+    match: /^\d{4}-\d{2}$/,
+    index: true
+  },
+  periodStart: {
+    type: Date,
+    required: true
+  },
+  periodEnd: {
+    type: Date,
+    required: true
+  },
+  apiCalls: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  documentUploads: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  storageBytes: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  activeClients: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  seats: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  flushedAt: {
+    type: Date,
+    required: true
+  }
+}, baseSchemaOptions);
+
+// One record per tenant per period
+usageRecordSchema.index({ tenantId: 1, period: -1 }, { unique: true });
+
+// Export UsageRecord model
+export const UsageRecord = mongoose.model<IUsageRecord>('UsageRecord', usageRecordSchema);
@@ -1,6 +1,5 @@
 import mongoose, { Schema } from 'mongoose';
 import { IBaseModel, baseSchemaOptions, softDeletePlugin } from './base.model';
-import { config } from '../config/env.config';
 
 /**
  * User Model Interface
@@ -10,17 +9,16 @@ export interface IUser extends IBaseModel {
   tenantId: mongoose.Types.ObjectId; // REQUIRED - clients belong to one tenant
   assignedTo?: mongoose.Types.ObjectId; // team member who handles this client
   email: string;
-  password: string;
   firstName: string;
   lastName: string;
   status: 'active' | 'inactive' | 'pending' | 'suspended';
+  permissionVersion: number; // bumped when status changes
   emailVerified: boolean;
   emailVerificationToken?: string;
+  emailVerificationExpires?: Date;
   passwordResetToken?: string;
   passwordResetExpires?: Date;
   lastLogin?: Date;
-  loginAttempts: number;
-  lockUntil?: Date;
   profile: {
     avatar?: string;
     phone?: string;
@@ -58,12 +56,9 @@ export interface IUser extends IBaseModel {
   };
   
   // Virtual properties
-  isLocked: boolean;
   fullName: string;
   
   // Instance methods
-  incrementLoginAttempts(): Promise<void>;
-  resetLoginAttempts(): Promise<void>;
   isActive(): boolean;
   canAccess(requiredPermission: string): boolean;
 }
@@ -75,7 +70,7 @@ export interface IUserModel extends mongoose.Model<IUser> {
   findByEmail(email: string, tenantId?: string): Promise<(mongoose.Document<unknown, {}, IUser> & IUser) | null>;
   findActiveUsers(tenantId?: string): Promise<(mongoose.Document<unknown, {}, IUser> & IUser)[]>;
   findByTenant(tenantId: string): Promise<(mongoose.Document<unknown, {}, IUser> & IUser)[]>;
-  findByAssignedTo(assignedTo: string): Promise<(mongoose.Document<unknown, {}, IUser> & IUser)[]>;
+  findByAssignedTo(assignedTo: string, tenantId?: string): Promise<(mongoose.Document<unknown, {}, IUser> & IUser)[]>;
 }
 
 /**
@@ -101,12 +96,6 @@ const userSchema = new Schema<IUser>({
     match: [/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'Invalid email format'],
     index: true
   },
-  password: {
-    type: String,
-    required: true,
-    minlength: 8,
-    select: false // Don't include in queries by default
-  },
   firstName: {
     type: String,
     required: true,
@@ -125,6 +114,10 @@ const userSchema = new Schema<IUser>({
     default: 'pending',
     index: true
   },
+  permissionVersion: {
+    type: Number,
+    default: 0
+  },
   emailVerified: {
     type: Boolean,
     default: false,
@@ -134,6 +127,10 @@ const userSchema = new Schema<IUser>({
     type: String,
     select: false
   },
+  emailVerificationExpires: {
+    type: Date,
+    select: false
+  },
   passwordResetToken: {
     type: String,
     select: false
@@ -146,14 +143,6 @@ const userSchema = new Schema<IUser>({
     type: Date,
     index: true
   },
-  loginAttempts: {
-    type: Number,
-    default: 0
-  },
-  lockUntil: {
-    type: Date,
-    select: false
-  },
   profile: {
     avatar: String,
     phone: {
@@ -241,6 +230,8 @@ userSchema.index({ assignedTo: 1, status: 1 });
 userSchema.index({ emailVerified: 1, status: 1 });
 userSchema.index({ lastLogin: -1 });
 userSchema.index({ createdAt: -1 });
+userSchema.index({ emailVerificationToken: 1 }, { sparse: true });
+userSchema.index({ passwordResetToken: 1 }, { sparse: true });
 
 // PERFORMANCE FIX: Compound indexes for analytics and filtering
 userSchema.index({ tenantId: 1, deletedAt: 1, status: 1 });
@@ -251,11 +242,6 @@ userSchema.virtual('fullName').get(function() {
   return `${this.firstName} ${this.lastName}`;
 });
 
-// Virtual for account lock status
-userSchema.virtual('isLocked').get(function() {
-  return !!(this.lockUntil && this.lockUntil > new Date());
-});
-
 // Ensure virtual fields are serialized
 userSchema.set('toJSON', {
   virtuals: true,
@@ -263,8 +249,11 @@ userSchema.set('toJSON', {
     ret.id = ret._id;
     delete ret._id;
     delete ret.__v;
-    // Never return password or sensitive fields
+    // Never return sensitive fields; credentials live in Identity, but
+    // documents not yet migrated may still carry them
     delete ret.password;
+    delete ret.loginAttempts;
+    delete ret.lockUntil;
     delete ret.emailVerificationToken;
     delete ret.passwordResetToken;
     delete ret.mfa?.secret;
@@ -304,39 +293,19 @@ userSchema.statics.findByTenant = function(tenantId: string) {
     .populate('assignedTo', 'firstName lastName email role');
 };
 
-userSchema.statics.findByAssignedTo = function(assignedTo: string) {
-  return this.find({ assignedTo, deletedAt: null })
+userSchema.statics.findByAssignedTo = function(assignedTo: string, tenantId?: string) {
+  const query: Record<string, unknown> = { assignedTo, deletedAt: null };
+  if (tenantId) {
+    query.tenantId = tenantId;
+  }
+  return this.find(query)
     .populate('tenantId', 'name domain');
 };
 
 // Instance methods
-userSchema.methods.incrementLoginAttempts = function() {
-  // If we have a previous lock that has expired, restart at 1
-  if (this.lockUntil && this.lockUntil < new Date()) {
-    return this.updateOne({
-      $unset: { lockUntil: 1 },
-      $set: { loginAttempts: 1 }
-    });
-  }
-  
-  const updates: any = { $inc: { loginAttempts: 1 } };
-  
-  // Lock account after configured failed attempts for configured duration
-  if (this.loginAttempts + 1 >= config.CLIENT_MAX_LOGIN_ATTEMPTS && !this.isLocked) {
-    updates.$set = { lockUntil: new Date(Date.now() + config.CLIENT_LOCKOUT_DURATION_MS) };
-  }
-  
-  return this.updateOne(updates);
-};
-
-userSchema.methods.resetLoginAttempts = function() {
-  return this.updateOne({
-    $unset: { loginAttempts: 1, lockUntil: 1 }
-  });
-};
 
 userSchema.methods.isActive = function() {
-  return this.status === 'active' && !this.isLocked;
+  return this.status === 'active';
 };
 
 userSchema.methods.canAccess = function(requiredPermission: string) {
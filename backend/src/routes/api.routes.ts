@@ -11,6 +11,7 @@ import sessionRoutes from './session.routes';
 import securityRoutes from './security.routes';
 import monitoringRoutes from './monitoring.routes';
 import tenantBrandingRoutes from './tenant-branding.routes';
+import documentRoutes from './document.routes';
 
 const router = Router();
 
@@ -46,6 +47,7 @@ router.get('/info', (_req, res) => {
         tenantAdmin: '/api/v1/tenant-admin',
         teamMember: '/api/v1/team-member',
         client: '/api/v1/client',
+        documents: '/api/v1/documents',
         health: '/api/v1/health',
         info: '/api/v1/info'
       },
@@ -63,6 +65,7 @@ router.use('/super-admin', superAdminRoutes);
 router.use('/tenant-admin', tenantAdminRoutes);
 router.use('/team-member', teamMemberRoutes);
 router.use('/client', clientRoutes);
+router.use('/documents', documentRoutes);
 
 // System Routes
 router.use('/sessions', sessionRoutes);
@@ -6,13 +6,29 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { authenticateToken, requireClient, auditLog, requirePermission } from '../middleware/auth.middleware';
-import { validateBody, validateParams } from '../middleware/zod.middleware';
-import { cacheConfigs } from '../middleware/cache.middleware';
+import { authenticateToken, requireClient, auditLog, requirePermission, authRateLimit, forbidImpersonation } from '../middleware/auth.middleware';
+import { validate } from '../middleware/zod.middleware';
+import { cacheConfigs, createCacheInvalidationMiddleware } from '../middleware/cache.middleware';
 import { z } from 'zod';
 import { schemas } from '../utils/zod.schemas';
 import { ValidationUtils } from '../utils/validation.utils';
 import logger from '../utils/logger';
+import { ApplicationService } from '../features/application/application.service';
+import { ApplicationError } from '../features/application/errors/application.errors';
+import { APPLICATION_TYPES, APPLICATION_STATUSES } from '../models/application.model';
+import { DocumentService } from '../features/document/document.service';
+import { DocumentError } from '../features/document/errors/document.errors';
+import { uploadSingleDocument } from '../middleware/upload.middleware';
+import { requireFeature, requireQuota, applicationTypeFeature } from '../middleware/plan-entitlement.middleware';
+import { DocumentChecklistService } from '../features/document-checklist/document-checklist.service';
+import { DocumentChecklistError } from '../features/document-checklist/errors/document-checklist.errors';
+import { MessagingController } from '../features/messaging/messaging.controller';
+import { createThreadSchema, threadIdSchema, postMessageSchema } from '../features/messaging/messaging.schemas';
+import { ClientProfileService } from '../features/client-profile/client-profile.service';
+import { ClientProfileError } from '../features/client-profile/errors/client-profile.errors';
+import { updateProfileSchema, UpdateProfileInput } from '../features/client-profile/client-profile.schemas';
+import { AuthController } from '../features/auth/auth.controller';
+import { changePasswordSchema } from '../features/auth/auth.schemas';
 
 const router = Router();
 
@@ -27,12 +43,26 @@ class ClientController {
    */
   static async getMyProfile(req: Request, res: Response): Promise<void> {
     try {
-      // TODO: Implement client profile retrieval logic
-      // Will use req.tenantId and req.user?.userId
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const profile = await ClientProfileService.getProfile(tenantId, userId);
+
       res.status(200).json({
         success: true,
         data: {
-          profile: {},
+          profile,
           message: 'Profile retrieved successfully'
         }
       });
@@ -42,6 +72,17 @@ class ClientController {
         userId: req.user?.userId,
         error: error instanceof Error ? error.message : 'Unknown error' 
       });
+
+      if (error instanceof ClientProfileError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
       
       res.status(500).json({
         success: false,
@@ -59,12 +100,26 @@ class ClientController {
    */
   static async updateMyProfile(req: Request, res: Response): Promise<void> {
     try {
-      // TODO: Will use req.tenantId and req.user?.userId
-      // TODO: Implement client profile update logic
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const profile = await ClientProfileService.updateProfile(tenantId, userId, req.body as UpdateProfileInput);
+
       res.status(200).json({
         success: true,
         data: {
-          profile: {},
+          profile,
           message: 'Profile updated successfully'
         }
       });
@@ -74,6 +129,17 @@ class ClientController {
         userId: req.user?.userId,
         error: error instanceof Error ? error.message : 'Unknown error' 
       });
+
+      if (error instanceof ClientProfileError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
       
       res.status(500).json({
         success: false,
@@ -91,12 +157,27 @@ class ClientController {
    */
   static async getMyApplications(req: Request, res: Response): Promise<void> {
     try {
-      // TODO: Will use req.tenantId and req.user?.userId
-      // TODO: Implement client applications retrieval logic
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const applications = await ApplicationService.getClientApplications(tenantId, userId);
+
       res.status(200).json({
         success: true,
         data: {
-          applications: [],
+          applications,
+          count: applications.length,
           message: 'Applications retrieved successfully'
         }
       });
@@ -123,12 +204,35 @@ class ClientController {
    */
   static async createApplication(req: Request, res: Response): Promise<void> {
     try {
-      // TODO: Will use req.tenantId and req.user?.userId
-      // TODO: Implement client application creation logic
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const application = await ApplicationService.createClientApplication(tenantId, userId, req.body, {
+        id: userId,
+        type: 'client'
+      });
+
+      logger.info('Client application created successfully', {
+        applicationId: application.id,
+        tenantId,
+        userId
+      });
+
       res.status(201).json({
         success: true,
         data: {
-          application: {},
+          application,
           message: 'Application created successfully'
         }
       });
@@ -138,6 +242,17 @@ class ClientController {
         userId: req.user?.userId,
         error: error instanceof Error ? error.message : 'Unknown error' 
       });
+
+      if (error instanceof ApplicationError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
       
       res.status(500).json({
         success: false,
@@ -155,12 +270,30 @@ class ClientController {
    */
   static async updateApplication(req: Request, res: Response): Promise<void> {
     try {
-      // TODO: Will use req.params.id, req.tenantId, and req.user?.userId
-      // TODO: Implement client application update logic
+      const applicationId = ValidationUtils.validateObjectId(req.params.id, 'Application ID');
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const application = await ApplicationService.updateClientApplication(tenantId, userId, applicationId, req.body, {
+        id: userId,
+        type: 'client'
+      });
+
       res.status(200).json({
         success: true,
         data: {
-          application: {},
+          application,
           message: 'Application updated successfully'
         }
       });
@@ -172,6 +305,17 @@ class ClientController {
         applicationId,
         error: error instanceof Error ? error.message : 'Unknown error' 
       });
+
+      if (error instanceof ApplicationError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
       
       res.status(500).json({
         success: false,
@@ -183,18 +327,94 @@ class ClientController {
     }
   }
 
+  /**
+   * Get my documents
+   * GET /api/v1/client/documents
+   */
+  static async getMyDocuments(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const documents = await DocumentService.getClientDocuments(tenantId, userId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          documents,
+          count: documents.length,
+          message: 'Documents retrieved successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Get client documents failed', { 
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'DOCUMENTS_RETRIEVAL_FAILED',
+          message: 'Failed to retrieve documents'
+        }
+      });
+    }
+  }
+
   /**
    * Upload document
-   * POST /api/v1/client/documents
+   * POST /api/v1/client/documents (multipart/form-data, file field "file")
    */
   static async uploadDocument(req: Request, res: Response): Promise<void> {
     try {
-      // TODO: Will use req.tenantId and req.user?.userId
-      // TODO: Implement client document upload logic
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const document = await DocumentService.uploadDocument(tenantId, {
+        clientId: userId,
+        applicationId: req.body.applicationId,
+        documentType: req.body.documentType,
+        file: req.file
+      }, {
+        id: userId,
+        type: 'client'
+      });
+
+      logger.info('Client document uploaded successfully', {
+        documentId: document.id,
+        tenantId,
+        userId,
+        size: document.size
+      });
+
       res.status(201).json({
         success: true,
         data: {
-          document: {},
+          document,
           message: 'Document uploaded successfully'
         }
       });
@@ -204,6 +424,17 @@ class ClientController {
         userId: req.user?.userId,
         error: error instanceof Error ? error.message : 'Unknown error' 
       });
+
+      if (error instanceof DocumentError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
       
       res.status(500).json({
         success: false,
@@ -221,12 +452,30 @@ class ClientController {
    */
   static async getApplicationStatus(req: Request, res: Response): Promise<void> {
     try {
-      // TODO: Will use req.params.id, req.tenantId, and req.user?.userId
-      // TODO: Implement application status retrieval logic
+      const applicationId = ValidationUtils.validateObjectId(req.params.id, 'Application ID');
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const status = await ApplicationService.getClientApplicationStatus(tenantId, userId, applicationId, {
+        id: userId,
+        type: 'client'
+      });
+
       res.status(200).json({
         success: true,
         data: {
-          status: {},
+          status,
           message: 'Application status retrieved successfully'
         }
       });
@@ -238,6 +487,17 @@ class ClientController {
         applicationId,
         error: error instanceof Error ? error.message : 'Unknown error' 
       });
+
+      if (error instanceof ApplicationError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
       
       res.status(500).json({
         success: false,
@@ -250,31 +510,105 @@ class ClientController {
   }
 
   /**
-   * Change password
-   * PUT /api/v1/client/change-password
+   * Get document completeness of my applications
+   * GET /api/v1/client/my-applications/completeness
+   */
+  static async getMyApplicationsCompleteness(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const applications = await DocumentChecklistService.getClientCompleteness(tenantId, userId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          applications,
+          count: applications.length,
+          message: 'Application completeness retrieved successfully'
+        }
+      });
+    } catch (error) {
+      logger.error('Get client applications completeness failed', { 
+        tenantId: req.tenantId,
+        userId: req.user?.userId,
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'COMPLETENESS_RETRIEVAL_FAILED',
+          message: 'Failed to retrieve application completeness'
+        }
+      });
+    }
+  }
+
+  /**
+   * Get document checklist of an application
+   * GET /api/v1/client/applications/:id/checklist
    */
-  static async changePassword(req: Request, res: Response): Promise<void> {
+  static async getApplicationChecklist(req: Request, res: Response): Promise<void> {
     try {
-      // TODO: Will use req.tenantId and req.user?.userId
-      // TODO: Implement client password change logic
+      const tenantId = req.tenantId;
+      const userId = req.user?.userId;
+
+      if (!tenantId || !userId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'TENANT_ID_MISSING',
+            message: 'Tenant ID is required'
+          }
+        });
+        return;
+      }
+
+      const checklist = await DocumentChecklistService.getClientApplicationCompleteness(tenantId, userId, req.params.id);
+
       res.status(200).json({
         success: true,
         data: {
-          message: 'Password changed successfully'
+          checklist,
+          message: 'Application checklist retrieved successfully'
         }
       });
     } catch (error) {
-      logger.error('Change client password failed', { 
+      logger.error('Get application checklist failed', { 
         tenantId: req.tenantId,
         userId: req.user?.userId,
+        applicationId: req.params.id,
         error: error instanceof Error ? error.message : 'Unknown error' 
       });
+
+      if (error instanceof DocumentChecklistError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
       
       res.status(500).json({
         success: false,
         error: {
-          code: 'PASSWORD_CHANGE_FAILED',
-          message: 'Failed to change password'
+          code: 'CHECKLIST_RETRIEVAL_FAILED',
+          message: 'Failed to retrieve application checklist'
         }
       });
     }
@@ -284,36 +618,10 @@ class ClientController {
 /**
  * Validation Schemas
  */
-const updateProfileSchema = z.object({
-  body: z.object({
-    firstName: z.string().min(1).max(50).optional(),
-    lastName: z.string().min(1).max(50).optional(),
-    profile: z.object({
-      phone: z.string().optional(),
-      dateOfBirth: z.string().optional(),
-      nationality: z.string().optional(),
-      address: z.string().optional(),
-      emergencyContact: z.object({
-        name: z.string(),
-        phone: z.string(),
-        relationship: z.string()
-      }).optional()
-    }).optional(),
-    preferences: z.object({
-      theme: z.enum(['light', 'dark', 'system']).optional(),
-      notifications: z.object({
-        email: z.boolean().optional(),
-        push: z.boolean().optional(),
-        sms: z.boolean().optional()
-      }).optional()
-    }).optional()
-  })
-});
-
 const createApplicationSchema = z.object({
   body: z.object({
-    type: z.enum(['visitor_visa', 'study_visa', 'work_permit', 'permanent_residence', 'family_sponsorship', 'business_immigration']),
-    status: z.enum(['draft', 'submitted', 'in_review', 'approved', 'rejected', 'in_progress']).default('draft'),
+    type: z.enum(APPLICATION_TYPES),
+    status: z.enum(['draft', 'submitted']).default('draft'), // Transition graph is enforced by ApplicationService
     notes: z.string().optional(),
     documents: z.array(z.string()).default([])
   })
@@ -321,7 +629,8 @@ const createApplicationSchema = z.object({
 
 const updateApplicationSchema = z.object({
   body: z.object({
-    status: z.enum(['draft', 'submitted', 'in_review', 'approved', 'rejected', 'in_progress']).optional(),
+    status: z.enum(APPLICATION_STATUSES).optional(),
+    reason: z.string().max(500).optional(),
     notes: z.string().optional(),
     documents: z.array(z.string()).optional()
   })
@@ -333,36 +642,14 @@ const applicationIdSchema = z.object({
   })
 });
 
+// File name, size and MIME type come from the multipart file itself
 const uploadDocumentSchema = z.object({
   body: z.object({
     applicationId: schemas.objectId.optional(),
-    documentType: z.string().min(1, 'Document type is required'),
-    fileName: z.string().min(1, 'File name is required'),
-    fileSize: z.number().min(1, 'File size must be greater than 0'),
-    mimeType: z.string().min(1, 'MIME type is required')
+    documentType: z.string().min(1, 'Document type is required').max(100)
   })
 });
 
-const changePasswordSchema = z.object({
-  body: z.object({
-    currentPassword: z.string().min(1, 'Current password is required'),
-    newPassword: schemas.strongPassword,
-    confirmPassword: z.string()
-  }).refine(
-    (data) => data.newPassword === data.confirmPassword,
-    {
-      message: "Passwords don't match",
-      path: ['confirmPassword']
-    }
-  ).refine(
-    (data) => data.currentPassword !== data.newPassword,
-    {
-      message: 'New password must be different from current password',
-      path: ['newPassword']
-    }
-  )
-});
-
 /**
  * Client Routes
  * All routes require client authentication and are tenant-isolated
@@ -374,9 +661,10 @@ const changePasswordSchema = z.object({
  * @access  Client Only
  */
 router.get('/my-profile',
-  cacheConfigs.userSpecific, // Cache user-specific profile for 5 minutes
   authenticateToken,
   requireClient,
+  requireQuota('apiCallsPerMonth'),
+  cacheConfigs.userSpecific, // Cache user-specific profile for 5 minutes
   auditLog('profile.view_own', 'User'),
   ClientController.getMyProfile
 );
@@ -387,10 +675,12 @@ router.get('/my-profile',
  * @access  Client Only
  */
 router.put('/my-profile',
+  createCacheInvalidationMiddleware(['cache:GET:/api/v1/client/my-profile*']), // Invalidate profile cache
   authenticateToken,
   requireClient,
+  requireQuota('apiCallsPerMonth'),
   requirePermission('edit_own_profile'),
-  validateBody(updateProfileSchema),
+  validate(updateProfileSchema),
   auditLog('profile.update_own', 'User'),
   ClientController.updateMyProfile
 );
@@ -401,9 +691,10 @@ router.put('/my-profile',
  * @access  Client Only
  */
 router.get('/my-applications',
-  cacheConfigs.userSpecific, // Cache user-specific applications for 5 minutes
   authenticateToken,
   requireClient,
+  requireQuota('apiCallsPerMonth'),
+  cacheConfigs.userSpecific, // Cache user-specific applications for 5 minutes (keyed after auth so userId is known)
   auditLog('applications.view_own', 'Application'),
   ClientController.getMyApplications
 );
@@ -414,9 +705,12 @@ router.get('/my-applications',
  * @access  Client Only
  */
 router.post('/applications',
+  createCacheInvalidationMiddleware(['cache:GET:/api/v1/client/my-applications*']), // Invalidate my applications cache
   authenticateToken,
   requireClient,
-  validateBody(createApplicationSchema),
+  requireQuota('apiCallsPerMonth'),
+  validate(createApplicationSchema),
+  requireFeature(applicationTypeFeature),
   auditLog('applications.create', 'Application'),
   ClientController.createApplication
 );
@@ -427,10 +721,12 @@ router.post('/applications',
  * @access  Client Only
  */
 router.put('/applications/:id',
+  createCacheInvalidationMiddleware(['cache:GET:/api/v1/client/my-applications*']), // Invalidate my applications cache
   authenticateToken,
   requireClient,
-  validateParams(applicationIdSchema),
-  validateBody(updateApplicationSchema),
+  requireQuota('apiCallsPerMonth'),
+  validate(applicationIdSchema),
+  validate(updateApplicationSchema),
   auditLog('applications.update_own', 'Application'),
   ClientController.updateApplication
 );
@@ -443,36 +739,151 @@ router.put('/applications/:id',
 router.get('/applications/:id/status',
   authenticateToken,
   requireClient,
-  validateParams(applicationIdSchema),
+  requireQuota('apiCallsPerMonth'),
+  validate(applicationIdSchema),
   auditLog('applications.view_status', 'Application'),
   ClientController.getApplicationStatus
 );
 
+/**
+ * @route   GET /api/v1/client/my-applications/completeness
+ * @desc    Get document completeness of my applications
+ * @access  Client Only
+ */
+router.get('/my-applications/completeness',
+  authenticateToken,
+  requireClient,
+  requireQuota('apiCallsPerMonth'),
+  auditLog('applications.view_completeness', 'Application'),
+  ClientController.getMyApplicationsCompleteness
+);
+
+/**
+ * @route   GET /api/v1/client/applications/:id/checklist
+ * @desc    Get document checklist and missing items of an application
+ * @access  Client Only
+ */
+router.get('/applications/:id/checklist',
+  authenticateToken,
+  requireClient,
+  requireQuota('apiCallsPerMonth'),
+  validate(applicationIdSchema),
+  auditLog('applications.view_checklist', 'Application'),
+  ClientController.getApplicationChecklist
+);
+
+/**
+ * @route   GET /api/v1/client/documents
+ * @desc    Get my documents
+ * @access  Client Only
+ */
+router.get('/documents',
+  authenticateToken,
+  requireClient,
+  requireQuota('apiCallsPerMonth'),
+  cacheConfigs.userSpecific, // Cache per user
+  auditLog('documents.view_own', 'Document'),
+  ClientController.getMyDocuments
+);
+
 /**
  * @route   POST /api/v1/client/documents
- * @desc    Upload document
+ * @desc    Upload document (multipart/form-data)
  * @access  Client Only
  */
 router.post('/documents',
+  createCacheInvalidationMiddleware(['cache:GET:/api/v1/client/documents*']), // Invalidate document list cache
   authenticateToken,
   requireClient,
+  requireQuota('apiCallsPerMonth'),
   requirePermission('upload_documents'),
-  validateBody(uploadDocumentSchema),
+  requireQuota('documentUploadsPerMonth'),
+  uploadSingleDocument(),
+  validate(uploadDocumentSchema),
   auditLog('documents.upload_own', 'Document'),
   ClientController.uploadDocument
 );
 
+/**
+ * @route   GET /api/v1/client/messages/threads
+ * @desc    Get my message threads
+ * @access  Client Only
+ */
+router.get('/messages/threads',
+  authenticateToken,
+  requireClient,
+  requireQuota('apiCallsPerMonth'),
+  auditLog('messages.view_threads', 'MessageThread'),
+  MessagingController.getThreads
+);
+
+/**
+ * @route   POST /api/v1/client/messages/threads
+ * @desc    Start a message thread with my consultant
+ * @access  Client Only
+ */
+router.post('/messages/threads',
+  authenticateToken,
+  requireClient,
+  requireQuota('apiCallsPerMonth'),
+  validate(createThreadSchema),
+  auditLog('messages.create_thread', 'MessageThread'),
+  MessagingController.createThread
+);
+
+/**
+ * @route   GET /api/v1/client/messages/threads/:id
+ * @desc    Get a message thread and mark it read
+ * @access  Client Only
+ */
+router.get('/messages/threads/:id',
+  authenticateToken,
+  requireClient,
+  requireQuota('apiCallsPerMonth'),
+  validate(threadIdSchema),
+  auditLog('messages.view_thread', 'MessageThread'),
+  MessagingController.getThread
+);
+
+/**
+ * @route   POST /api/v1/client/messages/threads/:id/messages
+ * @desc    Reply to a message thread
+ * @access  Client Only
+ */
+router.post('/messages/threads/:id/messages',
+  authenticateToken,
+  requireClient,
+  requireQuota('apiCallsPerMonth'),
+  validate(postMessageSchema),
+  auditLog('messages.send', 'Message'),
+  MessagingController.postMessage
+);
+
+/**
+ * @route   GET /api/v1/client/messages/unread-count
+ * @desc    Get my unread message count
+ * @access  Client Only
+ */
+router.get('/messages/unread-count',
+  authenticateToken,
+  requireClient,
+  requireQuota('apiCallsPerMonth'),
+  MessagingController.getUnreadCount
+);
+
 /**
  * @route   PUT /api/v1/client/change-password
- * @desc    Change password
+ * @desc    Change password (same as PUT /api/v1/auth/change-password)
  * @access  Client Only
  */
 router.put('/change-password',
+  authRateLimit,
   authenticateToken,
   requireClient,
-  validateBody(changePasswordSchema),
-  auditLog('password.change', 'User'),
-  ClientController.changePassword
+  requireQuota('apiCallsPerMonth'),
+  forbidImpersonation,
+  validate(changePasswordSchema),
+  AuthController.changePassword
 );
 
 export default router;
@@ -0,0 +1,41 @@
+/**
+ * Document Routes
+ * Signed download URLs for tenant documents
+ *
+ * @module routes/document
+ */
+
+import { Router } from 'express';
+import { authenticateToken, auditLog } from '../middleware/auth.middleware';
+import { validate } from '../middleware/zod.middleware';
+import { requireQuota } from '../middleware/plan-entitlement.middleware';
+import { DocumentController } from '../features/document/document.controller';
+import { getDownloadUrlSchema, downloadDocumentSchema } from '../features/document/document.schemas';
+
+const router = Router();
+
+/**
+ * @route   GET /api/v1/documents/:id/url
+ * @desc    Issue a signed, expiring download URL
+ * @access  Tenant Admin, Team Member (assigned clients), Client (own documents)
+ */
+router.get('/:id/url',
+  authenticateToken,
+  requireQuota('apiCallsPerMonth'),
+  validate(getDownloadUrlSchema),
+  auditLog('documents.issue_url', 'Document'),
+  DocumentController.getDownloadUrl
+);
+
+/**
+ * @route   GET /api/v1/documents/:id/download
+ * @desc    Download a document through a signed URL
+ * @access  Public (signature and expiry are the credential)
+ */
+router.get('/:id/download',
+  validate(downloadDocumentSchema),
+  auditLog('documents.download', 'Document'),
+  DocumentController.downloadDocument
+);
+
+export default router;
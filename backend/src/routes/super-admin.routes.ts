@@ -32,6 +32,10 @@ import {
   subscriptionPlanWriteLimiter,
   subscriptionPlanReorderLimiter
 } from '../middleware/subscription-plan-rate-limiters';
+import { ImpersonationController } from '../features/impersonation/impersonation.controller';
+import { startImpersonationSchema } from '../features/impersonation/impersonation.schemas';
+import { UsageController } from '../features/usage/usage.controller';
+import { getUsageSchema, getTenantUsageSchema } from '../features/usage/usage.schemas';
 
 const router = Router();
 
@@ -109,6 +113,32 @@ router.delete('/tenants/:id',
   SuperAdminController.deleteTenant
 );
 
+/**
+ * @route   GET /api/v1/super-admin/tenants/:id/usage
+ * @desc    Get metered usage of a tenant against its plan limits
+ * @access  Super Admin Only
+ */
+router.get('/tenants/:id/usage',
+  authenticateToken,
+  requireSuperAdmin,
+  validate(getTenantUsageSchema),
+  auditLog('usage.view_tenant', 'Tenant'),
+  UsageController.getTenantUsage
+);
+
+/**
+ * @route   GET /api/v1/super-admin/usage
+ * @desc    Get metered usage of all tenants
+ * @access  Super Admin Only
+ */
+router.get('/usage',
+  authenticateToken,
+  requireSuperAdmin,
+  validate(getUsageSchema),
+  auditLog('usage.view_all', 'System'),
+  UsageController.getAllUsage
+);
+
 /**
  * @route   GET /api/v1/super-admin/analytics
  * @desc    Get system analytics
@@ -135,6 +165,19 @@ router.get('/system-health',
   SuperAdminController.getSystemHealth
 );
 
+/**
+ * @route   POST /api/v1/super-admin/impersonation
+ * @desc    Start a time-boxed session as a tenant admin, team member or client
+ * @access  Super Admin Only
+ */
+router.post('/impersonation',
+  authenticateToken,
+  requireSuperAdmin,
+  validate(startImpersonationSchema),
+  auditLog('impersonation.start', 'User'),
+  ImpersonationController.start
+);
+
 /**
  * ========================================
  * SUBSCRIPTION PLAN ROUTES
@@ -261,4 +304,4 @@ router.delete('/subscription-plans/:id',
   SubscriptionPlanController.deletePlan
 );
 
-export default router;
\ No newline at end of file
+export default router;
\ No newline at end of file
@@ -6,17 +6,43 @@
  */
 
 import { Router } from 'express';
-import { authenticateToken, requireTenantAdmin, auditLog } from '../middleware/auth.middleware';
+import { authenticateToken, requireTenantAdmin, auditLog, forbidImpersonation } from '../middleware/auth.middleware';
 import { checkResourceOwnership, enforceTenantIsolation } from '../middleware/authorization.middleware';
 import { validate } from '../middleware/zod.middleware';
 import { cacheConfigs, createCacheInvalidationMiddleware } from '../middleware/cache.middleware';
+import { requireFeature, requireQuota } from '../middleware/plan-entitlement.middleware';
 import { TenantAdminController } from '../features/tenant-admin/tenant-admin.controller';
 import {
   createTeamMemberSchema,
   updateTeamMemberSchema,
   teamMemberIdSchema,
-  createClientSchema
+  createClientSchema,
+  updateClientSchema,
+  clientIdSchema,
+  reassignClientsSchema,
+  applicationIdSchema,
+  updateApplicationStatusSchema
 } from '../features/tenant-admin/tenant-admin.schemas';
+import { DocumentChecklistController } from '../features/document-checklist/document-checklist.controller';
+import {
+  checklistTypeSchema,
+  updateChecklistSchema
+} from '../features/document-checklist/document-checklist.schemas';
+import { ClientAssignmentController } from '../features/client-assignment/client-assignment.controller';
+import {
+  updateAssignmentSettingsSchema,
+  autoAssignClientsSchema
+} from '../features/client-assignment/client-assignment.schemas';
+import { TenantSecurityController } from '../features/tenant-security/tenant-security.controller';
+import { updateSecuritySettingsSchema } from '../features/tenant-security/tenant-security.schemas';
+import { RoleController } from '../features/role/role.controller';
+import { createRoleSchema, updateRoleSchema, roleIdSchema } from '../features/role/role.schemas';
+import { AdminTeamController } from '../features/admin-team/admin-team.controller';
+import { inviteAdminSchema, adminIdSchema } from '../features/admin-team/admin-team.schemas';
+import { ImpersonationController } from '../features/impersonation/impersonation.controller';
+import { startImpersonationSchema } from '../features/impersonation/impersonation.schemas';
+import { UsageController } from '../features/usage/usage.controller';
+import { getUsageSchema } from '../features/usage/usage.schemas';
 
 const router = Router();
 
@@ -35,6 +61,7 @@ router.get('/team-members',
   cacheConfigs.tenantSpecific, // Cache tenant-specific team members for 5 minutes
   authenticateToken,
   requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
   enforceTenantIsolation(),
   auditLog('team_members.list', 'TenantTeamMember'),
   TenantAdminController.getTeamMembers
@@ -49,6 +76,7 @@ router.post('/team-members',
   createCacheInvalidationMiddleware(['cache:GET:/api/v1/tenant-admin/team-members*']), // Invalidate team member caches
   authenticateToken,
   requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
   validate(createTeamMemberSchema),
   auditLog('team_members.create', 'TenantTeamMember'),
   TenantAdminController.createTeamMember
@@ -63,6 +91,7 @@ router.put('/team-members/:id',
   createCacheInvalidationMiddleware(['cache:GET:/api/v1/tenant-admin/team-members*']), // Invalidate team member caches
   authenticateToken,
   requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
   checkResourceOwnership('team_member'),
   validate(updateTeamMemberSchema),
   auditLog('team_members.update', 'TenantTeamMember'),
@@ -78,12 +107,151 @@ router.delete('/team-members/:id',
   createCacheInvalidationMiddleware(['cache:GET:/api/v1/tenant-admin/team-members*']), // Invalidate team member caches
   authenticateToken,
   requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
   checkResourceOwnership('team_member'),
   validate(teamMemberIdSchema),
   auditLog('team_members.delete', 'TenantTeamMember'),
   TenantAdminController.deleteTeamMember
 );
 
+/**
+ * @route   GET /api/v1/tenant-admin/roles/permissions
+ * @desc    Get the permissions that roles can grant
+ * @access  Tenant Admin Only
+ */
+router.get('/roles/permissions',
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  RoleController.getPermissionCatalog
+);
+
+/**
+ * @route   GET /api/v1/tenant-admin/roles
+ * @desc    Get all custom roles of the tenant
+ * @access  Tenant Admin Only
+ */
+router.get('/roles',
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  auditLog('roles.list', 'Role'),
+  RoleController.listRoles
+);
+
+/**
+ * @route   POST /api/v1/tenant-admin/roles
+ * @desc    Create a custom role
+ * @access  Tenant Admin Only
+ */
+router.post('/roles',
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  validate(createRoleSchema),
+  auditLog('roles.create', 'Role'),
+  RoleController.createRole
+);
+
+/**
+ * @route   PUT /api/v1/tenant-admin/roles/:roleId
+ * @desc    Update a custom role; permission changes apply to its team members at once
+ * @access  Tenant Admin Only
+ */
+router.put('/roles/:roleId',
+  createCacheInvalidationMiddleware(['cache:GET:/api/v1/tenant-admin/team-members*']), // Member permissions change with the role
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  validate(updateRoleSchema),
+  auditLog('roles.update', 'Role'),
+  RoleController.updateRole
+);
+
+/**
+ * @route   DELETE /api/v1/tenant-admin/roles/:roleId
+ * @desc    Delete a custom role that no team member holds
+ * @access  Tenant Admin Only
+ */
+router.delete('/roles/:roleId',
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  validate(roleIdSchema),
+  auditLog('roles.delete', 'Role'),
+  RoleController.deleteRole
+);
+
+/**
+ * @route   GET /api/v1/tenant-admin/admins
+ * @desc    Get all admins of the tenant, owner first
+ * @access  Tenant Admin Only
+ */
+router.get('/admins',
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  auditLog('tenant_admins.list', 'TenantAdmin'),
+  AdminTeamController.listAdmins
+);
+
+/**
+ * @route   POST /api/v1/tenant-admin/admins
+ * @desc    Invite another admin by email
+ * @access  Tenant Owner Only (checked in service)
+ */
+router.post('/admins',
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  validate(inviteAdminSchema),
+  auditLog('tenant_admins.invite', 'TenantAdmin'),
+  AdminTeamController.inviteAdmin
+);
+
+/**
+ * @route   DELETE /api/v1/tenant-admin/admins/:adminId
+ * @desc    Remove an admin; admins other than the owner may remove themselves
+ * @access  Tenant Owner Only (checked in service)
+ */
+router.delete('/admins/:adminId',
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  validate(adminIdSchema),
+  auditLog('tenant_admins.remove', 'TenantAdmin'),
+  AdminTeamController.removeAdmin
+);
+
+/**
+ * @route   POST /api/v1/tenant-admin/admins/:adminId/transfer-ownership
+ * @desc    Make another admin the owner of the tenant
+ * @access  Tenant Owner Only (checked in service)
+ */
+router.post('/admins/:adminId/transfer-ownership',
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  validate(adminIdSchema),
+  auditLog('tenant_admins.transfer_ownership', 'TenantAdmin'),
+  AdminTeamController.transferOwnership
+);
+
+/**
+ * @route   POST /api/v1/tenant-admin/impersonation
+ * @desc    Start a time-boxed session as a team member or client of the tenant
+ * @access  Tenant Admin Only
+ */
+router.post('/impersonation',
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  forbidImpersonation,
+  validate(startImpersonationSchema),
+  auditLog('impersonation.start', 'User'),
+  ImpersonationController.start
+);
+
 /**
  * @route   GET /api/v1/tenant-admin/clients
  * @desc    Get all clients for tenant
@@ -93,6 +261,7 @@ router.get('/clients',
   cacheConfigs.tenantSpecific, // Cache tenant-specific clients for 5 minutes
   authenticateToken,
   requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
   enforceTenantIsolation(),
   auditLog('clients.list', 'User'),
   TenantAdminController.getClients
@@ -107,22 +276,274 @@ router.post('/clients',
   createCacheInvalidationMiddleware(['cache:GET:/api/v1/tenant-admin/clients*']), // Invalidate client caches
   authenticateToken,
   requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
   validate(createClientSchema),
   auditLog('clients.create', 'User'),
   TenantAdminController.createClient
 );
 
+/**
+ * @route   POST /api/v1/tenant-admin/clients/reassign
+ * @desc    Move clients to another team member (or unassign them)
+ * @access  Tenant Admin Only
+ */
+router.post('/clients/reassign',
+  createCacheInvalidationMiddleware(['cache:GET:/api/v1/tenant-admin/clients*']), // Invalidate client caches
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  validate(reassignClientsSchema),
+  auditLog('clients.reassign', 'User'),
+  TenantAdminController.reassignClients
+);
+
+/**
+ * @route   POST /api/v1/tenant-admin/clients/auto-assign
+ * @desc    Assign unassigned clients using the tenant's assignment strategy
+ * @access  Tenant Admin Only
+ */
+router.post('/clients/auto-assign',
+  createCacheInvalidationMiddleware(['cache:GET:/api/v1/tenant-admin/clients*']), // Invalidate client caches
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  validate(autoAssignClientsSchema),
+  auditLog('clients.auto_assign', 'User'),
+  ClientAssignmentController.autoAssignClients
+);
+
+/**
+ * @route   GET /api/v1/tenant-admin/clients/:id
+ * @desc    Get client details
+ * @access  Tenant Admin Only
+ */
+router.get('/clients/:id',
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  checkResourceOwnership('client'),
+  validate(clientIdSchema),
+  auditLog('clients.view', 'User'),
+  TenantAdminController.getClient
+);
+
+/**
+ * @route   PUT /api/v1/tenant-admin/clients/:id
+ * @desc    Update client details, status or assignment
+ * @access  Tenant Admin Only
+ */
+router.put('/clients/:id',
+  createCacheInvalidationMiddleware(['cache:GET:/api/v1/tenant-admin/clients*']), // Invalidate client caches
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  checkResourceOwnership('client'),
+  validate(updateClientSchema),
+  auditLog('clients.update', 'User'),
+  TenantAdminController.updateClient
+);
+
+/**
+ * @route   DELETE /api/v1/tenant-admin/clients/:id
+ * @desc    Delete client (soft delete)
+ * @access  Tenant Admin Only
+ */
+router.delete('/clients/:id',
+  createCacheInvalidationMiddleware(['cache:GET:/api/v1/tenant-admin/clients*']), // Invalidate client caches
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  checkResourceOwnership('client'),
+  validate(clientIdSchema),
+  auditLog('clients.delete', 'User'),
+  TenantAdminController.deleteClient
+);
+
 /**
  * @route   GET /api/v1/tenant-admin/analytics
  * @desc    Get tenant analytics
  * @access  Tenant Admin Only
  */
 router.get('/analytics',
-  cacheConfigs.short, // Cache analytics for 1 minute (frequently changing data)
   authenticateToken,
   requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  requireFeature('advancedAnalytics'),
+  cacheConfigs.short, // Cache analytics for 1 minute (keyed after auth and the plan check so cached data is never served past them)
   auditLog('analytics.view_tenant', 'Analytics'),
   TenantAdminController.getTenantAnalytics
 );
 
-export default router;
\ No newline at end of file
+/**
+ * @route   GET /api/v1/tenant-admin/usage
+ * @desc    Get metered usage of the tenant against its plan limits
+ * @access  Tenant Admin Only
+ */
+router.get('/usage',
+  authenticateToken,
+  requireTenantAdmin,
+  validate(getUsageSchema),
+  auditLog('usage.view_tenant', 'Tenant'),
+  UsageController.getMyUsage
+);
+
+/**
+ * @route   GET /api/v1/tenant-admin/settings/client-assignment
+ * @desc    Get the client assignment strategy
+ * @access  Tenant Admin Only
+ */
+router.get('/settings/client-assignment',
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  auditLog('settings.view_client_assignment', 'Tenant'),
+  ClientAssignmentController.getSettings
+);
+
+/**
+ * @route   PUT /api/v1/tenant-admin/settings/client-assignment
+ * @desc    Change the client assignment strategy
+ * @access  Tenant Admin Only
+ */
+router.put('/settings/client-assignment',
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  validate(updateAssignmentSettingsSchema),
+  auditLog('settings.update_client_assignment', 'Tenant'),
+  ClientAssignmentController.updateSettings
+);
+
+/**
+ * @route   GET /api/v1/tenant-admin/settings/security
+ * @desc    Get tenant-wide security settings
+ * @access  Tenant Admin Only
+ */
+router.get('/settings/security',
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  auditLog('settings.view_security', 'Tenant'),
+  TenantSecurityController.getSettings
+);
+
+/**
+ * @route   PUT /api/v1/tenant-admin/settings/security
+ * @desc    Update tenant-wide security settings (e.g. require MFA for staff)
+ * @access  Tenant Admin Only
+ */
+router.put('/settings/security',
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  validate(updateSecuritySettingsSchema),
+  auditLog('settings.update_security', 'Tenant'),
+  TenantSecurityController.updateSettings
+);
+
+/**
+ * @route   GET /api/v1/tenant-admin/document-checklists
+ * @desc    Get document checklists for every enabled application type
+ * @access  Tenant Admin Only
+ */
+router.get('/document-checklists',
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  cacheConfigs.tenantSpecific, // Cache tenant-specific checklists for 5 minutes
+  auditLog('document_checklists.list', 'DocumentChecklist'),
+  DocumentChecklistController.getChecklists
+);
+
+/**
+ * @route   GET /api/v1/tenant-admin/document-checklists/:applicationType
+ * @desc    Get the document checklist of one application type
+ * @access  Tenant Admin Only
+ */
+router.get('/document-checklists/:applicationType',
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  cacheConfigs.tenantSpecific, // Cache tenant-specific checklists for 5 minutes
+  validate(checklistTypeSchema),
+  auditLog('document_checklists.view', 'DocumentChecklist'),
+  DocumentChecklistController.getChecklist
+);
+
+/**
+ * @route   PUT /api/v1/tenant-admin/document-checklists/:applicationType
+ * @desc    Replace the document checklist of one application type
+ * @access  Tenant Admin Only
+ */
+router.put('/document-checklists/:applicationType',
+  createCacheInvalidationMiddleware(['cache:GET:/api/v1/tenant-admin/document-checklists*']), // Invalidate checklist caches
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  validate(updateChecklistSchema),
+  auditLog('document_checklists.update', 'DocumentChecklist'),
+  DocumentChecklistController.updateChecklist
+);
+
+/**
+ * @route   POST /api/v1/tenant-admin/document-checklists/:applicationType/reset
+ * @desc    Restore the default document checklist of one application type
+ * @access  Tenant Admin Only
+ */
+router.post('/document-checklists/:applicationType/reset',
+  createCacheInvalidationMiddleware(['cache:GET:/api/v1/tenant-admin/document-checklists*']), // Invalidate checklist caches
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  validate(checklistTypeSchema),
+  auditLog('document_checklists.reset', 'DocumentChecklist'),
+  DocumentChecklistController.resetChecklist
+);
+
+/**
+ * @route   GET /api/v1/tenant-admin/applications/completeness
+ * @desc    Get document completeness of all open applications
+ * @access  Tenant Admin Only
+ */
+router.get('/applications/completeness',
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  auditLog('applications.completeness', 'Application'),
+  DocumentChecklistController.getApplicationsCompleteness
+);
+
+/**
+ * @route   GET /api/v1/tenant-admin/applications/:id/status
+ * @desc    Get application status, history and allowed transitions
+ * @access  Tenant Admin Only
+ */
+router.get('/applications/:id/status',
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  validate(applicationIdSchema),
+  auditLog('applications.view_status', 'Application'),
+  TenantAdminController.getApplicationStatus
+);
+
+/**
+ * @route   PUT /api/v1/tenant-admin/applications/:id/status
+ * @desc    Change application status, including approving and rejecting
+ * @access  Tenant Admin Only
+ */
+router.put('/applications/:id/status',
+  createCacheInvalidationMiddleware([
+    'cache:GET:/api/v1/client/my-applications*',
+    'cache:GET:/api/v1/team-member/applications*',
+    'cache:GET:/api/v1/team-member/my-clients*'
+  ]), // Invalidate application caches of clients and team members
+  authenticateToken,
+  requireTenantAdmin,
+  requireQuota('apiCallsPerMonth'),
+  validate(updateApplicationStatusSchema),
+  auditLog('applications.update_status', 'Application'),
+  TenantAdminController.updateApplicationStatus
+);
+
+export default router;
\ No newline at end of file
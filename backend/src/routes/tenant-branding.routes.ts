@@ -13,6 +13,7 @@ import { Router } from 'express';
 // import { z } from 'zod'; // Commented out for now
 import { authMiddleware } from '../middleware/auth.middleware';
 import { cacheConfigs, createCacheInvalidationMiddleware } from '../middleware/cache.middleware';
+import { requireFeature, requireQuota } from '../middleware/plan-entitlement.middleware';
 import { Tenant } from '../models/tenant.model';
 import AuditLoggingService from '../services/audit-logging.service';
 import { ValidationUtils } from '../utils/validation.utils';
@@ -20,8 +21,9 @@ import logger from '../utils/logger';
 
 const router = Router();
 
-// Apply authentication to all routes
+// Apply authentication and the monthly API call quota to all routes
 router.use(authMiddleware);
+router.use(requireQuota('apiCallsPerMonth'));
 
 // Validation schemas (commented out for now - will add validation later)
 // const updateBrandingSchema = z.object({
@@ -111,7 +113,7 @@ router.get('/branding', cacheConfigs.tenantSpecific, async (req, res) => {
  * PUT /api/v1/tenant/branding
  * Update tenant branding
  */
-router.put('/branding', createCacheInvalidationMiddleware(['cache:GET:/api/v1/tenant/branding*']), async (req, res) => {
+router.put('/branding', createCacheInvalidationMiddleware(['cache:GET:/api/v1/tenant/branding*']), requireFeature('customBranding'), async (req, res) => {
   try {
     const tenantId = req.user?.tenantId;
     const { logo, theme } = req.body;
@@ -203,7 +205,7 @@ router.put('/branding', createCacheInvalidationMiddleware(['cache:GET:/api/v1/te
  * DELETE /api/v1/tenant/branding/logo
  * Remove tenant logo
  */
-router.delete('/branding/logo', createCacheInvalidationMiddleware(['cache:GET:/api/v1/tenant/branding*']), async (req, res) => {
+router.delete('/branding/logo', createCacheInvalidationMiddleware(['cache:GET:/api/v1/tenant/branding*']), requireFeature('customBranding'), async (req, res) => {
   try {
     const tenantId = req.user?.tenantId;
     
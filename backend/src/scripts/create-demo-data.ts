@@ -7,12 +7,14 @@
  */
 
 import mongoose from 'mongoose';
-import bcrypt from 'bcryptjs';
 import { config } from '../config/env.config';
 import { SuperAdmin } from '../models/superadmin.model';
 import { Tenant } from '../models/tenant.model';
+import { TenantAdmin } from '../models/tenant-admin.model';
 import { TenantTeamMember } from '../models/tenant-team-member.model';
 import { User } from '../models/user.model';
+import { IdentityService } from '../features/auth/identity.service';
+import { SubscriptionPlanService } from '../features/subscription-plan/subscription-plan.service';
 
 /**
  * Demo Data
@@ -43,9 +45,7 @@ const DEMO_DATA = {
     adminPassword: 'TenantAdmin123!',
     adminFirstName: 'John',
     adminLastName: 'Smith',
-    plan: 'premium' as const,
-    maxTeamMembers: 10,
-    maxClients: 500,
+    plan: 'premium',
     metadata: {
       rcicNumber: 'R123456',
       businessAddress: '123 Main St, Toronto, ON M5H 2N2',
@@ -114,16 +114,11 @@ async function createDemoData() {
     if (existingSuperAdmin) {
       console.log('⚠️  Super Admin already exists, skipping...');
     } else {
-      const hashedSuperAdminPassword = await bcrypt.hash(
-        DEMO_DATA.superAdmin.password, 
-        config.BCRYPT_SALT_ROUNDS
-      );
+      const { password, ...superAdminData } = DEMO_DATA.superAdmin;
       
-      await SuperAdmin.create({
-        ...DEMO_DATA.superAdmin,
-        password: hashedSuperAdminPassword,
+      const superAdmin = await SuperAdmin.create({
+        ...superAdminData,
         isActive: true,
-        loginAttempts: 0,
         profile: {
           timezone: 'America/Toronto',
           language: 'en'
@@ -137,32 +132,31 @@ async function createDemoData() {
         }
       });
       
+      await IdentityService.linkPrincipal(superAdmin.email, password, {
+        principalType: 'super_admin',
+        principalId: superAdmin._id.toString()
+      });
+      
       console.log(`✅ Super Admin created: ${DEMO_DATA.superAdmin.email}`);
     }
     
     // Step 2: Create Tenant
     console.log('\n🏢 Creating Tenant (RCIC)...');
-    const existingTenant = await Tenant.findOne({ adminEmail: DEMO_DATA.tenant.adminEmail });
+    const existingTenant = await Tenant.findOne({ domain: DEMO_DATA.tenant.domain });
     
     let tenant;
     if (existingTenant) {
       console.log('⚠️  Tenant already exists, skipping...');
       tenant = existingTenant;
     } else {
-      const hashedTenantPassword = await bcrypt.hash(
-        DEMO_DATA.tenant.adminPassword,
-        config.BCRYPT_SALT_ROUNDS
-      );
+      const { adminEmail, adminPassword, adminFirstName, adminLastName, plan, ...tenantData } = DEMO_DATA.tenant;
+      const plans = await SubscriptionPlanService.seedDefaultPlans();
       
       tenant = await Tenant.create({
-        ...DEMO_DATA.tenant,
-        adminPassword: hashedTenantPassword,
+        ...tenantData,
         status: 'active',
+        planId: plans.get(plan)?._id,
         settings: {
-          maxTeamMembers: DEMO_DATA.tenant.maxTeamMembers,
-          maxClients: DEMO_DATA.tenant.maxClients,
-          maxStorage: 5120, // 5GB
-          features: [],
           allowSelfRegistration: false,
           requireEmailVerification: true,
           branding: {
@@ -170,19 +164,6 @@ async function createDemoData() {
             secondaryColor: '#1D4ED8'
           }
         },
-        subscription: {
-          plan: DEMO_DATA.tenant.plan,
-          maxTeamMembers: DEMO_DATA.tenant.maxTeamMembers,
-          maxClients: DEMO_DATA.tenant.maxClients,
-          features: {
-            visitorVisa: true,
-            studyVisa: true,
-            workPermit: true,
-            permanentResidence: true,
-            familySponsorship: true,
-            businessImmigration: true
-          }
-        },
         billing: {
           customerId: '',
           subscriptionId: '',
@@ -194,6 +175,21 @@ async function createDemoData() {
         }
       });
       
+      const owner = await TenantAdmin.create({
+        tenantId: tenant._id,
+        email: adminEmail,
+        firstName: adminFirstName,
+        lastName: adminLastName,
+        isOwner: true,
+        emailVerified: true
+      });
+      
+      await IdentityService.linkPrincipal(owner.email, adminPassword, {
+        principalType: 'tenant_admin',
+        principalId: owner._id.toString(),
+        tenantId: tenant._id.toString()
+      });
+      
       console.log(`✅ Tenant created: ${DEMO_DATA.tenant.name}`);
     }
     
@@ -213,22 +209,17 @@ async function createDemoData() {
         continue;
       }
       
-      const hashedPassword = await bcrypt.hash(
-        memberData.password,
-        config.BCRYPT_SALT_ROUNDS
-      );
+      const { password, ...memberFields } = memberData;
       
       const teamMember = await TenantTeamMember.create({
         tenantId: tenant._id,
-        ...memberData,
-        password: hashedPassword,
+        ...memberFields,
         isActive: true,
-        loginAttempts: 0,
         permissions: [
-          'view_clients',
           'edit_clients',
-          'view_applications',
-          'edit_applications'
+          'create_applications',
+          'edit_applications',
+          'upload_documents'
         ],
         profile: {
           timezone: 'America/Toronto',
@@ -244,6 +235,12 @@ async function createDemoData() {
         }
       });
       
+      await IdentityService.linkPrincipal(teamMember.email, password, {
+        principalType: 'team_member',
+        principalId: teamMember._id.toString(),
+        tenantId: tenant._id.toString()
+      });
+      
       teamMembers.push(teamMember);
       console.log(`✅ Team member created: ${memberData.email} (${memberData.role})`);
     }
@@ -264,22 +261,17 @@ async function createDemoData() {
         continue;
       }
       
-      const hashedPassword = await bcrypt.hash(
-        clientData.password,
-        config.BCRYPT_SALT_ROUNDS
-      );
+      const { password, ...clientFields } = clientData;
       
       // Assign to team member (alternating)
       const assignedTo = teamMembers[i % teamMembers.length]._id;
       
-      await User.create({
+      const client = await User.create({
         tenantId: tenant._id,
         assignedTo,
-        ...clientData,
-        password: hashedPassword,
+        ...clientFields,
         status: 'active',
         emailVerified: true,
-        loginAttempts: 0,
         profile: {
           phone: clientData.phone,
           dateOfBirth: clientData.dateOfBirth,
@@ -303,6 +295,12 @@ async function createDemoData() {
         }
       });
       
+      await IdentityService.linkPrincipal(client.email, password, {
+        principalType: 'client',
+        principalId: client._id.toString(),
+        tenantId: tenant._id.toString()
+      });
+      
       console.log(`✅ Client created: ${clientData.email} (${clientData.applicationType})`);
     }
     
@@ -0,0 +1,234 @@
+/**
+ * Identity Migration Script
+ * Moves passwords and lockout state from SuperAdmin, Tenant (admin),
+ * TenantTeamMember and User into the shared Identity collection
+ *
+ * Accounts with the same email become memberships of one identity. Their
+ * passwords may have differed, and any tenant could create a client with
+ * someone else's email, so no tenant account's password is trusted for a
+ * shared email: a super admin's password is kept, otherwise the password is
+ * replaced by an unusable one and every account of the email is sent a reset
+ * link. Emails that already have an identity gain the missing memberships
+ * under the same rule, so the script can be re-run. Migrated credential
+ * fields are removed from the old documents.
+ *
+ * Usage:
+ * npx ts-node src/scripts/migrate-identities.ts [--dry-run]
+ */
+
+import mongoose from 'mongoose';
+import { config } from '../config/env.config';
+import { SuperAdmin } from '../models/superadmin.model';
+import { Tenant } from '../models/tenant.model';
+import { TenantTeamMember } from '../models/tenant-team-member.model';
+import { User } from '../models/user.model';
+import { Identity, IIdentityMembership, PrincipalType } from '../models/identity.model';
+import { AccountTokenService } from '../features/auth/account-token.service';
+import { PasswordUtils, TokenUtils } from '../utils/auth.utils';
+
+/**
+ * Where each principal type kept its credentials
+ */
+interface CredentialSource {
+  principalType: PrincipalType;
+  collection: mongoose.Collection;
+  emailField: string;
+  passwordField: string;
+  attemptsField: string;
+  lockField: string;
+  lastLoginField: string;
+}
+
+/**
+ * Credentials of one legacy account
+ */
+interface LegacyCredential {
+  source: CredentialSource;
+  email: string;
+  password: string;
+  loginAttempts: number;
+  lockUntil?: Date;
+  lastLogin?: Date;
+  membership: IIdentityMembership;
+}
+
+const SOURCES: CredentialSource[] = [
+  {
+    principalType: 'super_admin',
+    collection: SuperAdmin.collection,
+    emailField: 'email',
+    passwordField: 'password',
+    attemptsField: 'loginAttempts',
+    lockField: 'lockUntil',
+    lastLoginField: 'lastLogin'
+  },
+  {
+    principalType: 'tenant_admin',
+    collection: Tenant.collection,
+    emailField: 'adminEmail',
+    passwordField: 'adminPassword',
+    attemptsField: 'adminLoginAttempts',
+    lockField: 'adminLockUntil',
+    lastLoginField: 'adminLastLogin'
+  },
+  {
+    principalType: 'team_member',
+    collection: TenantTeamMember.collection,
+    emailField: 'email',
+    passwordField: 'password',
+    attemptsField: 'loginAttempts',
+    lockField: 'lockUntil',
+    lastLoginField: 'lastLogin'
+  },
+  {
+    principalType: 'client',
+    collection: User.collection,
+    emailField: 'email',
+    passwordField: 'password',
+    attemptsField: 'loginAttempts',
+    lockField: 'lockUntil',
+    lastLoginField: 'lastLogin'
+  }
+];
+
+/**
+ * Read the credentials still stored on one principal collection
+ */
+async function readLegacyCredentials(source: CredentialSource): Promise<LegacyCredential[]> {
+  const documents = await source.collection
+    .find({ [source.passwordField]: { $exists: true }, deletedAt: null })
+    .toArray();
+
+  return documents.map(document => ({
+    source,
+    email: String(document[source.emailField]).toLowerCase().trim(),
+    password: document[source.passwordField],
+    loginAttempts: document[source.attemptsField] ?? 0,
+    lockUntil: document[source.lockField] ?? undefined,
+    lastLogin: document[source.lastLoginField] ?? undefined,
+    membership: {
+      principalType: source.principalType,
+      principalId: document._id,
+      // Legacy tenant admins were embedded in the tenant; migrate:tenant-admins
+      // gives the owner the tenant's _id, so the membership stays valid
+      tenantId: source.principalType === 'tenant_admin' ? document._id : document.tenantId
+    }
+  }));
+}
+
+/**
+ * Create or extend the identity of one email
+ *
+ * @returns True when the email's password must be reset
+ */
+async function migrateEmail(email: string, credentials: LegacyCredential[], dryRun: boolean): Promise<boolean> {
+  const existing = await Identity.findOne({ email });
+  const memberships = credentials.map(credential => credential.membership);
+
+  // Super admins are created by the platform only, so their password stays the holder's
+  const superAdmin = credentials.find(credential => credential.membership.principalType === 'super_admin');
+  const existingIsSuperAdmin = existing?.memberships.some(membership => membership.principalType === 'super_admin');
+  const isShared = credentials.length > 1 || !!existing;
+  const requiresReset = isShared && !superAdmin && !existingIsSuperAdmin;
+
+  if (dryRun) {
+    return requiresReset;
+  }
+
+  // Nobody knows the placeholder; the reset link replaces it
+  const placeholder = requiresReset ? await PasswordUtils.hashPassword(TokenUtils.generateRandomToken()) : undefined;
+  const kept = isShared ? superAdmin : credentials[0];
+
+  if (existing) {
+    // The identity's own password stays only when it belongs to a super admin
+    const password = placeholder ?? (existingIsSuperAdmin ? undefined : kept?.password);
+    await Identity.updateOne(
+      { _id: existing._id },
+      {
+        $addToSet: { memberships: { $each: memberships } },
+        ...(password && { $set: { password, loginAttempts: 0 }, $unset: { lockUntil: 1 } })
+      }
+    );
+  } else {
+    await Identity.create({
+      email,
+      password: placeholder ?? kept?.password,
+      loginAttempts: kept?.loginAttempts ?? 0,
+      lockUntil: kept?.lockUntil,
+      lastLogin: kept?.lastLogin,
+      memberships
+    });
+  }
+
+  // Credentials now live on the identity only
+  for (const credential of credentials) {
+    const { source } = credential;
+    await source.collection.updateOne(
+      { _id: credential.membership.principalId },
+      { $unset: { [source.passwordField]: '', [source.attemptsField]: '', [source.lockField]: '' } }
+    );
+  }
+
+  return requiresReset;
+}
+
+/**
+ * Migrate all legacy credentials
+ */
+async function migrateIdentities() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  try {
+    console.log(`🔐 Starting identity migration${dryRun ? ' (dry run)' : ''}...\n`);
+
+    await mongoose.connect(config.MONGO_URI);
+    console.log(`✅ Connected to MongoDB: ${config.MONGO_URI.split('/').pop()?.split('?')[0]}\n`);
+
+    const byEmail = new Map<string, LegacyCredential[]>();
+    for (const source of SOURCES) {
+      const credentials = await readLegacyCredentials(source);
+      console.log(`   ${source.principalType}: ${credentials.length} account(s) to migrate`);
+
+      for (const credential of credentials) {
+        byEmail.set(credential.email, [...(byEmail.get(credential.email) ?? []), credential]);
+      }
+    }
+
+    // Hashes are salted per account, so whether the passwords matched cannot be told
+    const resets: string[] = [];
+    for (const [email, credentials] of byEmail) {
+      if (await migrateEmail(email, credentials, dryRun)) {
+        resets.push(email);
+      }
+    }
+
+    // A failed send is reported; the holder can still use forgot password
+    if (!dryRun) {
+      for (const email of resets) {
+        await AccountTokenService.requestPasswordReset(email).catch(error => {
+          console.error(`❌ Reset link for ${email} failed:`, error instanceof Error ? error.message : error);
+        });
+      }
+    }
+
+    console.log('\n' + '='.repeat(60));
+    console.log(`✅ ${byEmail.size} identit${byEmail.size === 1 ? 'y' : 'ies'} ${dryRun ? 'would be migrated' : 'migrated'}`);
+    console.log(`   ${resets.length} email(s) hold more than one account without a super admin`);
+    if (resets.length > 0) {
+      console.log(`⚠️  Their passwords ${dryRun ? 'would be' : 'were'} replaced and reset links ${dryRun ? 'would be' : 'were'} sent:`);
+      resets.forEach(email => console.log(`   - ${email}`));
+    }
+    console.log('='.repeat(60) + '\n');
+
+  } catch (error) {
+    console.error('❌ Identity migration failed:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    console.log('📤 Disconnected from MongoDB');
+    process.exit(0);
+  }
+}
+
+// Run the script
+migrateIdentities();
@@ -0,0 +1,102 @@
+/**
+ * Tenant Admin Migration Script
+ * Moves the admin embedded in each Tenant document (adminEmail,
+ * adminFirstName, ...) into its own TenantAdmin document, the tenant's owner
+ *
+ * The owner keeps the tenant's _id, so identity memberships, MFA enrollment,
+ * refresh tokens and audit entries that point at the old admin stay valid.
+ * Run migrate:identities first; tenants whose admin password has not been
+ * moved to Identity yet are skipped. Migrated tenants are skipped on re-runs.
+ *
+ * Usage:
+ * npx ts-node src/scripts/migrate-tenant-admins.ts [--dry-run]
+ */
+
+import mongoose from 'mongoose';
+import { config } from '../config/env.config';
+import { Tenant } from '../models/tenant.model';
+import { TenantAdmin } from '../models/tenant-admin.model';
+
+// Embedded admin fields and where they go on TenantAdmin
+const FIELD_MAP: Record<string, string> = {
+  adminEmail: 'email',
+  adminFirstName: 'firstName',
+  adminLastName: 'lastName',
+  adminLastLogin: 'lastLogin',
+  adminEmailVerified: 'emailVerified',
+  adminEmailVerificationToken: 'emailVerificationToken',
+  adminEmailVerificationExpires: 'emailVerificationExpires',
+  adminPasswordResetToken: 'passwordResetToken',
+  adminPasswordResetExpires: 'passwordResetExpires'
+};
+
+/**
+ * Migrate the embedded admin of every tenant
+ */
+async function migrateTenantAdmins() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  try {
+    console.log(`👤 Starting tenant admin migration${dryRun ? ' (dry run)' : ''}...\n`);
+
+    await mongoose.connect(config.MONGO_URI);
+    console.log(`✅ Connected to MongoDB: ${config.MONGO_URI.split('/').pop()?.split('?')[0]}\n`);
+
+    const tenants = await Tenant.collection
+      .find({ adminEmail: { $exists: true }, deletedAt: null })
+      .toArray();
+    console.log(`   ${tenants.length} tenant(s) with an embedded admin`);
+
+    let migrated = 0;
+    const pendingIdentity: string[] = [];
+
+    for (const tenant of tenants) {
+      // The password must already live in Identity, or the admin could not sign in
+      if (tenant.adminPassword) {
+        pendingIdentity.push(String(tenant.adminEmail));
+        continue;
+      }
+
+      if (dryRun) {
+        migrated++;
+        continue;
+      }
+
+      const admin: Record<string, unknown> = { _id: tenant._id, tenantId: tenant._id, isOwner: true };
+      for (const [from, to] of Object.entries(FIELD_MAP)) {
+        if (tenant[from] !== undefined && tenant[from] !== null) {
+          admin[to] = tenant[from];
+        }
+      }
+
+      if (!(await TenantAdmin.exists({ _id: tenant._id }))) {
+        await TenantAdmin.create(admin);
+      }
+
+      await Tenant.collection.updateOne(
+        { _id: tenant._id },
+        { $unset: Object.fromEntries(Object.keys(FIELD_MAP).map(field => [field, ''])) }
+      );
+      migrated++;
+    }
+
+    console.log('\n' + '='.repeat(60));
+    console.log(`✅ ${migrated} tenant admin(s) ${dryRun ? 'would be migrated' : 'migrated'}`);
+    if (pendingIdentity.length > 0) {
+      console.log(`⚠️  ${pendingIdentity.length} admin(s) skipped; run migrate:identities first:`);
+      pendingIdentity.forEach(email => console.log(`   - ${email}`));
+    }
+    console.log('='.repeat(60) + '\n');
+
+  } catch (error) {
+    console.error('❌ Tenant admin migration failed:', error);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    console.log('📤 Disconnected from MongoDB');
+    process.exit(0);
+  }
+}
+
+// Run the script
+migrateTenantAdmins();
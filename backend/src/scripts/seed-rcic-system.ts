@@ -68,7 +68,7 @@ const SEED_DATA = {
       lastName: 'Johnson',
       role: 'visa_specialist',
       specializations: ['visitor_visa', 'study_visa'],
-      permissions: ['view_clients', 'edit_applications', 'upload_documents']
+      permissions: ['create_applications', 'edit_applications', 'upload_documents']
     },
     {
       email: 'work@abcimmigration.com',
@@ -77,7 +77,7 @@ const SEED_DATA = {
       lastName: 'Wilson',
       role: 'work_permit_specialist',
       specializations: ['work_permit', 'lmia'],
-      permissions: ['view_clients', 'edit_applications', 'upload_documents']
+      permissions: ['create_applications', 'edit_applications', 'upload_documents']
     }
   ],
   sampleClients: [
@@ -18,6 +18,7 @@ import SessionService from './services/session.service';
 import TenantResolutionService from './services/tenant-resolution.service';
 import PerformanceMonitoringService from './services/performance-monitoring.service';
 import AuditLoggingService from './services/audit-logging.service';
+import UsageMeteringService from './services/usage-metering.service';
 
 // Import middleware
 import {
@@ -155,6 +156,10 @@ app.use(rateLimitService.createRateLimitMiddleware({
 // Audit middleware (logs all API requests)
 app.use(AuditLoggingService.createAuditMiddleware());
 
+// ==================== USAGE METERING ====================
+// Counts API calls per tenant (recorded once route authentication has run)
+app.use(UsageMeteringService.createMeteringMiddleware());
+
 // ==================== BASIC HEALTH CHECK ====================
 // Basic health check (no dependencies)
 app.get('/health', (_req, res) => {
@@ -313,6 +318,10 @@ const initializeServices = async (): Promise<void> => {
     await AuditLoggingService.initialize();
     logger.info('✅ Audit Logging Service initialized');
 
+    // Initialize Usage Metering Service
+    UsageMeteringService.initialize();
+    logger.info('✅ Usage Metering Service initialized');
+
     logger.info('All services initialized successfully');
   } catch (error) {
     logger.error('Service initialization failed', {
@@ -383,6 +392,10 @@ const startServer = async (): Promise<void> => {
           await AuditLoggingService.getInstance().cleanup();
           logger.info('✅ Audit logging cleaned up');
           
+          // Flush usage counters while Redis and the database are still connected
+          await UsageMeteringService.getInstance().cleanup();
+          logger.info('✅ Usage metering flushed');
+          
           // Disconnect Redis
           await RedisService.getInstance().disconnect();
           logger.info('✅ Redis disconnected');
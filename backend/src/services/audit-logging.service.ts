@@ -414,6 +414,7 @@ class AuditLoggingService {
               sessionId: req.session?.id,
               userRole: req.user ? (req.user as any).userType : undefined,
               tenantDomain: (req as any).tenant?.domain,
+              impersonatedBy: req.user?.impersonatedBy,
             },
             category: instance.determineCategory(req),
           };
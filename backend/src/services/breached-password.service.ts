@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import readline from 'readline';
+import { config } from '../config/env.config';
+import { COMMON_PASSWORD_HASHES } from '../data/common-password-hashes';
+import logger from '../utils/logger';
+
+const PREFIX_LENGTH = 5;
+
+/**
+ * Breached Password Service
+ * Screens passwords against an offline list of known breached and common
+ * passwords. The list holds SHA-1 hashes only and is indexed like the
+ * Pwned Passwords range API: by the first five hex characters, each prefix
+ * holding the suffixes that share it. Nothing leaves the server.
+ *
+ * The bundled list covers the most common passwords; BREACHED_PASSWORDS_FILE
+ * adds a larger corpus ("HASH" or "HASH:COUNT" per line, as in the Pwned
+ * Passwords download), loaded once on first use.
+ */
+class BreachedPasswordService {
+  private static instance: BreachedPasswordService;
+  private ranges: Map<string, Set<string>> | null = null;
+  private loading: Promise<Map<string, Set<string>>> | null = null;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): BreachedPasswordService {
+    if (!BreachedPasswordService.instance) {
+      BreachedPasswordService.instance = new BreachedPasswordService();
+    }
+    return BreachedPasswordService.instance;
+  }
+
+  /**
+   * Check whether a password appears in the corpus
+   */
+  public async isBreached(password: string): Promise<boolean> {
+    const hash = crypto.createHash('sha1').update(password, 'utf8').digest('hex').toUpperCase();
+    const ranges = await this.getRanges();
+
+    return ranges.get(hash.slice(0, PREFIX_LENGTH))?.has(hash.slice(PREFIX_LENGTH)) ?? false;
+  }
+
+  /**
+   * Helper: The prefix index, built once (concurrent callers share the load)
+   */
+  private async getRanges(): Promise<Map<string, Set<string>>> {
+    if (this.ranges) {
+      return this.ranges;
+    }
+
+    if (!this.loading) {
+      this.loading = this.load().then(ranges => {
+        this.ranges = ranges;
+        return ranges;
+      }).finally(() => {
+        this.loading = null;
+      });
+    }
+
+    return this.loading;
+  }
+
+  /**
+   * Helper: Index the bundled hashes and the configured corpus file
+   * A missing or unreadable file is logged; the bundled hashes still apply
+   */
+  private async load(): Promise<Map<string, Set<string>>> {
+    const ranges = new Map<string, Set<string>>();
+    COMMON_PASSWORD_HASHES.forEach(hash => this.add(ranges, hash));
+
+    const file = config.BREACHED_PASSWORDS_FILE;
+    if (file) {
+      try {
+        await fs.promises.access(file, fs.constants.R_OK);
+        const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+        for await (const line of lines) {
+          this.add(ranges, line.split(':')[0]);
+        }
+      } catch (error) {
+        logger.error('Breached password corpus could not be loaded', {
+          file,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    logger.info('Breached password corpus loaded', { prefixes: ranges.size });
+    return ranges;
+  }
+
+  /**
+   * Helper: Add one hash to the prefix index, skipping malformed lines
+   */
+  private add(ranges: Map<string, Set<string>>, hash: string): void {
+    const normalized = hash.trim().toUpperCase();
+    if (!/^[0-9A-F]{40}$/.test(normalized)) {
+      return;
+    }
+
+    const prefix = normalized.slice(0, PREFIX_LENGTH);
+    let suffixes = ranges.get(prefix);
+    if (!suffixes) {
+      suffixes = new Set<string>();
+      ranges.set(prefix, suffixes);
+    }
+    suffixes.add(normalized.slice(PREFIX_LENGTH));
+  }
+}
+
+export default BreachedPasswordService;
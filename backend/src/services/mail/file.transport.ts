@@ -0,0 +1,52 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import nodemailer, { Transporter } from 'nodemailer';
+import logger from '../../utils/logger';
+import { MailMessage, MailTransport } from './mail.transport';
+
+/**
+ * File Mail Transport
+ * Writes each message as an .eml file for local development and tests.
+ * Without an output directory the message is only logged ('console' driver).
+ */
+export class FileMailTransport implements MailTransport {
+  public readonly name: string;
+  private readonly outputPath?: string;
+  private readonly transporter: Transporter;
+
+  constructor(outputPath?: string) {
+    this.name = outputPath ? 'file' : 'console';
+    this.outputPath = outputPath ? path.resolve(outputPath) : undefined;
+    // Stream transport renders the raw MIME message without delivering it
+    this.transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+  }
+
+  public async send(message: MailMessage & { from: string }): Promise<void> {
+    if (!this.outputPath) {
+      logger.info('Mail message', {
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text
+      });
+      return;
+    }
+
+    const info = await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html
+    });
+
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`;
+    const filePath = path.join(this.outputPath, fileName);
+
+    await fs.promises.mkdir(this.outputPath, { recursive: true });
+    await fs.promises.writeFile(filePath, info.message as Buffer, { mode: 0o600 });
+
+    logger.info('Mail message written', { to: message.to, subject: message.subject, filePath });
+  }
+}
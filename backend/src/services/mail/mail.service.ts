@@ -0,0 +1,76 @@
+import { config } from '../../config/env.config';
+import logger from '../../utils/logger';
+import { MailMessage, MailTransport } from './mail.transport';
+import { SmtpMailTransport } from './smtp.transport';
+import { FileMailTransport } from './file.transport';
+
+/**
+ * Mail Service
+ * Resolves the configured mail transport (MAIL_DRIVER) and sends messages
+ */
+class MailService {
+  private static instance: MailService;
+  private transport: MailTransport | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): MailService {
+    if (!MailService.instance) {
+      MailService.instance = new MailService();
+    }
+    return MailService.instance;
+  }
+
+  /**
+   * Send a message through the configured transport
+   */
+  public async send(message: MailMessage): Promise<void> {
+    const transport = this.getTransport();
+
+    await transport.send({ ...message, from: config.MAIL_FROM });
+
+    logger.debug('Mail sent', { transport: transport.name, to: message.to, subject: message.subject });
+  }
+
+  /**
+   * Swap the transport, e.g. for an in-memory transport in tests
+   */
+  public setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  private getTransport(): MailTransport {
+    if (this.transport) {
+      return this.transport;
+    }
+
+    switch (config.MAIL_DRIVER) {
+      case 'smtp':
+        this.transport = new SmtpMailTransport({
+          host: config.SMTP_HOST,
+          port: config.SMTP_PORT,
+          secure: config.SMTP_SECURE,
+          user: config.SMTP_USER,
+          password: config.SMTP_PASSWORD
+        });
+        break;
+      case 'file':
+        this.transport = new FileMailTransport(config.MAIL_FILE_PATH);
+        break;
+      case 'console':
+        this.transport = new FileMailTransport();
+        break;
+      default:
+        throw new Error(`Unsupported mail driver: ${config.MAIL_DRIVER}`);
+    }
+
+    return this.transport;
+  }
+}
+
+export default MailService;
@@ -0,0 +1,19 @@
+/**
+ * Mail Transport Interface
+ * Contract every outgoing mail backend must implement
+ *
+ * Messages are fully rendered by the caller; transports only deliver them.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
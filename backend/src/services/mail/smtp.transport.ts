@@ -0,0 +1,40 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { MailMessage, MailTransport } from './mail.transport';
+
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+/**
+ * SMTP Mail Transport
+ * Delivers messages through a relay (SES, Postmark, Mailgun, ...) via nodemailer
+ */
+export class SmtpMailTransport implements MailTransport {
+  public readonly name = 'smtp';
+  private readonly transporter: Transporter;
+
+  constructor(options: SmtpTransportOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user
+        ? { user: options.user, pass: options.password }
+        : undefined
+    });
+  }
+
+  public async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html
+    });
+  }
+}
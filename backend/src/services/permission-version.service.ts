@@ -0,0 +1,175 @@
+import RedisService from './redis.service';
+import { SuperAdmin } from '../models/superadmin.model';
+import { Tenant } from '../models/tenant.model';
+import { TenantAdmin } from '../models/tenant-admin.model';
+import { TenantTeamMember } from '../models/tenant-team-member.model';
+import { User } from '../models/user.model';
+import logger from '../utils/logger';
+
+type PrincipalType = 'super_admin' | 'tenant_admin' | 'team_member' | 'client';
+
+/**
+ * Permission Version Service
+ * Access tokens carry the permission version of their principal ("pv" claim).
+ * Changing roles, permissions, active status or tenant status bumps the
+ * version, so tokens issued before the change stop being accepted and the
+ * client has to refresh (which reloads the account).
+ *
+ * A principal's version is its own counter plus its tenant's counter, so a
+ * tenant status change invalidates everyone in the tenant at once.
+ */
+class PermissionVersionService {
+  private static instance: PermissionVersionService;
+  private redis: RedisService;
+  private readonly CACHE_TTL_SECONDS = 5 * 60;
+
+  private constructor() {
+    this.redis = RedisService.getInstance();
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): PermissionVersionService {
+    if (!PermissionVersionService.instance) {
+      PermissionVersionService.instance = new PermissionVersionService();
+    }
+    return PermissionVersionService.instance;
+  }
+
+  /**
+   * Combine account and tenant counters into the version stamped into tokens
+   */
+  public static combine(
+    account: { permissionVersion?: number },
+    tenant?: { permissionVersion?: number }
+  ): number {
+    return (account.permissionVersion ?? 0) + (tenant?.permissionVersion ?? 0);
+  }
+
+  /**
+   * Check whether a decoded access token carries the current version
+   * Tokens issued before versioning count as version 0
+   */
+  public async isCurrent(token: { pv?: number; userType: PrincipalType; userId: string; tenantId?: string }): Promise<boolean> {
+    const current = await this.getCurrentVersion(token.userType, token.userId, token.tenantId);
+    return current !== null && current === (token.pv ?? 0);
+  }
+
+  /**
+   * Current version of a principal (cached)
+   *
+   * @returns Version, or null when the account no longer exists
+   */
+  public async getCurrentVersion(userType: PrincipalType, userId: string, tenantId?: string): Promise<number | null> {
+    const key = this.getKey(userType, userId, tenantId);
+    const cached = await this.redis.get(key);
+    if (cached !== null) {
+      return parseInt(cached, 10);
+    }
+
+    const version = await this.loadVersion(userType, userId);
+    if (version !== null) {
+      await this.redis.set(key, version.toString(), this.CACHE_TTL_SECONDS);
+    }
+
+    return version;
+  }
+
+  /**
+   * Invalidate the tokens of one principal
+   */
+  public async bumpAccount(userType: PrincipalType, userId: string): Promise<void> {
+    switch (userType) {
+      case 'super_admin':
+        await SuperAdmin.updateOne({ _id: userId }, { $inc: { permissionVersion: 1 } });
+        await this.redis.del(this.getKey(userType, userId));
+        break;
+
+      case 'tenant_admin': {
+        const admin = await TenantAdmin.findByIdAndUpdate(userId, { $inc: { permissionVersion: 1 } }, { new: true })
+          .select('tenantId');
+        if (admin) {
+          await this.redis.del(this.getKey(userType, userId, admin.tenantId.toString()));
+        }
+        break;
+      }
+
+      case 'team_member': {
+        const member = await TenantTeamMember.findByIdAndUpdate(userId, { $inc: { permissionVersion: 1 } }, { new: true })
+          .select('tenantId');
+        if (member) {
+          await this.redis.del(this.getKey(userType, userId, member.tenantId.toString()));
+        }
+        break;
+      }
+
+      case 'client': {
+        const client = await User.findByIdAndUpdate(userId, { $inc: { permissionVersion: 1 } }, { new: true })
+          .select('tenantId');
+        if (client) {
+          await this.redis.del(this.getKey(userType, userId, client.tenantId.toString()));
+        }
+        break;
+      }
+    }
+
+    logger.info('Permission version bumped', { userType, userId });
+  }
+
+  /**
+   * Invalidate the tokens of everyone in a tenant
+   */
+  public async bumpTenant(tenantId: string): Promise<void> {
+    await Tenant.updateOne({ _id: tenantId }, { $inc: { permissionVersion: 1 } });
+    await this.redis.delPattern(`auth:perm-version:${tenantId}:*`);
+
+    logger.info('Tenant permission version bumped', { tenantId });
+  }
+
+  /**
+   * Helper: Read the version from the database
+   */
+  private async loadVersion(userType: PrincipalType, userId: string): Promise<number | null> {
+    switch (userType) {
+      case 'super_admin': {
+        const superAdmin = await SuperAdmin.findById(userId).select('permissionVersion');
+        return superAdmin ? PermissionVersionService.combine(superAdmin) : null;
+      }
+
+      case 'tenant_admin': {
+        const admin = await TenantAdmin.findById(userId).select('tenantId permissionVersion');
+        if (!admin) return null;
+        const tenant = await Tenant.findById(admin.tenantId).select('permissionVersion');
+        return tenant ? PermissionVersionService.combine(admin, tenant) : null;
+      }
+
+      case 'team_member': {
+        const member = await TenantTeamMember.findById(userId).select('tenantId permissionVersion');
+        if (!member) return null;
+        const tenant = await Tenant.findById(member.tenantId).select('permissionVersion');
+        return tenant ? PermissionVersionService.combine(member, tenant) : null;
+      }
+
+      case 'client': {
+        const client = await User.findById(userId).select('tenantId permissionVersion');
+        if (!client) return null;
+        const tenant = await Tenant.findById(client.tenantId).select('permissionVersion');
+        return tenant ? PermissionVersionService.combine(client, tenant) : null;
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Generate cache key; tenant-scoped so a tenant bump can clear them all
+   */
+  private getKey(userType: PrincipalType, userId: string, tenantId?: string): string {
+    const scope = tenantId || 'platform';
+    return `auth:perm-version:${scope}:${userType}:${userId}`;
+  }
+}
+
+export default PermissionVersionService;
@@ -0,0 +1,117 @@
+import RedisService from './redis.service';
+import { Tenant } from '../models/tenant.model';
+import { DEFAULT_SECURITY_POLICY, SecurityPolicy } from '../config/security-policy.config';
+import logger from '../utils/logger';
+
+/**
+ * Security Policy Service
+ * Resolves the security policy of a tenant (cached). Accounts without a
+ * tenant (super admins) and tenants that never changed their policy get
+ * the defaults.
+ */
+class SecurityPolicyService {
+  private static instance: SecurityPolicyService;
+  private redis: RedisService;
+  private readonly CACHE_TTL_SECONDS = 5 * 60;
+
+  private constructor() {
+    this.redis = RedisService.getInstance();
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): SecurityPolicyService {
+    if (!SecurityPolicyService.instance) {
+      SecurityPolicyService.instance = new SecurityPolicyService();
+    }
+    return SecurityPolicyService.instance;
+  }
+
+  /**
+   * Fill in the defaults for a stored policy
+   */
+  public static resolve(stored?: Partial<SecurityPolicy>): SecurityPolicy {
+    return {
+      ...DEFAULT_SECURITY_POLICY,
+      ...stored,
+      allowedIpRanges: [...(stored?.allowedIpRanges ?? DEFAULT_SECURITY_POLICY.allowedIpRanges)]
+    };
+  }
+
+  /**
+   * Policy of a tenant; the defaults when no tenant is given
+   */
+  public async getPolicy(tenantId?: string): Promise<SecurityPolicy> {
+    if (!tenantId) {
+      return SecurityPolicyService.resolve();
+    }
+
+    const key = this.getKey(tenantId);
+    const cached = await this.redis.get(key);
+    if (cached !== null) {
+      try {
+        return SecurityPolicyService.resolve(JSON.parse(cached));
+      } catch {
+        logger.warn('Discarding unreadable cached security policy', { tenantId });
+      }
+    }
+
+    const tenant = await Tenant.findById(tenantId).select('settings.securityPolicy');
+    const policy = SecurityPolicyService.resolve(tenant?.toObject().settings?.securityPolicy);
+    if (tenant) {
+      await this.redis.set(key, JSON.stringify(policy), this.CACHE_TTL_SECONDS);
+    }
+
+    return policy;
+  }
+
+  /**
+   * Strictest combination of several tenants' policies
+   * Used for rules that apply to an identity as a whole (password, lockout);
+   * IP ranges and idle timeout apply per session and keep their defaults
+   */
+  public async getStrictestPolicy(tenantIds: Array<string | undefined>): Promise<SecurityPolicy> {
+    const policies = await Promise.all(
+      [...new Set(tenantIds)].map(tenantId => this.getPolicy(tenantId))
+    );
+
+    return {
+      ...SecurityPolicyService.resolve(),
+      passwordMinLength: Math.max(...policies.map(policy => policy.passwordMinLength)),
+      passwordRequireUppercase: policies.some(policy => policy.passwordRequireUppercase),
+      passwordRequireLowercase: policies.some(policy => policy.passwordRequireLowercase),
+      passwordRequireNumber: policies.some(policy => policy.passwordRequireNumber),
+      passwordRequireSymbol: policies.some(policy => policy.passwordRequireSymbol),
+      passwordBlockBreached: policies.some(policy => policy.passwordBlockBreached),
+      passwordMaxAgeDays: this.minNonZero(policies.map(policy => policy.passwordMaxAgeDays)),
+      passwordHistoryCount: Math.max(...policies.map(policy => policy.passwordHistoryCount)),
+      maxLoginAttempts: this.minNonZero(policies.map(policy => policy.maxLoginAttempts)),
+      lockoutDurationMinutes: Math.max(...policies.map(policy => policy.lockoutDurationMinutes))
+    };
+  }
+
+  /**
+   * Drop the cached policy after the tenant changed it
+   */
+  public async invalidate(tenantId: string): Promise<void> {
+    await this.redis.del(this.getKey(tenantId));
+  }
+
+  /**
+   * Helper: Smallest value where 0 means "not set"
+   */
+  private minNonZero(values: number[]): number {
+    const set = values.filter(value => value > 0);
+    return set.length > 0 ? Math.min(...set) : 0;
+  }
+
+  /**
+   * Generate cache key
+   */
+  private getKey(tenantId: string): string {
+    return `auth:security-policy:${tenantId}`;
+  }
+}
+
+export default SecurityPolicyService;
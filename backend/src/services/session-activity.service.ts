@@ -0,0 +1,57 @@
+import RedisService from './redis.service';
+
+/**
+ * Session Activity Service
+ * Tracks the last request of each session (refresh token family) so tenants
+ * with an idle timeout can end sessions nobody is using. A session counts as
+ * active since its newest token was issued even when nothing was recorded,
+ * so turning the timeout on does not end sessions that are in use.
+ */
+class SessionActivityService {
+  private static instance: SessionActivityService;
+  private redis: RedisService;
+
+  private constructor() {
+    this.redis = RedisService.getInstance();
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): SessionActivityService {
+    if (!SessionActivityService.instance) {
+      SessionActivityService.instance = new SessionActivityService();
+    }
+    return SessionActivityService.instance;
+  }
+
+  /**
+   * Record activity on a session
+   * The entry expires with the timeout, after which the session is idle anyway
+   */
+  public async touch(sessionId: string, timeoutMinutes: number): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    await this.redis.set(this.getKey(sessionId), now.toString(), timeoutMinutes * 60);
+  }
+
+  /**
+   * Check whether a session has been idle for longer than the timeout
+   *
+   * @param issuedAt - When the session's current token was issued (seconds since epoch)
+   */
+  public async isIdle(sessionId: string, issuedAt: number | undefined, timeoutMinutes: number): Promise<boolean> {
+    const recorded = await this.redis.get(this.getKey(sessionId));
+    const lastActivity = Math.max(recorded ? parseInt(recorded, 10) : 0, issuedAt ?? 0);
+
+    return Math.floor(Date.now() / 1000) - lastActivity > timeoutMinutes * 60;
+  }
+
+  /**
+   * Generate activity key
+   */
+  private getKey(sessionId: string): string {
+    return `auth:session-activity:${sessionId}`;
+  }
+}
+
+export default SessionActivityService;
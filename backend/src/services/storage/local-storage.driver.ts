@@ -0,0 +1,58 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { StorageDriver, StoredObjectInfo } from './storage.driver';
+
+/**
+ * Local Filesystem Storage Driver
+ * Stores objects under a single root directory on the API host
+ */
+export class LocalStorageDriver implements StorageDriver {
+  public readonly name = 'local';
+  private readonly rootPath: string;
+
+  constructor(rootPath: string) {
+    this.rootPath = path.resolve(rootPath);
+  }
+
+  public async putObject(key: string, content: Buffer): Promise<StoredObjectInfo> {
+    const filePath = this.resolveKey(key);
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    // 'wx' refuses to overwrite an existing object
+    await fs.promises.writeFile(filePath, content, { flag: 'wx', mode: 0o600 });
+
+    return { key, size: content.length };
+  }
+
+  public async getObjectStream(key: string): Promise<Readable> {
+    const filePath = this.resolveKey(key);
+    await fs.promises.access(filePath, fs.constants.R_OK);
+    return fs.createReadStream(filePath);
+  }
+
+  public async deleteObject(key: string): Promise<void> {
+    await fs.promises.rm(this.resolveKey(key), { force: true });
+  }
+
+  public async exists(key: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.resolveKey(key), fs.constants.F_OK);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Resolve a key to a path inside the storage root
+   * Keys that would escape the root (../) are rejected
+   */
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.rootPath, key);
+    if (!filePath.startsWith(this.rootPath + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  }
+}
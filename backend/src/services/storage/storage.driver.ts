@@ -0,0 +1,33 @@
+/**
+ * Storage Driver Interface
+ * Contract every document storage backend must implement
+ *
+ * Keys are opaque, tenant-prefixed paths ("<tenantId>/<yyyy>/<mm>/<uuid>").
+ * The interface mirrors the S3 object API (put/get/delete/head) so an
+ * S3-compatible driver can be added without touching callers.
+ */
+
+import { Readable } from 'stream';
+
+export interface StoredObjectInfo {
+  key: string;
+  size: number;
+}
+
+export interface PutObjectOptions {
+  contentType: string;
+  checksum: string; // sha256 hex of the content
+}
+
+export interface StorageDriver {
+  /**
+   * Driver identifier persisted on each Document so objects can be read
+   * back through the driver that wrote them
+   */
+  readonly name: string;
+
+  putObject(key: string, content: Buffer, options: PutObjectOptions): Promise<StoredObjectInfo>;
+  getObjectStream(key: string): Promise<Readable>;
+  deleteObject(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+}
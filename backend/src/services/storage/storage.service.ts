@@ -0,0 +1,57 @@
+import { config } from '../../config/env.config';
+import { StorageDriver } from './storage.driver';
+import { LocalStorageDriver } from './local-storage.driver';
+
+/**
+ * Storage Service
+ * Resolves the configured storage driver (STORAGE_DRIVER)
+ */
+class StorageService {
+  private static instance: StorageService;
+  private drivers: Map<string, StorageDriver> = new Map();
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): StorageService {
+    if (!StorageService.instance) {
+      StorageService.instance = new StorageService();
+    }
+    return StorageService.instance;
+  }
+
+  /**
+   * Driver used for new uploads
+   */
+  public getDefaultDriver(): StorageDriver {
+    return this.getDriver(config.STORAGE_DRIVER);
+  }
+
+  /**
+   * Driver by name, used to read objects written by a given driver
+   */
+  public getDriver(name: string): StorageDriver {
+    const existing = this.drivers.get(name);
+    if (existing) {
+      return existing;
+    }
+
+    let driver: StorageDriver;
+    switch (name) {
+      case 'local':
+        driver = new LocalStorageDriver(config.STORAGE_LOCAL_PATH);
+        break;
+      default:
+        throw new Error(`Unsupported storage driver: ${name}`);
+    }
+
+    this.drivers.set(name, driver);
+    return driver;
+  }
+}
+
+export default StorageService;
@@ -15,7 +15,7 @@ export interface TenantInfo {
   domain: string;
   name: string;
   status: string;
-  plan: string;
+  planId?: string;
 }
 
 /**
@@ -121,7 +121,7 @@ class TenantResolutionService {
         domain: tenantDoc.domain,
         name: tenantDoc.name,
         status: tenantDoc.status,
-        plan: tenantDoc.plan,
+        planId: tenantDoc.planId?.toString(),
       };
 
       // Cache the result
@@ -200,7 +200,7 @@ class TenantResolutionService {
         domain: tenantDoc.domain,
         name: tenantDoc.name,
         status: tenantDoc.status,
-        plan: tenantDoc.plan,
+        planId: tenantDoc.planId?.toString(),
       };
 
       // Cache the result
@@ -318,7 +318,7 @@ class TenantResolutionService {
         domain: doc.domain,
         name: doc.name,
         status: doc.status,
-        plan: doc.plan,
+        planId: doc.planId?.toString(),
       }));
     } catch (error) {
       logger.error('Get active tenants error', {
@@ -0,0 +1,105 @@
+import RedisService from './redis.service';
+import { config } from '../config/env.config';
+import logger from '../utils/logger';
+
+/**
+ * Access Token Denylist Service
+ * Invalidates access tokens before they expire:
+ * - single tokens by jti (logout)
+ * - every token of an account issued before a cutoff (log out all devices)
+ * Entries expire with the tokens they cover.
+ */
+class TokenDenylistService {
+  private static instance: TokenDenylistService;
+  private redis: RedisService;
+
+  private constructor() {
+    this.redis = RedisService.getInstance();
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): TokenDenylistService {
+    if (!TokenDenylistService.instance) {
+      TokenDenylistService.instance = new TokenDenylistService();
+    }
+    return TokenDenylistService.instance;
+  }
+
+  /**
+   * Revoke one access token until it expires
+   *
+   * @param jti - Token id
+   * @param exp - Token expiry (seconds since epoch)
+   */
+  public async revokeToken(jti: string, exp?: number): Promise<void> {
+    const ttlSeconds = exp
+      ? exp - Math.floor(Date.now() / 1000)
+      : this.getAccessTokenLifetimeSeconds();
+
+    if (ttlSeconds <= 0) {
+      return; // already expired
+    }
+
+    await this.redis.set(this.getTokenKey(jti), '1', ttlSeconds);
+  }
+
+  /**
+   * Revoke every access token of an account issued up to now
+   */
+  public async revokeAllForAccount(userType: string, userId: string): Promise<void> {
+    const cutoff = Math.floor(Date.now() / 1000);
+    await this.redis.set(
+      this.getAccountKey(userType, userId),
+      cutoff.toString(),
+      this.getAccessTokenLifetimeSeconds()
+    );
+  }
+
+  /**
+   * Check whether a decoded access token has been revoked
+   */
+  public async isRevoked(token: { jti?: string; iat?: number; userType: string; userId: string }): Promise<boolean> {
+    if (token.jti && await this.redis.exists(this.getTokenKey(token.jti))) {
+      return true;
+    }
+
+    const cutoff = await this.redis.get(this.getAccountKey(token.userType, token.userId));
+    if (cutoff && token.iat !== undefined && token.iat < parseInt(cutoff, 10)) {
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Generate denylist key for one token
+   */
+  private getTokenKey(jti: string): string {
+    return `auth:denylist:${jti}`;
+  }
+
+  /**
+   * Generate cutoff key for an account
+   */
+  private getAccountKey(userType: string, userId: string): string {
+    return `auth:revoked-before:${userType}:${userId}`;
+  }
+
+  /**
+   * Access token lifetime from JWT_EXPIRE ("900", "15m", "12h", "7d")
+   */
+  private getAccessTokenLifetimeSeconds(): number {
+    const match = /^(\d+)\s*([smhd]?)$/.exec(config.JWT_EXPIRE.trim());
+    if (!match) {
+      logger.warn('Unrecognized JWT_EXPIRE format, assuming 7 days', { value: config.JWT_EXPIRE });
+      return 7 * 86400;
+    }
+
+    const multipliers: Record<string, number> = { '': 1, s: 1, m: 60, h: 3600, d: 86400 };
+    return parseInt(match[1], 10) * multipliers[match[2]];
+  }
+}
+
+export default TokenDenylistService;
@@ -0,0 +1,277 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import RedisService from './redis.service';
+import { config } from '../config/env.config';
+import { Tenant } from '../models/tenant.model';
+import { User } from '../models/user.model';
+import { TenantTeamMember } from '../models/tenant-team-member.model';
+import { Document } from '../models/document.model';
+import {
+  UsageRecord,
+  IUsageRecord,
+  USAGE_COUNTERS,
+  UsageCounter,
+  UsageGauge
+} from '../models/usage-record.model';
+import logger from '../utils/logger';
+
+// Counters outlive their period long enough to be flushed after it ends
+const COUNTER_TTL_SECONDS = 62 * 24 * 60 * 60;
+
+/**
+ * Usage Metering Service
+ * Counts API calls and document uploads per tenant per billing period
+ * (calendar month, UTC) in Redis and periodically copies them to UsageRecord
+ * together with the current storage, active clients and seats.
+ *
+ * Flushes write absolute values, so every instance can flush without double
+ * counting. Counters are merged with $max so a Redis restart never lowers
+ * what has already been recorded.
+ */
+class UsageMeteringService {
+  private static instance: UsageMeteringService;
+  private redis: RedisService;
+  private flushInterval: ReturnType<typeof setInterval> | null = null;
+  private lastFlushedPeriod: string | null = null;
+  private isFlushing = false;
+
+  private constructor() {
+    this.redis = RedisService.getInstance();
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): UsageMeteringService {
+    if (!UsageMeteringService.instance) {
+      UsageMeteringService.instance = new UsageMeteringService();
+    }
+    return UsageMeteringService.instance;
+  }
+
+  /**
+   * Initialize usage metering
+   */
+  public static initialize(): void {
+    const instance = UsageMeteringService.getInstance();
+    instance.startFlush();
+    logger.info('Usage Metering Service initialized', {
+      flushIntervalMinutes: config.USAGE_FLUSH_INTERVAL_MINUTES
+    });
+  }
+
+  /**
+   * Middleware counting authenticated API calls per tenant
+   * Counted when the response finishes, after route-level authentication
+   */
+  public static createMeteringMiddleware() {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      res.on('finish', () => {
+        const tenantId = req.user?.tenantId;
+        if (tenantId) {
+          void UsageMeteringService.getInstance().record(tenantId, 'apiCalls');
+        }
+      });
+      next();
+    };
+  }
+
+  /**
+   * Billing period of a date (YYYY-MM, UTC)
+   */
+  public static getPeriod(date: Date = new Date()): string {
+    return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+  }
+
+  /**
+   * Start (inclusive) and end (exclusive) of a billing period
+   */
+  public static getPeriodBounds(period: string): { start: Date; end: Date } {
+    const [year, month] = period.split('-').map(Number);
+    return {
+      start: new Date(Date.UTC(year, month - 1, 1)),
+      end: new Date(Date.UTC(year, month, 1))
+    };
+  }
+
+  /**
+   * Count one occurrence for a tenant in the current period
+   * Never throws; a lost count must not fail the request being counted
+   */
+  public async record(tenantId: string, counter: UsageCounter): Promise<void> {
+    const key = this.getKey(tenantId, UsageMeteringService.getPeriod(), counter);
+    const value = await this.redis.incr(key);
+    if (value === 1) {
+      await this.redis.expire(key, COUNTER_TTL_SECONDS);
+    }
+  }
+
+  /**
+   * Counters of a tenant in a period
+   * The higher of Redis and the last flush, so counts survive a Redis restart
+   */
+  public async getCounters(tenantId: string, period: string): Promise<Record<UsageCounter, number>> {
+    const [live, record] = await Promise.all([
+      this.getLiveCounters(tenantId, period),
+      UsageRecord.findOne({ tenantId, period }).select(USAGE_COUNTERS.join(' ')).lean()
+    ]);
+
+    return {
+      apiCalls: Math.max(live.apiCalls, record?.apiCalls ?? 0),
+      documentUploads: Math.max(live.documentUploads, record?.documentUploads ?? 0)
+    };
+  }
+
+  /**
+   * Current storage, active clients and seats of a tenant
+   * Seats are counted like the team member limit (all non-deleted members)
+   */
+  public async measureGauges(tenantId: string): Promise<Record<UsageGauge, number>> {
+    const [storageBytes, activeClients, seats] = await Promise.all([
+      Document.getTenantStorageUsage(tenantId),
+      User.countDocuments({ tenantId, status: 'active', deletedAt: null }),
+      TenantTeamMember.countDocuments({ tenantId, deletedAt: null })
+    ]);
+
+    return { storageBytes, activeClients, seats };
+  }
+
+  /**
+   * Copy the usage of every tenant to UsageRecord
+   * The previous period's counters are flushed once more after the period
+   * changes, so calls made just before the end of a month are not lost
+   */
+  public async flush(): Promise<void> {
+    // Skip if the previous flush is still running
+    if (this.isFlushing) {
+      return;
+    }
+
+    this.isFlushing = true;
+    try {
+      const now = new Date();
+      const period = UsageMeteringService.getPeriod(now);
+      const previousPeriod = UsageMeteringService.getPeriod(
+        new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1))
+      );
+      const flushPrevious = this.lastFlushedPeriod !== period;
+
+      const tenants = await Tenant.find({ deletedAt: null }).select('_id').lean();
+      for (const tenant of tenants) {
+        const tenantId = tenant._id.toString();
+        try {
+          if (flushPrevious) {
+            await this.flushCounters(tenantId, previousPeriod, now);
+          }
+          await this.flushTenant(tenantId, period, now);
+        } catch (error) {
+          logger.error('Usage flush failed for tenant', {
+            tenantId,
+            period,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+
+      this.lastFlushedPeriod = period;
+      logger.debug('Usage flushed', { period, tenants: tenants.length });
+    } catch (error) {
+      logger.error('Usage flush failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  /**
+   * Stop flushing and write the last counts
+   */
+  public async cleanup(): Promise<void> {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+    await this.flush();
+  }
+
+  /**
+   * Start flush interval
+   */
+  private startFlush(): void {
+    this.flushInterval = setInterval(() => {
+      void this.flush();
+    }, config.USAGE_FLUSH_INTERVAL_MINUTES * 60 * 1000);
+  }
+
+  /**
+   * Helper: Write counters and gauges of the current period
+   */
+  private async flushTenant(tenantId: string, period: string, now: Date): Promise<void> {
+    const [counters, gauges] = await Promise.all([
+      this.getLiveCounters(tenantId, period),
+      this.measureGauges(tenantId)
+    ]);
+
+    await this.upsertRecord(tenantId, period, now, counters, gauges);
+  }
+
+  /**
+   * Helper: Write counters of a closed period, keeping its last gauges
+   */
+  private async flushCounters(tenantId: string, period: string, now: Date): Promise<void> {
+    const counters = await this.getLiveCounters(tenantId, period);
+    if (counters.apiCalls === 0 && counters.documentUploads === 0) {
+      return;
+    }
+
+    await this.upsertRecord(tenantId, period, now, counters);
+  }
+
+  /**
+   * Helper: Upsert the record of a period
+   */
+  private async upsertRecord(
+    tenantId: string,
+    period: string,
+    now: Date,
+    counters: Record<UsageCounter, number>,
+    gauges?: Record<UsageGauge, number>
+  ): Promise<void> {
+    const { start, end } = UsageMeteringService.getPeriodBounds(period);
+    const setOnInsert: Partial<IUsageRecord> = { periodStart: start, periodEnd: end };
+
+    await UsageRecord.updateOne(
+      { tenantId: new mongoose.Types.ObjectId(tenantId), period },
+      {
+        $max: counters,
+        $set: { ...gauges, flushedAt: now },
+        $setOnInsert: setOnInsert
+      },
+      { upsert: true }
+    );
+  }
+
+  /**
+   * Counters of a period as held in Redis (not yet merged with the last flush)
+   */
+  public async getLiveCounters(tenantId: string, period: string): Promise<Record<UsageCounter, number>> {
+    const [apiCalls, documentUploads] = await Promise.all(
+      USAGE_COUNTERS.map(async counter => {
+        const value = await this.redis.get(this.getKey(tenantId, period, counter));
+        return value ? parseInt(value, 10) || 0 : 0;
+      })
+    );
+
+    return { apiCalls, documentUploads };
+  }
+
+  /**
+   * Generate counter key
+   */
+  private getKey(tenantId: string, period: string, counter: UsageCounter): string {
+    return `usage:${tenantId}:${period}:${counter}`;
+  }
+}
+
+export default UsageMeteringService;
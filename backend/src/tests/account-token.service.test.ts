@@ -0,0 +1,165 @@
+/**
+ * AccountTokenService tests
+ * Email verification and single-use password reset links, with the models mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import { Tenant } from '../models/tenant.model';
+import { TenantAdmin } from '../models/tenant-admin.model';
+import { TenantTeamMember } from '../models/tenant-team-member.model';
+import { User } from '../models/user.model';
+import { Identity } from '../models/identity.model';
+import { TokenUtils } from '../utils/auth.utils';
+import MailService from '../services/mail/mail.service';
+import { AccountTokenService } from '../features/auth/account-token.service';
+import { IdentityService } from '../features/auth/identity.service';
+import { RefreshTokenService } from '../features/auth/refresh-token.service';
+import { InvalidTokenError, PasswordPolicyError } from '../features/auth/types/errors.types';
+
+vi.mock('../models/tenant.model', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../models/tenant.model')>(),
+  Tenant: {
+    find: vi.fn()
+  }
+}));
+
+vi.mock('../models/tenant-admin.model', () => ({
+  TenantAdmin: {
+    find: vi.fn(),
+    findOne: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+    updateOne: vi.fn()
+  }
+}));
+
+vi.mock('../models/tenant-team-member.model', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../models/tenant-team-member.model')>(),
+  TenantTeamMember: {
+    find: vi.fn(),
+    findOne: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+    updateOne: vi.fn()
+  }
+}));
+
+vi.mock('../models/user.model', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../models/user.model')>(),
+  User: {
+    find: vi.fn(),
+    findOne: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+    updateOne: vi.fn()
+  }
+}));
+
+vi.mock('../models/identity.model', () => ({
+  Identity: {
+    findOne: vi.fn()
+  }
+}));
+
+vi.mock('../models/audit-log.model', () => ({
+  AuditLog: {
+    create: vi.fn()
+  }
+}));
+
+const tenantId = new mongoose.Types.ObjectId();
+const clientId = new mongoose.Types.ObjectId();
+const token = 'reset-token';
+
+const storedClient = () => ({
+  _id: clientId,
+  tenantId,
+  status: 'pending',
+  emailVerified: false,
+  emailVerificationToken: TokenUtils.hashToken(token) as string | undefined,
+  passwordResetExpires: new Date(Date.now() + 60_000),
+  save: vi.fn()
+});
+
+// A query resolved after .select()
+const query = <T>(result: T) => ({ select: vi.fn().mockResolvedValue(result) });
+
+describe('AccountTokenService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(IdentityService, 'confirmPendingMembership').mockResolvedValue(undefined);
+    vi.spyOn(IdentityService, 'setPassword').mockResolvedValue([
+      { principalType: 'client', principalId: clientId, tenantId }
+    ] as never);
+    vi.spyOn(RefreshTokenService, 'revokeAllForAccount').mockResolvedValue(undefined as never);
+    vi.spyOn(MailService.getInstance(), 'send').mockResolvedValue(undefined as never);
+  });
+
+  describe('verifyEmail', () => {
+    it('looks the token up by its hash and activates a pending client', async () => {
+      const client = storedClient();
+      vi.mocked(User.findOne).mockResolvedValueOnce(client as never);
+
+      await expect(AccountTokenService.verifyEmail(token)).resolves.toBe('client');
+
+      expect(User.findOne).toHaveBeenCalledWith(expect.objectContaining({ emailVerificationToken: TokenUtils.hashToken(token) }));
+      expect(client).toMatchObject({ emailVerified: true, status: 'active', emailVerificationToken: undefined });
+      expect(IdentityService.confirmPendingMembership).toHaveBeenCalledWith('client', clientId.toString());
+    });
+
+    it('rejects an unknown or expired token', async () => {
+      vi.mocked(User.findOne).mockResolvedValueOnce(null);
+      vi.mocked(TenantTeamMember.findOne).mockResolvedValueOnce(null);
+      vi.mocked(TenantAdmin.findOne).mockResolvedValueOnce(null);
+
+      await expect(AccountTokenService.verifyEmail(token)).rejects.toBeInstanceOf(InvalidTokenError);
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('consumes the token, sets the password and signs the identity out', async () => {
+      vi.mocked(User.findOneAndUpdate).mockReturnValueOnce(query(storedClient()) as never);
+
+      await expect(AccountTokenService.resetPassword(token, 'N3w!Passphrase')).resolves.toBe('client');
+
+      expect(User.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ passwordResetToken: TokenUtils.hashToken(token) }),
+        { $unset: { passwordResetToken: 1, passwordResetExpires: 1 } }
+      );
+      expect(IdentityService.setPassword).toHaveBeenCalledWith('client', clientId.toString(), 'N3w!Passphrase');
+      expect(RefreshTokenService.revokeAllForAccount).toHaveBeenCalledWith('client', clientId.toString(), 'password_reset');
+    });
+
+    it('restores the token when the password is rejected', async () => {
+      vi.mocked(User.findOneAndUpdate).mockReturnValueOnce(query(storedClient()) as never);
+      vi.mocked(IdentityService.setPassword).mockRejectedValueOnce(new PasswordPolicyError('Password too short'));
+
+      await expect(AccountTokenService.resetPassword(token, 'short')).rejects.toBeInstanceOf(PasswordPolicyError);
+
+      expect(User.updateOne).toHaveBeenCalledWith(
+        { _id: clientId },
+        { $set: expect.objectContaining({ passwordResetToken: TokenUtils.hashToken(token) }) }
+      );
+    });
+
+    it('rejects a token that was already used', async () => {
+      vi.mocked(User.findOneAndUpdate).mockReturnValueOnce(query(null) as never);
+      vi.mocked(TenantTeamMember.findOneAndUpdate).mockReturnValueOnce(query(null) as never);
+      vi.mocked(TenantAdmin.findOneAndUpdate).mockReturnValueOnce(query(null) as never);
+
+      await expect(AccountTokenService.resetPassword(token, 'N3w!Passphrase')).rejects.toBeInstanceOf(InvalidTokenError);
+      expect(IdentityService.setPassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestPasswordReset', () => {
+    it('sends nothing for an unknown email', async () => {
+      vi.mocked(Identity.findOne).mockReturnValueOnce(query(null) as never);
+      vi.mocked(TenantAdmin.find).mockResolvedValueOnce([] as never);
+      vi.mocked(TenantTeamMember.find).mockResolvedValueOnce([] as never);
+      vi.mocked(User.find).mockResolvedValueOnce([] as never);
+      vi.mocked(Tenant.find).mockReturnValueOnce(query([]) as never);
+
+      await expect(AccountTokenService.requestPasswordReset('nobody@example.com')).resolves.toBeUndefined();
+      expect(MailService.getInstance().send).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * AdminTeamService tests
+ * Owner-only actions, admin removal and ownership transfer, with the models mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import { TenantAdmin } from '../models/tenant-admin.model';
+import PermissionVersionService from '../services/permission-version.service';
+import { IdentityService } from '../features/auth/identity.service';
+import { AccountTokenService } from '../features/auth/account-token.service';
+import { AdminTeamService } from '../features/admin-team/admin-team.service';
+import {
+  OwnerRemovalError,
+  OwnerRequiredError,
+  TenantAdminExistsError
+} from '../features/admin-team/errors/admin-team.errors';
+
+vi.mock('../models/tenant-admin.model', () => ({
+  TenantAdmin: {
+    find: vi.fn(),
+    findOne: vi.fn(),
+    exists: vi.fn(),
+    create: vi.fn(),
+    updateOne: vi.fn()
+  }
+}));
+
+const tenantId = new mongoose.Types.ObjectId();
+
+const storedAdmin = (isOwner: boolean) => ({
+  _id: new mongoose.Types.ObjectId(),
+  tenantId,
+  email: isOwner ? 'owner@example.com' : 'admin@example.com',
+  firstName: 'Ana',
+  lastName: 'Silva',
+  isOwner,
+  emailVerified: true,
+  deletedAt: undefined as Date | undefined,
+  save: vi.fn()
+});
+
+describe('AdminTeamService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(PermissionVersionService.getInstance(), 'bumpAccount').mockResolvedValue(undefined);
+    vi.spyOn(IdentityService, 'unlinkPrincipal').mockResolvedValue(undefined);
+    vi.spyOn(IdentityService, 'linkPrincipal').mockResolvedValue('created');
+    vi.spyOn(AccountTokenService, 'sendAdminInvitation').mockResolvedValue(undefined);
+  });
+
+  describe('removeAdmin', () => {
+    it('lets an admin remove themselves and signs them out', async () => {
+      const admin = storedAdmin(false);
+      vi.mocked(TenantAdmin.findOne).mockResolvedValueOnce(admin as never);
+
+      await AdminTeamService.removeAdmin(tenantId.toString(), admin._id.toString(), admin._id.toString());
+
+      expect(admin.deletedAt).toBeInstanceOf(Date);
+      expect(PermissionVersionService.getInstance().bumpAccount).toHaveBeenCalledWith('tenant_admin', admin._id.toString());
+      expect(IdentityService.unlinkPrincipal).toHaveBeenCalledWith('tenant_admin', admin._id.toString());
+    });
+
+    it('only lets the owner remove other admins', async () => {
+      const admin = storedAdmin(false);
+      vi.mocked(TenantAdmin.findOne)
+        .mockResolvedValueOnce(admin as never)
+        .mockResolvedValueOnce(null);
+
+      await expect(AdminTeamService.removeAdmin(tenantId.toString(), new mongoose.Types.ObjectId().toString(), admin._id.toString()))
+        .rejects.toBeInstanceOf(OwnerRequiredError);
+      expect(admin.save).not.toHaveBeenCalled();
+    });
+
+    it('never removes the owner', async () => {
+      const owner = storedAdmin(true);
+      vi.mocked(TenantAdmin.findOne).mockResolvedValueOnce(owner as never);
+
+      await expect(AdminTeamService.removeAdmin(tenantId.toString(), owner._id.toString(), owner._id.toString()))
+        .rejects.toBeInstanceOf(OwnerRemovalError);
+      expect(IdentityService.unlinkPrincipal).not.toHaveBeenCalled();
+    });
+  });
+
+  it('clears the old owner before making another admin the owner', async () => {
+    const owner = storedAdmin(true);
+    const admin = storedAdmin(false);
+    vi.mocked(TenantAdmin.findOne)
+      .mockResolvedValueOnce(owner as never)
+      .mockResolvedValueOnce(admin as never);
+    vi.mocked(TenantAdmin.find).mockReturnValueOnce({ sort: vi.fn().mockResolvedValue([]) } as never);
+
+    await AdminTeamService.transferOwnership(tenantId.toString(), owner._id.toString(), admin._id.toString());
+
+    expect(vi.mocked(TenantAdmin.updateOne).mock.calls).toEqual([
+      [{ _id: owner._id }, { $set: { isOwner: false } }],
+      [{ _id: admin._id }, { $set: { isOwner: true } }]
+    ]);
+  });
+
+  describe('inviteAdmin', () => {
+    const invitation = { email: 'New@Example.com', firstName: 'Rui', lastName: 'Costa' };
+
+    it('rejects an email that is already an admin of the tenant', async () => {
+      vi.mocked(TenantAdmin.findOne).mockResolvedValueOnce(storedAdmin(true) as never);
+      vi.mocked(TenantAdmin.exists).mockResolvedValueOnce({ _id: new mongoose.Types.ObjectId() });
+
+      await expect(AdminTeamService.inviteAdmin(tenantId.toString(), new mongoose.Types.ObjectId().toString(), invitation))
+        .rejects.toBeInstanceOf(TenantAdminExistsError);
+      expect(TenantAdmin.create).not.toHaveBeenCalled();
+    });
+
+    it('asks an invitee new to the portal to choose a password', async () => {
+      const owner = storedAdmin(true);
+      const invited = { ...storedAdmin(false), email: 'new@example.com' };
+      vi.mocked(TenantAdmin.findOne)
+        .mockResolvedValueOnce(owner as never)
+        .mockResolvedValueOnce(null);
+      vi.mocked(TenantAdmin.exists).mockResolvedValueOnce(null);
+      vi.mocked(TenantAdmin.create).mockResolvedValueOnce(invited as never);
+
+      await AdminTeamService.inviteAdmin(tenantId.toString(), owner._id.toString(), invitation);
+
+      expect(TenantAdmin.create).toHaveBeenCalledWith(expect.objectContaining({ email: 'new@example.com', isOwner: false }));
+      expect(AccountTokenService.sendAdminInvitation).toHaveBeenCalledWith(invited._id.toString(), 'Ana Silva', true);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Application Status Transitions tests
+ * Who may move an application to which status
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  canTransition,
+  canCreateWithStatus,
+  getAllowedTransitions
+} from '../features/application/application.transitions';
+
+describe('canTransition', () => {
+  it('lets a client submit their draft', () => {
+    expect(canTransition('client', 'draft', 'submitted')).toBe(true);
+  });
+
+  it('does not let a client approve or reject', () => {
+    expect(canTransition('client', 'in_review', 'approved')).toBe(false);
+    expect(canTransition('client', 'in_progress', 'rejected')).toBe(false);
+  });
+
+  it('lets a team member move an application through review', () => {
+    expect(canTransition('team_member', 'submitted', 'in_review')).toBe(true);
+    expect(canTransition('team_member', 'in_review', 'in_progress')).toBe(true);
+  });
+
+  it('does not let a team member approve or reject', () => {
+    expect(canTransition('team_member', 'in_review', 'approved')).toBe(false);
+    expect(canTransition('team_member', 'in_review', 'rejected')).toBe(false);
+    expect(canTransition('team_member', 'in_progress', 'rejected')).toBe(false);
+  });
+
+  it('lets tenant and super admins approve and reject', () => {
+    for (const actor of ['tenant_admin', 'super_admin'] as const) {
+      expect(canTransition(actor, 'in_review', 'approved')).toBe(true);
+      expect(canTransition(actor, 'in_progress', 'rejected')).toBe(true);
+    }
+  });
+
+  it('refuses to skip review', () => {
+    expect(canTransition('tenant_admin', 'submitted', 'approved')).toBe(false);
+    expect(canTransition('tenant_admin', 'draft', 'rejected')).toBe(false);
+  });
+
+  it('treats decided applications as final', () => {
+    expect(getAllowedTransitions('tenant_admin', 'approved')).toEqual([]);
+    expect(getAllowedTransitions('tenant_admin', 'rejected')).toEqual([]);
+  });
+});
+
+describe('canCreateWithStatus', () => {
+  it('lets every actor create a draft', () => {
+    for (const actor of ['client', 'team_member', 'tenant_admin', 'super_admin'] as const) {
+      expect(canCreateWithStatus(actor, 'draft')).toBe(true);
+    }
+  });
+
+  it('lets a client create a submitted application', () => {
+    expect(canCreateWithStatus('client', 'submitted')).toBe(true);
+  });
+
+  it('does not let a client create an approved application', () => {
+    expect(canCreateWithStatus('client', 'approved')).toBe(false);
+  });
+
+  it('does not let a team member create an application past draft', () => {
+    expect(canCreateWithStatus('team_member', 'submitted')).toBe(false);
+    expect(canCreateWithStatus('team_member', 'rejected')).toBe(false);
+  });
+
+  it('does not let an admin create a decided application', () => {
+    expect(canCreateWithStatus('tenant_admin', 'submitted')).toBe(true);
+    expect(canCreateWithStatus('tenant_admin', 'approved')).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * ApplicationService tests
+ * Creating and updating a client's applications within their tenant, with the
+ * models mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import { Application } from '../models/application.model';
+import { User } from '../models/user.model';
+import { TaskService } from '../features/task/task.service';
+import { ApplicationService, ApplicationActor } from '../features/application/application.service';
+import {
+  ApplicationClientNotFoundError,
+  ApplicationLockedError,
+  ApplicationNotFoundError
+} from '../features/application/errors/application.errors';
+
+const tenantId = new mongoose.Types.ObjectId();
+const clientId = new mongoose.Types.ObjectId();
+const teamMemberId = new mongoose.Types.ObjectId();
+const client: ApplicationActor = { id: clientId.toString(), type: 'client' };
+
+const storedApplication = (overrides: Record<string, unknown> = {}) => {
+  const application = new Application({
+    tenantId,
+    clientId,
+    type: 'study_visa',
+    status: 'draft',
+    priority: 'medium',
+    ...overrides
+  });
+  vi.spyOn(application, 'save').mockResolvedValue(application);
+  return application;
+};
+
+describe('ApplicationService', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(TaskService, 'createStatusChangeTask').mockResolvedValue(undefined as never);
+  });
+
+  describe('createClientApplication', () => {
+    it('files a draft assigned to the client\'s team member', async () => {
+      vi.spyOn(User, 'findOne').mockReturnValue({
+        select: vi.fn().mockResolvedValue({ assignedTo: teamMemberId })
+      } as never);
+      const create = vi.spyOn(Application, 'create').mockImplementation(async (doc: unknown) => storedApplication(doc as Record<string, unknown>) as never);
+
+      const application = await ApplicationService.createClientApplication(
+        tenantId.toString(),
+        clientId.toString(),
+        { type: 'study_visa', notes: '<b>Starting in September</b>' },
+        client
+      );
+
+      expect(application).toMatchObject({
+        clientId: clientId.toString(),
+        assignedTo: teamMemberId.toString(),
+        status: 'draft',
+        priority: 'medium',
+        notes: expect.not.stringContaining('<b>')
+      });
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({
+        statusHistory: [expect.objectContaining({ from: null, to: 'draft', actorType: 'client' })]
+      }));
+    });
+
+    it('rejects clients of another tenant', async () => {
+      vi.spyOn(User, 'findOne').mockReturnValue({ select: vi.fn().mockResolvedValue(null) } as never);
+      const create = vi.spyOn(Application, 'create');
+
+      await expect(ApplicationService.createClientApplication(
+        new mongoose.Types.ObjectId().toString(),
+        clientId.toString(),
+        { type: 'study_visa' },
+        client
+      )).rejects.toBeInstanceOf(ApplicationClientNotFoundError);
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateClientApplication', () => {
+    it('only loads applications of the client', async () => {
+      const findOne = vi.spyOn(Application, 'findOne').mockResolvedValue(null);
+      const applicationId = new mongoose.Types.ObjectId().toString();
+
+      await expect(ApplicationService.updateClientApplication(
+        tenantId.toString(),
+        clientId.toString(),
+        applicationId,
+        { notes: 'Updated' },
+        client
+      )).rejects.toBeInstanceOf(ApplicationNotFoundError);
+      expect(findOne).toHaveBeenCalledWith(expect.objectContaining({
+        _id: applicationId,
+        tenantId: tenantId.toString(),
+        clientId: clientId.toString(),
+        deletedAt: null
+      }));
+    });
+
+    it('saves the client\'s changes to an open application', async () => {
+      const application = storedApplication();
+      vi.spyOn(Application, 'findOne').mockResolvedValue(application);
+
+      const updated = await ApplicationService.updateClientApplication(
+        tenantId.toString(),
+        clientId.toString(),
+        application._id.toString(),
+        { notes: 'Added my transcripts', documents: ['transcript.pdf'] },
+        client
+      );
+
+      expect(updated).toMatchObject({ notes: 'Added my transcripts', documents: ['transcript.pdf'], status: 'draft' });
+      expect(application.save).toHaveBeenCalled();
+      expect(TaskService.createStatusChangeTask).not.toHaveBeenCalled();
+    });
+
+    it('refuses changes once the application is decided', async () => {
+      const application = storedApplication({ status: 'approved' });
+      vi.spyOn(Application, 'findOne').mockResolvedValue(application);
+
+      await expect(ApplicationService.updateClientApplication(
+        tenantId.toString(),
+        clientId.toString(),
+        application._id.toString(),
+        { notes: 'One more thing' },
+        client
+      )).rejects.toBeInstanceOf(ApplicationLockedError);
+      expect(application.save).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * BreachedPasswordService tests
+ * Lookups against the bundled hashes and a corpus file, and the policy switch
+ * that turns screening off
+ */
+
+import { describe, it, expect, vi, afterAll } from 'vitest';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import BreachedPasswordService from '../services/breached-password.service';
+import SecurityPolicyService from '../services/security-policy.service';
+import { IdentityService } from '../features/auth/identity.service';
+import { BreachedPasswordError } from '../features/auth/types/errors.types';
+
+const CORPUS_PASSWORD = 'Maple!Harbour#2024';
+
+// The corpus file is read from the environment when the config loads
+const corpusFile = await vi.hoisted(async () => {
+  const { default: fs } = await import('fs');
+  const { default: os } = await import('os');
+  const { default: path } = await import('path');
+  const { default: crypto } = await import('crypto');
+
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'breached-')), 'corpus.txt');
+  const sha1 = crypto.createHash('sha1').update('Maple!Harbour#2024').digest('hex').toUpperCase();
+  fs.writeFileSync(file, ['not-a-hash', `${sha1}:42`].join('\n'));
+  process.env.BREACHED_PASSWORDS_FILE = file;
+  return file;
+});
+
+afterAll(async () => {
+  await fs.promises.rm(path.dirname(corpusFile), { recursive: true, force: true });
+});
+
+describe('BreachedPasswordService.isBreached', () => {
+  const breached = BreachedPasswordService.getInstance();
+
+  it('finds passwords from the bundled list', async () => {
+    await expect(breached.isBreached('password')).resolves.toBe(true);
+  });
+
+  it('finds passwords from the corpus file', async () => {
+    await expect(breached.isBreached(CORPUS_PASSWORD)).resolves.toBe(true);
+  });
+
+  it('does not flag an unknown password', async () => {
+    await expect(breached.isBreached(crypto.randomUUID())).resolves.toBe(false);
+  });
+});
+
+describe('IdentityService.validateNewPassword', () => {
+  it('rejects a breached password that meets the strength rules', async () => {
+    await expect(IdentityService.validateNewPassword(CORPUS_PASSWORD)).rejects.toBeInstanceOf(BreachedPasswordError);
+  });
+
+  it('accepts it when the tenant turned screening off', async () => {
+    vi.spyOn(SecurityPolicyService.getInstance(), 'getPolicy')
+      .mockResolvedValueOnce(SecurityPolicyService.resolve({ passwordBlockBreached: false }));
+
+    await expect(IdentityService.validateNewPassword(CORPUS_PASSWORD, 'tenant-1')).resolves.toBeUndefined();
+  });
+});
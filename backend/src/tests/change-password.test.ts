@@ -0,0 +1,124 @@
+/**
+ * Change password tests
+ * Current password check, session revocation and password reuse, with the
+ * identity and token stores mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import { AuditLog } from '../models/audit-log.model';
+import { PasswordUtils } from '../utils/auth.utils';
+import SecurityPolicyService from '../services/security-policy.service';
+import MailService from '../services/mail/mail.service';
+import { AuthService } from '../features/auth/auth.service';
+import { IdentityService, IdentityDocument } from '../features/auth/identity.service';
+import { RefreshTokenService } from '../features/auth/refresh-token.service';
+import {
+  AuthenticationError,
+  InvalidCurrentPasswordError,
+  PasswordPolicyError
+} from '../features/auth/types/errors.types';
+
+vi.mock('../models/audit-log.model', () => ({
+  AuditLog: {
+    create: vi.fn()
+  }
+}));
+
+const tenantId = new mongoose.Types.ObjectId();
+const clientId = new mongoose.Types.ObjectId();
+const otherTenantClientId = new mongoose.Types.ObjectId();
+const tokens = { accessToken: 'access', refreshToken: 'refresh', expiresIn: 900 };
+
+const storedIdentity = (overrides: Record<string, unknown> = {}) => ({
+  _id: new mongoose.Types.ObjectId(),
+  password: 'current-hash',
+  passwordHistory: ['previous-hash'],
+  isLocked: false,
+  loginAttempts: 0,
+  memberships: [
+    { principalType: 'client', principalId: clientId, tenantId },
+    { principalType: 'client', principalId: otherTenantClientId, tenantId: new mongoose.Types.ObjectId() }
+  ],
+  save: vi.fn(),
+  ...overrides
+}) as unknown as IdentityDocument;
+
+const change = (newPassword = 'N3w!Passphrase') => AuthService.changePassword(
+  clientId.toString(),
+  'client',
+  { currentPassword: 'Current!Pass1', newPassword }
+);
+
+describe('AuthService.changePassword', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(AuditLog.create).mockClear();
+    vi.spyOn(AuthService, 'loadTokenSubject').mockResolvedValue({
+      userId: clientId.toString(),
+      userType: 'client',
+      tenantId: tenantId.toString()
+    } as never);
+    vi.spyOn(IdentityService, 'recordFailedAttempt').mockResolvedValue(undefined);
+    vi.spyOn(RefreshTokenService, 'revokeAllForAccount').mockResolvedValue(1);
+    vi.spyOn(RefreshTokenService, 'issueTokens').mockResolvedValue(tokens as never);
+    vi.spyOn(PasswordUtils, 'hashPassword').mockResolvedValue('new-hash');
+    vi.spyOn(SecurityPolicyService.getInstance(), 'getStrictestPolicy').mockResolvedValue(SecurityPolicyService.resolve());
+    vi.spyOn(AuthService, 'getProfile').mockResolvedValue({
+      email: 'ana@example.com',
+      firstName: 'Ana',
+      tenantName: 'Maple Immigration'
+    } as never);
+    vi.spyOn(MailService.getInstance(), 'send').mockResolvedValue(undefined as never);
+  });
+
+  it('counts a wrong current password towards the lockout', async () => {
+    const identity = storedIdentity();
+    vi.spyOn(IdentityService, 'findByPrincipal').mockResolvedValue(identity);
+    vi.spyOn(PasswordUtils, 'comparePassword').mockResolvedValue(false);
+
+    await expect(change()).rejects.toBeInstanceOf(InvalidCurrentPasswordError);
+    expect(IdentityService.recordFailedAttempt).toHaveBeenCalledWith(identity);
+    expect(identity.save).not.toHaveBeenCalled();
+  });
+
+  it('refuses a locked identity', async () => {
+    vi.spyOn(IdentityService, 'findByPrincipal').mockResolvedValue(storedIdentity({ isLocked: true }));
+
+    await expect(change()).rejects.toBeInstanceOf(AuthenticationError);
+  });
+
+  it('signs out every account of the identity and keeps this device signed in', async () => {
+    const identity = storedIdentity();
+    vi.spyOn(IdentityService, 'findByPrincipal').mockResolvedValue(identity);
+    // Current password matches; the new one matches no previous password
+    vi.spyOn(PasswordUtils, 'comparePassword').mockImplementation(async (password: string) => password === 'Current!Pass1');
+
+    await expect(change()).resolves.toBe(tokens);
+
+    expect(identity.password).toBe('new-hash');
+    expect(identity.passwordHistory).toEqual(['current-hash', 'previous-hash']);
+    expect(RefreshTokenService.revokeAllForAccount).toHaveBeenCalledWith('client', clientId.toString(), 'password_change');
+    expect(RefreshTokenService.revokeAllForAccount).toHaveBeenCalledWith('client', otherTenantClientId.toString(), 'password_change');
+    expect(vi.mocked(RefreshTokenService.issueTokens).mock.invocationCallOrder[0])
+      .toBeGreaterThan(vi.mocked(RefreshTokenService.revokeAllForAccount).mock.invocationCallOrder[1]);
+    expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({ action: 'user.password_changed' }));
+    await vi.waitFor(() => expect(MailService.getInstance().send).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'ana@example.com',
+      subject: 'Your Maple Immigration password was changed'
+    })));
+  });
+
+  it('rejects a password within the policy\'s history', async () => {
+    const identity = storedIdentity();
+    vi.spyOn(SecurityPolicyService.getInstance(), 'getStrictestPolicy')
+      .mockResolvedValue(SecurityPolicyService.resolve({ passwordHistoryCount: 2 }));
+    vi.spyOn(IdentityService, 'findByPrincipal').mockResolvedValue(identity);
+    vi.spyOn(PasswordUtils, 'comparePassword')
+      .mockImplementation(async (password: string, hash: string) => password === 'Current!Pass1' || hash === 'previous-hash');
+
+    await expect(change()).rejects.toBeInstanceOf(PasswordPolicyError);
+    expect(identity.save).not.toHaveBeenCalled();
+    expect(RefreshTokenService.revokeAllForAccount).not.toHaveBeenCalled();
+  });
+});
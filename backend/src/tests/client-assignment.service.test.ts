@@ -0,0 +1,138 @@
+/**
+ * ClientAssignmentService tests
+ * Round-robin, least-loaded and specialization strategies, with the models mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import { Tenant, ClientAssignmentStrategy } from '../models/tenant.model';
+import { TenantTeamMember } from '../models/tenant-team-member.model';
+import { User } from '../models/user.model';
+import { Application } from '../models/application.model';
+import { ClientAssignmentService } from '../features/client-assignment/client-assignment.service';
+import { matchesRole, matchesSpecialization } from '../features/client-assignment/client-assignment.matchers';
+import { ManualAssignmentStrategyError } from '../features/client-assignment/errors/client-assignment.errors';
+
+vi.mock('../models/tenant.model', () => ({
+  Tenant: {
+    findOne: vi.fn(),
+    updateOne: vi.fn()
+  }
+}));
+
+vi.mock('../models/tenant-team-member.model', () => ({
+  TenantTeamMember: {
+    find: vi.fn()
+  }
+}));
+
+vi.mock('../models/user.model', () => ({
+  User: {
+    aggregate: vi.fn()
+  }
+}));
+
+vi.mock('../models/application.model', () => ({
+  Application: {
+    aggregate: vi.fn()
+  }
+}));
+
+const tenantId = new mongoose.Types.ObjectId().toString();
+
+const visaSpecialist = { _id: new mongoose.Types.ObjectId(), firstName: 'Ana', lastName: 'Silva', role: 'visa_specialist', specializations: [] };
+const caseManager = { _id: new mongoose.Types.ObjectId(), firstName: 'Rui', lastName: 'Costa', role: 'case_manager', specializations: [] };
+const studySpecialist = { _id: new mongoose.Types.ObjectId(), firstName: 'Eva', lastName: 'Lopes', role: 'case_manager', specializations: ['study_visa'] };
+
+const givenTenant = (strategy: ClientAssignmentStrategy, lastAssignedTo?: mongoose.Types.ObjectId) => {
+  vi.mocked(Tenant.findOne).mockReturnValueOnce({
+    select: vi.fn().mockResolvedValue({
+      _id: tenantId,
+      settings: { clientAssignment: { strategy, lastAssignedTo } }
+    })
+  } as never);
+};
+
+// Team members with their open application counts
+const givenTeamMembers = (members: Array<{ _id: mongoose.Types.ObjectId }>, openApplications: number[] = []) => {
+  vi.mocked(TenantTeamMember.find).mockReturnValueOnce({
+    select: vi.fn().mockReturnValue({ sort: vi.fn().mockReturnValue({ lean: vi.fn().mockResolvedValue(members) }) })
+  } as never);
+  vi.mocked(Application.aggregate).mockResolvedValueOnce(
+    openApplications.map((count, index) => ({ _id: members[index]._id, count }))
+  );
+  vi.mocked(User.aggregate).mockResolvedValueOnce([]);
+};
+
+describe('client assignment matchers', () => {
+  it('matches the roles that usually handle an application type', () => {
+    expect(matchesRole({ role: 'work_permit_specialist' }, 'work_permit')).toBe(true);
+    expect(matchesRole({ role: 'visa_specialist' }, 'family_sponsorship')).toBe(false);
+  });
+
+  it('matches listed specializations', () => {
+    expect(matchesSpecialization({ specializations: ['study_visa'] }, 'study_visa')).toBe(true);
+    expect(matchesSpecialization({ specializations: [] }, 'study_visa')).toBe(false);
+  });
+});
+
+describe('ClientAssignmentService.selectTeamMember', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('leaves new clients unassigned under the manual strategy', async () => {
+    givenTenant('manual');
+
+    await expect(ClientAssignmentService.selectTeamMember(tenantId)).resolves.toBeNull();
+    expect(TenantTeamMember.find).not.toHaveBeenCalled();
+  });
+
+  it('rotates round-robin past the last assigned team member and saves the cursor', async () => {
+    givenTenant('round_robin', visaSpecialist._id);
+    givenTeamMembers([visaSpecialist, caseManager]);
+
+    await expect(ClientAssignmentService.selectTeamMember(tenantId)).resolves.toBe(caseManager._id.toString());
+    expect(Tenant.updateOne).toHaveBeenCalledWith(
+      { _id: tenantId },
+      { $set: { 'settings.clientAssignment.lastAssignedTo': caseManager._id.toString() } }
+    );
+  });
+
+  it('picks the team member with the fewest open applications', async () => {
+    givenTenant('least_loaded');
+    givenTeamMembers([visaSpecialist, caseManager], [4, 1]);
+
+    await expect(ClientAssignmentService.selectTeamMember(tenantId)).resolves.toBe(caseManager._id.toString());
+  });
+
+  it('prefers a listed specialization over the role mapping', async () => {
+    givenTenant('specialization');
+    givenTeamMembers([visaSpecialist, studySpecialist], [0, 3]);
+
+    await expect(ClientAssignmentService.selectTeamMember(tenantId, 'study_visa')).resolves.toBe(studySpecialist._id.toString());
+  });
+
+  it('falls back to the role mapping when nobody lists the specialization', async () => {
+    givenTenant('specialization');
+    givenTeamMembers([caseManager, visaSpecialist], [0, 3]);
+
+    await expect(ClientAssignmentService.selectTeamMember(tenantId, 'visitor_visa')).resolves.toBe(visaSpecialist._id.toString());
+  });
+
+  it('returns null when the tenant has no active team member', async () => {
+    givenTenant('least_loaded');
+    givenTeamMembers([]);
+
+    await expect(ClientAssignmentService.selectTeamMember(tenantId)).resolves.toBeNull();
+  });
+});
+
+describe('ClientAssignmentService.assignUnassignedClients', () => {
+  it('refuses to run under the manual strategy', async () => {
+    givenTenant('manual');
+
+    await expect(ClientAssignmentService.assignUnassignedClients(tenantId))
+      .rejects.toBeInstanceOf(ManualAssignmentStrategyError);
+  });
+});
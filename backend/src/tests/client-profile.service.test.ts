@@ -0,0 +1,80 @@
+/**
+ * ClientProfileService tests
+ * Writable profile fields and tenant scoping of the client's own profile
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import { User } from '../models/user.model';
+import { ClientProfileService } from '../features/client-profile/client-profile.service';
+import { updateProfileSchema } from '../features/client-profile/client-profile.schemas';
+import { ClientProfileNotFoundError } from '../features/client-profile/errors/client-profile.errors';
+
+const tenantId = new mongoose.Types.ObjectId().toString();
+
+// Unsaved document; save and populate are stubbed so no database is needed
+const storedClient = () => {
+  const client = new User({
+    tenantId,
+    email: 'ana@example.com',
+    password: 'hashed-password',
+    firstName: 'Ana',
+    lastName: 'Silva',
+    profile: { phone: '+351 912 345 678', nationality: 'Portuguese' }
+  });
+  vi.spyOn(client, 'save').mockResolvedValue(client);
+  vi.spyOn(client, 'populate').mockResolvedValue(client as never);
+  return client;
+};
+
+describe('ClientProfileService.updateProfile', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('updates the profile and preferences', async () => {
+    const client = storedClient();
+    vi.spyOn(User, 'findOne').mockResolvedValue(client);
+
+    const profile = await ClientProfileService.updateProfile(tenantId, client._id.toString(), {
+      firstName: 'Ana Maria',
+      profile: { address: 'Rua Augusta 1, Lisboa' },
+      preferences: { theme: 'dark', notifications: { sms: true } }
+    });
+
+    expect(client.save).toHaveBeenCalled();
+    expect(profile.firstName).toBe('Ana Maria');
+    expect(profile.profile.address).toBe('Rua Augusta 1, Lisboa');
+    expect(profile.profile.phone).toBe('+351 912 345 678');
+    expect(profile.preferences).toEqual({ theme: 'dark', notifications: { email: true, push: true, sms: true } });
+  });
+
+  it('clears a text field set to an empty string', async () => {
+    const client = storedClient();
+    vi.spyOn(User, 'findOne').mockResolvedValue(client);
+
+    const profile = await ClientProfileService.updateProfile(tenantId, client._id.toString(), {
+      profile: { nationality: '' }
+    });
+
+    expect(profile.profile.nationality).toBeUndefined();
+  });
+
+  it('looks the client up within the tenant', async () => {
+    vi.spyOn(User, 'findOne').mockResolvedValue(null);
+
+    await expect(ClientProfileService.getProfile(tenantId, new mongoose.Types.ObjectId().toString()))
+      .rejects.toBeInstanceOf(ClientProfileNotFoundError);
+    expect(User.findOne).toHaveBeenCalledWith(expect.objectContaining({ tenantId, deletedAt: null }));
+  });
+});
+
+describe('updateProfileSchema', () => {
+  it('strips fields the client may not change', () => {
+    const { body } = updateProfileSchema.parse({
+      body: { firstName: 'Ana', email: 'other@example.com', status: 'active', assignedTo: 'someone' }
+    });
+
+    expect(body).toEqual({ firstName: 'Ana' });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Client self-registration tests
+ * Tenant settings, duplicates and verification emails, with the models mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import { Tenant } from '../models/tenant.model';
+import { User } from '../models/user.model';
+import { AuditLog } from '../models/audit-log.model';
+import { AuthService } from '../features/auth/auth.service';
+import { IdentityService } from '../features/auth/identity.service';
+import { AccountTokenService } from '../features/auth/account-token.service';
+import { ClientAssignmentService } from '../features/client-assignment/client-assignment.service';
+import { ConflictError, SelfRegistrationDisabledError } from '../features/auth/types/errors.types';
+
+vi.mock('../models/tenant.model', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../models/tenant.model')>(),
+  Tenant: {
+    findOne: vi.fn()
+  }
+}));
+
+vi.mock('../models/user.model', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../models/user.model')>(),
+  User: {
+    countDocuments: vi.fn(),
+    findOne: vi.fn(),
+    create: vi.fn()
+  }
+}));
+
+vi.mock('../models/audit-log.model', () => ({
+  AuditLog: {
+    create: vi.fn()
+  }
+}));
+
+const tenantId = new mongoose.Types.ObjectId().toString();
+
+const input = {
+  email: 'Ana@Example.com',
+  password: 'Str0ng!Passphrase',
+  confirmPassword: 'Str0ng!Passphrase',
+  firstName: 'Ana',
+  lastName: 'Silva'
+};
+
+const givenTenant = (settings: { allowSelfRegistration: boolean; requireEmailVerification?: boolean }) => {
+  vi.mocked(Tenant.findOne).mockResolvedValueOnce({
+    _id: tenantId,
+    name: 'Maple Immigration',
+    status: 'active',
+    settings: { requireEmailVerification: false, ...settings },
+    canAddClient: vi.fn().mockResolvedValue(true)
+  } as never);
+};
+
+describe('AuthService.registerClient', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(User.countDocuments).mockResolvedValue(0 as never);
+    vi.mocked(User.create).mockImplementation(async (client: object) => ({
+      _id: new mongoose.Types.ObjectId(),
+      ...client
+    }) as never);
+    vi.spyOn(IdentityService, 'validateNewCredentials').mockResolvedValue(undefined);
+    vi.spyOn(IdentityService, 'linkPrincipal').mockResolvedValue('created');
+    vi.spyOn(ClientAssignmentService, 'selectTeamMember').mockResolvedValue(null);
+    vi.spyOn(AccountTokenService, 'sendEmailVerification').mockResolvedValue(undefined);
+  });
+
+  it('creates a pending client in the tenant', async () => {
+    givenTenant({ allowSelfRegistration: true });
+
+    const registered = await AuthService.registerClient(input, tenantId);
+
+    expect(registered).toMatchObject({
+      email: 'ana@example.com',
+      status: 'pending',
+      requiresEmailVerification: false,
+      awaitingConfirmation: false
+    });
+    expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({ action: 'user.register' }));
+    expect(AccountTokenService.sendEmailVerification).not.toHaveBeenCalled();
+  });
+
+  it('refuses registration when the tenant disabled it', async () => {
+    givenTenant({ allowSelfRegistration: false });
+
+    await expect(AuthService.registerClient(input, tenantId)).rejects.toBeInstanceOf(SelfRegistrationDisabledError);
+    expect(User.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects an email already registered in the tenant', async () => {
+    givenTenant({ allowSelfRegistration: true });
+    vi.mocked(User.findOne).mockResolvedValueOnce({ _id: new mongoose.Types.ObjectId() } as never);
+
+    await expect(AuthService.registerClient(input, tenantId)).rejects.toBeInstanceOf(ConflictError);
+    expect(User.create).not.toHaveBeenCalled();
+  });
+
+  it('sends a verification email when the tenant requires one', async () => {
+    givenTenant({ allowSelfRegistration: true, requireEmailVerification: true });
+
+    const registered = await AuthService.registerClient(input, tenantId);
+
+    expect(registered.requiresEmailVerification).toBe(true);
+    expect(AccountTokenService.sendEmailVerification).toHaveBeenCalledWith('client', registered.id, false);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * DocumentChecklistService tests
+ * Checklists of the plan's application types and application completeness,
+ * with the models mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import { DocumentChecklist } from '../models/document-checklist.model';
+import { Application } from '../models/application.model';
+import { Document } from '../models/document.model';
+import { Tenant } from '../models/tenant.model';
+import { DEFAULT_DOCUMENT_CHECKLISTS } from '../features/document-checklist/document-checklist.defaults';
+import { DocumentChecklistService } from '../features/document-checklist/document-checklist.service';
+import {
+  ApplicationTypeNotEnabledError,
+  DuplicateChecklistItemError
+} from '../features/document-checklist/errors/document-checklist.errors';
+
+vi.mock('../models/document-checklist.model', () => ({
+  DocumentChecklist: {
+    find: vi.fn(),
+    bulkWrite: vi.fn(),
+    findOneAndUpdate: vi.fn()
+  }
+}));
+
+vi.mock('../models/application.model', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../models/application.model')>(),
+  Application: {
+    findOne: vi.fn()
+  }
+}));
+
+vi.mock('../models/document.model', () => ({
+  Document: {
+    find: vi.fn()
+  }
+}));
+
+const tenantId = new mongoose.Types.ObjectId().toString();
+const clientId = new mongoose.Types.ObjectId();
+const applicationId = new mongoose.Types.ObjectId();
+const adminId = new mongoose.Types.ObjectId().toString();
+
+const lean = <T>(result: T) => ({ lean: vi.fn().mockResolvedValue(result) });
+
+const givenPlanFeatures = (features: Record<string, boolean>) => {
+  vi.spyOn(Tenant, 'findById').mockReturnValue({
+    select: vi.fn().mockResolvedValue({
+      getPlan: vi.fn().mockResolvedValue({ toObject: () => ({ features }) })
+    })
+  } as never);
+};
+
+const givenDocuments = (documents: Record<string, unknown>[]) => {
+  vi.mocked(Document.find).mockReturnValueOnce({
+    select: vi.fn().mockReturnValue(lean(documents.map(document => ({ clientId, ...document }))))
+  } as never);
+};
+
+describe('DocumentChecklistService', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+    givenPlanFeatures({ visitorVisa: true, studyVisa: true, workPermit: false });
+  });
+
+  it('seeds defaults without overwriting edits, only for the plan\'s application types', async () => {
+    vi.mocked(DocumentChecklist.find).mockReturnValueOnce(lean([
+      { applicationType: 'study_visa', items: DEFAULT_DOCUMENT_CHECKLISTS.study_visa },
+      { applicationType: 'visitor_visa', items: DEFAULT_DOCUMENT_CHECKLISTS.visitor_visa }
+    ]) as never);
+
+    const checklists = await DocumentChecklistService.getChecklists(tenantId);
+
+    expect(checklists.map(checklist => checklist.applicationType)).toEqual(['visitor_visa', 'study_visa']);
+    const [operations] = vi.mocked(DocumentChecklist.bulkWrite).mock.calls[0];
+    expect(operations).toEqual([
+      expect.objectContaining({ updateOne: expect.objectContaining({ filter: expect.objectContaining({ applicationType: 'visitor_visa' }), upsert: true }) }),
+      expect.objectContaining({ updateOne: expect.objectContaining({ filter: expect.objectContaining({ applicationType: 'study_visa' }), upsert: true }) })
+    ]);
+    expect(operations[0]).toHaveProperty('updateOne.update.$setOnInsert');
+  });
+
+  describe('updateChecklist', () => {
+    it('rejects application types outside the plan', async () => {
+      await expect(DocumentChecklistService.updateChecklist(tenantId, 'work_permit', [], adminId))
+        .rejects.toBeInstanceOf(ApplicationTypeNotEnabledError);
+      expect(DocumentChecklist.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('rejects a document type listed twice, whatever its case', async () => {
+      await expect(DocumentChecklistService.updateChecklist(tenantId, 'study_visa', [
+        { documentType: 'passport', label: 'Passport', required: true },
+        { documentType: 'Passport', label: 'Second passport', required: false }
+      ], adminId)).rejects.toBeInstanceOf(DuplicateChecklistItemError);
+    });
+  });
+
+  it('counts the client\'s shared documents and those of the application, not of other applications', async () => {
+    vi.mocked(Application.findOne).mockReturnValueOnce({
+      select: vi.fn().mockReturnValue(lean({ _id: applicationId, clientId, type: 'visitor_visa', status: 'draft' }))
+    } as never);
+    vi.mocked(DocumentChecklist.find).mockReturnValueOnce(lean([]) as never);
+    givenDocuments([
+      { documentType: 'Passport', applicationId: null },
+      { documentType: 'photo', applicationId },
+      { documentType: 'proof_of_funds', applicationId: new mongoose.Types.ObjectId() },
+      { documentType: 'travel_itinerary', applicationId }
+    ]);
+
+    const completeness = await DocumentChecklistService.getClientApplicationCompleteness(
+      tenantId,
+      clientId.toString(),
+      applicationId.toString()
+    );
+
+    // Defaults apply when the tenant has no checklist; optional items do not count
+    expect(completeness).toMatchObject({
+      applicationType: 'visitor_visa',
+      requiredCount: 3,
+      providedCount: 2,
+      percentage: 67,
+      missing: [expect.objectContaining({ documentType: 'proof_of_funds' })]
+    });
+    expect(completeness.items.find(item => item.documentType === 'travel_itinerary')?.provided).toBe(true);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Document Storage tests
+ * Content sniffing, the local driver's key handling and signed download URLs
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import mongoose from 'mongoose';
+import { Document } from '../models/document.model';
+import { User } from '../models/user.model';
+import StorageService from '../services/storage/storage.service';
+import { LocalStorageDriver } from '../services/storage/local-storage.driver';
+import { DocumentService, DocumentActor } from '../features/document/document.service';
+import { sniffMimeType } from '../features/document/document.mime';
+import { DocumentNotFoundError, InvalidDownloadLinkError } from '../features/document/errors/document.errors';
+
+vi.mock('../models/document.model', () => ({
+  Document: {
+    findOne: vi.fn()
+  }
+}));
+
+vi.mock('../models/user.model', () => ({
+  User: {
+    findOne: vi.fn()
+  }
+}));
+
+const tenantId = new mongoose.Types.ObjectId().toString();
+const clientId = new mongoose.Types.ObjectId().toString();
+const documentId = new mongoose.Types.ObjectId().toString();
+
+// Mongoose queries are awaited after .select()
+const query = <T>(result: T) => ({ select: vi.fn().mockResolvedValue(result) });
+
+const storedDocument = (ownerTenantId = tenantId) => ({
+  _id: documentId,
+  tenantId: ownerTenantId,
+  clientId,
+  storageDriver: 'local',
+  storageKey: `${ownerTenantId}/2026/01/object`,
+  originalName: 'passport.pdf',
+  mimeType: 'application/pdf',
+  size: 4,
+  checksum: 'checksum'
+});
+
+const parseUrl = (url: string) => {
+  const params = new URL(url, 'http://localhost').searchParams;
+  return { expires: Number(params.get('expires')), signature: params.get('signature') ?? '' };
+};
+
+const issueUrl = async (actor: DocumentActor = { id: clientId, type: 'client' }) => {
+  vi.mocked(Document.findOne).mockReturnValueOnce(query({ clientId }) as never);
+  vi.mocked(User.findOne).mockReturnValueOnce(query({ assignedTo: undefined }) as never);
+  return DocumentService.createDownloadUrl(tenantId, documentId, actor);
+};
+
+describe('sniffMimeType', () => {
+  it('detects allowed types from their leading bytes', () => {
+    expect(sniffMimeType(Buffer.from('%PDF-1.7\n'))).toBe('application/pdf');
+    expect(sniffMimeType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]))).toBe('image/png');
+    expect(sniffMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+  });
+
+  it('rejects content that matches no allowed signature', () => {
+    expect(sniffMimeType(Buffer.from('<html><script>alert(1)</script></html>'))).toBeNull();
+    expect(sniffMimeType(Buffer.from('PK\u0003\u0004not a word document'))).toBeNull();
+  });
+});
+
+describe('LocalStorageDriver', () => {
+  let rootPath: string;
+
+  beforeEach(async () => {
+    rootPath = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'storage-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(rootPath, { recursive: true, force: true });
+  });
+
+  it('stores and reads back an object', async () => {
+    const driver = new LocalStorageDriver(rootPath);
+    await driver.putObject('tenant/2026/01/object', Buffer.from('content'));
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of await driver.getObjectStream('tenant/2026/01/object')) {
+      chunks.push(chunk as Buffer);
+    }
+    expect(Buffer.concat(chunks).toString()).toBe('content');
+  });
+
+  it('refuses to overwrite an existing object', async () => {
+    const driver = new LocalStorageDriver(rootPath);
+    await driver.putObject('object', Buffer.from('first'));
+
+    await expect(driver.putObject('object', Buffer.from('second'))).rejects.toThrow();
+  });
+
+  it('rejects keys that escape the storage root', async () => {
+    const driver = new LocalStorageDriver(rootPath);
+
+    await expect(driver.putObject('../outside', Buffer.from('content'))).rejects.toThrow('Invalid storage key');
+    await expect(driver.exists('../../etc/passwd')).resolves.toBe(false);
+  });
+});
+
+describe('DocumentService signed downloads', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(StorageService.getInstance(), 'getDriver').mockReturnValue({
+      getObjectStream: vi.fn().mockResolvedValue(Readable.from(['%PDF']))
+    } as never);
+  });
+
+  it('opens a document through the URL it issued', async () => {
+    const { url } = await issueUrl();
+    const { expires, signature } = parseUrl(url);
+    vi.mocked(Document.findOne).mockReturnValueOnce(query(storedDocument()) as never);
+
+    const download = await DocumentService.openSignedDownload(documentId, expires, signature);
+
+    expect(download.fileName).toBe('passport.pdf');
+    expect(download.mimeType).toBe('application/pdf');
+  });
+
+  it('rejects a tampered signature', async () => {
+    const { url } = await issueUrl();
+    const { expires, signature } = parseUrl(url);
+    const tampered = (signature[0] === 'a' ? 'b' : 'a') + signature.slice(1);
+    vi.mocked(Document.findOne).mockReturnValueOnce(query(storedDocument()) as never);
+
+    await expect(DocumentService.openSignedDownload(documentId, expires, tampered))
+      .rejects.toBeInstanceOf(InvalidDownloadLinkError);
+  });
+
+  it('rejects a URL whose expiry was extended', async () => {
+    const { url } = await issueUrl();
+    const { expires, signature } = parseUrl(url);
+    vi.mocked(Document.findOne).mockReturnValueOnce(query(storedDocument()) as never);
+
+    await expect(DocumentService.openSignedDownload(documentId, expires + 3600, signature))
+      .rejects.toBeInstanceOf(InvalidDownloadLinkError);
+  });
+
+  it('rejects an expired URL without loading the document', async () => {
+    const { signature } = parseUrl((await issueUrl()).url);
+
+    await expect(DocumentService.openSignedDownload(documentId, Math.floor(Date.now() / 1000) - 1, signature))
+      .rejects.toBeInstanceOf(InvalidDownloadLinkError);
+    expect(Document.findOne).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not accept a signature issued for another tenant', async () => {
+    const { url } = await issueUrl();
+    const { expires, signature } = parseUrl(url);
+    vi.mocked(Document.findOne).mockReturnValueOnce(query(storedDocument(new mongoose.Types.ObjectId().toString())) as never);
+
+    await expect(DocumentService.openSignedDownload(documentId, expires, signature))
+      .rejects.toBeInstanceOf(InvalidDownloadLinkError);
+  });
+
+  it('hides documents of clients outside a team member\'s assignments', async () => {
+    vi.mocked(Document.findOne).mockReturnValueOnce(query({ clientId }) as never);
+    vi.mocked(User.findOne).mockReturnValueOnce(query({ assignedTo: new mongoose.Types.ObjectId() }) as never);
+
+    await expect(DocumentService.createDownloadUrl(tenantId, documentId, {
+      id: new mongoose.Types.ObjectId().toString(),
+      type: 'team_member'
+    })).rejects.toBeInstanceOf(DocumentNotFoundError);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * IdentityService tests
+ * Sign-in and lockout, and linking accounts to shared identities, with the
+ * identity store mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import { Identity } from '../models/identity.model';
+import { PasswordUtils } from '../utils/auth.utils';
+import SecurityPolicyService from '../services/security-policy.service';
+import { IdentityService } from '../features/auth/identity.service';
+import {
+  AuthenticationError,
+  ExistingCredentialsError,
+  PasswordPolicyError
+} from '../features/auth/types/errors.types';
+
+vi.mock('../models/identity.model', () => ({
+  Identity: {
+    findOne: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+    exists: vi.fn(),
+    create: vi.fn(),
+    updateOne: vi.fn(),
+    deleteOne: vi.fn()
+  }
+}));
+
+const tenantId = new mongoose.Types.ObjectId();
+const clientId = new mongoose.Types.ObjectId();
+const membership = { principalType: 'client' as const, principalId: clientId, tenantId };
+
+const storedIdentity = (overrides: Record<string, unknown> = {}) => ({
+  _id: new mongoose.Types.ObjectId(),
+  email: 'ana@example.com',
+  password: 'hashed-password',
+  loginAttempts: 0,
+  isLocked: false,
+  memberships: [membership],
+  pendingMemberships: [] as typeof membership[],
+  updateOne: vi.fn(),
+  ...overrides
+});
+
+const givenIdentity = (identity: ReturnType<typeof storedIdentity>) => {
+  vi.mocked(Identity.findOne).mockReturnValueOnce({ select: vi.fn().mockResolvedValue(identity) } as never);
+};
+
+describe('IdentityService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(PasswordUtils, 'comparePassword').mockResolvedValue(true);
+    vi.spyOn(PasswordUtils, 'hashPassword').mockResolvedValue('hashed-password');
+    vi.spyOn(SecurityPolicyService.getInstance(), 'getPolicy')
+      .mockResolvedValue({ ...SecurityPolicyService.resolve(), maxLoginAttempts: 3, lockoutDurationMinutes: 15 });
+  });
+
+  describe('authenticate', () => {
+    it('signs in as an account type the identity holds', async () => {
+      const identity = storedIdentity();
+      givenIdentity(identity);
+
+      await expect(IdentityService.authenticate('Ana@Example.com', 'secret', 'client')).resolves.toBe(identity);
+      expect(Identity.findOne).toHaveBeenCalledWith({ email: 'ana@example.com' });
+    });
+
+    it('rejects a locked identity without checking the password', async () => {
+      givenIdentity(storedIdentity({ isLocked: true }));
+
+      await expect(IdentityService.authenticate('ana@example.com', 'secret', 'client'))
+        .rejects.toThrow('Account is temporarily locked');
+      expect(PasswordUtils.comparePassword).not.toHaveBeenCalled();
+    });
+
+    it('locks the identity when a wrong password reaches the policy limit', async () => {
+      const identity = storedIdentity({ loginAttempts: 2 });
+      givenIdentity(identity);
+      vi.mocked(PasswordUtils.comparePassword).mockResolvedValueOnce(false);
+
+      await expect(IdentityService.authenticate('ana@example.com', 'wrong', 'client'))
+        .rejects.toBeInstanceOf(AuthenticationError);
+      expect(identity.updateOne).toHaveBeenCalledWith({
+        $inc: { loginAttempts: 1 },
+        $set: { lockUntil: expect.any(Date) }
+      });
+    });
+
+    it('rejects an account type the identity does not hold', async () => {
+      givenIdentity(storedIdentity());
+
+      await expect(IdentityService.authenticate('ana@example.com', 'secret', 'team_member'))
+        .rejects.toBeInstanceOf(AuthenticationError);
+    });
+  });
+
+  describe('validateNewCredentials', () => {
+    it('refuses a password for an email that already has an identity', async () => {
+      vi.mocked(Identity.exists).mockResolvedValueOnce({ _id: new mongoose.Types.ObjectId() });
+
+      await expect(IdentityService.validateNewCredentials('ana@example.com', 'Str0ng!Passphrase'))
+        .rejects.toBeInstanceOf(ExistingCredentialsError);
+    });
+
+    it('requires a password for an email new to the portal', async () => {
+      vi.mocked(Identity.exists).mockResolvedValueOnce(null);
+
+      await expect(IdentityService.validateNewCredentials('new@example.com', undefined))
+        .rejects.toBeInstanceOf(PasswordPolicyError);
+    });
+  });
+
+  describe('linkPrincipal', () => {
+    const link = { principalType: 'client' as const, principalId: clientId.toString(), tenantId: tenantId.toString() };
+
+    it('creates an identity for an email new to the portal', async () => {
+      vi.mocked(Identity.findOneAndUpdate).mockResolvedValueOnce(null);
+
+      await expect(IdentityService.linkPrincipal('New@Example.com', 'Str0ng!Passphrase', link)).resolves.toBe('created');
+      expect(Identity.create).toHaveBeenCalledWith(expect.objectContaining({
+        email: 'new@example.com',
+        password: 'hashed-password',
+        memberships: [membership]
+      }));
+    });
+
+    it('leaves the account pending on an existing identity', async () => {
+      vi.mocked(Identity.findOneAndUpdate).mockResolvedValueOnce(storedIdentity() as never);
+
+      await expect(IdentityService.linkPrincipal('ana@example.com', undefined, link)).resolves.toBe('pending_confirmation');
+      expect(Identity.findOneAndUpdate).toHaveBeenCalledWith(
+        { email: 'ana@example.com' },
+        { $addToSet: { pendingMemberships: membership } },
+        { new: true }
+      );
+      expect(Identity.create).not.toHaveBeenCalled();
+    });
+  });
+
+  it('moves a confirmed account from pending to memberships', async () => {
+    const identity = storedIdentity({ memberships: [], pendingMemberships: [membership] });
+    vi.mocked(Identity.findOne).mockResolvedValueOnce(identity as never);
+
+    await expect(IdentityService.confirmPendingMembership('client', clientId.toString())).resolves.toBe(true);
+    expect(identity.updateOne).toHaveBeenCalledWith({
+      $pull: { pendingMemberships: { principalType: 'client', principalId: clientId } },
+      $addToSet: { memberships: membership }
+    });
+  });
+
+  describe('unlinkPrincipal', () => {
+    it('deletes the identity with its last membership', async () => {
+      const identity = storedIdentity({ memberships: [] });
+      vi.mocked(Identity.findOneAndUpdate).mockResolvedValueOnce(identity as never);
+
+      await IdentityService.unlinkPrincipal('client', clientId.toString());
+
+      expect(Identity.deleteOne).toHaveBeenCalledWith({ _id: identity._id });
+    });
+
+    it('keeps an identity that still has accounts waiting for confirmation', async () => {
+      vi.mocked(Identity.findOneAndUpdate).mockResolvedValueOnce(
+        storedIdentity({ memberships: [], pendingMemberships: [membership] }) as never
+      );
+
+      await IdentityService.unlinkPrincipal('client', clientId.toString());
+
+      expect(Identity.deleteOne).not.toHaveBeenCalled();
+    });
+  });
+});
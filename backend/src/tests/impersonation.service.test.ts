@@ -0,0 +1,159 @@
+/**
+ * ImpersonationService tests
+ * Who may impersonate whom, the session token and ending a session, with
+ * the audit log mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { AuditLog } from '../models/audit-log.model';
+import { JWTUtils } from '../utils/auth.utils';
+import TokenDenylistService from '../services/token-denylist.service';
+import { forbidImpersonation } from '../middleware/auth.middleware';
+import { AuthService } from '../features/auth/auth.service';
+import { AuthenticationError } from '../features/auth/types/errors.types';
+import { ImpersonationService } from '../features/impersonation/impersonation.service';
+import {
+  ImpersonationNotAllowedError,
+  ImpersonationTargetNotFoundError,
+  NotImpersonatingError
+} from '../features/impersonation/errors/impersonation.errors';
+
+vi.mock('../models/audit-log.model', () => ({
+  AuditLog: {
+    create: vi.fn()
+  }
+}));
+
+const tenantId = new mongoose.Types.ObjectId().toString();
+const clientId = new mongoose.Types.ObjectId().toString();
+const context = { ipAddress: '203.0.113.9', userAgent: 'vitest', endpoint: '/api/v1/tenant-admin/impersonation' };
+
+const tenantAdmin = {
+  userId: new mongoose.Types.ObjectId().toString(),
+  userType: 'tenant_admin' as const,
+  email: 'admin@example.com',
+  tenantId
+};
+
+const request = (overrides: Partial<Parameters<typeof ImpersonationService.start>[1]> = {}) => ({
+  userType: 'client' as const,
+  userId: clientId,
+  reason: 'Client cannot find their uploaded passport',
+  readOnly: true,
+  durationMinutes: 30,
+  ...overrides
+});
+
+const givenClient = (clientTenantId = tenantId) => {
+  vi.spyOn(AuthService, 'loadTokenSubject').mockResolvedValueOnce({
+    userId: clientId,
+    userType: 'client',
+    tenantId: clientTenantId,
+    email: 'ana@example.com',
+    permissions: ['view_own_profile'],
+    permissionVersion: 0
+  });
+};
+
+describe('ImpersonationService.start', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(AuditLog.create).mockClear();
+    vi.spyOn(AuthService, 'getProfile').mockResolvedValue({ id: clientId } as never);
+  });
+
+  it('issues a read-only token naming the real user', async () => {
+    givenClient();
+
+    const session = await ImpersonationService.start(tenantAdmin, request(), context);
+    const claims = JWTUtils.verifyAccessToken(session.accessToken);
+
+    expect(claims).toMatchObject({
+      userId: clientId,
+      userType: 'client',
+      tenantId,
+      readOnly: true,
+      impersonatedBy: { userId: tenantAdmin.userId, userType: 'tenant_admin', email: 'admin@example.com' }
+    });
+    expect(claims.exp! - claims.iat!).toBe(30 * 60);
+    expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'impersonation.started',
+      userId: clientId,
+      metadata: expect.objectContaining({ impersonatedBy: session.impersonatedBy })
+    }));
+  });
+
+  it('caps the session at the configured maximum', async () => {
+    givenClient();
+
+    const session = await ImpersonationService.start(tenantAdmin, request({ durationMinutes: 240 }), context);
+    const claims = JWTUtils.verifyAccessToken(session.accessToken);
+
+    expect(claims.exp! - claims.iat!).toBe(60 * 60);
+  });
+
+  it('refuses and audits impersonating a super admin', async () => {
+    await expect(ImpersonationService.start(
+      { ...tenantAdmin, userType: 'super_admin', tenantId: undefined },
+      request({ userType: 'super_admin' }),
+      context
+    )).rejects.toBeInstanceOf(ImpersonationNotAllowedError);
+    expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({ action: 'impersonation.refused' }));
+  });
+
+  it('keeps tenant admins away from other admins', async () => {
+    await expect(ImpersonationService.start(tenantAdmin, request({ userType: 'tenant_admin' }), context))
+      .rejects.toBeInstanceOf(ImpersonationNotAllowedError);
+  });
+
+  it('reports clients of another tenant as not found', async () => {
+    givenClient(new mongoose.Types.ObjectId().toString());
+
+    await expect(ImpersonationService.start(tenantAdmin, request(), context))
+      .rejects.toBeInstanceOf(ImpersonationTargetNotFoundError);
+  });
+
+  it('reports inactive accounts as not found', async () => {
+    vi.spyOn(AuthService, 'loadTokenSubject').mockRejectedValueOnce(new AuthenticationError('Account is inactive'));
+
+    await expect(ImpersonationService.start(tenantAdmin, request(), context))
+      .rejects.toBeInstanceOf(ImpersonationTargetNotFoundError);
+  });
+});
+
+describe('ImpersonationService.end', () => {
+  it('revokes the impersonation token', async () => {
+    const revokeToken = vi.spyOn(TokenDenylistService.getInstance(), 'revokeToken');
+    const tokenExpiresAt = Math.floor(Date.now() / 1000) + 600;
+
+    await ImpersonationService.end({
+      userId: clientId,
+      userType: 'client',
+      tenantId,
+      tokenId: 'impersonation-jti',
+      tokenExpiresAt,
+      impersonatedBy: tenantAdmin
+    }, context);
+
+    expect(revokeToken).toHaveBeenCalledWith('impersonation-jti', tokenExpiresAt);
+  });
+
+  it('rejects a token that is not impersonating', async () => {
+    await expect(ImpersonationService.end({ userId: clientId, userType: 'client' }, context))
+      .rejects.toBeInstanceOf(NotImpersonatingError);
+  });
+});
+
+describe('forbidImpersonation', () => {
+  it('blocks impersonation sessions', () => {
+    const res = { status: vi.fn().mockReturnThis(), json: vi.fn() };
+    const next = vi.fn();
+
+    forbidImpersonation({ user: { impersonatedBy: tenantAdmin } } as unknown as Request, res as unknown as Response, next);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
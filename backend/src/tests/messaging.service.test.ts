@@ -0,0 +1,108 @@
+/**
+ * MessagingService tests
+ * Thread visibility, unread counters and attachment checks, with the models mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import { MessageThread } from '../models/message-thread.model';
+import { Message } from '../models/message.model';
+import { Document } from '../models/document.model';
+import { User } from '../models/user.model';
+import { MessagingService } from '../features/messaging/messaging.service';
+import { InvalidAttachmentError, ThreadNotFoundError } from '../features/messaging/errors/messaging.errors';
+
+vi.mock('../models/message-thread.model', () => ({
+  MessageThread: {
+    findOne: vi.fn(),
+    updateOne: vi.fn()
+  }
+}));
+
+vi.mock('../models/message.model', () => ({
+  Message: {
+    create: vi.fn()
+  }
+}));
+
+vi.mock('../models/document.model', () => ({
+  Document: {
+    find: vi.fn()
+  }
+}));
+
+vi.mock('../models/user.model', () => ({
+  User: {
+    findOne: vi.fn()
+  }
+}));
+
+const tenantId = new mongoose.Types.ObjectId().toString();
+const clientId = new mongoose.Types.ObjectId();
+const teamMemberId = new mongoose.Types.ObjectId().toString();
+const threadId = new mongoose.Types.ObjectId();
+
+const client = { id: clientId.toString(), type: 'client' as const };
+const teamMember = { id: teamMemberId, type: 'team_member' as const };
+
+const givenThreadOfClient = (assignedTo: string = teamMemberId) => {
+  vi.mocked(MessageThread.findOne).mockResolvedValueOnce({ _id: threadId, clientId } as never);
+  vi.mocked(User.findOne).mockReturnValueOnce({
+    select: vi.fn().mockResolvedValue({ assignedTo: new mongoose.Types.ObjectId(assignedTo) })
+  } as never);
+};
+
+describe('MessagingService.postMessage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(Message.create).mockImplementation(async (message: object) => ({
+      _id: new mongoose.Types.ObjectId(),
+      ...message,
+      createdAt: new Date()
+    }) as never);
+  });
+
+  it('counts a client\'s reply as unread for the team member', async () => {
+    givenThreadOfClient();
+
+    await MessagingService.postMessage(tenantId, client, threadId.toString(), { body: 'Hello' });
+
+    expect(MessageThread.updateOne).toHaveBeenCalledWith(
+      { _id: threadId, tenantId },
+      expect.objectContaining({ $inc: { teamMemberUnreadCount: 1 } })
+    );
+  });
+
+  it('counts a team member\'s reply as unread for the client', async () => {
+    givenThreadOfClient();
+
+    await MessagingService.postMessage(tenantId, teamMember, threadId.toString(), { body: 'Hi there' });
+
+    expect(MessageThread.updateOne).toHaveBeenCalledWith(
+      { _id: threadId, tenantId },
+      expect.objectContaining({ $inc: { clientUnreadCount: 1 } })
+    );
+  });
+
+  it('hides threads of clients assigned to another team member', async () => {
+    givenThreadOfClient(new mongoose.Types.ObjectId().toString());
+
+    await expect(MessagingService.postMessage(tenantId, teamMember, threadId.toString(), { body: 'Hello' }))
+      .rejects.toBeInstanceOf(ThreadNotFoundError);
+    expect(Message.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects attachments that are not the thread client\'s documents', async () => {
+    givenThreadOfClient();
+    vi.mocked(Document.find).mockReturnValueOnce({
+      select: vi.fn().mockReturnValue({ lean: vi.fn().mockResolvedValue([]) })
+    } as never);
+
+    await expect(MessagingService.postMessage(tenantId, client, threadId.toString(), {
+      body: 'See attached',
+      attachments: [new mongoose.Types.ObjectId().toString()]
+    })).rejects.toBeInstanceOf(InvalidAttachmentError);
+    expect(Document.find).toHaveBeenCalledWith(expect.objectContaining({ tenantId, clientId: clientId.toString() }));
+    expect(Message.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * MfaService tests
+ * TOTP enrollment, login verification and backup codes, with the credential store mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import speakeasy from 'speakeasy';
+import { MfaCredential } from '../models/mfa-credential.model';
+import { TokenUtils } from '../utils/auth.utils';
+import { MfaService, MfaAccount } from '../features/mfa/mfa.service';
+import {
+  InvalidMfaCodeError,
+  MfaDisableForbiddenError,
+  MfaEnrollmentRequiredError,
+  MfaRequiredError
+} from '../features/mfa/errors/mfa.errors';
+
+vi.mock('../models/mfa-credential.model', () => ({
+  MfaCredential: {
+    findOne: vi.fn(),
+    updateOne: vi.fn(),
+    deleteOne: vi.fn()
+  }
+}));
+
+const account: MfaAccount = {
+  accountType: 'client',
+  accountId: new mongoose.Types.ObjectId().toString(),
+  tenantId: new mongoose.Types.ObjectId().toString(),
+  email: 'ana@example.com'
+};
+
+interface StoredCredential {
+  _id: mongoose.Types.ObjectId;
+  enabled: boolean;
+  secret?: string;
+  pendingSecret?: string;
+  backupCodes: string[];
+  lastUsedStep?: number;
+  save: ReturnType<typeof vi.fn>;
+}
+
+// findOne returns a query that is awaited after an optional .select()
+const givenCredential = (credential: StoredCredential | null) => {
+  vi.mocked(MfaCredential.findOne).mockReturnValueOnce(
+    Object.assign(Promise.resolve(credential), { select: vi.fn() }) as never
+  );
+};
+
+const newCredential = (): StoredCredential => ({
+  _id: new mongoose.Types.ObjectId(),
+  enabled: false,
+  backupCodes: [],
+  save: vi.fn()
+});
+
+// Enroll through startSetup and enable, as the authenticator app would
+const enroll = async () => {
+  const credential = newCredential();
+
+  givenCredential(credential);
+  const { secret } = await MfaService.startSetup(account);
+
+  givenCredential(credential);
+  const backupCodes = await MfaService.enable(account, speakeasy.totp({ secret, encoding: 'base32' }));
+
+  return { credential, secret, backupCodes };
+};
+
+describe('MfaService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(MfaCredential.updateOne).mockResolvedValue({ modifiedCount: 1 } as never);
+  });
+
+  describe('enrollment', () => {
+    it('stores the secret encrypted and enables it with a valid code', async () => {
+      const { credential, secret, backupCodes } = await enroll();
+
+      expect(credential.enabled).toBe(true);
+      expect(credential.pendingSecret).toBeUndefined();
+      expect(credential.secret).not.toContain(secret);
+      expect(backupCodes).toHaveLength(10);
+      expect(credential.backupCodes).toEqual(backupCodes.map(code => TokenUtils.hashToken(code)));
+    });
+
+    it('rejects a code that does not match the pending secret', async () => {
+      const credential = newCredential();
+      givenCredential(credential);
+      await MfaService.startSetup(account);
+      givenCredential(credential);
+
+      await expect(MfaService.enable(account, '000000')).rejects.toBeInstanceOf(InvalidMfaCodeError);
+      expect(credential.enabled).toBe(false);
+    });
+  });
+
+  describe('verifyLoginFactor', () => {
+    it('asks for a code when the account uses MFA', async () => {
+      const { credential } = await enroll();
+      givenCredential(credential);
+
+      await expect(MfaService.verifyLoginFactor(account)).rejects.toBeInstanceOf(MfaRequiredError);
+    });
+
+    it('accepts a current TOTP code once per time step', async () => {
+      const { credential, secret } = await enroll();
+      const code = speakeasy.totp({ secret, encoding: 'base32' });
+
+      givenCredential(credential);
+      await expect(MfaService.verifyLoginFactor(account, code)).resolves.toBe(true);
+
+      vi.mocked(MfaCredential.updateOne).mockResolvedValueOnce({ modifiedCount: 0 } as never);
+      givenCredential(credential);
+      await expect(MfaService.verifyLoginFactor(account, code)).resolves.toBe(false);
+    });
+
+    it('consumes a backup code', async () => {
+      const { credential, backupCodes } = await enroll();
+      givenCredential(credential);
+
+      await expect(MfaService.verifyLoginFactor(account, backupCodes[0].toLowerCase())).resolves.toBe(true);
+      expect(MfaCredential.updateOne).toHaveBeenCalledWith(
+        { _id: credential._id, backupCodes: TokenUtils.hashToken(backupCodes[0]) },
+        expect.objectContaining({ $pull: { backupCodes: TokenUtils.hashToken(backupCodes[0]) } })
+      );
+    });
+
+    it('lets accounts without MFA through unless policy requires it', async () => {
+      givenCredential(null);
+      await expect(MfaService.verifyLoginFactor(account)).resolves.toBe(true);
+
+      givenCredential(null);
+      await expect(MfaService.verifyLoginFactor({ ...account, accountType: 'super_admin', tenantId: undefined }))
+        .rejects.toBeInstanceOf(MfaEnrollmentRequiredError);
+    });
+  });
+
+  it('does not let super admins turn MFA off', async () => {
+    await expect(MfaService.disable({ ...account, accountType: 'super_admin', tenantId: undefined }, '123456'))
+      .rejects.toBeInstanceOf(MfaDisableForbiddenError);
+    expect(MfaCredential.deleteOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * PermissionVersionService tests
+ * Version checks and cache invalidation, with the models mocked and the
+ * cache on the in-memory fallback of RedisService
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import { Tenant } from '../models/tenant.model';
+import { User } from '../models/user.model';
+import PermissionVersionService from '../services/permission-version.service';
+
+vi.mock('../models/tenant.model', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../models/tenant.model')>(),
+  Tenant: {
+    findById: vi.fn(),
+    updateOne: vi.fn()
+  }
+}));
+
+vi.mock('../models/user.model', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../models/user.model')>(),
+  User: {
+    findById: vi.fn(),
+    findByIdAndUpdate: vi.fn()
+  }
+}));
+
+// A query resolved after .select()
+const query = <T>(result: T) => ({ select: vi.fn().mockResolvedValue(result) });
+
+const givenVersions = (tenantId: string, clientVersion: number, tenantVersion: number) => {
+  vi.mocked(User.findById).mockReturnValueOnce(query({ tenantId, permissionVersion: clientVersion }) as never);
+  vi.mocked(Tenant.findById).mockReturnValueOnce(query({ permissionVersion: tenantVersion }) as never);
+};
+
+const clientToken = (tenantId: string, userId: string, pv?: number) => ({
+  userType: 'client' as const,
+  userId,
+  tenantId,
+  pv
+});
+
+describe('PermissionVersionService', () => {
+  const versions = PermissionVersionService.getInstance();
+  let tenantId: string;
+  let clientId: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tenantId = new mongoose.Types.ObjectId().toString();
+    clientId = new mongoose.Types.ObjectId().toString();
+  });
+
+  it('accepts a token carrying the account and tenant counters combined', async () => {
+    givenVersions(tenantId, 2, 3);
+
+    await expect(versions.isCurrent(clientToken(tenantId, clientId, 5))).resolves.toBe(true);
+    await expect(versions.isCurrent(clientToken(tenantId, clientId, 4))).resolves.toBe(false);
+    expect(User.findById).toHaveBeenCalledTimes(1);
+  });
+
+  it('treats tokens without a version as version 0', async () => {
+    givenVersions(tenantId, 0, 0);
+
+    await expect(versions.isCurrent(clientToken(tenantId, clientId))).resolves.toBe(true);
+  });
+
+  it('rejects tokens of deleted accounts', async () => {
+    vi.mocked(User.findById).mockReturnValueOnce(query(null) as never);
+
+    await expect(versions.isCurrent(clientToken(tenantId, clientId, 0))).resolves.toBe(false);
+  });
+
+  it('stops accepting older tokens once the account is bumped', async () => {
+    givenVersions(tenantId, 0, 0);
+    await expect(versions.isCurrent(clientToken(tenantId, clientId, 0))).resolves.toBe(true);
+
+    vi.mocked(User.findByIdAndUpdate).mockReturnValueOnce(query({ tenantId }) as never);
+    await versions.bumpAccount('client', clientId);
+
+    givenVersions(tenantId, 1, 0);
+    await expect(versions.isCurrent(clientToken(tenantId, clientId, 0))).resolves.toBe(false);
+  });
+
+  it('stops accepting older tokens of everyone in a bumped tenant', async () => {
+    givenVersions(tenantId, 0, 0);
+    await expect(versions.isCurrent(clientToken(tenantId, clientId, 0))).resolves.toBe(true);
+
+    await versions.bumpTenant(tenantId);
+
+    givenVersions(tenantId, 0, 1);
+    await expect(versions.isCurrent(clientToken(tenantId, clientId, 0))).resolves.toBe(false);
+    expect(Tenant.updateOne).toHaveBeenCalledWith({ _id: tenantId }, { $inc: { permissionVersion: 1 } });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Plan entitlement middleware tests
+ * Feature and quota checks against the tenant's plan, with the tenant and the
+ * usage meter mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Tenant } from '../models/tenant.model';
+import { ISubscriptionPlan } from '../models/subscription-plan.model';
+import { DEFAULT_SUBSCRIPTION_PLANS } from '../config/subscription-plans.config';
+import UsageMeteringService from '../services/usage-metering.service';
+import {
+  requireFeature,
+  requireQuota,
+  applicationTypeFeature
+} from '../middleware/plan-entitlement.middleware';
+
+const freePlan = DEFAULT_SUBSCRIPTION_PLANS.find(plan => plan.slug === 'free') as unknown as ISubscriptionPlan;
+const tenantId = new mongoose.Types.ObjectId().toString();
+
+const givenPlan = (plan: ISubscriptionPlan) => {
+  vi.spyOn(Tenant, 'findById').mockReturnValue({
+    select: vi.fn().mockResolvedValue({ getPlan: vi.fn().mockResolvedValue(plan) })
+  } as never);
+};
+
+const givenUsage = (apiCalls: number, documentUploads = 0) => {
+  vi.spyOn(UsageMeteringService.getInstance(), 'getCounters').mockResolvedValue({ apiCalls, documentUploads });
+};
+
+const run = async (
+  middleware: ReturnType<typeof requireFeature>,
+  user: Record<string, unknown> | undefined = { userId: 'user-1', userType: 'client', tenantId },
+  body: Record<string, unknown> = {}
+) => {
+  const req = { user, body, originalUrl: '/api/v1/client/applications?draft=1' } as unknown as Request;
+  const res = { status: vi.fn().mockReturnThis(), json: vi.fn() };
+  const next = vi.fn();
+
+  await middleware(req, res as unknown as Response, next);
+
+  return { res, next };
+};
+
+describe('requireFeature', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    givenPlan(freePlan);
+  });
+
+  it('lets through features of the plan', async () => {
+    const { next } = await run(requireFeature('workPermit'));
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('rejects features the plan lacks with the plan to upgrade from', async () => {
+    const { res, next } = await run(requireFeature('customBranding'));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({
+      success: false,
+      error: expect.objectContaining({
+        code: 'FEATURE_NOT_IN_PLAN',
+        details: { feature: 'customBranding', plan: 'free' }
+      })
+    });
+  });
+
+  it('checks the feature of the application type in the body', async () => {
+    const allowed = await run(requireFeature(applicationTypeFeature), undefined, { type: 'work_permit' });
+    const denied = await run(requireFeature(applicationTypeFeature), undefined, { type: 'permanent_residence' });
+
+    expect(allowed.next).toHaveBeenCalled();
+    expect(denied.next).not.toHaveBeenCalled();
+    expect(denied.res.json).toHaveBeenCalledWith(expect.objectContaining({
+      error: expect.objectContaining({ details: { feature: 'permanentResidence', plan: 'free' } })
+    }));
+  });
+
+  it('leaves unknown application types to validation', async () => {
+    const { next } = await run(requireFeature(applicationTypeFeature), undefined, { type: 'time_travel' });
+
+    expect(next).toHaveBeenCalled();
+    expect(Tenant.findById).not.toHaveBeenCalled();
+  });
+
+  it('does not restrict users without a tenant', async () => {
+    const { next } = await run(requireFeature('customBranding'), { userId: 'admin-1', userType: 'super_admin' });
+
+    expect(next).toHaveBeenCalled();
+    expect(Tenant.findById).not.toHaveBeenCalled();
+  });
+
+  it('fails closed when the plan cannot be loaded', async () => {
+    vi.spyOn(Tenant, 'findById').mockReturnValue({
+      select: vi.fn().mockRejectedValue(new Error('connection lost'))
+    } as never);
+
+    const { res, next } = await run(requireFeature('workPermit'));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      error: expect.objectContaining({ code: 'PLAN_CHECK_FAILED' })
+    }));
+  });
+});
+
+describe('requireQuota', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    givenPlan(freePlan);
+  });
+
+  it('lets through requests below the monthly limit', async () => {
+    givenUsage(freePlan.limits.apiCallsPerMonth - 1);
+
+    const { next } = await run(requireQuota('apiCallsPerMonth'));
+
+    expect(next).toHaveBeenCalled();
+    expect(UsageMeteringService.getInstance().getCounters).toHaveBeenCalledWith(tenantId, UsageMeteringService.getPeriod());
+  });
+
+  it('rejects API calls once the monthly limit is reached', async () => {
+    givenUsage(freePlan.limits.apiCallsPerMonth);
+
+    const { res, next } = await run(requireQuota('apiCallsPerMonth'));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({
+      success: false,
+      error: expect.objectContaining({
+        code: 'PLAN_LIMIT_EXCEEDED',
+        details: expect.objectContaining({ limit: 'apiCallsPerMonth', max: freePlan.limits.apiCallsPerMonth, plan: 'free' })
+      })
+    });
+  });
+
+  it('counts uploads separately from API calls', async () => {
+    givenUsage(0, freePlan.limits.documentUploadsPerMonth);
+
+    const { res } = await run(requireQuota('documentUploadsPerMonth'));
+
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      error: expect.objectContaining({ details: expect.objectContaining({ limit: 'documentUploadsPerMonth' }) })
+    }));
+  });
+});
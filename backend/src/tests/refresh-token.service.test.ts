@@ -0,0 +1,119 @@
+/**
+ * RefreshTokenService tests
+ * Rotation and replay detection, with the token store mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import crypto from 'crypto';
+import { RefreshToken } from '../models/refresh-token.model';
+import { AuditLog } from '../models/audit-log.model';
+import { RefreshTokenService } from '../features/auth/refresh-token.service';
+import { AuthenticationError } from '../features/auth/types/errors.types';
+import { JWTUtils } from '../utils/auth.utils';
+
+vi.mock('../models/refresh-token.model', () => ({
+  RefreshToken: {
+    findOneAndUpdate: vi.fn(),
+    findOne: vi.fn(),
+    updateMany: vi.fn()
+  }
+}));
+
+vi.mock('../models/audit-log.model', () => ({
+  AuditLog: {
+    create: vi.fn()
+  }
+}));
+
+const context = { ipAddress: '203.0.113.9', userAgent: 'vitest' };
+
+const issueRefreshToken = (jti: string, family: string): string => JWTUtils.generateRefreshToken(
+  { userId: 'user-1', userType: 'client', tenantId: 'tenant-1', email: 'client@example.com', permissions: [] },
+  { jti, family }
+);
+
+describe('RefreshTokenService.consume', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('consumes an unused token once', async () => {
+    const jti = crypto.randomUUID();
+    const family = crypto.randomUUID();
+    const stored = { jti, family, usedAt: new Date(), revokedAt: null };
+    vi.mocked(RefreshToken.findOneAndUpdate).mockResolvedValueOnce(stored);
+
+    await expect(RefreshTokenService.consume(issueRefreshToken(jti, family), context)).resolves.toBe(stored);
+
+    expect(RefreshToken.findOneAndUpdate).toHaveBeenCalledWith(
+      { jti, usedAt: null, revokedAt: null },
+      { $set: { usedAt: expect.any(Date) } },
+      { new: true }
+    );
+    expect(RefreshToken.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('revokes the whole family when a consumed token is replayed', async () => {
+    const jti = crypto.randomUUID();
+    const family = crypto.randomUUID();
+    vi.mocked(RefreshToken.findOneAndUpdate).mockResolvedValueOnce(null);
+    vi.mocked(RefreshToken.findOne).mockResolvedValueOnce({
+      jti,
+      family,
+      userId: 'user-1',
+      userType: 'client',
+      tenantId: 'tenant-1',
+      usedAt: new Date(Date.now() - 60 * 1000),
+      revokedAt: null
+    });
+
+    await expect(RefreshTokenService.consume(issueRefreshToken(jti, family), context))
+      .rejects.toBeInstanceOf(AuthenticationError);
+
+    expect(RefreshToken.updateMany).toHaveBeenCalledWith(
+      { family, revokedAt: null },
+      { $set: { revokedAt: expect.any(Date), revokedReason: 'reuse_detected' } }
+    );
+    expect(AuditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'auth.refresh_token_reuse',
+      resourceId: family,
+      severity: 'high',
+      ipAddress: context.ipAddress
+    }));
+  });
+
+  it('rejects a revoked token without revoking its family again', async () => {
+    const jti = crypto.randomUUID();
+    const family = crypto.randomUUID();
+    vi.mocked(RefreshToken.findOneAndUpdate).mockResolvedValueOnce(null);
+    vi.mocked(RefreshToken.findOne).mockResolvedValueOnce({
+      jti,
+      family,
+      usedAt: new Date(),
+      revokedAt: new Date()
+    });
+
+    await expect(RefreshTokenService.consume(issueRefreshToken(jti, family), context))
+      .rejects.toBeInstanceOf(AuthenticationError);
+
+    expect(RefreshToken.updateMany).not.toHaveBeenCalled();
+    expect(AuditLog.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects an unknown token without revoking anything', async () => {
+    vi.mocked(RefreshToken.findOneAndUpdate).mockResolvedValueOnce(null);
+    vi.mocked(RefreshToken.findOne).mockResolvedValueOnce(null);
+
+    await expect(RefreshTokenService.consume(issueRefreshToken(crypto.randomUUID(), crypto.randomUUID()), context))
+      .rejects.toBeInstanceOf(AuthenticationError);
+
+    expect(RefreshToken.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects a token that does not verify', async () => {
+    await expect(RefreshTokenService.consume('not-a-token', context))
+      .rejects.toBeInstanceOf(AuthenticationError);
+
+    expect(RefreshToken.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
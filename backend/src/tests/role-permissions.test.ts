@@ -0,0 +1,132 @@
+/**
+ * Role and permission tests
+ * Role edits reaching team members, the permission catalog and
+ * requirePermission, with the models mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Role } from '../models/role.model';
+import { TenantTeamMember } from '../models/tenant-team-member.model';
+import PermissionVersionService from '../services/permission-version.service';
+import { RoleService } from '../features/role/role.service';
+import { createRoleSchema } from '../features/role/role.schemas';
+import { RoleInUseError } from '../features/role/errors/role.errors';
+import { requirePermission } from '../middleware/auth.middleware';
+
+vi.mock('../models/role.model', () => ({
+  Role: {
+    findOne: vi.fn(),
+    deleteOne: vi.fn()
+  }
+}));
+
+vi.mock('../models/tenant-team-member.model', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../models/tenant-team-member.model')>(),
+  TenantTeamMember: {
+    find: vi.fn(),
+    updateMany: vi.fn(),
+    countDocuments: vi.fn()
+  }
+}));
+
+const tenantId = new mongoose.Types.ObjectId();
+const roleId = new mongoose.Types.ObjectId();
+
+const storedRole = (permissionsChanged: boolean) => ({
+  _id: roleId,
+  tenantId,
+  name: 'Intake',
+  permissions: ['create_clients'],
+  isModified: vi.fn().mockReturnValue(permissionsChanged),
+  save: vi.fn()
+});
+
+const run = (user: Partial<Request['user']> | undefined, ...permissions: Parameters<typeof requirePermission>) => {
+  const req = { user, originalUrl: '/api/v1/team-member/clients' } as Request;
+  const res = { status: vi.fn().mockReturnThis(), json: vi.fn() };
+  const next = vi.fn();
+
+  requirePermission(...permissions)(req, res as unknown as Response, next);
+
+  return { res, next };
+};
+
+describe('RoleService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(PermissionVersionService.getInstance(), 'bumpAccount').mockResolvedValue(undefined);
+    vi.mocked(TenantTeamMember.countDocuments).mockResolvedValue(0 as never);
+  });
+
+  it('copies new role permissions to its members and invalidates their tokens', async () => {
+    const memberId = new mongoose.Types.ObjectId();
+    vi.mocked(Role.findOne).mockResolvedValueOnce(storedRole(true) as never);
+    vi.mocked(TenantTeamMember.find).mockReturnValueOnce({
+      select: vi.fn().mockResolvedValue([{ _id: memberId }])
+    } as never);
+
+    const role = await RoleService.updateRole(tenantId.toString(), roleId.toString(), {
+      permissions: ['create_clients', 'edit_clients', 'edit_clients']
+    });
+
+    expect(role.permissions).toEqual(['create_clients', 'edit_clients']);
+    expect(TenantTeamMember.updateMany).toHaveBeenCalledWith(
+      { _id: { $in: [memberId] } },
+      { $set: { permissions: ['create_clients', 'edit_clients'] } }
+    );
+    expect(PermissionVersionService.getInstance().bumpAccount).toHaveBeenCalledWith('team_member', memberId.toString());
+  });
+
+  it('leaves members alone when the permissions did not change', async () => {
+    vi.mocked(Role.findOne).mockResolvedValueOnce(storedRole(false) as never);
+
+    await RoleService.updateRole(tenantId.toString(), roleId.toString(), { description: 'New clients' });
+
+    expect(TenantTeamMember.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses to delete a role team members still hold', async () => {
+    vi.mocked(Role.findOne).mockResolvedValueOnce(storedRole(false) as never);
+    vi.mocked(TenantTeamMember.countDocuments).mockResolvedValueOnce(2 as never);
+
+    await expect(RoleService.deleteRole(tenantId.toString(), roleId.toString())).rejects.toBeInstanceOf(RoleInUseError);
+    expect(Role.deleteOne).not.toHaveBeenCalled();
+  });
+
+  it('only accepts permissions from the catalog', () => {
+    const parse = (permissions: string[]) => createRoleSchema.safeParse({ body: { name: 'Intake', permissions } });
+
+    expect(parse(['create_clients']).success).toBe(true);
+    expect(parse(['manage_billing']).success).toBe(false);
+  });
+});
+
+describe('requirePermission', () => {
+  it('allows a user holding one of the permissions', () => {
+    const { next } = run({ userType: 'team_member', permissions: ['edit_clients'] }, 'create_clients', 'edit_clients');
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('denies a user without the permission', () => {
+    const { res, next } = run({ userType: 'team_member', permissions: ['upload_documents'] }, 'create_clients');
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('lets super admins through', () => {
+    const { next } = run({ userType: 'super_admin', permissions: [] }, 'create_clients');
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('requires authentication', () => {
+    const { res, next } = run(undefined, 'create_clients');
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
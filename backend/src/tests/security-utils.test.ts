@@ -0,0 +1,47 @@
+/**
+ * SecurityUtils tests
+ * IP allowlist matching
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SecurityUtils } from '../utils/auth.utils';
+
+describe('SecurityUtils.isIpInRanges', () => {
+  it('matches an IPv4 address inside a CIDR range', () => {
+    expect(SecurityUtils.isIpInRanges('203.0.113.42', ['203.0.113.0/24'])).toBe(true);
+  });
+
+  it('does not match an IPv4 address outside every range', () => {
+    expect(SecurityUtils.isIpInRanges('198.51.100.7', ['203.0.113.0/24', '10.0.0.0/8'])).toBe(false);
+  });
+
+  it('treats a range without prefix as a single address', () => {
+    expect(SecurityUtils.isIpInRanges('192.0.2.10', ['192.0.2.10'])).toBe(true);
+    expect(SecurityUtils.isIpInRanges('192.0.2.11', ['192.0.2.10'])).toBe(false);
+  });
+
+  it('matches IPv4 addresses reported in IPv6 form', () => {
+    expect(SecurityUtils.isIpInRanges('::ffff:203.0.113.5', ['203.0.113.0/24'])).toBe(true);
+  });
+
+  it('matches IPv6 addresses', () => {
+    expect(SecurityUtils.isIpInRanges('2001:db8::1', ['2001:db8::/32'])).toBe(true);
+    expect(SecurityUtils.isIpInRanges('2001:db9::1', ['2001:db8::/32'])).toBe(false);
+  });
+
+  it('ignores malformed ranges', () => {
+    const ranges = ['not-an-ip', '203.0.113.0/33', '203.0.113.0/abc', '10.0.0.0/8/8', '192.0.2.0/24'];
+
+    expect(SecurityUtils.isIpInRanges('203.0.113.1', ranges)).toBe(false);
+    expect(SecurityUtils.isIpInRanges('10.1.2.3', ranges)).toBe(false);
+    expect(SecurityUtils.isIpInRanges('192.0.2.1', ranges)).toBe(true);
+  });
+
+  it('does not match an invalid address', () => {
+    expect(SecurityUtils.isIpInRanges('unknown', ['0.0.0.0/0'])).toBe(false);
+  });
+
+  it('does not match anything when no range is allowed', () => {
+    expect(SecurityUtils.isIpInRanges('203.0.113.42', [])).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Task Automation tests
+ * Follow-up tasks created when an application changes status
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose, { HydratedDocument } from 'mongoose';
+import { Task } from '../models/task.model';
+import { IApplication } from '../models/application.model';
+import { TaskService } from '../features/task/task.service';
+import { getStatusTaskRule } from '../features/task/task.automation';
+
+vi.mock('../models/task.model', () => ({
+  Task: {
+    create: vi.fn()
+  }
+}));
+
+const application = (overrides: Partial<IApplication> = {}) => ({
+  _id: new mongoose.Types.ObjectId(),
+  tenantId: new mongoose.Types.ObjectId(),
+  clientId: new mongoose.Types.ObjectId(),
+  assignedTo: new mongoose.Types.ObjectId(),
+  type: 'work_permit',
+  status: 'submitted',
+  priority: 'medium',
+  ...overrides
+}) as unknown as HydratedDocument<IApplication>;
+
+describe('getStatusTaskRule', () => {
+  it('has no follow-up for a newly created draft', () => {
+    expect(getStatusTaskRule(null, 'draft')).toBeUndefined();
+  });
+
+  it('follows up on an application returned to draft', () => {
+    expect(getStatusTaskRule('in_review', 'draft')).toBeDefined();
+  });
+});
+
+describe('TaskService.createStatusChangeTask', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('creates a task for the assigned team member', async () => {
+    const submitted = application();
+
+    await TaskService.createStatusChangeTask(submitted, 'draft');
+
+    expect(Task.create).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Review submitted work permit application',
+      assignedTo: submitted.assignedTo,
+      applicationId: submitted._id,
+      source: 'status_change',
+      triggerStatus: 'submitted',
+      priority: 'medium'
+    }));
+  });
+
+  it('uses the rule\'s priority over the application\'s', async () => {
+    await TaskService.createStatusChangeTask(application({ status: 'approved', priority: 'low' }), 'in_progress');
+
+    expect(Task.create).toHaveBeenCalledWith(expect.objectContaining({ priority: 'high' }));
+  });
+
+  it('creates nothing for an unassigned application', async () => {
+    await TaskService.createStatusChangeTask(application({ assignedTo: undefined }), 'draft');
+
+    expect(Task.create).not.toHaveBeenCalled();
+  });
+
+  it('does not throw when the task cannot be stored', async () => {
+    vi.mocked(Task.create).mockRejectedValueOnce(new Error('write failed'));
+
+    await expect(TaskService.createStatusChangeTask(application(), 'draft')).resolves.toBeUndefined();
+  });
+});
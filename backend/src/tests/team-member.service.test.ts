@@ -0,0 +1,88 @@
+/**
+ * TeamMemberService tests
+ * Scoping of clients and applications to the team member's assignments, with the models mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import { User } from '../models/user.model';
+import { Application } from '../models/application.model';
+import { ApplicationService } from '../features/application/application.service';
+import { ApplicationNotFoundError } from '../features/application/errors/application.errors';
+import { TeamMemberService } from '../features/team-member/team-member.service';
+import { AssignedClientNotFoundError } from '../features/team-member/errors/team-member.errors';
+
+vi.mock('../models/user.model', () => ({
+  User: {
+    find: vi.fn(),
+    findOne: vi.fn(),
+    exists: vi.fn()
+  }
+}));
+
+vi.mock('../models/application.model', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../models/application.model')>(),
+  Application: {
+    findOne: vi.fn()
+  }
+}));
+
+const tenantId = new mongoose.Types.ObjectId().toString();
+const teamMemberId = new mongoose.Types.ObjectId().toString();
+const clientId = new mongoose.Types.ObjectId();
+const applicationId = new mongoose.Types.ObjectId().toString();
+
+describe('TeamMemberService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(ApplicationService, 'getApplicationsForClients').mockResolvedValue([]);
+    vi.spyOn(ApplicationService, 'createClientApplication').mockResolvedValue({} as never);
+    vi.spyOn(ApplicationService, 'updateClientApplication').mockResolvedValue({} as never);
+  });
+
+  it('hides clients assigned to another team member', async () => {
+    vi.mocked(User.findOne).mockResolvedValueOnce(null);
+
+    await expect(TeamMemberService.updateClient(tenantId, teamMemberId, clientId.toString(), { firstName: 'Ana' }))
+      .rejects.toBeInstanceOf(AssignedClientNotFoundError);
+    expect(User.findOne).toHaveBeenCalledWith(expect.objectContaining({ tenantId, assignedTo: teamMemberId }));
+  });
+
+  it('creates applications as the team member for an assigned client', async () => {
+    vi.mocked(User.findOne).mockResolvedValueOnce({ _id: clientId } as never);
+
+    await TeamMemberService.createApplication(tenantId, teamMemberId, {
+      clientId: clientId.toString(),
+      type: 'work_permit'
+    } as never);
+
+    expect(ApplicationService.createClientApplication).toHaveBeenCalledWith(
+      tenantId,
+      clientId.toString(),
+      expect.objectContaining({ type: 'work_permit' }),
+      { id: teamMemberId, type: 'team_member' }
+    );
+  });
+
+  it('lists only the applications of assigned clients', async () => {
+    vi.mocked(User.find).mockReturnValueOnce({
+      select: vi.fn().mockReturnValue({ lean: vi.fn().mockResolvedValue([{ _id: clientId }]) })
+    } as never);
+
+    await TeamMemberService.getApplications(tenantId, teamMemberId, {} as never);
+
+    expect(User.find).toHaveBeenCalledWith({ tenantId, assignedTo: teamMemberId, deletedAt: null });
+    expect(ApplicationService.getApplicationsForClients).toHaveBeenCalledWith(tenantId, [clientId.toString()], expect.anything());
+  });
+
+  it('reports applications of other team members\' clients as not found', async () => {
+    vi.mocked(Application.findOne).mockReturnValueOnce({
+      select: vi.fn().mockResolvedValue({ clientId })
+    } as never);
+    vi.mocked(User.exists).mockResolvedValueOnce(null);
+
+    await expect(TeamMemberService.updateApplication(tenantId, teamMemberId, applicationId, { priority: 'high' } as never))
+      .rejects.toBeInstanceOf(ApplicationNotFoundError);
+    expect(ApplicationService.updateClientApplication).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tenant Admin client management tests
+ * Client updates, bulk reassignment and deletion, with the models mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose from 'mongoose';
+import { User } from '../models/user.model';
+import { TenantTeamMember } from '../models/tenant-team-member.model';
+import { Application } from '../models/application.model';
+import PermissionVersionService from '../services/permission-version.service';
+import { IdentityService } from '../features/auth/identity.service';
+import { TenantAdminService } from '../features/tenant-admin/tenant-admin.service';
+
+vi.mock('../models/user.model', () => ({
+  User: {
+    findOne: vi.fn(),
+    countDocuments: vi.fn(),
+    updateMany: vi.fn()
+  }
+}));
+
+vi.mock('../models/tenant-team-member.model', () => ({
+  TenantTeamMember: {
+    findOne: vi.fn()
+  }
+}));
+
+vi.mock('../models/application.model', () => ({
+  Application: {
+    updateMany: vi.fn()
+  }
+}));
+
+const tenantId = new mongoose.Types.ObjectId().toString();
+const clientId = new mongoose.Types.ObjectId();
+const teamMemberId = new mongoose.Types.ObjectId();
+
+let storedClientStatusChanged = false;
+
+const storedClient = (assignedTo?: mongoose.Types.ObjectId) => ({
+  _id: clientId,
+  firstName: 'Ana',
+  lastName: 'Silva',
+  profile: {},
+  status: 'active',
+  assignedTo,
+  isModified: vi.fn((field: string) => field === 'status' && storedClientStatusChanged),
+  save: vi.fn()
+});
+
+const givenTeamMember = (isActive = true) => {
+  vi.mocked(TenantTeamMember.findOne).mockResolvedValueOnce({
+    _id: teamMemberId,
+    firstName: 'Rui',
+    lastName: 'Costa',
+    isActive
+  } as never);
+};
+
+describe('TenantAdminService client management', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storedClientStatusChanged = false;
+    vi.spyOn(TenantAdminService, 'getClient').mockResolvedValue(null);
+    vi.spyOn(PermissionVersionService.getInstance(), 'bumpAccount').mockResolvedValue(undefined as never);
+    vi.spyOn(IdentityService, 'unlinkPrincipal').mockResolvedValue(undefined);
+  });
+
+  describe('updateClient', () => {
+    it('assigns the client and its open applications to the team member', async () => {
+      const client = storedClient();
+      vi.mocked(User.findOne).mockResolvedValueOnce(client as never);
+      givenTeamMember();
+
+      await TenantAdminService.updateClient(tenantId, clientId.toString(), { assignedTo: teamMemberId.toString() });
+
+      expect(client.assignedTo).toBe(teamMemberId);
+      expect(Application.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ tenantId, clientId: { $in: [clientId.toString()] } }),
+        { $set: { assignedTo: teamMemberId.toString() } }
+      );
+    });
+
+    it('refuses to assign the client to an inactive team member', async () => {
+      vi.mocked(User.findOne).mockResolvedValueOnce(storedClient() as never);
+      givenTeamMember(false);
+
+      await expect(TenantAdminService.updateClient(tenantId, clientId.toString(), { assignedTo: teamMemberId.toString() }))
+        .rejects.toThrow('Cannot assign client to inactive team member');
+    });
+
+    it('leaves applications alone when the assignment is unchanged', async () => {
+      vi.mocked(User.findOne).mockResolvedValueOnce(storedClient(teamMemberId) as never);
+
+      await TenantAdminService.updateClient(tenantId, clientId.toString(), {
+        assignedTo: teamMemberId.toString(),
+        firstName: 'Ana Maria'
+      });
+
+      expect(TenantTeamMember.findOne).not.toHaveBeenCalled();
+      expect(Application.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('invalidates the client\'s sessions when its status changes', async () => {
+      storedClientStatusChanged = true;
+      vi.mocked(User.findOne).mockResolvedValueOnce(storedClient() as never);
+
+      await TenantAdminService.updateClient(tenantId, clientId.toString(), { status: 'suspended' });
+
+      expect(PermissionVersionService.getInstance().bumpAccount).toHaveBeenCalledWith('client', clientId.toString());
+    });
+  });
+
+  describe('reassignClients', () => {
+    it('rejects the batch when a client is outside the tenant', async () => {
+      givenTeamMember();
+      vi.mocked(User.countDocuments).mockResolvedValueOnce(1);
+
+      await expect(TenantAdminService.reassignClients(
+        tenantId,
+        [clientId.toString(), new mongoose.Types.ObjectId().toString()],
+        teamMemberId.toString()
+      )).rejects.toThrow('One or more clients not found');
+      expect(User.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('unassigns the clients and their open applications', async () => {
+      vi.mocked(User.countDocuments).mockResolvedValueOnce(1);
+      vi.mocked(User.updateMany).mockResolvedValueOnce({ modifiedCount: 1 } as never);
+
+      const result = await TenantAdminService.reassignClients(tenantId, [clientId.toString(), clientId.toString()], null);
+
+      expect(result).toEqual({ reassigned: 1, assignedTo: null, assignedToName: undefined });
+      expect(User.updateMany).toHaveBeenCalledWith(expect.anything(), { $unset: { assignedTo: 1 } });
+      expect(Application.updateMany).toHaveBeenCalledWith(expect.anything(), { $unset: { assignedTo: 1 } });
+    });
+  });
+
+  describe('deleteClient', () => {
+    it('soft deletes the client and releases its identity', async () => {
+      const client = storedClient();
+      vi.mocked(User.findOne).mockResolvedValueOnce(client as never);
+
+      await expect(TenantAdminService.deleteClient(tenantId, clientId.toString())).resolves.toBe(true);
+
+      expect(client.status).toBe('inactive');
+      expect(client.save).toHaveBeenCalled();
+      expect(IdentityService.unlinkPrincipal).toHaveBeenCalledWith('client', clientId.toString());
+    });
+
+    it('reports a client of another tenant as missing', async () => {
+      vi.mocked(User.findOne).mockResolvedValueOnce(null);
+
+      await expect(TenantAdminService.deleteClient(tenantId, clientId.toString())).resolves.toBe(false);
+      expect(IdentityService.unlinkPrincipal).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Tenant Plan Migration tests
+ * Linking legacy tenants to seeded plans and reporting what their plan lacks,
+ * with the tenant collection mocked
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import mongoose, { HydratedDocument } from 'mongoose';
+import { Tenant } from '../models/tenant.model';
+import { ISubscriptionPlan } from '../models/subscription-plan.model';
+import { DEFAULT_SUBSCRIPTION_PLANS } from '../config/subscription-plans.config';
+import { SubscriptionPlanService } from '../features/subscription-plan/subscription-plan.service';
+import { TenantPlanMigration } from '../utils/migrations/tenant-plan-migration';
+
+const plans = new Map(DEFAULT_SUBSCRIPTION_PLANS.map(seed => [
+  seed.slug,
+  { ...seed, _id: new mongoose.Types.ObjectId() } as unknown as HydratedDocument<ISubscriptionPlan>
+]));
+
+const freePlan = plans.get('free')!;
+
+const givenLegacyTenants = (tenants: Record<string, unknown>[]) => {
+  vi.spyOn(Tenant.collection, 'find').mockReturnValueOnce({
+    toArray: vi.fn().mockResolvedValue(tenants.map(tenant => ({ _id: new mongoose.Types.ObjectId(), ...tenant })))
+  } as never);
+};
+
+describe('TenantPlanMigration.getLostFeatures', () => {
+  it('reports enabled subscription features the plan lacks', () => {
+    expect(TenantPlanMigration.getLostFeatures(
+      { workPermit: true, customBranding: true, apiAccess: false },
+      undefined,
+      freePlan
+    )).toEqual(['customBranding']);
+  });
+
+  it('maps granted snake_case settings features onto plan features', () => {
+    expect(TenantPlanMigration.getLostFeatures(
+      undefined,
+      ['visitor_visa', 'advanced_analytics', 'multi_tenant'],
+      freePlan
+    )).toEqual(['advancedAnalytics', 'multi_tenant']);
+  });
+
+  it('reports a feature granted in both places once', () => {
+    expect(TenantPlanMigration.getLostFeatures({ whiteLabel: true }, ['white_label'], freePlan)).toEqual(['whiteLabel']);
+  });
+});
+
+describe('TenantPlanMigration.run', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    TenantPlanMigration.resetForTesting();
+    vi.spyOn(SubscriptionPlanService, 'seedDefaultPlans').mockResolvedValue(plans);
+    vi.spyOn(Tenant.collection, 'updateOne').mockResolvedValue({} as never);
+  });
+
+  it('links each tenant to the plan of its former slug and drops the copies', async () => {
+    givenLegacyTenants([{ plan: 'premium', settings: { maxClients: 10, features: [] } }]);
+
+    await TenantPlanMigration.run();
+
+    expect(Tenant.collection.updateOne).toHaveBeenCalledWith(
+      expect.anything(),
+      {
+        $set: { planId: plans.get('premium')!._id },
+        $unset: expect.objectContaining({ plan: '', 'settings.maxClients': '', 'subscription.features': '' })
+      }
+    );
+  });
+
+  it('falls back to the default plan for an unknown slug', async () => {
+    givenLegacyTenants([{ plan: 'legacy-gold' }]);
+
+    await TenantPlanMigration.run();
+
+    expect(Tenant.collection.updateOne).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ $set: { planId: plans.get('basic')!._id } })
+    );
+  });
+
+  it('seeds no plans when every tenant already has one', async () => {
+    givenLegacyTenants([]);
+
+    await TenantPlanMigration.run();
+
+    expect(SubscriptionPlanService.seedDefaultPlans).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * TokenDenylistService tests
+ * Runs against the in-memory fallback of RedisService
+ */
+
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import TokenDenylistService from '../services/token-denylist.service';
+
+const nowSeconds = (): number => Math.floor(Date.now() / 1000);
+
+describe('TokenDenylistService.isRevoked', () => {
+  const denylist = TokenDenylistService.getInstance();
+
+  it('does not report a token nothing revoked', async () => {
+    const token = { jti: crypto.randomUUID(), iat: nowSeconds(), userType: 'client', userId: crypto.randomUUID() };
+
+    expect(await denylist.isRevoked(token)).toBe(false);
+  });
+
+  it('reports a token revoked by jti', async () => {
+    const jti = crypto.randomUUID();
+    await denylist.revokeToken(jti, nowSeconds() + 60);
+
+    expect(await denylist.isRevoked({ jti, iat: nowSeconds(), userType: 'client', userId: 'user-1' })).toBe(true);
+    expect(await denylist.isRevoked({ jti: crypto.randomUUID(), iat: nowSeconds(), userType: 'client', userId: 'user-1' })).toBe(false);
+  });
+
+  it('ignores revoking a token that has already expired', async () => {
+    const jti = crypto.randomUUID();
+    await denylist.revokeToken(jti, nowSeconds() - 1);
+
+    expect(await denylist.isRevoked({ jti, iat: nowSeconds() - 120, userType: 'client', userId: 'user-1' })).toBe(false);
+  });
+
+  it('reports tokens of an account issued before it was revoked', async () => {
+    const userId = crypto.randomUUID();
+    await denylist.revokeAllForAccount('team_member', userId);
+
+    expect(await denylist.isRevoked({ jti: crypto.randomUUID(), iat: nowSeconds() - 60, userType: 'team_member', userId })).toBe(true);
+  });
+
+  it('does not report tokens issued after the account was revoked', async () => {
+    const userId = crypto.randomUUID();
+    await denylist.revokeAllForAccount('team_member', userId);
+
+    expect(await denylist.isRevoked({ jti: crypto.randomUUID(), iat: nowSeconds() + 1, userType: 'team_member', userId })).toBe(false);
+  });
+
+  it('keeps accounts apart', async () => {
+    const userId = crypto.randomUUID();
+    await denylist.revokeAllForAccount('tenant_admin', userId);
+    const token = { jti: crypto.randomUUID(), iat: nowSeconds() - 60, userId };
+
+    expect(await denylist.isRevoked({ ...token, userType: 'client' })).toBe(false);
+    expect(await denylist.isRevoked({ ...token, userId: crypto.randomUUID(), userType: 'tenant_admin' })).toBe(false);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * UsageMeteringService tests
+ * Billing periods, counting in Redis and flushing to UsageRecord, with the
+ * models mocked and Redis on its in-memory fallback
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import mongoose from 'mongoose';
+import { Tenant } from '../models/tenant.model';
+import { UsageRecord } from '../models/usage-record.model';
+import UsageMeteringService from '../services/usage-metering.service';
+
+vi.mock('../models/usage-record.model', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../models/usage-record.model')>(),
+  UsageRecord: {
+    findOne: vi.fn(),
+    updateOne: vi.fn()
+  }
+}));
+
+const metering = UsageMeteringService.getInstance();
+const gauges = { storageBytes: 2048, activeClients: 12, seats: 3 };
+
+const givenFlushedCounters = (counters: Record<string, number> | null) => {
+  vi.mocked(UsageRecord.findOne).mockReturnValueOnce({
+    select: vi.fn().mockReturnValue({ lean: vi.fn().mockResolvedValue(counters) })
+  } as never);
+};
+
+const givenTenants = (...tenantIds: string[]) => {
+  vi.spyOn(Tenant, 'find').mockReturnValue({
+    select: vi.fn().mockReturnValue({
+      lean: vi.fn().mockResolvedValue(tenantIds.map(id => ({ _id: new mongoose.Types.ObjectId(id) })))
+    })
+  } as never);
+};
+
+describe('UsageMeteringService periods', () => {
+  it('names the calendar month in UTC', () => {
+    expect(UsageMeteringService.getPeriod(new Date('2026-03-31T23:30:00-05:00'))).toBe('2026-04');
+    expect(UsageMeteringService.getPeriod(new Date('2026-11-15T12:00:00Z'))).toBe('2026-11');
+  });
+
+  it('bounds a period from its first day to the next month', () => {
+    expect(UsageMeteringService.getPeriodBounds('2026-12')).toEqual({
+      start: new Date('2026-12-01T00:00:00Z'),
+      end: new Date('2027-01-01T00:00:00Z')
+    });
+  });
+});
+
+describe('UsageMeteringService counters', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('counts each call in the current period', async () => {
+    const tenantId = new mongoose.Types.ObjectId().toString();
+
+    await metering.record(tenantId, 'apiCalls');
+    await metering.record(tenantId, 'apiCalls');
+    await metering.record(tenantId, 'documentUploads');
+
+    await expect(metering.getLiveCounters(tenantId, UsageMeteringService.getPeriod()))
+      .resolves.toEqual({ apiCalls: 2, documentUploads: 1 });
+  });
+
+  it('keeps the flushed counts when Redis lost them', async () => {
+    const tenantId = new mongoose.Types.ObjectId().toString();
+    await metering.record(tenantId, 'apiCalls');
+    givenFlushedCounters({ apiCalls: 150, documentUploads: 4 });
+
+    await expect(metering.getCounters(tenantId, UsageMeteringService.getPeriod()))
+      .resolves.toEqual({ apiCalls: 150, documentUploads: 4 });
+  });
+
+  it('starts from zero without a flushed record', async () => {
+    givenFlushedCounters(null);
+
+    await expect(metering.getCounters(new mongoose.Types.ObjectId().toString(), UsageMeteringService.getPeriod()))
+      .resolves.toEqual({ apiCalls: 0, documentUploads: 0 });
+  });
+});
+
+describe('UsageMeteringService.flush', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(UsageRecord.updateOne).mockClear();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.spyOn(metering, 'measureGauges').mockResolvedValue(gauges);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('writes the period\'s counters and gauges, and closes the previous period once', async () => {
+    const tenantId = new mongoose.Types.ObjectId().toString();
+    givenTenants(tenantId);
+    vi.setSystemTime(new Date('2031-01-31T23:59:00Z'));
+    await metering.record(tenantId, 'apiCalls');
+    await metering.record(tenantId, 'apiCalls');
+    vi.setSystemTime(new Date('2031-02-01T00:05:00Z'));
+    await metering.record(tenantId, 'documentUploads');
+
+    await metering.flush();
+
+    expect(vi.mocked(UsageRecord.updateOne).mock.calls).toEqual([
+      [
+        { tenantId: new mongoose.Types.ObjectId(tenantId), period: '2031-01' },
+        {
+          $max: { apiCalls: 2, documentUploads: 0 },
+          $set: { flushedAt: new Date('2031-02-01T00:05:00Z') },
+          $setOnInsert: { periodStart: new Date('2031-01-01T00:00:00Z'), periodEnd: new Date('2031-02-01T00:00:00Z') }
+        },
+        { upsert: true }
+      ],
+      [
+        { tenantId: new mongoose.Types.ObjectId(tenantId), period: '2031-02' },
+        {
+          $max: { apiCalls: 0, documentUploads: 1 },
+          $set: { ...gauges, flushedAt: new Date('2031-02-01T00:05:00Z') },
+          $setOnInsert: { periodStart: new Date('2031-02-01T00:00:00Z'), periodEnd: new Date('2031-03-01T00:00:00Z') }
+        },
+        { upsert: true }
+      ]
+    ]);
+
+    vi.mocked(UsageRecord.updateOne).mockClear();
+    await metering.flush();
+
+    expect(UsageRecord.updateOne).toHaveBeenCalledTimes(1);
+    expect(UsageRecord.updateOne).toHaveBeenCalledWith(expect.objectContaining({ period: '2031-02' }), expect.anything(), expect.anything());
+  });
+
+  it('carries on with the other tenants when one fails', async () => {
+    const failing = new mongoose.Types.ObjectId().toString();
+    const healthy = new mongoose.Types.ObjectId().toString();
+    givenTenants(failing, healthy);
+    vi.setSystemTime(new Date('2031-02-10T12:00:00Z'));
+    vi.mocked(UsageRecord.updateOne).mockRejectedValueOnce(new Error('write conflict'));
+
+    await metering.flush();
+
+    expect(UsageRecord.updateOne).toHaveBeenLastCalledWith(
+      expect.objectContaining({ tenantId: new mongoose.Types.ObjectId(healthy) }),
+      expect.anything(),
+      expect.anything()
+    );
+  });
+});
@@ -1,7 +1,9 @@
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
+import net from 'net';
 import { config } from '../config/env.config';
+import { DEFAULT_SECURITY_POLICY, SecurityPolicy } from '../config/security-policy.config';
 
 /**
  * Password utilities
@@ -23,31 +25,31 @@ export class PasswordUtils {
   }
 
   /**
-   * Validate password strength
+   * Validate password strength against a tenant security policy
    */
-  static validatePasswordStrength(password: string): {
+  static validatePasswordStrength(password: string, policy: SecurityPolicy = DEFAULT_SECURITY_POLICY): {
     isValid: boolean;
     errors: string[];
   } {
     const errors: string[] = [];
 
-    if (password.length < 8) {
-      errors.push('Password must be at least 8 characters long');
+    if (password.length < policy.passwordMinLength) {
+      errors.push(`Password must be at least ${policy.passwordMinLength} characters long`);
     }
 
-    if (!/[A-Z]/.test(password)) {
+    if (policy.passwordRequireUppercase && !/[A-Z]/.test(password)) {
       errors.push('Password must contain at least one uppercase letter');
     }
 
-    if (!/[a-z]/.test(password)) {
+    if (policy.passwordRequireLowercase && !/[a-z]/.test(password)) {
       errors.push('Password must contain at least one lowercase letter');
     }
 
-    if (!/\d/.test(password)) {
+    if (policy.passwordRequireNumber && !/\d/.test(password)) {
       errors.push('Password must contain at least one number');
     }
 
-    if (!/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(password)) {
+    if (policy.passwordRequireSymbol && !/[^a-zA-Z0-9]/.test(password)) {
       errors.push('Password must contain at least one special character');
     }
 
@@ -72,12 +74,17 @@ export class PasswordUtils {
   }
 }
 
+const MFA_ENROLLMENT_AUDIENCE = 'canadian-immigration-portal:mfa-enrollment';
+
 /**
  * JWT utilities
  */
 export class JWTUtils {
   /**
    * Generate access token
+   * Each token carries a unique jti so it can be denylisted on logout, and the
+   * principal's permission version (pv) so permission changes take effect at once.
+   * The session id (sid) is the refresh token family, used to track idle sessions
    */
   static generateAccessToken(payload: {
     userId: string;
@@ -85,62 +92,90 @@ export class JWTUtils {
     tenantId?: string;
     email: string;
     permissions: string[];
-  }): string {
+    permissionVersion: number;
+  }, sessionId?: string): string {
     const tokenPayload = {
       userId: payload.userId,
       userType: payload.userType,
       email: payload.email,
       permissions: payload.permissions,
-      ...(payload.tenantId && { tenantId: payload.tenantId })
+      pv: payload.permissionVersion,
+      ...(payload.tenantId && { tenantId: payload.tenantId }),
+      ...(sessionId && { sid: sessionId })
     };
 
     return jwt.sign(tokenPayload, config.JWT_SECRET, {
       expiresIn: config.JWT_EXPIRE,
       issuer: 'canadian-immigration-portal',
-      audience: 'canadian-immigration-portal'
+      audience: 'canadian-immigration-portal',
+      jwtid: crypto.randomUUID()
     } as jwt.SignOptions);
   }
 
   /**
-   * Generate refresh token
+   * Generate impersonation access token
+   * Signed in as the target account; impersonatedBy names the real user and
+   * readOnly limits the session to reads. There is no refresh token, so the
+   * session ends when this token expires.
    */
-  static generateRefreshToken(payload: {
+  static generateImpersonationToken(payload: {
     userId: string;
     userType: string;
     tenantId?: string;
     email: string;
     permissions: string[];
+    permissionVersion: number;
+  }, impersonation: {
+    impersonatedBy: { userId: string; userType: string; email: string };
+    readOnly: boolean;
+    expiresInSeconds: number;
   }): string {
     const tokenPayload = {
       userId: payload.userId,
       userType: payload.userType,
       email: payload.email,
       permissions: payload.permissions,
-      type: 'refresh',
+      pv: payload.permissionVersion,
+      impersonatedBy: impersonation.impersonatedBy,
+      readOnly: impersonation.readOnly,
       ...(payload.tenantId && { tenantId: payload.tenantId })
     };
 
-    return jwt.sign(tokenPayload, config.JWT_REFRESH_SECRET, {
-      expiresIn: config.JWT_REFRESH_EXPIRE,
+    return jwt.sign(tokenPayload, config.JWT_SECRET, {
+      expiresIn: impersonation.expiresInSeconds,
       issuer: 'canadian-immigration-portal',
-      audience: 'canadian-immigration-portal'
+      audience: 'canadian-immigration-portal',
+      jwtid: crypto.randomUUID()
     } as jwt.SignOptions);
   }
 
   /**
-   * Generate both access and refresh tokens
+   * Generate refresh token
+   * jti and family must be recorded server-side (see RefreshTokenService)
    */
-  static generateTokens(payload: {
+  static generateRefreshToken(payload: {
     userId: string;
     userType: string;
     tenantId?: string;
     email: string;
     permissions: string[];
-  }): { accessToken: string; refreshToken: string } {
-    const accessToken = this.generateAccessToken(payload);
-    const refreshToken = this.generateRefreshToken(payload);
+  }, tracking: { jti: string; family: string }): string {
+    const tokenPayload = {
+      userId: payload.userId,
+      userType: payload.userType,
+      email: payload.email,
+      permissions: payload.permissions,
+      type: 'refresh',
+      family: tracking.family,
+      ...(payload.tenantId && { tenantId: payload.tenantId })
+    };
 
-    return { accessToken, refreshToken };
+    return jwt.sign(tokenPayload, config.JWT_REFRESH_SECRET, {
+      expiresIn: config.JWT_REFRESH_EXPIRE,
+      issuer: 'canadian-immigration-portal',
+      audience: 'canadian-immigration-portal',
+      jwtid: tracking.jti
+    } as jwt.SignOptions);
   }
 
   /**
@@ -185,6 +220,44 @@ export class JWTUtils {
     }
   }
 
+  /**
+   * Generate MFA enrollment token
+   * Short-lived and issued for a separate audience, so it can only be used to
+   * enroll a second factor and never as an access token
+   */
+  static generateMfaEnrollmentToken(payload: {
+    accountType: string;
+    accountId: string;
+    tenantId?: string;
+    email: string;
+  }): string {
+    return jwt.sign({ ...payload, type: 'mfa_enrollment' }, config.JWT_SECRET, {
+      expiresIn: '10m',
+      issuer: 'canadian-immigration-portal',
+      audience: MFA_ENROLLMENT_AUDIENCE
+    } as jwt.SignOptions);
+  }
+
+  /**
+   * Verify MFA enrollment token
+   */
+  static verifyMfaEnrollmentToken(token: string): jwt.JwtPayload {
+    try {
+      const decoded = jwt.verify(token, config.JWT_SECRET, {
+        issuer: 'canadian-immigration-portal',
+        audience: MFA_ENROLLMENT_AUDIENCE
+      });
+
+      if (typeof decoded === 'string' || decoded.type !== 'mfa_enrollment') {
+        throw new Error('Invalid token format');
+      }
+
+      return decoded;
+    } catch (error) {
+      throw new Error('Invalid enrollment token');
+    }
+  }
+
   /**
    * Decode token without verification (for debugging)
    */
@@ -222,6 +295,14 @@ export class TokenUtils {
     return this.generateRandomToken(32);
   }
 
+  /**
+   * Hash a single-use token for storage
+   * Only the hash is persisted; the raw token is sent to the user
+   */
+  static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
   /**
    * Generate MFA backup codes
    */
@@ -302,4 +383,52 @@ export class SecurityUtils {
   static hashSensitiveData(data: string): string {
     return crypto.createHash('sha256').update(data).digest('hex');
   }
+
+  /**
+   * Validate an IP range in CIDR notation; a bare address is a single-host range
+   */
+  static isValidCidr(range: string): boolean {
+    return this.parseCidr(range) !== null;
+  }
+
+  /**
+   * Check whether an IP address falls within any of the given CIDR ranges
+   * IPv4 addresses reported in IPv6 form (::ffff:203.0.113.5) are matched as IPv4
+   */
+  static isIpInRanges(ip: string, ranges: string[]): boolean {
+    const address = ip.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+    const family = net.isIP(address);
+    if (family === 0) {
+      return false;
+    }
+
+    const blockList = new net.BlockList();
+    for (const range of ranges) {
+      const parsed = this.parseCidr(range);
+      if (parsed) {
+        blockList.addSubnet(parsed.address, parsed.prefix, parsed.type);
+      }
+    }
+
+    return blockList.check(address, family === 4 ? 'ipv4' : 'ipv6');
+  }
+
+  /**
+   * Helper: Split a CIDR range into address, prefix length and family
+   */
+  private static parseCidr(range: string): { address: string; prefix: number; type: 'ipv4' | 'ipv6' } | null {
+    const [address, prefixText, ...rest] = range.trim().split('/');
+    const family = net.isIP(address);
+    if (family === 0 || rest.length > 0) {
+      return null;
+    }
+
+    const maxPrefix = family === 4 ? 32 : 128;
+    const prefix = prefixText === undefined ? maxPrefix : Number(prefixText);
+    if (!/^\d+$/.test(prefixText ?? String(maxPrefix)) || prefix > maxPrefix) {
+      return null;
+    }
+
+    return { address, prefix, type: family === 4 ? 'ipv4' : 'ipv6' };
+  }
 }
@@ -0,0 +1,79 @@
+/**
+ * Retired Permission Migration
+ * Removes permission keys that no route checks from team members and roles
+ *
+ * The permission catalog used to offer keys such as view_clients and
+ * manage_team that nothing enforced. They are no longer grantable; stored
+ * copies are pulled so the role editor and team member lists only show
+ * permissions that change what someone can do.
+ */
+
+import { TenantTeamMember } from '../../models/tenant-team-member.model';
+import { Role } from '../../models/role.model';
+import logger from '../logger';
+
+const RETIRED_PERMISSIONS = [
+  'view_clients',
+  'delete_clients',
+  'view_applications',
+  'delete_applications',
+  'download_documents',
+  'view_reports',
+  'manage_team',
+  'manage_settings'
+];
+
+export class RetiredPermissionMigration {
+  private static migrationCompleted = false;
+
+  /**
+   * Run retired permission migration once
+   * Safe to call multiple times - only executes once per app lifecycle
+   */
+  static async run(): Promise<void> {
+    // Skip if already run in this app lifecycle
+    if (this.migrationCompleted) {
+      return;
+    }
+
+    try {
+      const filter = { permissions: { $in: RETIRED_PERMISSIONS } };
+      const update = { $pull: { permissions: { $in: RETIRED_PERMISSIONS } } };
+
+      const [members, roles] = await Promise.all([
+        TenantTeamMember.updateMany(filter, update),
+        Role.updateMany(filter, update)
+      ]);
+
+      if (members.modifiedCount > 0 || roles.modifiedCount > 0) {
+        logger.info('Retired permission migration: Unenforced permissions removed', {
+          teamMembers: members.modifiedCount,
+          roles: roles.modifiedCount
+        });
+      } else {
+        logger.info('Retired permission migration: No retired permissions found, skipping migration');
+      }
+
+      // Mark migration as completed
+      this.migrationCompleted = true;
+
+    } catch (error) {
+      // Log error but don't crash the application
+      logger.error('Retired permission migration failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        note: 'Team members or roles still holding retired permissions fail validation when saved'
+      });
+
+      // Mark as completed to prevent retry loops
+      this.migrationCompleted = true;
+    }
+  }
+
+  /**
+   * Reset migration flag (for testing purposes only)
+   * @internal
+   */
+  static resetForTesting(): void {
+    this.migrationCompleted = false;
+  }
+}
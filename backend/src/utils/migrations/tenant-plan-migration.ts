@@ -0,0 +1,163 @@
+/**
+ * Tenant Plan Migration
+ * Links tenants created before plans became documents to a SubscriptionPlan
+ *
+ * Tenants used to carry a plan name ('free' | 'basic' | 'premium' |
+ * 'enterprise') plus their own copy of the limits and features. Each of them
+ * is pointed at the seeded plan of the same slug and the copies are removed;
+ * the plan is the only source of limits and features from then on. Tenants
+ * whose old limits were higher than their plan's, or that had features their
+ * plan lacks, are logged with the removed values so a super admin can move
+ * them to a larger plan.
+ *
+ * Default plans are only seeded when there is a tenant to migrate, so plans a
+ * super admin deleted are not brought back on every start.
+ */
+
+import { Tenant } from '../../models/tenant.model';
+import { ISubscriptionPlan } from '../../models/subscription-plan.model';
+import { DEFAULT_PLAN_SLUG } from '../../config/subscription-plans.config';
+import { SubscriptionPlanService } from '../../features/subscription-plan/subscription-plan.service';
+import logger from '../logger';
+
+// Per-tenant copies of plan data that the plan now provides
+const LEGACY_FIELDS = [
+  'plan',
+  'subscription.plan',
+  'subscription.maxTeamMembers',
+  'subscription.maxClients',
+  'subscription.features',
+  'settings.maxTeamMembers',
+  'settings.maxClients',
+  'settings.maxStorage',
+  'settings.features'
+];
+
+// Limits that were stored on the tenant as well as the plan
+const LEGACY_LIMITS: (keyof ISubscriptionPlan['limits'])[] = ['maxTeamMembers', 'maxClients', 'maxStorage'];
+
+type PlanFeature = keyof ISubscriptionPlan['features'];
+
+export class TenantPlanMigration {
+  private static migrationCompleted = false;
+
+  /**
+   * Run tenant plan migration once
+   * Safe to call multiple times - only executes once per app lifecycle
+   */
+  static async run(): Promise<void> {
+    // Skip if already run in this app lifecycle
+    if (this.migrationCompleted) {
+      return;
+    }
+
+    try {
+      const tenants = await Tenant.collection.find({ planId: { $exists: false } }).toArray();
+
+      if (tenants.length === 0) {
+        logger.info('Tenant plan migration: All tenants have a plan, skipping migration');
+        this.migrationCompleted = true;
+        return;
+      }
+
+      const plans = await SubscriptionPlanService.seedDefaultPlans();
+
+      for (const tenant of tenants) {
+        const slug = String(tenant.plan ?? tenant.subscription?.plan ?? DEFAULT_PLAN_SLUG);
+        const plan = plans.get(slug) ?? plans.get(DEFAULT_PLAN_SLUG);
+        if (!plan) {
+          continue;
+        }
+
+        const reducedLimits = LEGACY_LIMITS.filter(limit => {
+          const previous = tenant.settings?.[limit];
+          return typeof previous === 'number' && previous > plan.limits[limit];
+        });
+        if (reducedLimits.length > 0) {
+          logger.warn('Tenant plan migration: Plan limits are lower than the tenant\'s previous limits', {
+            tenantId: tenant._id.toString(),
+            plan: plan.slug,
+            limits: reducedLimits
+          });
+        }
+
+        const lostFeatures = this.getLostFeatures(tenant.subscription?.features, tenant.settings?.features, plan);
+        if (lostFeatures.length > 0) {
+          logger.warn('Tenant plan migration: Plan lacks features the tenant had', {
+            tenantId: tenant._id.toString(),
+            plan: plan.slug,
+            features: lostFeatures,
+            removedFeatures: {
+              subscription: tenant.subscription?.features,
+              settings: tenant.settings?.features
+            }
+          });
+        }
+
+        await Tenant.collection.updateOne(
+          { _id: tenant._id },
+          {
+            $set: { planId: plan._id },
+            $unset: Object.fromEntries(LEGACY_FIELDS.map(field => [field, '']))
+          }
+        );
+      }
+
+      logger.info(`Tenant plan migration: ${tenants.length} tenant(s) linked to subscription plans`);
+
+      // Mark migration as completed
+      this.migrationCompleted = true;
+
+    } catch (error) {
+      // Log error but don't crash the application
+      logger.error('Tenant plan migration failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        note: 'Tenants without a plan cannot add team members, clients or documents until the migration completes'
+      });
+
+      // Mark as completed to prevent retry loops
+      this.migrationCompleted = true;
+    }
+  }
+
+  /**
+   * Features the tenant had (enabled flags in subscription.features, granted
+   * keys in settings.features) that the plan does not include
+   * Granted keys without a plan feature (e.g. multi_tenant) are reported as is
+   */
+  static getLostFeatures(
+    subscriptionFeatures: unknown,
+    settingsFeatures: unknown,
+    plan: Pick<ISubscriptionPlan, 'features'>
+  ): string[] {
+    const lost = new Set<string>();
+
+    if (subscriptionFeatures && typeof subscriptionFeatures === 'object') {
+      for (const [feature, enabled] of Object.entries(subscriptionFeatures)) {
+        if (enabled === true && !plan.features[feature as PlanFeature]) {
+          lost.add(feature);
+        }
+      }
+    }
+
+    if (Array.isArray(settingsFeatures)) {
+      for (const granted of settingsFeatures) {
+        // Stored as snake_case (custom_branding); plan features are camelCase
+        const feature = String(granted).replace(/_([a-z])/g, (_match, letter: string) => letter.toUpperCase());
+        if (!plan.features[feature as PlanFeature]) {
+          lost.add(feature in plan.features ? feature : String(granted));
+        }
+      }
+    }
+
+    return [...lost];
+  }
+
+  /**
+   * Reset migration flag (for testing purposes only)
+   * @internal
+   */
+  static resetForTesting(): void {
+    this.migrationCompleted = false;
+  }
+}
@@ -69,14 +69,13 @@ const secureEmailSchema = z.string()
 
 /**
  * Strong password validator
- * Requires: 8+ chars, uppercase, lowercase, number, special character
+ * Platform-wide bounds only; length and complexity rules come from the
+ * tenant's security policy and are checked when the password is stored
+ * (see IdentityService)
  */
 const strongPasswordSchema = z.string()
   .min(8, 'Password must be at least 8 characters')
-  .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-  .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-  .regex(/[0-9]/, 'Password must contain at least one number')
-  .regex(/[^a-zA-Z0-9]/, 'Password must contain at least one special character');
+  .max(128, 'Password must not exceed 128 characters');
 
 /**
  * MongoDB ObjectId validator
@@ -0,0 +1,20 @@
+import { defineConfig } from 'vitest/config';
+
+/**
+ * Vitest configuration
+ * Unit tests run without MongoDB or Redis; the secrets below only satisfy
+ * the required variables of env.config
+ */
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    env: {
+      NODE_ENV: 'test',
+      JWT_SECRET: 'test-jwt-secret',
+      JWT_REFRESH_SECRET: 'test-jwt-refresh-secret',
+      SESSION_SECRET: 'test-session-secret',
+      MONGODB_URI: 'mongodb://localhost:27017/test'
+    }
+  }
+});
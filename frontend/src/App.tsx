@@ -47,6 +47,7 @@ import AssignedClientsPage from './pages/team-member/AssignedClientsPage';
 import TasksPage from './pages/team-member/TasksPage';
 import TeamMemberProfilePage from './pages/team-member/ProfilePage';
 import TeamMemberDocumentsPage from './pages/team-member/DocumentsPage';
+import TeamMemberMessagesPage from './pages/team-member/MessagesPage';
 
 // Client Pages
 import MyApplicationsPage from './pages/client/MyApplicationsPage';
@@ -281,6 +282,14 @@ const App: React.FC = () => {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/team-member/messages"
+              element={
+                <ProtectedRoute>
+                  <TeamMemberMessagesPage />
+                </ProtectedRoute>
+              }
+            />
 
             {/* Client Pages */}
             <Route
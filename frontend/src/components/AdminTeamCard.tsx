@@ -0,0 +1,240 @@
+/**
+ * Admin Team Card
+ * Lists the organization's admins; the owner invites and removes admins
+ * and can hand ownership to another admin
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 3: XSS prevention (DOMPurify sanitization)
+ * - Rule 4: Race conditions (prevent concurrent calls)
+ * - Rule 9: TypeScript strict (no 'any')
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import DOMPurify from 'dompurify';
+import { UserGroupIcon } from '@heroicons/react/24/outline';
+import { TenantAdminService, TenantAdminAccount, InviteAdminInput } from '../services/tenant-admin.service';
+import { useAuthStore } from '../stores/auth-store';
+import { useToast } from '../contexts/ToastContext';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 transition-colors';
+
+const EMPTY_INVITE: InviteAdminInput = { email: '', firstName: '', lastName: '' };
+
+/**
+ * Admin Team Card Component
+ */
+export const AdminTeamCard: React.FC = () => {
+  const { user, setUser, logout } = useAuthStore();
+  const { showSuccess, showError } = useToast();
+  const [admins, setAdmins] = useState<TenantAdminAccount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [invite, setInvite] = useState<InviteAdminInput>(EMPTY_INVITE);
+
+  const isOwner = admins.some(admin => admin.id === user?.id && admin.isOwner);
+
+  const loadAdmins = useCallback(async () => {
+    setIsLoading(true);
+    const response = await TenantAdminService.getAdmins();
+
+    if (response.success && response.data) {
+      setAdmins(response.data.admins);
+    } else {
+      showError('Failed to Load Admins', response.error?.message || 'Could not load the admins of your organization');
+    }
+    setIsLoading(false);
+  }, [showError]);
+
+  useEffect(() => {
+    loadAdmins();
+  }, [loadAdmins]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Prevent concurrent submissions - CORE-CRITICAL Rule 4
+    if (isSubmitting) return;
+
+    try {
+      setIsSubmitting(true);
+      const response = await TenantAdminService.inviteAdmin(invite);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to invite admin');
+      }
+
+      setInvite(EMPTY_INVITE);
+      showSuccess('Invitation Sent', `${response.data.admin.email} will receive an email to join as an admin.`);
+      await loadAdmins();
+    } catch (err) {
+      showError('Failed to Invite', err instanceof Error ? err.message : 'Failed to invite admin');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRemove = async (admin: TenantAdminAccount) => {
+    const isSelf = admin.id === user?.id;
+    const question = isSelf
+      ? 'Are you sure you want to stop being an admin of this organization? You will be signed out.'
+      : `Are you sure you want to remove admin "${admin.firstName} ${admin.lastName}"?`;
+
+    // Prevent concurrent submissions - CORE-CRITICAL Rule 4
+    if (isSubmitting || !window.confirm(question)) return;
+
+    try {
+      setIsSubmitting(true);
+      const response = await TenantAdminService.removeAdmin(admin.id);
+
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to remove admin');
+      }
+
+      if (isSelf) {
+        await logout();
+        return;
+      }
+
+      showSuccess('Admin Removed', `${admin.email} can no longer sign in as an admin.`);
+      await loadAdmins();
+    } catch (err) {
+      showError('Failed to Remove', err instanceof Error ? err.message : 'Failed to remove admin');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleTransferOwnership = async (admin: TenantAdminAccount) => {
+    const question = `Make "${admin.firstName} ${admin.lastName}" the owner? You will stay an admin but can no longer manage other admins.`;
+
+    // Prevent concurrent submissions - CORE-CRITICAL Rule 4
+    if (isSubmitting || !window.confirm(question)) return;
+
+    try {
+      setIsSubmitting(true);
+      const response = await TenantAdminService.transferOwnership(admin.id);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to transfer ownership');
+      }
+
+      setAdmins(response.data.admins);
+      if (user) {
+        setUser({ ...user, isOwner: false });
+      }
+      showSuccess('Ownership Transferred', `${admin.email} is now the owner of your organization.`);
+    } catch (err) {
+      showError('Failed to Transfer', err instanceof Error ? err.message : 'Failed to transfer ownership');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const isInviteValid = invite.email.trim() !== '' && invite.firstName.trim() !== '' && invite.lastName.trim() !== '';
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <UserGroupIcon className="h-5 w-5 text-gray-500" />
+        <h2 className="text-base font-semibold text-gray-900">Administrators</h2>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Everyone who manages your organization signs in with their own account
+      </p>
+
+      {isLoading && admins.length === 0 ? (
+        <p className="text-sm text-gray-600 py-4">Loading...</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {admins.map(admin => {
+            const isSelf = admin.id === user?.id;
+
+            return (
+              <li key={admin.id} className="flex items-center justify-between gap-4 px-3 py-2.5">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {DOMPurify.sanitize(`${admin.firstName} ${admin.lastName}`)}
+                    {isSelf && <span className="text-gray-500 font-normal"> (you)</span>}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {DOMPurify.sanitize(admin.email)}
+                    {!admin.emailVerified && ' · Invitation pending'}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-2 shrink-0">
+                  {admin.isOwner && (
+                    <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-primary-100 text-primary-700">
+                      Owner
+                    </span>
+                  )}
+                  {isOwner && !admin.isOwner && (
+                    <button
+                      type="button"
+                      onClick={() => handleTransferOwnership(admin)}
+                      disabled={isSubmitting}
+                      className="px-3 py-1 text-xs font-medium border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    >
+                      Make Owner
+                    </button>
+                  )}
+                  {!admin.isOwner && (isOwner || isSelf) && (
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(admin)}
+                      disabled={isSubmitting}
+                      className="px-3 py-1 text-xs font-medium text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                    >
+                      {isSelf ? 'Leave' : 'Remove'}
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {isOwner && (
+        <form onSubmit={handleInvite} className="mt-4">
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Invite an admin</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              type="text"
+              aria-label="First name"
+              maxLength={50}
+              value={invite.firstName}
+              onChange={(e) => setInvite({ ...invite, firstName: e.target.value })}
+              className={inputClassName}
+              placeholder="First name"
+            />
+            <input
+              type="text"
+              aria-label="Last name"
+              maxLength={50}
+              value={invite.lastName}
+              onChange={(e) => setInvite({ ...invite, lastName: e.target.value })}
+              className={inputClassName}
+              placeholder="Last name"
+            />
+            <input
+              type="email"
+              aria-label="Email"
+              value={invite.email}
+              onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+              className={inputClassName}
+              placeholder="Email"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={!isInviteValid || isSubmitting}
+            className="mt-3 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors disabled:opacity-50 text-sm font-medium"
+          >
+            Send Invitation
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
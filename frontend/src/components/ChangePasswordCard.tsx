@@ -0,0 +1,116 @@
+/**
+ * Change Password Card
+ * Lets the signed-in user change their password; other devices are signed out
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 4: Race conditions (prevent concurrent calls)
+ * - Rule 9: TypeScript strict (no 'any')
+ */
+
+import React, { useState } from 'react';
+import { KeyIcon } from '@heroicons/react/24/outline';
+import { ChangePasswordData } from '../types/api.types';
+import { useAuthStore } from '../stores/auth-store';
+import { useToast } from '../contexts/ToastContext';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 transition-colors';
+
+const EMPTY_FORM: ChangePasswordData = { currentPassword: '', newPassword: '', confirmPassword: '' };
+
+/**
+ * Change Password Card Component
+ */
+export const ChangePasswordCard: React.FC = () => {
+  const { changePassword } = useAuthStore();
+  const { showSuccess, showError } = useToast();
+  const [form, setForm] = useState<ChangePasswordData>(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Prevent concurrent submissions - CORE-CRITICAL Rule 4
+    if (isSubmitting) return;
+
+    try {
+      setIsSubmitting(true);
+      await changePassword(form);
+
+      setForm(EMPTY_FORM);
+      showSuccess('Password Changed', 'Your other devices have been signed out.');
+    } catch (err) {
+      showError('Failed to Change Password', err instanceof Error ? err.message : 'Failed to change password');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const passwordsMatch = form.newPassword === form.confirmPassword;
+  const isFormValid = form.currentPassword !== '' && form.newPassword.length >= 8 && passwordsMatch;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <KeyIcon className="h-5 w-5 text-gray-500" />
+        <h2 className="text-base font-semibold text-gray-900">Password</h2>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Changing your password signs you out on every other device
+      </p>
+
+      <form onSubmit={handleSubmit} className="max-w-md space-y-3">
+        <div>
+          <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700 mb-1.5">
+            Current password
+          </label>
+          <input
+            id="currentPassword"
+            type="password"
+            autoComplete="current-password"
+            value={form.currentPassword}
+            onChange={(e) => setForm({ ...form, currentPassword: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700 mb-1.5">
+            New password
+          </label>
+          <input
+            id="newPassword"
+            type="password"
+            autoComplete="new-password"
+            maxLength={128}
+            value={form.newPassword}
+            onChange={(e) => setForm({ ...form, newPassword: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="confirmNewPassword" className="block text-sm font-medium text-gray-700 mb-1.5">
+            Confirm new password
+          </label>
+          <input
+            id="confirmNewPassword"
+            type="password"
+            autoComplete="new-password"
+            maxLength={128}
+            value={form.confirmPassword}
+            onChange={(e) => setForm({ ...form, confirmPassword: e.target.value })}
+            className={inputClassName}
+          />
+          {form.confirmPassword !== '' && !passwordsMatch && (
+            <p className="mt-1 text-xs text-red-600">Passwords don't match</p>
+          )}
+        </div>
+        <button
+          type="submit"
+          disabled={!isFormValid || isSubmitting}
+          className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors disabled:opacity-50 text-sm font-medium"
+        >
+          {isSubmitting ? 'Changing...' : 'Change Password'}
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+/**
+ * MFA Enrollment Component
+ * Walks the user through authenticator setup: QR code, first code, backup codes
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 4: Race conditions (prevent concurrent calls)
+ * - Rule 9: TypeScript strict (no 'any')
+ */
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { MfaService, MfaSetup } from '../services/mfa.service';
+
+/**
+ * MFA Enrollment Props
+ * enrollmentToken is set when enrollment is forced during login
+ */
+interface MfaEnrollmentProps {
+  enrollmentToken?: string;
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors';
+
+/**
+ * MFA Enrollment Component
+ */
+export const MfaEnrollment: React.FC<MfaEnrollmentProps> = ({ enrollmentToken, onComplete, onCancel }) => {
+  const [setup, setSetup] = useState<MfaSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string>('');
+  const isMountedRef = useRef(true);
+
+  const loadSetup = useCallback(async () => {
+    setError('');
+    const response = await MfaService.startSetup(enrollmentToken);
+
+    if (!isMountedRef.current) return;
+
+    if (response.success && response.data) {
+      setSetup(response.data.setup);
+    } else {
+      setError(response.error?.message || 'Failed to start two-factor setup');
+    }
+  }, [enrollmentToken]);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    loadSetup();
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, [loadSetup]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Prevent concurrent submissions - CORE-CRITICAL Rule 4
+    if (isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const response = await MfaService.enable(code, enrollmentToken);
+
+      if (response.success && response.data) {
+        setBackupCodes(response.data.backupCodes);
+      } else {
+        throw new Error(response.error?.message || 'Invalid verification code');
+      }
+    } catch (err) {
+      if (isMountedRef.current) {
+        setError(err instanceof Error ? err.message : 'Invalid verification code');
+      }
+    } finally {
+      if (isMountedRef.current) {
+        setIsSubmitting(false);
+      }
+    }
+  };
+
+  if (backupCodes) {
+    return (
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-base font-semibold text-gray-900">Save your backup codes</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Each code can be used once if you lose access to your authenticator app. They will not be shown again.
+          </p>
+        </div>
+        <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-50 border border-gray-200 rounded-lg p-3">
+          {backupCodes.map(backupCode => (
+            <li key={backupCode}>{backupCode}</li>
+          ))}
+        </ul>
+        <button
+          type="button"
+          onClick={onComplete}
+          className="w-full bg-primary-600 hover:bg-primary-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+        >
+          I have saved these codes
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-base font-semibold text-gray-900">Set up two-factor authentication</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Scan the QR code with an authenticator app, then enter the 6-digit code it shows.
+        </p>
+      </div>
+
+      {setup ? (
+        <div className="flex flex-col items-center gap-2">
+          <img src={setup.qrCode} alt="Authenticator QR code" className="h-44 w-44" />
+          <p className="text-xs text-gray-500 text-center">
+            Can't scan? Enter this key manually:
+            <span className="block font-mono text-gray-800 break-all mt-1">{setup.secret}</span>
+          </p>
+        </div>
+      ) : (
+        !error && <p className="text-sm text-gray-600 text-center py-6">Preparing setup...</p>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div>
+          <label htmlFor="mfaEnrollmentCode" className="block text-sm font-medium text-gray-700 mb-1.5">
+            Verification Code
+          </label>
+          <input
+            id="mfaEnrollmentCode"
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            pattern="\d{6}"
+            maxLength={6}
+            required
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+            className={inputClassName}
+            placeholder="123456"
+            disabled={!setup}
+          />
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-600" role="alert">{error}</p>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 text-sm font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!setup || code.length !== 6 || isSubmitting}
+            className="flex-1 px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:bg-gray-400 text-white rounded-lg transition-colors text-sm font-medium"
+          >
+            {isSubmitting ? 'Verifying...' : 'Verify and Enable'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+/**
+ * MFA Settings Card
+ * Shows two-factor status and lets the signed-in user enable, disable
+ * or regenerate backup codes
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 4: Race conditions (prevent concurrent calls)
+ * - Rule 9: TypeScript strict (no 'any')
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { ShieldCheckIcon } from '@heroicons/react/24/outline';
+import { MfaService, MfaStatus } from '../services/mfa.service';
+import { MfaEnrollment } from './MfaEnrollment';
+import { useToast } from '../contexts/ToastContext';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 transition-colors';
+
+/**
+ * MFA Settings Card Component
+ */
+export const MfaSettingsCard: React.FC = () => {
+  const { showSuccess, showError } = useToast();
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [code, setCode] = useState('');
+  const [newBackupCodes, setNewBackupCodes] = useState<string[] | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    setIsLoading(true);
+    const response = await MfaService.getStatus();
+
+    if (response.success && response.data) {
+      setStatus(response.data.mfa);
+    } else {
+      showError('Failed to Load Security Settings', response.error?.message || 'Could not load two-factor status');
+    }
+    setIsLoading(false);
+  }, [showError]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleEnrollmentComplete = () => {
+    setIsEnrolling(false);
+    showSuccess('Two-Factor Enabled', 'Your account is now protected with an authenticator app.');
+    loadStatus();
+  };
+
+  const handleDisable = async () => {
+    // Prevent concurrent submissions - CORE-CRITICAL Rule 4
+    if (isSubmitting) return;
+
+    try {
+      setIsSubmitting(true);
+      const response = await MfaService.disable(code);
+
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to disable two-factor authentication');
+      }
+
+      setCode('');
+      setNewBackupCodes(null);
+      showSuccess('Two-Factor Disabled', 'Authenticator codes are no longer required to sign in.');
+      await loadStatus();
+    } catch (err) {
+      showError('Failed to Disable', err instanceof Error ? err.message : 'Failed to disable two-factor authentication');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    // Prevent concurrent submissions - CORE-CRITICAL Rule 4
+    if (isSubmitting) return;
+
+    try {
+      setIsSubmitting(true);
+      const response = await MfaService.regenerateBackupCodes(code);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to generate backup codes');
+      }
+
+      setCode('');
+      setNewBackupCodes(response.data.backupCodes);
+      await loadStatus();
+    } catch (err) {
+      showError('Failed to Generate Codes', err instanceof Error ? err.message : 'Failed to generate backup codes');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const isCodeValid = /^(\d{6}|[A-Fa-f0-9]{8})$/.test(code.trim());
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <ShieldCheckIcon className="h-5 w-5 text-gray-500" />
+        <h2 className="text-base font-semibold text-gray-900">Two-Factor Authentication</h2>
+      </div>
+
+      {isLoading && !status ? (
+        <p className="text-sm text-gray-600 py-4">Loading...</p>
+      ) : !status ? null : isEnrolling ? (
+        <div className="mt-4 max-w-md">
+          <MfaEnrollment onComplete={handleEnrollmentComplete} onCancel={() => setIsEnrolling(false)} />
+        </div>
+      ) : !status.enabled ? (
+        <div className="mt-2">
+          <p className="text-sm text-gray-600 mb-4">
+            {status.required
+              ? 'Your organization requires two-factor authentication for your account.'
+              : 'Protect your account with a code from an authenticator app at sign-in.'}
+          </p>
+          <button
+            type="button"
+            onClick={() => setIsEnrolling(true)}
+            className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors text-sm font-medium"
+          >
+            Enable Two-Factor Authentication
+          </button>
+        </div>
+      ) : (
+        <div className="mt-2 space-y-4">
+          <p className="text-sm text-gray-600">
+            Enabled{status.required && ' · Required for your account'} · {status.backupCodesRemaining} backup code(s) remaining
+          </p>
+
+          {newBackupCodes && (
+            <div>
+              <p className="text-sm text-gray-700 mb-2">New backup codes (previous codes no longer work):</p>
+              <ul className="grid grid-cols-2 md:grid-cols-5 gap-2 font-mono text-sm bg-gray-50 border border-gray-200 rounded-lg p-3">
+                {newBackupCodes.map(backupCode => (
+                  <li key={backupCode}>{backupCode}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="max-w-md">
+            <label htmlFor="mfaManageCode" className="block text-sm font-medium text-gray-700 mb-1.5">
+              Current code
+            </label>
+            <input
+              id="mfaManageCode"
+              type="text"
+              maxLength={8}
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className={inputClassName}
+              placeholder="6-digit code or backup code"
+            />
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={handleRegenerate}
+              disabled={!isCodeValid || isSubmitting}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 text-sm font-medium"
+            >
+              Regenerate Backup Codes
+            </button>
+            {!status.required && (
+              <button
+                type="button"
+                onClick={handleDisable}
+                disabled={!isCodeValid || isSubmitting}
+                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors disabled:opacity-50 text-sm font-medium"
+              >
+                Disable
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -13,6 +13,10 @@ import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../stores/auth-store';
 import { getRouteForUser } from '../utils/routes';
+import { MfaChallengeError } from '../services/mfa.service';
+import { TenantSelectionError } from '../services/auth.service';
+import { LoginTenantOption } from '../types/api.types';
+import { MfaEnrollment } from './MfaEnrollment';
 
 /**
  * User Type Options - Ordered as per requirements
@@ -26,6 +30,11 @@ const USER_TYPES = [
 
 type UserType = typeof USER_TYPES[number]['value'];
 
+/**
+ * Login step: password, organization choice, second-factor code, or forced MFA enrollment
+ */
+type LoginStep = 'credentials' | 'tenant_selection' | 'mfa_code' | 'mfa_enrollment';
+
 /**
  * Login Form Props
  */
@@ -45,6 +54,11 @@ export const RCICLoginForm: React.FC<RCICLoginFormProps> = ({ onSuccess, onError
   const [rememberMe, setRememberMe] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [localError, setLocalError] = useState<string>('');
+  const [step, setStep] = useState<LoginStep>('credentials');
+  const [mfaCode, setMfaCode] = useState('');
+  const [enrollmentToken, setEnrollmentToken] = useState<string | undefined>();
+  const [tenantOptions, setTenantOptions] = useState<LoginTenantOption[]>([]);
+  const [tenantId, setTenantId] = useState('');
 
   // Refs for focus management and memory leak prevention
   const emailInputRef = useRef<HTMLInputElement>(null);
@@ -114,7 +128,9 @@ export const RCICLoginForm: React.FC<RCICLoginFormProps> = ({ onSuccess, onError
 
       const credentials = {
         email: trimmedEmail,
-        password: password // NO SANITIZATION - preserve original password
+        password: password, // NO SANITIZATION - preserve original password
+        mfaCode: step === 'mfa_code' ? mfaCode.trim() : undefined,
+        tenantId: tenantId || undefined
       };
 
       // Call appropriate login method based on user type
@@ -145,6 +161,29 @@ export const RCICLoginForm: React.FC<RCICLoginFormProps> = ({ onSuccess, onError
       navigate(route, { replace: true });
 
     } catch (error) {
+      // Password accepted; the email belongs to several organizations
+      if (error instanceof TenantSelectionError) {
+        if (isMountedRef.current) {
+          setTenantOptions(error.tenants);
+          setTenantId(error.tenants[0]?.id ?? '');
+          setStep('tenant_selection');
+        }
+        return;
+      }
+
+      // Password accepted; continue with the second factor
+      if (error instanceof MfaChallengeError) {
+        if (isMountedRef.current) {
+          if (error.code === 'MFA_ENROLLMENT_REQUIRED') {
+            setEnrollmentToken(error.enrollmentToken);
+            setStep('mfa_enrollment');
+          } else {
+            setStep('mfa_code');
+          }
+        }
+        return;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Login failed';
       
       // Only update state if component is still mounted
@@ -162,7 +201,27 @@ export const RCICLoginForm: React.FC<RCICLoginFormProps> = ({ onSuccess, onError
         setIsSubmitting(false);
       }
     }
-  }, [userType, email, password, isLoginInProgress, isSubmitting, loginSuperAdmin, loginTenantAdmin, loginTeamMember, loginClient, onSuccess, onError, navigate, isValidEmail]);
+  }, [userType, email, password, step, mfaCode, tenantId, isLoginInProgress, isSubmitting, loginSuperAdmin, loginTenantAdmin, loginTeamMember, loginClient, onSuccess, onError, navigate, isValidEmail]);
+
+  /**
+   * Return to the credentials step
+   */
+  const resetLoginSteps = useCallback(() => {
+    setStep('credentials');
+    setMfaCode('');
+    setEnrollmentToken(undefined);
+    setTenantOptions([]);
+    setTenantId('');
+  }, []);
+
+  /**
+   * Enrollment finished: sign in with a code from the new authenticator
+   */
+  const handleEnrollmentComplete = useCallback(() => {
+    setEnrollmentToken(undefined);
+    setMfaCode('');
+    setStep('mfa_code');
+  }, []);
 
 
   /**
@@ -174,12 +233,13 @@ export const RCICLoginForm: React.FC<RCICLoginFormProps> = ({ onSuccess, onError
     setEmail('');
     setPassword('');
     setLocalError('');
+    resetLoginSteps();
     
     // Focus on email input after user type change
     setTimeout(() => {
       emailInputRef.current?.focus();
     }, 100);
-  }, []);
+  }, [resetLoginSteps]);
 
   /**
    * Handle input changes - CRITICAL FIX: No password sanitization
@@ -197,7 +257,9 @@ export const RCICLoginForm: React.FC<RCICLoginFormProps> = ({ onSuccess, onError
   /**
    * Form validation
    */
-  const isFormValid = email.trim().length > 0 && password.length >= 8;
+  const isFormValid = email.trim().length > 0 && password.length >= 8
+    && (step !== 'tenant_selection' || tenantId !== '')
+    && (step !== 'mfa_code' || /^(\d{6}|[A-Fa-f0-9]{8})$/.test(mfaCode.trim()));
 
   /**
    * Clear errors when component mounts or user changes
@@ -232,6 +294,14 @@ export const RCICLoginForm: React.FC<RCICLoginFormProps> = ({ onSuccess, onError
         <p className="text-sm text-gray-600">Access your immigration portal</p>
       </div>
 
+        {step === 'mfa_enrollment' ? (
+          <MfaEnrollment
+            enrollmentToken={enrollmentToken}
+            onComplete={handleEnrollmentComplete}
+            onCancel={resetLoginSteps}
+          />
+        ) : (
+        <>
         {/* User Type Selection - Dropdown */}
         <div className="mb-4">
           <label htmlFor="userType" className="block text-sm font-medium text-gray-700 mb-2">
@@ -241,6 +311,7 @@ export const RCICLoginForm: React.FC<RCICLoginFormProps> = ({ onSuccess, onError
             id="userType"
             value={userType}
             onChange={(e) => handleUserTypeChange(e.target.value as UserType)}
+            disabled={step !== 'credentials'}
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors bg-white"
             aria-label="Select user type"
           >
@@ -265,6 +336,7 @@ export const RCICLoginForm: React.FC<RCICLoginFormProps> = ({ onSuccess, onError
               type="email"
               value={email}
               onChange={handleEmailChange}
+              readOnly={step !== 'credentials'}
               required
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors"
               placeholder="Enter your email"
@@ -283,6 +355,7 @@ export const RCICLoginForm: React.FC<RCICLoginFormProps> = ({ onSuccess, onError
               type="password"
               value={password}
               onChange={handlePasswordChange}
+              readOnly={step !== 'credentials'}
               required
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors"
               placeholder="Enter your password"
@@ -291,6 +364,76 @@ export const RCICLoginForm: React.FC<RCICLoginFormProps> = ({ onSuccess, onError
             />
           </div>
 
+          {/* Organization - shown when the email has accounts in several */}
+          {step === 'tenant_selection' && (
+            <div>
+              <label htmlFor="tenantId" className="block text-sm font-medium text-gray-700 mb-1.5">
+                Organization
+              </label>
+              <select
+                id="tenantId"
+                value={tenantId}
+                onChange={(e) => {
+                  setTenantId(e.target.value);
+                  setLocalError('');
+                }}
+                required
+                autoFocus
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors bg-white"
+              >
+                {tenantOptions.map((tenant) => (
+                  <option key={tenant.id} value={tenant.id}>
+                    {tenant.name} ({tenant.domain})
+                  </option>
+                ))}
+              </select>
+              <div className="flex justify-between mt-1.5">
+                <p className="text-xs text-gray-500">Your email is registered with more than one organization</p>
+                <button
+                  type="button"
+                  onClick={resetLoginSteps}
+                  className="text-xs text-primary-600 hover:text-primary-500"
+                >
+                  Back
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Second Factor - shown after the password was accepted */}
+          {step === 'mfa_code' && (
+            <div>
+              <label htmlFor="mfaCode" className="block text-sm font-medium text-gray-700 mb-1.5">
+                Verification Code
+              </label>
+              <input
+                id="mfaCode"
+                type="text"
+                value={mfaCode}
+                onChange={(e) => {
+                  setMfaCode(e.target.value);
+                  setLocalError('');
+                }}
+                required
+                autoFocus
+                maxLength={8}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors"
+                placeholder="6-digit code or backup code"
+                autoComplete="one-time-code"
+              />
+              <div className="flex justify-between mt-1.5">
+                <p className="text-xs text-gray-500">Enter the code from your authenticator app</p>
+                <button
+                  type="button"
+                  onClick={resetLoginSteps}
+                  className="text-xs text-primary-600 hover:text-primary-500"
+                >
+                  Back
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Remember Me */}
           <div className="flex items-center">
             <input
@@ -353,6 +496,8 @@ export const RCICLoginForm: React.FC<RCICLoginFormProps> = ({ onSuccess, onError
             </button>
           )}
         </form>
+        </>
+        )}
 
         {/* Additional Links */}
         <div className="mt-4 text-center space-y-1">
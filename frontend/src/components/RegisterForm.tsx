@@ -32,7 +32,7 @@ interface RegisterFormProps {
  * 
  * Following CORE-PATTERNS: React component structure (7 steps)
  */
-export const RegisterForm: React.FC<RegisterFormProps> = () => {
+export const RegisterForm: React.FC<RegisterFormProps> = ({ onSuccess }) => {
   // 1. State
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -42,16 +42,21 @@ export const RegisterForm: React.FC<RegisterFormProps> = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [acceptTerms, setAcceptTerms] = useState(false);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
   // 2. Hooks
-  const { isLoading, error, clearError } = useAuthStore();
+  const { isLoading, error, clearError, register } = useAuthStore();
 
   // 3. Memoized values
+  // Both passwords stay empty when the email already has a password on the portal
   const isFormValid = useMemo(() => {
+    const hasValidPassword = password.length === 0
+      ? confirmPassword.length === 0
+      : password.length >= 8 && confirmPassword.length >= 8;
+
     return (
       email.length > 0 &&
-      password.length >= 8 &&
-      confirmPassword.length >= 8 &&
+      hasValidPassword &&
       firstName.trim().length > 0 &&
       lastName.trim().length > 0 &&
       acceptTerms
@@ -83,11 +88,32 @@ export const RegisterForm: React.FC<RegisterFormProps> = () => {
       e.preventDefault();
       clearError();
 
-      // Show restriction message instead of processing registration
-      alert('Registration is currently not available. Please contact your immigration consultant to create an account for you.');
-      return;
+      if (!isFormValid || !passwordsMatch) {
+        return;
+      }
+
+      try {
+        // Tenant is resolved server-side from the domain the portal is served on
+        const result = await register({
+          email,
+          password,
+          confirmPassword,
+          firstName,
+          lastName,
+          tenantDomain: window.location.hostname
+        });
+
+        if (result) {
+          setSuccessMessage(result.message);
+          setPassword('');
+          setConfirmPassword('');
+          onSuccess?.();
+        }
+      } catch {
+        // Error is surfaced through the auth store
+      }
     },
-    [clearError]
+    [clearError, isFormValid, passwordsMatch, register, email, password, confirmPassword, firstName, lastName, onSuccess]
   );
 
   const handleEmailChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
@@ -141,7 +167,19 @@ export const RegisterForm: React.FC<RegisterFormProps> = () => {
     };
   }, [clearError]);
 
-  // 6. Early returns (none needed)
+  // 6. Early returns
+  if (successMessage) {
+    return (
+      <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-center">
+        <CheckCircleIcon className="h-8 w-8 text-green-500 mx-auto mb-2" />
+        {/* SECURITY: Sanitize server message - Rule 3 (Defense in Depth) */}
+        <p className="text-sm text-green-800">{DOMPurify.sanitize(successMessage)}</p>
+        <a href="/" className="inline-block mt-4 text-sm text-primary-600 hover:text-primary-700 font-medium">
+          Back to sign in
+        </a>
+      </div>
+    );
+  }
 
   // 7. Render
   return (
@@ -226,7 +264,6 @@ export const RegisterForm: React.FC<RegisterFormProps> = () => {
             type={showPassword ? 'text' : 'password'}
             value={password}
             onChange={handlePasswordChange}
-            required
             minLength={8}
             autoComplete="new-password"
             className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 transition-colors"
@@ -246,6 +283,11 @@ export const RegisterForm: React.FC<RegisterFormProps> = () => {
             )}
           </button>
         </div>
+        {password.length === 0 && (
+          <p className="mt-1 text-xs text-gray-500">
+            Already have a password on the portal? Leave both password fields empty.
+          </p>
+        )}
         {/* Password Strength Indicator */}
         {password.length > 0 && (
           <div className="mt-2">
@@ -281,7 +323,6 @@ export const RegisterForm: React.FC<RegisterFormProps> = () => {
             type={showConfirmPassword ? 'text' : 'password'}
             value={confirmPassword}
             onChange={handleConfirmPasswordChange}
-            required
             minLength={8}
             autoComplete="new-password"
             className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 transition-colors"
@@ -0,0 +1,165 @@
+/**
+ * Security Policy Form
+ * Password, lockout and session rules for every account of the organization
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 4: Race conditions (prevent concurrent calls)
+ * - Rule 9: TypeScript strict (no 'any')
+ */
+
+import React, { useState, useEffect } from 'react';
+import { SecurityPolicy } from '../services/tenant-admin.service';
+
+interface SecurityPolicyFormProps {
+  policy: SecurityPolicy;
+  isSaving: boolean;
+  onSave: (policy: SecurityPolicy) => Promise<void>;
+}
+
+type NumericField =
+  | 'passwordMinLength'
+  | 'passwordMaxAgeDays'
+  | 'passwordHistoryCount'
+  | 'maxLoginAttempts'
+  | 'lockoutDurationMinutes'
+  | 'idleSessionTimeoutMinutes';
+
+type ComplexityField =
+  | 'passwordRequireUppercase'
+  | 'passwordRequireLowercase'
+  | 'passwordRequireNumber'
+  | 'passwordRequireSymbol';
+
+const NUMERIC_FIELDS: Array<{ field: NumericField; label: string; hint: string; min: number; max: number }> = [
+  { field: 'passwordMinLength', label: 'Minimum password length', hint: '8 to 128 characters', min: 8, max: 128 },
+  { field: 'passwordMaxAgeDays', label: 'Password expires after (days)', hint: '0 = never expires', min: 0, max: 365 },
+  { field: 'passwordHistoryCount', label: 'Previous passwords blocked', hint: '0 = reuse allowed', min: 0, max: 24 },
+  { field: 'maxLoginAttempts', label: 'Failed sign-ins before lockout', hint: '0 = platform default', min: 0, max: 100 },
+  { field: 'lockoutDurationMinutes', label: 'Lockout duration (minutes)', hint: '0 = platform default', min: 0, max: 1440 },
+  { field: 'idleSessionTimeoutMinutes', label: 'Sign out after inactivity (minutes)', hint: '0 = never', min: 0, max: 1440 }
+];
+
+const COMPLEXITY_FIELDS: Array<{ field: ComplexityField; label: string }> = [
+  { field: 'passwordRequireUppercase', label: 'Uppercase letter' },
+  { field: 'passwordRequireLowercase', label: 'Lowercase letter' },
+  { field: 'passwordRequireNumber', label: 'Number' },
+  { field: 'passwordRequireSymbol', label: 'Special character' }
+];
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 transition-colors';
+
+/**
+ * Security Policy Form Component
+ */
+export const SecurityPolicyForm: React.FC<SecurityPolicyFormProps> = ({ policy, isSaving, onSave }) => {
+  const [draft, setDraft] = useState<SecurityPolicy>(policy);
+  const [ipRangesText, setIpRangesText] = useState(policy.allowedIpRanges.join('\n'));
+
+  useEffect(() => {
+    setDraft(policy);
+    setIpRangesText(policy.allowedIpRanges.join('\n'));
+  }, [policy]);
+
+  const handleNumberChange = (field: NumericField, value: string) => {
+    setDraft({ ...draft, [field]: value === '' ? 0 : Math.trunc(Number(value)) });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Prevent concurrent submissions - CORE-CRITICAL Rule 4
+    if (isSaving) return;
+
+    const allowedIpRanges = ipRangesText
+      .split(/[\n,]/)
+      .map(range => range.trim())
+      .filter(range => range !== '');
+
+    await onSave({ ...draft, allowedIpRanges });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-6 pt-4 border-t border-gray-100">
+      <h3 className="text-sm font-semibold text-gray-900">Password and session policy</h3>
+      <p className="text-xs text-gray-500 mb-4">
+        Password rules apply the next time a password is set. Admins and team members who belong to
+        several organizations follow the strictest rules.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {NUMERIC_FIELDS.map(({ field, label, hint, min, max }) => (
+          <label key={field} className="block text-sm">
+            <span className="font-medium text-gray-700">{label}</span>
+            <input
+              type="number"
+              min={min}
+              max={max}
+              value={draft[field]}
+              disabled={isSaving}
+              onChange={(e) => handleNumberChange(field, e.target.value)}
+              className={`${inputClassName} mt-1`}
+            />
+            <span className="block text-xs text-gray-500 mt-1">{hint}</span>
+          </label>
+        ))}
+      </div>
+
+      <fieldset className="mt-4">
+        <legend className="text-sm font-medium text-gray-700 mb-2">Passwords must contain</legend>
+        <div className="flex flex-wrap gap-x-6 gap-y-2">
+          {COMPLEXITY_FIELDS.map(({ field, label }) => (
+            <label key={field} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft[field]}
+                disabled={isSaving}
+                onChange={(e) => setDraft({ ...draft, [field]: e.target.checked })}
+                className="rounded border-gray-300 text-primary-600"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <label className="flex items-start gap-3 text-sm text-gray-700 mt-4">
+        <input
+          type="checkbox"
+          checked={draft.passwordBlockBreached}
+          disabled={isSaving}
+          onChange={(e) => setDraft({ ...draft, passwordBlockBreached: e.target.checked })}
+          className="mt-0.5 rounded border-gray-300 text-primary-600"
+        />
+        <span>
+          <span className="font-medium text-gray-900">Reject breached and common passwords</span>
+          <span className="block text-xs text-gray-500 mt-0.5">
+            Passwords are checked against a list of known leaked passwords stored on our servers; they are never sent elsewhere.
+          </span>
+        </span>
+      </label>
+
+      <label className="block text-sm mt-4">
+        <span className="font-medium text-gray-700">Allowed IP ranges for staff</span>
+        <textarea
+          rows={3}
+          value={ipRangesText}
+          disabled={isSaving}
+          onChange={(e) => setIpRangesText(e.target.value)}
+          className={`${inputClassName} mt-1 font-mono text-xs`}
+          placeholder={'203.0.113.0/24\n2001:db8::/32'}
+        />
+        <span className="block text-xs text-gray-500 mt-1">
+          One range per line in CIDR notation. Leave empty to allow sign-in from anywhere. Clients are not affected.
+        </span>
+      </label>
+
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="mt-4 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors disabled:opacity-50 text-sm font-medium"
+      >
+        {isSaving ? 'Saving...' : 'Save Policy'}
+      </button>
+    </form>
+  );
+};
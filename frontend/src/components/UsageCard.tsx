@@ -0,0 +1,116 @@
+/**
+ * Usage Card
+ * Shows a tenant's metered usage for the current month against its plan limits
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 3: XSS prevention (DOMPurify sanitization)
+ * - Rule 9: TypeScript strict (no 'any')
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import DOMPurify from 'dompurify';
+import { ChartBarIcon } from '@heroicons/react/24/outline';
+import { UsageService, TenantUsage, UsageMetric } from '../services/usage.service';
+
+interface UsageCardProps {
+  tenantId?: string; // super admins viewing a tenant; omitted for the signed-in tenant admin
+}
+
+const METRICS: { key: UsageMetric; label: string }[] = [
+  { key: 'apiCalls', label: 'API calls' },
+  { key: 'documentUploads', label: 'Document uploads' },
+  { key: 'storageBytes', label: 'Storage' },
+  { key: 'activeClients', label: 'Active clients' },
+  { key: 'seats', label: 'Team members' }
+];
+
+const formatValue = (metric: UsageMetric, value: number): string => {
+  if (metric !== 'storageBytes') {
+    return value.toLocaleString();
+  }
+  const megabytes = value / (1024 * 1024);
+  return megabytes >= 1024 ? `${(megabytes / 1024).toFixed(1)} GB` : `${megabytes.toFixed(1)} MB`;
+};
+
+/**
+ * Usage Card Component
+ */
+export const UsageCard: React.FC<UsageCardProps> = ({ tenantId }) => {
+  const [usage, setUsage] = useState<TenantUsage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const response = tenantId
+      ? await UsageService.getTenantUsage(tenantId)
+      : await UsageService.getMyUsage();
+
+    if (response.success && response.data) {
+      setUsage(response.data.usage);
+    } else {
+      setError(response.error?.message || 'Could not load usage');
+    }
+    setIsLoading(false);
+  }, [tenantId]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <ChartBarIcon className="h-5 w-5 text-gray-600" />
+        <h2 className="text-base font-semibold text-gray-900">Usage this month</h2>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        {usage?.plan
+          ? `${DOMPurify.sanitize(usage.plan.name)} plan · counters reset on the 1st of each month (UTC)`
+          : 'Counters reset on the 1st of each month (UTC)'}
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-600">Loading usage...</p>
+      ) : error || !usage ? (
+        <div className="text-center py-4">
+          <p className="text-sm text-red-600 mb-3">{error || 'Usage unavailable'}</p>
+          <button
+            type="button"
+            onClick={loadUsage}
+            className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            Try Again
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {METRICS.map(({ key, label }) => {
+            const used = usage.usage[key];
+            const limit = usage.limits?.[key];
+            const percentage = limit ? Math.min(100, Math.round((used / limit) * 100)) : used > 0 ? 100 : 0;
+            const barColor = percentage >= 100 ? 'bg-red-500' : percentage >= 80 ? 'bg-amber-500' : 'bg-primary-600';
+
+            return (
+              <div key={key}>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-700">{label}</span>
+                  <span className="text-gray-900 font-medium">
+                    {formatValue(key, used)}
+                    {limit !== undefined && ` / ${formatValue(key, limit)}`}
+                  </span>
+                </div>
+                {limit !== undefined && (
+                  <div className="h-1.5 bg-gray-100 rounded-full mt-1">
+                    <div className={`h-1.5 rounded-full ${barColor}`} style={{ width: `${percentage}%` }} />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
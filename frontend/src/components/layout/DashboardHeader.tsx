@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   Bars3Icon,
@@ -6,8 +6,10 @@ import {
   Cog6ToothIcon,
   ArrowRightOnRectangleIcon,
   ChevronDownIcon,
+  EyeIcon,
 } from '@heroicons/react/24/outline';
 import { useAuthStore } from '../../stores/auth-store';
+import { getRouteForUser } from '../../utils/routes';
 import DOMPurify from 'dompurify';
 
 interface DashboardHeaderProps {
@@ -22,8 +24,10 @@ const DashboardHeader: React.FC<DashboardHeaderProps> = ({
   tenantName,
 }) => {
   const navigate = useNavigate();
-  const { user, logout } = useAuthStore();
+  const { user, logout, impersonation, endImpersonation } = useAuthStore();
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+  const [isEndingImpersonation, setIsEndingImpersonation] = useState(false);
+  const [secondsLeft, setSecondsLeft] = useState(0);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   // Close dropdown when clicking outside
@@ -45,11 +49,51 @@ const DashboardHeader: React.FC<DashboardHeaderProps> = ({
 
   // Removed dark mode functionality - using unified theme
 
+  const handleEndImpersonation = useCallback(async () => {
+    // Prevent concurrent calls - CORE-CRITICAL Rule 4
+    if (!impersonation || isEndingImpersonation) return;
+
+    setIsEndingImpersonation(true);
+    setIsDropdownOpen(false);
+    try {
+      await endImpersonation();
+      navigate(getRouteForUser(impersonation.impersonatedBy.userType));
+    } finally {
+      setIsEndingImpersonation(false);
+    }
+  }, [impersonation, isEndingImpersonation, endImpersonation, navigate]);
+
+  // Count down the impersonation session; it ends on its own when time runs out
+  useEffect(() => {
+    if (!impersonation) return;
+
+    const update = () => {
+      const remaining = Math.max(0, Math.round((new Date(impersonation.expiresAt).getTime() - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0) {
+        handleEndImpersonation();
+      }
+    };
+
+    update();
+    const timer = setInterval(update, 1000);
+    return () => clearInterval(timer);
+  }, [impersonation, handleEndImpersonation]);
+
   const handleLogout = () => {
+    if (impersonation) {
+      handleEndImpersonation();
+      return;
+    }
     logout();
     navigate('/');
   };
 
+  const handleLogoutAllDevices = () => {
+    logout({ allDevices: true });
+    navigate('/');
+  };
+
   const handleProfile = () => {
     setIsDropdownOpen(false);
     if (user) {
@@ -66,6 +110,32 @@ const DashboardHeader: React.FC<DashboardHeaderProps> = ({
 
   return (
     <header className="sticky top-0 z-40 bg-white border-b border-gray-200">
+      {/* Impersonation banner */}
+      {impersonation && (
+        <div
+          role="status"
+          className="flex flex-wrap items-center justify-between gap-2 px-4 lg:px-6 py-2 bg-amber-100 border-b border-amber-300 text-amber-900 text-sm"
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            <EyeIcon className="h-5 w-5 shrink-0" />
+            <p className="truncate">
+              Viewing as <span className="font-semibold">{DOMPurify.sanitize(`${user?.firstName || ''} ${user?.lastName || ''}`)}</span>
+              {' '}({DOMPurify.sanitize(user?.email || '')}) · signed in as {DOMPurify.sanitize(impersonation.impersonatedBy.email)}
+              {impersonation.readOnly && ' · Read-only'}
+              {' '}· ends in {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, '0')}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleEndImpersonation}
+            disabled={isEndingImpersonation}
+            className="px-3 py-1 text-xs font-medium bg-amber-600 hover:bg-amber-700 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            End Impersonation
+          </button>
+        </div>
+      )}
+
       <div className="flex items-center justify-between h-16 px-4 lg:px-6">
         {/* Left: Mobile menu + Logo + App name */}
         <div className="flex items-center gap-3">
@@ -167,14 +237,25 @@ const DashboardHeader: React.FC<DashboardHeaderProps> = ({
               {/* Divider */}
               <div className="my-1 border-t border-gray-200" />
 
-              {/* Logout */}
+              {/* Logout (ends an impersonation instead) */}
               <button
                 onClick={handleLogout}
                 className="w-full flex items-center gap-3 px-4 py-2 text-sm text-red-600 hover:bg-red-50 transition-colors"
               >
                 <ArrowRightOnRectangleIcon className="h-5 w-5" />
-                <span>Logout</span>
+                <span>{impersonation ? 'End impersonation' : 'Logout'}</span>
               </button>
+
+              {/* Logout everywhere */}
+              {!impersonation && (
+                <button
+                  onClick={handleLogoutAllDevices}
+                  className="w-full flex items-center gap-3 px-4 py-2 text-sm text-red-600 hover:bg-red-50 transition-colors"
+                >
+                  <ArrowRightOnRectangleIcon className="h-5 w-5" />
+                  <span>Logout all devices</span>
+                </button>
+              )}
             </div>
           )}
         </div>
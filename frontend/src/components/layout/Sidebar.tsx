@@ -74,6 +74,7 @@ const Sidebar: React.FC<SidebarProps> = ({
           { name: 'My Clients', href: '/team-member/assigned-clients', icon: UsersIcon },
           { name: 'My Tasks', href: '/team-member/tasks', icon: ClipboardDocumentListIcon },
           { name: 'Documents', href: '/team-member/documents', icon: DocumentTextIcon },
+          { name: 'Messages', href: '/team-member/messages', icon: BellIcon },
           { name: 'Profile', href: '/team-member/profile', icon: UserCircleIcon },
         ];
 
@@ -0,0 +1,474 @@
+/**
+ * Messaging Center
+ * Thread list, conversation view and composer shared by clients and team members
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 2: Memory leak prevention (cleanup in useEffect)
+ * - Rule 3: XSS prevention (DOMPurify sanitization)
+ * - Rule 9: TypeScript strict (no 'any')
+ */
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import DOMPurify from 'dompurify';
+import {
+  ChatBubbleLeftRightIcon,
+  PaperClipIcon,
+  PlusIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline';
+import { apiClient } from '../../services/api-client';
+import { ClientData } from '../../services/tenant-admin.service';
+import {
+  MessagingService,
+  MessagingRole,
+  MessageThread,
+  Message,
+  ClientDocument
+} from '../../services/messaging.service';
+import { useToast } from '../../contexts/ToastContext';
+
+interface MessagingCenterProps {
+  role: MessagingRole;
+}
+
+const formatTimestamp = (value: string): string =>
+  new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Messaging Center Component
+ */
+export const MessagingCenter: React.FC<MessagingCenterProps> = ({ role }) => {
+  const { showSuccess, showError } = useToast();
+  const [threads, setThreads] = useState<MessageThread[]>([]);
+  const [selectedThreadId, setSelectedThreadId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isThreadLoading, setIsThreadLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Composer state (reply or new thread)
+  const [isComposingThread, setIsComposingThread] = useState(false);
+  const [subject, setSubject] = useState('');
+  const [recipientId, setRecipientId] = useState('');
+  const [body, setBody] = useState('');
+  const [attachmentIds, setAttachmentIds] = useState<string[]>([]);
+  const [isSending, setIsSending] = useState(false);
+
+  // Lookups
+  const [clients, setClients] = useState<ClientData[]>([]);
+  const [documents, setDocuments] = useState<ClientDocument[]>([]);
+
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const loadThreads = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await MessagingService.getThreads(role);
+
+      if (response.success && response.data) {
+        setThreads(response.data.threads);
+      } else {
+        throw new Error(response.error?.message || 'Failed to load messages');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load messages';
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [role]);
+
+  useEffect(() => {
+    loadThreads();
+  }, [loadThreads]);
+
+  // Recipients for team members, attachable documents for clients
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadLookups = async () => {
+      if (role === 'team_member') {
+        const response = await apiClient.get<{ clients: ClientData[]; count: number }>('/api/v1/team-member/my-clients');
+        if (!cancelled && response.success && response.data) {
+          setClients(response.data.clients);
+        }
+      } else {
+        const response = await MessagingService.getMyDocuments();
+        if (!cancelled && response.success && response.data) {
+          setDocuments(response.data.documents);
+        }
+      }
+    };
+
+    loadLookups().catch(() => {
+      // Lookups are optional; the thread list reports connection problems
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [role]);
+
+  // Load the selected thread; opening it marks it read on the server
+  useEffect(() => {
+    if (!selectedThreadId) {
+      setMessages([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadThread = async () => {
+      try {
+        setIsThreadLoading(true);
+        const response = await MessagingService.getThread(role, selectedThreadId);
+
+        if (cancelled) return;
+
+        if (response.success && response.data) {
+          const loadedThread = response.data.thread;
+          setMessages(response.data.messages);
+          setThreads(current => current.map(thread => (thread.id === loadedThread.id ? loadedThread : thread)));
+        } else {
+          throw new Error(response.error?.message || 'Failed to load conversation');
+        }
+      } catch (err) {
+        if (!cancelled) {
+          const errorMessage = err instanceof Error ? err.message : 'Failed to load conversation';
+          showError('Failed to Load Conversation', errorMessage);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsThreadLoading(false);
+        }
+      }
+    };
+
+    loadThread();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [role, selectedThreadId, showError]);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  const resetComposer = () => {
+    setSubject('');
+    setRecipientId('');
+    setBody('');
+    setAttachmentIds([]);
+  };
+
+  const toggleAttachment = (documentId: string) => {
+    setAttachmentIds(current => (
+      current.includes(documentId)
+        ? current.filter(id => id !== documentId)
+        : [...current, documentId]
+    ));
+  };
+
+  const startNewThread = () => {
+    resetComposer();
+    setSelectedThreadId(null);
+    setIsComposingThread(true);
+  };
+
+  const openThread = (threadId: string) => {
+    resetComposer();
+    setIsComposingThread(false);
+    setSelectedThreadId(threadId);
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    try {
+      setIsSending(true);
+
+      if (isComposingThread) {
+        const response = await MessagingService.createThread(role, {
+          clientId: role === 'team_member' ? recipientId : undefined,
+          subject,
+          body,
+          attachments: attachmentIds
+        });
+
+        if (response.success && response.data) {
+          const createdThread = response.data.thread;
+          setThreads(current => [createdThread, ...current]);
+          setIsComposingThread(false);
+          setSelectedThreadId(createdThread.id);
+          showSuccess('Message Sent', 'Your conversation has been started.');
+        } else {
+          throw new Error(response.error?.message || 'Failed to send message');
+        }
+      } else if (selectedThreadId) {
+        const response = await MessagingService.postMessage(role, selectedThreadId, body, attachmentIds);
+
+        if (response.success && response.data) {
+          const sentMessage = response.data.sentMessage;
+          setMessages(current => [...current, sentMessage]);
+          setThreads(current => current.map(thread => (
+            thread.id === selectedThreadId
+              ? { ...thread, lastMessageAt: sentMessage.createdAt, lastMessagePreview: sentMessage.body.slice(0, 120) }
+              : thread
+          )));
+        } else {
+          throw new Error(response.error?.message || 'Failed to send message');
+        }
+      }
+
+      resetComposer();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to send message';
+      showError('Failed to Send Message', errorMessage);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleOpenAttachment = async (documentId: string) => {
+    try {
+      const url = await MessagingService.getAttachmentUrl(documentId);
+      window.open(url, '_blank', 'noopener,noreferrer');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to open attachment';
+      showError('Failed to Open Attachment', errorMessage);
+    }
+  };
+
+  const clientName = (clientId: string): string | null => {
+    const client = clients.find(entry => entry.id === clientId);
+    return client ? `${client.firstName} ${client.lastName}` : null;
+  };
+
+  const selectedThread = threads.find(thread => thread.id === selectedThreadId) || null;
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-6">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600 mx-auto"></div>
+        <p className="mt-2 text-sm text-gray-600">Loading...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-6">
+        <div className="text-red-600">
+          <p className="text-base font-medium">Error loading messages</p>
+          <p className="text-sm">{DOMPurify.sanitize(error)}</p>
+        </div>
+        <button
+          onClick={loadThreads}
+          className="mt-3 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white text-sm font-medium rounded-lg transition-colors"
+        >
+          Try Again
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+      {/* Thread List */}
+      <div className="card p-2 h-fit">
+        <button
+          onClick={startNewThread}
+          className="w-full mb-2 px-3 py-2 bg-primary-600 hover:bg-primary-700 text-white text-sm font-medium rounded-lg transition-colors flex items-center justify-center gap-1"
+        >
+          <PlusIcon className="h-4 w-4" />
+          New Conversation
+        </button>
+
+        {threads.length === 0 ? (
+          <div className="text-center py-8 text-sm text-gray-600">No conversations yet</div>
+        ) : (
+          threads.map((thread) => (
+            <button
+              key={thread.id}
+              onClick={() => openThread(thread.id)}
+              className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                thread.id === selectedThreadId ? 'bg-primary-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className={`text-sm truncate ${thread.unreadCount > 0 ? 'font-semibold text-gray-900' : 'text-gray-700'}`}>
+                  {DOMPurify.sanitize(thread.subject)}
+                </span>
+                {thread.unreadCount > 0 && (
+                  <span className="px-2 py-0.5 text-xs font-medium bg-primary-600 text-white rounded-full">
+                    {thread.unreadCount}
+                  </span>
+                )}
+              </div>
+              {role === 'team_member' && clientName(thread.clientId) && (
+                <p className="text-xs text-gray-500">{DOMPurify.sanitize(clientName(thread.clientId) || '')}</p>
+              )}
+              {thread.lastMessagePreview && (
+                <p className="text-xs text-gray-500 truncate">{DOMPurify.sanitize(thread.lastMessagePreview)}</p>
+              )}
+              <p className="text-xs text-gray-400 mt-0.5">{formatTimestamp(thread.lastMessageAt)}</p>
+            </button>
+          ))
+        )}
+      </div>
+
+      {/* Conversation */}
+      <div className="card p-4 lg:col-span-2">
+        {!selectedThread && !isComposingThread ? (
+          <div className="text-center py-12">
+            <ChatBubbleLeftRightIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+            <h3 className="text-section-title mb-2">Select a Conversation</h3>
+            <p className="text-body">Choose a conversation or start a new one.</p>
+          </div>
+        ) : (
+          <>
+            {selectedThread && !isComposingThread && (
+              <>
+                <div className="pb-3 mb-3 border-b border-gray-200">
+                  <h2 className="text-base font-semibold text-gray-900">{DOMPurify.sanitize(selectedThread.subject)}</h2>
+                </div>
+
+                {isThreadLoading ? (
+                  <div className="text-center py-6">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600 mx-auto"></div>
+                  </div>
+                ) : (
+                  <div className="space-y-3 max-h-[28rem] overflow-y-auto pr-1">
+                    {messages.map((message) => {
+                      const isOwn = message.senderType === role;
+                      return (
+                        <div key={message.id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+                          <div className={`max-w-[80%] rounded-lg px-3 py-2 ${isOwn ? 'bg-primary-50' : 'bg-gray-100'}`}>
+                            <p className="text-sm text-gray-900 whitespace-pre-wrap">{DOMPurify.sanitize(message.body)}</p>
+                            {message.attachments.map((attachment) => (
+                              <button
+                                key={attachment.id}
+                                onClick={() => handleOpenAttachment(attachment.id)}
+                                className="mt-1 flex items-center gap-1 text-xs text-primary-700 hover:underline"
+                              >
+                                <PaperClipIcon className="h-3 w-3" />
+                                {DOMPurify.sanitize(attachment.originalName)}
+                              </button>
+                            ))}
+                            <p className="text-xs text-gray-500 mt-1">
+                              {formatTimestamp(message.createdAt)}
+                              {isOwn && message.readAt && ' · Read'}
+                            </p>
+                          </div>
+                        </div>
+                      );
+                    })}
+                    <div ref={messagesEndRef} />
+                  </div>
+                )}
+              </>
+            )}
+
+            {/* Composer */}
+            <form onSubmit={handleSend} className={`space-y-2 ${isComposingThread ? '' : 'mt-4 pt-4 border-t border-gray-200'}`}>
+              {isComposingThread && (
+                <>
+                  {role === 'team_member' && (
+                    <select
+                      value={recipientId}
+                      onChange={(e) => setRecipientId(e.target.value)}
+                      required
+                      className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+                    >
+                      <option value="">Select a client</option>
+                      {clients.map((client) => (
+                        <option key={client.id} value={client.id}>
+                          {DOMPurify.sanitize(`${client.firstName} ${client.lastName}`)}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <input
+                    type="text"
+                    value={subject}
+                    onChange={(e) => setSubject(e.target.value)}
+                    placeholder="Subject"
+                    maxLength={200}
+                    required
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+                  />
+                </>
+              )}
+
+              <textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                placeholder="Write a message..."
+                rows={3}
+                maxLength={5000}
+                required
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+              />
+
+              {role === 'client' && documents.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {documents.map((document) => (
+                    <label
+                      key={document.id}
+                      className={`flex items-center gap-1 px-2 py-1 text-xs border rounded-lg cursor-pointer ${
+                        attachmentIds.includes(document.id)
+                          ? 'border-primary-500 bg-primary-50 text-primary-700'
+                          : 'border-gray-300 text-gray-700'
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={attachmentIds.includes(document.id)}
+                        onChange={() => toggleAttachment(document.id)}
+                        className="sr-only"
+                      />
+                      <PaperClipIcon className="h-3 w-3" />
+                      {DOMPurify.sanitize(document.originalName)}
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              {isComposingThread && role === 'team_member' && clients.length === 0 && (
+                <div className="flex items-center text-sm text-amber-700">
+                  <ExclamationTriangleIcon className="h-4 w-4 mr-2" />
+                  You have no assigned clients to message.
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                {isComposingThread && (
+                  <button
+                    type="button"
+                    onClick={() => setIsComposingThread(false)}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 hover:bg-gray-50 rounded-lg transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
+                <button
+                  type="submit"
+                  disabled={isSending || !body.trim()}
+                  className="px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:bg-gray-400 text-white text-sm font-medium rounded-lg transition-colors"
+                >
+                  {isSending ? 'Sending...' : 'Send'}
+                </button>
+              </div>
+            </form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MessagingCenter;
@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { XMarkIcon, BuildingOfficeIcon, UserIcon, Cog6ToothIcon, InformationCircleIcon } from '@heroicons/react/24/outline';
+import { XMarkIcon, BuildingOfficeIcon, UserIcon, Cog6ToothIcon, InformationCircleIcon, CheckIcon } from '@heroicons/react/24/outline';
 import { TenantData, UpdateTenantInput } from '../../services/super-admin.service';
+import { SubscriptionPlanService, SubscriptionPlanData } from '../../services/subscription-plan.service';
+import { UsageCard } from '../UsageCard';
 import DOMPurify from 'dompurify';
 
 interface EditTenantModalProps {
@@ -20,8 +22,29 @@ const EditTenantModal: React.FC<EditTenantModalProps> = ({
 }) => {
   const [formData, setFormData] = useState<UpdateTenantInput>({});
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [plans, setPlans] = useState<SubscriptionPlanData[]>([]);
   const firstFieldRef = useRef<HTMLInputElement>(null);
 
+  // Load the plans a tenant can be moved to
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let isMounted = true;
+    SubscriptionPlanService.getActivePlans(1, 100)
+      .then(response => {
+        if (isMounted && response.success && response.data) {
+          setPlans(response.data.data);
+        }
+      })
+      .catch(() => {
+        // The current plan stays selectable
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [isOpen]);
+
   // Initialize form data when tenant changes
   useEffect(() => {
     if (tenant) {
@@ -30,12 +53,9 @@ const EditTenantModal: React.FC<EditTenantModalProps> = ({
         domain: tenant.domain,
         subdomain: tenant.subdomain || '',
         status: tenant.status as 'active' | 'inactive' | 'suspended',
-        plan: tenant.plan as 'free' | 'basic' | 'premium' | 'enterprise',
+        planId: tenant.planId,
         adminFirstName: tenant.adminFirstName,
         adminLastName: tenant.adminLastName,
-        maxTeamMembers: tenant.maxTeamMembers,
-        maxClients: tenant.maxClients,
-        features: { ...tenant.features },
         metadata: {
           rcicNumber: tenant.metadata?.rcicNumber || '',
           businessAddress: tenant.metadata?.businessAddress || '',
@@ -87,16 +107,6 @@ const EditTenantModal: React.FC<EditTenantModalProps> = ({
     }
   };
 
-  const handleFeatureChange = (feature: string, checked: boolean) => {
-    setFormData(prev => ({
-      ...prev,
-      features: {
-        ...prev.features!,
-        [feature]: checked
-      }
-    }));
-  };
-
   const handleMetadataChange = (field: string, value: string) => {
     setFormData(prev => ({
       ...prev,
@@ -141,14 +151,6 @@ const EditTenantModal: React.FC<EditTenantModalProps> = ({
       newErrors.adminLastName = 'Admin last name is required';
     }
 
-    if (formData.maxTeamMembers !== undefined && formData.maxTeamMembers < 1) {
-      newErrors.maxTeamMembers = 'Max team members must be at least 1';
-    }
-
-    if (formData.maxClients !== undefined && formData.maxClients < 1) {
-      newErrors.maxClients = 'Max clients must be at least 1';
-    }
-
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -166,12 +168,9 @@ const EditTenantModal: React.FC<EditTenantModalProps> = ({
       domain: formData.domain ? DOMPurify.sanitize(formData.domain.toLowerCase().trim()) : undefined,
       subdomain: formData.subdomain ? DOMPurify.sanitize(formData.subdomain.toLowerCase().trim()) : undefined,
       status: formData.status,
-      plan: formData.plan,
+      planId: formData.planId !== tenant?.planId ? formData.planId : undefined,
       adminFirstName: formData.adminFirstName ? DOMPurify.sanitize(formData.adminFirstName.trim()) : undefined,
-      adminLastName: formData.adminLastName ? DOMPurify.sanitize(formData.adminLastName.trim()) : undefined,
-      maxTeamMembers: formData.maxTeamMembers,
-      maxClients: formData.maxClients,
-      features: formData.features
+      adminLastName: formData.adminLastName ? DOMPurify.sanitize(formData.adminLastName.trim()) : undefined
     };
 
     // Clean up and sanitize metadata fields
@@ -199,6 +198,12 @@ const EditTenantModal: React.FC<EditTenantModalProps> = ({
 
   if (!isOpen || !tenant) return null;
 
+  // Limits and features shown are those of the selected plan
+  const selectedPlan = plans.find(plan => plan.id === formData.planId);
+  const limits = selectedPlan?.limits ?? tenant;
+  const features = selectedPlan?.features ?? tenant.features;
+  const isCurrentPlanListed = plans.some(plan => plan.id === tenant.planId);
+
   return (
     <div 
       className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-md p-4 animate-in fade-in duration-300"
@@ -319,15 +324,18 @@ const EditTenantModal: React.FC<EditTenantModalProps> = ({
                     Plan
                   </label>
                   <select
-                    value={formData.plan || 'basic'}
-                    onChange={(e) => handleInputChange('plan', e.target.value)}
+                    value={formData.planId || ''}
+                    onChange={(e) => handleInputChange('planId', e.target.value)}
                     className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                     disabled={isUpdating}
                   >
-                    <option value="free">Free</option>
-                    <option value="basic">Basic</option>
-                    <option value="premium">Premium</option>
-                    <option value="enterprise">Enterprise</option>
+                    {!tenant.planId && <option value="">No plan</option>}
+                    {tenant.planId && !isCurrentPlanListed && (
+                      <option value={tenant.planId}>{DOMPurify.sanitize(tenant.planName)} (current)</option>
+                    )}
+                    {plans.map((plan) => (
+                      <option key={plan.id} value={plan.id}>{plan.name}</option>
+                    ))}
                   </select>
                 </div>
               </div>
@@ -397,56 +405,33 @@ const EditTenantModal: React.FC<EditTenantModalProps> = ({
               </div>
             </div>
 
-            {/* Settings Section */}
+            {/* Plan Limits Section */}
             <div>
-              <div className="flex items-center gap-2 mb-4">
+              <div className="flex items-center gap-2 mb-1">
                 <Cog6ToothIcon className="w-5 h-5 text-gray-600 dark:text-gray-400" />
-                <h4 className="text-lg font-semibold text-gray-900 dark:text-white">Settings & Limits</h4>
+                <h4 className="text-lg font-semibold text-gray-900 dark:text-white">Plan Limits</h4>
               </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+                Limits and features come from the subscription plan; choose another plan to change them
+              </p>
               
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <label htmlFor="max-team-members" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    Max Team Members *
-                  </label>
-                  <input
-                    id="max-team-members"
-                    type="number"
-                    min="1"
-                    value={formData.maxTeamMembers || ''}
-                    onChange={(e) => handleInputChange('maxTeamMembers', parseInt(e.target.value))}
-                    className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-                      errors.maxTeamMembers ? 'border-red-300' : 'border-gray-300 dark:border-gray-600'
-                    } bg-white dark:bg-gray-700 text-gray-900 dark:text-white`}
-                    disabled={isUpdating}
-                    aria-invalid={!!errors.maxTeamMembers}
-                    aria-describedby={errors.maxTeamMembers ? 'max-team-members-error' : undefined}
-                  />
-                  {errors.maxTeamMembers && <p id="max-team-members-error" className="text-red-500 text-xs mt-1" role="alert">{errors.maxTeamMembers}</p>}
-                </div>
-
-                <div>
-                  <label htmlFor="max-clients" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    Max Clients *
-                  </label>
-                  <input
-                    id="max-clients"
-                    type="number"
-                    min="1"
-                    value={formData.maxClients || ''}
-                    onChange={(e) => handleInputChange('maxClients', parseInt(e.target.value))}
-                    className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-                      errors.maxClients ? 'border-red-300' : 'border-gray-300 dark:border-gray-600'
-                    } bg-white dark:bg-gray-700 text-gray-900 dark:text-white`}
-                    disabled={isUpdating}
-                    aria-invalid={!!errors.maxClients}
-                    aria-describedby={errors.maxClients ? 'max-clients-error' : undefined}
-                  />
-                  {errors.maxClients && <p id="max-clients-error" className="text-red-500 text-xs mt-1" role="alert">{errors.maxClients}</p>}
-                </div>
+              <div className="grid grid-cols-3 gap-4">
+                {[
+                  { label: 'Team Members', value: `${tenant.currentTeamMembers} / ${limits.maxTeamMembers}` },
+                  { label: 'Clients', value: `${tenant.currentClients} / ${limits.maxClients}` },
+                  { label: 'Storage', value: `${limits.maxStorage} MB` }
+                ].map((limit) => (
+                  <div key={limit.label} className="bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg p-3">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{limit.label}</p>
+                    <p className="text-sm font-semibold text-gray-900 dark:text-white">{limit.value}</p>
+                  </div>
+                ))}
               </div>
             </div>
 
+            {/* Usage Section */}
+            <UsageCard tenantId={tenant.id} />
+
             {/* Features Section */}
             <div>
               <div className="flex items-center gap-2 mb-4">
@@ -461,19 +446,25 @@ const EditTenantModal: React.FC<EditTenantModalProps> = ({
                   { key: 'workPermit', label: 'Work Permit' },
                   { key: 'permanentResidence', label: 'Permanent Residence' },
                   { key: 'familySponsorship', label: 'Family Sponsorship' },
-                  { key: 'businessImmigration', label: 'Business Immigration' }
-                ].map((feature) => (
-                  <label key={feature.key} className="flex items-center space-x-2 cursor-pointer">
-                    <input
-                      type="checkbox"
-                      checked={formData.features?.[feature.key as keyof typeof formData.features] || false}
-                      onChange={(e) => handleFeatureChange(feature.key, e.target.checked)}
-                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                      disabled={isUpdating}
-                    />
-                    <span className="text-sm text-gray-700 dark:text-gray-300">{feature.label}</span>
-                  </label>
-                ))}
+                  { key: 'businessImmigration', label: 'Business Immigration' },
+                  { key: 'customBranding', label: 'Custom Branding' },
+                  { key: 'advancedAnalytics', label: 'Advanced Analytics' },
+                  { key: 'prioritySupport', label: 'Priority Support' }
+                ].map((feature) => {
+                  const isEnabled = features[feature.key as keyof typeof features] || false;
+                  return (
+                    <div key={feature.key} className="flex items-center space-x-2">
+                      {isEnabled ? (
+                        <CheckIcon className="w-4 h-4 text-green-600" />
+                      ) : (
+                        <XMarkIcon className="w-4 h-4 text-gray-400" />
+                      )}
+                      <span className={`text-sm ${isEnabled ? 'text-gray-700 dark:text-gray-300' : 'text-gray-400 dark:text-gray-500'}`}>
+                        {feature.label}
+                      </span>
+                    </div>
+                  );
+                })}
               </div>
             </div>
 
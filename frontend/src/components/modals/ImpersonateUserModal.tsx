@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { EyeIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import DOMPurify from 'dompurify';
+import { useAuthStore } from '../../stores/auth-store';
+import { useToast } from '../../contexts/ToastContext';
+import { StartImpersonationInput } from '../../services/impersonation.service';
+import { getRouteForUser } from '../../utils/routes';
+
+/**
+ * Account to view the portal as
+ */
+export interface ImpersonationTarget {
+  userType: StartImpersonationInput['userType'];
+  userId: string;
+  name: string;
+  email: string;
+}
+
+interface ImpersonateUserModalProps {
+  target: ImpersonationTarget | null;
+  onClose: () => void;
+}
+
+const DURATION_OPTIONS = [15, 30, 60];
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 transition-colors';
+
+/**
+ * Impersonate User Modal
+ * Asks for a reason before starting a time-boxed, audited "view as" session
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 4: Race conditions (prevent concurrent calls)
+ * - Rule 9: TypeScript strict (no 'any')
+ */
+const ImpersonateUserModal: React.FC<ImpersonateUserModalProps> = ({ target, onClose }) => {
+  const navigate = useNavigate();
+  const { startImpersonation } = useAuthStore();
+  const { showError } = useToast();
+  const [reason, setReason] = useState('');
+  const [readOnly, setReadOnly] = useState(true);
+  const [durationMinutes, setDurationMinutes] = useState(30);
+  const [isStarting, setIsStarting] = useState(false);
+
+  // Reset the form for every new target
+  useEffect(() => {
+    setReason('');
+    setReadOnly(true);
+    setDurationMinutes(30);
+  }, [target]);
+
+  if (!target) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Prevent concurrent submissions - CORE-CRITICAL Rule 4
+    if (isStarting) return;
+
+    try {
+      setIsStarting(true);
+      await startImpersonation({
+        userType: target.userType,
+        userId: target.userId,
+        reason,
+        readOnly,
+        durationMinutes
+      });
+
+      onClose();
+      navigate(getRouteForUser(target.userType));
+    } catch (err) {
+      showError('Failed to Start Impersonation', err instanceof Error ? err.message : 'Failed to start impersonation');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const isFormValid = reason.trim().length >= 10;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="impersonate-modal-title"
+    >
+      <div className="bg-white rounded-lg shadow-xl p-6 max-w-lg w-full border border-gray-200">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-2">
+            <EyeIcon className="h-5 w-5 text-amber-600" />
+            <h2 id="impersonate-modal-title" className="text-lg font-semibold text-gray-900">
+              View as {DOMPurify.sanitize(target.name)}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isStarting}
+            className="p-1 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+          >
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          You will see the portal exactly as <strong>{DOMPurify.sanitize(target.email)}</strong> does.
+          The session is recorded in the audit log under both accounts and ends automatically.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+              Reason *
+            </label>
+            <textarea
+              required
+              rows={3}
+              maxLength={500}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Ticket #123 - client cannot see their uploaded documents"
+              className={inputClassName}
+            />
+            <p className="text-xs text-gray-500 mt-1">At least 10 characters</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+              Duration
+            </label>
+            <select
+              value={durationMinutes}
+              onChange={(e) => setDurationMinutes(Number(e.target.value))}
+              className={inputClassName}
+            >
+              {DURATION_OPTIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>{minutes} minutes</option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-start gap-2">
+            <input
+              type="checkbox"
+              checked={readOnly}
+              onChange={(e) => setReadOnly(e.target.checked)}
+              className="mt-0.5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <span className="text-sm text-gray-700">
+              Read-only
+              <span className="block text-xs text-gray-500">Uncheck only if you need to make changes on the user's behalf</span>
+            </span>
+          </label>
+
+          <div className="flex justify-end gap-3 mt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isStarting}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 text-sm font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isStarting || !isFormValid}
+              className="px-4 py-2 bg-amber-600 hover:bg-amber-700 text-white rounded-lg transition-colors disabled:opacity-50 text-sm font-medium"
+            >
+              {isStarting ? 'Starting...' : 'Start Impersonation'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ImpersonateUserModal;
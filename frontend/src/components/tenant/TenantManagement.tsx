@@ -14,12 +14,14 @@ import DOMPurify from 'dompurify';
 import { 
   TrashIcon,
   PencilIcon,
-  ExclamationTriangleIcon
+  ExclamationTriangleIcon,
+  EyeIcon
 } from '@heroicons/react/24/outline';
 import { SuperAdminService, TenantData, UpdateTenantInput } from '../../services/super-admin.service';
 import { useToast } from '../../contexts/ToastContext';
 import EditTenantModal from '../modals/EditTenantModal';
 import DeleteConfirmModal from '../modals/DeleteConfirmModal';
+import ImpersonateUserModal, { ImpersonationTarget } from '../modals/ImpersonateUserModal';
 
 interface TenantManagementProps {
   onTenantCountChange?: (count: number) => void;
@@ -41,6 +43,7 @@ export const TenantManagement: React.FC<TenantManagementProps> = ({
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [deleteTenant, setDeleteTenant] = useState<{ id: string; name: string } | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [impersonationTarget, setImpersonationTarget] = useState<ImpersonationTarget | null>(null);
 
   // Hooks
   const { showSuccess, showError } = useToast();
@@ -257,7 +260,7 @@ export const TenantManagement: React.FC<TenantManagementProps> = ({
                         tenant.plan === 'basic' ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400' :
                         'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300'
                       }`}>
-                        {tenant.plan}
+                        {DOMPurify.sanitize(tenant.planName || tenant.plan || 'No plan')}
                       </span>
                     </td>
                     <td className="px-2 sm:px-3 py-2 whitespace-nowrap text-xs text-gray-500 dark:text-gray-400 hidden lg:table-cell">
@@ -286,6 +289,21 @@ export const TenantManagement: React.FC<TenantManagementProps> = ({
                           <PencilIcon className="h-3 w-3 sm:h-4 sm:w-4" />
                           <span className="hidden sm:inline">Edit</span>
                         </button>
+                        {tenant.adminId && tenant.status === 'active' && (
+                          <button
+                            onClick={() => setImpersonationTarget({
+                              userType: 'tenant_admin',
+                              userId: tenant.adminId as string,
+                              name: `${tenant.adminFirstName} ${tenant.adminLastName}`,
+                              email: tenant.adminEmail
+                            })}
+                            className="text-amber-600 hover:text-amber-800 dark:text-amber-400 dark:hover:text-amber-300 flex items-center gap-1"
+                            aria-label={`View tenant ${tenant.name} as its admin`}
+                          >
+                            <EyeIcon className="h-3 w-3 sm:h-4 sm:w-4" />
+                            <span className="hidden sm:inline">View as</span>
+                          </button>
+                        )}
                         <button 
                           onClick={() => handleDeleteClick(tenant.id, tenant.name)}
                           className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300 flex items-center gap-1"
@@ -325,6 +343,12 @@ export const TenantManagement: React.FC<TenantManagementProps> = ({
         itemType="tenant"
         isDeleting={isDeleting}
       />
+
+      {/* Impersonation Modal */}
+      <ImpersonateUserModal
+        target={impersonationTarget}
+        onClose={() => setImpersonationTarget(null)}
+      />
     </>
   );
 };
@@ -19,6 +19,11 @@ import {
 import { useAuthStore } from '../stores/auth-store';
 import { apiClient } from '../services/api-client';
 import DashboardLayout from '../components/layout/DashboardLayout';
+import ApplicationCompletenessList from '../components/applications/ApplicationCompletenessList';
+import {
+  DocumentChecklistService,
+  ApplicationCompleteness
+} from '../services/document-checklist.service';
 
 /**
  * Client Profile Data Interface
@@ -53,6 +58,9 @@ export const ClientDashboard: React.FC = () => {
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [completeness, setCompleteness] = useState<ApplicationCompleteness[]>([]);
+  const [isCompletenessLoading, setIsCompletenessLoading] = useState(true);
+  const [completenessError, setCompletenessError] = useState<string | null>(null);
 
   // Hooks
   const { user } = useAuthStore();
@@ -100,6 +108,41 @@ export const ClientDashboard: React.FC = () => {
   };
 
 
+  /**
+   * Load document checklist completeness on component mount
+   */
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadCompleteness = async () => {
+      try {
+        const response = await DocumentChecklistService.getMyCompleteness();
+        if (!isMounted) return;
+
+        if (response.success && response.data) {
+          setCompleteness(response.data.applications);
+        } else {
+          throw new Error(response.error?.message || 'Failed to load document checklist');
+        }
+      } catch (err) {
+        if (isMounted) {
+          setCompletenessError(err instanceof Error ? err.message : 'Failed to load document checklist');
+        }
+      } finally {
+        if (isMounted) {
+          setIsCompletenessLoading(false);
+        }
+      }
+    };
+
+    loadCompleteness();
+
+    // Cleanup - CORE-CRITICAL Rule 2
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
   /**
    * Load profile on component mount
    */
@@ -173,6 +216,15 @@ export const ClientDashboard: React.FC = () => {
           </div>
         </div>
 
+        {/* Document Checklist Card */}
+        <ApplicationCompletenessList
+          title="Document Checklist"
+          applications={completeness}
+          isLoading={isCompletenessLoading}
+          error={completenessError}
+          emptyMessage="You have no applications yet."
+        />
+
         {/* Personal Information Form */}
  <div className="bg-white border border-gray-200 rounded-lg p-4">
           <h2 className="text-base font-semibold text-gray-900 mb-4">
@@ -41,7 +41,7 @@ export const Register: React.FC = () => {
                 Account Creation Notice
               </h3>
               <div className="mt-2 text-sm text-blue-700">
-                <p>Client accounts are created by your immigration consultant. Please contact your RCIC (Regulated Canadian Immigration Consultant) to set up your account.</p>
+                <p>New accounts are reviewed by your immigration consultant before you can sign in. If registration is not available, please contact your RCIC (Regulated Canadian Immigration Consultant) to set up your account.</p>
                 <p className="mt-2 font-medium">If you are an immigration consultant, please use the appropriate login option above.</p>
               </div>
             </div>
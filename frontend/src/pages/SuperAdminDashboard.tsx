@@ -14,6 +14,7 @@ import { useNavigate } from 'react-router-dom';
 import { PlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
 import { useAuthStore } from '../stores/auth-store';
 import { SuperAdminService, TenantData, CreateTenantInput } from '../services/super-admin.service';
+import { SubscriptionPlanService, SubscriptionPlanData } from '../services/subscription-plan.service';
 import { useToast } from '../contexts/ToastContext';
 import DashboardLayout from '../components/layout/DashboardLayout';
 
@@ -181,12 +182,33 @@ const CreateTenantModal: React.FC<CreateTenantModalProps> = ({
     adminPassword: '',
     adminFirstName: '',
     adminLastName: '',
-    plan: 'basic',
-    maxTeamMembers: 5,
-    maxClients: 100
+    planId: undefined
   };
   
   const [formData, setFormData] = useState<CreateTenantInput>(initialFormData);
+  const [plans, setPlans] = useState<SubscriptionPlanData[]>([]);
+
+  // Load the plans a new tenant can start on
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let isMounted = true;
+    SubscriptionPlanService.getActivePlans(1, 100)
+      .then(response => {
+        if (isMounted && response.success && response.data) {
+          setPlans(response.data.data);
+        }
+      })
+      .catch(() => {
+        // Without plans the default plan is used
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [isOpen]);
+
+  const selectedPlan = plans.find(plan => plan.id === formData.planId);
 
   // Password validation: min 8 chars, 1 uppercase, 1 number, 1 special char
   const validatePassword = (password: string): boolean => {
@@ -235,7 +257,8 @@ const CreateTenantModal: React.FC<CreateTenantModalProps> = ({
   const validateForm = (): boolean => {
     const errors: Record<string, string> = {};
 
-    if (!formData.adminPassword || !validatePassword(formData.adminPassword)) {
+    // Left empty when the admin email already has a password on the portal
+    if (formData.adminPassword && !validatePassword(formData.adminPassword)) {
       errors.adminPassword = 'Password must be at least 8 characters with uppercase, number, and special character';
     }
 
@@ -267,7 +290,7 @@ const CreateTenantModal: React.FC<CreateTenantModalProps> = ({
       console.log('API Response:', response);
       
       if (response.success) {
-        showSuccess('Tenant Created Successfully', `Tenant "${formData.name}" has been created successfully`);
+        showSuccess('Tenant Created Successfully', response.data?.message || `Tenant "${formData.name}" has been created successfully`);
         setFormData(initialFormData); // Reset form
         setFormErrors({});
         onSuccess();
@@ -457,11 +480,10 @@ const CreateTenantModal: React.FC<CreateTenantModalProps> = ({
 
             <div className="col-span-2">
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Admin Password *
+                Admin Password
               </label>
               <input
                 type="password"
-                required
                 value={formData.adminPassword}
                 onChange={(e) => setFormData({ ...formData, adminPassword: e.target.value })}
                 className={`w-full px-2 py-1.5 border rounded-md focus:ring-2 focus:ring-primary-500 dark:bg-gray-800 dark:text-white transition-colors text-sm ${
@@ -471,8 +493,10 @@ const CreateTenantModal: React.FC<CreateTenantModalProps> = ({
                 aria-invalid={!!formErrors.adminPassword}
                 aria-describedby={formErrors.adminPassword ? 'password-error' : undefined}
               />
-              {formErrors.adminPassword && (
+              {formErrors.adminPassword ? (
                 <p id="password-error" className="mt-1 text-xs text-red-600 dark:text-red-400">{formErrors.adminPassword}</p>
+              ) : (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Leave empty if this email already has a password on the portal</p>
               )}
             </div>
 
@@ -481,43 +505,23 @@ const CreateTenantModal: React.FC<CreateTenantModalProps> = ({
                 Plan
               </label>
               <select
-                value={formData.plan}
-                onChange={(e) => setFormData({ ...formData, plan: e.target.value as CreateTenantInput['plan'] })}
+                value={formData.planId || ''}
+                onChange={(e) => setFormData({ ...formData, planId: e.target.value || undefined })}
                 className="w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-primary-500 dark:bg-gray-800 dark:text-white transition-colors text-sm"
               >
-                <option value="free">Free</option>
-                <option value="basic">Basic</option>
-                <option value="premium">Premium</option>
-                <option value="enterprise">Enterprise</option>
+                <option value="">Default plan</option>
+                {plans.map((plan) => (
+                  <option key={plan.id} value={plan.id}>{plan.name}</option>
+                ))}
               </select>
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Max Team Members
-              </label>
-              <input
-                type="number"
-                min="1"
-                max="100"
-                value={formData.maxTeamMembers}
-                onChange={(e) => setFormData({ ...formData, maxTeamMembers: parseInt(e.target.value) })}
-                className="w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-primary-500 dark:bg-gray-800 dark:text-white transition-colors text-sm"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Max Clients
-              </label>
-              <input
-                type="number"
-                min="1"
-                max="10000"
-                value={formData.maxClients}
-                onChange={(e) => setFormData({ ...formData, maxClients: parseInt(e.target.value) })}
-                className="w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-primary-500 dark:bg-gray-800 dark:text-white transition-colors text-sm"
-              />
+            <div className="flex items-end">
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {selectedPlan
+                  ? `${selectedPlan.limits.maxTeamMembers} team members, ${selectedPlan.limits.maxClients} clients, ${selectedPlan.limits.maxStorage} MB storage`
+                  : 'Limits and features come from the selected plan'}
+              </p>
             </div>
           </div>
 
@@ -544,4 +548,4 @@ const CreateTenantModal: React.FC<CreateTenantModalProps> = ({
   );
 };
 
-export default SuperAdminDashboard;
\ No newline at end of file
+export default SuperAdminDashboard;
\ No newline at end of file
@@ -18,6 +18,11 @@ import { useAuthStore } from '../stores/auth-store';
 import { apiClient } from '../services/api-client';
 import { ClientData } from '../services/tenant-admin.service';
 import DashboardLayout from '../components/layout/DashboardLayout';
+import ApplicationCompletenessList from '../components/applications/ApplicationCompletenessList';
+import {
+  DocumentChecklistService,
+  ApplicationCompleteness
+} from '../services/document-checklist.service';
 
 /**
  * Team Member Dashboard Component
@@ -27,6 +32,9 @@ export const TeamMemberDashboard: React.FC = () => {
   const [clients, setClients] = useState<ClientData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [completeness, setCompleteness] = useState<ApplicationCompleteness[]>([]);
+  const [isCompletenessLoading, setIsCompletenessLoading] = useState(true);
+  const [completenessError, setCompletenessError] = useState<string | null>(null);
 
   // Hooks
   const { user } = useAuthStore();
@@ -57,12 +65,35 @@ export const TeamMemberDashboard: React.FC = () => {
   }, []);
 
 
+  /**
+   * Load document checklist completeness of assigned applications
+   */
+  const loadCompleteness = useCallback(async () => {
+    try {
+      setIsCompletenessLoading(true);
+      setCompletenessError(null);
+
+      const response = await DocumentChecklistService.getAssignedCompleteness();
+
+      if (response.success && response.data) {
+        setCompleteness(response.data.applications);
+      } else {
+        throw new Error(response.error?.message || 'Failed to load document checklists');
+      }
+    } catch (err) {
+      setCompletenessError(err instanceof Error ? err.message : 'Failed to load document checklists');
+    } finally {
+      setIsCompletenessLoading(false);
+    }
+  }, []);
+
   /**
    * Load data on component mount
    */
   useEffect(() => {
     loadMyClients();
-  }, [loadMyClients]);
+    loadCompleteness();
+  }, [loadMyClients, loadCompleteness]);
 
   // Access control
   if (!user || user.userType !== 'team_member') {
@@ -115,6 +146,15 @@ export const TeamMemberDashboard: React.FC = () => {
           </div>
         </div>
 
+        {/* Document Completeness Section */}
+        <ApplicationCompletenessList
+          title="Application Documents"
+          applications={completeness}
+          isLoading={isCompletenessLoading}
+          error={completenessError}
+          emptyMessage="No open applications assigned to you."
+        />
+
         {/* My Clients Section */}
         <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
           <div className="px-4 py-3 border-b border-gray-200">
@@ -23,6 +23,11 @@ import {
   CreateClientInput
 } from '../services/tenant-admin.service';
 import DashboardLayout from '../components/layout/DashboardLayout';
+import ApplicationCompletenessList from '../components/applications/ApplicationCompletenessList';
+import {
+  DocumentChecklistService,
+  ApplicationCompleteness
+} from '../services/document-checklist.service';
 
 /**
  * Tenant Admin Dashboard Component
@@ -33,6 +38,9 @@ export const TenantAdminDashboard: React.FC = () => {
   const [clients, setClients] = useState<ClientData[]>([]);
   const [showCreateTeamModal, setShowCreateTeamModal] = useState(false);
   const [showCreateClientModal, setShowCreateClientModal] = useState(false);
+  const [completeness, setCompleteness] = useState<ApplicationCompleteness[]>([]);
+  const [isCompletenessLoading, setIsCompletenessLoading] = useState(true);
+  const [completenessError, setCompletenessError] = useState<string | null>(null);
 
   // Hooks
   const { user } = useAuthStore();
@@ -67,13 +75,36 @@ export const TenantAdminDashboard: React.FC = () => {
     }
   }, []);
 
+  /**
+   * Load document checklist completeness of open applications
+   */
+  const loadCompleteness = useCallback(async () => {
+    try {
+      setIsCompletenessLoading(true);
+      setCompletenessError(null);
+
+      const response = await DocumentChecklistService.getTenantCompleteness();
+
+      if (response.success && response.data) {
+        setCompleteness(response.data.applications);
+      } else {
+        throw new Error(response.error?.message || 'Failed to load document checklists');
+      }
+    } catch (err) {
+      setCompletenessError(err instanceof Error ? err.message : 'Failed to load document checklists');
+    } finally {
+      setIsCompletenessLoading(false);
+    }
+  }, []);
+
   /**
    * Load all data on component mount
    */
   useEffect(() => {
     loadTeamMembers();
     loadClients();
-  }, [loadTeamMembers, loadClients]);
+    loadCompleteness();
+  }, [loadTeamMembers, loadClients, loadCompleteness]);
 
   // Access control
   if (!user || user.userType !== 'tenant_admin') {
@@ -119,6 +150,15 @@ export const TenantAdminDashboard: React.FC = () => {
           </div>
         </div>
 
+        {/* Document Completeness - least complete first */}
+        <ApplicationCompletenessList
+          title="Open Applications - Document Completeness"
+          applications={completeness}
+          isLoading={isCompletenessLoading}
+          error={completenessError}
+          emptyMessage="No open applications."
+        />
+
         {/* Action Buttons */}
         <div className="flex gap-4 mb-6">
           <button
@@ -221,7 +261,7 @@ const CreateTeamMemberModal: React.FC<CreateTeamMemberModalProps> = ({
       const response = await TenantAdminService.createTeamMember(formData);
       
       if (response.success) {
-        alert('Team member created successfully!');
+        alert(response.data?.message || 'Team member created successfully!');
         onSuccess();
       } else {
         throw new Error(response.error?.message || 'Failed to create team member');
@@ -294,17 +334,19 @@ const CreateTeamMemberModal: React.FC<CreateTeamMemberModalProps> = ({
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1.5">
-              Password *
+              Password
             </label>
             <input
               type="password"
-              required
               minLength={8}
               value={formData.password}
               onChange={(e) => setFormData({ ...formData, password: e.target.value })}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 transition-colors"
               placeholder="Min 8 characters"
             />
+            <p className="mt-1 text-xs text-gray-500">
+              Leave empty if this email already has a password on the portal
+            </p>
           </div>
 
           <div>
@@ -382,7 +424,7 @@ const CreateClientModal: React.FC<CreateClientModalProps> = ({
       const response = await TenantAdminService.createClient(formData);
       
       if (response.success) {
-        alert('Client created successfully!');
+        alert(response.data?.message || 'Client created successfully!');
         onSuccess();
       } else {
         throw new Error(response.error?.message || 'Failed to create client');
@@ -455,17 +497,19 @@ const CreateClientModal: React.FC<CreateClientModalProps> = ({
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1.5">
-              Password *
+              Password
             </label>
             <input
               type="password"
-              required
               minLength={8}
               value={formData.password}
               onChange={(e) => setFormData({ ...formData, password: e.target.value })}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 transition-colors"
               placeholder="Min 8 characters"
             />
+            <p className="mt-1 text-xs text-gray-500">
+              Leave empty if this email already has a password on the portal
+            </p>
           </div>
 
           <div className="grid grid-cols-2 gap-3">
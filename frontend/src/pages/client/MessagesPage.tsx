@@ -1,6 +1,6 @@
 import React from 'react';
-import { BellIcon } from '@heroicons/react/24/outline';
 import DashboardLayout from '../../components/layout/DashboardLayout';
+import MessagingCenter from '../../components/messaging/MessagingCenter';
 import { useAuthStore } from '../../stores/auth-store';
 
 const MessagesPage: React.FC = () => {
@@ -13,23 +13,17 @@ const MessagesPage: React.FC = () => {
       tenantName={user?.tenantName}
     >
       <div className="max-w-7xl mx-auto px-4 lg:px-6 py-6">
-        <h1 className="text-xl font-semibold text-gray-900">Messages</h1>
-        <p className="text-sm text-gray-600 mt-2">
-          Communicate with your immigration consultant
-        </p>
-
-        <div className="bg-white border border-gray-200 rounded-lg p-4 mt-6">
-          <div className="text-center py-12">
-            <BellIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-            <h3 className="text-base font-semibold text-gray-900 mb-2">Messages</h3>
-            <p className="text-sm text-gray-600">
-              This page will contain messaging functionality
-            </p>
-          </div>
+        <div className="mb-6">
+          <h1 className="text-xl font-semibold text-gray-900">Messages</h1>
+          <p className="text-sm text-gray-600 mt-2">
+            Communicate with your immigration consultant
+          </p>
         </div>
+
+        <MessagingCenter role="client" />
       </div>
     </DashboardLayout>
   );
 };
 
-export default MessagesPage;
\ No newline at end of file
+export default MessagesPage;
@@ -1,10 +1,140 @@
-import React from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { UserCircleIcon } from '@heroicons/react/24/outline';
 import DashboardLayout from '../../components/layout/DashboardLayout';
 import { useAuthStore } from '../../stores/auth-store';
+import { useToast } from '../../contexts/ToastContext';
+import { MfaSettingsCard } from '../../components/MfaSettingsCard';
+import { ChangePasswordCard } from '../../components/ChangePasswordCard';
+import {
+  ClientProfileService,
+  ClientProfile,
+  NotificationPreferences
+} from '../../services/client-profile.service';
+
+interface ProfileFormData {
+  firstName: string;
+  lastName: string;
+  phone: string;
+  dateOfBirth: string;
+  nationality: string;
+  address: string;
+  emergencyName: string;
+  emergencyPhone: string;
+  emergencyRelationship: string;
+  theme: 'light' | 'dark' | 'system';
+  notifications: NotificationPreferences;
+}
+
+const toFormData = (profile: ClientProfile): ProfileFormData => ({
+  firstName: profile.firstName,
+  lastName: profile.lastName,
+  phone: profile.profile.phone || '',
+  dateOfBirth: profile.profile.dateOfBirth ? profile.profile.dateOfBirth.slice(0, 10) : '',
+  nationality: profile.profile.nationality || '',
+  address: profile.profile.address || '',
+  emergencyName: profile.profile.emergencyContact?.name || '',
+  emergencyPhone: profile.profile.emergencyContact?.phone || '',
+  emergencyRelationship: profile.profile.emergencyContact?.relationship || '',
+  theme: profile.preferences.theme,
+  notifications: { ...profile.preferences.notifications }
+});
+
+const NOTIFICATION_CHANNELS: { key: keyof NotificationPreferences; label: string }[] = [
+  { key: 'email', label: 'Email notifications' },
+  { key: 'push', label: 'Push notifications' },
+  { key: 'sms', label: 'SMS notifications' }
+];
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 transition-colors';
 
 const ProfilePage: React.FC = () => {
-  const { user } = useAuthStore();
+  const { user, setUser } = useAuthStore();
+  const { showSuccess, showError } = useToast();
+  const [profile, setProfile] = useState<ClientProfile | null>(null);
+  const [formData, setFormData] = useState<ProfileFormData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProfile = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await ClientProfileService.getProfile();
+
+      if (response.success && response.data) {
+        setProfile(response.data.profile);
+        setFormData(toFormData(response.data.profile));
+      } else {
+        throw new Error(response.error?.message || 'Failed to load profile');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load profile';
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  const updateField = <K extends keyof ProfileFormData>(key: K, value: ProfileFormData[K]) => {
+    setFormData(current => (current ? { ...current, [key]: value } : current));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData) return;
+
+    const hasEmergencyContact = formData.emergencyName || formData.emergencyPhone || formData.emergencyRelationship;
+
+    try {
+      setIsSaving(true);
+      const response = await ClientProfileService.updateProfile({
+        firstName: formData.firstName,
+        lastName: formData.lastName,
+        profile: {
+          phone: formData.phone,
+          dateOfBirth: formData.dateOfBirth,
+          nationality: formData.nationality,
+          address: formData.address,
+          emergencyContact: hasEmergencyContact
+            ? {
+              name: formData.emergencyName,
+              phone: formData.emergencyPhone,
+              relationship: formData.emergencyRelationship
+            }
+            : null
+        },
+        preferences: {
+          theme: formData.theme,
+          notifications: formData.notifications
+        }
+      });
+
+      if (response.success && response.data) {
+        const updated = response.data.profile;
+        setProfile(updated);
+        setFormData(toFormData(updated));
+
+        if (user) {
+          setUser({ ...user, firstName: updated.firstName, lastName: updated.lastName });
+        }
+
+        showSuccess('Profile Updated', 'Your details have been saved.');
+      } else {
+        throw new Error(response.error?.message || 'Failed to update profile');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update profile';
+      showError('Failed to Update Profile', errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
   return (
     <DashboardLayout
@@ -18,18 +148,200 @@ const ProfilePage: React.FC = () => {
           View and update your profile information
         </p>
 
-        <div className="bg-white border border-gray-200 rounded-lg p-4 mt-6">
-          <div className="text-center py-12">
-            <UserCircleIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-            <h3 className="text-base font-semibold text-gray-900 mb-2">My Profile</h3>
-            <p className="text-sm text-gray-600">
-              This page will contain your profile settings
-            </p>
+        {isLoading ? (
+          <div className="bg-white border border-gray-200 rounded-lg p-4 mt-6">
+            <p className="text-sm text-gray-600 text-center py-12">Loading profile...</p>
+          </div>
+        ) : error || !profile || !formData ? (
+          <div className="bg-white border border-gray-200 rounded-lg p-4 mt-6">
+            <div className="text-center py-12">
+              <UserCircleIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <p className="text-sm text-red-600 mb-4">{error || 'Profile unavailable'}</p>
+              <button
+                onClick={loadProfile}
+                className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white text-sm font-medium rounded-lg transition-colors"
+              >
+                Try Again
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4 mt-6">
+            <div className="bg-white border border-gray-200 rounded-lg p-4">
+              <h2 className="text-base font-semibold text-gray-900 mb-1">Personal Details</h2>
+              <p className="text-xs text-gray-500 mb-4">
+                {profile.email}
+                {profile.assignedToName && ` · Your consultant: ${profile.assignedToName}`}
+              </p>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1.5">First Name *</label>
+                  <input
+                    type="text"
+                    required
+                    maxLength={50}
+                    value={formData.firstName}
+                    onChange={(e) => updateField('firstName', e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1.5">Last Name *</label>
+                  <input
+                    type="text"
+                    required
+                    maxLength={50}
+                    value={formData.lastName}
+                    onChange={(e) => updateField('lastName', e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1.5">Phone</label>
+                  <input
+                    type="tel"
+                    maxLength={20}
+                    value={formData.phone}
+                    onChange={(e) => updateField('phone', e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1.5">Date of Birth</label>
+                  <input
+                    type="date"
+                    value={formData.dateOfBirth}
+                    onChange={(e) => updateField('dateOfBirth', e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1.5">Nationality</label>
+                  <input
+                    type="text"
+                    maxLength={50}
+                    value={formData.nationality}
+                    onChange={(e) => updateField('nationality', e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1.5">Address</label>
+                  <input
+                    type="text"
+                    maxLength={200}
+                    value={formData.address}
+                    onChange={(e) => updateField('address', e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-white border border-gray-200 rounded-lg p-4">
+              <h2 className="text-base font-semibold text-gray-900 mb-1">Emergency Contact</h2>
+              <p className="text-xs text-gray-500 mb-4">Leave all fields empty to remove the contact</p>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1.5">Name</label>
+                  <input
+                    type="text"
+                    maxLength={100}
+                    value={formData.emergencyName}
+                    onChange={(e) => updateField('emergencyName', e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1.5">Phone</label>
+                  <input
+                    type="tel"
+                    maxLength={20}
+                    value={formData.emergencyPhone}
+                    onChange={(e) => updateField('emergencyPhone', e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1.5">Relationship</label>
+                  <input
+                    type="text"
+                    maxLength={50}
+                    value={formData.emergencyRelationship}
+                    onChange={(e) => updateField('emergencyRelationship', e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-white border border-gray-200 rounded-lg p-4">
+              <h2 className="text-base font-semibold text-gray-900 mb-4">Preferences</h2>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1.5">Theme</label>
+                  <select
+                    value={formData.theme}
+                    onChange={(e) => updateField('theme', e.target.value as ProfileFormData['theme'])}
+                    className={inputClassName}
+                  >
+                    <option value="system">System</option>
+                    <option value="light">Light</option>
+                    <option value="dark">Dark</option>
+                  </select>
+                </div>
+                <fieldset className="space-y-2">
+                  <legend className="block text-sm font-medium text-gray-700 mb-1.5">Notifications</legend>
+                  {NOTIFICATION_CHANNELS.map(channel => (
+                    <label key={channel.key} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={formData.notifications[channel.key]}
+                        onChange={(e) => updateField('notifications', {
+                          ...formData.notifications,
+                          [channel.key]: e.target.checked
+                        })}
+                        className="rounded border-gray-300 text-primary-600"
+                      />
+                      {channel.label}
+                    </label>
+                  ))}
+                </fieldset>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setFormData(toFormData(profile))}
+                disabled={isSaving}
+                className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 text-sm font-medium"
+              >
+                Reset
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors disabled:opacity-50 text-sm font-medium"
+              >
+                {isSaving ? 'Saving...' : 'Save Changes'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {!isLoading && profile && (
+          <div className="mt-4 space-y-4">
+            <ChangePasswordCard />
+            <MfaSettingsCard />
           </div>
-        </div>
+        )}
       </div>
     </DashboardLayout>
   );
 };
 
-export default ProfilePage;
\ No newline at end of file
+export default ProfilePage;
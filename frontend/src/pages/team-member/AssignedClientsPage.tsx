@@ -1,10 +1,145 @@
-import React from 'react';
-import { UsersIcon } from '@heroicons/react/24/outline';
+import React, { useState, useEffect, useCallback } from 'react';
+import { UsersIcon, PlusIcon } from '@heroicons/react/24/outline';
 import DashboardLayout from '../../components/layout/DashboardLayout';
 import { useAuthStore } from '../../stores/auth-store';
+import { useToast } from '../../contexts/ToastContext';
+import { ApplicationData } from '../../types/api.types';
+import {
+  TeamMemberService,
+  AssignedClient,
+  ApplicationStatus,
+  ApplicationType,
+  ApplicationPriority
+} from '../../services/team-member.service';
+
+const APPLICATION_TYPES: ApplicationType[] = [
+  'visitor_visa',
+  'study_visa',
+  'work_permit',
+  'permanent_residence',
+  'family_sponsorship',
+  'business_immigration'
+];
+const PRIORITY_OPTIONS: ApplicationPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+// Mirrors the team member transition graph enforced by the server
+const TEAM_MEMBER_TRANSITIONS: Partial<Record<ApplicationStatus, ApplicationStatus[]>> = {
+  submitted: ['in_review'],
+  in_review: ['in_progress', 'draft'],
+  in_progress: ['in_review']
+};
+
+const formatLabel = (value: string) => value.replace(/_/g, ' ');
 
 const AssignedClientsPage: React.FC = () => {
   const { user } = useAuthStore();
+  const { showSuccess, showError } = useToast();
+  const [clients, setClients] = useState<AssignedClient[]>([]);
+  const [selectedClient, setSelectedClient] = useState<AssignedClient | null>(null);
+  const [applications, setApplications] = useState<ApplicationData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingApplications, setIsLoadingApplications] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newType, setNewType] = useState<ApplicationType>('visitor_visa');
+  const [newPriority, setNewPriority] = useState<ApplicationPriority>('medium');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const loadClients = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await TeamMemberService.getMyClients();
+
+      if (response.success && response.data) {
+        setClients(response.data.clients);
+      } else {
+        throw new Error(response.error?.message || 'Failed to load clients');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load clients';
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const loadApplications = useCallback(async (clientId: string) => {
+    try {
+      setIsLoadingApplications(true);
+
+      const response = await TeamMemberService.getApplications({ clientId });
+
+      if (response.success && response.data) {
+        setApplications(response.data.applications);
+      } else {
+        throw new Error(response.error?.message || 'Failed to load applications');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load applications';
+      showError('Failed to Load Applications', errorMessage);
+    } finally {
+      setIsLoadingApplications(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadClients();
+  }, [loadClients]);
+
+  useEffect(() => {
+    if (selectedClient) {
+      loadApplications(selectedClient.id);
+    } else {
+      setApplications([]);
+    }
+  }, [selectedClient, loadApplications]);
+
+  const handleCreateApplication = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedClient) return;
+
+    try {
+      setIsCreating(true);
+      const response = await TeamMemberService.createApplication({
+        clientId: selectedClient.id,
+        type: newType,
+        priority: newPriority
+      });
+
+      if (response.success) {
+        showSuccess('Application Created', `A ${formatLabel(newType)} application was opened.`);
+        await loadApplications(selectedClient.id);
+      } else {
+        throw new Error(response.error?.message || 'Failed to create application');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create application';
+      showError('Failed to Create Application', errorMessage);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleApplicationChange = async (
+    application: ApplicationData,
+    changes: { status?: ApplicationStatus; priority?: ApplicationPriority }
+  ) => {
+    try {
+      const response = await TeamMemberService.updateApplication(application.id, changes);
+
+      if (response.success && response.data) {
+        const updated = response.data.application;
+        setApplications(current => current.map(item => (item.id === updated.id ? updated : item)));
+        showSuccess('Application Updated', 'The application was updated.');
+      } else {
+        throw new Error(response.error?.message || 'Failed to update application');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update application';
+      showError('Failed to Update Application', errorMessage);
+    }
+  };
 
   return (
     <DashboardLayout
@@ -13,18 +148,151 @@ const AssignedClientsPage: React.FC = () => {
       tenantName={user?.tenantName}
     >
       <div className="max-w-7xl mx-auto px-4 lg:px-6 py-6">
-        <h1 className="text-page-title">Assigned Clients
-        </h1><p className="text-body mt-1">View and manage your assigned clients</p>
-
-        <div className="card p-6 mt-6">
-          <div className="text-center py-12">
-            <UsersIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-            <h3 className="text-section-title mb-2">Assigned Clients</h3>
-            <p className="text-body">This page will contain your assigned clients
-            </p>
-          </div>
+        <div className="mb-6">
+          <h1 className="text-page-title">Assigned Clients</h1>
+          <p className="text-body mt-1">View and manage your assigned clients</p>
         </div>
-      </div></DashboardLayout>
+
+        {isLoading ? (
+          <div className="card p-6">
+            <p className="text-body text-center">Loading clients...</p>
+          </div>
+        ) : error ? (
+          <div className="card p-6">
+            <p className="text-sm text-red-600 text-center">{error}</p>
+          </div>
+        ) : clients.length === 0 ? (
+          <div className="card p-6">
+            <div className="text-center py-12">
+              <UsersIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <h3 className="text-section-title mb-2">No Assigned Clients</h3>
+              <p className="text-body">Clients assigned to you will appear here</p>
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <div className="card divide-y divide-gray-200">
+              {clients.map(client => (
+                <button
+                  key={client.id}
+                  onClick={() => setSelectedClient(client)}
+                  className={`w-full text-left px-4 py-3 transition-colors ${
+                    selectedClient?.id === client.id ? 'bg-primary-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="text-sm font-medium text-gray-900">
+                    {client.firstName} {client.lastName}
+                  </div>
+                  <div className="text-xs text-gray-500">{client.email}</div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    <span className="capitalize">{client.status}</span>
+                    {' · '}
+                    {client.openApplications} open application(s)
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            <div className="card p-4 lg:col-span-2">
+              {!selectedClient ? (
+                <p className="text-body text-center py-12">Select a client to manage their applications</p>
+              ) : (
+                <>
+                  <h2 className="text-section-title mb-1">
+                    {selectedClient.firstName} {selectedClient.lastName}
+                  </h2>
+                  <p className="text-xs text-gray-500 mb-4">
+                    {selectedClient.phone || 'No phone'} · {selectedClient.nationality || 'Nationality not set'}
+                  </p>
+
+                  <form onSubmit={handleCreateApplication} className="flex flex-wrap items-center gap-2 mb-4">
+                    <select
+                      value={newType}
+                      onChange={(e) => setNewType(e.target.value as ApplicationType)}
+                      className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 capitalize"
+                    >
+                      {APPLICATION_TYPES.map(type => (
+                        <option key={type} value={type}>{formatLabel(type)}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={newPriority}
+                      onChange={(e) => setNewPriority(e.target.value as ApplicationPriority)}
+                      className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 capitalize"
+                    >
+                      {PRIORITY_OPTIONS.map(priority => (
+                        <option key={priority} value={priority}>{priority}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="submit"
+                      disabled={isCreating}
+                      className="px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors flex items-center gap-2"
+                    >
+                      <PlusIcon className="h-4 w-4" />
+                      {isCreating ? 'Creating...' : 'New Application'}
+                    </button>
+                  </form>
+
+                  {isLoadingApplications ? (
+                    <p className="text-body text-center py-6">Loading applications...</p>
+                  ) : applications.length === 0 ? (
+                    <p className="text-body text-center py-6">No applications yet</p>
+                  ) : (
+                    <div className="divide-y divide-gray-200">
+                      {applications.map(application => {
+                        const nextStatuses = TEAM_MEMBER_TRANSITIONS[application.status] || [];
+
+                        return (
+                          <div key={application.id} className="py-3 flex flex-wrap items-center justify-between gap-2">
+                            <div>
+                              <div className="text-sm font-medium text-gray-900 capitalize">
+                                {formatLabel(application.type)}
+                              </div>
+                              <div className="text-xs text-gray-500">
+                                Updated {new Date(application.updatedAt).toLocaleDateString()}
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <select
+                                value={application.priority}
+                                onChange={(e) => handleApplicationChange(application, {
+                                  priority: e.target.value as ApplicationPriority
+                                })}
+                                className="px-2 py-1 text-xs border border-gray-300 rounded-lg capitalize"
+                                aria-label="Priority"
+                              >
+                                {PRIORITY_OPTIONS.map(priority => (
+                                  <option key={priority} value={priority}>{priority}</option>
+                                ))}
+                              </select>
+                              <select
+                                value={application.status}
+                                onChange={(e) => handleApplicationChange(application, {
+                                  status: e.target.value as ApplicationStatus
+                                })}
+                                disabled={nextStatuses.length === 0}
+                                className="px-2 py-1 text-xs border border-gray-300 rounded-lg capitalize disabled:bg-gray-50"
+                                aria-label="Status"
+                              >
+                                <option value={application.status}>{formatLabel(application.status)}</option>
+                                {nextStatuses.map(status => (
+                                  <option key={status} value={status}>{formatLabel(status)}</option>
+                                ))}
+                              </select>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
   );
 };
 
@@ -0,0 +1,27 @@
+import React from 'react';
+import DashboardLayout from '../../components/layout/DashboardLayout';
+import MessagingCenter from '../../components/messaging/MessagingCenter';
+import { useAuthStore } from '../../stores/auth-store';
+
+const MessagesPage: React.FC = () => {
+  const { user } = useAuthStore();
+
+  return (
+    <DashboardLayout
+      userType="team_member"
+      userName={user?.firstName || 'Team Member'}
+      tenantName={user?.tenantName}
+    >
+      <div className="max-w-7xl mx-auto px-4 lg:px-6 py-6">
+        <div className="mb-6">
+          <h1 className="text-page-title">Messages</h1>
+          <p className="text-body mt-1">Conversations with your assigned clients</p>
+        </div>
+
+        <MessagingCenter role="team_member" />
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default MessagesPage;
@@ -2,6 +2,8 @@ import React from 'react';
 import { UserCircleIcon } from '@heroicons/react/24/outline';
 import DashboardLayout from '../../components/layout/DashboardLayout';
 import { useAuthStore } from '../../stores/auth-store';
+import { MfaSettingsCard } from '../../components/MfaSettingsCard';
+import { ChangePasswordCard } from '../../components/ChangePasswordCard';
 
 const ProfilePage: React.FC = () => {
   const { user } = useAuthStore();
@@ -24,6 +26,11 @@ const ProfilePage: React.FC = () => {
             </p>
           </div>
         </div>
+
+        <div className="mt-6 space-y-6">
+          <ChangePasswordCard />
+          <MfaSettingsCard />
+        </div>
       </div></DashboardLayout>
   );
 };
@@ -1,10 +1,168 @@
-import React from 'react';
-import { ClipboardDocumentListIcon } from '@heroicons/react/24/outline';
+import React, { useState, useEffect, useCallback } from 'react';
+import DOMPurify from 'dompurify';
+import { ClipboardDocumentListIcon, PlusIcon, TrashIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
 import DashboardLayout from '../../components/layout/DashboardLayout';
+import DeleteConfirmModal from '../../components/modals/DeleteConfirmModal';
 import { useAuthStore } from '../../stores/auth-store';
+import { useToast } from '../../contexts/ToastContext';
+import { apiClient } from '../../services/api-client';
+import { ClientData } from '../../services/tenant-admin.service';
+import {
+  TaskService,
+  Task,
+  TaskInput,
+  TaskScope,
+  TaskStatus,
+  TaskPriority
+} from '../../services/task.service';
+
+const STATUS_OPTIONS: TaskStatus[] = ['open', 'in_progress', 'completed', 'cancelled'];
+const PRIORITY_OPTIONS: TaskPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+const priorityBadge: Record<TaskPriority, string> = {
+  low: 'bg-gray-100 text-gray-700',
+  medium: 'bg-blue-100 text-blue-700',
+  high: 'bg-amber-100 text-amber-700',
+  urgent: 'bg-red-100 text-red-700'
+};
+
+const emptyTask: TaskInput = { title: '', description: '', dueDate: '', priority: 'medium', clientId: '' };
 
 const TasksPage: React.FC = () => {
   const { user } = useAuthStore();
+  const { showSuccess, showError } = useToast();
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [clients, setClients] = useState<ClientData[]>([]);
+  const [scope, setScope] = useState<TaskScope>('assigned');
+  const [statusFilter, setStatusFilter] = useState<TaskStatus | ''>('');
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [newTask, setNewTask] = useState<TaskInput>(emptyTask);
+  const [isSaving, setIsSaving] = useState(false);
+  const [taskToDelete, setTaskToDelete] = useState<Task | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const loadTasks = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await TaskService.getTasks({
+        scope,
+        status: statusFilter || undefined,
+        overdue: overdueOnly || undefined,
+        limit: 100
+      });
+
+      if (response.success && response.data) {
+        setTasks(response.data.tasks);
+      } else {
+        throw new Error(response.error?.message || 'Failed to load tasks');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load tasks';
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [scope, statusFilter, overdueOnly]);
+
+  useEffect(() => {
+    loadTasks();
+  }, [loadTasks]);
+
+  // Assigned clients for linking tasks
+  useEffect(() => {
+    let cancelled = false;
+
+    apiClient.get<{ clients: ClientData[]; count: number }>('/api/v1/team-member/my-clients')
+      .then(response => {
+        if (!cancelled && response.success && response.data) {
+          setClients(response.data.clients);
+        }
+      })
+      .catch(() => {
+        // Client linking is optional
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const clientName = (clientId?: string): string | null => {
+    const client = clients.find(entry => entry.id === clientId);
+    return client ? `${client.firstName} ${client.lastName}` : null;
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSaving(true);
+      const response = await TaskService.createTask({
+        title: newTask.title,
+        description: newTask.description || undefined,
+        dueDate: newTask.dueDate ? new Date(newTask.dueDate).toISOString() : undefined,
+        priority: newTask.priority,
+        clientId: newTask.clientId || undefined
+      });
+
+      if (response.success && response.data) {
+        showSuccess('Task Created', 'The task has been added to your list.');
+        setNewTask(emptyTask);
+        setShowForm(false);
+        loadTasks();
+      } else {
+        throw new Error(response.error?.message || 'Failed to create task');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create task';
+      showError('Failed to Create Task', errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStatusChange = async (task: Task, status: TaskStatus) => {
+    try {
+      const response = await TaskService.updateTask(task.id, { status });
+
+      if (response.success && response.data) {
+        const updatedTask = response.data.task;
+        setTasks(current => current.map(entry => (entry.id === updatedTask.id ? updatedTask : entry)));
+      } else {
+        throw new Error(response.error?.message || 'Failed to update task');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update task';
+      showError('Failed to Update Task', errorMessage);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!taskToDelete) return;
+
+    try {
+      setIsDeleting(true);
+      const response = await TaskService.deleteTask(taskToDelete.id);
+
+      if (response.success) {
+        setTasks(current => current.filter(entry => entry.id !== taskToDelete.id));
+        showSuccess('Task Deleted', 'The task has been removed.');
+        setTaskToDelete(null);
+      } else {
+        throw new Error(response.error?.message || 'Failed to delete task');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete task';
+      showError('Failed to Delete Task', errorMessage);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
 
   return (
     <DashboardLayout
@@ -13,18 +171,210 @@ const TasksPage: React.FC = () => {
       tenantName={user?.tenantName}
     >
       <div className="max-w-7xl mx-auto px-4 lg:px-6 py-6">
-        <h1 className="text-page-title">My Tasks
-        </h1><p className="text-body mt-1">View and manage your assigned tasks</p>
-
-        <div className="card p-6 mt-6">
-          <div className="text-center py-12">
-            <ClipboardDocumentListIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-            <h3 className="text-section-title mb-2">My Tasks</h3>
-            <p className="text-body">This page will contain your task management
-            </p>
+        <div className="mb-6 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-page-title">My Tasks</h1>
+            <p className="text-body mt-1">View and manage your assigned tasks</p>
           </div>
+          <button
+            onClick={() => setShowForm(current => !current)}
+            className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white text-sm font-medium rounded-lg transition-colors flex items-center gap-1"
+          >
+            <PlusIcon className="h-4 w-4" />
+            New Task
+          </button>
+        </div>
+
+        {/* New Task */}
+        {showForm && (
+          <form onSubmit={handleCreate} className="card p-4 mb-4 grid grid-cols-1 md:grid-cols-4 gap-2">
+            <input
+              type="text"
+              value={newTask.title}
+              onChange={(e) => setNewTask({ ...newTask, title: e.target.value })}
+              placeholder="Task title"
+              maxLength={200}
+              required
+              className="md:col-span-2 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+            />
+            <input
+              type="date"
+              value={newTask.dueDate}
+              onChange={(e) => setNewTask({ ...newTask, dueDate: e.target.value })}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+            />
+            <select
+              value={newTask.priority}
+              onChange={(e) => setNewTask({ ...newTask, priority: e.target.value as TaskPriority })}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg capitalize focus:ring-2 focus:ring-primary-500"
+            >
+              {PRIORITY_OPTIONS.map(priority => (
+                <option key={priority} value={priority}>{priority}</option>
+              ))}
+            </select>
+            <textarea
+              value={newTask.description}
+              onChange={(e) => setNewTask({ ...newTask, description: e.target.value })}
+              placeholder="Description (optional)"
+              rows={2}
+              maxLength={2000}
+              className="md:col-span-3 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+            />
+            <select
+              value={newTask.clientId}
+              onChange={(e) => setNewTask({ ...newTask, clientId: e.target.value })}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+            >
+              <option value="">No client</option>
+              {clients.map(client => (
+                <option key={client.id} value={client.id}>
+                  {DOMPurify.sanitize(`${client.firstName} ${client.lastName}`)}
+                </option>
+              ))}
+            </select>
+            <div className="md:col-span-4 flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 hover:bg-gray-50 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:bg-gray-400 text-white text-sm font-medium rounded-lg transition-colors"
+              >
+                {isSaving ? 'Saving...' : 'Create Task'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          {(['assigned', 'created', 'all'] as TaskScope[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setScope(option)}
+              className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                scope === option ? 'bg-primary-50 text-primary-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option === 'assigned' ? 'Assigned to Me' : option === 'created' ? 'Created by Me' : 'All'}
+            </button>
+          ))}
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as TaskStatus | '')}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="">All statuses</option>
+            {STATUS_OPTIONS.map(status => (
+              <option key={status} value={status}>{status.replace(/_/g, ' ')}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1.5 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={overdueOnly}
+              onChange={(e) => setOverdueOnly(e.target.checked)}
+              className="rounded border-gray-300 text-primary-600"
+            />
+            Overdue only
+          </label>
         </div>
-      </div></DashboardLayout>
+
+        {isLoading ? (
+          <div className="text-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600 mx-auto"></div>
+            <p className="mt-2 text-sm text-gray-600">Loading...</p>
+          </div>
+        ) : error ? (
+          <div className="text-center py-6">
+            <div className="text-red-600">
+              <p className="text-base font-medium">Error loading tasks</p>
+              <p className="text-sm">{DOMPurify.sanitize(error)}</p>
+            </div>
+            <button
+              onClick={loadTasks}
+              className="mt-3 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : tasks.length === 0 ? (
+          <div className="card p-6">
+            <div className="text-center py-12">
+              <ClipboardDocumentListIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <h3 className="text-section-title mb-2">No Tasks</h3>
+              <p className="text-body">Nothing to do here right now.</p>
+            </div>
+          </div>
+        ) : (
+          <div className="card divide-y divide-gray-200">
+            {tasks.map(task => (
+              <div key={task.id} className="p-4 flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium text-gray-900">{DOMPurify.sanitize(task.title)}</p>
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full capitalize ${priorityBadge[task.priority]}`}>
+                      {task.priority}
+                    </span>
+                    {task.source === 'status_change' && (
+                      <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-purple-100 text-purple-700">Automatic</span>
+                    )}
+                  </div>
+                  {task.description && (
+                    <p className="text-sm text-gray-600 mt-1">{DOMPurify.sanitize(task.description)}</p>
+                  )}
+                  <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-gray-500">
+                    {task.dueDate && (
+                      <span className={task.isOverdue ? 'flex items-center text-red-600 font-medium' : ''}>
+                        {task.isOverdue && <ExclamationTriangleIcon className="h-3 w-3 mr-1" />}
+                        Due {new Date(task.dueDate).toLocaleDateString()}
+                      </span>
+                    )}
+                    {clientName(task.clientId) && (
+                      <span>{DOMPurify.sanitize(clientName(task.clientId) || '')}</span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <select
+                    value={task.status}
+                    onChange={(e) => handleStatusChange(task, e.target.value as TaskStatus)}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+                  >
+                    {STATUS_OPTIONS.map(status => (
+                      <option key={status} value={status}>{status.replace(/_/g, ' ')}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setTaskToDelete(task)}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Delete task"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <DeleteConfirmModal
+        isOpen={taskToDelete !== null}
+        onClose={() => setTaskToDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete Task"
+        message="Are you sure you want to delete this task?"
+        itemName={taskToDelete?.title || ''}
+        itemType="task"
+        isDeleting={isDeleting}
+      />
+    </DashboardLayout>
   );
 };
 
@@ -8,11 +8,13 @@ import {
 } from '@heroicons/react/24/outline';
 import DashboardLayout from '../../components/layout/DashboardLayout';
 import { useAuthStore } from '../../stores/auth-store';
+import { useToast } from '../../contexts/ToastContext';
 import { TenantBranding } from '../../types/tenant-branding.types';
 import { getTenantBranding, updateTenantBranding, applyTenantBrandingToPage } from '../../services/tenant-branding.service';
 
 const BrandingSettingsPage: React.FC = () => {
   const { user } = useAuthStore();
+  const { showError } = useToast();
   const [isSaving, setIsSaving] = useState(false);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   
@@ -75,6 +77,9 @@ const BrandingSettingsPage: React.FC = () => {
         applyTenantBrandingToPage(response.data);
         setHasUnsavedChanges(false);
         console.log('✅ Branding saved successfully');
+      } else {
+        // e.g. FEATURE_NOT_IN_PLAN when the plan has no custom branding
+        showError('Failed to Save Branding', response.error?.message || 'Failed to save branding');
       }
     } catch (error) {
       console.error('Failed to save branding:', error);
@@ -258,4 +263,4 @@ const BrandingSettingsPage: React.FC = () => {
   );
 };
 
-export default BrandingSettingsPage;
\ No newline at end of file
+export default BrandingSettingsPage;
\ No newline at end of file
@@ -1,10 +1,33 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { UsersIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import {
+  UsersIcon,
+  PlusIcon,
+  TrashIcon,
+  PencilSquareIcon,
+  ArrowsRightLeftIcon,
+  SparklesIcon,
+  EyeIcon
+} from '@heroicons/react/24/outline';
 import DashboardLayout from '../../components/layout/DashboardLayout';
 import { useAuthStore } from '../../stores/auth-store';
-import { TenantAdminService, ClientData, CreateClientInput } from '../../services/tenant-admin.service';
+import {
+  TenantAdminService,
+  ClientData,
+  CreateClientInput,
+  TeamMemberData,
+  UpdateClientInput,
+  ClientAssignmentStrategy
+} from '../../services/tenant-admin.service';
 import { useToast } from '../../contexts/ToastContext';
 import DeleteConfirmModal from '../../components/modals/DeleteConfirmModal';
+import ImpersonateUserModal, { ImpersonationTarget } from '../../components/modals/ImpersonateUserModal';
+
+const ASSIGNMENT_STRATEGY_LABELS: Record<ClientAssignmentStrategy, string> = {
+  manual: 'Manual assignment',
+  round_robin: 'Round-robin',
+  least_loaded: 'Least loaded',
+  specialization: 'By specialization'
+};
 
 const ClientsPage: React.FC = () => {
   const { user } = useAuthStore();
@@ -16,6 +39,14 @@ const ClientsPage: React.FC = () => {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [deleteClient, setDeleteClient] = useState<{ id: string; name: string } | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [teamMembers, setTeamMembers] = useState<TeamMemberData[]>([]);
+  const [editClient, setEditClient] = useState<ClientData | null>(null);
+  const [impersonationTarget, setImpersonationTarget] = useState<ImpersonationTarget | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [reassignTarget, setReassignTarget] = useState('');
+  const [isReassigning, setIsReassigning] = useState(false);
+  const [assignmentStrategy, setAssignmentStrategy] = useState<ClientAssignmentStrategy>('manual');
+  const [isAutoAssigning, setIsAutoAssigning] = useState(false);
 
   const loadClients = useCallback(async () => {
     try {
@@ -37,6 +68,113 @@ const ClientsPage: React.FC = () => {
     }
   }, []);
 
+  const loadTeamMembers = useCallback(async () => {
+    try {
+      const response = await TenantAdminService.getTeamMembers();
+
+      if (response.success && response.data) {
+        setTeamMembers(response.data.teamMembers.filter(member => member.isActive));
+      }
+    } catch {
+      // Assignment options stay empty; the client list is still usable
+    }
+  }, []);
+
+  const loadAssignmentSettings = useCallback(async () => {
+    try {
+      const response = await TenantAdminService.getClientAssignmentSettings();
+
+      if (response.success && response.data) {
+        setAssignmentStrategy(response.data.settings.strategy);
+      }
+    } catch {
+      // Keep the manual default; the strategy can still be changed
+    }
+  }, []);
+
+  const handleStrategyChange = async (strategy: ClientAssignmentStrategy) => {
+    const previous = assignmentStrategy;
+    setAssignmentStrategy(strategy);
+
+    try {
+      const response = await TenantAdminService.updateClientAssignmentSettings(strategy);
+
+      if (response.success) {
+        showSuccess('Assignment Updated', `New clients now use ${ASSIGNMENT_STRATEGY_LABELS[strategy].toLowerCase()}.`);
+      } else {
+        throw new Error(response.error?.message || 'Failed to update assignment strategy');
+      }
+    } catch (err) {
+      setAssignmentStrategy(previous);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update assignment strategy';
+      showError('Failed to Update Assignment', errorMessage);
+    }
+  };
+
+  const handleAutoAssign = async () => {
+    try {
+      setIsAutoAssigning(true);
+      const response = await TenantAdminService.autoAssignClients();
+
+      if (response.success && response.data) {
+        const { assigned, skipped } = response.data;
+        showSuccess(
+          'Clients Assigned',
+          skipped > 0
+            ? `${assigned} client(s) assigned, ${skipped} left unassigned.`
+            : `${assigned} client(s) assigned.`
+        );
+        await loadClients();
+      } else {
+        throw new Error(response.error?.message || 'Failed to assign clients');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to assign clients';
+      showError('Failed to Assign Clients', errorMessage);
+    } finally {
+      setIsAutoAssigning(false);
+    }
+  };
+
+  const toggleSelected = (clientId: string) => {
+    setSelectedIds(current => (
+      current.includes(clientId)
+        ? current.filter(id => id !== clientId)
+        : [...current, clientId]
+    ));
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(current => (current.length === clients.length ? [] : clients.map(client => client.id)));
+  };
+
+  const handleReassign = async () => {
+    if (selectedIds.length === 0) return;
+
+    try {
+      setIsReassigning(true);
+      const response = await TenantAdminService.reassignClients(
+        selectedIds,
+        reassignTarget === 'unassigned' ? null : reassignTarget
+      );
+
+      if (response.success && response.data) {
+        const targetName = response.data.assignedToName || 'no team member';
+        showSuccess('Clients Reassigned', `${selectedIds.length} client(s) moved to ${targetName}.`);
+        setSelectedIds([]);
+        setReassignTarget('');
+        await loadClients();
+      } else {
+        throw new Error(response.error?.message || 'Failed to reassign clients');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to reassign clients';
+      showError('Failed to Reassign Clients', errorMessage);
+    } finally {
+      setIsReassigning(false);
+    }
+  };
+
   const handleDeleteClick = useCallback((clientId: string, clientName: string) => {
     setDeleteClient({ id: clientId, name: clientName });
     setShowDeleteModal(true);
@@ -74,6 +212,11 @@ const ClientsPage: React.FC = () => {
     loadClients();
   }, [loadClients]);
 
+  useEffect(() => {
+    loadTeamMembers();
+    loadAssignmentSettings();
+  }, [loadTeamMembers, loadAssignmentSettings]);
+
   return (
     <DashboardLayout
       userType="tenant_admin"
@@ -86,15 +229,64 @@ const ClientsPage: React.FC = () => {
           <p className="text-body mt-1">Manage your clients and their applications</p>
         </div>
 
-        {/* Add Client Button */}
-        <div className="mb-4">
-          <button
-            onClick={() => setShowCreateModal(true)}
-            className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white text-sm font-medium rounded-lg transition-colors flex items-center gap-2"
-          >
-            <PlusIcon className="h-4 w-4" />
-            Add Client
-          </button>
+        {/* Add Client Button and Bulk Reassign */}
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => setShowCreateModal(true)}
+              className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white text-sm font-medium rounded-lg transition-colors flex items-center gap-2"
+            >
+              <PlusIcon className="h-4 w-4" />
+              Add Client
+            </button>
+            <select
+              value={assignmentStrategy}
+              onChange={(e) => handleStrategyChange(e.target.value as ClientAssignmentStrategy)}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+              aria-label="Client assignment strategy"
+            >
+              {(Object.keys(ASSIGNMENT_STRATEGY_LABELS) as ClientAssignmentStrategy[]).map(strategy => (
+                <option key={strategy} value={strategy}>
+                  {ASSIGNMENT_STRATEGY_LABELS[strategy]}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleAutoAssign}
+              disabled={assignmentStrategy === 'manual' || isAutoAssigning}
+              className="px-4 py-2 border border-gray-300 hover:bg-gray-50 disabled:opacity-50 text-sm font-medium rounded-lg transition-colors flex items-center gap-2"
+            >
+              <SparklesIcon className="h-4 w-4" />
+              {isAutoAssigning ? 'Assigning...' : 'Auto-assign Unassigned'}
+            </button>
+          </div>
+
+          {selectedIds.length > 0 && (
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-700">{selectedIds.length} selected</span>
+              <select
+                value={reassignTarget}
+                onChange={(e) => setReassignTarget(e.target.value)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+              >
+                <option value="">Reassign to...</option>
+                <option value="unassigned">Unassigned</option>
+                {teamMembers.map(member => (
+                  <option key={member.id} value={member.id}>
+                    {member.firstName} {member.lastName}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleReassign}
+                disabled={!reassignTarget || isReassigning}
+                className="px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:bg-gray-400 text-white text-sm font-medium rounded-lg transition-colors flex items-center gap-2"
+              >
+                <ArrowsRightLeftIcon className="h-4 w-4" />
+                {isReassigning ? 'Reassigning...' : 'Reassign'}
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Content */}
@@ -132,9 +324,19 @@ const ClientsPage: React.FC = () => {
               <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-50 border-b border-gray-200">
                   <tr>
+                    <th className="px-3 py-2 text-left">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.length === clients.length}
+                        onChange={toggleSelectAll}
+                        className="rounded border-gray-300 text-primary-600"
+                        aria-label="Select all clients"
+                      />
+                    </th>
                     <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Name</th>
                     <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Email</th>
                     <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Phone</th>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Assigned To</th>
                     <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Status</th>
                     <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Created</th>
                     <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Actions</th>
@@ -143,6 +345,15 @@ const ClientsPage: React.FC = () => {
                 <tbody className="bg-white divide-y divide-gray-200">
                   {clients.map((client) => (
                     <tr key={client.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(client.id)}
+                          onChange={() => toggleSelected(client.id)}
+                          className="rounded border-gray-300 text-primary-600"
+                          aria-label={`Select ${client.firstName} ${client.lastName}`}
+                        />
+                      </td>
                       <td className="px-3 py-2 whitespace-nowrap">
                         <div className="text-sm font-medium text-gray-900">
                           {client.firstName} {client.lastName}
@@ -154,6 +365,9 @@ const ClientsPage: React.FC = () => {
                       <td className="px-3 py-2 whitespace-nowrap">
                         <div className="text-xs text-gray-500">{client.phone || 'N/A'}</div>
                       </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <div className="text-xs text-gray-500">{client.assignedToName || 'Unassigned'}</div>
+                      </td>
                       <td className="px-3 py-2 whitespace-nowrap">
                         <span className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${
                           client.status === 'active' 
@@ -169,13 +383,36 @@ const ClientsPage: React.FC = () => {
                         {new Date(client.createdAt).toLocaleDateString()}
                       </td>
                       <td className="px-3 py-2 whitespace-nowrap text-sm font-medium">
-                        <button 
-                          onClick={() => handleDeleteClick(client.id, `${client.firstName} ${client.lastName}`)}
-                          className="text-red-600 hover:text-red-900 flex items-center gap-1"
-                        >
-                          <TrashIcon className="h-4 w-4" />
-                          Delete
-                        </button>
+                        <div className="flex items-center gap-3">
+                          <button
+                            onClick={() => setEditClient(client)}
+                            className="text-primary-600 hover:text-primary-900 flex items-center gap-1"
+                          >
+                            <PencilSquareIcon className="h-4 w-4" />
+                            Edit
+                          </button>
+                          {client.status === 'active' && (
+                            <button
+                              onClick={() => setImpersonationTarget({
+                                userType: 'client',
+                                userId: client.id,
+                                name: `${client.firstName} ${client.lastName}`,
+                                email: client.email
+                              })}
+                              className="text-amber-600 hover:text-amber-800 flex items-center gap-1"
+                            >
+                              <EyeIcon className="h-4 w-4" />
+                              View as
+                            </button>
+                          )}
+                          <button 
+                            onClick={() => handleDeleteClick(client.id, `${client.firstName} ${client.lastName}`)}
+                            className="text-red-600 hover:text-red-900 flex items-center gap-1"
+                          >
+                            <TrashIcon className="h-4 w-4" />
+                            Delete
+                          </button>
+                        </div>
                       </td>
                     </tr>
                   ))}
@@ -197,6 +434,19 @@ const ClientsPage: React.FC = () => {
           />
         )}
 
+        {/* Edit Client Modal */}
+        {editClient && (
+          <EditClientModal
+            client={editClient}
+            teamMembers={teamMembers}
+            onClose={() => setEditClient(null)}
+            onSuccess={() => {
+              setEditClient(null);
+              loadClients();
+            }}
+          />
+        )}
+
         {/* Delete Confirmation Modal */}
         <DeleteConfirmModal
           isOpen={showDeleteModal}
@@ -208,6 +458,12 @@ const ClientsPage: React.FC = () => {
           itemType="client"
           isDeleting={isDeleting}
         />
+
+        {/* Impersonation Modal */}
+        <ImpersonateUserModal
+          target={impersonationTarget}
+          onClose={() => setImpersonationTarget(null)}
+        />
       </div>
     </DashboardLayout>
   );
@@ -245,7 +501,7 @@ const CreateClientModal: React.FC<CreateClientModalProps> = ({
       const response = await TenantAdminService.createClient(formData);
       
       if (response.success) {
-        alert('Client created successfully!');
+        alert(response.data?.message || 'Client created successfully!');
         onSuccess();
       } else {
         throw new Error(response.error?.message || 'Failed to create client');
@@ -318,17 +574,19 @@ const CreateClientModal: React.FC<CreateClientModalProps> = ({
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1.5">
-              Password *
+              Password
             </label>
             <input
               type="password"
-              required
               minLength={8}
               value={formData.password}
               onChange={(e) => setFormData({ ...formData, password: e.target.value })}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 transition-colors"
               placeholder="Min 8 characters"
             />
+            <p className="mt-1 text-xs text-gray-500">
+              Leave empty if this email already has a password on the portal
+            </p>
           </div>
 
           <div>
@@ -391,4 +649,176 @@ const CreateClientModal: React.FC<CreateClientModalProps> = ({
   );
 };
 
+// Edit Client Modal Component
+interface EditClientModalProps {
+  client: ClientData;
+  teamMembers: TeamMemberData[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const EditClientModal: React.FC<EditClientModalProps> = ({
+  client,
+  teamMembers,
+  onClose,
+  onSuccess
+}) => {
+  const { showSuccess, showError } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState<UpdateClientInput>({
+    firstName: client.firstName,
+    lastName: client.lastName,
+    phone: client.phone || '',
+    nationality: client.nationality || '',
+    status: client.status as UpdateClientInput['status'],
+    assignedTo: client.assignedTo || null
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSaving(true);
+      const response = await TenantAdminService.updateClient(client.id, formData);
+
+      if (response.success) {
+        showSuccess('Client Updated', `${formData.firstName} ${formData.lastName} has been updated.`);
+        onSuccess();
+      } else {
+        throw new Error(response.error?.message || 'Failed to update client');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update client';
+      showError('Failed to Update Client', errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-lg shadow-xl p-6 max-w-lg w-full border border-gray-200">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">Edit Client</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                First Name *
+              </label>
+              <input
+                type="text"
+                required
+                value={formData.firstName}
+                onChange={(e) => setFormData({ ...formData, firstName: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 transition-colors"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                Last Name *
+              </label>
+              <input
+                type="text"
+                required
+                value={formData.lastName}
+                onChange={(e) => setFormData({ ...formData, lastName: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 transition-colors"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                Phone
+              </label>
+              <input
+                type="tel"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 transition-colors"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                Nationality
+              </label>
+              <input
+                type="text"
+                value={formData.nationality}
+                onChange={(e) => setFormData({ ...formData, nationality: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 transition-colors"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                Status
+              </label>
+              <select
+                value={formData.status}
+                onChange={(e) => setFormData({ ...formData, status: e.target.value as UpdateClientInput['status'] })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 transition-colors"
+              >
+                <option value="active">Active</option>
+                <option value="pending">Pending</option>
+                <option value="inactive">Inactive</option>
+                <option value="suspended">Suspended</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                Assigned To
+              </label>
+              <select
+                value={formData.assignedTo || ''}
+                onChange={(e) => setFormData({ ...formData, assignedTo: e.target.value || null })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 transition-colors"
+              >
+                <option value="">Unassigned</option>
+                {teamMembers.map(member => (
+                  <option key={member.id} value={member.id}>
+                    {member.firstName} {member.lastName}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 mt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isSaving}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 text-sm font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors disabled:opacity-50 text-sm font-medium"
+            >
+              {isSaving ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
 export default ClientsPage;
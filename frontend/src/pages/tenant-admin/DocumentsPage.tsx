@@ -1,10 +1,115 @@
-import React from 'react';
-import { DocumentTextIcon } from '@heroicons/react/24/outline';
+import React, { useState, useEffect, useCallback } from 'react';
+import { DocumentTextIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
 import DashboardLayout from '../../components/layout/DashboardLayout';
 import { useAuthStore } from '../../stores/auth-store';
+import { useToast } from '../../contexts/ToastContext';
+import {
+  DocumentChecklistService,
+  DocumentChecklist,
+  ChecklistItem,
+  ApplicationType
+} from '../../services/document-checklist.service';
 
 const DocumentsPage: React.FC = () => {
   const { user } = useAuthStore();
+  const { showSuccess, showError } = useToast();
+  const [checklists, setChecklists] = useState<DocumentChecklist[]>([]);
+  const [selectedType, setSelectedType] = useState<ApplicationType | null>(null);
+  const [draftItems, setDraftItems] = useState<ChecklistItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadChecklists = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await DocumentChecklistService.getChecklists();
+
+      if (response.success && response.data) {
+        setChecklists(response.data.checklists);
+        setSelectedType(current => current ?? response.data?.checklists[0]?.applicationType ?? null);
+      } else {
+        throw new Error(response.error?.message || 'Failed to load document checklists');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load document checklists';
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadChecklists();
+  }, [loadChecklists]);
+
+  // Edit a copy so unsaved changes can be discarded by switching type
+  useEffect(() => {
+    const checklist = checklists.find(entry => entry.applicationType === selectedType);
+    setDraftItems(checklist ? checklist.items.map(item => ({ ...item })) : []);
+  }, [checklists, selectedType]);
+
+  const updateItem = (index: number, changes: Partial<ChecklistItem>) => {
+    setDraftItems(items => items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const addItem = () => {
+    setDraftItems(items => [...items, { documentType: '', label: '', required: true }]);
+  };
+
+  const removeItem = (index: number) => {
+    setDraftItems(items => items.filter((_, i) => i !== index));
+  };
+
+  const replaceChecklist = (updated: DocumentChecklist) => {
+    setChecklists(current => current.map(entry =>
+      entry.applicationType === updated.applicationType ? updated : entry
+    ));
+  };
+
+  const handleSave = async () => {
+    if (!selectedType) return;
+
+    try {
+      setIsSaving(true);
+      const response = await DocumentChecklistService.updateChecklist(selectedType, draftItems);
+
+      if (response.success && response.data) {
+        replaceChecklist(response.data.checklist);
+        showSuccess('Checklist Saved', 'The document checklist has been updated.');
+      } else {
+        throw new Error(response.error?.message || 'Failed to save checklist');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save checklist';
+      showError('Failed to Save Checklist', errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!selectedType) return;
+
+    try {
+      setIsSaving(true);
+      const response = await DocumentChecklistService.resetChecklist(selectedType);
+
+      if (response.success && response.data) {
+        replaceChecklist(response.data.checklist);
+        showSuccess('Checklist Reset', 'The default document checklist has been restored.');
+      } else {
+        throw new Error(response.error?.message || 'Failed to reset checklist');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to reset checklist';
+      showError('Failed to Reset Checklist', errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
   return (
     <DashboardLayout
@@ -13,18 +118,129 @@ const DocumentsPage: React.FC = () => {
       tenantName={user?.tenantName}
     >
       <div className="max-w-7xl mx-auto px-4 lg:px-6 py-6">
-        <h1 className="text-page-title">Documents
-        </h1><p className="text-body mt-1">Manage documents and files for your organization</p>
-
-        <div className="card p-6 mt-6">
-          <div className="text-center py-12">
-            <DocumentTextIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-            <h3 className="text-section-title mb-2">Documents</h3>
-            <p className="text-body">This page will contain document management
-            </p>
-          </div>
+        <div className="mb-6">
+          <h1 className="text-page-title">Document Checklists</h1>
+          <p className="text-body mt-1">Define the required and optional documents for each application type</p>
         </div>
-      </div></DashboardLayout>
+
+        {isLoading ? (
+          <div className="text-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600 mx-auto"></div>
+            <p className="mt-2 text-sm text-gray-600">Loading...</p>
+          </div>
+        ) : error ? (
+          <div className="text-center py-6">
+            <div className="text-red-600">
+              <p className="text-base font-medium">Error loading document checklists</p>
+              <p className="text-sm">{error}</p>
+            </div>
+            <button
+              onClick={loadChecklists}
+              className="mt-3 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : checklists.length === 0 ? (
+          <div className="card p-6">
+            <div className="text-center py-12">
+              <DocumentTextIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <h3 className="text-section-title mb-2">No Application Types</h3>
+              <p className="text-body">
+                Your subscription does not include any application types.
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+            {/* Application Types */}
+            <div className="card p-2 h-fit">
+              {checklists.map((checklist) => (
+                <button
+                  key={checklist.applicationType}
+                  onClick={() => setSelectedType(checklist.applicationType)}
+                  className={`w-full text-left px-3 py-2 text-sm rounded-lg capitalize transition-colors ${
+                    checklist.applicationType === selectedType
+                      ? 'bg-primary-50 text-primary-700 font-medium'
+                      : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {checklist.applicationType.replace(/_/g, ' ')}
+                  <span className="ml-2 text-xs text-gray-500">
+                    {checklist.items.filter(item => item.required).length} required
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            {/* Checklist Editor */}
+            <div className="card p-4 lg:col-span-3">
+              <div className="space-y-2">
+                {draftItems.map((item, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <input
+                      type="text"
+                      value={item.label}
+                      onChange={(e) => updateItem(index, { label: e.target.value })}
+                      placeholder="Label, e.g. Valid passport"
+                      className="col-span-5 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+                    />
+                    <input
+                      type="text"
+                      value={item.documentType}
+                      onChange={(e) => updateItem(index, { documentType: e.target.value })}
+                      placeholder="document_type"
+                      className="col-span-4 px-3 py-2 text-sm font-mono border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+                    />
+                    <label className="col-span-2 flex items-center gap-1.5 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={item.required}
+                        onChange={(e) => updateItem(index, { required: e.target.checked })}
+                        className="rounded border-gray-300 text-primary-600"
+                      />
+                      Required
+                    </label>
+                    <button
+                      onClick={() => removeItem(index)}
+                      className="col-span-1 p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title="Remove item"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <button
+                onClick={addItem}
+                className="mt-3 px-3 py-1.5 text-sm text-primary-700 hover:bg-primary-50 rounded-lg transition-colors flex items-center gap-1"
+              >
+                <PlusIcon className="h-4 w-4" />
+                Add Document
+              </button>
+
+              <div className="mt-4 pt-4 border-t border-gray-200 flex justify-end gap-2">
+                <button
+                  onClick={handleReset}
+                  disabled={isSaving}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 hover:bg-gray-50 disabled:opacity-50 rounded-lg transition-colors"
+                >
+                  Reset to Defaults
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:bg-gray-400 text-white text-sm font-medium rounded-lg transition-colors"
+                >
+                  {isSaving ? 'Saving...' : 'Save Checklist'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
   );
 };
 
@@ -1,10 +1,93 @@
-import React from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Cog6ToothIcon } from '@heroicons/react/24/outline';
 import DashboardLayout from '../../components/layout/DashboardLayout';
+import { MfaSettingsCard } from '../../components/MfaSettingsCard';
+import { ChangePasswordCard } from '../../components/ChangePasswordCard';
+import { AdminTeamCard } from '../../components/AdminTeamCard';
+import { SecurityPolicyForm } from '../../components/SecurityPolicyForm';
+import { UsageCard } from '../../components/UsageCard';
 import { useAuthStore } from '../../stores/auth-store';
+import { useToast } from '../../contexts/ToastContext';
+import { TenantAdminService, SecuritySettings, SecurityPolicy } from '../../services/tenant-admin.service';
 
 const SettingsPage: React.FC = () => {
   const { user } = useAuthStore();
+  const { showSuccess, showError } = useToast();
+  const [security, setSecurity] = useState<SecuritySettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSecurity = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await TenantAdminService.getSecuritySettings();
+
+      if (response.success && response.data) {
+        setSecurity(response.data.settings);
+      } else {
+        throw new Error(response.error?.message || 'Failed to load security settings');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load security settings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSecurity();
+  }, [loadSecurity]);
+
+  const handleRequireStaffMfaChange = async (requireStaffMfa: boolean) => {
+    if (isSaving) return;
+
+    try {
+      setIsSaving(true);
+      const response = await TenantAdminService.updateSecuritySettings({ requireStaffMfa });
+
+      if (response.success && response.data) {
+        setSecurity(response.data.settings);
+        showSuccess(
+          'Security Settings Updated',
+          requireStaffMfa
+            ? 'Staff without two-factor authentication will be asked to set it up at their next sign-in.'
+            : 'Two-factor authentication is now optional for staff.'
+        );
+      } else {
+        throw new Error(response.error?.message || 'Failed to update security settings');
+      }
+    } catch (err) {
+      showError('Failed to Update Settings', err instanceof Error ? err.message : 'Failed to update security settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSecurityPolicySave = async (securityPolicy: SecurityPolicy) => {
+    if (isSaving || !security) return;
+
+    try {
+      setIsSaving(true);
+      const response = await TenantAdminService.updateSecuritySettings({
+        requireStaffMfa: security.requireStaffMfa,
+        securityPolicy
+      });
+
+      if (response.success && response.data) {
+        setSecurity(response.data.settings);
+        showSuccess('Security Policy Updated', 'The new rules apply to everyone in your organization.');
+      } else {
+        throw new Error(response.error?.message || 'Failed to update security policy');
+      }
+    } catch (err) {
+      showError('Failed to Update Policy', err instanceof Error ? err.message : 'Failed to update security policy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
   return (
     <DashboardLayout
@@ -18,18 +101,62 @@ const SettingsPage: React.FC = () => {
           Configure your organization settings and preferences
         </p>
 
-        <div className="bg-white border border-gray-200 rounded-lg p-4 mt-6">
-          <div className="text-center py-12">
-            <Cog6ToothIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-            <h3 className="text-base font-semibold text-gray-900 mb-2">Settings</h3>
-            <p className="text-sm text-gray-600">
-              This page will contain settings configuration
-            </p>
+        <div className="space-y-4 mt-6">
+          <UsageCard />
+
+          <div className="bg-white border border-gray-200 rounded-lg p-4">
+            <h2 className="text-base font-semibold text-gray-900 mb-1">Security</h2>
+            <p className="text-xs text-gray-500 mb-4">Sign-in requirements for your team</p>
+
+            {isLoading ? (
+              <p className="text-sm text-gray-600">Loading security settings...</p>
+            ) : error || !security ? (
+              <div className="text-center py-6">
+                <Cog6ToothIcon className="mx-auto h-10 w-10 text-gray-400 mb-3" />
+                <p className="text-sm text-red-600 mb-4">{error || 'Security settings unavailable'}</p>
+                <button
+                  onClick={loadSecurity}
+                  className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white text-sm font-medium rounded-lg transition-colors"
+                >
+                  Try Again
+                </button>
+              </div>
+            ) : (
+              <>
+                <label className="flex items-start gap-3 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={security.requireStaffMfa}
+                    disabled={isSaving}
+                    onChange={(e) => handleRequireStaffMfaChange(e.target.checked)}
+                    className="mt-0.5 rounded border-gray-300 text-primary-600"
+                  />
+                  <span>
+                    <span className="font-medium text-gray-900">Require two-factor authentication for staff</span>
+                    <span className="block text-xs text-gray-500 mt-0.5">
+                      Applies to all admins and team members. Clients are not affected.
+                    </span>
+                  </span>
+                </label>
+
+                <SecurityPolicyForm
+                  policy={security.securityPolicy}
+                  isSaving={isSaving}
+                  onSave={handleSecurityPolicySave}
+                />
+              </>
+            )}
           </div>
+
+          <AdminTeamCard />
+
+          <ChangePasswordCard />
+
+          <MfaSettingsCard />
         </div>
       </div>
     </DashboardLayout>
   );
 };
 
-export default SettingsPage;
\ No newline at end of file
+export default SettingsPage;
@@ -1,8 +1,16 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { UserGroupIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { UserGroupIcon, PlusIcon, TrashIcon, PencilSquareIcon, ShieldCheckIcon, EyeIcon } from '@heroicons/react/24/outline';
 import DashboardLayout from '../../components/layout/DashboardLayout';
+import ImpersonateUserModal, { ImpersonationTarget } from '../../components/modals/ImpersonateUserModal';
 import { useAuthStore } from '../../stores/auth-store';
-import { TenantAdminService, TeamMemberData, CreateTeamMemberInput } from '../../services/tenant-admin.service';
+import {
+  TenantAdminService,
+  TeamMemberData,
+  CreateTeamMemberInput,
+  RoleData,
+  RoleInput,
+  PermissionDefinition
+} from '../../services/tenant-admin.service';
 
 const TeamMembersPage: React.FC = () => {
   const { user } = useAuthStore();
@@ -10,6 +18,28 @@ const TeamMembersPage: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [roles, setRoles] = useState<RoleData[]>([]);
+  const [permissionCatalog, setPermissionCatalog] = useState<PermissionDefinition[]>([]);
+  const [roleEditor, setRoleEditor] = useState<{ role: RoleData | null } | null>(null);
+  const [impersonationTarget, setImpersonationTarget] = useState<ImpersonationTarget | null>(null);
+
+  const loadRoles = useCallback(async () => {
+    try {
+      const [rolesResponse, catalogResponse] = await Promise.all([
+        TenantAdminService.getRoles(),
+        TenantAdminService.getPermissionCatalog()
+      ]);
+
+      if (rolesResponse.success && rolesResponse.data) {
+        setRoles(rolesResponse.data.roles);
+      }
+      if (catalogResponse.success && catalogResponse.data) {
+        setPermissionCatalog(catalogResponse.data.permissions.filter(permission => permission.grantableToStaff));
+      }
+    } catch {
+      // Roles are optional; members keep their individual permissions
+    }
+  }, []);
 
   const loadTeamMembers = useCallback(async () => {
     try {
@@ -51,9 +81,44 @@ const TeamMembersPage: React.FC = () => {
     }
   }, [loadTeamMembers]);
 
+  const handleAssignRole = useCallback(async (member: TeamMemberData, roleId: string) => {
+    try {
+      const response = await TenantAdminService.updateTeamMember(member.id, { roleId: roleId || null });
+
+      if (response.success) {
+        await Promise.all([loadTeamMembers(), loadRoles()]);
+      } else {
+        throw new Error(response.error?.message || 'Failed to assign role');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to assign role';
+      alert(`Error: ${errorMessage}`);
+    }
+  }, [loadTeamMembers, loadRoles]);
+
+  const handleDeleteRole = useCallback(async (role: RoleData) => {
+    if (!window.confirm(`Are you sure you want to delete role "${role.name}"?`)) {
+      return;
+    }
+
+    try {
+      const response = await TenantAdminService.deleteRole(role.id);
+
+      if (response.success) {
+        await loadRoles();
+      } else {
+        throw new Error(response.error?.message || 'Failed to delete role');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete role';
+      alert(`Error: ${errorMessage}`);
+    }
+  }, [loadRoles]);
+
   useEffect(() => {
     loadTeamMembers();
-  }, [loadTeamMembers]);
+    loadRoles();
+  }, [loadTeamMembers, loadRoles]);
 
   return (
     <DashboardLayout
@@ -118,6 +183,7 @@ const TeamMembersPage: React.FC = () => {
                     <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Name</th>
                     <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Email</th>
                     <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Role</th>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Access</th>
                     <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Status</th>
                     <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Last Login</th>
                     <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Actions</th>
@@ -139,6 +205,18 @@ const TeamMembersPage: React.FC = () => {
                           {member.role.replace('_', ' ')}
                         </span>
                       </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <select
+                          value={member.roleId || ''}
+                          onChange={(e) => handleAssignRole(member, e.target.value)}
+                          className="px-2 py-1 text-xs border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+                        >
+                          <option value="">Individual permissions</option>
+                          {roles.map((role) => (
+                            <option key={role.id} value={role.id}>{role.name}</option>
+                          ))}
+                        </select>
+                      </td>
                       <td className="px-3 py-2 whitespace-nowrap">
                         <span className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${
                           member.isActive 
@@ -152,13 +230,29 @@ const TeamMembersPage: React.FC = () => {
                         {member.lastLogin ? new Date(member.lastLogin).toLocaleDateString() : 'Never'}
                       </td>
                       <td className="px-3 py-2 whitespace-nowrap text-sm font-medium">
-                        <button 
-                          onClick={() => handleDeleteTeamMember(member.id, `${member.firstName} ${member.lastName}`)}
-                          className="text-red-600 hover:text-red-900 flex items-center gap-1"
-                        >
-                          <TrashIcon className="h-4 w-4" />
-                          Delete
-                        </button>
+                        <div className="flex items-center gap-3">
+                          {member.isActive && (
+                            <button
+                              onClick={() => setImpersonationTarget({
+                                userType: 'team_member',
+                                userId: member.id,
+                                name: `${member.firstName} ${member.lastName}`,
+                                email: member.email
+                              })}
+                              className="text-amber-600 hover:text-amber-800 flex items-center gap-1"
+                            >
+                              <EyeIcon className="h-4 w-4" />
+                              View as
+                            </button>
+                          )}
+                          <button 
+                            onClick={() => handleDeleteTeamMember(member.id, `${member.firstName} ${member.lastName}`)}
+                            className="text-red-600 hover:text-red-900 flex items-center gap-1"
+                          >
+                            <TrashIcon className="h-4 w-4" />
+                            Delete
+                          </button>
+                        </div>
                       </td>
                     </tr>
                   ))}
@@ -168,17 +262,99 @@ const TeamMembersPage: React.FC = () => {
           </div>
         )}
 
+        {/* Roles */}
+        <div className="bg-white border border-gray-200 rounded-lg p-4 mt-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h2 className="text-base font-semibold text-gray-900">Roles</h2>
+              <p className="text-xs text-gray-500 mt-1">
+                Named permission sets. Changing a role updates everyone who holds it immediately.
+              </p>
+            </div>
+            <button
+              onClick={() => setRoleEditor({ role: null })}
+              className="px-3 py-1.5 bg-primary-600 hover:bg-primary-700 text-white text-sm font-medium rounded-lg transition-colors flex items-center gap-2"
+            >
+              <PlusIcon className="h-4 w-4" />
+              New Role
+            </button>
+          </div>
+
+          {roles.length === 0 ? (
+            <div className="text-center py-6">
+              <ShieldCheckIcon className="mx-auto h-10 w-10 text-gray-400 mb-3" />
+              <p className="text-sm text-gray-600">
+                No roles yet. Team members use their individual permissions.
+              </p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {roles.map((role) => (
+                <li key={role.id} className="py-3 flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{role.name}</p>
+                    {role.description && <p className="text-xs text-gray-500">{role.description}</p>}
+                    <p className="text-xs text-gray-500 mt-1">
+                      {role.permissions.length} permission{role.permissions.length === 1 ? '' : 's'}
+                      {' · '}
+                      {role.memberCount} team member{role.memberCount === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3 text-sm font-medium">
+                    <button
+                      onClick={() => setRoleEditor({ role })}
+                      className="text-primary-600 hover:text-primary-800 flex items-center gap-1"
+                    >
+                      <PencilSquareIcon className="h-4 w-4" />
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDeleteRole(role)}
+                      className="text-red-600 hover:text-red-900 flex items-center gap-1"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
         {/* Create Team Member Modal */}
         {showCreateModal && (
           <CreateTeamMemberModal
             isOpen={showCreateModal}
+            roles={roles}
             onClose={() => setShowCreateModal(false)}
             onSuccess={() => {
               setShowCreateModal(false);
               loadTeamMembers();
+              loadRoles();
             }}
           />
         )}
+
+        {/* Role Editor Modal */}
+        {roleEditor && (
+          <RoleEditorModal
+            role={roleEditor.role}
+            permissionCatalog={permissionCatalog}
+            onClose={() => setRoleEditor(null)}
+            onSuccess={() => {
+              setRoleEditor(null);
+              loadRoles();
+              loadTeamMembers();
+            }}
+          />
+        )}
+
+        {/* Impersonation Modal */}
+        <ImpersonateUserModal
+          target={impersonationTarget}
+          onClose={() => setImpersonationTarget(null)}
+        />
       </div>
     </DashboardLayout>
   );
@@ -187,12 +363,14 @@ const TeamMembersPage: React.FC = () => {
 // Create Team Member Modal Component
 interface CreateTeamMemberModalProps {
   isOpen: boolean;
+  roles: RoleData[];
   onClose: () => void;
   onSuccess: () => void;
 }
 
 const CreateTeamMemberModal: React.FC<CreateTeamMemberModalProps> = ({
   isOpen,
+  roles,
   onClose,
   onSuccess
 }) => {
@@ -213,7 +391,7 @@ const CreateTeamMemberModal: React.FC<CreateTeamMemberModalProps> = ({
       const response = await TenantAdminService.createTeamMember(formData);
       
       if (response.success) {
-        alert('Team member created successfully!');
+        alert(response.data?.message || 'Team member created successfully!');
         onSuccess();
       } else {
         throw new Error(response.error?.message || 'Failed to create team member');
@@ -286,17 +464,19 @@ const CreateTeamMemberModal: React.FC<CreateTeamMemberModalProps> = ({
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1.5">
-              Password *
+              Password
             </label>
             <input
               type="password"
-              required
               minLength={8}
               value={formData.password}
               onChange={(e) => setFormData({ ...formData, password: e.target.value })}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 transition-colors"
               placeholder="Min 8 characters"
             />
+            <p className="mt-1 text-xs text-gray-500">
+              Leave empty if this email already has a password on the portal
+            </p>
           </div>
 
           <div>
@@ -315,6 +495,24 @@ const CreateTeamMemberModal: React.FC<CreateTeamMemberModalProps> = ({
             </select>
           </div>
 
+          {roles.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                Access Role
+              </label>
+              <select
+                value={formData.roleId || ''}
+                onChange={(e) => setFormData({ ...formData, roleId: e.target.value || undefined })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 transition-colors"
+              >
+                <option value="">No role (individual permissions)</option>
+                {roles.map((role) => (
+                  <option key={role.id} value={role.id}>{role.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div className="flex justify-end gap-3 mt-4">
             <button
               type="button"
@@ -338,4 +536,165 @@ const CreateTeamMemberModal: React.FC<CreateTeamMemberModalProps> = ({
   );
 };
 
-export default TeamMembersPage;
\ No newline at end of file
+// Role Editor Modal Component
+interface RoleEditorModalProps {
+  role: RoleData | null; // null creates a new role
+  permissionCatalog: PermissionDefinition[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const PERMISSION_GROUP_LABELS: Record<PermissionDefinition['group'], string> = {
+  clients: 'Clients',
+  applications: 'Applications',
+  documents: 'Documents',
+  self_service: 'Self-service'
+};
+
+const RoleEditorModal: React.FC<RoleEditorModalProps> = ({
+  role,
+  permissionCatalog,
+  onClose,
+  onSuccess
+}) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState<RoleInput>({
+    name: role?.name || '',
+    description: role?.description || '',
+    permissions: role?.permissions || []
+  });
+
+  const groups = (Object.keys(PERMISSION_GROUP_LABELS) as PermissionDefinition['group'][])
+    .map(group => ({ group, permissions: permissionCatalog.filter(permission => permission.group === group) }))
+    .filter(entry => entry.permissions.length > 0);
+
+  const togglePermission = (key: string) => {
+    setFormData({
+      ...formData,
+      permissions: formData.permissions.includes(key)
+        ? formData.permissions.filter(permission => permission !== key)
+        : [...formData.permissions, key]
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSaving(true);
+      const response = role
+        ? await TenantAdminService.updateRole(role.id, formData)
+        : await TenantAdminService.createRole(formData);
+
+      if (response.success) {
+        onSuccess();
+      } else {
+        throw new Error(response.error?.message || 'Failed to save role');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save role';
+      alert(`Error: ${errorMessage}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-lg shadow-xl p-6 max-w-lg w-full border border-gray-200 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">{role ? 'Edit Role' : 'New Role'}</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+              Name *
+            </label>
+            <input
+              type="text"
+              required
+              maxLength={50}
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 transition-colors"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+              Description
+            </label>
+            <input
+              type="text"
+              maxLength={200}
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 transition-colors"
+            />
+          </div>
+
+          <div className="space-y-3">
+            {groups.map(({ group, permissions }) => (
+              <fieldset key={group}>
+                <legend className="text-xs font-semibold text-gray-700 uppercase tracking-wider mb-1.5">
+                  {PERMISSION_GROUP_LABELS[group]}
+                </legend>
+                <div className="space-y-1.5">
+                  {permissions.map((permission) => (
+                    <label key={permission.key} className="flex items-start gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={formData.permissions.includes(permission.key)}
+                        onChange={() => togglePermission(permission.key)}
+                        className="mt-0.5 rounded border-gray-300 text-primary-600"
+                      />
+                      <span>
+                        <span className="font-medium text-gray-900">{permission.label}</span>
+                        <span className="block text-xs text-gray-500">{permission.description}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+            ))}
+          </div>
+
+          {role && role.memberCount > 0 && (
+            <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-2">
+              {role.memberCount} team member{role.memberCount === 1 ? '' : 's'} will get the new permissions immediately.
+            </p>
+          )}
+
+          <div className="flex justify-end gap-3 mt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isSaving}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 text-sm font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors disabled:opacity-50 text-sm font-medium"
+            >
+              {isSaving ? 'Saving...' : role ? 'Save Role' : 'Create Role'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default TeamMembersPage;
\ No newline at end of file
@@ -29,6 +29,7 @@ interface RequestOptions extends Omit<RequestInit, 'signal'> {
   skipAuth?: boolean;
   skipTenant?: boolean;
   timeout?: number; // Custom timeout for specific requests
+  isRetry?: boolean; // Internal: request repeated after a session refresh
 }
 
 /**
@@ -43,6 +44,17 @@ class ApiClient {
     token: null,
     userType: null
   };
+  private sessionRefreshHandler: (() => Promise<void>) | null = null;
+  private pendingSessionRefresh: Promise<void> | null = null;
+
+  /**
+   * Set the handler that refreshes the session when the server reports
+   * that the user's permissions changed (PERMISSIONS_CHANGED) or the
+   * session went idle (SESSION_IDLE_TIMEOUT)
+   */
+  setSessionRefreshHandler(handler: (() => Promise<void>) | null): void {
+    this.sessionRefreshHandler = handler;
+  }
 
   /**
    * Set authentication token
@@ -51,6 +63,13 @@ class ApiClient {
     this.config.token = token;
   }
 
+  /**
+   * Build an absolute URL for links the browser opens directly (e.g. signed downloads)
+   */
+  resolveUrl(path: string): string {
+    return `${this.config.baseURL}${path}`;
+  }
+
   /**
    * Set tenant ID
    */
@@ -138,6 +157,20 @@ class ApiClient {
 
       clearTimeout(timeoutId);
 
+      // Token predates a permission change: refresh once and repeat the request.
+      // An idle session fails to refresh as well, which signs the user out
+      if (
+        response.status === 401 &&
+        (data.error?.code === 'PERMISSIONS_CHANGED' || data.error?.code === 'SESSION_IDLE_TIMEOUT') &&
+        this.sessionRefreshHandler &&
+        !options?.isRetry
+      ) {
+        const refreshed = await this.refreshSession();
+        if (refreshed) {
+          return this.request<T>(endpoint, { ...options, isRetry: true });
+        }
+      }
+
       // Check if request was successful
       if (!response.ok) {
         // Following BACKEND-CORE: Error response format
@@ -180,6 +213,28 @@ class ApiClient {
     }
   }
 
+  /**
+   * Refresh the session, sharing one refresh between concurrent requests
+   */
+  private async refreshSession(): Promise<boolean> {
+    if (!this.sessionRefreshHandler) {
+      return false;
+    }
+
+    if (!this.pendingSessionRefresh) {
+      this.pendingSessionRefresh = this.sessionRefreshHandler().finally(() => {
+        this.pendingSessionRefresh = null;
+      });
+    }
+
+    try {
+      await this.pendingSessionRefresh;
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * GET request
    */
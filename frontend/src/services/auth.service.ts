@@ -11,14 +11,47 @@
 import DOMPurify from 'dompurify';
 import { apiClient } from './api-client';
 import {
+  LoginRequest,
   RegisterCredentials,
+  RegisterResponse,
   AuthResponse,
   UserData,
   PasswordResetRequest,
   PasswordResetData,
-  ApiResponse
+  ChangePasswordData,
+  ApiResponse,
+  ApiError,
+  LoginTenantOption
 } from '../types/api.types';
 
+/**
+ * Raised by the team member and client logins when the email belongs to
+ * accounts in several organizations and the user has to choose one
+ */
+export class TenantSelectionError extends Error {
+  readonly tenants: LoginTenantOption[];
+
+  constructor(message: string, tenants: LoginTenantOption[]) {
+    super(message);
+    this.name = 'TenantSelectionError';
+    this.tenants = tenants;
+  }
+
+  /**
+   * Build the error from a login error response, or null for other errors
+   */
+  static fromApiError(error?: ApiError): TenantSelectionError | null {
+    if (!error || error.code !== 'TENANT_SELECTION_REQUIRED') {
+      return null;
+    }
+
+    const details = error.details as { tenants?: unknown } | undefined;
+    const tenants = Array.isArray(details?.tenants) ? details.tenants as LoginTenantOption[] : [];
+
+    return new TenantSelectionError(error.message, tenants);
+  }
+}
+
 /**
  * Authentication Service
  */
@@ -29,13 +62,14 @@ export class AuthService {
    * @param credentials - Login credentials
    * @returns Auth response with user and tokens
    */
-  static async loginSuperAdmin(credentials: { email: string; password: string }): Promise<ApiResponse<AuthResponse>> {
+  static async loginSuperAdmin(credentials: LoginRequest): Promise<ApiResponse<AuthResponse>> {
     // XSS Prevention - CORE-CRITICAL Rule 3
     const sanitizedEmail = DOMPurify.sanitize(credentials.email.trim());
 
     return apiClient.post<AuthResponse>('/api/v1/auth/login/super-admin', {
       email: sanitizedEmail.toLowerCase(),
-      password: credentials.password
+      password: credentials.password,
+      mfaCode: credentials.mfaCode
     }, { timeout: 10000 }); // 10 second timeout for login
   }
 
@@ -45,13 +79,15 @@ export class AuthService {
    * @param credentials - Login credentials
    * @returns Auth response with user and tokens
    */
-  static async loginTenantAdmin(credentials: { email: string; password: string }): Promise<ApiResponse<AuthResponse>> {
+  static async loginTenantAdmin(credentials: LoginRequest): Promise<ApiResponse<AuthResponse>> {
     // XSS Prevention - CORE-CRITICAL Rule 3
     const sanitizedEmail = DOMPurify.sanitize(credentials.email.trim());
 
     return apiClient.post<AuthResponse>('/api/v1/auth/login/tenant-admin', {
       email: sanitizedEmail.toLowerCase(),
-      password: credentials.password
+      password: credentials.password,
+      mfaCode: credentials.mfaCode,
+      tenantId: credentials.tenantId
     }, { timeout: 10000 }); // 10 second timeout for login
   }
 
@@ -61,13 +97,15 @@ export class AuthService {
    * @param credentials - Login credentials
    * @returns Auth response with user and tokens
    */
-  static async loginTeamMember(credentials: { email: string; password: string }): Promise<ApiResponse<AuthResponse>> {
+  static async loginTeamMember(credentials: LoginRequest): Promise<ApiResponse<AuthResponse>> {
     // XSS Prevention - CORE-CRITICAL Rule 3
     const sanitizedEmail = DOMPurify.sanitize(credentials.email.trim());
 
     return apiClient.post<AuthResponse>('/api/v1/auth/login/team-member', {
       email: sanitizedEmail.toLowerCase(),
-      password: credentials.password
+      password: credentials.password,
+      mfaCode: credentials.mfaCode,
+      tenantId: credentials.tenantId
     }, { timeout: 10000 }); // 10 second timeout for login
   }
 
@@ -77,13 +115,15 @@ export class AuthService {
    * @param credentials - Login credentials
    * @returns Auth response with user and tokens
    */
-  static async loginClient(credentials: { email: string; password: string }): Promise<ApiResponse<AuthResponse>> {
+  static async loginClient(credentials: LoginRequest): Promise<ApiResponse<AuthResponse>> {
     // XSS Prevention - CORE-CRITICAL Rule 3
     const sanitizedEmail = DOMPurify.sanitize(credentials.email.trim());
 
     return apiClient.post<AuthResponse>('/api/v1/auth/login/client', {
       email: sanitizedEmail.toLowerCase(),
-      password: credentials.password
+      password: credentials.password,
+      mfaCode: credentials.mfaCode,
+      tenantId: credentials.tenantId
     }, { timeout: 10000 }); // 10 second timeout for login
   }
 
@@ -91,18 +131,19 @@ export class AuthService {
    * Register new user
    * 
    * @param credentials - Registration credentials
-   * @returns Auth response with user and tokens
+   * @returns The pending account; no tokens are issued until it is activated
    */
-  static async register(credentials: RegisterCredentials): Promise<ApiResponse<AuthResponse>> {
+  static async register(credentials: RegisterCredentials): Promise<ApiResponse<RegisterResponse>> {
     // XSS Prevention - CORE-CRITICAL Rule 3
     const sanitizedEmail = DOMPurify.sanitize(credentials.email.trim());
     const sanitizedFirstName = DOMPurify.sanitize(credentials.firstName.trim());
     const sanitizedLastName = DOMPurify.sanitize(credentials.lastName.trim());
 
-    return apiClient.post<AuthResponse>('/api/v1/auth/register', {
+    return apiClient.post<RegisterResponse>('/api/v1/auth/register', {
       email: sanitizedEmail.toLowerCase(),
-      password: credentials.password,
-      confirmPassword: credentials.confirmPassword,
+      // Both empty when the email already has a password on the portal
+      password: credentials.password || undefined,
+      confirmPassword: credentials.confirmPassword || undefined,
       firstName: sanitizedFirstName,
       lastName: sanitizedLastName,
       tenantDomain: credentials.tenantDomain
@@ -178,6 +219,21 @@ export class AuthService {
     });
   }
 
+  /**
+   * Change password of the signed-in user
+   * Other devices are signed out; this one receives new tokens
+   * 
+   * @param data - Current and new password
+   * @returns New tokens
+   */
+  static async changePassword(data: ChangePasswordData): Promise<ApiResponse<{ accessToken: string; refreshToken: string; message: string }>> {
+    return apiClient.put<{ accessToken: string; refreshToken: string; message: string }>('/api/v1/auth/change-password', {
+      currentPassword: data.currentPassword,
+      newPassword: data.newPassword,
+      confirmPassword: data.confirmPassword
+    });
+  }
+
   /**
    * Verify email with token
    * 
@@ -193,9 +249,19 @@ export class AuthService {
   /**
    * Logout user
    * 
+   * @param refreshToken - Refresh token of this device, revoked server-side
    * @returns Success message
    */
-  static async logout(): Promise<ApiResponse<{ message: string }>> {
-    return apiClient.post<{ message: string }>('/api/v1/auth/logout');
+  static async logout(refreshToken?: string | null): Promise<ApiResponse<{ message: string }>> {
+    return apiClient.post<{ message: string }>('/api/v1/auth/logout', refreshToken ? { refreshToken } : {});
+  }
+
+  /**
+   * Logout user on every device
+   * 
+   * @returns Number of revoked sessions
+   */
+  static async logoutAll(): Promise<ApiResponse<{ revokedSessions: number; message: string }>> {
+    return apiClient.post<{ revokedSessions: number; message: string }>('/api/v1/auth/logout-all');
   }
 }
@@ -0,0 +1,120 @@
+/**
+ * Client Profile Service
+ * API calls for the client's self-service profile
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 3: XSS prevention (DOMPurify sanitization)
+ * - Rule 5: API timeouts (via apiClient)
+ * - Rule 9: TypeScript strict (no 'any')
+ */
+
+import DOMPurify from 'dompurify';
+import { apiClient } from './api-client';
+import { ApiResponse } from '../types/api.types';
+
+export interface EmergencyContact {
+  name: string;
+  phone: string;
+  relationship: string;
+}
+
+export interface NotificationPreferences {
+  email: boolean;
+  push: boolean;
+  sms: boolean;
+}
+
+/**
+ * Client Profile Interface
+ */
+export interface ClientProfile {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  status: 'active' | 'inactive' | 'pending' | 'suspended';
+  emailVerified: boolean;
+  assignedToName?: string;
+  profile: {
+    phone?: string;
+    dateOfBirth?: string;
+    nationality?: string;
+    address?: string;
+    emergencyContact?: EmergencyContact;
+  };
+  preferences: {
+    theme: 'light' | 'dark' | 'system';
+    notifications: NotificationPreferences;
+  };
+  lastLogin?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Update Client Profile Input
+ * Empty strings clear a field; a null emergency contact removes it
+ */
+export interface UpdateClientProfileInput {
+  firstName?: string;
+  lastName?: string;
+  profile?: {
+    phone?: string;
+    dateOfBirth?: string;
+    nationality?: string;
+    address?: string;
+    emergencyContact?: EmergencyContact | null;
+  };
+  preferences?: {
+    theme?: 'light' | 'dark' | 'system';
+    notifications?: Partial<NotificationPreferences>;
+  };
+}
+
+const sanitize = (value: string | undefined): string | undefined => (
+  value === undefined ? undefined : DOMPurify.sanitize(value.trim())
+);
+
+/**
+ * Client Profile Service
+ */
+export class ClientProfileService {
+  /**
+   * Get my profile
+   */
+  static async getProfile(): Promise<ApiResponse<{ profile: ClientProfile }>> {
+    return apiClient.get<{ profile: ClientProfile }>('/api/v1/client/my-profile');
+  }
+
+  /**
+   * Update my profile
+   */
+  static async updateProfile(
+    input: UpdateClientProfileInput
+  ): Promise<ApiResponse<{ profile: ClientProfile; message: string }>> {
+    // XSS Prevention - CORE-CRITICAL Rule 3
+    const { profile } = input;
+    const sanitizedInput: UpdateClientProfileInput = {
+      ...input,
+      firstName: sanitize(input.firstName),
+      lastName: sanitize(input.lastName),
+      profile: profile
+        ? {
+          phone: sanitize(profile.phone),
+          dateOfBirth: profile.dateOfBirth,
+          nationality: sanitize(profile.nationality),
+          address: sanitize(profile.address),
+          emergencyContact: profile.emergencyContact
+            ? {
+              name: DOMPurify.sanitize(profile.emergencyContact.name.trim()),
+              phone: DOMPurify.sanitize(profile.emergencyContact.phone.trim()),
+              relationship: DOMPurify.sanitize(profile.emergencyContact.relationship.trim())
+            }
+            : profile.emergencyContact
+        }
+        : undefined
+    };
+
+    return apiClient.put<{ profile: ClientProfile; message: string }>('/api/v1/client/my-profile', sanitizedInput);
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Document Checklist Service
+ * API calls for per-application-type document checklists and completeness
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 3: XSS prevention (DOMPurify sanitization)
+ * - Rule 5: API timeouts (via apiClient)
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ */
+
+import DOMPurify from 'dompurify';
+import { apiClient } from './api-client';
+import { ApiResponse } from '../types/api.types';
+
+export type ApplicationType =
+  | 'visitor_visa'
+  | 'study_visa'
+  | 'work_permit'
+  | 'permanent_residence'
+  | 'family_sponsorship'
+  | 'business_immigration';
+
+/**
+ * Checklist Item Interface
+ */
+export interface ChecklistItem {
+  documentType: string;
+  label: string;
+  description?: string;
+  required: boolean;
+}
+
+/**
+ * Document Checklist Interface
+ */
+export interface DocumentChecklist {
+  applicationType: ApplicationType;
+  items: ChecklistItem[];
+  updatedAt?: string;
+}
+
+/**
+ * Application Completeness Interface
+ */
+export interface ApplicationCompleteness {
+  applicationId: string;
+  clientId: string;
+  applicationType: ApplicationType;
+  status: string;
+  percentage: number;
+  requiredCount: number;
+  providedCount: number;
+  missing: ChecklistItem[];
+  items: Array<ChecklistItem & { provided: boolean }>;
+}
+
+/**
+ * Document Checklist Service
+ */
+export class DocumentChecklistService {
+  /**
+   * Get all checklists (tenant admin)
+   */
+  static async getChecklists(): Promise<ApiResponse<{ checklists: DocumentChecklist[]; count: number }>> {
+    return apiClient.get<{ checklists: DocumentChecklist[]; count: number }>('/api/v1/tenant-admin/document-checklists');
+  }
+
+  /**
+   * Replace a checklist (tenant admin)
+   */
+  static async updateChecklist(
+    applicationType: ApplicationType,
+    items: ChecklistItem[]
+  ): Promise<ApiResponse<{ checklist: DocumentChecklist; message: string }>> {
+    // XSS Prevention - CORE-CRITICAL Rule 3
+    const sanitizedItems = items.map(item => ({
+      documentType: DOMPurify.sanitize(item.documentType.trim()),
+      label: DOMPurify.sanitize(item.label.trim()),
+      description: item.description ? DOMPurify.sanitize(item.description.trim()) : undefined,
+      required: item.required
+    }));
+
+    return apiClient.put<{ checklist: DocumentChecklist; message: string }>(
+      `/api/v1/tenant-admin/document-checklists/${applicationType}`,
+      { items: sanitizedItems }
+    );
+  }
+
+  /**
+   * Restore the default checklist (tenant admin)
+   */
+  static async resetChecklist(
+    applicationType: ApplicationType
+  ): Promise<ApiResponse<{ checklist: DocumentChecklist; message: string }>> {
+    return apiClient.post<{ checklist: DocumentChecklist; message: string }>(
+      `/api/v1/tenant-admin/document-checklists/${applicationType}/reset`
+    );
+  }
+
+  /**
+   * Completeness of all open applications (tenant admin)
+   */
+  static async getTenantCompleteness(): Promise<ApiResponse<{ applications: ApplicationCompleteness[]; count: number }>> {
+    return apiClient.get<{ applications: ApplicationCompleteness[]; count: number }>(
+      '/api/v1/tenant-admin/applications/completeness'
+    );
+  }
+
+  /**
+   * Completeness of assigned applications (team member)
+   */
+  static async getAssignedCompleteness(): Promise<ApiResponse<{ applications: ApplicationCompleteness[]; count: number }>> {
+    return apiClient.get<{ applications: ApplicationCompleteness[]; count: number }>(
+      '/api/v1/team-member/applications/completeness'
+    );
+  }
+
+  /**
+   * Completeness of my applications (client)
+   */
+  static async getMyCompleteness(): Promise<ApiResponse<{ applications: ApplicationCompleteness[]; count: number }>> {
+    return apiClient.get<{ applications: ApplicationCompleteness[]; count: number }>(
+      '/api/v1/client/my-applications/completeness'
+    );
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Impersonation Service
+ * API calls for support sessions as another user
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 5: API timeouts (via apiClient)
+ * - Rule 9: TypeScript strict (no 'any')
+ */
+
+import DOMPurify from 'dompurify';
+import { apiClient } from './api-client';
+import { ApiResponse, UserData } from '../types/api.types';
+
+/**
+ * Real user behind an impersonation session
+ */
+export interface Impersonator {
+  userId: string;
+  userType: 'super_admin' | 'tenant_admin';
+  email: string;
+}
+
+/**
+ * Start Impersonation Input
+ * Super admins may impersonate tenant admins, team members and clients;
+ * tenant admins their own team members and clients
+ */
+export interface StartImpersonationInput {
+  userType: 'tenant_admin' | 'team_member' | 'client';
+  userId: string;
+  reason: string;
+  readOnly: boolean;
+  durationMinutes?: number;
+}
+
+/**
+ * Impersonation Session Interface
+ */
+export interface ImpersonationSession {
+  accessToken: string;
+  expiresAt: string;
+  readOnly: boolean;
+  user: UserData;
+  impersonatedBy: Impersonator;
+}
+
+/**
+ * Impersonation in progress, as shown in the dashboard banner
+ */
+export type ActiveImpersonation = Omit<ImpersonationSession, 'accessToken' | 'user'>;
+
+/**
+ * Impersonation Service Class
+ */
+export class ImpersonationService {
+  /**
+   * Start impersonating a user
+   *
+   * @param impersonatorType - Endpoint of the signed-in user's role
+   */
+  static async start(
+    impersonatorType: Impersonator['userType'],
+    input: StartImpersonationInput
+  ): Promise<ApiResponse<ImpersonationSession & { message: string }>> {
+    const path = impersonatorType === 'super_admin' ? 'super-admin' : 'tenant-admin';
+
+    return apiClient.post<ImpersonationSession & { message: string }>(`/api/v1/${path}/impersonation`, {
+      ...input,
+      reason: DOMPurify.sanitize(input.reason.trim())
+    });
+  }
+
+  /**
+   * End the current impersonation session (called with the impersonation token)
+   */
+  static async end(): Promise<ApiResponse<{ message: string }>> {
+    return apiClient.post<{ message: string }>('/api/v1/auth/impersonation/end');
+  }
+}
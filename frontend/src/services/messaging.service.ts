@@ -0,0 +1,167 @@
+/**
+ * Messaging Service
+ * API calls for client-consultant message threads
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 3: XSS prevention (DOMPurify sanitization)
+ * - Rule 5: API timeouts (via apiClient)
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ */
+
+import DOMPurify from 'dompurify';
+import { apiClient } from './api-client';
+import { ApiResponse } from '../types/api.types';
+
+export type MessagingRole = 'client' | 'team_member';
+
+/**
+ * Message Thread Interface
+ */
+export interface MessageThread {
+  id: string;
+  clientId: string;
+  applicationId?: string;
+  subject: string;
+  lastMessageAt: string;
+  lastMessagePreview?: string;
+  unreadCount: number;
+  createdAt: string;
+}
+
+/**
+ * Message Attachment Interface
+ */
+export interface MessageAttachment {
+  id: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Message Interface
+ */
+export interface Message {
+  id: string;
+  threadId: string;
+  senderId: string;
+  senderType: MessagingRole;
+  body: string;
+  attachments: MessageAttachment[];
+  readAt?: string;
+  createdAt: string;
+}
+
+/**
+ * Create Thread Input Interface
+ */
+export interface CreateThreadInput {
+  clientId?: string; // required for team members
+  applicationId?: string;
+  subject: string;
+  body: string;
+  attachments?: string[];
+}
+
+/**
+ * Client Document Interface (attachment picker)
+ */
+export interface ClientDocument {
+  id: string;
+  documentType: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+}
+
+const basePath = (role: MessagingRole): string =>
+  role === 'client' ? '/api/v1/client/messages' : '/api/v1/team-member/messages';
+
+/**
+ * Messaging Service
+ */
+export class MessagingService {
+  /**
+   * Get my message threads
+   */
+  static async getThreads(role: MessagingRole): Promise<ApiResponse<{ threads: MessageThread[] }>> {
+    return apiClient.get<{ threads: MessageThread[] }>(`${basePath(role)}/threads`);
+  }
+
+  /**
+   * Get a thread with its messages (marks it read)
+   */
+  static async getThread(
+    role: MessagingRole,
+    threadId: string
+  ): Promise<ApiResponse<{ thread: MessageThread; messages: Message[] }>> {
+    return apiClient.get<{ thread: MessageThread; messages: Message[] }>(`${basePath(role)}/threads/${threadId}`);
+  }
+
+  /**
+   * Start a new thread
+   */
+  static async createThread(
+    role: MessagingRole,
+    input: CreateThreadInput
+  ): Promise<ApiResponse<{ thread: MessageThread; firstMessage: Message; message: string }>> {
+    // XSS Prevention - CORE-CRITICAL Rule 3
+    const sanitizedInput: CreateThreadInput = {
+      ...input,
+      subject: DOMPurify.sanitize(input.subject.trim()),
+      body: DOMPurify.sanitize(input.body.trim())
+    };
+
+    return apiClient.post<{ thread: MessageThread; firstMessage: Message; message: string }>(
+      `${basePath(role)}/threads`,
+      sanitizedInput
+    );
+  }
+
+  /**
+   * Reply to a thread
+   */
+  static async postMessage(
+    role: MessagingRole,
+    threadId: string,
+    body: string,
+    attachments: string[] = []
+  ): Promise<ApiResponse<{ sentMessage: Message; message: string }>> {
+    return apiClient.post<{ sentMessage: Message; message: string }>(
+      `${basePath(role)}/threads/${threadId}/messages`,
+      {
+        body: DOMPurify.sanitize(body.trim()),
+        attachments
+      }
+    );
+  }
+
+  /**
+   * Total unread messages
+   */
+  static async getUnreadCount(role: MessagingRole): Promise<ApiResponse<{ unreadCount: number }>> {
+    return apiClient.get<{ unreadCount: number }>(`${basePath(role)}/unread-count`);
+  }
+
+  /**
+   * My uploaded documents, offered as attachments (client)
+   */
+  static async getMyDocuments(): Promise<ApiResponse<{ documents: ClientDocument[]; count: number }>> {
+    return apiClient.get<{ documents: ClientDocument[]; count: number }>('/api/v1/client/documents');
+  }
+
+  /**
+   * Signed download link for an attachment
+   */
+  static async getAttachmentUrl(documentId: string): Promise<string> {
+    const response = await apiClient.get<{ url: string; expiresAt: string }>(`/api/v1/documents/${documentId}/url`);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error?.message || 'Failed to create download link');
+    }
+
+    return apiClient.resolveUrl(response.data.url);
+  }
+}
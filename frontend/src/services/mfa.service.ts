@@ -0,0 +1,111 @@
+/**
+ * MFA Service
+ * API calls for two-factor authentication enrollment and management
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 5: API timeouts (via apiClient)
+ * - Rule 9: TypeScript strict (no 'any')
+ */
+
+import { apiClient } from './api-client';
+import { ApiError, ApiResponse } from '../types/api.types';
+
+/**
+ * MFA Status Interface
+ */
+export interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  backupCodesRemaining: number;
+  enabledAt?: string;
+}
+
+/**
+ * MFA Setup Interface
+ * qrCode is a data: URL; secret is shown for manual entry
+ */
+export interface MfaSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+export type MfaChallengeCode = 'MFA_REQUIRED' | 'MFA_ENROLLMENT_REQUIRED';
+
+/**
+ * Raised by the login actions when the password was accepted but a second
+ * factor (or enrollment) is needed before tokens are issued
+ */
+export class MfaChallengeError extends Error {
+  readonly code: MfaChallengeCode;
+  readonly enrollmentToken?: string;
+
+  constructor(code: MfaChallengeCode, message: string, enrollmentToken?: string) {
+    super(message);
+    this.name = 'MfaChallengeError';
+    this.code = code;
+    this.enrollmentToken = enrollmentToken;
+  }
+
+  /**
+   * Build a challenge from a login error response, or null for other errors
+   */
+  static fromApiError(error?: ApiError): MfaChallengeError | null {
+    if (!error || (error.code !== 'MFA_REQUIRED' && error.code !== 'MFA_ENROLLMENT_REQUIRED')) {
+      return null;
+    }
+
+    const details = error.details as { enrollmentToken?: unknown } | undefined;
+    const enrollmentToken = typeof details?.enrollmentToken === 'string' ? details.enrollmentToken : undefined;
+
+    return new MfaChallengeError(error.code, error.message, enrollmentToken);
+  }
+}
+
+/**
+ * MFA Service
+ */
+export class MfaService {
+  /**
+   * Get MFA status of the signed-in user
+   */
+  static async getStatus(): Promise<ApiResponse<{ mfa: MfaStatus }>> {
+    return apiClient.get<{ mfa: MfaStatus }>('/api/v1/auth/mfa/status');
+  }
+
+  /**
+   * Start setup; pass the enrollment token when enrolling during login
+   */
+  static async startSetup(enrollmentToken?: string): Promise<ApiResponse<{ setup: MfaSetup }>> {
+    return apiClient.post<{ setup: MfaSetup }>('/api/v1/auth/mfa/setup', { enrollmentToken });
+  }
+
+  /**
+   * Confirm setup with the first code from the authenticator app
+   */
+  static async enable(
+    code: string,
+    enrollmentToken?: string
+  ): Promise<ApiResponse<{ backupCodes: string[]; message: string }>> {
+    return apiClient.post<{ backupCodes: string[]; message: string }>('/api/v1/auth/mfa/enable', {
+      code: code.trim(),
+      enrollmentToken
+    });
+  }
+
+  /**
+   * Turn MFA off
+   */
+  static async disable(code: string): Promise<ApiResponse<{ message: string }>> {
+    return apiClient.post<{ message: string }>('/api/v1/auth/mfa/disable', { code: code.trim() });
+  }
+
+  /**
+   * Replace backup codes
+   */
+  static async regenerateBackupCodes(code: string): Promise<ApiResponse<{ backupCodes: string[]; message: string }>> {
+    return apiClient.post<{ backupCodes: string[]; message: string }>('/api/v1/auth/mfa/backup-codes', {
+      code: code.trim()
+    });
+  }
+}
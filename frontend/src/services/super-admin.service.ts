@@ -11,9 +11,11 @@
 import DOMPurify from 'dompurify';
 import { apiClient } from './api-client';
 import { ApiResponse } from '../types/api.types';
+import { SubscriptionPlanData } from './subscription-plan.service';
 
 /**
  * Tenant Data Interface
+ * Limits and features come from the tenant's subscription plan
  */
 export interface TenantData {
   id: string;
@@ -21,23 +23,20 @@ export interface TenantData {
   domain: string;
   subdomain?: string;
   status: string;
+  planId?: string;
   plan: string;
+  planName: string;
+  adminId?: string;
   adminEmail: string;
   adminFirstName: string;
   adminLastName: string;
   adminLastLogin?: Date;
   maxTeamMembers: number;
   maxClients: number;
+  maxStorage: number;
   currentTeamMembers: number;
   currentClients: number;
-  features: {
-    visitorVisa: boolean;
-    studyVisa: boolean;
-    workPermit: boolean;
-    permanentResidence: boolean;
-    familySponsorship: boolean;
-    businessImmigration: boolean;
-  };
+  features: Partial<SubscriptionPlanData['features']>;
   metadata?: {
     rcicNumber?: string;
     businessAddress?: string;
@@ -58,17 +57,7 @@ export interface CreateTenantInput {
   adminPassword: string;
   adminFirstName: string;
   adminLastName: string;
-  plan?: 'free' | 'basic' | 'premium' | 'enterprise';
-  maxTeamMembers?: number;
-  maxClients?: number;
-  features?: {
-    visitorVisa?: boolean;
-    studyVisa?: boolean;
-    workPermit?: boolean;
-    permanentResidence?: boolean;
-    familySponsorship?: boolean;
-    businessImmigration?: boolean;
-  };
+  planId?: string;
   metadata?: {
     rcicNumber?: string;
     businessAddress?: string;
@@ -84,19 +73,9 @@ export interface UpdateTenantInput {
   domain?: string;
   subdomain?: string;
   status?: 'active' | 'inactive' | 'suspended';
-  plan?: 'free' | 'basic' | 'premium' | 'enterprise';
+  planId?: string;
   adminFirstName?: string;
   adminLastName?: string;
-  maxTeamMembers?: number;
-  maxClients?: number;
-  features?: {
-    visitorVisa?: boolean;
-    studyVisa?: boolean;
-    workPermit?: boolean;
-    permanentResidence?: boolean;
-    familySponsorship?: boolean;
-    businessImmigration?: boolean;
-  };
   metadata?: {
     rcicNumber?: string;
     businessAddress?: string;
@@ -145,13 +124,10 @@ export class SuperAdminService {
       domain: DOMPurify.sanitize(input.domain.trim().toLowerCase()),
       subdomain: input.subdomain ? DOMPurify.sanitize(input.subdomain.trim().toLowerCase()) : undefined,
       adminEmail: DOMPurify.sanitize(input.adminEmail.trim().toLowerCase()),
-      adminPassword: input.adminPassword, // Don't sanitize password
+      adminPassword: input.adminPassword || undefined, // Don't sanitize password; empty when the email already has one on the portal
       adminFirstName: DOMPurify.sanitize(input.adminFirstName.trim()),
       adminLastName: DOMPurify.sanitize(input.adminLastName.trim()),
-      plan: input.plan,
-      maxTeamMembers: input.maxTeamMembers,
-      maxClients: input.maxClients,
-      features: input.features,
+      planId: input.planId ? DOMPurify.sanitize(input.planId) : undefined,
       metadata: input.metadata ? {
         rcicNumber: input.metadata.rcicNumber ? DOMPurify.sanitize(input.metadata.rcicNumber) : undefined,
         businessAddress: input.metadata.businessAddress ? DOMPurify.sanitize(input.metadata.businessAddress) : undefined,
@@ -180,12 +156,9 @@ export class SuperAdminService {
     if (input.domain) sanitizedInput.domain = DOMPurify.sanitize(input.domain.trim().toLowerCase());
     if (input.subdomain) sanitizedInput.subdomain = DOMPurify.sanitize(input.subdomain.trim().toLowerCase());
     if (input.status) sanitizedInput.status = input.status;
-    if (input.plan) sanitizedInput.plan = input.plan;
+    if (input.planId) sanitizedInput.planId = DOMPurify.sanitize(input.planId);
     if (input.adminFirstName) sanitizedInput.adminFirstName = DOMPurify.sanitize(input.adminFirstName.trim());
     if (input.adminLastName) sanitizedInput.adminLastName = DOMPurify.sanitize(input.adminLastName.trim());
-    if (input.maxTeamMembers !== undefined) sanitizedInput.maxTeamMembers = input.maxTeamMembers;
-    if (input.maxClients !== undefined) sanitizedInput.maxClients = input.maxClients;
-    if (input.features) sanitizedInput.features = input.features;
     if (input.metadata) {
       sanitizedInput.metadata = {
         rcicNumber: input.metadata.rcicNumber ? DOMPurify.sanitize(input.metadata.rcicNumber) : undefined,
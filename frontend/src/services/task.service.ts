@@ -0,0 +1,145 @@
+/**
+ * Task Service
+ * API calls for team member task management
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 3: XSS prevention (DOMPurify sanitization)
+ * - Rule 5: API timeouts (via apiClient)
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ */
+
+import DOMPurify from 'dompurify';
+import { apiClient } from './api-client';
+import { ApiResponse } from '../types/api.types';
+
+export type TaskStatus = 'open' | 'in_progress' | 'completed' | 'cancelled';
+export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
+export type TaskScope = 'assigned' | 'created' | 'all';
+
+/**
+ * Task Interface
+ */
+export interface Task {
+  id: string;
+  title: string;
+  description?: string;
+  dueDate?: string;
+  priority: TaskPriority;
+  status: TaskStatus;
+  assignedTo: string;
+  createdBy?: string;
+  clientId?: string;
+  applicationId?: string;
+  source: 'manual' | 'status_change';
+  triggerStatus?: string;
+  isOverdue: boolean;
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Task Filters Interface
+ */
+export interface TaskFilters {
+  scope?: TaskScope;
+  status?: TaskStatus;
+  priority?: TaskPriority;
+  clientId?: string;
+  overdue?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Task Input Interface
+ */
+export interface TaskInput {
+  title: string;
+  description?: string;
+  dueDate?: string;
+  priority?: TaskPriority;
+  assignedTo?: string;
+  clientId?: string;
+  applicationId?: string;
+}
+
+/**
+ * Task List Response Interface
+ */
+export interface TaskListResponse {
+  tasks: Task[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+/**
+ * Task Service
+ */
+export class TaskService {
+  /**
+   * Get my tasks
+   */
+  static async getTasks(filters: TaskFilters = {}): Promise<ApiResponse<TaskListResponse>> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        params.append(key, String(value));
+      }
+    });
+
+    const query = params.toString();
+    return apiClient.get<TaskListResponse>(`/api/v1/team-member/tasks${query ? `?${query}` : ''}`);
+  }
+
+  /**
+   * Get my overdue tasks
+   */
+  static async getOverdueTasks(): Promise<ApiResponse<{ tasks: Task[]; count: number }>> {
+    return apiClient.get<{ tasks: Task[]; count: number }>('/api/v1/team-member/tasks/overdue');
+  }
+
+  /**
+   * Create a task
+   */
+  static async createTask(input: TaskInput): Promise<ApiResponse<{ task: Task; message: string }>> {
+    // XSS Prevention - CORE-CRITICAL Rule 3
+    const sanitizedInput: TaskInput = {
+      ...input,
+      title: DOMPurify.sanitize(input.title.trim()),
+      description: input.description ? DOMPurify.sanitize(input.description.trim()) : undefined
+    };
+
+    return apiClient.post<{ task: Task; message: string }>('/api/v1/team-member/tasks', sanitizedInput);
+  }
+
+  /**
+   * Update a task
+   */
+  static async updateTask(
+    taskId: string,
+    changes: Partial<TaskInput> & { status?: TaskStatus }
+  ): Promise<ApiResponse<{ task: Task; message: string }>> {
+    const sanitizedChanges = {
+      ...changes,
+      title: changes.title ? DOMPurify.sanitize(changes.title.trim()) : undefined,
+      description: changes.description ? DOMPurify.sanitize(changes.description.trim()) : changes.description
+    };
+
+    return apiClient.put<{ task: Task; message: string }>(`/api/v1/team-member/tasks/${taskId}`, sanitizedChanges);
+  }
+
+  /**
+   * Delete a task
+   */
+  static async deleteTask(taskId: string): Promise<ApiResponse<{ message: string }>> {
+    return apiClient.delete<{ message: string }>(`/api/v1/team-member/tasks/${taskId}`);
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Team Member Service
+ * API calls for a team member's assigned clients and their applications
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 3: XSS prevention (DOMPurify sanitization)
+ * - Rule 5: API timeouts (via apiClient)
+ * - Rule 9: TypeScript strict (no 'any')
+ * - Rule 10: Multi-tenant isolation
+ */
+
+import DOMPurify from 'dompurify';
+import { apiClient } from './api-client';
+import { ApiResponse, ApplicationData } from '../types/api.types';
+import { ClientData } from './tenant-admin.service';
+
+export type ApplicationStatus = ApplicationData['status'];
+export type ApplicationType = ApplicationData['type'];
+export type ApplicationPriority = ApplicationData['priority'];
+
+/**
+ * Assigned Client Interface
+ */
+export interface AssignedClient extends ClientData {
+  address?: string;
+  lastLogin?: string;
+  openApplications: number;
+}
+
+/**
+ * Update Assigned Client Input
+ */
+export interface UpdateAssignedClientInput {
+  firstName?: string;
+  lastName?: string;
+  status?: 'active' | 'inactive' | 'pending' | 'suspended';
+  profile?: {
+    phone?: string;
+    nationality?: string;
+    address?: string;
+  };
+}
+
+/**
+ * Application Input Interfaces
+ */
+export interface CreateApplicationInput {
+  clientId: string;
+  type: ApplicationType;
+  priority?: ApplicationPriority;
+  notes?: string;
+}
+
+export interface UpdateApplicationInput {
+  status?: ApplicationStatus;
+  reason?: string;
+  priority?: ApplicationPriority;
+  notes?: string;
+}
+
+/**
+ * Team Member Service
+ */
+export class TeamMemberService {
+  /**
+   * Get my assigned clients
+   */
+  static async getMyClients(): Promise<ApiResponse<{ clients: AssignedClient[]; count: number }>> {
+    return apiClient.get<{ clients: AssignedClient[]; count: number }>('/api/v1/team-member/my-clients');
+  }
+
+  /**
+   * Update an assigned client
+   */
+  static async updateClient(
+    clientId: string,
+    input: UpdateAssignedClientInput
+  ): Promise<ApiResponse<{ client: AssignedClient; message: string }>> {
+    // XSS Prevention - CORE-CRITICAL Rule 3
+    const sanitizedInput: UpdateAssignedClientInput = {
+      ...input,
+      firstName: input.firstName ? DOMPurify.sanitize(input.firstName.trim()) : undefined,
+      lastName: input.lastName ? DOMPurify.sanitize(input.lastName.trim()) : undefined,
+      profile: input.profile
+        ? {
+          phone: input.profile.phone ? DOMPurify.sanitize(input.profile.phone.trim()) : undefined,
+          nationality: input.profile.nationality ? DOMPurify.sanitize(input.profile.nationality.trim()) : undefined,
+          address: input.profile.address ? DOMPurify.sanitize(input.profile.address.trim()) : undefined
+        }
+        : undefined
+    };
+
+    return apiClient.put<{ client: AssignedClient; message: string }>(
+      `/api/v1/team-member/clients/${DOMPurify.sanitize(clientId)}`,
+      sanitizedInput
+    );
+  }
+
+  /**
+   * Get applications of my assigned clients
+   */
+  static async getApplications(
+    filters: { clientId?: string; status?: ApplicationStatus; type?: ApplicationType } = {}
+  ): Promise<ApiResponse<{ applications: ApplicationData[]; count: number }>> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) {
+        params.append(key, value);
+      }
+    });
+
+    const query = params.toString();
+    return apiClient.get<{ applications: ApplicationData[]; count: number }>(
+      `/api/v1/team-member/applications${query ? `?${query}` : ''}`
+    );
+  }
+
+  /**
+   * Create an application for an assigned client
+   */
+  static async createApplication(
+    input: CreateApplicationInput
+  ): Promise<ApiResponse<{ application: ApplicationData; message: string }>> {
+    return apiClient.post<{ application: ApplicationData; message: string }>('/api/v1/team-member/applications', {
+      ...input,
+      notes: input.notes ? DOMPurify.sanitize(input.notes.trim()) : undefined
+    });
+  }
+
+  /**
+   * Update an application of an assigned client
+   */
+  static async updateApplication(
+    applicationId: string,
+    input: UpdateApplicationInput
+  ): Promise<ApiResponse<{ application: ApplicationData; message: string }>> {
+    return apiClient.put<{ application: ApplicationData; message: string }>(
+      `/api/v1/team-member/applications/${DOMPurify.sanitize(applicationId)}`,
+      {
+        ...input,
+        reason: input.reason ? DOMPurify.sanitize(input.reason.trim()) : undefined,
+        notes: input.notes !== undefined ? DOMPurify.sanitize(input.notes.trim()) : undefined
+      }
+    );
+  }
+}
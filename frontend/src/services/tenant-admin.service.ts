@@ -24,6 +24,7 @@ export interface TeamMemberData {
   lastName: string;
   role: 'admin' | 'visa_specialist' | 'work_permit_specialist' | 'case_manager';
   specializations: string[];
+  roleId?: string; // custom role supplying the permissions
   permissions: string[];
   isActive: boolean;
   lastLogin?: Date;
@@ -61,9 +62,18 @@ export interface CreateTeamMemberInput {
   lastName: string;
   role?: 'admin' | 'visa_specialist' | 'work_permit_specialist' | 'case_manager';
   specializations?: string[];
+  roleId?: string;
   permissions?: string[];
 }
 
+/**
+ * Update Team Member Input
+ * roleId: null removes the custom role
+ */
+export type UpdateTeamMemberInput = Partial<Omit<CreateTeamMemberInput, 'roleId'>> & {
+  roleId?: string | null;
+};
+
 /**
  * Create Client Input
  */
@@ -78,6 +88,137 @@ export interface CreateClientInput {
   assignedTo?: string;
 }
 
+/**
+ * Update Client Input
+ * assignedTo: null removes the assignment
+ */
+export interface UpdateClientInput {
+  firstName?: string;
+  lastName?: string;
+  phone?: string;
+  dateOfBirth?: string;
+  nationality?: string;
+  status?: 'active' | 'inactive' | 'pending' | 'suspended';
+  assignedTo?: string | null;
+}
+
+/**
+ * Reassign Clients Result
+ */
+export interface ReassignClientsResult {
+  reassigned: number;
+  assignedTo: string | null;
+  assignedToName?: string;
+}
+
+export type ClientAssignmentStrategy = 'manual' | 'round_robin' | 'least_loaded' | 'specialization';
+
+/**
+ * Auto-Assign Clients Result
+ */
+export interface AutoAssignClientsResult {
+  strategy: ClientAssignmentStrategy;
+  assigned: number;
+  skipped: number;
+  assignments: Array<{ clientId: string; teamMemberId: string; teamMemberName: string }>;
+}
+
+/**
+ * Security Policy
+ * Password, lockout and session rules for every account of the organization.
+ * 0 disables the age, lockout and idle limits (lockout falls back to the
+ * platform default); allowedIpRanges limits where staff can sign in from
+ */
+export interface SecurityPolicy {
+  passwordMinLength: number;
+  passwordRequireUppercase: boolean;
+  passwordRequireLowercase: boolean;
+  passwordRequireNumber: boolean;
+  passwordRequireSymbol: boolean;
+  passwordBlockBreached: boolean;
+  passwordMaxAgeDays: number;
+  passwordHistoryCount: number;
+  maxLoginAttempts: number;
+  lockoutDurationMinutes: number;
+  idleSessionTimeoutMinutes: number;
+  allowedIpRanges: string[];
+}
+
+/**
+ * Security Settings
+ * requireStaffMfa forces tenant admins and team members to use two-factor authentication
+ */
+export interface SecuritySettings {
+  requireStaffMfa: boolean;
+  securityPolicy: SecurityPolicy;
+}
+
+/**
+ * Security settings update; the policy is left unchanged when omitted
+ */
+export type UpdateSecuritySettingsInput = Omit<SecuritySettings, 'securityPolicy'> & {
+  securityPolicy?: SecurityPolicy;
+};
+
+/**
+ * Tenant Admin Account
+ * One of the organization's admins; the owner manages the others
+ */
+export interface TenantAdminAccount {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  isOwner: boolean;
+  emailVerified: boolean;
+  invitedBy?: string;
+  lastLogin?: Date;
+  createdAt: Date;
+}
+
+/**
+ * Invite Admin Input
+ */
+export interface InviteAdminInput {
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+/**
+ * Permission Definition
+ * Entry of the server's permission catalog
+ */
+export interface PermissionDefinition {
+  key: string;
+  label: string;
+  description: string;
+  group: 'clients' | 'applications' | 'documents' | 'self_service';
+  grantableToStaff: boolean;
+}
+
+/**
+ * Custom Role Data
+ */
+export interface RoleData {
+  id: string;
+  name: string;
+  description?: string;
+  permissions: string[];
+  memberCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Role Input
+ */
+export interface RoleInput {
+  name: string;
+  description?: string;
+  permissions: string[];
+}
+
 /**
  * Tenant Analytics Interface
  */
@@ -108,11 +249,12 @@ export class TenantAdminService {
     // XSS Prevention - CORE-CRITICAL Rule 3
     const sanitizedInput = {
       email: DOMPurify.sanitize(input.email.trim().toLowerCase()),
-      password: input.password, // Don't sanitize password
+      password: input.password || undefined, // Don't sanitize password; empty when the email already has one on the portal
       firstName: DOMPurify.sanitize(input.firstName.trim()),
       lastName: DOMPurify.sanitize(input.lastName.trim()),
       role: input.role || 'case_manager',
       specializations: input.specializations || [],
+      ...(input.roleId && { roleId: DOMPurify.sanitize(input.roleId) }),
       permissions: input.permissions || []
     };
 
@@ -127,16 +269,17 @@ export class TenantAdminService {
    */
   static async updateTeamMember(
     teamMemberId: string,
-    input: Partial<CreateTeamMemberInput>
+    input: UpdateTeamMemberInput
   ): Promise<ApiResponse<{ teamMember: TeamMemberData; message: string }>> {
     // XSS Prevention - CORE-CRITICAL Rule 3
     const sanitizedId = DOMPurify.sanitize(teamMemberId);
-    const sanitizedInput: Partial<CreateTeamMemberInput> = {};
+    const sanitizedInput: UpdateTeamMemberInput = {};
 
     if (input.firstName) sanitizedInput.firstName = DOMPurify.sanitize(input.firstName.trim());
     if (input.lastName) sanitizedInput.lastName = DOMPurify.sanitize(input.lastName.trim());
     if (input.role) sanitizedInput.role = input.role;
     if (input.specializations) sanitizedInput.specializations = input.specializations;
+    if (input.roleId !== undefined) sanitizedInput.roleId = input.roleId ? DOMPurify.sanitize(input.roleId) : null;
     if (input.permissions) sanitizedInput.permissions = input.permissions;
 
     return apiClient.put<{ teamMember: TeamMemberData; message: string }>(
@@ -168,7 +311,7 @@ export class TenantAdminService {
     // XSS Prevention - CORE-CRITICAL Rule 3 & Rule 12: Validate ALL external data
     const sanitizedInput = {
       email: DOMPurify.sanitize(input.email.trim().toLowerCase()),
-      password: input.password, // Don't sanitize password
+      password: input.password || undefined, // Don't sanitize password; empty when the email already has one on the portal
       firstName: DOMPurify.sanitize(input.firstName.trim()),
       lastName: DOMPurify.sanitize(input.lastName.trim()),
       phone: input.phone ? DOMPurify.sanitize(input.phone.trim()) : undefined,
@@ -183,23 +326,35 @@ export class TenantAdminService {
     );
   }
 
+  /**
+   * Get client
+   */
+  static async getClient(clientId: string): Promise<ApiResponse<{ client: ClientData }>> {
+    // XSS Prevention - CORE-CRITICAL Rule 3
+    const sanitizedId = DOMPurify.sanitize(clientId);
+    return apiClient.get<{ client: ClientData }>(`/api/v1/tenant-admin/clients/${sanitizedId}`);
+  }
+
   /**
    * Update client
    */
   static async updateClient(
     clientId: string,
-    input: Partial<CreateClientInput>
+    input: UpdateClientInput
   ): Promise<ApiResponse<{ client: ClientData; message: string }>> {
     // XSS Prevention - CORE-CRITICAL Rule 3
     const sanitizedId = DOMPurify.sanitize(clientId);
-    const sanitizedInput: Partial<CreateClientInput> = {};
+    const sanitizedInput: UpdateClientInput = {};
 
     if (input.firstName) sanitizedInput.firstName = DOMPurify.sanitize(input.firstName.trim());
     if (input.lastName) sanitizedInput.lastName = DOMPurify.sanitize(input.lastName.trim());
     if (input.phone) sanitizedInput.phone = DOMPurify.sanitize(input.phone.trim());
     if (input.dateOfBirth) sanitizedInput.dateOfBirth = DOMPurify.sanitize(input.dateOfBirth);
     if (input.nationality) sanitizedInput.nationality = DOMPurify.sanitize(input.nationality.trim());
-    if (input.assignedTo) sanitizedInput.assignedTo = DOMPurify.sanitize(input.assignedTo);
+    if (input.status) sanitizedInput.status = input.status;
+    if (input.assignedTo !== undefined) {
+      sanitizedInput.assignedTo = input.assignedTo ? DOMPurify.sanitize(input.assignedTo) : null;
+    }
 
     return apiClient.put<{ client: ClientData; message: string }>(
       `/api/v1/tenant-admin/clients/${sanitizedId}`,
@@ -207,6 +362,22 @@ export class TenantAdminService {
     );
   }
 
+  /**
+   * Move clients to another team member (null unassigns them)
+   */
+  static async reassignClients(
+    clientIds: string[],
+    teamMemberId: string | null
+  ): Promise<ApiResponse<ReassignClientsResult & { message: string }>> {
+    return apiClient.post<ReassignClientsResult & { message: string }>(
+      '/api/v1/tenant-admin/clients/reassign',
+      {
+        clientIds: clientIds.map(id => DOMPurify.sanitize(id)),
+        teamMemberId: teamMemberId ? DOMPurify.sanitize(teamMemberId) : null
+      }
+    );
+  }
+
   /**
    * Delete client
    */
@@ -216,6 +387,145 @@ export class TenantAdminService {
     return apiClient.delete<{ message: string }>(`/api/v1/tenant-admin/clients/${sanitizedId}`);
   }
 
+  /**
+   * Assign all unassigned clients using the tenant's assignment strategy
+   */
+  static async autoAssignClients(
+    strategy?: ClientAssignmentStrategy
+  ): Promise<ApiResponse<AutoAssignClientsResult & { message: string }>> {
+    return apiClient.post<AutoAssignClientsResult & { message: string }>(
+      '/api/v1/tenant-admin/clients/auto-assign',
+      strategy ? { strategy } : {}
+    );
+  }
+
+  /**
+   * Get client assignment settings
+   */
+  static async getClientAssignmentSettings(): Promise<ApiResponse<{ settings: { strategy: ClientAssignmentStrategy } }>> {
+    return apiClient.get<{ settings: { strategy: ClientAssignmentStrategy } }>('/api/v1/tenant-admin/settings/client-assignment');
+  }
+
+  /**
+   * Change the client assignment strategy
+   */
+  static async updateClientAssignmentSettings(
+    strategy: ClientAssignmentStrategy
+  ): Promise<ApiResponse<{ settings: { strategy: ClientAssignmentStrategy }; message: string }>> {
+    return apiClient.put<{ settings: { strategy: ClientAssignmentStrategy }; message: string }>(
+      '/api/v1/tenant-admin/settings/client-assignment',
+      { strategy }
+    );
+  }
+
+  /**
+   * Get security settings
+   */
+  static async getSecuritySettings(): Promise<ApiResponse<{ settings: SecuritySettings }>> {
+    return apiClient.get<{ settings: SecuritySettings }>('/api/v1/tenant-admin/settings/security');
+  }
+
+  /**
+   * Update security settings
+   */
+  static async updateSecuritySettings(
+    settings: UpdateSecuritySettingsInput
+  ): Promise<ApiResponse<{ settings: SecuritySettings; message: string }>> {
+    return apiClient.put<{ settings: SecuritySettings; message: string }>(
+      '/api/v1/tenant-admin/settings/security',
+      settings
+    );
+  }
+
+  /**
+   * Get the permissions custom roles can grant
+   */
+  static async getPermissionCatalog(): Promise<ApiResponse<{ permissions: PermissionDefinition[] }>> {
+    return apiClient.get<{ permissions: PermissionDefinition[] }>('/api/v1/tenant-admin/roles/permissions');
+  }
+
+  /**
+   * Get custom roles
+   */
+  static async getRoles(): Promise<ApiResponse<{ roles: RoleData[] }>> {
+    return apiClient.get<{ roles: RoleData[] }>('/api/v1/tenant-admin/roles');
+  }
+
+  /**
+   * Create custom role
+   */
+  static async createRole(input: RoleInput): Promise<ApiResponse<{ role: RoleData; message: string }>> {
+    // XSS Prevention - CORE-CRITICAL Rule 3
+    return apiClient.post<{ role: RoleData; message: string }>('/api/v1/tenant-admin/roles', {
+      name: DOMPurify.sanitize(input.name.trim()),
+      description: input.description ? DOMPurify.sanitize(input.description.trim()) : undefined,
+      permissions: input.permissions
+    });
+  }
+
+  /**
+   * Update custom role
+   * Permission changes apply to every team member holding the role
+   */
+  static async updateRole(roleId: string, input: RoleInput): Promise<ApiResponse<{ role: RoleData; message: string }>> {
+    // XSS Prevention - CORE-CRITICAL Rule 3
+    const sanitizedId = DOMPurify.sanitize(roleId);
+    return apiClient.put<{ role: RoleData; message: string }>(`/api/v1/tenant-admin/roles/${sanitizedId}`, {
+      name: DOMPurify.sanitize(input.name.trim()),
+      description: DOMPurify.sanitize((input.description || '').trim()),
+      permissions: input.permissions
+    });
+  }
+
+  /**
+   * Delete custom role
+   */
+  static async deleteRole(roleId: string): Promise<ApiResponse<{ message: string }>> {
+    // XSS Prevention - CORE-CRITICAL Rule 3
+    const sanitizedId = DOMPurify.sanitize(roleId);
+    return apiClient.delete<{ message: string }>(`/api/v1/tenant-admin/roles/${sanitizedId}`);
+  }
+
+  /**
+   * Get the organization's admins, owner first
+   */
+  static async getAdmins(): Promise<ApiResponse<{ admins: TenantAdminAccount[] }>> {
+    return apiClient.get<{ admins: TenantAdminAccount[] }>('/api/v1/tenant-admin/admins');
+  }
+
+  /**
+   * Invite an admin (owner only)
+   */
+  static async inviteAdmin(input: InviteAdminInput): Promise<ApiResponse<{ admin: TenantAdminAccount; message: string }>> {
+    // XSS Prevention - CORE-CRITICAL Rule 3
+    return apiClient.post<{ admin: TenantAdminAccount; message: string }>('/api/v1/tenant-admin/admins', {
+      email: DOMPurify.sanitize(input.email.trim()).toLowerCase(),
+      firstName: DOMPurify.sanitize(input.firstName.trim()),
+      lastName: DOMPurify.sanitize(input.lastName.trim())
+    });
+  }
+
+  /**
+   * Remove an admin
+   * The owner may remove anyone else; other admins only themselves
+   */
+  static async removeAdmin(adminId: string): Promise<ApiResponse<{ message: string }>> {
+    // XSS Prevention - CORE-CRITICAL Rule 3
+    const sanitizedId = DOMPurify.sanitize(adminId);
+    return apiClient.delete<{ message: string }>(`/api/v1/tenant-admin/admins/${sanitizedId}`);
+  }
+
+  /**
+   * Make another admin the owner (owner only)
+   */
+  static async transferOwnership(adminId: string): Promise<ApiResponse<{ admins: TenantAdminAccount[]; message: string }>> {
+    // XSS Prevention - CORE-CRITICAL Rule 3
+    const sanitizedId = DOMPurify.sanitize(adminId);
+    return apiClient.post<{ admins: TenantAdminAccount[]; message: string }>(
+      `/api/v1/tenant-admin/admins/${sanitizedId}/transfer-ownership`
+    );
+  }
+
   /**
    * Get tenant analytics
    */
@@ -0,0 +1,66 @@
+/**
+ * Usage Service
+ * API calls for metered tenant usage against plan limits
+ *
+ * Following CORE-CRITICAL Rules:
+ * - Rule 3: XSS prevention (DOMPurify sanitization)
+ * - Rule 5: API timeouts (via apiClient)
+ * - Rule 9: TypeScript strict (no 'any')
+ */
+
+import DOMPurify from 'dompurify';
+import { apiClient } from './api-client';
+import { ApiResponse } from '../types/api.types';
+
+export type UsageMetric = 'apiCalls' | 'documentUploads' | 'storageBytes' | 'activeClients' | 'seats';
+
+/**
+ * Tenant Usage Interface
+ * Usage of one billing period (calendar month, UTC)
+ */
+export interface TenantUsage {
+  tenantId: string;
+  tenantName: string;
+  period: string; // YYYY-MM
+  periodStart: string;
+  periodEnd: string;
+  plan?: {
+    id: string;
+    slug: string;
+    name: string;
+  };
+  usage: Record<UsageMetric, number>;
+  limits: Record<UsageMetric, number> | null;
+  measuredAt: string | null;
+}
+
+const periodQuery = (period?: string): string =>
+  period ? `?period=${encodeURIComponent(DOMPurify.sanitize(period))}` : '';
+
+/**
+ * Usage Service Class
+ */
+export class UsageService {
+  /**
+   * Get usage of the signed-in tenant admin's organization
+   */
+  static async getMyUsage(period?: string): Promise<ApiResponse<{ usage: TenantUsage }>> {
+    return apiClient.get<{ usage: TenantUsage }>(`/api/v1/tenant-admin/usage${periodQuery(period)}`);
+  }
+
+  /**
+   * Get usage of all tenants (super admin)
+   */
+  static async getAllUsage(period?: string): Promise<ApiResponse<{ usage: TenantUsage[]; count: number }>> {
+    return apiClient.get<{ usage: TenantUsage[]; count: number }>(`/api/v1/super-admin/usage${periodQuery(period)}`);
+  }
+
+  /**
+   * Get usage of one tenant (super admin)
+   */
+  static async getTenantUsage(tenantId: string, period?: string): Promise<ApiResponse<{ usage: TenantUsage }>> {
+    // XSS Prevention - CORE-CRITICAL Rule 3
+    const sanitizedId = DOMPurify.sanitize(tenantId);
+    return apiClient.get<{ usage: TenantUsage }>(`/api/v1/super-admin/tenants/${sanitizedId}/usage${periodQuery(period)}`);
+  }
+}
@@ -9,12 +9,30 @@
  */
 
 import { create } from 'zustand';
-import { AuthService } from '../services/auth.service';
+import { AuthService, TenantSelectionError } from '../services/auth.service';
 import { apiClient } from '../services/api-client';
-import { RegisterCredentials, UserData } from '../types/api.types';
+import { ChangePasswordData, LoginRequest, RegisterCredentials, RegisterResponse, UserData } from '../types/api.types';
+import { MfaChallengeError } from '../services/mfa.service';
+import { ImpersonationService, ActiveImpersonation, StartImpersonationInput } from '../services/impersonation.service';
 import { TenantBranding } from '../types/tenant-branding.types';
 import { getTenantBranding, applyTenantBrandingToPage } from '../services/tenant-branding.service';
 
+// Impersonation in progress and the session to return to afterwards
+const IMPERSONATION_KEY = 'impersonation';
+
+interface StoredImpersonation extends ActiveImpersonation {
+  original: { token: string; refreshToken: string | null };
+}
+
+const readStoredImpersonation = (): StoredImpersonation | null => {
+  try {
+    const stored = localStorage.getItem(IMPERSONATION_KEY);
+    return stored ? JSON.parse(stored) as StoredImpersonation : null;
+  } catch {
+    return null;
+  }
+};
+
 /**
  * Auth Store State Interface
  */
@@ -29,19 +47,23 @@ interface AuthState {
   error: string | null;
   tenantBranding: TenantBranding | null;
   isInitialized: boolean; // Track if auth has been initialized
+  impersonation: ActiveImpersonation | null;
 
   // In-flight request tracking - CORE-CRITICAL Rule 4: Race conditions
   isLoginInProgress: boolean;
   isRegisterInProgress: boolean;
 
   // Actions
-  loginSuperAdmin: (credentials: { email: string; password: string }) => Promise<void>;
-  loginTenantAdmin: (credentials: { email: string; password: string }) => Promise<void>;
-  loginTeamMember: (credentials: { email: string; password: string }) => Promise<void>;
-  loginClient: (credentials: { email: string; password: string }) => Promise<void>;
-  register: (credentials: RegisterCredentials) => Promise<void>;
-  logout: () => Promise<void>;
+  loginSuperAdmin: (credentials: LoginRequest) => Promise<void>;
+  loginTenantAdmin: (credentials: LoginRequest) => Promise<void>;
+  loginTeamMember: (credentials: LoginRequest) => Promise<void>;
+  loginClient: (credentials: LoginRequest) => Promise<void>;
+  register: (credentials: RegisterCredentials) => Promise<RegisterResponse | undefined>;
+  logout: (options?: { allDevices?: boolean }) => Promise<void>;
   refreshAccessToken: () => Promise<void>;
+  changePassword: (data: ChangePasswordData) => Promise<void>;
+  startImpersonation: (input: StartImpersonationInput) => Promise<UserData>;
+  endImpersonation: () => Promise<void>;
   clearError: () => void;
   cancelLogin: () => void;
   setUser: (user: UserData | null) => void;
@@ -66,6 +88,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   error: null,
   tenantBranding: null,
   isInitialized: false,
+  impersonation: null,
   isLoginInProgress: false,
   isRegisterInProgress: false,
 
@@ -73,7 +96,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
    * Super Admin Login
    * Following CORE-CRITICAL Rule 4: Prevent race conditions
    */
-  loginSuperAdmin: async (credentials: { email: string; password: string }) => {
+  loginSuperAdmin: async (credentials: LoginRequest) => {
     // Prevent concurrent login requests - CORE-CRITICAL Rule 4
     if (get().isLoginInProgress) {
       return;
@@ -85,7 +108,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       const response = await AuthService.loginSuperAdmin(credentials);
 
       if (!response.success || !response.data) {
-        throw new Error(response.error?.message || 'Login failed');
+        throw MfaChallengeError.fromApiError(response.error) ?? new Error(response.error?.message || 'Login failed');
       }
 
       const { user, tokens } = response.data;
@@ -114,6 +137,12 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         error: null,
       });
     } catch (error) {
+      // Second step is handled by the login form, not shown as an error
+      if (error instanceof MfaChallengeError) {
+        set({ isLoading: false, isLoginInProgress: false });
+        throw error;
+      }
+
       let errorMessage = 'Login failed';
       
       if (error instanceof Error) {
@@ -145,7 +174,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
    * Tenant Admin Login
    * Following CORE-CRITICAL Rule 4: Prevent race conditions
    */
-  loginTenantAdmin: async (credentials: { email: string; password: string }) => {
+  loginTenantAdmin: async (credentials: LoginRequest) => {
     // Prevent concurrent login requests - CORE-CRITICAL Rule 4
     if (get().isLoginInProgress) {
       return;
@@ -157,7 +186,9 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       const response = await AuthService.loginTenantAdmin(credentials);
 
       if (!response.success || !response.data) {
-        throw new Error(response.error?.message || 'Login failed');
+        throw MfaChallengeError.fromApiError(response.error)
+          ?? TenantSelectionError.fromApiError(response.error)
+          ?? new Error(response.error?.message || 'Login failed');
       }
 
       const { user, tokens } = response.data;
@@ -189,6 +220,12 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       // DISABLED: Tenant branding now loaded by useTenantBranding() hook in App.tsx
       // await get().loadTenantBranding();
     } catch (error) {
+      // Second step is handled by the login form, not shown as an error
+      if (error instanceof MfaChallengeError || error instanceof TenantSelectionError) {
+        set({ isLoading: false, isLoginInProgress: false });
+        throw error;
+      }
+
       let errorMessage = 'Login failed';
       
       if (error instanceof Error) {
@@ -220,7 +257,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
    * Team Member Login
    * Following CORE-CRITICAL Rule 4: Prevent race conditions
    */
-  loginTeamMember: async (credentials: { email: string; password: string }) => {
+  loginTeamMember: async (credentials: LoginRequest) => {
     // Prevent concurrent login requests - CORE-CRITICAL Rule 4
     if (get().isLoginInProgress) {
       return;
@@ -232,7 +269,9 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       const response = await AuthService.loginTeamMember(credentials);
 
       if (!response.success || !response.data) {
-        throw new Error(response.error?.message || 'Login failed');
+        throw MfaChallengeError.fromApiError(response.error)
+          ?? TenantSelectionError.fromApiError(response.error)
+          ?? new Error(response.error?.message || 'Login failed');
       }
 
       const { user, tokens } = response.data;
@@ -264,6 +303,12 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       // DISABLED: Tenant branding now loaded by useTenantBranding() hook in App.tsx
       // await get().loadTenantBranding();
     } catch (error) {
+      // Second step is handled by the login form, not shown as an error
+      if (error instanceof MfaChallengeError || error instanceof TenantSelectionError) {
+        set({ isLoading: false, isLoginInProgress: false });
+        throw error;
+      }
+
       let errorMessage = 'Login failed';
       
       if (error instanceof Error) {
@@ -295,7 +340,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
    * Client Login
    * Following CORE-CRITICAL Rule 4: Prevent race conditions
    */
-  loginClient: async (credentials: { email: string; password: string }) => {
+  loginClient: async (credentials: LoginRequest) => {
     // Prevent concurrent login requests - CORE-CRITICAL Rule 4
     if (get().isLoginInProgress) {
       return;
@@ -307,7 +352,9 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       const response = await AuthService.loginClient(credentials);
 
       if (!response.success || !response.data) {
-        throw new Error(response.error?.message || 'Login failed');
+        throw MfaChallengeError.fromApiError(response.error)
+          ?? TenantSelectionError.fromApiError(response.error)
+          ?? new Error(response.error?.message || 'Login failed');
       }
 
       const { user, tokens } = response.data;
@@ -339,6 +386,12 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       // DISABLED: Tenant branding now loaded by useTenantBranding() hook in App.tsx
       // await get().loadTenantBranding();
     } catch (error) {
+      // Second step is handled by the login form, not shown as an error
+      if (error instanceof MfaChallengeError || error instanceof TenantSelectionError) {
+        set({ isLoading: false, isLoginInProgress: false });
+        throw error;
+      }
+
       let errorMessage = 'Login failed';
       
       if (error instanceof Error) {
@@ -385,30 +438,14 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         throw new Error(response.error?.message || 'Registration failed');
       }
 
-      const { user, tokens } = response.data;
-
-      // Store tokens securely - handle storage quota errors
-      try {
-        localStorage.setItem('auth_token', tokens.accessToken);
-        localStorage.setItem('refresh_token', tokens.refreshToken);
-        localStorage.setItem('last_activity', Date.now().toString());
-      } catch (storageError) {
-        // Storage quota exceeded or disabled
-        throw new Error('Unable to save authentication data. Please check browser storage settings.');
-      }
-
-      // Update API client
-      apiClient.setToken(tokens.accessToken);
-
+      // Self-registered accounts start pending, so the user is not signed in yet
       set({
-        user,
-        token: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
-        isAuthenticated: true,
         isLoading: false,
         isRegisterInProgress: false,
         error: null,
       });
+
+      return response.data;
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : 'Registration failed',
@@ -421,10 +458,21 @@ export const useAuthStore = create<AuthState>((set, get) => ({
 
   /**
    * Logout user
+   * allDevices revokes every session of the user, not only this one
    */
-  logout: async () => {
+  logout: async (options?: { allDevices?: boolean }) => {
+    // Signing out of an impersonation returns to the impersonator's session
+    if (get().impersonation) {
+      await get().endImpersonation();
+      return;
+    }
+
     try {
-      await AuthService.logout();
+      if (options?.allDevices) {
+        await AuthService.logoutAll();
+      } else {
+        await AuthService.logout(get().refreshToken);
+      }
     } catch (error) {
       // Log error but still clear local state
       // TODO: Replace with proper logger
@@ -500,6 +548,121 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     }
   },
 
+  /**
+   * Change password
+   * The server signs out every other device and returns new tokens for this one
+   */
+  changePassword: async (data: ChangePasswordData) => {
+    const response = await AuthService.changePassword(data);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error?.message || 'Failed to change password');
+    }
+
+    const { accessToken, refreshToken } = response.data;
+
+    // Update tokens - handle storage errors
+    try {
+      localStorage.setItem('auth_token', accessToken);
+      localStorage.setItem('refresh_token', refreshToken);
+    } catch (storageError) {
+      // Storage quota exceeded - logout user
+      get().logout();
+      throw new Error('Unable to save tokens. Storage quota exceeded.');
+    }
+
+    apiClient.setToken(accessToken);
+
+    set({
+      token: accessToken,
+      refreshToken,
+    });
+  },
+
+  /**
+   * Start Impersonation
+   * Switches to a session as another user; the current session is kept
+   * aside and restored by endImpersonation
+   *
+   * @returns The impersonated user
+   */
+  startImpersonation: async (input: StartImpersonationInput) => {
+    const { user, token, refreshToken } = get();
+
+    if (!user || !token || (user.userType !== 'super_admin' && user.userType !== 'tenant_admin')) {
+      throw new Error('Only super admins and tenant admins can impersonate users');
+    }
+
+    const response = await ImpersonationService.start(user.userType, input);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error?.message || 'Failed to start impersonation');
+    }
+
+    const { accessToken, user: target, readOnly, expiresAt, impersonatedBy } = response.data;
+    const impersonation: ActiveImpersonation = { readOnly, expiresAt, impersonatedBy };
+
+    try {
+      const stored: StoredImpersonation = { ...impersonation, original: { token, refreshToken } };
+      localStorage.setItem(IMPERSONATION_KEY, JSON.stringify(stored));
+      localStorage.setItem('auth_token', accessToken);
+      localStorage.removeItem('refresh_token');
+    } catch (storageError) {
+      throw new Error('Unable to save authentication data. Please check browser storage settings.');
+    }
+
+    apiClient.setUserContext(accessToken, target.tenantId || null, target.userType);
+
+    set({
+      user: target,
+      token: accessToken,
+      refreshToken: null,
+      tenantId: target.tenantId || null,
+      impersonation,
+    });
+
+    return target;
+  },
+
+  /**
+   * End Impersonation
+   * Ends the session server-side and restores the impersonator's session
+   */
+  endImpersonation: async () => {
+    const stored = readStoredImpersonation();
+
+    try {
+      await ImpersonationService.end();
+    } catch (error) {
+      // The impersonation token may already have expired; restore regardless
+    }
+
+    localStorage.removeItem(IMPERSONATION_KEY);
+    set({ impersonation: null });
+
+    if (!stored) {
+      await get().logout();
+      return;
+    }
+
+    localStorage.setItem('auth_token', stored.original.token);
+    if (stored.original.refreshToken) {
+      localStorage.setItem('refresh_token', stored.original.refreshToken);
+    }
+    apiClient.setToken(stored.original.token);
+    set({ token: stored.original.token, refreshToken: stored.original.refreshToken, isLoading: true });
+
+    const response = await AuthService.getProfile();
+    if (!response.success || !response.data) {
+      await get().logout();
+      return;
+    }
+
+    const { user } = response.data;
+    apiClient.setUserContext(stored.original.token, user.tenantId || null, user.userType);
+    set({ user, tenantId: user.tenantId || null, isLoading: false });
+  },
+
   /**
    * Clear error message
    */
@@ -531,6 +694,17 @@ export const useAuthStore = create<AuthState>((set, get) => ({
    * SECURITY: Only auto-login if user was recently active (within session)
    */
   initializeAuth: async () => {
+    // An impersonation that ran out while the page was closed hands back the original session
+    let storedImpersonation = readStoredImpersonation();
+    if (storedImpersonation && new Date(storedImpersonation.expiresAt).getTime() <= Date.now()) {
+      localStorage.setItem('auth_token', storedImpersonation.original.token);
+      if (storedImpersonation.original.refreshToken) {
+        localStorage.setItem('refresh_token', storedImpersonation.original.refreshToken);
+      }
+      localStorage.removeItem(IMPERSONATION_KEY);
+      storedImpersonation = null;
+    }
+
     const token = localStorage.getItem('auth_token');
     const refreshToken = localStorage.getItem('refresh_token');
     const lastActivity = localStorage.getItem('last_activity');
@@ -544,6 +718,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       localStorage.removeItem('auth_token');
       localStorage.removeItem('refresh_token');
       localStorage.removeItem('last_activity');
+      localStorage.removeItem(IMPERSONATION_KEY);
       set({ isInitialized: true });
       return;
     }
@@ -566,12 +741,20 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         isAuthenticated: true,
         isLoading: false,
         isInitialized: true,
+        impersonation: storedImpersonation
+          ? {
+              readOnly: storedImpersonation.readOnly,
+              expiresAt: storedImpersonation.expiresAt,
+              impersonatedBy: storedImpersonation.impersonatedBy,
+            }
+          : null,
       });
     } catch (error) {
       // Token is invalid, clear everything
       localStorage.removeItem('auth_token');
       localStorage.removeItem('refresh_token');
       localStorage.removeItem('last_activity');
+      localStorage.removeItem(IMPERSONATION_KEY);
       apiClient.setToken(null);
 
       set({
@@ -616,3 +799,6 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     }
   },
 }));
+
+// Permission changes invalidate access tokens; refresh and let the request retry
+apiClient.setSessionRefreshHandler(() => useAuthStore.getState().refreshAccessToken());
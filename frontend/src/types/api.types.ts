@@ -24,6 +24,26 @@ export interface LoginCredentials {
   rememberMe?: boolean;
 }
 
+/**
+ * Login request body; mfaCode is sent on the second step for accounts using MFA,
+ * tenantId when the email belongs to accounts in several organizations
+ */
+export interface LoginRequest {
+  email: string;
+  password: string;
+  mfaCode?: string;
+  tenantId?: string;
+}
+
+/**
+ * Organization offered when a login has to pick one
+ */
+export interface LoginTenantOption {
+  id: string;
+  name: string;
+  domain: string;
+}
+
 export interface RegisterCredentials {
   email: string;
   password: string;
@@ -33,6 +53,22 @@ export interface RegisterCredentials {
   tenantDomain?: string;
 }
 
+export interface RegisterResponse {
+  user: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+    tenantId: string;
+    tenantName: string;
+    status: 'active' | 'inactive' | 'pending' | 'suspended';
+    emailVerified: boolean;
+    requiresEmailVerification: boolean;
+    awaitingConfirmation: boolean;
+  };
+  message: string;
+}
+
 export interface AuthResponse {
   user: UserData;
   tokens: {
@@ -52,6 +88,7 @@ export interface UserData {
   tenantId?: string;
   tenantName?: string;
   tenantDomain?: string;
+  isOwner?: boolean; // tenant admins only
   applicationType?: 'visitor_visa' | 'study_visa' | 'work_permit' | 'permanent_residence' | 'family_sponsorship' | 'business_immigration';
   applicationStatus?: 'draft' | 'submitted' | 'in_review' | 'approved' | 'rejected' | 'in_progress';
   permissions: string[];
@@ -98,13 +135,21 @@ export interface PasswordResetData {
   confirmPassword: string;
 }
 
+export interface ChangePasswordData {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
 // RCIC System Types
 export interface TenantData {
   id: string;
   name: string;
   domain: string;
   status: 'active' | 'inactive' | 'suspended';
-  plan: 'free' | 'basic' | 'premium' | 'enterprise';
+  planId?: string;
+  plan: string;
+  planName: string;
   adminEmail: string;
   adminFirstName: string;
   adminLastName: string;